@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach, vi, type MockInstance } from 'vitest'
 import { GraphQLClient, RateLimiter } from '../graphql-client'
+import type { GraphQLSnapshots } from '@lesca/browser-automation'
 import { GraphQLError, RateLimitError } from '@lesca/error'
 import type { AuthCredentials, Problem } from '@lesca/shared/types'
 import { TieredCache } from '@lesca/shared/utils'
@@ -362,8 +363,7 @@ describe('GraphQLClient', () => {
 
       const call = fetchSpy.mock.calls[0]
       const headers = (call?.[1] as RequestInit | undefined)?.headers as
-        | Record<string, string>
-        | undefined
+        Record<string, string> | undefined
 
       expect(headers?.['Cookie']).toBeUndefined()
     })
@@ -559,6 +559,68 @@ describe('GraphQLClient', () => {
     })
   })
 
+  describe('snapshots', () => {
+    const query =
+      'query getProblem($titleSlug: String!) { question(titleSlug: $titleSlug) { title } }'
+
+    function createSnapshots(mode: 'record' | 'replay', recorded?: unknown) {
+      return {
+        mode,
+        getDirectory: () => '/snapshots',
+        find: vi.fn(() =>
+          Promise.resolve(recorded === undefined ? undefined : { status: 200, body: recorded })
+        ),
+        record: vi.fn(() => Promise.resolve()),
+      }
+    }
+
+    it('should record responses with their operation name and variables', async () => {
+      fetchSpy.mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ data: { question: { title: 'Two Sum' } } }),
+        headers: new Headers(),
+      } as Response)
+      const snapshots = createSnapshots('record')
+
+      const client = new GraphQLClient({ snapshots: snapshots as unknown as GraphQLSnapshots })
+      await client.query(query, { titleSlug: 'two-sum' })
+
+      expect(snapshots.record).toHaveBeenCalledWith({
+        url: 'https://leetcode.com/graphql',
+        method: 'POST',
+        postData: JSON.stringify({
+          operationName: 'getProblem',
+          query,
+          variables: { titleSlug: 'two-sum' },
+        }),
+        status: 200,
+        body: { data: { question: { title: 'Two Sum' } } },
+      })
+    })
+
+    it('should replay recorded responses without fetching', async () => {
+      const snapshots = createSnapshots('replay', { data: { question: { title: 'Two Sum' } } })
+
+      const client = new GraphQLClient({ snapshots: snapshots as unknown as GraphQLSnapshots })
+      const result = await client.query(query, { titleSlug: 'two-sum' })
+
+      expect(result).toEqual({ question: { title: 'Two Sum' } })
+      expect(fetchSpy).not.toHaveBeenCalled()
+    })
+
+    it('should fail on a query that was not recorded', async () => {
+      const snapshots = createSnapshots('replay')
+
+      const client = new GraphQLClient({ snapshots: snapshots as unknown as GraphQLSnapshots })
+
+      await expect(client.query(query, { titleSlug: '3sum' })).rejects.toThrow(
+        'No snapshot recorded for GraphQL query'
+      )
+      expect(fetchSpy).not.toHaveBeenCalled()
+    })
+  })
+
   describe('getProblem method', () => {
     it('should fetch a problem by titleSlug', async () => {
       const mockProblem: Problem = {
@@ -793,4 +855,78 @@ describe('GraphQLClient', () => {
       await expect(client.getUserProfile('nonexistent')).rejects.toThrow('User not found')
     })
   })
+
+  describe('getRecentAcSubmissions method', () => {
+    it('should fetch recent accepted submissions', async () => {
+      const submissions = [
+        { id: '1', title: 'Two Sum', titleSlug: 'two-sum', timestamp: '1704067200' },
+      ]
+
+      fetchSpy.mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ data: { recentAcSubmissionList: submissions } }),
+        headers: new Headers(),
+      } as Response)
+
+      const client = new GraphQLClient()
+      const result = await client.getRecentAcSubmissions('testuser', 5)
+
+      expect(result).toEqual(submissions)
+      const call = fetchSpy.mock.calls[0]
+      const body = JSON.parse((call?.[1] as RequestInit).body as string)
+      expect(body.variables).toEqual({ username: 'testuser', limit: 5 })
+    })
+
+    it('should return an empty list when the API returns null', async () => {
+      fetchSpy.mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ data: { recentAcSubmissionList: null } }),
+        headers: new Headers(),
+      } as Response)
+
+      const client = new GraphQLClient()
+
+      await expect(client.getRecentAcSubmissions('testuser')).resolves.toEqual([])
+    })
+  })
+
+  describe('getUserStatus method', () => {
+    it('should fetch the sign-in status without caching', async () => {
+      const cache = { get: vi.fn(), set: vi.fn() }
+      fetchSpy.mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({
+          data: { userStatus: { isSignedIn: true, username: 'testuser', isPremium: false } },
+        }),
+        headers: new Headers(),
+      } as Response)
+
+      const client = new GraphQLClient({ cache: cache as unknown as TieredCache })
+      const status = await client.getUserStatus()
+
+      expect(status).toEqual({ isSignedIn: true, username: 'testuser', isPremium: false })
+      expect(cache.get).not.toHaveBeenCalled()
+      expect(cache.set).not.toHaveBeenCalled()
+    })
+
+    it('should report signed out when the API returns no status', async () => {
+      fetchSpy.mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ data: { userStatus: null } }),
+        headers: new Headers(),
+      } as Response)
+
+      const client = new GraphQLClient()
+
+      await expect(client.getUserStatus()).resolves.toEqual({
+        isSignedIn: false,
+        username: null,
+        isPremium: null,
+      })
+    })
+  })
 })
@@ -1,9 +1,20 @@
 import { createHash } from 'crypto'
 
-import type { IRateLimitManager } from '@lesca/browser-automation'
+import type {
+  CapturedResponse,
+  GraphQLSnapshots,
+  IRateLimitManager,
+} from '@lesca/browser-automation'
 import { GraphQLError, RateLimitError, NetworkError } from '@lesca/error'
 import { getDefaultConfig } from '@lesca/shared/config'
-import type { Problem, ProblemList, ProblemListFilters, AuthCredentials } from '@lesca/shared/types'
+import type {
+  Problem,
+  ProblemList,
+  ProblemListFilters,
+  AuthCredentials,
+  RecentSubmission,
+  UserStatus,
+} from '@lesca/shared/types'
 import { calculateQuality, logger } from '@lesca/shared/utils'
 import type { TieredCache } from '@lesca/shared/utils'
 import pRetry, { AbortError } from 'p-retry'
@@ -21,10 +32,12 @@ interface GraphQLResponse<T> {
  * GraphQL Client Options
  */
 export interface GraphQLClientOptions {
-  auth?: AuthCredentials
+  auth?: AuthCredentials | undefined
   rateLimiter?: RateLimiter
-  cache?: TieredCache
+  cache?: TieredCache | undefined
   rateLimitManager?: IRateLimitManager
+  /** Record responses into a snapshot directory, or replay them instead of the network */
+  snapshots?: GraphQLSnapshots | undefined
 }
 
 /**
@@ -50,6 +63,7 @@ export class GraphQLClient {
   private rateLimiter?: RateLimiter
   private cache?: TieredCache
   private rateLimitManager?: IRateLimitManager
+  private snapshots?: GraphQLSnapshots
 
   /**
    * Create a new GraphQL client
@@ -78,6 +92,9 @@ export class GraphQLClient {
       if (authOrOptions.rateLimitManager) {
         this.rateLimitManager = authOrOptions.rateLimitManager
       }
+      if (authOrOptions.snapshots) {
+        this.snapshots = authOrOptions.snapshots
+      }
     } else {
       // Legacy positional format
       if (authOrOptions) {
@@ -101,6 +118,11 @@ export class GraphQLClient {
     const varsStr = JSON.stringify(variables || {})
     const cacheKey = `graphql:${queryHash}:${varsStr}`
 
+    // Replays are served from the snapshot only, never from the cache or the network
+    if (this.snapshots?.mode === 'replay') {
+      return this.replay<T>(query, variables)
+    }
+
     if (this.cache && !options.noCache) {
       const cached = await this.cache.get<T>(cacheKey)
       if (cached) {
@@ -240,6 +262,10 @@ export class GraphQLClient {
       },
     })
 
+    if (this.snapshots?.mode === 'record') {
+      await this.record(query, variables, data)
+    }
+
     if (this.cache && !options.noCache) {
       const config = getDefaultConfig()
       let ttl = options.ttl
@@ -464,6 +490,112 @@ export class GraphQLClient {
     return data.matchedUser
   }
 
+  /**
+   * Get a user's recently accepted submissions
+   */
+  async getRecentAcSubmissions(username: string, limit = 20): Promise<RecentSubmission[]> {
+    const query = `
+      query recentAcSubmissions($username: String!, $limit: Int!) {
+        recentAcSubmissionList(username: $username, limit: $limit) {
+          id
+          title
+          titleSlug
+          timestamp
+        }
+      }
+    `
+
+    const data = await this.query<{ recentAcSubmissionList: RecentSubmission[] | null }>(query, {
+      username,
+      limit,
+    })
+
+    return data.recentAcSubmissionList ?? []
+  }
+
+  /**
+   * Get the sign-in status of the current credentials
+   * Never cached, so it can be used to verify freshly saved cookies.
+   */
+  async getUserStatus(): Promise<UserStatus> {
+    const query = `
+      query globalData {
+        userStatus {
+          isSignedIn
+          username
+          isPremium
+        }
+      }
+    `
+
+    const data = await this.query<{ userStatus: UserStatus | null }>(query, {}, { noCache: true })
+
+    return data.userStatus ?? { isSignedIn: false, username: null, isPremium: null }
+  }
+
+  /**
+   * Serve a query from the snapshot directory
+   * @throws {GraphQLError} GQL_QUERY_FAILED - If the query was not recorded or failed when it was
+   */
+  private async replay<T>(query: string, variables?: Record<string, unknown>): Promise<T> {
+    const request = this.getSnapshotRequest(query, variables)
+    const recorded = this.snapshots ? await this.snapshots.find(request) : undefined
+    if (!recorded) {
+      throw new GraphQLError('GQL_QUERY_FAILED', 'No snapshot recorded for GraphQL query', {
+        statusCode: 404,
+        context: { variables, dir: this.snapshots?.getDirectory() },
+      })
+    }
+
+    const data = (recorded.body as GraphQLResponse<T> | null)?.data
+    if (recorded.status !== 200 || !data) {
+      throw new GraphQLError('GQL_QUERY_FAILED', 'Recorded GraphQL query failed', {
+        statusCode: recorded.status,
+      })
+    }
+    return data
+  }
+
+  /**
+   * Save a query's response into the snapshot directory
+   * Recording failures are logged, never thrown, so they cannot break a scrape.
+   */
+  private async record<T>(
+    query: string,
+    variables: Record<string, unknown> | undefined,
+    data: T
+  ): Promise<void> {
+    try {
+      await this.snapshots?.record({
+        ...this.getSnapshotRequest(query, variables),
+        status: 200,
+        body: { data },
+      })
+    } catch (error) {
+      logger.warn('Failed to record GraphQL response', { error })
+    }
+  }
+
+  /**
+   * Request a query is recorded under
+   * Carries the operation name, so snapshot files are named after the query.
+   */
+  private getSnapshotRequest(
+    query: string,
+    variables?: Record<string, unknown>
+  ): Pick<CapturedResponse, 'url' | 'method' | 'postData'> {
+    const operationName = /^\s*(?:query|mutation)\s+(\w+)/.exec(query)?.[1]
+    return {
+      url: this.endpoint,
+      method: 'POST',
+      postData: JSON.stringify({
+        ...(operationName ? { operationName } : {}),
+        query,
+        variables: variables ?? {},
+      }),
+    }
+  }
+
   /**
    * Format cookies for HTTP header
    */
@@ -0,0 +1,226 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { createCipheriv, createHash, pbkdf2Sync } from 'crypto'
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import BetterSqlite3 from 'better-sqlite3'
+
+import { importBrowserCookies, getDefaultProfileDir } from '../browser-cookies'
+
+const home = vi.hoisted(() => ({ dir: '' }))
+
+vi.mock('os', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('os')>()),
+  homedir: () => home.dir,
+}))
+
+vi.mock('child_process', () => ({
+  execFile: vi.fn(
+    (_file: string, args: string[], _options: unknown, callback: (...args: unknown[]) => void) =>
+      args.includes('chrome')
+        ? callback(null, 'keyring-secret\n')
+        : callback(new Error('No such secret'), '')
+  ),
+}))
+
+/** 2030-01-01T00:00:00Z */
+const EXPIRES_MS = 1893456000000
+
+/**
+ * Encrypt a value the way Chromium does on Linux
+ */
+function encryptChromium(
+  value: string,
+  {
+    prefix = 'v10',
+    password = 'peanuts',
+    host,
+  }: { prefix?: string; password?: string; host?: string }
+): Buffer {
+  const key = pbkdf2Sync(password, 'saltysalt', 1, 16, 'sha1')
+  const cipher = createCipheriv('aes-128-cbc', key, Buffer.alloc(16, ' '))
+  const plaintext = Buffer.concat([
+    host ? createHash('sha256').update(host).digest() : Buffer.alloc(0),
+    Buffer.from(value),
+  ])
+  return Buffer.concat([Buffer.from(prefix), cipher.update(plaintext), cipher.final()])
+}
+
+function createChromiumProfile(
+  profile: string,
+  version: number,
+  rows: Array<{ host: string; name: string; value?: string; encrypted?: Buffer }>
+): void {
+  const db = new BetterSqlite3(join(profile, 'Cookies'))
+  db.exec(`
+    CREATE TABLE meta (key TEXT PRIMARY KEY, value TEXT);
+    CREATE TABLE cookies (
+      host_key TEXT, name TEXT, value TEXT, encrypted_value BLOB, path TEXT,
+      expires_utc INTEGER, is_secure INTEGER, is_httponly INTEGER
+    );
+  `)
+  db.prepare(`INSERT INTO meta VALUES ('version', ?)`).run(String(version))
+  const insert = db.prepare(`INSERT INTO cookies VALUES (?, ?, ?, ?, '/', ?, 1, 1)`)
+  for (const row of rows) {
+    // Chromium stores microseconds since 1601-01-01
+    const expires = (BigInt(EXPIRES_MS) + 11644473600000n) * 1000n
+    insert.run(row.host, row.name, row.value ?? '', row.encrypted ?? Buffer.alloc(0), expires)
+  }
+  db.close()
+}
+
+describe('importBrowserCookies', () => {
+  let profile: string
+
+  beforeEach(async () => {
+    profile = await mkdtemp(join(tmpdir(), 'lesca-profile-'))
+  })
+
+  afterEach(async () => {
+    await rm(profile, { recursive: true, force: true })
+  })
+
+  describe('chrome', () => {
+    it('should decrypt v10 cookies for leetcode.com only', async () => {
+      createChromiumProfile(profile, 18, [
+        {
+          host: '.leetcode.com',
+          name: 'LEETCODE_SESSION',
+          encrypted: encryptChromium('session', {}),
+        },
+        { host: 'leetcode.com', name: 'csrftoken', value: 'plain-token' },
+        { host: '.example.com', name: 'other', value: 'ignored' },
+      ])
+
+      const cookies = await importBrowserCookies({ browser: 'chrome', profile })
+
+      expect(cookies).toEqual([
+        {
+          name: 'LEETCODE_SESSION',
+          value: 'session',
+          domain: '.leetcode.com',
+          path: '/',
+          expires: EXPIRES_MS,
+          secure: true,
+          httpOnly: true,
+        },
+        expect.objectContaining({
+          name: 'csrftoken',
+          value: 'plain-token',
+          domain: 'leetcode.com',
+        }),
+      ])
+    })
+
+    it('should decrypt v11 cookies with the keyring password and strip the host hash', async () => {
+      createChromiumProfile(profile, 24, [
+        {
+          host: '.leetcode.com',
+          name: 'LEETCODE_SESSION',
+          encrypted: encryptChromium('session', {
+            prefix: 'v11',
+            password: 'keyring-secret',
+            host: '.leetcode.com',
+          }),
+        },
+      ])
+
+      const cookies = await importBrowserCookies({ browser: 'chrome', profile })
+
+      expect(cookies[0]?.value).toBe('session')
+    })
+
+    it('should read the Network/Cookies database of newer profiles', async () => {
+      await mkdir(join(profile, 'Network'))
+      createChromiumProfile(join(profile, 'Network'), 18, [
+        { host: 'leetcode.com', name: 'csrftoken', value: 'token' },
+      ])
+
+      const cookies = await importBrowserCookies({ browser: 'chrome', profile })
+
+      expect(cookies.map((cookie) => cookie.name)).toEqual(['csrftoken'])
+    })
+
+    it('should fail when no key decrypts the cookies', async () => {
+      createChromiumProfile(profile, 18, [
+        {
+          host: '.leetcode.com',
+          name: 'LEETCODE_SESSION',
+          encrypted: encryptChromium('session', { prefix: 'v11', password: 'unknown' }),
+        },
+      ])
+
+      await expect(importBrowserCookies({ browser: 'chrome', profile })).rejects.toMatchObject({
+        code: 'AUTH_INVALID_CREDENTIALS',
+      })
+    })
+  })
+
+  describe('firefox', () => {
+    it('should read plaintext cookies from cookies.sqlite', async () => {
+      const db = new BetterSqlite3(join(profile, 'cookies.sqlite'))
+      db.exec(`
+        CREATE TABLE moz_cookies (
+          host TEXT, name TEXT, value TEXT, path TEXT, expiry INTEGER,
+          isSecure INTEGER, isHttpOnly INTEGER
+        );
+        INSERT INTO moz_cookies VALUES ('.leetcode.com', 'LEETCODE_SESSION', 'session', '/', ${EXPIRES_MS / 1000}, 1, 1);
+        INSERT INTO moz_cookies VALUES ('leetcode.com', 'csrftoken', 'token', '/', ${EXPIRES_MS}, 1, 0);
+        INSERT INTO moz_cookies VALUES ('evilleetcode.com', 'other', 'ignored', '/', 0, 0, 0);
+      `)
+      db.close()
+
+      const cookies = await importBrowserCookies({ browser: 'firefox', profile })
+
+      expect(cookies).toEqual([
+        expect.objectContaining({ name: 'LEETCODE_SESSION', expires: EXPIRES_MS, httpOnly: true }),
+        expect.objectContaining({ name: 'csrftoken', expires: EXPIRES_MS, httpOnly: false }),
+      ])
+    })
+  })
+
+  it('should report a profile without a cookie database', async () => {
+    await expect(importBrowserCookies({ browser: 'firefox', profile })).rejects.toMatchObject({
+      code: 'AUTH_COOKIES_NOT_FOUND',
+    })
+  })
+
+  it('should report a profile without leetcode.com cookies', async () => {
+    createChromiumProfile(profile, 18, [{ host: '.example.com', name: 'other', value: 'x' }])
+
+    await expect(importBrowserCookies({ browser: 'chrome', profile })).rejects.toThrow(
+      'No leetcode.com cookies found'
+    )
+  })
+})
+
+describe('getDefaultProfileDir', () => {
+  beforeEach(async () => {
+    home.dir = await mkdtemp(join(tmpdir(), 'lesca-home-'))
+  })
+
+  afterEach(async () => {
+    await rm(home.dir, { recursive: true, force: true })
+  })
+
+  it('should use the Default Chrome profile', () => {
+    expect(getDefaultProfileDir('chrome')).toBe(
+      join(home.dir, '.config', 'google-chrome', 'Default')
+    )
+  })
+
+  it('should use the Firefox profile marked as default in profiles.ini', async () => {
+    const root = join(home.dir, '.mozilla', 'firefox')
+    await mkdir(root, { recursive: true })
+    await writeFile(
+      join(root, 'profiles.ini'),
+      '[Profile1]\nName=work\nIsRelative=1\nPath=abc.work\n\n[Profile0]\nName=default\nIsRelative=1\nPath=xyz.default-release\nDefault=1\n'
+    )
+
+    expect(getDefaultProfileDir('firefox')).toBe(join(root, 'xyz.default-release'))
+  })
+
+  it('should fail without a Firefox profile', () => {
+    expect(() => getDefaultProfileDir('firefox')).toThrow('No Firefox profile found')
+  })
+})
@@ -1,9 +1,11 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import { CookieFileAuth, parseCookieString, exportCookies } from '../cookie-auth'
-import { AuthError } from '@lesca/error'
+import type { CookieEncryption } from '../cookie-auth'
+import { AuthError, BrowserError } from '@lesca/error'
 import type { Cookie, AuthCredentials } from '@lesca/shared/types'
-import { writeFile, readFile, rm, mkdir } from 'fs/promises'
+import { writeFile, readFile, rm, mkdir, stat } from 'fs/promises'
 import { existsSync } from 'fs'
+import { createHash } from 'crypto'
 import { resolve } from 'path'
 
 describe('CookieFileAuth', () => {
@@ -191,6 +193,93 @@ describe('CookieFileAuth', () => {
     })
   })
 
+  describe('encryption at rest', () => {
+    // Reversible stand-in with the same payload shape and auth-tag check as EncryptionService
+    const digest = (text: string) => createHash('sha256').update(text).digest('base64')
+    const encryption: CookieEncryption = {
+      isEnabled: () => true,
+      encrypt: (plaintext) =>
+        JSON.stringify({
+          version: 1,
+          algorithm: 'aes-256-gcm',
+          iv: 'iv',
+          authTag: digest(plaintext),
+          data: Buffer.from(plaintext).toString('base64'),
+        }),
+      decrypt: (ciphertext) => {
+        const payload = JSON.parse(ciphertext) as { authTag: string; data: string }
+        const plaintext = Buffer.from(payload.data, 'base64').toString('utf-8')
+        if (digest(plaintext) !== payload.authTag) {
+          throw new BrowserError('BROWSER_DECRYPTION_AUTH_FAILED', 'Authentication failed')
+        }
+        return plaintext
+      },
+      isEncrypted: (data) => data.includes('"authTag"'),
+    }
+    const cookieData = {
+      cookies: [
+        { name: 'LEETCODE_SESSION', value: 'secret-session', domain: 'leetcode.com' },
+        { name: 'csrftoken', value: 'csrf456', domain: 'leetcode.com' },
+      ],
+    }
+
+    it('should encrypt cookies created with fromCookies into a new directory', async () => {
+      const nestedPath = resolve(testDir, 'nested', 'cookies.json')
+      const auth = CookieFileAuth.fromCookies(cookieData.cookies, undefined, encryption)
+
+      await auth.save(nestedPath)
+
+      const content = await readFile(nestedPath, 'utf-8')
+      expect(content).not.toContain('secret-session')
+      const loaded = new CookieFileAuth(nestedPath, encryption)
+      expect((await loaded.authenticate()).csrfToken).toBe('csrf456')
+    })
+
+    it('should save an encrypted file readable only by the owner', async () => {
+      await writeFile(testCookiePath, JSON.stringify(cookieData), 'utf-8')
+      const auth = new CookieFileAuth(testCookiePath, encryption)
+      await auth.authenticate()
+
+      await auth.save(testCookiePath)
+
+      const content = await readFile(testCookiePath, 'utf-8')
+      expect(content).not.toContain('secret-session')
+      expect(encryption.isEncrypted(content)).toBe(true)
+      if (process.platform !== 'win32') {
+        expect((await stat(testCookiePath)).mode & 0o777).toBe(0o600)
+      }
+
+      const reloaded = new CookieFileAuth(testCookiePath, encryption)
+      const credentials = await reloaded.authenticate()
+      expect(credentials.cookies[0]?.value).toBe('secret-session')
+      expect(credentials.csrfToken).toBe('csrf456')
+    })
+
+    it('should surface tampered files as decryption auth failures', async () => {
+      const payload = JSON.parse(encryption.encrypt(JSON.stringify(cookieData))) as {
+        data: string
+      }
+      payload.data = Buffer.from(JSON.stringify({ cookies: [] })).toString('base64')
+      await writeFile(testCookiePath, JSON.stringify(payload), 'utf-8')
+
+      const auth = new CookieFileAuth(testCookiePath, encryption)
+
+      await expect(auth.authenticate()).rejects.toMatchObject({
+        code: 'BROWSER_DECRYPTION_AUTH_FAILED',
+      })
+    })
+
+    it('should explain when an encrypted file is read without a key', async () => {
+      await writeFile(testCookiePath, encryption.encrypt(JSON.stringify(cookieData)), 'utf-8')
+
+      const auth = new CookieFileAuth(testCookiePath)
+
+      await expect(auth.authenticate()).rejects.toThrow(
+        'Cookie file is encrypted but no encryption key is configured'
+      )
+    })
+  })
+
   describe('isValid', () => {
     it('should return false when no credentials', async () => {
       const auth = new CookieFileAuth()
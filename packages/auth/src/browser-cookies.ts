@@ -0,0 +1,342 @@
+import { execFile } from 'child_process'
+import { createDecipheriv, createHash, pbkdf2Sync } from 'crypto'
+import { existsSync, readdirSync, readFileSync } from 'fs'
+import { copyFile, mkdtemp, rm } from 'fs/promises'
+import { homedir, tmpdir } from 'os'
+import { join } from 'path'
+
+import { AuthError } from '@lesca/error'
+import type { Cookie } from '@lesca/shared/types'
+import BetterSqlite3 from 'better-sqlite3'
+
+/**
+ * Browsers cookies can be imported from
+ */
+export type CookieSourceBrowser = 'chrome' | 'firefox'
+
+/**
+ * Browser cookie import options
+ */
+export interface BrowserCookieImportOptions {
+  /** Browser the profile belongs to */
+  browser: CookieSourceBrowser
+  /** Profile directory. Default: the browser's default profile */
+  profile?: string
+  /** Only cookies for this domain and its subdomains. Default: leetcode.com */
+  domain?: string
+  /**
+   * Chromium "Safe Storage" password for v11 cookies.
+   * Default: looked up with `secret-tool`, falling back to the built-in Linux keys.
+   */
+  keyringPassword?: string
+}
+
+/** Built-in password Chromium uses when no keyring is available */
+const CHROMIUM_FALLBACK_PASSWORD = 'peanuts'
+
+/** Cookie DB version from which Chromium prefixes values with SHA-256(host) */
+const CHROMIUM_HOST_HASH_VERSION = 24
+
+/** Microseconds between 1601-01-01 (Chromium epoch) and 1970-01-01 */
+const CHROMIUM_EPOCH_OFFSET = 11644473600000000n
+
+interface ChromiumCookieRow {
+  host_key: string
+  name: string
+  value: string
+  encrypted_value: Buffer | null
+  path: string
+  expires_utc: bigint
+  is_secure: bigint
+  is_httponly: bigint
+}
+
+interface FirefoxCookieRow {
+  host: string
+  name: string
+  value: string
+  path: string
+  expiry: number
+  isSecure: number
+  isHttpOnly: number
+}
+
+/**
+ * Read cookies straight from a local Chromium or Firefox profile (Linux)
+ *
+ * The cookie database is copied first so a running browser's lock does not
+ * get in the way. Chromium values are decrypted with the standard Linux keys:
+ * `v10` values use the built-in password, `v11` values the "Safe Storage"
+ * password from the keyring.
+ *
+ * @returns Unexpired cookies for the domain, with `expires` in milliseconds like the rest of this package
+ * @throws {AuthError} AUTH_COOKIES_NOT_FOUND - If the profile has no cookie database or no matching cookies
+ * @throws {AuthError} AUTH_INVALID_CREDENTIALS - If encrypted cookies cannot be decrypted
+ */
+export async function importBrowserCookies(options: BrowserCookieImportOptions): Promise<Cookie[]> {
+  const profile = options.profile ?? getDefaultProfileDir(options.browser)
+  const database = findCookieDatabase(options.browser, profile)
+  const domain = options.domain ?? 'leetcode.com'
+
+  const now = Date.now()
+  const cookies = (
+    await withDatabaseCopy(database, (db) =>
+      options.browser === 'firefox'
+        ? readFirefoxCookies(db, domain)
+        : readChromiumCookies(db, domain, options.keyringPassword)
+    )
+  ).filter((cookie) => cookie.expires === undefined || cookie.expires > now)
+
+  if (cookies.length === 0) {
+    throw new AuthError(
+      'AUTH_COOKIES_NOT_FOUND',
+      `No ${domain} cookies found in ${options.browser} profile. Log in to ${domain} in that browser first.`,
+      { context: { browser: options.browser, profile } }
+    )
+  }
+  return cookies
+}
+
+/**
+ * Default profile directory of a browser on Linux
+ * For Firefox this is the profile marked as default in profiles.ini.
+ */
+export function getDefaultProfileDir(browser: CookieSourceBrowser): string {
+  if (browser === 'chrome') {
+    return join(homedir(), '.config', 'google-chrome', 'Default')
+  }
+
+  const root = join(homedir(), '.mozilla', 'firefox')
+  const profile = readFirefoxDefaultProfile(root)
+  if (!profile) {
+    throw new AuthError('AUTH_COOKIES_NOT_FOUND', 'No Firefox profile found. Pass --profile.', {
+      context: { root },
+    })
+  }
+  return profile
+}
+
+/**
+ * Find the default profile in profiles.ini, falling back to a *.default* directory
+ */
+function readFirefoxDefaultProfile(root: string): string | undefined {
+  const ini = join(root, 'profiles.ini')
+  if (existsSync(ini)) {
+    const sections = readFileSync(ini, 'utf-8').split(/^\[/m)
+    // Install sections name the profile the current install uses
+    const install = sections.find((section) => section.startsWith('Install'))
+    const installDefault = install?.match(/^Default=(.+)$/m)?.[1]?.trim()
+    if (installDefault) {
+      return join(root, installDefault)
+    }
+    const profile = sections.find(
+      (section) => section.startsWith('Profile') && /^Default=1$/m.test(section)
+    )
+    const path = profile?.match(/^Path=(.+)$/m)?.[1]?.trim()
+    if (path) {
+      return /^IsRelative=0$/m.test(profile ?? '') ? path : join(root, path)
+    }
+  }
+
+  if (!existsSync(root)) {
+    return undefined
+  }
+  const candidates = readdirSync(root).filter((name) => name.includes('.default'))
+  const preferred = candidates.find((name) => name.endsWith('.default-release')) ?? candidates[0]
+  return preferred ? join(root, preferred) : undefined
+}
+
+/**
+ * Locate the cookie database inside a profile
+ */
+function findCookieDatabase(browser: CookieSourceBrowser, profile: string): string {
+  const candidates =
+    browser === 'firefox'
+      ? [join(profile, 'cookies.sqlite')]
+      : [join(profile, 'Network', 'Cookies'), join(profile, 'Cookies')]
+
+  const database = candidates.find((candidate) => existsSync(candidate))
+  if (!database) {
+    throw new AuthError('AUTH_COOKIES_NOT_FOUND', `No ${browser} cookie database in ${profile}`, {
+      context: { browser, profile, searched: candidates },
+    })
+  }
+  return database
+}
+
+/**
+ * Open a temporary copy of a cookie database (with its WAL, if any)
+ */
+async function withDatabaseCopy<T>(
+  database: string,
+  read: (db: BetterSqlite3.Database) => T | Promise<T>
+): Promise<T> {
+  const dir = await mkdtemp(join(tmpdir(), 'lesca-cookies-'))
+  const copy = join(dir, 'cookies.db')
+  try {
+    await copyFile(database, copy)
+    if (existsSync(`${database}-wal`)) {
+      await copyFile(`${database}-wal`, `${copy}-wal`)
+    }
+
+    const db = new BetterSqlite3(copy)
+    try {
+      return await read(db)
+    } finally {
+      db.close()
+    }
+  } catch (error) {
+    if (error instanceof AuthError) {
+      throw error
+    }
+    throw new AuthError(
+      'AUTH_COOKIES_NOT_FOUND',
+      `Failed to read cookie database ${database}: ${error instanceof Error ? error.message : String(error)}`,
+      { ...(error instanceof Error ? { cause: error } : {}) }
+    )
+  } finally {
+    await rm(dir, { recursive: true, force: true })
+  }
+}
+
+function readFirefoxCookies(db: BetterSqlite3.Database, domain: string): Cookie[] {
+  const rows = db
+    .prepare(
+      `SELECT host, name, value, path, expiry, isSecure, isHttpOnly FROM moz_cookies
+       WHERE host = ? OR host = ? OR host LIKE ?`
+    )
+    .all(domain, `.${domain}`, `%.${domain}`) as FirefoxCookieRow[]
+
+  return rows.map((row) =>
+    toCookie(row.host, row.name, row.value, row.path, {
+      // Older Firefox versions store seconds, newer ones milliseconds
+      ...(row.expiry > 0 ? { expires: row.expiry < 1e11 ? row.expiry * 1000 : row.expiry } : {}),
+      secure: row.isSecure === 1,
+      httpOnly: row.isHttpOnly === 1,
+    })
+  )
+}
+
+async function readChromiumCookies(
+  db: BetterSqlite3.Database,
+  domain: string,
+  keyringPassword?: string
+): Promise<Cookie[]> {
+  const rows = db
+    .prepare(
+      `SELECT host_key, name, value, encrypted_value, path, expires_utc, is_secure, is_httponly
+       FROM cookies WHERE host_key = ? OR host_key = ? OR host_key LIKE ?`
+    )
+    .safeIntegers(true)
+    .all(domain, `.${domain}`, `%.${domain}`) as ChromiumCookieRow[]
+
+  const hasHostHash = readChromiumVersion(db) >= CHROMIUM_HOST_HASH_VERSION
+  const needsKeyring = rows.some((row) => row.encrypted_value?.subarray(0, 3).toString() === 'v11')
+  const passwords = [
+    ...(keyringPassword !== undefined
+      ? [keyringPassword]
+      : needsKeyring
+        ? await lookupKeyringPasswords()
+        : []),
+    CHROMIUM_FALLBACK_PASSWORD,
+    '',
+  ]
+  const keys = passwords.map((password) => pbkdf2Sync(password, 'saltysalt', 1, 16, 'sha1'))
+
+  return rows.map((row) => {
+    const value =
+      row.encrypted_value && row.encrypted_value.length > 0
+        ? decryptChromiumValue(row.encrypted_value, keys, row.host_key, hasHostHash)
+        : row.value
+    const expires = row.expires_utc
+
+    return toCookie(row.host_key, row.name, value, row.path, {
+      ...(expires > 0n ? { expires: Number((expires - CHROMIUM_EPOCH_OFFSET) / 1000n) } : {}),
+      secure: row.is_secure === 1n,
+      httpOnly: row.is_httponly === 1n,
+    })
+  })
+}
+
+function readChromiumVersion(db: BetterSqlite3.Database): number {
+  try {
+    const row = db.prepare(`SELECT value FROM meta WHERE key = 'version'`).get() as
+      { value: string } | undefined
+    return Number(row?.value ?? 0)
+  } catch {
+    return 0
+  }
+}
+
+/**
+ * Decrypt a Chromium cookie value with the first key that yields valid padding
+ */
+function decryptChromiumValue(
+  encrypted: Buffer,
+  keys: Buffer[],
+  hostKey: string,
+  hasHostHash: boolean
+): string {
+  const prefix = encrypted.subarray(0, 3).toString()
+  if (prefix !== 'v10' && prefix !== 'v11') {
+    throw new AuthError('AUTH_INVALID_CREDENTIALS', `Unsupported cookie encryption: ${prefix}`, {
+      context: { host: hostKey },
+    })
+  }
+
+  const ciphertext = encrypted.subarray(3)
+  for (const key of keys) {
+    let plaintext: Buffer
+    try {
+      const decipher = createDecipheriv('aes-128-cbc', key, Buffer.alloc(16, ' '))
+      plaintext = Buffer.concat([decipher.update(ciphertext), decipher.final()])
+    } catch {
+      continue
+    }
+
+    if (hasHostHash) {
+      const hostHash = createHash('sha256').update(hostKey).digest()
+      if (!plaintext.subarray(0, 32).equals(hostHash)) {
+        continue
+      }
+      plaintext = plaintext.subarray(32)
+    }
+    return plaintext.toString('utf-8')
+  }
+
+  throw new AuthError(
+    'AUTH_INVALID_CREDENTIALS',
+    'Failed to decrypt browser cookies. Unlock the keyring or pass the Safe Storage password.',
+    { context: { host: hostKey } }
+  )
+}
+
+/**
+ * Read the Chrome and Chromium "Safe Storage" passwords from the keyring
+ */
+async function lookupKeyringPasswords(): Promise<string[]> {
+  const passwords = await Promise.all(
+    ['chrome', 'chromium'].map(
+      (application) =>
+        new Promise<string | undefined>((resolve) => {
+          execFile(
+            'secret-tool',
+            ['lookup', 'application', application],
+            { timeout: 5000 },
+            (error, stdout) => resolve(error ? undefined : stdout.trim() || undefined)
+          )
+        })
+    )
+  )
+  return passwords.filter((password): password is string => password !== undefined)
+}
+
+function toCookie(
+  domain: string,
+  name: string,
+  value: string,
+  path: string,
+  extra: Pick<Cookie, 'expires' | 'secure' | 'httpOnly'>
+): Cookie {
+  return { name, value, domain, path: path || '/', ...extra }
+}
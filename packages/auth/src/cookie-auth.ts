@@ -1,6 +1,7 @@
-import { readFile, writeFile } from 'fs/promises'
+import { chmod, mkdir, readFile, writeFile } from 'fs/promises'
+import { dirname } from 'path'
 
-import { AuthError, ConfigError } from '@lesca/error'
+import { AuthError, BrowserError, ConfigError } from '@lesca/error'
 import type { AuthStrategy, AuthCredentials, Cookie } from '@lesca/shared/types'
 
 /**
@@ -20,6 +21,17 @@ interface CookieFile {
   savedAt?: string
 }
 
+/**
+ * Encryption used for cookie files at rest
+ * Implemented by EncryptionService in @lesca/browser-automation
+ */
+export interface CookieEncryption {
+  isEnabled(): boolean
+  encrypt(plaintext: string): string
+  decrypt(ciphertext: string): string
+  isEncrypted(data: string): boolean
+}
+
 /**
  * Cookie-based authentication strategy
  * Loads authentication from a JSON file containing cookies
@@ -28,12 +40,18 @@ interface CookieFile {
  * - LEETCODE_SESSION: Main session cookie
  * - csrftoken: CSRF protection token
  * - Other cookies as needed (cf_clearance, etc.)
+ *
+ * With an encryption service the file is written encrypted and both
+ * encrypted and plain files are read.
  */
 export class CookieFileAuth implements AuthStrategy {
   readonly name = 'cookie-file'
   private credentials?: AuthCredentials
 
-  constructor(private cookiePath?: string) {}
+  constructor(
+    private cookiePath?: string,
+    private encryption?: CookieEncryption
+  ) {}
 
   /**
    * Authenticate by loading cookies from file
@@ -92,7 +110,7 @@ export class CookieFileAuth implements AuthStrategy {
   }
 
   /**
-   * Save credentials to file
+   * Save credentials to file, encrypted if an encryption service is enabled
    */
   async save(path: string): Promise<void> {
     if (!this.credentials) {
@@ -105,8 +123,14 @@ export class CookieFileAuth implements AuthStrategy {
       savedAt: new Date().toISOString(),
     }
 
+    const json = JSON.stringify(data, null, 2)
+    const content = this.encryption?.isEnabled() ? this.encryption.encrypt(json) : json
+
     try {
-      await writeFile(path, JSON.stringify(data, null, 2), 'utf-8')
+      await mkdir(dirname(path), { recursive: true })
+      await writeFile(path, content, { encoding: 'utf-8', mode: 0o600 })
+      // writeFile only applies the mode to new files
+      await chmod(path, 0o600)
     } catch (error) {
       throw new AuthError(
         'AUTH_INVALID_CREDENTIALS',
@@ -121,9 +145,19 @@ export class CookieFileAuth implements AuthStrategy {
    */
   async load(path: string): Promise<void> {
     try {
-      const content = await readFile(path, 'utf-8')
+      const rawContent = await readFile(path, 'utf-8')
+      const content = this.encryption?.isEncrypted(rawContent)
+        ? this.encryption.decrypt(rawContent)
+        : rawContent
       const data = JSON.parse(content) as CookieFile
 
+      if (!data.cookies && 'authTag' in data) {
+        throw new AuthError(
+          'AUTH_INVALID_CREDENTIALS',
+          'Cookie file is encrypted but no encryption key is configured'
+        )
+      }
+
       if (!data.cookies || !Array.isArray(data.cookies)) {
         throw new AuthError(
           'AUTH_INVALID_CREDENTIALS',
@@ -151,7 +185,7 @@ export class CookieFileAuth implements AuthStrategy {
         throw new AuthError('AUTH_SESSION_EXPIRED', 'Loaded credentials are invalid or expired')
       }
     } catch (error) {
-      if (error instanceof AuthError) {
+      if (error instanceof AuthError || error instanceof BrowserError) {
         throw error
       }
 
@@ -253,9 +287,14 @@ export class CookieFileAuth implements AuthStrategy {
 
   /**
    * Create from raw cookie object
+   * Pass an encryption service to have {@link save} write the file encrypted.
    */
-  static fromCookies(cookies: Cookie[], csrfToken?: string): CookieFileAuth {
-    const auth = new CookieFileAuth()
+  static fromCookies(
+    cookies: Cookie[],
+    csrfToken?: string,
+    encryption?: CookieEncryption
+  ): CookieFileAuth {
+    const auth = new CookieFileAuth(undefined, encryption)
 
     if (!csrfToken) {
       const csrfCookie = cookies.find((c) => c.name === 'csrftoken' || c.name === 'csrf_token')
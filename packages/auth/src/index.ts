@@ -4,3 +4,6 @@
  */
 
 export { CookieFileAuth, parseCookieString, exportCookies } from './cookie-auth'
+export type { CookieEncryption } from './cookie-auth'
+export { importBrowserCookies, getDefaultProfileDir } from './browser-cookies'
+export type { BrowserCookieImportOptions, CookieSourceBrowser } from './browser-cookies'
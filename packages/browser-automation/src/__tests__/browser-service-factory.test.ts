@@ -3,6 +3,7 @@ import { BrowserServiceFactory } from '../browser-service-factory'
 import { BrowserService } from '../browser-service'
 import { SessionManager } from '../session-manager'
 import { SessionPoolManager } from '../session-pool-manager'
+import { RateLimitManager } from '../rate-limit'
 
 // Mock the dependencies but let the factory code run
 vi.mock('../browser-service')
@@ -55,14 +56,21 @@ describe('BrowserServiceFactory', () => {
 
     it('should initialize SessionPoolManager with correct config', () => {
       factory = BrowserServiceFactory.getInstance()
-      expect(SessionPoolManager).toHaveBeenCalledWith({
-        strategy: 'per-session',
-        perSessionMaxSize: 2,
-        perSessionIdleTime: 180000,
-        acquireTimeout: 30000,
-        retryOnFailure: true,
-        maxRetries: 3,
-      })
+      expect(SessionPoolManager).toHaveBeenCalledWith(
+        {
+          strategy: 'per-session',
+          perSessionMaxSize: 2,
+          perSessionIdleTime: 180000,
+          acquireTimeout: 30000,
+          retryOnFailure: true,
+          maxRetries: 3,
+          globalMaxSize: 4,
+          pinnedSessions: [],
+          contextsPerBrowser: 4,
+        },
+        {},
+        { rateLimitManager: factory.getRateLimitManager() }
+      )
     })
   })
 
@@ -105,7 +113,7 @@ describe('BrowserServiceFactory', () => {
       expect(BrowserService).toHaveBeenCalledWith(
         factory.getSessionManager(),
         factory.getSessionPoolManager(),
-        {}
+        { rateLimitManager: factory.getRateLimitManager() }
       )
     })
 
@@ -118,7 +126,7 @@ describe('BrowserServiceFactory', () => {
       expect(BrowserService).toHaveBeenCalledWith(
         factory.getSessionManager(),
         factory.getSessionPoolManager(),
-        options
+        { rateLimitManager: factory.getRateLimitManager(), ...options }
       )
     })
 
@@ -136,7 +144,7 @@ describe('BrowserServiceFactory', () => {
       expect(BrowserService).toHaveBeenCalledWith(
         factory.getSessionManager(),
         factory.getSessionPoolManager(),
-        options
+        { rateLimitManager: factory.getRateLimitManager(), ...options }
       )
     })
 
@@ -157,17 +165,29 @@ describe('BrowserServiceFactory', () => {
       factory = BrowserServiceFactory.getInstance()
       const sessionManager = factory.getSessionManager()
       const poolManager = factory.getSessionPoolManager()
+      const rateLimitManager = factory.getRateLimitManager()
 
       factory.createService({ sessionName: 'session-1' })
       factory.createService({ sessionName: 'session-2' })
 
       // Both should receive the same manager instances
       expect(BrowserService).toHaveBeenNthCalledWith(1, sessionManager, poolManager, {
+        rateLimitManager,
         sessionName: 'session-1',
       })
       expect(BrowserService).toHaveBeenNthCalledWith(2, sessionManager, poolManager, {
+        rateLimitManager,
         sessionName: 'session-2',
       })
     })
+
+    it('should create one rate limit manager per process', () => {
+      factory = BrowserServiceFactory.getInstance()
+
+      expect(factory.getRateLimitManager()).toBeInstanceOf(RateLimitManager)
+      expect(BrowserServiceFactory.getInstance().getRateLimitManager()).toBe(
+        factory.getRateLimitManager()
+      )
+    })
   })
 })
@@ -1,11 +1,14 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { BrowserService } from '../browser-service'
 import { PlaywrightDriver } from '../playwright-driver'
+import { SnapshotRecorder } from '../snapshot-archive'
+import { SnapshotDriver } from '../snapshot-driver'
 import type { ISessionManager, ISessionPoolManager } from '../interfaces'
 import { BrowserError } from '@lesca/error'
 
 // Mock PlaywrightDriver only
 vi.mock('../playwright-driver')
+vi.mock('../snapshot-driver')
 vi.mock('@lesca/shared/utils', () => ({
   logger: {
     debug: vi.fn(),
@@ -23,6 +26,7 @@ describe('BrowserService', () => {
     launch: ReturnType<typeof vi.fn>
     close: ReturnType<typeof vi.fn>
     getBrowser: ReturnType<typeof vi.fn>
+    getPage: ReturnType<typeof vi.fn>
   }
 
   beforeEach(() => {
@@ -75,10 +79,13 @@ describe('BrowserService', () => {
 
     mockDriver = {
       launch: vi.fn().mockResolvedValue(undefined),
+      setRateLimitManager: vi.fn(),
+      setSnapshotRecorder: vi.fn(),
       close: vi.fn().mockResolvedValue(undefined),
       getBrowser: vi.fn().mockReturnValue({
         contexts: vi.fn().mockReturnValue([{ id: 'context-1' }]),
       }),
+      getPage: vi.fn().mockReturnValue({ context: () => ({ id: 'context-1' }) }),
     }
 
     // Mock PlaywrightDriver constructor to return our mock
@@ -147,6 +154,48 @@ describe('BrowserService', () => {
       )
     })
 
+    it('should share the rate limit manager with the driver', async () => {
+      const rateLimitManager = { getDecision: vi.fn() }
+      browserService = new BrowserService(mockSessionManager, mockSessionPoolManager, {
+        rateLimitManager: rateLimitManager as never,
+      })
+
+      await browserService.startup()
+
+      expect(mockDriver.setRateLimitManager).toHaveBeenCalledWith(rateLimitManager)
+    })
+
+    it('should record snapshots with a live driver', async () => {
+      browserService = new BrowserService(mockSessionManager, mockSessionPoolManager, {
+        snapshots: { mode: 'record', dir: '/tmp/snapshots' },
+      })
+
+      await browserService.startup()
+
+      expect(mockDriver.setSnapshotRecorder).toHaveBeenCalledWith(expect.any(SnapshotRecorder))
+      expect(vi.mocked(mockDriver.setSnapshotRecorder).mock.calls[0]?.[0].getDirectory()).toBe(
+        '/tmp/snapshots'
+      )
+    })
+
+    it('should replay snapshots without touching the session', async () => {
+      vi.mocked(SnapshotDriver).mockImplementation(() => mockDriver as unknown as SnapshotDriver)
+      browserService = new BrowserService(mockSessionManager, mockSessionPoolManager, {
+        sessionName: 'test-session',
+        autoRestore: true,
+        persistOnShutdown: true,
+        snapshots: { mode: 'replay', dir: '/tmp/snapshots' },
+      })
+
+      await browserService.startup()
+      await browserService.shutdown()
+
+      expect(SnapshotDriver).toHaveBeenCalledWith('/tmp/snapshots')
+      expect(PlaywrightDriver).not.toHaveBeenCalled()
+      expect(mockSessionManager.restoreSession).not.toHaveBeenCalled()
+      expect(mockSessionManager.createSession).not.toHaveBeenCalled()
+    })
+
     it('should be idempotent - multiple calls do not re-launch', async () => {
       await browserService.startup()
       await browserService.startup() // Second call should be ignored
@@ -265,9 +314,7 @@ describe('BrowserService', () => {
     })
 
     it('should not persist if no context available', async () => {
-      mockDriver.getBrowser.mockReturnValue({
-        contexts: vi.fn().mockReturnValue([]),
-      })
+      mockDriver.getPage.mockReturnValue(undefined)
 
       browserService = new BrowserService(mockSessionManager, mockSessionPoolManager, {
         sessionName: 'test-session',
@@ -280,4 +327,45 @@ describe('BrowserService', () => {
       expect(mockSessionManager.createSession).not.toHaveBeenCalled()
     })
   })
+
+  describe('shared pooled browser', () => {
+    it("should restore and persist each session in its own context, not the browser's first", async () => {
+      const contexts = [{ id: 'alice-context' }, { id: 'bob-context' }]
+      const browser = { contexts: vi.fn().mockReturnValue(contexts) }
+      const drivers = contexts.map((context) => ({
+        ...mockDriver,
+        getBrowser: vi.fn().mockReturnValue(browser),
+        getPage: vi.fn().mockReturnValue({ context: () => context }),
+      }))
+      for (const driver of drivers) {
+        vi.mocked(PlaywrightDriver).mockImplementationOnce(
+          () => driver as unknown as PlaywrightDriver
+        )
+      }
+
+      const services = ['alice', 'bob'].map(
+        (sessionName) =>
+          new BrowserService(mockSessionManager, mockSessionPoolManager, {
+            sessionName,
+            autoRestore: true,
+            persistOnShutdown: true,
+          })
+      )
+      for (const service of services) {
+        await service.startup()
+      }
+      for (const service of services) {
+        await service.shutdown()
+      }
+
+      expect(mockSessionManager.restoreSession).toHaveBeenCalledWith('alice', contexts[0])
+      expect(mockSessionManager.restoreSession).toHaveBeenCalledWith('bob', contexts[1])
+      expect(mockSessionManager.createSession).toHaveBeenCalledWith('alice', contexts[0], {
+        description: 'Persisted on shutdown',
+      })
+      expect(mockSessionManager.createSession).toHaveBeenCalledWith('bob', contexts[1], {
+        description: 'Persisted on shutdown',
+      })
+    })
+  })
 })
@@ -3,12 +3,13 @@ import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import { CookieManager } from '../cookie-manager'
 import { EncryptionService } from '../encryption'
 import { PlaywrightDriver } from '../playwright-driver'
-import { mkdir, rm, readFile, writeFile } from 'fs/promises'
+import { chmod, mkdir, rm, readFile, writeFile } from 'fs/promises'
 import { join } from 'path'
 import { tmpdir } from 'os'
 import type { Cookie } from 'playwright'
 
 vi.mock('fs/promises', () => ({
+  chmod: vi.fn(),
   mkdir: vi.fn(),
   readFile: vi.fn(),
   writeFile: vi.fn(),
@@ -80,6 +81,18 @@ describe('CookieManager', () => {
       expect(mockDriver.getPage).toHaveBeenCalled()
     })
 
+    it('should restrict an existing cookie file to its owner', async () => {
+      const cookiePath = join(testCookiesDir, 'cookies.json')
+
+      await cookieManager.saveCookies(mockDriver, cookiePath)
+
+      expect(writeFile).toHaveBeenCalledWith(cookiePath, expect.any(String), {
+        encoding: 'utf-8',
+        mode: 0o600,
+      })
+      expect(chmod).toHaveBeenCalledWith(cookiePath, 0o600)
+    })
+
     it('should throw error if driver has no page', async () => {
       const nopageDriver = {
         getPage: vi.fn(() => null),
@@ -78,6 +78,13 @@ describe('EncryptionService', () => {
       expect(key.length).toBe(32)
     })
 
+    it('should prefer a configured key over the environment variable', () => {
+      process.env['LESCA_ENCRYPTION_KEY'] = randomBytes(16).toString('base64')
+      const service = new EncryptionService({ enabled: true, key: validKey })
+
+      expect(service.getKey()).toEqual(Buffer.from(validKey, 'base64'))
+    })
+
     it('should throw when key env var not set', () => {
       delete process.env['LESCA_ENCRYPTION_KEY']
       const service = new EncryptionService({ enabled: true })
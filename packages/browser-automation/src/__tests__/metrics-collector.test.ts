@@ -422,6 +422,47 @@ describe('MetricsCollector', () => {
     })
   })
 
+  describe('selector metrics', () => {
+    it('counts hits and misses per selector', () => {
+      const record = (type: 'selector:hit' | 'selector:miss', selector: string, position: number) =>
+        collector.record({
+          type,
+          timestamp: Date.now(),
+          group: 'problem.title',
+          selector,
+          position,
+        })
+
+      record('selector:miss', '[data-cy="question-title"]', 0)
+      record('selector:hit', 'h1', 3)
+      record('selector:miss', '[data-cy="question-title"]', 0)
+      record('selector:hit', 'h1', 3)
+
+      expect(collector.getSelectorMetrics('problem.title')).toEqual([
+        {
+          group: 'problem.title',
+          selector: '[data-cy="question-title"]',
+          hits: 0,
+          misses: 2,
+          hitRate: 0,
+          lastHitAt: undefined,
+        },
+        {
+          group: 'problem.title',
+          selector: 'h1',
+          hits: 2,
+          misses: 0,
+          hitRate: 1,
+          lastHitAt: Date.now(),
+        },
+      ])
+      expect(collector.getSelectorMetrics('editorial.content')).toEqual([])
+
+      collector.reset()
+      expect(collector.getSelectorMetrics()).toEqual([])
+    })
+  })
+
   describe('history size limits', () => {
     it('trims events when exceeding max history size', () => {
       const smallCollector = new MetricsCollector({ maxHistorySize: 5 })
@@ -1,5 +1,8 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest'
 import { PlaywrightDriver } from '../playwright-driver'
+import { RateLimitManager } from '../rate-limit'
+import type { SnapshotRecorder } from '../snapshot-archive'
+import { RateLimitError } from '@lesca/error'
 import type { Browser, Page, BrowserContext, ElementHandle } from 'playwright'
 
 vi.mock('playwright', () => ({
@@ -168,6 +171,66 @@ describe('PlaywrightDriver', () => {
         'Browser not launched. Call launch() first.'
       )
     })
+    it('should record 429 responses with the rate limit manager', async () => {
+      const rateLimitManager = new RateLimitManager({
+        backoff: { initialDelayMs: 1, jitter: false },
+      })
+      const recordRateLimited = vi.spyOn(rateLimitManager, 'recordRateLimited')
+      const response = {
+        status: () => 429,
+        ok: () => false,
+        headers: () => ({ 'retry-after': '0' }),
+      }
+      vi.mocked(mockPage.goto)
+        .mockResolvedValueOnce(response as never)
+        .mockResolvedValueOnce({ status: () => 200, ok: () => true } as never)
+      driver.setRateLimitManager(rateLimitManager)
+      await driver.launch()
+
+      await driver.navigate('https://leetcode.com/problems/two-sum/')
+
+      expect(recordRateLimited).toHaveBeenCalledWith(
+        'https://leetcode.com/problems/two-sum/',
+        '0',
+        undefined
+      )
+      expect(mockPage.goto).toHaveBeenCalledTimes(2)
+      expect(rateLimitManager.getEndpointStates()[0]).toMatchObject({ isRateLimited: false })
+    })
+
+    it('should detect rate limit pages on error responses', async () => {
+      const rateLimitManager = new RateLimitManager({
+        backoff: { initialDelayMs: 1, jitter: false },
+      })
+      vi.mocked(mockPage.goto).mockResolvedValue({
+        status: () => 503,
+        ok: () => false,
+        headers: () => ({}),
+      } as never)
+      vi.mocked(mockPage.evaluate).mockResolvedValue(true)
+      driver.setRateLimitManager(rateLimitManager)
+      await driver.launch()
+
+      const error = await driver
+        .navigate('https://leetcode.com/problems/two-sum/', 2)
+        .catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(RateLimitError)
+      expect(mockPage.goto).toHaveBeenCalledTimes(2)
+      expect(rateLimitManager.getEndpointStates()[0]).toMatchObject({
+        isRateLimited: true,
+        consecutiveFailures: 2,
+      })
+    })
+
+    it('should not check page text on successful responses', async () => {
+      vi.mocked(mockPage.goto).mockResolvedValue({ status: () => 200, ok: () => true } as never)
+      await driver.launch()
+
+      await driver.navigate('https://example.com')
+
+      expect(mockPage.evaluate).not.toHaveBeenCalled()
+    })
   })
 
   describe('waitForSelector', () => {
@@ -567,6 +630,25 @@ describe('PlaywrightDriver', () => {
       expect(content).toBe('Found content')
     })
 
+    it('should report each selector attempt', async () => {
+      const mockElement2 = {
+        textContent: vi.fn().mockResolvedValue('Found content'),
+      } as unknown as ElementHandle
+      mockPage.$ = vi
+        .fn()
+        .mockRejectedValueOnce(new Error('Unexpected token'))
+        .mockResolvedValueOnce(mockElement2)
+      const onAttempt = vi.fn()
+
+      await driver.launch()
+      await driver.extractWithFallback(['.selector1', '.selector2', '.selector3'], onAttempt)
+
+      expect(onAttempt.mock.calls).toEqual([
+        ['.selector1', false],
+        ['.selector2', true],
+      ])
+    })
+
     it('should throw error if browser not launched', async () => {
       await expect(driver.extractWithFallback(['.test'])).rejects.toThrow('Browser not launched')
     })
@@ -734,6 +816,72 @@ describe('PlaywrightDriver', () => {
     })
   })
 
+  describe('snapshot recording', () => {
+    it('should record each page when moving on, with the GraphQL responses loaded on it', async () => {
+      const recorder = {
+        recordPage: vi.fn().mockResolvedValue({ file: 'pages/page.html' }),
+        recordResponse: vi.fn().mockResolvedValue({}),
+      }
+      driver.setSnapshotRecorder(recorder as unknown as SnapshotRecorder)
+      await driver.launch()
+
+      await driver.navigate('https://leetcode.com/problems/two-sum/')
+      const routeCallback = vi.mocked(mockPage.route).mock.calls[0]?.[1]
+      const mockRoute = {
+        request: vi.fn().mockReturnValue({
+          resourceType: vi.fn().mockReturnValue('fetch'),
+          url: vi.fn().mockReturnValue('https://leetcode.com/graphql/'),
+          method: vi.fn().mockReturnValue('POST'),
+          postData: vi.fn().mockReturnValue('{"operationName":"questionData"}'),
+          headers: vi.fn().mockReturnValue({}),
+        }),
+        fetch: vi.fn().mockResolvedValue({
+          headers: vi.fn().mockReturnValue({ 'content-type': 'application/json' }),
+          json: vi.fn().mockResolvedValue({ data: {} }),
+          status: vi.fn().mockReturnValue(200),
+        }),
+        fulfill: vi.fn().mockResolvedValue(undefined),
+      }
+      await routeCallback?.(mockRoute as any, undefined as any)
+
+      expect(recorder.recordResponse).toHaveBeenCalledWith(
+        {
+          url: 'https://leetcode.com/graphql/',
+          method: 'POST',
+          postData: '{"operationName":"questionData"}',
+          status: 200,
+          body: { data: {} },
+        },
+        'https://leetcode.com/problems/two-sum/'
+      )
+      expect(recorder.recordPage).not.toHaveBeenCalled()
+
+      await driver.navigate('https://leetcode.com/problems/two-sum/editorial/')
+      expect(recorder.recordPage).toHaveBeenCalledWith(
+        'https://leetcode.com/problems/two-sum/',
+        '<html>Page content</html>'
+      )
+
+      await driver.close()
+      expect(recorder.recordPage).toHaveBeenLastCalledWith(
+        'https://leetcode.com/problems/two-sum/editorial/',
+        '<html>Page content</html>'
+      )
+    })
+
+    it('should not fail a navigation when recording fails', async () => {
+      driver.setSnapshotRecorder({
+        recordPage: vi.fn().mockRejectedValue(new Error('disk full')),
+      } as unknown as SnapshotRecorder)
+      await driver.launch()
+
+      await driver.navigate('https://leetcode.com/problems/two-sum/')
+      await expect(driver.navigate('https://leetcode.com/problems/add-two-numbers/')).resolves.toBe(
+        undefined
+      )
+    })
+  })
+
   describe('performance metrics', () => {
     it('should return metrics when monitoring enabled', async () => {
       await driver.launch({
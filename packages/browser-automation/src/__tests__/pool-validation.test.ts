@@ -112,7 +112,7 @@ describe('SessionPoolManager Validation', () => {
         BrowserError
       )
       expect(() => new SessionPoolManager({ strategy: 'invalid' as 'per-session' })).toThrow(
-        "Invalid pool strategy: invalid. Must be 'per-session' or 'shared'"
+        "Invalid pool strategy: invalid. Must be 'per-session', 'global' or 'hybrid'"
       )
     })
 
@@ -120,8 +120,15 @@ describe('SessionPoolManager Validation', () => {
       expect(() => new SessionPoolManager({ strategy: 'per-session' })).not.toThrow()
     })
 
-    it('should accept shared strategy', () => {
-      expect(() => new SessionPoolManager({ strategy: 'shared' })).not.toThrow()
+    it('should accept global and hybrid strategies', () => {
+      expect(() => new SessionPoolManager({ strategy: 'global' })).not.toThrow()
+      expect(() => new SessionPoolManager({ strategy: 'hybrid' })).not.toThrow()
+    })
+
+    it('should throw on globalMaxSize < 1', () => {
+      expect(() => new SessionPoolManager({ strategy: 'global', globalMaxSize: 0 })).toThrow(
+        'globalMaxSize must be at least 1'
+      )
     })
   })
 
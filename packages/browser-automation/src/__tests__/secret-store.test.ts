@@ -0,0 +1,128 @@
+import { mkdtemp, readFile, rm, stat } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+
+import {
+  FileSecretStore,
+  KeyringSecretStore,
+  createSecretStore,
+  getOrCreateEncryptionKey,
+  ENCRYPTION_KEY_ACCOUNT,
+  type KeyringBackend,
+} from '../encryption/secret-store'
+
+vi.mock('@lesca/shared/utils', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}))
+
+function createKeyringStub(): KeyringBackend & { entries: Map<string, string> } {
+  const entries = new Map<string, string>()
+  return {
+    entries,
+    getPassword: vi.fn(async (service: string, account: string) => {
+      return entries.get(`${service}/${account}`) ?? null
+    }),
+    setPassword: vi.fn(async (service: string, account: string, password: string) => {
+      entries.set(`${service}/${account}`, password)
+    }),
+    deletePassword: vi.fn(async (service: string, account: string) => {
+      return entries.delete(`${service}/${account}`)
+    }),
+  }
+}
+
+describe('Secret stores', () => {
+  let testDir: string
+
+  beforeEach(async () => {
+    testDir = await mkdtemp(join(tmpdir(), 'lesca-secrets-'))
+  })
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true })
+  })
+
+  describe('FileSecretStore', () => {
+    it('should return undefined before the file exists', async () => {
+      const store = new FileSecretStore(join(testDir, 'secrets.json'))
+
+      expect(await store.get('missing')).toBeUndefined()
+    })
+
+    it('should persist secrets in a file only the owner can read', async () => {
+      const path = join(testDir, 'nested', 'secrets.json')
+      const store = new FileSecretStore(path)
+
+      await store.set('token', 'value')
+
+      expect(await new FileSecretStore(path).get('token')).toBe('value')
+      expect(JSON.parse(await readFile(path, 'utf-8'))).toEqual({ token: 'value' })
+      if (process.platform !== 'win32') {
+        expect((await stat(path)).mode & 0o777).toBe(0o600)
+      }
+    })
+
+    it('should delete secrets', async () => {
+      const store = new FileSecretStore(join(testDir, 'secrets.json'))
+      await store.set('token', 'value')
+
+      expect(await store.delete('token')).toBe(true)
+      expect(await store.delete('token')).toBe(false)
+      expect(await store.get('token')).toBeUndefined()
+    })
+  })
+
+  describe('KeyringSecretStore', () => {
+    it('should store secrets under the lesca service', async () => {
+      const keyring = createKeyringStub()
+      const store = new KeyringSecretStore({ keyring })
+
+      await store.set('token', 'value')
+
+      expect(keyring.setPassword).toHaveBeenCalledWith('lesca', 'token', 'value')
+      expect(await store.get('token')).toBe('value')
+      expect(await store.get('other')).toBeUndefined()
+      expect(await store.delete('token')).toBe(true)
+    })
+
+    it('should report a missing keytar module', async () => {
+      const store = new KeyringSecretStore()
+
+      await expect(store.get('token')).rejects.toMatchObject({
+        code: 'BROWSER_ENCRYPTION_KEY_MISSING',
+      })
+    })
+  })
+
+  describe('createSecretStore', () => {
+    it('should create the backend for each secureStorage type', () => {
+      expect(createSecretStore('file', { path: join(testDir, 'secrets.json') }).type).toBe('file')
+      expect(createSecretStore('keytar', { keyring: createKeyringStub() }).type).toBe('keytar')
+    })
+
+    it('should require a path for file storage', () => {
+      expect(() => createSecretStore('file')).toThrow('secrets file path is required')
+    })
+  })
+
+  describe('getOrCreateEncryptionKey', () => {
+    it('should generate a 32-byte key once and reuse it', async () => {
+      const keyring = createKeyringStub()
+      const store = new KeyringSecretStore({ keyring })
+
+      const key = await getOrCreateEncryptionKey(store)
+      const again = await getOrCreateEncryptionKey(store)
+
+      expect(Buffer.from(key, 'base64')).toHaveLength(32)
+      expect(again).toBe(key)
+      expect(keyring.entries.get(`lesca/${ENCRYPTION_KEY_ACCOUNT}`)).toBe(key)
+      expect(keyring.setPassword).toHaveBeenCalledTimes(1)
+    })
+  })
+})
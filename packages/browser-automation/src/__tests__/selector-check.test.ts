@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+import { getSnapshotSection, runSelectorCheck } from '../selector-check'
+import { DEFAULT_SELECTORS, SelectorManager } from '../selector-manager'
+import { PlaywrightDriver } from '../playwright-driver'
+
+vi.mock('../playwright-driver')
+
+vi.mock('@lesca/shared/utils', () => ({
+  logger: {
+    debug: vi.fn(),
+  },
+}))
+
+describe('selector check', () => {
+  describe('getSnapshotSection', () => {
+    it('should use the file name, then the directories', () => {
+      expect(getSnapshotSection('problem-two-sum.html')).toBe('problem')
+      expect(getSnapshotSection('two-sum/editorial.html')).toBe('editorial')
+      expect(getSnapshotSection('discussions/lru-cache.html')).toBe('discussion')
+      expect(getSnapshotSection('problems/two-sum/editorial.html')).toBe('editorial')
+      expect(getSnapshotSection('pages/leetcode.com/problems/two-sum/solutions.html')).toBe(
+        'discussion'
+      )
+      expect(getSnapshotSection('page.html')).toBeUndefined()
+    })
+  })
+
+  describe('runSelectorCheck', () => {
+    const { title, description } = DEFAULT_SELECTORS.problem
+    /** Selectors that find an element, per snapshot HTML */
+    const matching: Record<string, string[]> = {
+      '<main>one</main>': [title.primary, description.fallbacks![0]!],
+      '<main>two</main>': [title.fallbacks![0]!],
+    }
+    let content = ''
+    const page = {
+      setContent: vi.fn(async (html: string) => {
+        content = html
+      }),
+      $: vi.fn(async (selector: string) => {
+        if (selector.includes(':contains')) {
+          throw new Error(`Unexpected token "(" while parsing selector "${selector}"`)
+        }
+        return matching[content]?.includes(selector) ? {} : null
+      }),
+    }
+    const mockDriver = {
+      launch: vi.fn().mockResolvedValue(undefined),
+      getPage: vi.fn(() => page),
+      close: vi.fn().mockResolvedValue(undefined),
+    }
+
+    beforeEach(() => {
+      vi.clearAllMocks()
+      vi.mocked(PlaywrightDriver).mockImplementation(
+        () => mockDriver as unknown as PlaywrightDriver
+      )
+    })
+
+    it('should report the health of each group', async () => {
+      const checks = await runSelectorCheck(
+        new SelectorManager(),
+        [
+          { name: 'problem-one.html', html: '<main>one</main><script>render()</script>' },
+          { name: 'problems/two.html', html: '<main>two</main>' },
+        ],
+        { headless: true, sections: ['problem', 'editorial'] }
+      )
+      const byPath = new Map(checks.map((check) => [check.path, check]))
+
+      expect(mockDriver.launch).toHaveBeenCalledWith({ headless: true })
+      expect(page.setContent).toHaveBeenCalledWith('<main>one</main>', {
+        waitUntil: 'domcontentloaded',
+      })
+      expect(byPath.get('problem.title')).toMatchObject({
+        status: 'ok',
+        matches: [
+          { selector: title.primary, position: 0, snapshots: ['problem-one.html'] },
+          { selector: title.fallbacks![0], position: 1, snapshots: ['problems/two.html'] },
+        ],
+        missingIn: [],
+      })
+      expect(byPath.get('problem.description')).toMatchObject({
+        status: 'degraded',
+        missingIn: ['problems/two.html'],
+      })
+      expect(byPath.get('problem.difficulty')).toMatchObject({
+        status: 'broken',
+        missingIn: ['problem-one.html', 'problems/two.html'],
+      })
+      expect(byPath.get('editorial.content')?.status).toBe('unchecked')
+      expect(byPath.has('auth.loginButton')).toBe(false)
+      expect(mockDriver.close).toHaveBeenCalled()
+    })
+
+    it('should list selectors the browser rejects', async () => {
+      const checks = await runSelectorCheck(
+        new SelectorManager(),
+        [{ name: 'home.html', html: '<main>one</main>' }],
+        { sections: ['auth'] }
+      )
+
+      expect(checks.find((check) => check.path === 'auth.loginButton')?.invalid).toEqual(
+        DEFAULT_SELECTORS.auth.loginButton.fallbacks
+      )
+    })
+  })
+})
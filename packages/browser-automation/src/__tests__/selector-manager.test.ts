@@ -1,10 +1,17 @@
-import { describe, it, expect } from 'vitest'
+import { describe, it, expect, vi } from 'vitest'
 import {
   SelectorManager,
   DEFAULT_SELECTORS,
   type SelectorGroup,
   type LeetCodeSelectors,
 } from '../selector-manager'
+import { MetricsCollector } from '../metrics-collector'
+
+vi.mock('@lesca/shared/utils', () => ({
+  logger: {
+    warn: vi.fn(),
+  },
+}))
 
 describe('SelectorManager', () => {
   describe('constructor', () => {
@@ -332,6 +339,110 @@ describe('SelectorManager', () => {
       expect(manager.isValid(problemSelectors.difficulty)).toBe(true)
     })
   })
+
+  describe('groups', () => {
+    it('should look up groups by path', () => {
+      const manager = new SelectorManager()
+
+      expect(manager.getGroup('editorial.content')).toBe(DEFAULT_SELECTORS.editorial.content)
+      expect(manager.listGroups()).toContainEqual({
+        path: 'problem.title',
+        group: DEFAULT_SELECTORS.problem.title,
+      })
+      expect(manager.listGroups()).toHaveLength(
+        Object.values(DEFAULT_SELECTORS).reduce(
+          (count, section) => count + Object.keys(section).length,
+          0
+        )
+      )
+    })
+  })
+
+  describe('health tracking', () => {
+    const { primary, fallbacks = [] } = DEFAULT_SELECTORS.problem.title
+    const fallback = fallbacks[1]!
+
+    /** Simulate an extraction where the primary misses and `selector` matches */
+    const fallbackHit = (manager: SelectorManager, selector = fallback) => {
+      const attempt = manager.track('problem.title')
+      for (const candidate of manager.getAll(manager.getProblemSelectors().title)) {
+        attempt(candidate, candidate === selector)
+        if (candidate === selector) break
+      }
+    }
+
+    it('should record hits and misses in the metrics collector', () => {
+      const metrics = new MetricsCollector()
+      const manager = new SelectorManager(undefined, { metrics })
+
+      fallbackHit(manager)
+
+      expect(metrics.getSelectorMetrics('problem.title')).toEqual([
+        expect.objectContaining({ selector: primary, hits: 0, misses: 1 }),
+        expect.objectContaining({ selector: fallbacks[0], hits: 0, misses: 1 }),
+        expect.objectContaining({ selector: fallback, hits: 1, misses: 0 }),
+      ])
+    })
+
+    it('should promote a fallback that keeps matching', () => {
+      const manager = new SelectorManager(undefined, { promotionThreshold: 2 })
+
+      fallbackHit(manager)
+      expect(manager.getProblemSelectors().title.primary).toBe(primary)
+
+      fallbackHit(manager)
+      const title = manager.getProblemSelectors().title
+      expect(title.primary).toBe(fallback)
+      expect(manager.getAll(title)).toEqual([
+        fallback,
+        primary,
+        ...fallbacks.filter((s) => s !== fallback),
+      ])
+      // Other groups are untouched
+      expect(manager.getProblemSelectors().description).toBe(DEFAULT_SELECTORS.problem.description)
+      expect(DEFAULT_SELECTORS.problem.title.primary).toBe(primary)
+    })
+
+    it('should restart the streak when the primary matches again', () => {
+      const manager = new SelectorManager(undefined, { promotionThreshold: 2 })
+
+      fallbackHit(manager)
+      manager.recordAttempt('problem.title', primary, true)
+      fallbackHit(manager)
+
+      expect(manager.getProblemSelectors().title.primary).toBe(primary)
+    })
+
+    it('should report promotions and restore them in a new manager', () => {
+      const onPromote = vi.fn()
+      const manager = new SelectorManager(undefined, { promotionThreshold: 1, onPromote })
+
+      fallbackHit(manager)
+
+      expect(onPromote).toHaveBeenCalledWith({ 'problem.title': fallback })
+      const restored = new SelectorManager(undefined, { promotions: manager.getPromotions() })
+      expect(restored.getProblemSelectors().title).toEqual(manager.getProblemSelectors().title)
+    })
+
+    it('should drop saved promotions that are no longer fallbacks', () => {
+      const manager = new SelectorManager(undefined, {
+        promotions: { 'problem.title': 'div.gone', 'problem.unknown': 'div.x' } as never,
+      })
+
+      expect(manager.getProblemSelectors().title).toEqual(DEFAULT_SELECTORS.problem.title)
+      expect(manager.getPromotions()).toEqual({})
+    })
+
+    it('should not promote when the threshold is 0', () => {
+      const manager = new SelectorManager(undefined, { promotionThreshold: 0 })
+
+      for (let i = 0; i < 5; i++) {
+        fallbackHit(manager)
+      }
+
+      expect(manager.getProblemSelectors().title.primary).toBe(primary)
+    })
+  })
 })
 
 describe('DEFAULT_SELECTORS', () => {
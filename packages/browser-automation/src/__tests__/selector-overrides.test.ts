@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+import {
+  loadSelectorOverrides,
+  loadSelectorPromotions,
+  parseSelectorOverrides,
+  saveSelectorPromotions,
+} from '../selector-overrides'
+import { DEFAULT_SELECTORS, SelectorManager } from '../selector-manager'
+
+describe('selector overrides', () => {
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'lesca-selectors-'))
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('should merge groups from a YAML file with the defaults', async () => {
+    const file = join(dir, 'selectors.yaml')
+    await writeFile(
+      file,
+      [
+        'problem:',
+        '  title: \'div[data-cy="title"]\'',
+        '  description:',
+        '    fallbacks: [div.elfjS]',
+        'editorial:',
+        '  content:',
+        '    primary: div.editorial',
+        '    description: Editorial body',
+      ].join('\n')
+    )
+
+    const manager = new SelectorManager(await loadSelectorOverrides(file))
+
+    expect(manager.getGroup('problem.title')).toEqual({
+      ...DEFAULT_SELECTORS.problem.title,
+      primary: 'div[data-cy="title"]',
+    })
+    expect(manager.getAll(manager.getGroup('problem.description'))).toEqual([
+      DEFAULT_SELECTORS.problem.description.primary,
+      'div.elfjS',
+    ])
+    expect(manager.getGroup('editorial.content')).toEqual({
+      primary: 'div.editorial',
+      fallbacks: DEFAULT_SELECTORS.editorial.content.fallbacks,
+      description: 'Editorial body',
+    })
+    expect(manager.getGroup('problem.difficulty')).toBe(DEFAULT_SELECTORS.problem.difficulty)
+  })
+
+  it('should treat an empty file as no overrides', async () => {
+    const file = join(dir, 'selectors.yaml')
+    await writeFile(file, '')
+
+    expect(await loadSelectorOverrides(file)).toEqual({})
+  })
+
+  it('should fail to load a missing or malformed file', async () => {
+    await expect(loadSelectorOverrides(join(dir, 'missing.yaml'))).rejects.toMatchObject({
+      code: 'CONFIG_LOAD_FAILED',
+    })
+
+    const file = join(dir, 'selectors.yaml')
+    await writeFile(file, 'problem: [unclosed')
+    await expect(loadSelectorOverrides(file)).rejects.toMatchObject({
+      code: 'CONFIG_LOAD_FAILED',
+    })
+  })
+
+  it('should reject unknown groups and invalid values', () => {
+    expect(() => parseSelectorOverrides({ problem: { heading: 'h1' } })).toThrow(
+      'unknown selector group "problem.heading"'
+    )
+    expect(() => parseSelectorOverrides({ sidebar: {} })).toThrow('unknown section "sidebar"')
+    expect(() => parseSelectorOverrides({ problem: { title: { fallbacks: 'h1' } } })).toThrow(
+      '"problem.title.fallbacks" must be a list of selectors'
+    )
+    expect(() => parseSelectorOverrides({ problem: { title: { primary: '' } } })).toThrow(
+      '"problem.title.primary" must be a non-empty string'
+    )
+    expect(() => parseSelectorOverrides({ problem: { title: { selector: 'h1' } } })).toThrow(
+      'unknown keys: selector'
+    )
+    expect(() => parseSelectorOverrides(['problem'])).toThrow(
+      'expected a mapping of selector sections'
+    )
+  })
+
+  it('should save selector promotions and load them back', async () => {
+    const file = join(dir, 'state', 'selector-promotions.json')
+
+    expect(await loadSelectorPromotions(file)).toEqual({})
+
+    await saveSelectorPromotions(file, { 'problem.title': 'div.text-title-large' })
+    expect(await loadSelectorPromotions(file)).toEqual({ 'problem.title': 'div.text-title-large' })
+
+    await writeFile(file, '["problem.title"]')
+    await expect(loadSelectorPromotions(file)).rejects.toMatchObject({
+      code: 'CONFIG_LOAD_FAILED',
+    })
+  })
+})
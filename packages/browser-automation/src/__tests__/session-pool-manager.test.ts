@@ -320,4 +320,179 @@ describe('SessionPoolManager', () => {
       expect(mockPool2.drain).toHaveBeenCalled()
     })
   })
+
+  describe('Pool Strategies', () => {
+    it('should share one pool across sessions with the global strategy', () => {
+      manager = new SessionPoolManager({ ...defaultConfig, strategy: 'global', globalMaxSize: 3 })
+
+      const pool1 = manager.getPool('session-1')
+      const pool2 = manager.getPool('session-2')
+
+      expect(pool1).toBe(pool2)
+      expect(BrowserPool).toHaveBeenCalledTimes(1)
+      expect(BrowserPool).toHaveBeenCalledWith(
+        expect.objectContaining({ maxSize: 3 }),
+        expect.anything(),
+        expect.objectContaining({ sessionName: 'shared' })
+      )
+    })
+
+    it('should give pinned sessions their own pool with the hybrid strategy', () => {
+      manager = new SessionPoolManager({
+        ...defaultConfig,
+        strategy: 'hybrid',
+        pinnedSessions: ['premium'],
+      })
+
+      const shared1 = manager.getPool('session-1')
+      const shared2 = manager.getPool('session-2')
+      const pinned = manager.getPool('premium')
+
+      expect(shared1).toBe(shared2)
+      expect(pinned).not.toBe(shared1)
+      expect(manager.usesSharedPool('premium')).toBe(false)
+      expect(manager.usesSharedPool('session-1')).toBe(true)
+    })
+
+    it('should keep per-session statistics on the shared pool', async () => {
+      manager = new SessionPoolManager({ ...defaultConfig, strategy: 'global' })
+
+      const browser = await manager.acquireBrowser('session-1')
+      await manager.acquireBrowser('session-2')
+      await manager.releaseBrowser(browser, 'session-1')
+
+      const [stats1] = manager.getStatistics('session-1')
+      const [stats2] = manager.getStatistics('session-2')
+      expect(stats1).toMatchObject({ acquisitionCount: 1, releaseCount: 1, activeBrowsers: 0 })
+      expect(stats2).toMatchObject({ acquisitionCount: 1, releaseCount: 0, activeBrowsers: 1 })
+    })
+
+    it('should keep the shared pool when draining one session', async () => {
+      manager = new SessionPoolManager({ ...defaultConfig, strategy: 'global' })
+      const pool = manager.getPool('session-1')
+      manager.getPool('session-2')
+
+      await manager.drainSessionPool('session-1')
+
+      expect(pool.drain).not.toHaveBeenCalled()
+      expect(manager.getStatistics('session-1')).toEqual([])
+      expect(manager.getStatistics('session-2')).toHaveLength(1)
+      expect(manager.getPool('session-2')).toBe(pool)
+    })
+
+    it('should drain the shared pool with drainAll', async () => {
+      manager = new SessionPoolManager({ ...defaultConfig, strategy: 'global' })
+      const pool = manager.getPool('session-1')
+
+      await manager.drainAll()
+
+      expect(pool.drain).toHaveBeenCalled()
+      expect(manager.getStatistics()).toEqual([])
+    })
+  })
+
+  describe('Browser Contexts', () => {
+    const createContext = () => ({ close: vi.fn().mockResolvedValue(undefined) })
+
+    it('should create an isolated context per session', async () => {
+      const context1 = createContext()
+      const context2 = createContext()
+      const newContext = vi.fn().mockResolvedValueOnce(context1).mockResolvedValueOnce(context2)
+      vi.mocked(BrowserPool).mockImplementationOnce(
+        () =>
+          ({
+            acquire: vi.fn().mockResolvedValue({ ...mockBrowser, newContext }),
+            release: vi.fn().mockResolvedValue(undefined),
+            drain: vi.fn().mockResolvedValue(undefined),
+          }) as unknown as BrowserPool
+      )
+      manager = new SessionPoolManager({ ...defaultConfig, strategy: 'global' })
+
+      const first = await manager.acquireContext('session-1', { userAgent: 'agent' })
+      const second = await manager.acquireContext('session-2')
+
+      expect(first).toBe(context1)
+      expect(second).toBe(context2)
+      expect(newContext).toHaveBeenCalledWith({ userAgent: 'agent' })
+    })
+
+    it('should share one browser between sessions up to contextsPerBrowser', async () => {
+      const browser = {
+        ...mockBrowser,
+        newContext: vi.fn().mockImplementation(() => Promise.resolve(createContext())),
+      }
+      const acquire = vi.fn().mockResolvedValue(browser)
+      const release = vi.fn().mockResolvedValue(undefined)
+      vi.mocked(BrowserPool).mockImplementationOnce(
+        () =>
+          ({
+            acquire,
+            release,
+            drain: vi.fn().mockResolvedValue(undefined),
+          }) as unknown as BrowserPool
+      )
+      manager = new SessionPoolManager({
+        ...defaultConfig,
+        strategy: 'global',
+        contextsPerBrowser: 2,
+      })
+
+      const first = await manager.acquireContext('session-1')
+      const second = await manager.acquireContext('session-2')
+
+      expect(acquire).toHaveBeenCalledTimes(1)
+      expect(browser.newContext).toHaveBeenCalledTimes(2)
+
+      await manager.acquireContext('session-3')
+      expect(acquire).toHaveBeenCalledTimes(2)
+
+      await manager.releaseContext(first)
+      expect(release).not.toHaveBeenCalled()
+      await manager.releaseContext(second)
+      expect(release).toHaveBeenCalledTimes(1)
+      expect(release).toHaveBeenCalledWith(browser)
+    })
+
+    it('should close the context and release its browser', async () => {
+      const context = createContext()
+      const browser = { ...mockBrowser, newContext: vi.fn().mockResolvedValue(context) }
+      const release = vi.fn().mockResolvedValue(undefined)
+      vi.mocked(BrowserPool).mockImplementationOnce(
+        () =>
+          ({
+            acquire: vi.fn().mockResolvedValue(browser),
+            release,
+            drain: vi.fn().mockResolvedValue(undefined),
+          }) as unknown as BrowserPool
+      )
+      manager = new SessionPoolManager({ ...defaultConfig, strategy: 'global' })
+
+      const acquired = await manager.acquireContext('session-1')
+      await manager.releaseContext(acquired)
+
+      expect(context.close).toHaveBeenCalled()
+      expect(release).toHaveBeenCalledWith(browser)
+      expect(manager.getStatistics('session-1')[0]).toMatchObject({ releaseCount: 1 })
+    })
+
+    it('should release the browser if the context cannot be created', async () => {
+      const release = vi.fn().mockResolvedValue(undefined)
+      vi.mocked(BrowserPool).mockImplementationOnce(
+        () =>
+          ({
+            acquire: vi.fn().mockResolvedValue({
+              ...mockBrowser,
+              newContext: vi.fn().mockRejectedValue(new Error('Target closed')),
+            }),
+            release,
+            drain: vi.fn().mockResolvedValue(undefined),
+          }) as unknown as BrowserPool
+      )
+
+      await expect(manager.acquireContext('session-1')).rejects.toThrow(
+        'Failed to create browser context'
+      )
+      expect(release).toHaveBeenCalled()
+    })
+  })
 })
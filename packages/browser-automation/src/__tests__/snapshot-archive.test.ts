@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+import {
+  GraphQLSnapshots,
+  SnapshotRecorder,
+  getOperationName,
+  normalizeSnapshotUrl,
+  readSnapshotManifest,
+} from '../snapshot-archive'
+
+describe('snapshot archive', () => {
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'lesca-snapshots-'))
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  describe('SnapshotRecorder', () => {
+    it('should save pages under their URL path and list them in the manifest', async () => {
+      const recorder = new SnapshotRecorder(dir)
+
+      const entry = await recorder.recordPage(
+        'https://leetcode.com/problems/two-sum/editorial/',
+        '<main>editorial</main>'
+      )
+
+      expect(entry.file).toBe('pages/leetcode.com/problems/two-sum/editorial.html')
+      expect(await readFile(join(dir, entry.file), 'utf-8')).toBe('<main>editorial</main>')
+      const manifest = await readSnapshotManifest(dir)
+      expect(manifest.pages).toEqual([entry])
+    })
+
+    it('should replace a page recorded again and keep query variants apart', async () => {
+      const recorder = new SnapshotRecorder(dir)
+      await recorder.recordPage('https://leetcode.com/problems/two-sum/solutions/', 'old')
+      await recorder.recordPage('https://leetcode.com/problems/two-sum/solutions', 'new')
+      const sorted = await recorder.recordPage(
+        'https://leetcode.com/problems/two-sum/solutions/?orderBy=most_votes',
+        'sorted'
+      )
+
+      const manifest = await readSnapshotManifest(dir)
+      expect(manifest.pages.map((page) => page.file)).toEqual([
+        'pages/leetcode.com/problems/two-sum/solutions.html',
+        sorted.file,
+      ])
+      expect(sorted.file).toMatch(/solutions-[0-9a-f]{8}\.html$/)
+      expect(
+        await readFile(join(dir, 'pages/leetcode.com/problems/two-sum/solutions.html'), 'utf-8')
+      ).toBe('new')
+    })
+
+    it('should save concurrent GraphQL responses named after their operation', async () => {
+      const recorder = new SnapshotRecorder(dir)
+      const page = 'https://leetcode.com/problems/two-sum/'
+
+      await Promise.all(
+        ['questionData', 'questionHints'].map((operationName) =>
+          recorder.recordResponse(
+            {
+              url: 'https://leetcode.com/graphql/',
+              method: 'POST',
+              postData: JSON.stringify({ operationName, variables: { titleSlug: 'two-sum' } }),
+              status: 200,
+              body: { data: { operationName } },
+            },
+            page
+          )
+        )
+      )
+
+      const manifest = await readSnapshotManifest(dir)
+      expect(manifest.responses).toHaveLength(2)
+      const [first] = manifest.responses
+      expect(first).toMatchObject({ operationName: 'questionData', page, status: 200 })
+      expect(first?.file).toMatch(/^responses\/questionData-[0-9a-f]{10}\.json$/)
+      expect(JSON.parse(await readFile(join(dir, first?.file ?? ''), 'utf-8'))).toEqual({
+        data: { operationName: 'questionData' },
+      })
+    })
+
+    it('should not overwrite a malformed manifest', async () => {
+      await writeFile(join(dir, 'manifest.json'), '{ broken')
+
+      await expect(
+        new SnapshotRecorder(dir).recordPage('https://leetcode.com/', '')
+      ).rejects.toThrow('Failed to read snapshot manifest')
+      expect(await readFile(join(dir, 'manifest.json'), 'utf-8')).toBe('{ broken')
+    })
+  })
+
+  describe('GraphQLSnapshots', () => {
+    const request = (titleSlug: string) => ({
+      url: 'https://leetcode.com/graphql',
+      method: 'POST',
+      postData: JSON.stringify({ operationName: 'getProblem', variables: { titleSlug } }),
+    })
+
+    it('should replay a recorded response by its variables', async () => {
+      await new GraphQLSnapshots('record', dir).record({
+        ...request('two-sum'),
+        status: 200,
+        body: { data: { question: { titleSlug: 'two-sum' } } },
+      })
+
+      const replay = new GraphQLSnapshots('replay', dir)
+      expect(await replay.find(request('two-sum'))).toEqual({
+        status: 200,
+        body: { data: { question: { titleSlug: 'two-sum' } } },
+      })
+      expect(await replay.find(request('3sum'))).toBeUndefined()
+    })
+
+    it('should share the manifest with the browser recorder', async () => {
+      await Promise.all([
+        SnapshotRecorder.forDirectory(dir).recordPage('https://leetcode.com/problems/two-sum/', ''),
+        new GraphQLSnapshots('record', dir).record({
+          ...request('two-sum'),
+          status: 200,
+          body: {},
+        }),
+      ])
+
+      const manifest = await readSnapshotManifest(dir)
+      expect(manifest.pages).toHaveLength(1)
+      expect(manifest.responses).toHaveLength(1)
+    })
+
+    it('should not record in replay mode', async () => {
+      await new GraphQLSnapshots('replay', dir).record({
+        ...request('two-sum'),
+        status: 200,
+        body: {},
+      })
+
+      await expect(readSnapshotManifest(dir)).rejects.toMatchObject({
+        code: 'BROWSER_LAUNCH_FAILED',
+      })
+    })
+  })
+
+  describe('readSnapshotManifest', () => {
+    it('should reject a directory without a manifest', async () => {
+      await expect(readSnapshotManifest(dir)).rejects.toMatchObject({
+        code: 'BROWSER_LAUNCH_FAILED',
+      })
+    })
+
+    it('should reject an unknown manifest version', async () => {
+      await writeFile(join(dir, 'manifest.json'), JSON.stringify({ version: 2 }))
+
+      await expect(readSnapshotManifest(dir)).rejects.toThrow('Unsupported snapshot manifest')
+    })
+  })
+
+  it('should normalize URLs and read operation names', () => {
+    expect(normalizeSnapshotUrl('https://leetcode.com/problems/two-sum/#top')).toBe(
+      'https://leetcode.com/problems/two-sum'
+    )
+    expect(getOperationName('{"operationName":"questionData"}')).toBe('questionData')
+    expect(getOperationName('not json')).toBeUndefined()
+  })
+})
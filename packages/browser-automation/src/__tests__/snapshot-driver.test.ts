@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import type { Browser, Page, Route } from 'playwright'
+
+import { SnapshotRecorder } from '../snapshot-archive'
+import { SnapshotDriver } from '../snapshot-driver'
+
+vi.mock('playwright', () => ({
+  chromium: {
+    launch: vi.fn(),
+  },
+}))
+
+vi.mock('@lesca/shared/utils', () => ({
+  logger: {
+    debug: vi.fn(),
+    warn: vi.fn(),
+  },
+}))
+
+const PROBLEM_URL = 'https://leetcode.com/problems/two-sum/description/'
+
+function mockRoute(url: string, resourceType: string, postData: string | null = null) {
+  return {
+    request: () => ({ url: () => url, resourceType: () => resourceType, postData: () => postData }),
+    fulfill: vi.fn().mockResolvedValue(undefined),
+    abort: vi.fn().mockResolvedValue(undefined),
+  }
+}
+
+describe('SnapshotDriver', () => {
+  let dir: string
+  let mockPage: Page
+  let replay: (route: Route) => Promise<void>
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'lesca-replay-'))
+    const recorder = new SnapshotRecorder(dir)
+    await recorder.recordPage(
+      PROBLEM_URL,
+      '<html><script>render()</script><div data-cy="question-title">1. Two Sum</div></html>'
+    )
+    await recorder.recordResponse(
+      {
+        url: 'https://leetcode.com/graphql/',
+        method: 'POST',
+        postData: JSON.stringify({ operationName: 'questionData' }),
+        status: 200,
+        body: { data: { question: { title: 'Two Sum' } } },
+      },
+      PROBLEM_URL
+    )
+
+    mockPage = {
+      goto: vi.fn().mockResolvedValue(null),
+      setDefaultTimeout: vi.fn(),
+      route: vi.fn((_pattern: string, handler: (route: Route) => Promise<void>) => {
+        replay = handler
+        return Promise.resolve()
+      }),
+      close: vi.fn().mockResolvedValue(undefined),
+    } as unknown as Page
+    const mockBrowser = {
+      newPage: vi.fn().mockResolvedValue(mockPage),
+      close: vi.fn().mockResolvedValue(undefined),
+    } as unknown as Browser
+    const { chromium } = await import('playwright')
+    vi.mocked(chromium.launch).mockResolvedValue(mockBrowser)
+  })
+
+  afterEach(async () => {
+    vi.clearAllMocks()
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('should serve recorded pages without scripts and recorded GraphQL responses', async () => {
+    const driver = new SnapshotDriver(dir)
+    await driver.launch({ blockResources: ['image'] })
+
+    // Only the replay route is installed
+    expect(mockPage.route).toHaveBeenCalledTimes(1)
+
+    const page = mockRoute('https://leetcode.com/problems/two-sum/description', 'document')
+    await replay(page as unknown as Route)
+    expect(page.fulfill).toHaveBeenCalledWith({
+      status: 200,
+      contentType: 'text/html; charset=utf-8',
+      body: '<html><div data-cy="question-title">1. Two Sum</div></html>',
+    })
+
+    const graphql = mockRoute(
+      'https://leetcode.com/graphql/',
+      'fetch',
+      JSON.stringify({ operationName: 'questionData' })
+    )
+    await replay(graphql as unknown as Route)
+    expect(graphql.fulfill).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 200, contentType: 'application/json' })
+    )
+
+    const asset = mockRoute('https://assets.leetcode.com/app.js', 'script')
+    await replay(asset as unknown as Route)
+    expect(asset.abort).toHaveBeenCalled()
+    expect(asset.fulfill).not.toHaveBeenCalled()
+  })
+
+  it('should navigate to recorded pages and expose their responses', async () => {
+    const driver = new SnapshotDriver(dir)
+    await driver.launch()
+
+    await driver.navigate(PROBLEM_URL)
+
+    expect(mockPage.goto).toHaveBeenCalledWith(PROBLEM_URL, { waitUntil: 'domcontentloaded' })
+    expect(driver.getCapturedResponses().get('https://leetcode.com/graphql/')).toEqual({
+      data: { question: { title: 'Two Sum' } },
+    })
+  })
+
+  it('should refuse URLs that were not recorded', async () => {
+    const driver = new SnapshotDriver(dir)
+    await driver.launch()
+
+    await expect(
+      driver.navigate('https://leetcode.com/problems/two-sum/editorial/')
+    ).rejects.toMatchObject({ code: 'BROWSER_NAVIGATION_FAILED' })
+    expect(mockPage.goto).not.toHaveBeenCalled()
+  })
+
+  it('should fail to launch without a manifest', async () => {
+    const driver = new SnapshotDriver(join(dir, 'missing'))
+
+    await expect(driver.launch()).rejects.toMatchObject({ code: 'BROWSER_LAUNCH_FAILED' })
+  })
+})
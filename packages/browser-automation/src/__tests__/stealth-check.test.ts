@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+  evaluateFingerprint,
+  runStealthCheck,
+  STEALTH_TEST_PAGE,
+  type FingerprintProbe,
+} from '../stealth-check'
+import { PlaywrightDriver } from '../playwright-driver'
+
+vi.mock('../playwright-driver')
+
+describe('stealth check', () => {
+  const masked: FingerprintProbe = {
+    webdriver: false,
+    userAgent:
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+    pluginCount: 3,
+    mimeTypeCount: 2,
+    languages: ['en-US', 'en'],
+    hasChromeRuntime: true,
+    notificationPermission: 'default',
+    permissionState: 'prompt',
+    webglVendor: 'Intel Inc.',
+    webglRenderer: 'Intel Iris OpenGL Engine',
+  }
+
+  describe('evaluateFingerprint', () => {
+    it('should pass a masked browser', () => {
+      const checks = evaluateFingerprint(masked)
+
+      expect(checks.map((check) => check.name)).toEqual([
+        'navigator.webdriver',
+        'user agent',
+        'plugins',
+        'languages',
+        'chrome runtime',
+        'permissions',
+        'WebGL vendor',
+      ])
+      expect(checks.filter((check) => check.leaked)).toEqual([])
+    })
+
+    it('should flag the signals of plain headless Chrome', () => {
+      const checks = evaluateFingerprint({
+        webdriver: true,
+        userAgent: 'Mozilla/5.0 HeadlessChrome/120.0.0.0',
+        pluginCount: 0,
+        mimeTypeCount: 0,
+        languages: [],
+        hasChromeRuntime: false,
+        notificationPermission: 'denied',
+        permissionState: 'prompt',
+        webglVendor: 'Google Inc. (Google)',
+        webglRenderer: 'ANGLE (Google, Vulkan 1.3.0 (SwiftShader Device))',
+      })
+
+      expect(checks.every((check) => check.leaked)).toBe(true)
+      expect(checks[0]?.detail).toBe('navigator.webdriver is true')
+      expect(checks[6]?.detail).toContain('SwiftShader')
+    })
+
+    it('should flag missing WebGL renderer info', () => {
+      const checks = evaluateFingerprint({
+        ...masked,
+        webglVendor: undefined,
+        webglRenderer: undefined,
+      })
+
+      expect(checks.find((check) => check.name === 'WebGL vendor')).toEqual({
+        name: 'WebGL vendor',
+        leaked: true,
+        detail: 'WebGL renderer info unavailable',
+      })
+    })
+  })
+
+  describe('runStealthCheck', () => {
+    let served: string | undefined
+    const mockDriver = {
+      launch: vi.fn().mockResolvedValue(undefined),
+      navigate: vi.fn(async (url: string) => {
+        served = await (await fetch(url)).text()
+      }),
+      getPage: vi.fn(() => ({ evaluate: vi.fn().mockResolvedValue(masked) })),
+      close: vi.fn().mockResolvedValue(undefined),
+    }
+
+    beforeEach(() => {
+      vi.clearAllMocks()
+      served = undefined
+      vi.mocked(PlaywrightDriver).mockImplementation(
+        () => mockDriver as unknown as PlaywrightDriver
+      )
+    })
+
+    it('should load the test page from a local server', async () => {
+      const checks = await runStealthCheck({ stealth: { enabled: true } })
+
+      expect(mockDriver.launch).toHaveBeenCalledWith({ stealth: { enabled: true } })
+      expect(mockDriver.navigate).toHaveBeenCalledWith(
+        expect.stringMatching(/^http:\/\/127\.0\.0\.1:\d+\/$/),
+        1
+      )
+      expect(served).toBe(STEALTH_TEST_PAGE)
+      expect(checks.some((check) => check.leaked)).toBe(false)
+      expect(mockDriver.close).toHaveBeenCalled()
+    })
+
+    it('should close the browser when the page cannot be loaded', async () => {
+      mockDriver.navigate.mockRejectedValueOnce(new Error('net::ERR_CONNECTION_REFUSED'))
+
+      await expect(runStealthCheck()).rejects.toThrow('net::ERR_CONNECTION_REFUSED')
+      expect(mockDriver.close).toHaveBeenCalled()
+    })
+  })
+})
@@ -1,7 +1,14 @@
 import { configManager } from '@lesca/shared/config'
+import type { SessionPoolConfig } from '@lesca/shared/types'
 
 import { BrowserService } from './browser-service'
-import type { BrowserServiceOptions, ISessionManager, ISessionPoolManager } from './interfaces'
+import type {
+  BrowserServiceOptions,
+  IRateLimitManager,
+  ISessionManager,
+  ISessionPoolManager,
+} from './interfaces'
+import { RateLimitManager, type RateLimitConfig } from './rate-limit'
 import { SessionManager } from './session-manager'
 import { SessionPoolManager } from './session-pool-manager'
 
@@ -13,17 +20,28 @@ export class BrowserServiceFactory {
   private static instance: BrowserServiceFactory
   private sessionManager: ISessionManager
   private sessionPoolManager: ISessionPoolManager
+  private rateLimitManager: IRateLimitManager
 
   private constructor() {
     this.sessionManager = new SessionManager()
-    this.sessionPoolManager = new SessionPoolManager({
-      strategy: 'per-session',
-      perSessionMaxSize: configManager.get<number>('browser.pool.maxSize') || 2,
-      perSessionIdleTime: configManager.get<number>('browser.pool.idleTimeout') || 180000,
-      acquireTimeout: configManager.get<number>('browser.pool.acquireTimeout') || 30000,
-      retryOnFailure: true,
-      maxRetries: 3,
-    })
+    this.rateLimitManager = new RateLimitManager(createRateLimitConfig())
+    this.sessionPoolManager = new SessionPoolManager(
+      {
+        strategy:
+          configManager.get<SessionPoolConfig['strategy']>('browser.pool.strategy') ||
+          'per-session',
+        perSessionMaxSize: configManager.get<number>('browser.pool.maxSize') || 2,
+        perSessionIdleTime: configManager.get<number>('browser.pool.idleTimeout') || 180000,
+        acquireTimeout: configManager.get<number>('browser.pool.acquireTimeout') || 30000,
+        retryOnFailure: true,
+        maxRetries: 3,
+        globalMaxSize: configManager.get<number>('browser.pool.globalMaxSize') || 4,
+        pinnedSessions: configManager.get<string[]>('browser.pool.pinnedSessions') || [],
+        contextsPerBrowser: configManager.get<number>('browser.pool.contextsPerBrowser') || 4,
+      },
+      {},
+      { rateLimitManager: this.rateLimitManager }
+    )
   }
 
   /**
@@ -40,7 +58,10 @@ export class BrowserServiceFactory {
    * Create a new BrowserService instance
    */
   createService(options: BrowserServiceOptions = {}): BrowserService {
-    return new BrowserService(this.sessionManager, this.sessionPoolManager, options)
+    return new BrowserService(this.sessionManager, this.sessionPoolManager, {
+      rateLimitManager: this.rateLimitManager,
+      ...options,
+    })
   }
 
   /**
@@ -56,4 +77,35 @@ export class BrowserServiceFactory {
   getSessionPoolManager(): ISessionPoolManager {
     return this.sessionPoolManager
   }
+
+  /**
+   * Get the process-wide rate limit manager
+   * Shared by every browser driver and API client so they all back off together.
+   */
+  getRateLimitManager(): IRateLimitManager {
+    return this.rateLimitManager
+  }
+
+  /**
+   * Create a rate limit manager with its own backoff state
+   * Used by accounts that must not slow down when another account is rate limited.
+   */
+  createRateLimitManager(): IRateLimitManager {
+    return new RateLimitManager(createRateLimitConfig())
+  }
+}
+
+/**
+ * Build the rate limit manager config from `api.rateLimit`
+ * `minDelay` and `maxDelay` bound the backoff after a rate-limited response.
+ */
+function createRateLimitConfig(): RateLimitConfig {
+  return {
+    enabled: configManager.get<boolean>('api.rateLimit.enabled') ?? true,
+    backoff: {
+      initialDelayMs: configManager.get<number>('api.rateLimit.minDelay') || 2000,
+      maxDelayMs: configManager.get<number>('api.rateLimit.maxDelay') || 10000,
+      jitter: configManager.get<boolean>('api.rateLimit.jitter') ?? true,
+    },
+  }
 }
@@ -9,6 +9,8 @@ import type {
   ISessionPoolManager,
 } from './interfaces'
 import { PlaywrightDriver } from './playwright-driver'
+import { SnapshotRecorder } from './snapshot-archive'
+import { SnapshotDriver } from './snapshot-driver'
 
 /**
  * Browser Service
@@ -43,21 +45,34 @@ export class BrowserService implements IBrowserService {
     }
 
     try {
-      const { sessionName, autoRestore, auth } = this.options
-
-      // Initialize driver with session pool manager if session is provided
-      this.driver = new PlaywrightDriver(
-        auth ? { cookies: [], csrfToken: '' } : undefined, // Auth cookies handled by session or injected later
-        sessionName ? this.sessionPoolManager : undefined,
-        sessionName
-      )
+      const { autoRestore, auth, rateLimitManager, snapshots } = this.options
+      // Replays never touch a session: there is nothing to restore or persist
+      const sessionName = snapshots?.mode === 'replay' ? undefined : this.options.sessionName
+
+      if (snapshots?.mode === 'replay') {
+        this.driver = new SnapshotDriver(snapshots.dir)
+      } else {
+        // Initialize driver with session pool manager if session is provided
+        this.driver = new PlaywrightDriver(
+          auth ? { cookies: [], csrfToken: '' } : undefined, // Auth cookies handled by session or injected later
+          sessionName ? this.sessionPoolManager : undefined,
+          sessionName
+        )
+        if (rateLimitManager) {
+          this.driver.setRateLimitManager(rateLimitManager)
+        }
+        if (snapshots?.mode === 'record') {
+          this.driver.setSnapshotRecorder(SnapshotRecorder.forDirectory(snapshots.dir))
+        }
+      }
 
       // Launch browser
       await this.driver.launch(launchOptions)
 
       // Restore session if requested
+      // Pooled browsers hold contexts of other sessions, so only the driver's own context is used
       if (sessionName && autoRestore) {
-        const context = this.driver.getBrowser()?.contexts()[0]
+        const context = this.driver.getPage()?.context()
         if (context) {
           const restored = await this.sessionManager.restoreSession(sessionName, context)
           if (restored) {
@@ -91,11 +106,11 @@ export class BrowserService implements IBrowserService {
     }
 
     try {
-      const { sessionName, persistOnShutdown } = this.options
+      const { sessionName, persistOnShutdown, snapshots } = this.options
 
       // Persist session if requested
-      if (sessionName && persistOnShutdown) {
-        const context = this.driver.getBrowser()?.contexts()[0]
+      if (sessionName && persistOnShutdown && snapshots?.mode !== 'replay') {
+        const context = this.driver.getPage()?.context()
         if (context) {
           await this.sessionManager.createSession(sessionName, context, {
             description: 'Persisted on shutdown',
@@ -1,4 +1,4 @@
-import { readFile, writeFile, mkdir } from 'fs/promises'
+import { chmod, readFile, writeFile, mkdir } from 'fs/promises'
 import { dirname } from 'path'
 
 import { BrowserError } from '@lesca/error'
@@ -23,6 +23,17 @@ export interface CookieValidationResult {
  */
 export type MergeStrategy = 'keep-existing' | 'prefer-fresh' | 'merge-all'
 
+/**
+ * Errors from the encryption layer, passed through so tampering is not reported
+ * as a generic cookie failure
+ */
+const ENCRYPTION_ERROR_CODES: ReadonlySet<string> = new Set([
+  'BROWSER_ENCRYPTION_KEY_MISSING',
+  'BROWSER_ENCRYPTION_KEY_INVALID',
+  'BROWSER_DECRYPTION_FAILED',
+  'BROWSER_DECRYPTION_AUTH_FAILED',
+])
+
 /**
  * Cookie file format (same as auth package for compatibility)
  */
@@ -44,7 +55,7 @@ export class CookieManager {
   /**
    * Creates a new CookieManager instance.
    *
-   * @param encryptionConfig - Optional encryption configuration for cookie files
+   * @param encryption - Optional encryption configuration or service for cookie files
    *
    * @example
    * ```typescript
@@ -53,11 +64,16 @@ export class CookieManager {
    *
    * // With encryption
    * const manager = new CookieManager({ enabled: true });
+   *
+   * // With a key from a secret store
+   * const manager = new CookieManager(new EncryptionService({ enabled: true, key }));
    * ```
    */
-  constructor(encryptionConfig?: Partial<EncryptionConfig>) {
-    if (encryptionConfig) {
-      this.encryption = new EncryptionService(encryptionConfig)
+  constructor(encryption?: Partial<EncryptionConfig> | EncryptionService) {
+    if (encryption instanceof EncryptionService) {
+      this.encryption = encryption
+    } else if (encryption) {
+      this.encryption = new EncryptionService(encryption)
     }
   }
 
@@ -92,12 +108,17 @@ export class CookieManager {
       const jsonData = JSON.stringify(data, null, 2)
       const content = this.encryption?.isEnabled() ? this.encryption.encrypt(jsonData) : jsonData
 
-      await writeFile(path, content, 'utf-8')
+      await writeFile(path, content, { encoding: 'utf-8', mode: 0o600 })
+      // writeFile only applies the mode to new files
+      await chmod(path, 0o600)
 
       logger.info(`Saved ${cookies.length} cookies to ${path}`, {
         encrypted: this.encryption?.isEnabled() ?? false,
       })
     } catch (error) {
+      if (error instanceof BrowserError && ENCRYPTION_ERROR_CODES.has(error.code)) {
+        throw error
+      }
       throw new BrowserError('BROWSER_LAUNCH_FAILED', 'Failed to save cookies', {
         cause: error as Error,
         context: { path },
@@ -129,6 +150,9 @@ export class CookieManager {
       logger.info(`Loaded ${data.cookies.length} cookies from ${path}`)
       return data.cookies
     } catch (error) {
+      if (error instanceof BrowserError && ENCRYPTION_ERROR_CODES.has(error.code)) {
+        throw error
+      }
       if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
         throw new BrowserError('BROWSER_LAUNCH_FAILED', `Cookie file not found: ${path}`, {
           context: { path },
@@ -57,6 +57,8 @@ export interface EncryptionConfig {
   enabled: boolean
   /** Environment variable name containing the encryption key. Default: LESCA_ENCRYPTION_KEY */
   keyEnvVar?: string
+  /** Base64-encoded key, e.g. read from a secret store. Takes precedence over keyEnvVar. */
+  key?: string
 }
 
 /**
@@ -65,6 +67,7 @@ export interface EncryptionConfig {
 export interface ResolvedEncryptionConfig {
   enabled: boolean
   keyEnvVar: string
+  key?: string
 }
 
 /**
@@ -97,9 +100,19 @@ export function resolveEncryptionConfig(
   return {
     enabled: config.enabled ?? false,
     keyEnvVar: config.keyEnvVar ?? DEFAULT_KEY_ENV_VAR,
+    ...(config.key !== undefined && { key: config.key }),
   }
 }
 
+/**
+ * Generate a new random encryption key
+ *
+ * @returns Base64-encoded 32-byte key
+ */
+export function generateEncryptionKey(): string {
+  return randomBytes(KEY_LENGTH).toString('base64')
+}
+
 /**
  * Encryption Service
  *
@@ -141,7 +154,7 @@ export class EncryptionService {
   }
 
   /**
-   * Load encryption key from environment variable.
+   * Load encryption key from config or environment variable.
    *
    * Key must be a base64-encoded 32-byte value.
    *
@@ -154,7 +167,7 @@ export class EncryptionService {
       return this.keyCache
     }
 
-    const keyBase64 = process.env[this.config.keyEnvVar]
+    const keyBase64 = this.config.key ?? process.env[this.config.keyEnvVar]
 
     if (!keyBase64) {
       throw new BrowserError(
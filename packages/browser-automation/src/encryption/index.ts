@@ -25,8 +25,20 @@
 
 export {
   EncryptionService,
+  generateEncryptionKey,
   resolveEncryptionConfig,
   type EncryptionConfig,
   type EncryptedPayload,
   type ResolvedEncryptionConfig,
 } from './encryption-service'
+export {
+  FileSecretStore,
+  KeyringSecretStore,
+  createSecretStore,
+  getOrCreateEncryptionKey,
+  ENCRYPTION_KEY_ACCOUNT,
+  type SecretStore,
+  type SecretStoreType,
+  type SecretStoreOptions,
+  type KeyringBackend,
+} from './secret-store'
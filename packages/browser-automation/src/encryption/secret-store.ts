@@ -0,0 +1,226 @@
+/**
+ * Secret Stores
+ *
+ * Keep the cookie encryption key out of the files it protects.
+ *
+ * ## Backends
+ * - `file`: JSON file readable only by the current user (mode 0600)
+ * - `keytar`: OS keyring (macOS Keychain, Windows Credential Vault, libsecret)
+ *   through the optional `keytar` package
+ *
+ * ## Usage
+ * ```typescript
+ * const store = createSecretStore('keytar')
+ * const key = await getOrCreateEncryptionKey(store)
+ * const encryption = new EncryptionService({ enabled: true, key })
+ * ```
+ *
+ * @module browser-automation/encryption
+ */
+
+import { chmod, mkdir, readFile, writeFile } from 'fs/promises'
+import { dirname } from 'path'
+
+import { BrowserError } from '@lesca/error'
+import { logger } from '@lesca/shared/utils'
+
+import { generateEncryptionKey } from './encryption-service'
+
+/** Service name used for keyring entries */
+const DEFAULT_SERVICE = 'lesca'
+
+/** Account name the cookie encryption key is stored under */
+export const ENCRYPTION_KEY_ACCOUNT = 'cookie-encryption-key'
+
+/**
+ * Secret storage backend type (matches `auth.secureStorage`)
+ */
+export type SecretStoreType = 'keytar' | 'file'
+
+/**
+ * Interface for a secret store.
+ *
+ * Implementations persist small secrets such as encryption keys.
+ */
+export interface SecretStore {
+  /** Backend name */
+  readonly type: SecretStoreType
+  /** Read a secret, or undefined if it is not set */
+  get(account: string): Promise<string | undefined>
+  /** Create or replace a secret */
+  set(account: string, secret: string): Promise<void>
+  /** Remove a secret. Returns true if it existed. */
+  delete(account: string): Promise<boolean>
+}
+
+/**
+ * Subset of the `keytar` API used by {@link KeyringSecretStore}
+ */
+export interface KeyringBackend {
+  getPassword(service: string, account: string): Promise<string | null>
+  setPassword(service: string, account: string, password: string): Promise<void>
+  deletePassword(service: string, account: string): Promise<boolean>
+}
+
+/**
+ * Secret store options
+ */
+export interface SecretStoreOptions {
+  /** Path of the secrets file (file backend) */
+  path?: string
+  /** Keyring service name (keytar backend). Default: lesca */
+  service?: string
+  /** Keyring implementation (keytar backend). Default: the `keytar` package */
+  keyring?: KeyringBackend
+}
+
+/**
+ * File Secret Store
+ *
+ * Stores secrets as JSON in a file only the current user can read.
+ */
+export class FileSecretStore implements SecretStore {
+  readonly type = 'file'
+
+  constructor(private readonly path: string) {}
+
+  async get(account: string): Promise<string | undefined> {
+    const secrets = await this.read()
+    return secrets[account]
+  }
+
+  async set(account: string, secret: string): Promise<void> {
+    const secrets = await this.read()
+    secrets[account] = secret
+    await this.write(secrets)
+  }
+
+  async delete(account: string): Promise<boolean> {
+    const secrets = await this.read()
+    if (!(account in secrets)) {
+      return false
+    }
+    delete secrets[account]
+    await this.write(secrets)
+    return true
+  }
+
+  private async read(): Promise<Record<string, string>> {
+    try {
+      return JSON.parse(await readFile(this.path, 'utf-8')) as Record<string, string>
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {}
+      }
+      throw new BrowserError('BROWSER_ENCRYPTION_KEY_INVALID', 'Failed to read secrets file', {
+        cause: error as Error,
+        context: { path: this.path },
+      })
+    }
+  }
+
+  private async write(secrets: Record<string, string>): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true, mode: 0o700 })
+    await writeFile(this.path, JSON.stringify(secrets, null, 2), { encoding: 'utf-8', mode: 0o600 })
+    // writeFile only applies the mode to new files
+    await chmod(this.path, 0o600)
+  }
+}
+
+/**
+ * Keyring Secret Store
+ *
+ * Stores secrets in the OS keyring. The `keytar` package is loaded on first
+ * use so it stays an optional dependency.
+ */
+export class KeyringSecretStore implements SecretStore {
+  readonly type = 'keytar'
+  private readonly service: string
+  private keyring?: KeyringBackend
+
+  constructor(options: Pick<SecretStoreOptions, 'service' | 'keyring'> = {}) {
+    this.service = options.service ?? DEFAULT_SERVICE
+    if (options.keyring) {
+      this.keyring = options.keyring
+    }
+  }
+
+  async get(account: string): Promise<string | undefined> {
+    const keyring = await this.getKeyring()
+    return (await keyring.getPassword(this.service, account)) ?? undefined
+  }
+
+  async set(account: string, secret: string): Promise<void> {
+    const keyring = await this.getKeyring()
+    await keyring.setPassword(this.service, account, secret)
+  }
+
+  async delete(account: string): Promise<boolean> {
+    const keyring = await this.getKeyring()
+    return keyring.deletePassword(this.service, account)
+  }
+
+  /**
+   * Load the keytar module
+   * @throws {BrowserError} ENCRYPTION_KEY_MISSING - If keytar is not installed
+   */
+  private async getKeyring(): Promise<KeyringBackend> {
+    if (this.keyring) {
+      return this.keyring
+    }
+
+    const moduleName = 'keytar'
+    try {
+      const loaded = (await import(moduleName)) as KeyringBackend & { default?: KeyringBackend }
+      this.keyring = loaded.default ?? loaded
+      return this.keyring
+    } catch (error) {
+      throw new BrowserError(
+        'BROWSER_ENCRYPTION_KEY_MISSING',
+        'OS keyring is unavailable. Install keytar or set auth.secureStorage to "file".',
+        { cause: error as Error }
+      )
+    }
+  }
+}
+
+/**
+ * Create the secret store for a backend type
+ *
+ * @param type - Backend type from `auth.secureStorage`
+ * @param options - Backend options
+ */
+export function createSecretStore(
+  type: SecretStoreType,
+  options: SecretStoreOptions = {}
+): SecretStore {
+  if (type === 'keytar') {
+    return new KeyringSecretStore(options)
+  }
+
+  if (!options.path) {
+    throw new BrowserError(
+      'BROWSER_ENCRYPTION_KEY_MISSING',
+      'A secrets file path is required for file secret storage'
+    )
+  }
+  return new FileSecretStore(options.path)
+}
+
+/**
+ * Read the cookie encryption key from a store, generating one on first use
+ *
+ * @param store - Secret store holding the key
+ * @returns Base64-encoded 32-byte key
+ */
+export async function getOrCreateEncryptionKey(store: SecretStore): Promise<string> {
+  const existing = await store.get(ENCRYPTION_KEY_ACCOUNT)
+  if (existing) {
+    return existing
+  }
+
+  const key = generateEncryptionKey()
+  await store.set(ENCRYPTION_KEY_ACCOUNT, key)
+  logger.info('Generated cookie encryption key', { store: store.type })
+  return key
+}
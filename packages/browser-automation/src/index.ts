@@ -11,7 +11,31 @@ export { MetricsCollector } from './metrics-collector'
 export { PerformanceMonitor } from './performance'
 export { PlaywrightDriver } from './playwright-driver'
 export { RequestInterceptor } from './interceptor'
-export { SelectorManager } from './selector-manager'
+export type { CapturedResponse } from './interceptor'
+export { SnapshotDriver } from './snapshot-driver'
+export {
+  SnapshotRecorder,
+  GraphQLSnapshots,
+  SNAPSHOT_MANIFEST,
+  readSnapshotManifest,
+  normalizeSnapshotUrl,
+} from './snapshot-archive'
+export type { SnapshotManifest, SnapshotPageEntry, SnapshotResponseEntry } from './snapshot-archive'
+export { SelectorManager, DEFAULT_SELECTORS } from './selector-manager'
+export type {
+  SelectorGroup,
+  LeetCodeSelectors,
+  SelectorPath,
+  SelectorAttemptListener,
+  SelectorManagerOptions,
+  SelectorPromotions,
+} from './selector-manager'
+export {
+  loadSelectorOverrides,
+  loadSelectorPromotions,
+  parseSelectorOverrides,
+  saveSelectorPromotions,
+} from './selector-overrides'
 export { SessionManager } from './session-manager'
 export { SessionPoolManager } from './session-pool-manager'
 export { SessionCleanupScheduler } from './session-cleanup-scheduler'
@@ -19,8 +43,25 @@ export { BrowserService } from './browser-service'
 export { BrowserServiceFactory } from './browser-service-factory'
 
 // Encryption module exports
-export { EncryptionService, resolveEncryptionConfig } from './encryption'
-export type { EncryptionConfig, EncryptedPayload, ResolvedEncryptionConfig } from './encryption'
+export {
+  EncryptionService,
+  generateEncryptionKey,
+  resolveEncryptionConfig,
+  FileSecretStore,
+  KeyringSecretStore,
+  createSecretStore,
+  getOrCreateEncryptionKey,
+  ENCRYPTION_KEY_ACCOUNT,
+} from './encryption'
+export type {
+  EncryptionConfig,
+  EncryptedPayload,
+  ResolvedEncryptionConfig,
+  SecretStore,
+  SecretStoreType,
+  SecretStoreOptions,
+  KeyringBackend,
+} from './encryption'
 
 // Stealth module exports
 export { StealthManager } from './stealth'
@@ -98,6 +139,9 @@ export type {
   CircuitTripEvent,
   CircuitResetEvent,
   CircuitHalfOpenEvent,
+  SelectorHitEvent,
+  SelectorMissEvent,
+  SelectorMetrics,
   TimingStats,
   SessionMetrics,
   MetricsSummary,
@@ -120,3 +164,14 @@ export {
   detectPremiumRequired,
   waitForState,
 } from './detectors'
+
+export {
+  STEALTH_TEST_PAGE,
+  probeFingerprint,
+  evaluateFingerprint,
+  runStealthCheck,
+} from './stealth-check'
+export type { FingerprintProbe, FingerprintCheck } from './stealth-check'
+
+export { getSnapshotSection, matchSelectorsOnPage, runSelectorCheck } from './selector-check'
+export type { SelectorSnapshot, SelectorGroupStatus, SelectorGroupCheck } from './selector-check'
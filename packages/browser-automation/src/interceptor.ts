@@ -12,6 +12,20 @@ export interface InterceptorOptions {
   injectHeaders?: Record<string, string>
   /** Custom request modification callback */
   modifyRequest?: (request: Request) => Promise<void> | void
+  /** Called with every captured JSON response, e.g. to record it */
+  onCapture?: (response: CapturedResponse) => Promise<void> | void
+}
+
+/**
+ * A JSON response captured by the interceptor, with the request that produced it
+ */
+export interface CapturedResponse {
+  url: string
+  method: string
+  /** Request body, e.g. the GraphQL query and variables */
+  postData?: string
+  status: number
+  body: unknown
 }
 
 /**
@@ -53,6 +67,16 @@ export class RequestInterceptor {
               const json: unknown = await response.json()
               this.responses.set(url, json)
               logger.debug(`Captured response from: ${url}`)
+              if (this.options.onCapture) {
+                const postData = request.postData()
+                await this.options.onCapture({
+                  url,
+                  method: request.method(),
+                  ...(postData !== null ? { postData } : {}),
+                  status: response.status(),
+                  body: json,
+                })
+              }
             } catch (e) {
               logger.warn(`Failed to parse JSON from captured response: ${url}`)
             }
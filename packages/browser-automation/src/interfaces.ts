@@ -8,7 +8,13 @@
  */
 
 import type { BrowserDriver, PoolStatistics } from '@lesca/shared/types'
-import type { Browser, BrowserContext, Cookie, LaunchOptions } from 'playwright'
+import type {
+  Browser,
+  BrowserContext,
+  BrowserContextOptions,
+  Cookie,
+  LaunchOptions,
+} from 'playwright'
 
 import type { EndpointState, RateLimitDecision } from './rate-limit/types'
 
@@ -250,6 +256,10 @@ export interface ISessionPoolManager {
   acquireBrowser(sessionName: string): Promise<Browser>
   /** Release a browser back to its session pool */
   releaseBrowser(browser: Browser, sessionName: string): Promise<void>
+  /** Acquire an isolated browser context for a session */
+  acquireContext(sessionName: string, options?: BrowserContextOptions): Promise<BrowserContext>
+  /** Close a browser context and release its browser */
+  releaseContext(context: BrowserContext): Promise<void>
   /** Get statistics for one or all sessions */
   getStatistics(sessionName?: string): PoolStatistics[]
   /** Drain a specific session's pool */
@@ -265,6 +275,11 @@ export interface BrowserServiceOptions {
   sessionName?: string // undefined = ephemeral
   persistOnShutdown?: boolean // save session on close
   autoRestore?: boolean // restore session on start
+  rateLimitManager?: IRateLimitManager // shared across drivers and API clients
+  snapshots?: {
+    mode: 'record' | 'replay' // record live pages, or replay them offline
+    dir: string
+  }
   auth?: {
     username?: string
     password?: string
@@ -314,6 +329,8 @@ export type PoolEventType =
   | 'circuit:trip'
   | 'circuit:reset'
   | 'circuit:half-open'
+  | 'selector:hit'
+  | 'selector:miss'
 
 /**
  * Base metric event
@@ -405,6 +422,30 @@ export interface CircuitHalfOpenEvent extends BaseMetricEvent {
   timeSinceTrip: number
 }
 
+/**
+ * Selector matched event
+ */
+export interface SelectorHitEvent extends BaseMetricEvent {
+  type: 'selector:hit'
+  /** Selector group path, e.g. `problem.title` */
+  group: string
+  selector: string
+  /** Position in the group: 0 for the primary, 1+ for fallbacks */
+  position: number
+}
+
+/**
+ * Selector missed event
+ */
+export interface SelectorMissEvent extends BaseMetricEvent {
+  type: 'selector:miss'
+  /** Selector group path, e.g. `problem.title` */
+  group: string
+  selector: string
+  /** Position in the group: 0 for the primary, 1+ for fallbacks */
+  position: number
+}
+
 /**
  * Union type for all metric events
  */
@@ -418,6 +459,8 @@ export type MetricEvent =
   | CircuitTripEvent
   | CircuitResetEvent
   | CircuitHalfOpenEvent
+  | SelectorHitEvent
+  | SelectorMissEvent
 
 /**
  * Timing statistics
@@ -460,6 +503,19 @@ export interface SessionMetrics {
   lastEventAt: number | undefined
 }
 
+/**
+ * Hit/miss counts for one selector
+ */
+export interface SelectorMetrics {
+  group: string
+  selector: string
+  hits: number
+  misses: number
+  /** hits / (hits + misses) */
+  hitRate: number
+  lastHitAt: number | undefined
+}
+
 /**
  * Global metrics summary
  */
@@ -6,6 +6,7 @@ import type {
   MetricEvent,
   MetricsCollectorConfig,
   MetricsSummary,
+  SelectorMetrics,
   SessionMetrics,
   TimingStats,
 } from './interfaces'
@@ -117,6 +118,7 @@ function calculateTimingStats(timings: number[]): TimingStats {
  * - Pool operations: acquire, release, exhausted
  * - Browser lifecycle: created, destroyed
  * - Circuit breaker: trip, reset, half-open
+ * - Selectors: hits and misses per selector
  * - Timing: operation durations in milliseconds
  *
  * ## Usage
@@ -154,6 +156,7 @@ function calculateTimingStats(timings: number[]): TimingStats {
  */
 export class MetricsCollector extends EventEmitter implements IMetricsCollector {
   private sessionData: Map<string, SessionEventData> = new Map()
+  private selectorData: Map<string, SelectorMetrics> = new Map()
   private config: Required<MetricsCollectorConfig>
   private windowStartTime: number
 
@@ -287,9 +290,39 @@ export class MetricsCollector extends EventEmitter implements IMetricsCollector
       case 'circuit:half-open':
         data.currentCircuitState = 'half-open'
         break
+
+      case 'selector:hit':
+      case 'selector:miss':
+        this.recordSelector(
+          event.group,
+          event.selector,
+          event.type === 'selector:hit',
+          event.timestamp
+        )
+        break
     }
   }
 
+  /**
+   * Update the hit/miss counts of a selector
+   */
+  private recordSelector(group: string, selector: string, hit: boolean, timestamp: number): void {
+    const key = `${group}\u0000${selector}`
+    let metrics = this.selectorData.get(key)
+    if (!metrics) {
+      metrics = { group, selector, hits: 0, misses: 0, hitRate: 0, lastHitAt: undefined }
+      this.selectorData.set(key, metrics)
+    }
+
+    if (hit) {
+      metrics.hits++
+      metrics.lastHitAt = timestamp
+    } else {
+      metrics.misses++
+    }
+    metrics.hitRate = metrics.hits / (metrics.hits + metrics.misses)
+  }
+
   /**
    * Trim timing arrays to prevent unbounded growth
    */
@@ -453,6 +486,28 @@ export class MetricsCollector extends EventEmitter implements IMetricsCollector
     }
   }
 
+  /**
+   * Gets hit/miss counts per selector.
+   *
+   * @param group - Only selectors of this group path, e.g. `problem.title`
+   *
+   * @returns Selector metrics in the order the selectors were first seen
+   *
+   * @example
+   * ```typescript
+   * for (const metrics of collector.getSelectorMetrics()) {
+   *   if (metrics.hits === 0) {
+   *     console.warn(`${metrics.group}: ${metrics.selector} never matched`);
+   *   }
+   * }
+   * ```
+   */
+  getSelectorMetrics(group?: string): SelectorMetrics[] {
+    return [...this.selectorData.values()]
+      .filter((metrics) => group === undefined || metrics.group === group)
+      .map((metrics) => ({ ...metrics }))
+  }
+
   /**
    * Subscribes to metric events.
    *
@@ -502,6 +557,7 @@ export class MetricsCollector extends EventEmitter implements IMetricsCollector
    */
   reset(): void {
     this.sessionData.clear()
+    this.selectorData.clear()
     this.windowStartTime = Date.now()
   }
 
@@ -2,23 +2,36 @@
 // Non-null assertions in this file are safe because they're always preceded by ensureLaunched()
 // which performs runtime checks. TypeScript cannot infer this relationship statically.
 
-import { BrowserError, BrowserTimeoutError } from '@lesca/error'
+import { BrowserError, BrowserTimeoutError, RateLimitError } from '@lesca/error'
 import type { BrowserDriver, BrowserLaunchOptions, AuthCredentials } from '@lesca/shared/types'
 import { logger } from '@lesca/shared/utils'
-import { chromium, type Browser, type Page, type Cookie } from 'playwright'
+import {
+  chromium,
+  type Browser,
+  type BrowserContext,
+  type Cookie,
+  type Page,
+  type Response,
+} from 'playwright'
 
 import type { CookieManager } from './cookie-manager'
-import { RequestInterceptor } from './interceptor'
+import { detectRateLimit } from './detectors'
+import { RequestInterceptor, type CapturedResponse } from './interceptor'
 import type { IBrowserPool, IRateLimitManager, ISessionPoolManager } from './interfaces'
 import { PerformanceMonitor, type PerformanceMetrics } from './performance'
+import type { SnapshotRecorder } from './snapshot-archive'
 import { StealthManager } from './stealth'
 
+/** Responses recorded alongside pages when no capture pattern is configured */
+const SNAPSHOT_CAPTURE_PATTERN = /\/graphql/
+
 /**
  * Playwright browser driver
  * Provides headless browser automation for JavaScript-rendered content
  */
 export class PlaywrightDriver implements BrowserDriver {
   private browser?: Browser
+  private context?: BrowserContext // Context from SessionPoolManager, closed on release
   private page?: Page
   private isLaunched = false
   private pool?: IBrowserPool | ISessionPoolManager
@@ -28,6 +41,9 @@ export class PlaywrightDriver implements BrowserDriver {
   private performanceMonitor?: PerformanceMonitor
   private stealthManager?: StealthManager
   private rateLimitManager?: IRateLimitManager
+  private recorder?: SnapshotRecorder
+  /** Page whose HTML is recorded when the driver moves on */
+  private recordingUrl?: string
 
   constructor(
     private auth?: AuthCredentials,
@@ -72,13 +88,29 @@ export class PlaywrightDriver implements BrowserDriver {
       // Get stealth launch args if configured
       const stealthArgs = this.stealthManager?.getLaunchArgs() ?? []
 
+      // Determine user agent (stealth manager may modify it)
+      const defaultUserAgent =
+        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+      const finalUserAgent = this.stealthManager
+        ? this.stealthManager.getUserAgent(userAgent ?? defaultUserAgent)
+        : (userAgent ?? defaultUserAgent)
+
       // Acquire browser from pool if available
       if (this.pool !== undefined) {
-        if ('acquireBrowser' in this.pool) {
-          // SessionPoolManager
+        if ('acquireContext' in this.pool) {
+          // SessionPoolManager: the session gets its own context on a pooled browser
           if (this.sessionName !== undefined) {
-            this.browser = await this.pool.acquireBrowser(this.sessionName)
-            logger.debug('Acquired browser from SessionPoolManager', { session: this.sessionName })
+            this.context = await this.pool.acquireContext(this.sessionName, {
+              viewport,
+              userAgent: finalUserAgent,
+            })
+            const browser = this.context.browser()
+            if (browser) {
+              this.browser = browser
+            }
+            logger.debug('Acquired browser context from SessionPoolManager', {
+              session: this.sessionName,
+            })
           } else {
             throw new BrowserError(
               'BROWSER_LAUNCH_FAILED',
@@ -103,17 +135,12 @@ export class PlaywrightDriver implements BrowserDriver {
         throw new BrowserError('BROWSER_LAUNCH_FAILED', 'Failed to acquire or create browser')
       }
 
-      // Determine user agent (stealth manager may modify it)
-      const defaultUserAgent =
-        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
-      const finalUserAgent = this.stealthManager
-        ? this.stealthManager.getUserAgent(userAgent ?? defaultUserAgent)
-        : (userAgent ?? defaultUserAgent)
-
-      this.page = await this.browser.newPage({
-        viewport,
-        userAgent: finalUserAgent,
-      })
+      this.page = this.context
+        ? await this.context.newPage()
+        : await this.browser.newPage({
+            viewport,
+            userAgent: finalUserAgent,
+          })
 
       this.page.setDefaultTimeout(timeout)
 
@@ -123,15 +150,21 @@ export class PlaywrightDriver implements BrowserDriver {
       }
 
       // Setup Interceptor
-      if (interception?.enabled || blockResources.length > 0) {
+      if (interception?.enabled || blockResources.length > 0 || this.recorder) {
+        const capturePattern = interception?.capturePattern
+          ? new RegExp(interception.capturePattern)
+          : this.recorder
+            ? SNAPSHOT_CAPTURE_PATTERN
+            : undefined
         this.interceptor = new RequestInterceptor({
           blockResources: [...blockResources, ...(interception?.blockResources || [])],
-          ...(interception?.capturePattern
-            ? { capturePattern: new RegExp(interception.capturePattern) }
-            : {}),
+          ...(capturePattern ? { capturePattern } : {}),
           ...(interception?.captureResponses !== undefined
             ? { captureResponses: interception.captureResponses }
             : {}),
+          ...(this.recorder
+            ? { onCapture: (response: CapturedResponse) => this.recordResponse(response) }
+            : {}),
         })
         await this.interceptor.attach(this.page)
       }
@@ -157,26 +190,40 @@ export class PlaywrightDriver implements BrowserDriver {
 
   /**
    * Navigate to a URL with retry logic
+   * Rate-limited responses are recorded with the rate limit manager, which
+   * sets the delay before the next attempt.
+   * @throws {RateLimitError} If the last attempt was rate limited
    */
   async navigate(url: string, retries = 3): Promise<void> {
     this.ensureLaunched()
-
-    // Check rate limit decision before navigating
-    if (this.rateLimitManager) {
-      const decision = this.rateLimitManager.getDecision(url, this.sessionName)
-      if (decision.delayMs > 0) {
-        logger.debug(`Rate limit: waiting ${decision.delayMs}ms before navigation`, { url })
-        await new Promise((resolve) => setTimeout(resolve, decision.delayMs))
-      }
+    await this.flushRecording()
+    if (this.recorder) {
+      this.recordingUrl = url
     }
 
     let lastError: Error | undefined
     for (let attempt = 1; attempt <= retries; attempt++) {
+      await this.waitForRateLimit(url)
+
       try {
-        await this.page!.goto(url, {
+        const response = await this.page!.goto(url, {
           waitUntil: 'domcontentloaded',
         })
 
+        if (await this.isRateLimited(response)) {
+          const retryAfter = response?.headers()['retry-after']
+          this.rateLimitManager?.recordRateLimited(url, retryAfter, this.sessionName)
+          lastError = new RateLimitError(`Rate limited while navigating to ${url}`, {
+            context: { url, attempt },
+            ...(retryAfter && !isNaN(Number(retryAfter)) ? { retryAfter: Number(retryAfter) } : {}),
+          })
+          logger.warn(`Rate limited (attempt ${attempt}/${retries}): ${url}`)
+          if (!this.rateLimitManager?.isEnabled() && attempt < retries) {
+            await new Promise((resolve) => setTimeout(resolve, 1000 * attempt))
+          }
+          continue
+        }
+
         // Record successful navigation
         if (this.rateLimitManager) {
           this.rateLimitManager.recordSuccess(url, this.sessionName)
@@ -192,6 +239,11 @@ export class PlaywrightDriver implements BrowserDriver {
       }
     }
 
+    delete this.recordingUrl
+    if (lastError instanceof RateLimitError) {
+      throw lastError
+    }
+
     throw new BrowserError(
       'BROWSER_NAVIGATION_FAILED',
       `Failed to navigate to ${url} after ${retries} attempts`,
@@ -199,6 +251,36 @@ export class PlaywrightDriver implements BrowserDriver {
     )
   }
 
+  /**
+   * Wait for the delay the rate limit manager asks for before a request
+   */
+  private async waitForRateLimit(url: string): Promise<void> {
+    if (!this.rateLimitManager) {
+      return
+    }
+
+    const decision = this.rateLimitManager.getDecision(url, this.sessionName)
+    if (decision.delayMs > 0) {
+      logger.debug(`Rate limit: waiting ${decision.delayMs}ms before navigation`, { url })
+      await new Promise((resolve) => setTimeout(resolve, decision.delayMs))
+    }
+  }
+
+  /**
+   * Check whether a navigation was rate limited
+   * Page text is only checked on error responses, since problem content can
+   * contain the same phrases.
+   */
+  private async isRateLimited(response: Response | null | undefined): Promise<boolean> {
+    if (!response) {
+      return false
+    }
+    if (response.status() === 429) {
+      return true
+    }
+    return !response.ok() && (await detectRateLimit(this))
+  }
+
   /**
    * Wait for a selector to appear
    */
@@ -354,6 +436,8 @@ export class PlaywrightDriver implements BrowserDriver {
       await this.cookieManager.autoSave(this)
     }
 
+    await this.flushRecording()
+
     if (this.page) {
       await this.page.close()
       delete this.page
@@ -363,10 +447,13 @@ export class PlaywrightDriver implements BrowserDriver {
     if (this.browser) {
       if (this.pool) {
         // Release to pool
-        if ('releaseBrowser' in this.pool && this.sessionName) {
+        if ('releaseContext' in this.pool && this.context) {
           // SessionPoolManager
-          await this.pool.releaseBrowser(this.browser, this.sessionName)
-          logger.debug('Released browser to SessionPoolManager', { session: this.sessionName })
+          await this.pool.releaseContext(this.context)
+          delete this.context
+          logger.debug('Released browser context to SessionPoolManager', {
+            session: this.sessionName,
+          })
         } else if ('release' in this.pool) {
           // BrowserPool
           await this.pool.release(this.browser)
@@ -452,8 +539,12 @@ export class PlaywrightDriver implements BrowserDriver {
 
   /**
    * Execute multiple selectors with fallback
+   * @param onAttempt - Called with each selector tried and whether it yielded content
    */
-  async extractWithFallback(selectors: string[]): Promise<string> {
+  async extractWithFallback(
+    selectors: string[],
+    onAttempt?: (selector: string, matched: boolean) => void
+  ): Promise<string> {
     this.ensureLaunched()
 
     for (const selector of selectors) {
@@ -462,12 +553,14 @@ export class PlaywrightDriver implements BrowserDriver {
         if (element) {
           const text = await element.textContent()
           if (text && text.trim().length > 0) {
+            onAttempt?.(selector, true)
             return text.trim()
           }
         }
       } catch {
-        continue
+        // Invalid selectors count as misses
       }
+      onAttempt?.(selector, false)
     }
 
     throw new BrowserError(
@@ -519,6 +612,49 @@ export class PlaywrightDriver implements BrowserDriver {
     return this.rateLimitManager
   }
 
+  /**
+   * Record visited pages and their GraphQL responses into a snapshot directory
+   * Must be set before `launch()`. A page's HTML is saved when the driver
+   * navigates away or closes, so it holds everything rendered in between.
+   */
+  setSnapshotRecorder(recorder: SnapshotRecorder): void {
+    this.recorder = recorder
+  }
+
+  /**
+   * Get snapshot recorder
+   */
+  getSnapshotRecorder(): SnapshotRecorder | undefined {
+    return this.recorder
+  }
+
+  /**
+   * Save the HTML of the page being recorded
+   * Recording failures are logged, never thrown, so they cannot break a scrape.
+   */
+  private async flushRecording(): Promise<void> {
+    const url = this.recordingUrl
+    if (!this.recorder || !url || !this.page) {
+      return
+    }
+    delete this.recordingUrl
+
+    try {
+      const entry = await this.recorder.recordPage(url, await this.page.content())
+      logger.debug(`Recorded snapshot: ${entry.file}`, { url })
+    } catch (error) {
+      logger.warn(`Failed to record snapshot of ${url}`, { error })
+    }
+  }
+
+  private async recordResponse(response: CapturedResponse): Promise<void> {
+    try {
+      await this.recorder?.recordResponse(response, this.recordingUrl)
+    } catch (error) {
+      logger.warn(`Failed to record response from ${response.url}`, { error })
+    }
+  }
+
   /**
    * Get captured responses from interceptor
    */
@@ -0,0 +1,213 @@
+import { BrowserError } from '@lesca/error'
+import type { BrowserLaunchOptions } from '@lesca/shared/types'
+import { logger } from '@lesca/shared/utils'
+import type { Page } from 'playwright'
+
+import { PlaywrightDriver } from './playwright-driver'
+import type { LeetCodeSelectors, SelectorManager, SelectorPath } from './selector-manager'
+import { stripScripts } from './snapshot-archive'
+
+/**
+ * Saved page HTML to check selectors against
+ */
+export interface SelectorSnapshot {
+  /** File name, relative to the snapshot directory */
+  name: string
+  html: string
+}
+
+/**
+ * Health of one selector group across the snapshots
+ * - `ok`: the primary matched in at least one snapshot
+ * - `degraded`: only fallbacks matched
+ * - `broken`: nothing matched in any snapshot
+ * - `unchecked`: no snapshot of the group's page type
+ */
+export type SelectorGroupStatus = 'ok' | 'degraded' | 'broken' | 'unchecked'
+
+/**
+ * Result of checking one selector group
+ */
+export interface SelectorGroupCheck {
+  path: SelectorPath
+  description?: string
+  status: SelectorGroupStatus
+  /** Selectors that matched, with the snapshots they matched in */
+  matches: Array<{ selector: string; position: number; snapshots: string[] }>
+  /** Checked snapshots in which no selector of the group matched */
+  missingIn: string[]
+  /** Selectors the browser rejected as invalid */
+  invalid: string[]
+}
+
+/**
+ * Sections whose groups belong to one page type
+ * Other sections (auth, common) are checked against every snapshot.
+ */
+const PAGE_SECTIONS = ['problem', 'editorial', 'discussion'] as const
+
+/**
+ * Name prefixes that identify a page type
+ * `solutions` matches recorded `/problems/<slug>/solutions/` pages.
+ */
+const SECTION_PREFIXES: Record<string, keyof LeetCodeSelectors> = {
+  problem: 'problem',
+  editorial: 'editorial',
+  discussion: 'discussion',
+  solutions: 'discussion',
+}
+
+/**
+ * Page type of a snapshot, from its file name or, failing that, its directories
+ * e.g. `editorial-two-sum.html`, `discussion/lru-cache.html` or a recorded
+ * `pages/leetcode.com/problems/two-sum/editorial.html`
+ */
+export function getSnapshotSection(name: string): keyof LeetCodeSelectors | undefined {
+  const segments = name.toLowerCase().split(/[\\/]/).reverse()
+  for (const segment of segments) {
+    const match = Object.entries(SECTION_PREFIXES).find(([prefix]) => segment.startsWith(prefix))
+    if (match) {
+      return match[1]
+    }
+  }
+  return undefined
+}
+
+/**
+ * Check which selectors of each group match on the page currently loaded
+ * @returns Matching selectors, and those that threw as invalid, per group path
+ */
+export async function matchSelectorsOnPage(
+  page: Page,
+  groups: Array<{ path: SelectorPath; selectors: string[] }>
+): Promise<Map<SelectorPath, { matched: string[]; invalid: string[] }>> {
+  const results = new Map<SelectorPath, { matched: string[]; invalid: string[] }>()
+  for (const { path, selectors } of groups) {
+    const result = { matched: [] as string[], invalid: [] as string[] }
+    for (const selector of selectors) {
+      try {
+        if (await page.$(selector)) {
+          result.matched.push(selector)
+        }
+      } catch {
+        result.invalid.push(selector)
+      }
+    }
+    results.set(path, result)
+  }
+  return results
+}
+
+/**
+ * Run every selector group against saved HTML snapshots
+ *
+ * Snapshots are matched to groups by page type (see `getSnapshotSection`);
+ * snapshots without one are checked against every section. A selector
+ * matches when it finds an element, regardless of the element's text.
+ *
+ * @param sections - Sections to check. Default: problem, editorial, discussion
+ * @throws {BrowserError} If the browser cannot load the snapshots
+ */
+export async function runSelectorCheck(
+  selectors: SelectorManager,
+  snapshots: SelectorSnapshot[],
+  options: BrowserLaunchOptions & { sections?: Array<keyof LeetCodeSelectors> } = {}
+): Promise<SelectorGroupCheck[]> {
+  const { sections = [...PAGE_SECTIONS], ...launchOptions } = options
+  const groups = selectors
+    .listGroups()
+    .filter(({ path }) => sections.some((section) => path.startsWith(`${section}.`)))
+    .map(({ path, group }) => ({ path, group, selectors: selectors.getAll(group) }))
+
+  const checks = new Map<SelectorPath, SelectorGroupCheck>(
+    groups.map(({ path, group }) => [
+      path,
+      {
+        path,
+        ...(group.description ? { description: group.description } : {}),
+        status: 'unchecked',
+        matches: [],
+        missingIn: [],
+        invalid: [],
+      },
+    ])
+  )
+
+  const driver = new PlaywrightDriver()
+  try {
+    await driver.launch(launchOptions)
+    const page = driver.getPage()
+    if (!page) {
+      throw new BrowserError('BROWSER_LAUNCH_FAILED', 'No page available for the selector check')
+    }
+
+    for (const snapshot of snapshots) {
+      const section = getSnapshotSection(snapshot.name)
+      const applicable = groups.filter(
+        ({ path }) =>
+          !section ||
+          path.startsWith(`${section}.`) ||
+          !PAGE_SECTIONS.some((candidate) => path.startsWith(`${candidate}.`))
+      )
+      if (applicable.length === 0) {
+        continue
+      }
+
+      await page.setContent(stripScripts(snapshot.html), { waitUntil: 'domcontentloaded' })
+      const results = await matchSelectorsOnPage(page, applicable)
+
+      for (const { path, selectors: all } of applicable) {
+        const check = checks.get(path)
+        const result = results.get(path)
+        if (check && result) {
+          recordSnapshotResult(check, snapshot.name, all, result.matched, result.invalid)
+        }
+      }
+    }
+  } finally {
+    await driver.close()
+  }
+
+  const results = [...checks.values()]
+  logger.debug('Selector check complete', {
+    snapshots: snapshots.length,
+    broken: results.filter((check) => check.status === 'broken').map((check) => check.path),
+  })
+  return results
+}
+
+/**
+ * Fold the result of one snapshot into a group check
+ */
+function recordSnapshotResult(
+  check: SelectorGroupCheck,
+  snapshot: string,
+  selectors: string[],
+  matched: string[],
+  invalid: string[]
+): void {
+  for (const selector of matched) {
+    let match = check.matches.find((candidate) => candidate.selector === selector)
+    if (!match) {
+      match = { selector, position: selectors.indexOf(selector), snapshots: [] }
+      check.matches.push(match)
+      check.matches.sort((a, b) => a.position - b.position)
+    }
+    match.snapshots.push(snapshot)
+  }
+  for (const selector of invalid) {
+    if (!check.invalid.includes(selector)) {
+      check.invalid.push(selector)
+    }
+  }
+  if (matched.length === 0) {
+    check.missingIn.push(snapshot)
+  }
+
+  check.status =
+    check.matches.length === 0
+      ? 'broken'
+      : check.matches.some((match) => match.position === 0)
+        ? 'ok'
+        : 'degraded'
+}
@@ -4,6 +4,10 @@
  * Supports fallback selectors for robustness
  */
 
+import { logger } from '@lesca/shared/utils'
+
+import type { IMetricsCollector } from './interfaces'
+
 export interface SelectorGroup {
   /** Primary selector to try first */
   primary: string
@@ -63,6 +67,43 @@ export interface LeetCodeSelectors {
   }
 }
 
+/**
+ * Dotted path of a selector group, e.g. `problem.title`
+ */
+export type SelectorPath = {
+  [S in keyof LeetCodeSelectors]: `${S}.${keyof LeetCodeSelectors[S] & string}`
+}[keyof LeetCodeSelectors]
+
+/**
+ * Called for every selector tried while extracting content
+ */
+export type SelectorAttemptListener = (selector: string, matched: boolean) => void
+
+/**
+ * Promoted primary selector per group
+ */
+export type SelectorPromotions = Partial<Record<SelectorPath, string>>
+
+/**
+ * Selector manager options
+ */
+export interface SelectorManagerOptions {
+  /** Receives a `selector:hit` or `selector:miss` event for every tracked attempt */
+  metrics?: IMetricsCollector
+  /**
+   * Consecutive hits after which a fallback replaces a missing primary.
+   * Default: 3. 0 disables promotion.
+   */
+  promotionThreshold?: number
+  /** Promotions from earlier runs, applied on creation */
+  promotions?: SelectorPromotions
+  /** Called after a fallback is promoted, with every promotion so far */
+  onPromote?: (promotions: SelectorPromotions) => void
+}
+
+/** Default consecutive fallback hits before promotion */
+const DEFAULT_PROMOTION_THRESHOLD = 3
+
 /**
  * Default LeetCode selectors
  * Based on LeetCode's UI as of 2024
@@ -242,13 +283,36 @@ export const DEFAULT_SELECTORS: LeetCodeSelectors = {
 /**
  * Selector Manager
  * Provides access to LeetCode selectors with fallback support
+ *
+ * Attempts reported through `track()` are recorded as selector metrics. A
+ * fallback that matches `promotionThreshold` times in a row while the primary
+ * misses becomes the primary. Pass `onPromote` to persist promotions and
+ * `promotions` to restore them in the next run.
  */
 export class SelectorManager {
   private selectors: LeetCodeSelectors
+  private metrics: IMetricsCollector | undefined
+  private promotionThreshold: number
+  /** Current fallback hit streak per group */
+  private streaks: Map<SelectorPath, { selector: string; hits: number }> = new Map()
+  private promotions: SelectorPromotions = {}
+  private onPromote: ((promotions: SelectorPromotions) => void) | undefined
 
-  constructor(customSelectors?: Partial<LeetCodeSelectors>) {
+  constructor(customSelectors?: Partial<LeetCodeSelectors>, options: SelectorManagerOptions = {}) {
     // Merge custom selectors with defaults
     this.selectors = this.mergeSelectors(DEFAULT_SELECTORS, customSelectors)
+    this.metrics = options.metrics
+    this.promotionThreshold = options.promotionThreshold ?? DEFAULT_PROMOTION_THRESHOLD
+    this.onPromote = options.onPromote
+
+    // Promotions that are no longer fallbacks of their group (defaults or overrides changed) are dropped
+    for (const [path, selector] of Object.entries(options.promotions ?? {})) {
+      const groupPath = path as SelectorPath
+      const group = this.hasGroup(groupPath) ? this.getGroup(groupPath) : undefined
+      if (group?.fallbacks?.includes(selector)) {
+        this.reorder(groupPath, selector)
+      }
+    }
   }
 
   /**
@@ -311,6 +375,113 @@ export class SelectorManager {
     return this.selectors
   }
 
+  /**
+   * Get a selector group by path
+   */
+  getGroup(path: SelectorPath): SelectorGroup {
+    const [section, name] = splitPath(path)
+    return (this.selectors[section] as Record<string, SelectorGroup>)[name] as SelectorGroup
+  }
+
+  /**
+   * Get the promoted primary of every group that had one, including restored promotions
+   */
+  getPromotions(): SelectorPromotions {
+    return { ...this.promotions }
+  }
+
+  /**
+   * List every selector group with its path
+   */
+  listGroups(): Array<{ path: SelectorPath; group: SelectorGroup }> {
+    return Object.entries(this.selectors).flatMap(([section, groups]) =>
+      Object.entries(groups as Record<string, SelectorGroup>).map(([name, group]) => ({
+        path: `${section}.${name}` as SelectorPath,
+        group,
+      }))
+    )
+  }
+
+  /**
+   * Create a listener that records the attempts of one extraction
+   * Pass it to `BrowserDriver.extractWithFallback`.
+   */
+  track(path: SelectorPath): SelectorAttemptListener {
+    return (selector, matched) => this.recordAttempt(path, selector, matched)
+  }
+
+  /**
+   * Record whether a selector of a group matched
+   */
+  recordAttempt(path: SelectorPath, selector: string, matched: boolean): void {
+    const position = this.getAll(this.getGroup(path)).indexOf(selector)
+
+    this.metrics?.record({
+      type: matched ? 'selector:hit' : 'selector:miss',
+      timestamp: Date.now(),
+      group: path,
+      selector,
+      position,
+    })
+
+    if (!matched || position < 0) {
+      return
+    }
+    if (position === 0) {
+      this.streaks.delete(path)
+      return
+    }
+
+    const streak = this.streaks.get(path)
+    const hits = streak?.selector === selector ? streak.hits + 1 : 1
+    this.streaks.set(path, { selector, hits })
+
+    if (this.promotionThreshold > 0 && hits >= this.promotionThreshold) {
+      this.promote(path, selector)
+    }
+  }
+
+  /**
+   * Make a fallback the primary; the old primary becomes the first fallback
+   */
+  private promote(path: SelectorPath, selector: string): void {
+    const previous = this.getGroup(path).primary
+    this.reorder(path, selector)
+    this.streaks.delete(path)
+
+    logger.warn(`Selector ${path}: promoted fallback "${selector}" over "${previous}"`, {
+      consecutiveHits: this.promotionThreshold,
+    })
+    this.onPromote?.(this.getPromotions())
+  }
+
+  /**
+   * Move a selector to the front of its group
+   */
+  private reorder(path: SelectorPath, selector: string): void {
+    const group = this.getGroup(path)
+    const fallbacks = (group.fallbacks ?? []).filter((fallback) => fallback !== selector)
+    const [section, name] = splitPath(path)
+
+    this.selectors = {
+      ...this.selectors,
+      [section]: {
+        ...this.selectors[section],
+        [name]: { ...group, primary: selector, fallbacks: [group.primary, ...fallbacks] },
+      },
+    }
+    this.promotions = { ...this.promotions, [path]: selector }
+  }
+
+  /**
+   * Check whether a path names an existing group
+   */
+  private hasGroup(path: SelectorPath): boolean {
+    const [section, name] = splitPath(path)
+    const groups = this.selectors[section] as Record<string, SelectorGroup> | undefined
+    return groups?.[name] !== undefined
+  }
+
   /**
    * Update selectors at runtime
    */
@@ -354,3 +525,8 @@ export class SelectorManager {
     return !!group.primary && group.primary.length > 0
   }
 }
+
+function splitPath(path: SelectorPath): [keyof LeetCodeSelectors, string] {
+  const [section, name] = path.split('.') as [keyof LeetCodeSelectors, string]
+  return [section, name]
+}
@@ -0,0 +1,171 @@
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import { dirname } from 'path'
+
+import { ConfigError } from '@lesca/error'
+import { parse as parseYaml } from 'yaml'
+
+import {
+  DEFAULT_SELECTORS,
+  type LeetCodeSelectors,
+  type SelectorGroup,
+  type SelectorPromotions,
+} from './selector-manager'
+
+/**
+ * Load selector overrides from a YAML file
+ *
+ * The file mirrors `DEFAULT_SELECTORS`. A group is either a single selector
+ * (replaces the primary) or an object with `primary`, `fallbacks` and
+ * `description`; omitted fields keep their defaults.
+ *
+ * ```yaml
+ * problem:
+ *   title: 'div[data-cy="question-title"]'
+ *   description:
+ *     fallbacks: ['div.elfjS']
+ * ```
+ *
+ * @returns Overrides to pass to the SelectorManager constructor
+ * @throws {ConfigError} CONFIG_LOAD_FAILED - If the file cannot be read or parsed
+ * @throws {ConfigError} CONFIG_VALIDATION_FAILED - If the file names unknown groups or has invalid values
+ */
+export async function loadSelectorOverrides(path: string): Promise<Partial<LeetCodeSelectors>> {
+  let document: unknown
+  try {
+    document = parseYaml(await readFile(path, 'utf-8'))
+  } catch (error) {
+    throw new ConfigError(
+      'CONFIG_LOAD_FAILED',
+      `Failed to load selector file ${path}: ${error instanceof Error ? error.message : String(error)}`,
+      { ...(error instanceof Error ? { cause: error } : {}), context: { path } }
+    )
+  }
+
+  return parseSelectorOverrides(document ?? {}, path)
+}
+
+/**
+ * Validate parsed selector overrides and merge each group with its default
+ * @throws {ConfigError} CONFIG_VALIDATION_FAILED - If the document names unknown groups or has invalid values
+ */
+export function parseSelectorOverrides(
+  document: unknown,
+  source = 'selector overrides'
+): Partial<LeetCodeSelectors> {
+  const invalid = (message: string) =>
+    new ConfigError('CONFIG_VALIDATION_FAILED', `Invalid ${source}: ${message}`, {
+      context: { source },
+    })
+
+  if (!isRecord(document)) {
+    throw invalid('expected a mapping of selector sections')
+  }
+
+  const overrides: Record<string, Record<string, SelectorGroup>> = {}
+  for (const [section, groups] of Object.entries(document)) {
+    const defaults = (
+      DEFAULT_SELECTORS as unknown as Record<string, Record<string, SelectorGroup>>
+    )[section]
+    if (!defaults) {
+      throw invalid(`unknown section "${section}"`)
+    }
+    if (!isRecord(groups)) {
+      throw invalid(`section "${section}" must be a mapping of selector groups`)
+    }
+
+    overrides[section] = { ...defaults }
+    for (const [name, value] of Object.entries(groups)) {
+      const base = defaults[name]
+      if (!base) {
+        throw invalid(`unknown selector group "${section}.${name}"`)
+      }
+      overrides[section][name] = { ...base, ...parseGroup(value, `${section}.${name}`, invalid) }
+    }
+  }
+
+  return overrides as Partial<LeetCodeSelectors>
+}
+
+/**
+ * Load the selector promotions saved by earlier runs
+ *
+ * The file maps a group path to its promoted primary selector:
+ * `{ "problem.title": "div.text-title-large" }`. A missing file means no promotions.
+ *
+ * @returns Promotions to pass to the SelectorManager constructor
+ * @throws {ConfigError} CONFIG_LOAD_FAILED - If the file cannot be read or is not a mapping of selectors
+ */
+export async function loadSelectorPromotions(path: string): Promise<SelectorPromotions> {
+  let document: unknown
+  try {
+    document = JSON.parse(await readFile(path, 'utf-8'))
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return {}
+    }
+    throw new ConfigError(
+      'CONFIG_LOAD_FAILED',
+      `Failed to load selector promotions ${path}: ${error instanceof Error ? error.message : String(error)}`,
+      { ...(error instanceof Error ? { cause: error } : {}), context: { path } }
+    )
+  }
+
+  if (!isRecord(document) || !Object.values(document).every((value) => typeof value === 'string')) {
+    throw new ConfigError('CONFIG_LOAD_FAILED', `Invalid selector promotions ${path}`, {
+      context: { path },
+    })
+  }
+  return document as SelectorPromotions
+}
+
+/**
+ * Save selector promotions for the next run
+ */
+export async function saveSelectorPromotions(
+  path: string,
+  promotions: SelectorPromotions
+): Promise<void> {
+  await mkdir(dirname(path), { recursive: true })
+  await writeFile(path, JSON.stringify(promotions, null, 2), 'utf-8')
+}
+
+function parseGroup(
+  value: unknown,
+  path: string,
+  invalid: (message: string) => ConfigError
+): Partial<SelectorGroup> {
+  if (typeof value === 'string') {
+    return { primary: value }
+  }
+  if (!isRecord(value)) {
+    throw invalid(`"${path}" must be a selector or a selector group`)
+  }
+
+  const { primary, fallbacks, description, ...unknown } = value
+  const unknownKeys = Object.keys(unknown)
+  if (unknownKeys.length > 0) {
+    throw invalid(`"${path}" has unknown keys: ${unknownKeys.join(', ')}`)
+  }
+  if (primary !== undefined && (typeof primary !== 'string' || primary.trim() === '')) {
+    throw invalid(`"${path}.primary" must be a non-empty string`)
+  }
+  if (
+    fallbacks !== undefined &&
+    (!Array.isArray(fallbacks) || !fallbacks.every((selector) => typeof selector === 'string'))
+  ) {
+    throw invalid(`"${path}.fallbacks" must be a list of selectors`)
+  }
+  if (description !== undefined && typeof description !== 'string') {
+    throw invalid(`"${path}.description" must be a string`)
+  }
+
+  return {
+    ...(primary !== undefined ? { primary } : {}),
+    ...(fallbacks !== undefined ? { fallbacks } : {}),
+    ...(description !== undefined ? { description } : {}),
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
@@ -3,7 +3,7 @@
 import { BrowserError } from '@lesca/error'
 import type { PoolStatistics, SessionPoolConfig } from '@lesca/shared/types'
 import { logger } from '@lesca/shared/utils'
-import type { Browser, LaunchOptions } from 'playwright'
+import type { Browser, BrowserContext, BrowserContextOptions, LaunchOptions } from 'playwright'
 
 import type {
   IBrowserPool,
@@ -18,9 +18,26 @@ import { BrowserPool as BrowserPoolImpl } from './pool'
  * Non-null assertions in this file are safe because they're used only for:
  * 1. getPool(): Map.get() after just creating/setting the entry
  * 2. stats access: Map.get() after getPool() which always creates stats entry
+ * 3. getSharedPool(): the shared pool is created just before it is returned
  * TypeScript cannot infer this relationship statically.
  */
 
+/**
+ * Metrics tag of the pool shared by the global and hybrid strategies
+ */
+const SHARED_POOL_NAME = 'shared'
+
+/**
+ * A pooled browser shared by the contexts created on it
+ */
+interface BrowserLease {
+  browser: Browser
+  pool: IBrowserPool
+  /** Session the browser was acquired for; its statistics record the release */
+  sessionName: string
+  contexts: number
+}
+
 /**
  * Helper function to add a timeout to a promise
  */
@@ -40,6 +57,13 @@ function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
  * Provides a higher-level abstraction over {@link BrowserPool} for managing
  * multiple named sessions with their own browser pools.
  *
+ * ## Strategies
+ * - **per-session**: Each session gets its own browser pool
+ * - **global**: All sessions share one pool. Each session works in its own
+ *   browser context, so cookies and storage stay isolated. Up to
+ *   `contextsPerBrowser` contexts share one browser.
+ * - **hybrid**: Pinned sessions get their own pool, all others share one
+ *
  * ## Features
  * - **Per-session Pools**: Each session gets its own isolated browser pool
  * - **Timeout & Retry**: Configurable acquire timeout with automatic retries
@@ -55,6 +79,12 @@ function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
  * ├── Session "auth-2" → BrowserPool (max: 2)
  * │   └── Browser 1 (active)
  * └── MetricsCollector (shared)
+ *
+ * SessionPoolManager (global)
+ * ├── Shared BrowserPool (max: 4)
+ * │   ├── Browser 1 → Contexts for "auth-1", "auth-2"
+ * │   └── Browser 2 → Context for "auth-3"
+ * └── MetricsCollector (shared)
  * ```
  *
  * ## Usage
@@ -84,6 +114,9 @@ function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
  */
 export class SessionPoolManager implements ISessionPoolManager {
   private sessionPools: Map<string, IBrowserPool> = new Map()
+  private sharedPool?: IBrowserPool
+  private leases: Map<Browser, BrowserLease> = new Map()
+  private contexts: Map<BrowserContext, { lease: BrowserLease; sessionName: string }> = new Map()
   private stats: Map<string, PoolStatistics> = new Map()
   private config: Required<SessionPoolConfig>
   private launchOptions: LaunchOptions
@@ -94,12 +127,16 @@ export class SessionPoolManager implements ISessionPoolManager {
    * Creates a new SessionPoolManager instance.
    *
    * @param config - Session pool configuration
-   * @param config.strategy - Pool strategy ('per-session' or 'shared')
+   * @param config.strategy - Pool strategy ('per-session', 'global' or 'hybrid')
    * @param config.perSessionMaxSize - Max browsers per session (default: 2)
    * @param config.perSessionIdleTime - Idle timeout in ms (default: 180000)
    * @param config.acquireTimeout - Acquire timeout in ms (default: 30000)
    * @param config.retryOnFailure - Enable retry on acquire failure (default: true)
    * @param config.maxRetries - Max retry attempts (default: 3)
+   * @param config.globalMaxSize - Max browsers in the shared pool (default: 4)
+   * @param config.globalIdleTime - Shared pool idle timeout in ms (default: 180000)
+   * @param config.pinnedSessions - Sessions with dedicated pools under 'hybrid' (default: [])
+   * @param config.contextsPerBrowser - Max contexts sharing one browser (default: 4)
    * @param launchOptions - Playwright browser launch options
    * @param options - Additional options
    * @param options.metricsCollector - Custom metrics collector (creates new if not provided)
@@ -127,6 +164,10 @@ export class SessionPoolManager implements ISessionPoolManager {
       acquireTimeout: config.acquireTimeout ?? 30000,
       retryOnFailure: config.retryOnFailure ?? true,
       maxRetries: config.maxRetries ?? 3,
+      globalMaxSize: config.globalMaxSize ?? 4,
+      globalIdleTime: config.globalIdleTime ?? 180000,
+      pinnedSessions: config.pinnedSessions ?? [],
+      contextsPerBrowser: config.contextsPerBrowser ?? 4,
     }
     this.launchOptions = launchOptions
     this.metricsCollector = options?.metricsCollector ?? new MetricsCollector()
@@ -144,17 +185,38 @@ export class SessionPoolManager implements ISessionPoolManager {
    * Validate session pool manager configuration
    */
   private validateConfig(): void {
-    const { strategy, perSessionMaxSize, perSessionIdleTime, acquireTimeout, maxRetries } =
-      this.config
-
-    if (strategy !== 'per-session' && strategy !== 'shared') {
+    const {
+      strategy,
+      perSessionMaxSize,
+      perSessionIdleTime,
+      acquireTimeout,
+      maxRetries,
+      globalMaxSize,
+      contextsPerBrowser,
+    } = this.config
+
+    if (strategy !== 'per-session' && strategy !== 'global' && strategy !== 'hybrid') {
       throw new BrowserError(
         'BROWSER_POOL_CONFIG_INVALID',
-        `Invalid pool strategy: ${String(strategy)}. Must be 'per-session' or 'shared'`,
+        `Invalid pool strategy: ${String(strategy)}. Must be 'per-session', 'global' or 'hybrid'`,
         { context: { strategy } }
       )
     }
 
+    if (globalMaxSize < 1) {
+      throw new BrowserError('BROWSER_POOL_CONFIG_INVALID', 'globalMaxSize must be at least 1', {
+        context: { globalMaxSize },
+      })
+    }
+
+    if (contextsPerBrowser < 1) {
+      throw new BrowserError(
+        'BROWSER_POOL_CONFIG_INVALID',
+        'contextsPerBrowser must be at least 1',
+        { context: { contextsPerBrowser } }
+      )
+    }
+
     if (perSessionMaxSize < 1) {
       throw new BrowserError(
         'BROWSER_POOL_CONFIG_INVALID',
@@ -191,6 +253,8 @@ export class SessionPoolManager implements ISessionPoolManager {
    *
    * If a pool doesn't exist for the session, a new one is created with
    * the manager's configuration. Pools are lazily created on first access.
+   * Sessions on the shared pool (global strategy, or unpinned sessions under
+   * the hybrid strategy) get the shared pool.
    *
    * @param sessionName - The session identifier
    *
@@ -203,19 +267,7 @@ export class SessionPoolManager implements ISessionPoolManager {
    * ```
    */
   getPool(sessionName: string): IBrowserPool {
-    if (!this.sessionPools.has(sessionName)) {
-      const pool = new BrowserPoolImpl(
-        {
-          maxSize: this.config.perSessionMaxSize,
-          maxIdleTime: this.config.perSessionIdleTime,
-        },
-        this.launchOptions,
-        {
-          metricsCollector: this.metricsCollector,
-          sessionName,
-        }
-      )
-      this.sessionPools.set(sessionName, pool)
+    if (!this.stats.has(sessionName)) {
       this.stats.set(sessionName, {
         sessionName,
         totalBrowsers: 0,
@@ -230,12 +282,81 @@ export class SessionPoolManager implements ISessionPoolManager {
       if (this.rateLimitManager) {
         this.rateLimitManager.registerSession(sessionName)
       }
+    }
+
+    if (this.usesSharedPool(sessionName)) {
+      return this.getSharedPool()
+    }
+
+    if (!this.sessionPools.has(sessionName)) {
+      const pool = new BrowserPoolImpl(
+        {
+          maxSize: this.config.perSessionMaxSize,
+          maxIdleTime: this.config.perSessionIdleTime,
+        },
+        this.launchOptions,
+        {
+          metricsCollector: this.metricsCollector,
+          sessionName,
+        }
+      )
+      this.sessionPools.set(sessionName, pool)
 
       logger.debug(`Created new browser pool for session "${sessionName}"`)
     }
     return this.sessionPools.get(sessionName)!
   }
 
+  /**
+   * Checks whether a session borrows browsers from the shared pool.
+   *
+   * @param sessionName - The session identifier
+   *
+   * @returns True under the global strategy, and for unpinned sessions under the hybrid strategy
+   */
+  usesSharedPool(sessionName: string): boolean {
+    switch (this.config.strategy) {
+      case 'global':
+        return true
+      case 'hybrid':
+        return !this.config.pinnedSessions.includes(sessionName)
+      default:
+        return false
+    }
+  }
+
+  /**
+   * Gets or creates the pool shared by the global and hybrid strategies.
+   */
+  private getSharedPool(): IBrowserPool {
+    if (!this.sharedPool) {
+      this.sharedPool = new BrowserPoolImpl(
+        {
+          maxSize: this.config.globalMaxSize,
+          maxIdleTime: this.config.globalIdleTime,
+        },
+        this.launchOptions,
+        {
+          metricsCollector: this.metricsCollector,
+          sessionName: SHARED_POOL_NAME,
+        }
+      )
+
+      logger.debug('Created shared browser pool', { maxSize: this.config.globalMaxSize })
+    }
+    return this.sharedPool
+  }
+
+  /**
+   * Finds the pool a session's browsers are released to.
+   */
+  private findPool(sessionName: string): IBrowserPool | undefined {
+    if (!this.stats.has(sessionName)) {
+      return undefined
+    }
+    return this.usesSharedPool(sessionName) ? this.sharedPool : this.sessionPools.get(sessionName)
+  }
+
   /**
    * Acquires a browser for a session with timeout and retry logic.
    *
@@ -320,7 +441,7 @@ export class SessionPoolManager implements ISessionPoolManager {
    * ```
    */
   async releaseBrowser(browser: Browser, sessionName: string): Promise<void> {
-    const pool = this.sessionPools.get(sessionName)
+    const pool = this.findPool(sessionName)
     if (!pool) {
       logger.warn(`No pool found for session "${sessionName}", closing browser`)
       await browser.close()
@@ -340,6 +461,113 @@ export class SessionPoolManager implements ISessionPoolManager {
     })
   }
 
+  /**
+   * Acquires an isolated browser context for a session.
+   *
+   * The context lives on a browser from the session's pool (or the shared
+   * pool), so sessions sharing browsers never see each other's cookies or storage.
+   * A browser already leased from that pool is reused until it holds
+   * `contextsPerBrowser` contexts; only then is another browser acquired.
+   *
+   * @param sessionName - The session identifier
+   * @param options - Playwright context options (viewport, user agent, ...)
+   *
+   * @returns A new browser context
+   *
+   * @throws {BrowserError} BROWSER_LAUNCH_FAILED - If no browser could be acquired or the context could not be created
+   *
+   * @example
+   * ```typescript
+   * const context = await manager.acquireContext('my-session', { viewport: { width: 1280, height: 720 } });
+   * try {
+   *   const page = await context.newPage();
+   *   // Use page...
+   * } finally {
+   *   await manager.releaseContext(context);
+   * }
+   * ```
+   */
+  async acquireContext(
+    sessionName: string,
+    options: BrowserContextOptions = {}
+  ): Promise<BrowserContext> {
+    const lease = await this.leaseBrowser(sessionName)
+
+    try {
+      const context = await lease.browser.newContext(options)
+      this.contexts.set(context, { lease, sessionName })
+      return context
+    } catch (error) {
+      await this.returnLease(lease)
+      throw new BrowserError('BROWSER_LAUNCH_FAILED', 'Failed to create browser context', {
+        cause: error instanceof Error ? error : new Error(String(error)),
+        context: { sessionName },
+      })
+    }
+  }
+
+  /**
+   * Closes a context from {@link acquireContext}.
+   *
+   * Its browser is released once the last context on it is closed.
+   * A context that was not acquired from this manager is only closed.
+   *
+   * @param context - The context to release
+   */
+  async releaseContext(context: BrowserContext): Promise<void> {
+    const entry = this.contexts.get(context)
+    this.contexts.delete(context)
+
+    try {
+      await context.close()
+    } catch (error) {
+      logger.debug('Browser context was already closed', {
+        error: error instanceof Error ? error.message : String(error),
+      })
+    }
+
+    if (entry) {
+      await this.returnLease(entry.lease)
+    }
+  }
+
+  /**
+   * Takes a context slot on a browser leased from the session's pool.
+   * A new browser is acquired when every leased browser is full.
+   */
+  private async leaseBrowser(sessionName: string): Promise<BrowserLease> {
+    const pool = this.getPool(sessionName)
+    for (const lease of this.leases.values()) {
+      if (lease.pool === pool && lease.contexts < this.config.contextsPerBrowser) {
+        lease.contexts++
+        return lease
+      }
+    }
+
+    const browser = await this.acquireBrowser(sessionName)
+    const lease = { browser, pool, sessionName, contexts: 1 }
+    this.leases.set(browser, lease)
+    return lease
+  }
+
+  /**
+   * Frees a context slot, releasing the browser when its last context is gone.
+   */
+  private async returnLease(lease: BrowserLease): Promise<void> {
+    lease.contexts--
+    if (lease.contexts > 0) {
+      return
+    }
+
+    this.leases.delete(lease.browser)
+    if (this.stats.has(lease.sessionName)) {
+      await this.releaseBrowser(lease.browser, lease.sessionName)
+    } else {
+      // The session that leased it was drained while other sessions still used the browser
+      await lease.pool.release(lease.browser)
+    }
+  }
+
   /**
    * Gets pool statistics for one or all sessions.
    *
@@ -383,12 +611,20 @@ export class SessionPoolManager implements ISessionPoolManager {
    * ```
    */
   async drainSessionPool(sessionName: string): Promise<void> {
+    for (const [context, entry] of this.contexts) {
+      if (entry.sessionName === sessionName) {
+        await this.releaseContext(context)
+      }
+    }
+
     const pool = this.sessionPools.get(sessionName)
     if (pool) {
       await pool.drain()
       this.sessionPools.delete(sessionName)
-      this.stats.delete(sessionName)
+    }
 
+    // The shared pool stays up for the other sessions
+    if (this.stats.delete(sessionName)) {
       // Unregister session from rate limit manager if available
       if (this.rateLimitManager) {
         this.rateLimitManager.unregisterSession(sessionName)
@@ -416,8 +652,15 @@ export class SessionPoolManager implements ISessionPoolManager {
       promises.push(pool.drain())
       logger.debug(`Draining pool for session "${name}"`)
     }
+    if (this.sharedPool) {
+      promises.push(this.sharedPool.drain())
+      logger.debug('Draining shared pool')
+    }
     await Promise.all(promises)
     this.sessionPools.clear()
+    delete this.sharedPool
+    this.leases.clear()
+    this.contexts.clear()
     this.stats.clear()
 
     logger.info('All session pools drained')
@@ -0,0 +1,326 @@
+import { createHash } from 'crypto'
+import { existsSync } from 'fs'
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import { dirname, join } from 'path'
+
+import { BrowserError } from '@lesca/error'
+
+import type { CapturedResponse } from './interceptor'
+
+/** Name of the manifest file in a snapshot directory */
+export const SNAPSHOT_MANIFEST = 'manifest.json'
+
+/**
+ * A recorded page
+ */
+export interface SnapshotPageEntry {
+  url: string
+  /** HTML file, relative to the snapshot directory */
+  file: string
+  recordedAt: string
+}
+
+/**
+ * A recorded JSON (GraphQL) response
+ */
+export interface SnapshotResponseEntry {
+  url: string
+  method: string
+  /** GraphQL operation name, when the request body has one */
+  operationName?: string
+  /** Page that was loaded when the response arrived */
+  page?: string
+  status: number
+  /** JSON file, relative to the snapshot directory */
+  file: string
+  recordedAt: string
+}
+
+/**
+ * Index of a snapshot directory
+ */
+export interface SnapshotManifest {
+  version: 1
+  pages: SnapshotPageEntry[]
+  responses: SnapshotResponseEntry[]
+}
+
+/**
+ * Writes pages and responses into a snapshot directory
+ *
+ * Layout:
+ * ```
+ * manifest.json
+ * pages/leetcode.com/problems/two-sum/description.html
+ * responses/questionData-1a2b3c4d5e.json
+ * ```
+ * Page files follow the URL path, so `lesca selectors check` can infer the
+ * page type from them. Recording the same URL again replaces the old entry.
+ */
+export class SnapshotRecorder {
+  /** Recorders by directory, see `forDirectory` */
+  private static readonly recorders = new Map<string, SnapshotRecorder>()
+
+  private manifest?: SnapshotManifest
+  /** Serializes manifest updates, since responses arrive concurrently */
+  private queue: Promise<unknown> = Promise.resolve()
+
+  constructor(private readonly dir: string) {}
+
+  /**
+   * Get the recorder of a directory
+   * The browser and the GraphQL client record into the same manifest, so they
+   * must share one recorder rather than overwrite each other's entries.
+   */
+  static forDirectory(dir: string): SnapshotRecorder {
+    let recorder = SnapshotRecorder.recorders.get(dir)
+    if (!recorder) {
+      recorder = new SnapshotRecorder(dir)
+      SnapshotRecorder.recorders.set(dir, recorder)
+    }
+    return recorder
+  }
+
+  /**
+   * Get the snapshot directory
+   */
+  getDirectory(): string {
+    return this.dir
+  }
+
+  /**
+   * Save the HTML of a page
+   */
+  async recordPage(url: string, html: string): Promise<SnapshotPageEntry> {
+    return this.enqueue(async (manifest) => {
+      const entry: SnapshotPageEntry = {
+        url,
+        file: getPageFile(url),
+        recordedAt: new Date().toISOString(),
+      }
+      await this.writeEntryFile(entry.file, html)
+
+      const key = normalizeSnapshotUrl(url)
+      manifest.pages = [
+        ...manifest.pages.filter((page) => normalizeSnapshotUrl(page.url) !== key),
+        entry,
+      ]
+      return entry
+    })
+  }
+
+  /**
+   * Save a captured JSON response
+   * @param page - URL of the page that was loaded when the response arrived
+   */
+  async recordResponse(response: CapturedResponse, page?: string): Promise<SnapshotResponseEntry> {
+    return this.enqueue(async (manifest) => {
+      const operationName = getOperationName(response.postData)
+      const entry: SnapshotResponseEntry = {
+        url: response.url,
+        method: response.method,
+        ...(operationName ? { operationName } : {}),
+        ...(page ? { page } : {}),
+        status: response.status,
+        file: getResponseFile(response),
+        recordedAt: new Date().toISOString(),
+      }
+      await this.writeEntryFile(entry.file, JSON.stringify(response.body, null, 2))
+
+      manifest.responses = [
+        ...manifest.responses.filter((existing) => existing.file !== entry.file),
+        entry,
+      ]
+      return entry
+    })
+  }
+
+  /**
+   * Run an update against the manifest and save it afterwards
+   */
+  private enqueue<T>(update: (manifest: SnapshotManifest) => Promise<T>): Promise<T> {
+    const run = this.queue.then(async () => {
+      // A malformed manifest is reported rather than overwritten
+      this.manifest ??= existsSync(join(this.dir, SNAPSHOT_MANIFEST))
+        ? await readSnapshotManifest(this.dir)
+        : { version: 1, pages: [], responses: [] }
+      const result = await update(this.manifest)
+      await writeFile(
+        join(this.dir, SNAPSHOT_MANIFEST),
+        JSON.stringify(this.manifest, null, 2),
+        'utf-8'
+      )
+      return result
+    })
+    // Keep the queue going after a failed write
+    this.queue = run.catch(() => undefined)
+    return run
+  }
+
+  private async writeEntryFile(file: string, content: string): Promise<void> {
+    const path = join(this.dir, file)
+    await mkdir(dirname(path), { recursive: true })
+    await writeFile(path, content, 'utf-8')
+  }
+}
+
+/**
+ * Records GraphQL API responses into a snapshot directory, or serves them back
+ *
+ * The GraphQL client fetches without a browser, so its responses are stored
+ * next to the ones the browser captured. Lookups match the whole request body,
+ * so every set of variables replays its own response.
+ */
+export class GraphQLSnapshots {
+  private manifest?: Promise<SnapshotManifest>
+
+  constructor(
+    readonly mode: 'record' | 'replay',
+    private readonly dir: string
+  ) {}
+
+  /**
+   * Get the snapshot directory
+   */
+  getDirectory(): string {
+    return this.dir
+  }
+
+  /**
+   * Save a response (record mode only)
+   */
+  async record(response: CapturedResponse): Promise<void> {
+    if (this.mode === 'record') {
+      await SnapshotRecorder.forDirectory(this.dir).recordResponse(response)
+    }
+  }
+
+  /**
+   * Find the recorded response to a request
+   * @returns The recorded status and body, or undefined if the request was not recorded
+   * @throws {BrowserError} BROWSER_LAUNCH_FAILED - If the directory has no readable manifest
+   */
+  async find(
+    request: Pick<CapturedResponse, 'url' | 'method' | 'postData'>
+  ): Promise<Pick<CapturedResponse, 'status' | 'body'> | undefined> {
+    this.manifest ??= readSnapshotManifest(this.dir)
+    const file = getResponseFile(request)
+    const entry = (await this.manifest).responses.find((response) => response.file === file)
+    if (!entry) {
+      return undefined
+    }
+    return {
+      status: entry.status,
+      body: JSON.parse(await readFile(join(this.dir, entry.file), 'utf-8')) as unknown,
+    }
+  }
+}
+
+/**
+ * Read the manifest of a snapshot directory
+ * @throws {BrowserError} BROWSER_LAUNCH_FAILED - If the manifest is missing or malformed
+ */
+export async function readSnapshotManifest(dir: string): Promise<SnapshotManifest> {
+  const path = join(dir, SNAPSHOT_MANIFEST)
+  let manifest: unknown
+  try {
+    manifest = JSON.parse(await readFile(path, 'utf-8'))
+  } catch (error) {
+    throw new BrowserError('BROWSER_LAUNCH_FAILED', `Failed to read snapshot manifest ${path}`, {
+      ...(error instanceof Error ? { cause: error } : {}),
+      context: { dir },
+    })
+  }
+
+  if (
+    typeof manifest !== 'object' ||
+    manifest === null ||
+    !('version' in manifest) ||
+    manifest.version !== 1 ||
+    !('pages' in manifest) ||
+    !Array.isArray(manifest.pages) ||
+    !('responses' in manifest) ||
+    !Array.isArray(manifest.responses)
+  ) {
+    throw new BrowserError('BROWSER_LAUNCH_FAILED', `Unsupported snapshot manifest at ${path}`, {
+      context: { dir },
+    })
+  }
+  return manifest as SnapshotManifest
+}
+
+/**
+ * Normalize a URL for lookups: no fragment, no trailing slash
+ * e.g. `https://leetcode.com/problems/two-sum/#top` -> `https://leetcode.com/problems/two-sum`
+ */
+export function normalizeSnapshotUrl(url: string): string {
+  try {
+    const parsed = new URL(url)
+    const pathname = parsed.pathname.replace(/\/+$/, '')
+    return `${parsed.origin}${pathname}${parsed.search}`
+  } catch {
+    return url
+  }
+}
+
+/**
+ * Remove script tags, so saved HTML is inspected as it was recorded
+ * rather than re-rendered by the page's own code
+ */
+export function stripScripts(html: string): string {
+  return html.replace(/<script\b[\s\S]*?<\/script>/gi, '')
+}
+
+/**
+ * GraphQL operation name from a request body, if it has one
+ */
+export function getOperationName(postData?: string): string | undefined {
+  if (!postData) {
+    return undefined
+  }
+  try {
+    const body: unknown = JSON.parse(postData)
+    return typeof body === 'object' &&
+      body !== null &&
+      'operationName' in body &&
+      typeof body.operationName === 'string'
+      ? body.operationName
+      : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Relative JSON file for a response, named after its operation and hashed by request
+ */
+function getResponseFile(request: Pick<CapturedResponse, 'url' | 'method' | 'postData'>): string {
+  const operationName = getOperationName(request.postData)
+  const hash = createHash('sha1')
+    .update(`${request.method} ${request.url}\n${request.postData ?? ''}`)
+    .digest('hex')
+    .slice(0, 10)
+  return `responses/${sanitizeSegment(operationName ?? 'response')}-${hash}.json`
+}
+
+/**
+ * Relative HTML file for a page URL
+ * Query strings get a short hash so sorted and filtered views don't collide.
+ */
+function getPageFile(url: string): string {
+  const parsed = new URL(url)
+  const segments = parsed.pathname
+    .split('/')
+    .filter((segment) => segment.length > 0)
+    .map(sanitizeSegment)
+  const name = segments.pop() ?? 'index'
+  const suffix = parsed.search
+    ? `-${createHash('sha1').update(parsed.search).digest('hex').slice(0, 8)}`
+    : ''
+  return ['pages', sanitizeSegment(parsed.host), ...segments, `${name}${suffix}.html`].join('/')
+}
+
+function sanitizeSegment(segment: string): string {
+  const sanitized = segment.replace(/[^\w.-]/g, '_')
+  return /^\.+$/.test(sanitized) ? '_' : sanitized
+}
@@ -0,0 +1,184 @@
+import { readFile } from 'fs/promises'
+import { join } from 'path'
+
+import { BrowserError } from '@lesca/error'
+import type { BrowserLaunchOptions } from '@lesca/shared/types'
+import { logger } from '@lesca/shared/utils'
+import type { Route } from 'playwright'
+
+import { PlaywrightDriver } from './playwright-driver'
+import {
+  getOperationName,
+  normalizeSnapshotUrl,
+  readSnapshotManifest,
+  stripScripts,
+  type SnapshotManifest,
+  type SnapshotPageEntry,
+  type SnapshotResponseEntry,
+} from './snapshot-archive'
+
+/**
+ * Browser driver that replays a snapshot directory instead of the network
+ *
+ * Pages and GraphQL responses recorded by `PlaywrightDriver` (see
+ * `setSnapshotRecorder`) are served to a local browser, so strategies run
+ * their usual selectors against archived pages. Every other request is
+ * aborted and scripts are stripped, so nothing reaches LeetCode.
+ */
+export class SnapshotDriver extends PlaywrightDriver {
+  private manifest?: SnapshotManifest
+  private currentPage?: SnapshotPageEntry
+  private responses = new Map<string, unknown>()
+
+  constructor(private readonly dir: string) {
+    super()
+  }
+
+  /**
+   * Load the snapshot manifest and launch the browser
+   * Interception and resource blocking are replaced by the replay routes.
+   * @throws {BrowserError} BROWSER_LAUNCH_FAILED - If the directory has no readable manifest
+   */
+  override async launch(options: BrowserLaunchOptions = {}): Promise<void> {
+    if (this.getPage()) {
+      return
+    }
+
+    this.manifest = await readSnapshotManifest(this.dir)
+    await super.launch({ ...options, blockResources: [], interception: { enabled: false } })
+
+    const page = this.getPage()
+    if (!page) {
+      throw new BrowserError('BROWSER_LAUNCH_FAILED', 'No page available for snapshot replay')
+    }
+    await page.route('**/*', (route) => this.replay(route))
+    logger.debug('Replaying snapshots', {
+      dir: this.dir,
+      pages: this.manifest.pages.length,
+      responses: this.manifest.responses.length,
+    })
+  }
+
+  /**
+   * Load a recorded page
+   * @throws {BrowserError} BROWSER_NAVIGATION_FAILED - If the URL was not recorded
+   */
+  override async navigate(url: string): Promise<void> {
+    const page = this.getPage()
+    if (!page || !this.manifest) {
+      throw new BrowserError('BROWSER_LAUNCH_FAILED', 'Browser not launched. Call launch() first.')
+    }
+
+    const entry = this.findPage(url)
+    if (!entry) {
+      throw new BrowserError('BROWSER_NAVIGATION_FAILED', `No snapshot recorded for ${url}`, {
+        context: { url, dir: this.dir },
+      })
+    }
+
+    this.currentPage = entry
+    await this.loadResponses(entry)
+    try {
+      await page.goto(url, { waitUntil: 'domcontentloaded' })
+    } catch (error) {
+      throw new BrowserError('BROWSER_NAVIGATION_FAILED', `Failed to replay snapshot of ${url}`, {
+        ...(error instanceof Error ? { cause: error } : {}),
+        context: { url, file: entry.file },
+      })
+    }
+  }
+
+  /**
+   * Get the responses recorded with the current page, keyed by URL
+   */
+  override getCapturedResponses(): Map<string, unknown> {
+    return this.responses
+  }
+
+  override clearCapturedResponses(): void {
+    this.responses.clear()
+  }
+
+  /**
+   * Get the snapshot directory
+   */
+  getDirectory(): string {
+    return this.dir
+  }
+
+  /**
+   * Serve a request from the snapshot, or abort it
+   */
+  private async replay(route: Route): Promise<void> {
+    const request = route.request()
+    const url = request.url()
+
+    try {
+      const page = request.resourceType() === 'document' ? this.findPage(url) : undefined
+      if (page) {
+        await route.fulfill({
+          status: 200,
+          contentType: 'text/html; charset=utf-8',
+          body: stripScripts(await readFile(join(this.dir, page.file), 'utf-8')),
+        })
+        return
+      }
+
+      const response = this.findResponse(url, request.postData() ?? undefined)
+      if (response) {
+        await route.fulfill({
+          status: response.status,
+          contentType: 'application/json',
+          body: await readFile(join(this.dir, response.file), 'utf-8'),
+        })
+        return
+      }
+    } catch (error) {
+      logger.warn(`Snapshot replay: failed to serve ${url}`, { error })
+    }
+
+    logger.debug(`Snapshot replay: blocking unrecorded request ${url}`)
+    await route.abort()
+  }
+
+  private findPage(url: string): SnapshotPageEntry | undefined {
+    const key = normalizeSnapshotUrl(url)
+    return this.manifest?.pages.find((page) => normalizeSnapshotUrl(page.url) === key)
+  }
+
+  /**
+   * Find a recorded response by URL and GraphQL operation,
+   * preferring one recorded with the current page
+   */
+  private findResponse(url: string, postData?: string): SnapshotResponseEntry | undefined {
+    const key = normalizeSnapshotUrl(url)
+    const operationName = getOperationName(postData)
+    const candidates = (this.manifest?.responses ?? []).filter(
+      (response) =>
+        normalizeSnapshotUrl(response.url) === key &&
+        (!operationName || response.operationName === operationName)
+    )
+    const current = this.currentPage && normalizeSnapshotUrl(this.currentPage.url)
+    return (
+      candidates.find(
+        (response) => response.page !== undefined && normalizeSnapshotUrl(response.page) === current
+      ) ?? candidates[0]
+    )
+  }
+
+  /**
+   * Load the responses recorded with a page, like the interceptor captured them
+   */
+  private async loadResponses(page: SnapshotPageEntry): Promise<void> {
+    this.responses.clear()
+    const key = normalizeSnapshotUrl(page.url)
+    for (const response of this.manifest?.responses ?? []) {
+      if (response.page !== undefined && normalizeSnapshotUrl(response.page) === key) {
+        this.responses.set(
+          response.url,
+          JSON.parse(await readFile(join(this.dir, response.file), 'utf-8')) as unknown
+        )
+      }
+    }
+  }
+}
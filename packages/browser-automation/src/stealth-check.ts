@@ -0,0 +1,168 @@
+import { createServer } from 'http'
+import type { AddressInfo } from 'net'
+
+import { BrowserError } from '@lesca/error'
+import type { BrowserLaunchOptions } from '@lesca/shared/types'
+import { logger } from '@lesca/shared/utils'
+import type { Page } from 'playwright'
+
+import { PlaywrightDriver } from './playwright-driver'
+
+/**
+ * Signals read from the test page
+ */
+export interface FingerprintProbe {
+  webdriver: boolean | undefined
+  userAgent: string
+  pluginCount: number
+  mimeTypeCount: number
+  languages: string[]
+  hasChromeRuntime: boolean
+  notificationPermission: string | undefined
+  permissionState: string | undefined
+  webglVendor: string | undefined
+  webglRenderer: string | undefined
+}
+
+/**
+ * Result of one fingerprint check
+ */
+export interface FingerprintCheck {
+  name: string
+  leaked: boolean
+  detail: string
+}
+
+/**
+ * Page served to the browser during the check
+ */
+export const STEALTH_TEST_PAGE =
+  '<!DOCTYPE html><html><head><title>Lesca stealth check</title></head><body></body></html>'
+
+/**
+ * Renderers that only show up in headless or virtual GPU environments
+ */
+const SOFTWARE_RENDERERS = /SwiftShader|llvmpipe|Mesa OffScreen|Brian Paul/i
+
+/**
+ * Read the signals bot detectors look at from the current page
+ */
+export async function probeFingerprint(page: Page): Promise<FingerprintProbe> {
+  return page.evaluate(async () => {
+    let permissionState: string | undefined
+    try {
+      const status = await navigator.permissions.query({ name: 'notifications' })
+      permissionState = status.state
+    } catch {
+      permissionState = undefined
+    }
+
+    let webglVendor: string | undefined
+    let webglRenderer: string | undefined
+    const gl = document.createElement('canvas').getContext('webgl')
+    if (gl) {
+      const info = gl.getExtension('WEBGL_debug_renderer_info')
+      if (info) {
+        webglVendor = String(gl.getParameter(info.UNMASKED_VENDOR_WEBGL))
+        webglRenderer = String(gl.getParameter(info.UNMASKED_RENDERER_WEBGL))
+      }
+    }
+
+    return {
+      webdriver: navigator.webdriver,
+      userAgent: navigator.userAgent,
+      pluginCount: navigator.plugins.length,
+      mimeTypeCount: navigator.mimeTypes.length,
+      languages: [...navigator.languages],
+      hasChromeRuntime: 'chrome' in window,
+      notificationPermission:
+        typeof Notification === 'undefined' ? undefined : Notification.permission,
+      permissionState,
+      webglVendor,
+      webglRenderer,
+    }
+  })
+}
+
+/**
+ * Decide which fingerprints give the browser away
+ */
+export function evaluateFingerprint(probe: FingerprintProbe): FingerprintCheck[] {
+  return [
+    {
+      name: 'navigator.webdriver',
+      leaked: probe.webdriver === true,
+      detail: `navigator.webdriver is ${String(probe.webdriver)}`,
+    },
+    {
+      name: 'user agent',
+      leaked: probe.userAgent.includes('HeadlessChrome'),
+      detail: probe.userAgent,
+    },
+    {
+      name: 'plugins',
+      leaked: probe.pluginCount === 0 || probe.mimeTypeCount === 0,
+      detail: `${probe.pluginCount} plugins, ${probe.mimeTypeCount} MIME types`,
+    },
+    {
+      name: 'languages',
+      leaked: probe.languages.length === 0,
+      detail:
+        probe.languages.length > 0 ? probe.languages.join(', ') : 'navigator.languages is empty',
+    },
+    {
+      name: 'chrome runtime',
+      leaked: !probe.hasChromeRuntime,
+      detail: probe.hasChromeRuntime ? 'window.chrome is present' : 'window.chrome is missing',
+    },
+    {
+      name: 'permissions',
+      // Headless Chrome denies notifications while the Permissions API still says "prompt"
+      leaked: probe.notificationPermission === 'denied' && probe.permissionState === 'prompt',
+      detail: `Notification.permission is ${String(probe.notificationPermission)}, query returns ${String(probe.permissionState)}`,
+    },
+    {
+      name: 'WebGL vendor',
+      leaked: !probe.webglRenderer || SOFTWARE_RENDERERS.test(probe.webglRenderer),
+      detail: probe.webglRenderer
+        ? `${String(probe.webglVendor)} / ${probe.webglRenderer}`
+        : 'WebGL renderer info unavailable',
+    },
+  ]
+}
+
+/**
+ * Load a local test page and check which fingerprints leak
+ * @param options - Launch options, including the stealth config to verify
+ * @throws {BrowserError} If the browser cannot load the test page
+ */
+export async function runStealthCheck(
+  options: BrowserLaunchOptions = {}
+): Promise<FingerprintCheck[]> {
+  const server = createServer((_request, response) => {
+    response.writeHead(200, { 'Content-Type': 'text/html' })
+    response.end(STEALTH_TEST_PAGE)
+  })
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+
+  const driver = new PlaywrightDriver()
+  try {
+    await driver.launch(options)
+    await driver.navigate(`http://127.0.0.1:${port}/`, 1)
+
+    const page = driver.getPage()
+    if (!page) {
+      throw new BrowserError('BROWSER_LAUNCH_FAILED', 'No page available for the stealth check')
+    }
+
+    const checks = evaluateFingerprint(await probeFingerprint(page))
+    logger.debug('Stealth check complete', {
+      leaked: checks.filter((check) => check.leaked).map((check) => check.name),
+    })
+    return checks
+  } finally {
+    await driver.close()
+    await new Promise<void>((resolve) => server.close(() => resolve()))
+  }
+}
@@ -5,6 +5,7 @@ import { Command } from 'commander'
 const mockConfigManagerInstance = {
   getConfig: vi.fn().mockReturnValue({
     auth: { method: 'cookie', cookiePath: 'old-cookies.json' },
+    browser: { timeout: 30000 },
   }),
   update: vi.fn(),
   save: vi.fn(),
@@ -15,6 +16,7 @@ vi.mock('@lesca/shared/config', () => ({
   ConfigManager: {
     getInstance: vi.fn(() => mockConfigManagerInstance),
   },
+  getDefaultPaths: vi.fn(() => ({ cookieFile: 'default-cookies.json' })),
 }))
 
 vi.mock('@lesca/shared/utils', () => ({
@@ -30,10 +32,51 @@ vi.mock('@lesca/shared/utils', () => ({
 
 const mockAuthInstance = {
   authenticate: vi.fn().mockResolvedValue(undefined),
+  save: vi.fn().mockResolvedValue(undefined),
 }
 
 vi.mock('@lesca/auth', () => ({
-  CookieFileAuth: vi.fn(() => mockAuthInstance),
+  CookieFileAuth: Object.assign(
+    vi.fn(() => mockAuthInstance),
+    { fromCookies: vi.fn(() => mockAuthInstance) }
+  ),
+  importBrowserCookies: vi.fn(),
+}))
+
+const loginCookies = [
+  { name: 'LEETCODE_SESSION', value: 'session', domain: '.leetcode.com', path: '/', expires: -1 },
+  { name: 'csrftoken', value: 'csrf', domain: '.leetcode.com', path: '/', expires: -1 },
+]
+const mockContext = { cookies: vi.fn() }
+const mockDriverInstance = {
+  launch: vi.fn().mockResolvedValue(undefined),
+  close: vi.fn().mockResolvedValue(undefined),
+  getPage: vi.fn(() => ({ context: () => mockContext })),
+}
+const mockCookieManagerInstance = {
+  saveCookies: vi.fn().mockResolvedValue(undefined),
+  validateCookies: vi.fn(() => ({ valid: true, expired: [], missing: [], warnings: [] })),
+}
+const mockAuthHelperInstance = {
+  waitForManualLogin: vi.fn(),
+}
+const mockSessionManagerInstance = {
+  createSession: vi.fn().mockResolvedValue(undefined),
+}
+
+vi.mock('@lesca/browser-automation', () => ({
+  PlaywrightDriver: vi.fn(() => mockDriverInstance),
+  CookieManager: vi.fn(() => mockCookieManagerInstance),
+  AuthHelper: vi.fn(() => mockAuthHelperInstance),
+  SessionManager: vi.fn(() => mockSessionManagerInstance),
+}))
+
+const mockGraphQLClientInstance = {
+  getUserStatus: vi.fn(),
+}
+
+vi.mock('@/api-client/src/index', () => ({
+  GraphQLClient: vi.fn(() => mockGraphQLClientInstance),
 }))
 
 vi.mock('inquirer', () => ({
@@ -47,11 +90,13 @@ vi.mock('ora', () => ({
     start: vi.fn().mockReturnThis(),
     succeed: vi.fn().mockReturnThis(),
     fail: vi.fn().mockReturnThis(),
+    text: '',
   })),
 }))
 
 vi.mock('fs', () => ({
   existsSync: vi.fn(),
+  readFileSync: vi.fn(),
 }))
 
 vi.mock('path', () => ({
@@ -65,9 +110,17 @@ vi.mock('chalk', () => ({
     red: (str: string) => str,
     yellow: (str: string) => str,
     green: (str: string) => str,
+    cyan: (str: string) => str,
   },
 }))
 
+vi.mock('../helpers', () => ({
+  getCookieEncryption: vi.fn(),
+  getRateLimitManager: vi.fn(),
+  getStealthOptions: vi.fn(() => ({ enabled: false })),
+  parseNumber: vi.fn((value: string) => parseInt(value, 10)),
+}))
+
 vi.mock('../utils', () => ({
   handleCliError: vi.fn(),
 }))
@@ -167,9 +220,206 @@ describe('Auth Command', () => {
     expect(mockExit).toHaveBeenCalledWith(1)
   })
 
-  it('should warn about unimplemented browser login', async () => {
-    await program.parseAsync(['node', 'lesca', 'auth', '--browser'])
+  describe('browser login', () => {
+    beforeEach(() => {
+      mockAuthHelperInstance.waitForManualLogin.mockResolvedValue({
+        success: true,
+        state: 'logged-in',
+        cookies: loginCookies,
+      })
+      mockGraphQLClientInstance.getUserStatus.mockResolvedValue({
+        isSignedIn: true,
+        username: 'testuser',
+        isPremium: false,
+      })
+    })
+
+    it('should save cookies after a verified browser login', async () => {
+      const { GraphQLClient } = await import('@/api-client/src/index')
+
+      await program.parseAsync(['node', 'lesca', 'auth', '--browser'])
+
+      expect(mockDriverInstance.launch).toHaveBeenCalledWith(
+        expect.objectContaining({ headless: false })
+      )
+      expect(mockAuthHelperInstance.waitForManualLogin).toHaveBeenCalledWith(300000)
+      expect(mockCookieManagerInstance.validateCookies).toHaveBeenCalledWith(loginCookies)
+      expect(GraphQLClient).toHaveBeenCalledWith(
+        expect.objectContaining({ auth: { cookies: loginCookies, csrfToken: 'csrf' } })
+      )
+      expect(mockCookieManagerInstance.saveCookies).toHaveBeenCalledWith(
+        mockDriverInstance,
+        'old-cookies.json'
+      )
+      expect(logger.log).toHaveBeenCalledWith('✓ Cookies saved to: old-cookies.json')
+      expect(mockDriverInstance.close).toHaveBeenCalled()
+    })
+
+    it('should save a named session with --session', async () => {
+      await program.parseAsync([
+        'node',
+        'lesca',
+        'auth',
+        '--browser',
+        '--session',
+        'work',
+        '--timeout',
+        '60',
+      ])
+
+      expect(mockAuthHelperInstance.waitForManualLogin).toHaveBeenCalledWith(60000)
+      expect(mockSessionManagerInstance.createSession).toHaveBeenCalledWith(
+        'work',
+        mockContext,
+        expect.any(Object)
+      )
+      expect(mockCookieManagerInstance.saveCookies).not.toHaveBeenCalled()
+    })
+
+    it('should reject an invalid --timeout before opening the browser', async () => {
+      const { parseNumber } = await import('../helpers')
+      const { handleCliError } = await import('../utils')
+      const error = new Error('timeout must be at least 1, got: 0')
+      vi.mocked(parseNumber).mockImplementationOnce(() => {
+        throw error
+      })
+
+      await expect(
+        program.parseAsync(['node', 'lesca', 'auth', '--browser', '--timeout', '0'])
+      ).rejects.toThrow('Process.exit(1)')
+
+      expect(parseNumber).toHaveBeenCalledWith('0', 'timeout', 1)
+      expect(handleCliError).toHaveBeenCalledWith('Authentication failed', error)
+      expect(mockDriverInstance.launch).not.toHaveBeenCalled()
+    })
+
+    it('should not store cookies LeetCode rejects', async () => {
+      mockGraphQLClientInstance.getUserStatus.mockResolvedValue({
+        isSignedIn: false,
+        username: null,
+        isPremium: null,
+      })
+      const { handleCliError } = await import('../utils')
+
+      await expect(
+        program.parseAsync(['node', 'lesca', 'auth', '--browser', '--session', 'work'])
+      ).rejects.toThrow('Process.exit(1)')
+
+      expect(handleCliError).toHaveBeenCalledWith(
+        'Authentication failed',
+        expect.objectContaining({ message: 'LeetCode did not accept the login cookies' })
+      )
+      expect(mockSessionManagerInstance.createSession).not.toHaveBeenCalled()
+      expect(mockCookieManagerInstance.saveCookies).not.toHaveBeenCalled()
+      expect(mockDriverInstance.close).toHaveBeenCalled()
+    })
+
+    it('should fail when the login times out', async () => {
+      mockAuthHelperInstance.waitForManualLogin.mockResolvedValue({
+        success: false,
+        state: 'logged-out',
+        message: 'Manual login timeout. Please try again.',
+      })
 
-    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('not yet implemented'))
+      await expect(
+        program.parseAsync(['node', 'lesca', 'auth', '--browser', '--session', 'work'])
+      ).rejects.toThrow('Process.exit(1)')
+
+      expect(mockGraphQLClientInstance.getUserStatus).not.toHaveBeenCalled()
+    })
+  })
+
+  it('should encrypt a plaintext cookie file when cookie encryption is enabled', async () => {
+    const { getCookieEncryption } = await import('../helpers')
+    const { CookieFileAuth } = await import('@lesca/auth')
+    const encryption = { isEncrypted: vi.fn().mockReturnValue(false) }
+    vi.mocked(getCookieEncryption).mockResolvedValueOnce(encryption as never)
+    vi.mocked(fs.existsSync).mockReturnValue(true)
+    vi.mocked(fs.readFileSync).mockReturnValue('{"cookies":[]}')
+
+    await program.parseAsync(['node', 'lesca', 'auth', '--cookies', 'old-cookies.json'])
+
+    expect(CookieFileAuth).toHaveBeenCalledWith('old-cookies.json', encryption)
+    expect(mockAuthInstance.save).toHaveBeenCalledWith('old-cookies.json')
+  })
+
+  it('should leave the cookie file alone when encryption is disabled', async () => {
+    vi.mocked(fs.existsSync).mockReturnValue(true)
+
+    await program.parseAsync(['node', 'lesca', 'auth', '--cookies', 'old-cookies.json'])
+
+    expect(mockAuthInstance.authenticate).toHaveBeenCalled()
+    expect(mockAuthInstance.save).not.toHaveBeenCalled()
+  })
+
+  describe('import', () => {
+    beforeEach(async () => {
+      const { importBrowserCookies } = await import('@lesca/auth')
+      vi.mocked(importBrowserCookies).mockResolvedValue(loginCookies)
+      mockGraphQLClientInstance.getUserStatus.mockResolvedValue({
+        isSignedIn: true,
+        username: 'testuser',
+        isPremium: false,
+      })
+    })
+
+    it('should import, verify and save cookies from a browser profile', async () => {
+      const { importBrowserCookies, CookieFileAuth } = await import('@lesca/auth')
+
+      await program.parseAsync([
+        'node',
+        'lesca',
+        'auth',
+        'import',
+        '--from',
+        'firefox',
+        '--profile',
+        '/home/me/.mozilla/firefox/abc.default',
+        '--output',
+        'imported.json',
+      ])
+
+      expect(importBrowserCookies).toHaveBeenCalledWith({
+        browser: 'firefox',
+        profile: '/home/me/.mozilla/firefox/abc.default',
+      })
+      expect(CookieFileAuth.fromCookies).toHaveBeenCalledWith(loginCookies, undefined, undefined)
+      expect(mockAuthInstance.save).toHaveBeenCalledWith('imported.json')
+      expect(mockConfigManagerInstance.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          auth: expect.objectContaining({ cookiePath: 'imported.json' }),
+        })
+      )
+    })
+
+    it('should reject an unknown browser', async () => {
+      const { importBrowserCookies } = await import('@lesca/auth')
+
+      await expect(
+        program.parseAsync(['node', 'lesca', 'auth', 'import', '--from', 'safari'])
+      ).rejects.toThrow('Process.exit(1)')
+
+      expect(logger.error).toHaveBeenCalledWith('--from must be chrome or firefox')
+      expect(importBrowserCookies).not.toHaveBeenCalled()
+    })
+
+    it('should not save cookies LeetCode rejects', async () => {
+      mockGraphQLClientInstance.getUserStatus.mockResolvedValue({
+        isSignedIn: false,
+        username: null,
+        isPremium: null,
+      })
+      const { handleCliError } = await import('../utils')
+
+      await expect(
+        program.parseAsync(['node', 'lesca', 'auth', 'import', '--from', 'chrome'])
+      ).rejects.toThrow('Process.exit(1)')
+
+      expect(handleCliError).toHaveBeenCalledWith(
+        'Cookie import failed',
+        expect.objectContaining({ code: 'AUTH_INVALID_CREDENTIALS' })
+      )
+      expect(mockAuthInstance.save).not.toHaveBeenCalled()
+    })
   })
 })
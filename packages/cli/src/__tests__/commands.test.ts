@@ -97,6 +97,16 @@ vi.mock('@lesca/auth', () => ({
   })),
 }))
 
+vi.mock('@/core/src/index', () => ({
+  SearchIndex: {
+    load: vi.fn(),
+  },
+}))
+
+vi.mock('@lesca/storage', () => ({
+  createStorage: vi.fn(() => ({})),
+}))
+
 vi.mock('@lesca/shared/utils', () => ({
   logger: {
     log: vi.fn(),
@@ -256,7 +266,10 @@ describe('CLI Commands', () => {
       await program.parseAsync(['node', 'lesca', 'auth', '--cookies', 'cookies.json'])
 
       const { CookieFileAuth } = await import('@lesca/auth')
-      expect(CookieFileAuth).toHaveBeenCalledWith(expect.stringContaining('cookies.json'))
+      expect(CookieFileAuth).toHaveBeenCalledWith(
+        expect.stringContaining('cookies.json'),
+        undefined
+      )
     })
 
     it('should prompt for cookie path if not provided', async () => {
@@ -275,7 +288,8 @@ describe('CLI Commands', () => {
       expect(inquirer.prompt).toHaveBeenCalled()
       const { CookieFileAuth } = await import('@lesca/auth')
       expect(CookieFileAuth).toHaveBeenCalledWith(
-        expect.stringContaining('interactive-cookies.json')
+        expect.stringContaining('interactive-cookies.json'),
+        undefined
       )
     })
   })
@@ -446,6 +460,97 @@ describe('CLI Commands', () => {
       expect(handleCliError).toHaveBeenCalledWith('Failed to search problems', expect.any(Error))
     })
 
+    describe('--local', () => {
+      let index: {
+        size: number
+        search: ReturnType<typeof vi.fn>
+        getSnippet: ReturnType<typeof vi.fn>
+        rebuild: ReturnType<typeof vi.fn>
+      }
+
+      beforeEach(async () => {
+        index = {
+          size: 2,
+          search: vi.fn().mockReturnValue([
+            {
+              key: '1-two-sum.md',
+              type: 'problem',
+              slug: 'two-sum',
+              title: 'Two Sum',
+              frontendId: '1',
+              difficulty: 'Easy',
+              tags: ['hash-table'],
+              score: 3.2,
+            },
+          ]),
+          getSnippet: vi.fn().mockResolvedValue('Use a hash map'),
+          rebuild: vi.fn().mockResolvedValue(2),
+        }
+        const { SearchIndex } = await import('@/core/src/index')
+        vi.mocked(SearchIndex.load).mockResolvedValue(index as any)
+        resetOptions()
+      })
+
+      // The command keeps option values between parses
+      afterEach(resetOptions)
+
+      function resetOptions() {
+        for (const name of ['local', 'reindex', 'type', 'json', 'difficulty', 'tags']) {
+          searchCommand.setOptionValue(name, undefined)
+        }
+      }
+
+      it('should search scraped notes without authenticating', async () => {
+        program.addCommand(searchCommand)
+
+        await program.parseAsync([
+          'node',
+          'lesca',
+          'search',
+          'hash map',
+          '--local',
+          '-d',
+          'easy',
+          '-t',
+          'hash-table',
+        ])
+
+        const { CookieFileAuth } = await import('@lesca/auth')
+        const logger = (await import('@lesca/shared/utils')).logger
+        expect(CookieFileAuth).not.toHaveBeenCalled()
+        expect(index.rebuild).not.toHaveBeenCalled()
+        expect(index.search).toHaveBeenCalledWith('hash map', {
+          limit: 10,
+          difficulty: 'Easy',
+          tags: ['hash-table'],
+        })
+        expect(logger.log).toHaveBeenCalledWith(expect.stringContaining('Two Sum'))
+        expect(logger.log).toHaveBeenCalledWith('  Use a hash map')
+      })
+
+      it('should rebuild the index with --reindex', async () => {
+        program.addCommand(searchCommand)
+
+        await program.parseAsync(['node', 'lesca', 'search', '--local', '--reindex'])
+
+        expect(index.rebuild).toHaveBeenCalled()
+        expect(index.search).not.toHaveBeenCalled()
+      })
+
+      it('should reject unknown note types', async () => {
+        program.addCommand(searchCommand)
+
+        await program.parseAsync(['node', 'lesca', 'search', 'dp', '--local', '--type', 'user'])
+
+        const { handleCliError } = await import('../utils')
+        expect(handleCliError).toHaveBeenCalledWith(
+          'Failed to search problems',
+          expect.objectContaining({ message: expect.stringContaining('Invalid type: user') })
+        )
+        expect(index.search).not.toHaveBeenCalled()
+      })
+    })
+
     it('should continue without auth when auth fails', async () => {
       program.addCommand(searchCommand)
 
@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { Command } from 'commander'
+
+// Mock dependencies
+const mockConfig = { browser: { headless: true, timeout: 30000 } }
+
+vi.mock('@lesca/shared/config', () => ({
+  ConfigManager: {
+    getInstance: vi.fn(() => ({ getConfig: () => mockConfig })),
+  },
+}))
+
+vi.mock('@lesca/shared/utils', () => ({
+  logger: {
+    log: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+    success: vi.fn(),
+    warn: vi.fn(),
+  },
+}))
+
+vi.mock('@lesca/browser-automation', () => ({
+  runStealthCheck: vi.fn(),
+}))
+
+vi.mock('ora', () => ({
+  default: vi.fn(() => ({
+    start: vi.fn().mockReturnThis(),
+    stop: vi.fn().mockReturnThis(),
+    fail: vi.fn().mockReturnThis(),
+  })),
+}))
+
+vi.mock('chalk', () => ({
+  default: {
+    bold: (str: string) => str,
+    gray: (str: string) => str,
+    green: (str: string) => str,
+    red: (str: string) => str,
+  },
+}))
+
+vi.mock('../helpers', () => ({
+  getStealthOptions: vi.fn((_config: unknown, enabled: boolean) => ({ enabled })),
+}))
+
+vi.mock('../utils', () => ({
+  handleCliError: vi.fn(),
+}))
+
+describe('Doctor Command', () => {
+  let program: Command
+  let mockExit: ReturnType<typeof vi.spyOn>
+  let logger: typeof import('@lesca/shared/utils').logger
+  let runStealthCheck: ReturnType<typeof vi.fn>
+
+  const passing = [
+    { name: 'navigator.webdriver', leaked: false, detail: 'navigator.webdriver is false' },
+    { name: 'plugins', leaked: false, detail: '3 plugins, 2 MIME types' },
+  ]
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    vi.resetModules()
+
+    program = new Command()
+    program.exitOverride()
+
+    mockExit = vi.spyOn(process, 'exit').mockImplementation(((code: number) => {
+      throw new Error(`Process.exit(${code})`)
+    }) as never)
+
+    logger = (await import('@lesca/shared/utils')).logger
+    runStealthCheck = vi.mocked((await import('@lesca/browser-automation')).runStealthCheck)
+
+    const { doctorCommand } = await import('../commands/doctor')
+    program.addCommand(doctorCommand)
+  })
+
+  afterEach(() => {
+    mockExit.mockRestore()
+  })
+
+  it('should report fingerprints with stealth enabled', async () => {
+    runStealthCheck.mockResolvedValue(passing)
+
+    await program.parseAsync(['node', 'lesca', 'doctor', 'stealth'])
+
+    expect(runStealthCheck).toHaveBeenCalledWith({
+      headless: true,
+      timeout: 30000,
+      stealth: { enabled: true },
+    })
+    expect(logger.log).toHaveBeenCalledWith(expect.stringContaining('navigator.webdriver'))
+    expect(logger.success).toHaveBeenCalledWith('No fingerprints leak')
+  })
+
+  it('should exit with an error when fingerprints leak', async () => {
+    runStealthCheck.mockResolvedValue([
+      ...passing,
+      { name: 'WebGL vendor', leaked: true, detail: 'Google Inc. / SwiftShader' },
+    ])
+
+    await expect(
+      program.parseAsync(['node', 'lesca', 'doctor', 'stealth', '--no-stealth'])
+    ).rejects.toThrow('Process.exit(1)')
+
+    expect(runStealthCheck).toHaveBeenCalledWith(
+      expect.objectContaining({ stealth: { enabled: false } })
+    )
+    expect(logger.warn).toHaveBeenCalledWith('1 of 3 fingerprints leak')
+  })
+
+  it('should output JSON', async () => {
+    const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {})
+    runStealthCheck.mockResolvedValue(passing)
+
+    await program.parseAsync(['node', 'lesca', 'doctor', 'stealth', '--json'])
+
+    expect(consoleSpy).toHaveBeenCalledWith(JSON.stringify(passing, null, 2))
+    consoleSpy.mockRestore()
+  })
+
+  it('should handle a browser that fails to launch', async () => {
+    const { handleCliError } = await import('../utils')
+    runStealthCheck.mockRejectedValue(new Error('Executable not found'))
+
+    await expect(program.parseAsync(['node', 'lesca', 'doctor', 'stealth'])).rejects.toThrow(
+      'Process.exit(1)'
+    )
+
+    expect(handleCliError).toHaveBeenCalledWith(
+      'Failed to run the stealth check',
+      expect.any(Error)
+    )
+  })
+})
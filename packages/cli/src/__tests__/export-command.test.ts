@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { access, mkdtemp, readFile, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { Command } from 'commander'
+
+// Mock dependencies
+const files = new Map<string, string>()
+
+vi.mock('@lesca/shared/config', () => ({
+  ConfigManager: {
+    getInstance: vi.fn(() => ({ getConfig: () => ({ storage: { type: 'filesystem' } }) })),
+  },
+}))
+
+vi.mock('@lesca/shared/utils', () => ({
+  logger: {
+    log: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+    success: vi.fn(),
+    warn: vi.fn(),
+  },
+}))
+
+vi.mock('@lesca/storage', () => ({
+  createStorage: vi.fn(() => ({
+    load: vi.fn((key: string) => Promise.resolve(files.get(key) ?? null)),
+    list: vi.fn(() => Promise.resolve([...files.keys()])),
+  })),
+}))
+
+// The core path alias only resolves in the build, so load the export modules directly
+vi.mock('@/core/src/index', async () => ({
+  ...(await import('../../../core/src/anki-export')),
+  ...(await import('../../../core/src/apkg-writer')),
+  ...(await import('../../../core/src/site-export')),
+}))
+
+const spinner = {
+  start: vi.fn().mockReturnThis(),
+  succeed: vi.fn().mockReturnThis(),
+  warn: vi.fn().mockReturnThis(),
+  fail: vi.fn().mockReturnThis(),
+  text: '',
+}
+
+vi.mock('ora', () => ({
+  default: vi.fn(() => spinner),
+}))
+
+vi.mock('../utils', () => ({
+  handleCliError: vi.fn(),
+}))
+
+describe('Export Command', () => {
+  let program: Command
+  let mockExit: ReturnType<typeof vi.spyOn>
+  let logger: typeof import('@lesca/shared/utils').logger
+  let outputDir: string
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    vi.resetModules()
+
+    files.clear()
+    files.set(
+      '1-two-sum.md',
+      '# Two Sum\n\nFind two numbers.\n\n## Hints\n\n1. Brute force\n2. Hash map\n'
+    )
+    files.set(
+      '1-two-sum-editorial.md',
+      '# Editorial: Two Sum\n\n## Approaches\n\nUse a hash map.\n'
+    )
+    files.set('15-3sum.md', '# 3Sum\n\nFind three numbers.\n')
+    outputDir = await mkdtemp(join(tmpdir(), 'lesca-export-'))
+
+    program = new Command()
+    program.exitOverride()
+
+    mockExit = vi.spyOn(process, 'exit').mockImplementation(((code: number) => {
+      throw new Error(`Process.exit(${code})`)
+    }) as never)
+
+    logger = (await import('@lesca/shared/utils')).logger
+
+    const { exportCommand } = await import('../commands/export')
+    program.addCommand(exportCommand)
+  })
+
+  afterEach(async () => {
+    mockExit.mockRestore()
+    await rm(outputDir, { recursive: true, force: true })
+  })
+
+  it('should write an Anki package', async () => {
+    const filePath = join(outputDir, 'deck.apkg')
+
+    await program.parseAsync(['node', 'lesca', 'export', 'anki', '--file', filePath, '-o', 'notes'])
+
+    const { createStorage } = await import('@lesca/storage')
+    expect(createStorage).toHaveBeenCalledWith({ type: 'filesystem' }, 'notes')
+    expect((await readFile(filePath)).subarray(0, 4).toString('latin1')).toBe('PK\x03\x04')
+    expect(spinner.succeed).toHaveBeenCalledWith(
+      `Exported 1 problem cards and 1 hint cards to ${filePath}`
+    )
+    expect(logger.log).toHaveBeenCalledWith(expect.stringContaining('1 problems without'))
+  })
+
+  it('should not write a package without cards', async () => {
+    const filePath = join(outputDir, 'deck.apkg')
+    files.delete('1-two-sum.md')
+
+    await program.parseAsync(['node', 'lesca', 'export', 'anki', '--file', filePath])
+
+    expect(spinner.warn).toHaveBeenCalledWith(
+      'No cards to export: scrape the editorials of 1 problems first'
+    )
+    await expect(access(filePath)).rejects.toThrow()
+  })
+  it('should write a static site', async () => {
+    const dir = join(outputDir, 'site')
+
+    await program.parseAsync(['node', 'lesca', 'export', 'site', '--dir', dir, '--title', 'Notes'])
+
+    expect(await readFile(join(dir, 'problems', 'two-sum.html'), 'utf-8')).toContain(
+      '<title>Two Sum · Notes</title>'
+    )
+    await expect(access(join(dir, 'assets', 'search-data.js'))).resolves.toBeUndefined()
+    expect(spinner.succeed).toHaveBeenCalledWith(
+      `Exported 2 problems, 1 editorials and 0 discussions to ${dir}`
+    )
+  })
+})
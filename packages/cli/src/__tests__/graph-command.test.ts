@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, readFile, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { Command } from 'commander'
+
+// Mock dependencies
+const files = new Map<string, string>()
+
+vi.mock('@lesca/shared/config', () => ({
+  ConfigManager: {
+    getInstance: vi.fn(() => ({ getConfig: () => ({ storage: { type: 'filesystem' } }) })),
+  },
+}))
+
+vi.mock('@lesca/shared/utils', () => ({
+  logger: {
+    log: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+    success: vi.fn(),
+    warn: vi.fn(),
+  },
+}))
+
+vi.mock('@lesca/storage', () => ({
+  createStorage: vi.fn(() => ({
+    save: vi.fn((key: string, content: string) => {
+      files.set(key, content)
+      return Promise.resolve()
+    }),
+    load: vi.fn((key: string) => Promise.resolve(files.get(key) ?? null)),
+    list: vi.fn(() => Promise.resolve([...files.keys()])),
+  })),
+}))
+
+// The core path alias only resolves in the build, so load the graph modules directly
+vi.mock('@/core/src/index', async () => ({
+  ...(await import('../../../core/src/problem-graph')),
+  ...(await import('../../../core/src/problem-graph-export')),
+}))
+
+vi.mock('ora', () => ({
+  default: vi.fn(() => ({
+    start: vi.fn().mockReturnThis(),
+    succeed: vi.fn().mockReturnThis(),
+    warn: vi.fn().mockReturnThis(),
+    fail: vi.fn().mockReturnThis(),
+    text: '',
+  })),
+}))
+
+vi.mock('../utils', () => ({
+  handleCliError: vi.fn(),
+}))
+
+describe('Graph Command', () => {
+  let program: Command
+  let mockExit: ReturnType<typeof vi.spyOn>
+  let logger: typeof import('@lesca/shared/utils').logger
+  let outputDir: string
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    vi.resetModules()
+
+    files.clear()
+    files.set(
+      '1-two-sum.md',
+      '---\ntitle: Two Sum\ntitleSlug: two-sum\ndifficulty: Easy\ntags:\n  - array\nsimilar_problems:\n  - 3sum\n---\n\n# Two Sum\n'
+    )
+    files.set(
+      '15-3sum.md',
+      '---\ntitle: 3Sum\ntitleSlug: 3sum\ndifficulty: Medium\ntags:\n  - array\n---\n\n# 3Sum\n'
+    )
+    outputDir = await mkdtemp(join(tmpdir(), 'lesca-graph-'))
+
+    program = new Command()
+    program.exitOverride()
+
+    mockExit = vi.spyOn(process, 'exit').mockImplementation(((code: number) => {
+      throw new Error(`Process.exit(${code})`)
+    }) as never)
+
+    logger = (await import('@lesca/shared/utils')).logger
+
+    const { graphCommand } = await import('../commands/graph')
+    program.addCommand(graphCommand)
+  })
+
+  afterEach(async () => {
+    mockExit.mockRestore()
+    await rm(outputDir, { recursive: true, force: true })
+  })
+
+  it('should print the graph as JSON by default', async () => {
+    await program.parseAsync(['node', 'lesca', 'graph'])
+
+    const graph = JSON.parse(vi.mocked(logger.log).mock.calls[0]?.[0] as string)
+    expect(graph.nodes.map((node: { id: string }) => node.id)).toEqual(['two-sum', '3sum'])
+    expect(graph.edges).toEqual([{ source: 'two-sum', target: '3sum', type: 'similar', weight: 1 }])
+  })
+
+  it('should write the graph to a file in the requested format', async () => {
+    const filePath = join(outputDir, 'problems.dot')
+
+    await program.parseAsync(['node', 'lesca', 'graph', '-f', 'dot', '--file', filePath])
+
+    expect(await readFile(filePath, 'utf-8')).toContain('"two-sum" -- "3sum"')
+    expect(logger.log).not.toHaveBeenCalled()
+  })
+
+  it('should save map of content notes next to the scraped notes', async () => {
+    await program.parseAsync(['node', 'lesca', 'graph', '--moc', '--moc-folder', 'maps'])
+
+    expect(files.get('maps/tags/array.md')).toContain('- 🟢 [[1-two-sum|1. Two Sum]]')
+    expect(logger.success).toHaveBeenCalledWith('Wrote 1 map of content notes to maps/')
+    expect(logger.log).not.toHaveBeenCalled()
+  })
+
+  it('should reject unknown formats', async () => {
+    const { handleCliError } = await import('../utils')
+
+    await expect(program.parseAsync(['node', 'lesca', 'graph', '-f', 'csv'])).rejects.toThrow(
+      'Process.exit(1)'
+    )
+    expect(String(vi.mocked(handleCliError).mock.calls[0]?.[1])).toContain('Invalid format: csv')
+  })
+
+  it('should reject unknown edge types', async () => {
+    const { handleCliError } = await import('../utils')
+
+    await expect(
+      program.parseAsync(['node', 'lesca', 'graph', '--edges', 'similar,friends'])
+    ).rejects.toThrow('Process.exit(1)')
+    expect(String(vi.mocked(handleCliError).mock.calls[0]?.[1])).toContain(
+      'Invalid edge type: friends'
+    )
+  })
+})
@@ -1,9 +1,28 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { resolve } from 'path'
 
-import { ConfigManager } from '@lesca/shared/config'
+import {
+  createSecretStore,
+  getOrCreateEncryptionKey,
+  loadSelectorOverrides,
+  loadSelectorPromotions,
+  MetricsCollector,
+  saveSelectorPromotions,
+  SelectorManager,
+} from '@lesca/browser-automation'
+import { ConfigManager, getDefaultPaths, type Config } from '@lesca/shared/config'
+import type { StorageAdapter } from '@lesca/shared/types'
 import { logger } from '@lesca/shared/utils'
+
+import { SearchIndex } from '@/core/src/index'
+
 import {
   createBrowserService,
+  createGraphQLSnapshots,
+  createSelectorManager,
+  getCookieEncryption,
+  getSnapshotOptions,
+  openSearchIndex,
   initializeConfig,
   handleCliError,
   parseTags,
@@ -24,12 +43,31 @@ const mockBrowserService = {
 
 const mockBrowserServiceFactory = {
   createService: vi.fn().mockReturnValue(mockBrowserService),
+  getRateLimitManager: vi.fn(() => ({ getEndpointStates: () => [] })),
 }
 
+const mockSecretStore = { type: 'keytar' }
+
 vi.mock('@lesca/browser-automation', () => ({
   BrowserServiceFactory: {
     getInstance: vi.fn(() => mockBrowserServiceFactory),
   },
+  EncryptionService: vi.fn((config: unknown) => ({ config })),
+  GraphQLSnapshots: vi.fn((mode: string, dir: string) => ({ mode, dir })),
+  createSecretStore: vi.fn(() => mockSecretStore),
+  getOrCreateEncryptionKey: vi.fn().mockResolvedValue('stored-key'),
+  ENCRYPTION_KEY_ACCOUNT: 'cookie-encryption-key',
+  MetricsCollector: vi.fn(),
+  SelectorManager: vi.fn(),
+  loadSelectorOverrides: vi.fn().mockResolvedValue({ problem: {} }),
+  loadSelectorPromotions: vi.fn().mockResolvedValue({}),
+  saveSelectorPromotions: vi.fn().mockResolvedValue(undefined),
+}))
+
+vi.mock('@/core/src/index', () => ({
+  SearchIndex: {
+    load: vi.fn(),
+  },
 }))
 
 describe('CLI Helpers', () => {
@@ -132,6 +170,193 @@ describe('CLI Helpers', () => {
         auth: { cookies: [] },
       })
     })
+
+    it('should pass the snapshot mode to the service', () => {
+      const mockConfig = { get: vi.fn() } as unknown as ConfigManager
+
+      createBrowserService(mockConfig, undefined, false, { mode: 'replay', dir: '/snapshots' })
+
+      expect(mockBrowserServiceFactory.createService).toHaveBeenCalledWith(
+        expect.objectContaining({ snapshots: { mode: 'replay', dir: '/snapshots' } })
+      )
+    })
+  })
+
+  describe('getSnapshotOptions', () => {
+    it('should resolve the record or replay directory', () => {
+      expect(getSnapshotOptions({})).toBeUndefined()
+      expect(getSnapshotOptions({ record: 'snapshots' })).toEqual({
+        mode: 'record',
+        dir: resolve('snapshots'),
+      })
+      expect(getSnapshotOptions({ replay: '/archive' })).toEqual({
+        mode: 'replay',
+        dir: '/archive',
+      })
+    })
+
+    it('should reject --record with --replay', () => {
+      expect(() => getSnapshotOptions({ record: 'a', replay: 'b' })).toThrow(
+        '--record and --replay cannot be used together'
+      )
+    })
+
+    it('should record and replay GraphQL responses in the same directory', () => {
+      expect(createGraphQLSnapshots(undefined)).toBeUndefined()
+      expect(createGraphQLSnapshots({ mode: 'replay', dir: '/archive' })).toEqual({
+        mode: 'replay',
+        dir: '/archive',
+      })
+    })
+  })
+
+  describe('openSearchIndex', () => {
+    const storage = {} as StorageAdapter
+
+    it('should load the index saved in storage', async () => {
+      const index = { size: 3 } as unknown as SearchIndex
+      vi.mocked(SearchIndex.load).mockResolvedValueOnce(index)
+
+      expect(await openSearchIndex(storage)).toBe(index)
+      expect(SearchIndex.load).toHaveBeenCalledWith(storage)
+    })
+
+    it('should warn and scrape without an index when it cannot be read', async () => {
+      const warnSpy = vi.spyOn(logger, 'warn').mockImplementation(() => {})
+      vi.mocked(SearchIndex.load).mockRejectedValueOnce(new Error('database is locked'))
+
+      expect(await openSearchIndex(storage)).toBeUndefined()
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('database is locked'))
+      warnSpy.mockRestore()
+    })
+  })
+
+  describe('getCookieEncryption', () => {
+    const configWith = (auth: Partial<Config['auth']>) =>
+      ({ auth: { secureStorage: 'keytar', encryptCookies: true, ...auth } }) as Config
+    let originalKey: string | undefined
+
+    beforeEach(() => {
+      originalKey = process.env['LESCA_ENCRYPTION_KEY']
+      delete process.env['LESCA_ENCRYPTION_KEY']
+      vi.mocked(createSecretStore)
+        .mockClear()
+        .mockImplementation(() => mockSecretStore as never)
+      vi.mocked(getOrCreateEncryptionKey).mockClear()
+    })
+
+    afterEach(() => {
+      if (originalKey !== undefined) {
+        process.env['LESCA_ENCRYPTION_KEY'] = originalKey
+      }
+    })
+
+    it('should return undefined when cookie encryption is off', async () => {
+      expect(await getCookieEncryption(configWith({ encryptCookies: false }))).toBeUndefined()
+      expect(createSecretStore).not.toHaveBeenCalled()
+    })
+
+    it('should read the key from the configured secret store', async () => {
+      const encryption = await getCookieEncryption(configWith({}))
+
+      expect(createSecretStore).toHaveBeenCalledWith('keytar', {
+        path: expect.stringContaining('secrets.json'),
+      })
+      expect(getOrCreateEncryptionKey).toHaveBeenCalledWith(mockSecretStore)
+      expect(encryption).toEqual({ config: { enabled: true, key: 'stored-key' } })
+    })
+
+    it('should use the OS keyring with auto when there is no key file', async () => {
+      const fileStore = { type: 'file', get: vi.fn().mockResolvedValue(undefined) }
+      vi.mocked(createSecretStore).mockImplementation(
+        (type) => (type === 'file' ? fileStore : mockSecretStore) as never
+      )
+
+      const encryption = await getCookieEncryption(configWith({ secureStorage: 'auto' }))
+
+      expect(fileStore.get).toHaveBeenCalledWith('cookie-encryption-key')
+      expect(getOrCreateEncryptionKey).toHaveBeenCalledWith(mockSecretStore)
+      expect(encryption).toEqual({ config: { enabled: true, key: 'stored-key' } })
+    })
+
+    it('should fall back to the key file and warn when it sits next to the cookies', async () => {
+      const fileStore = { type: 'file', get: vi.fn().mockResolvedValue(undefined) }
+      vi.mocked(createSecretStore).mockImplementation(
+        (type) => (type === 'file' ? fileStore : mockSecretStore) as never
+      )
+      vi.mocked(getOrCreateEncryptionKey)
+        .mockRejectedValueOnce(new Error('OS keyring is unavailable'))
+        .mockResolvedValueOnce('file-key')
+      const warnSpy = vi.spyOn(logger, 'warn').mockImplementation(() => {})
+      const cookiePath = resolve(getDefaultPaths().secretsFile, '..', 'cookies.json')
+
+      const encryption = await getCookieEncryption(
+        configWith({ secureStorage: 'auto', cookiePath })
+      )
+
+      expect(getOrCreateEncryptionKey).toHaveBeenLastCalledWith(fileStore)
+      expect(encryption).toEqual({ config: { enabled: true, key: 'file-key' } })
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('same directory as the cookies'))
+      warnSpy.mockRestore()
+    })
+
+    it('should prefer LESCA_ENCRYPTION_KEY over the secret store', async () => {
+      process.env['LESCA_ENCRYPTION_KEY'] = 'env-key'
+
+      const encryption = await getCookieEncryption(configWith({}))
+
+      expect(createSecretStore).not.toHaveBeenCalled()
+      expect(encryption).toEqual({ config: { enabled: true } })
+    })
+  })
+
+  describe('createSelectorManager', () => {
+    const configWith = (selectors: Partial<Config['browser']['selectors']>) =>
+      ({ browser: { selectors: { promotionThreshold: 3, ...selectors } } }) as Config
+
+    beforeEach(() => {
+      vi.mocked(SelectorManager).mockClear()
+      vi.mocked(loadSelectorOverrides).mockClear()
+    })
+
+    it('should use the default selectors without a selector file', async () => {
+      await createSelectorManager(configWith({}))
+
+      expect(loadSelectorOverrides).not.toHaveBeenCalled()
+      expect(SelectorManager).toHaveBeenCalledWith(undefined, {
+        metrics: expect.any(MetricsCollector),
+        promotionThreshold: 3,
+        promotions: {},
+        onPromote: expect.any(Function),
+      })
+    })
+
+    it('should restore saved promotions and save new ones', async () => {
+      const promotions = { 'problem.title': 'div.text-title-large' }
+      vi.mocked(loadSelectorPromotions).mockResolvedValueOnce(promotions)
+
+      await createSelectorManager(configWith({}))
+
+      const promotionsFile = getDefaultPaths().selectorPromotionsFile
+      expect(loadSelectorPromotions).toHaveBeenCalledWith(promotionsFile)
+      const options = vi.mocked(SelectorManager).mock.calls[0]?.[1]
+      expect(options?.promotions).toBe(promotions)
+
+      options?.onPromote?.({ 'problem.content': 'div.elfjS' })
+      expect(saveSelectorPromotions).toHaveBeenCalledWith(promotionsFile, {
+        'problem.content': 'div.elfjS',
+      })
+    })
+
+    it('should load overrides from the selector file', async () => {
+      await createSelectorManager(configWith({ file: 'selectors.yaml', promotionThreshold: 0 }))
+
+      expect(loadSelectorOverrides).toHaveBeenCalledWith('selectors.yaml')
+      expect(SelectorManager).toHaveBeenCalledWith(
+        { problem: {} },
+        expect.objectContaining({ promotionThreshold: 0 })
+      )
+    })
   })
 
   describe('initializeConfig', () => {
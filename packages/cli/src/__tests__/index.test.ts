@@ -48,8 +48,13 @@ vi.mock('../commands/scrape-editorial', () => ({
 vi.mock('../commands/scrape-list', () => ({
   scrapeListCommand: new Command('scrape-list'),
 }))
+vi.mock('../commands/scrape-user', () => ({
+  scrapeUserCommand: new Command('scrape-user'),
+}))
 vi.mock('../commands/search', () => ({ searchCommand: new Command('search') }))
 vi.mock('../commands/session', () => ({ sessionCommand: new Command('session') }))
+vi.mock('../commands/doctor', () => ({ doctorCommand: new Command('doctor') }))
+vi.mock('../commands/selectors', () => ({ selectorsCommand: new Command('selectors') }))
 
 describe('CLI Index', () => {
   let ConfigManager: typeof import('@lesca/shared/config').ConfigManager
@@ -99,6 +99,11 @@ vi.mock('chalk', () => ({
   },
 }))
 
+vi.mock('../helpers', () => ({
+  getCookieEncryption: vi.fn(),
+  getRateLimitManager: vi.fn(),
+}))
+
 vi.mock('../utils', () => ({
   handleCliError: vi.fn(),
 }))
@@ -70,6 +70,11 @@ vi.mock('chalk', () => ({
   },
 }))
 
+vi.mock('../helpers', () => ({
+  getCookieEncryption: vi.fn(),
+  getStealthOptions: vi.fn(),
+}))
+
 vi.mock('../utils', () => ({
   handleCliError: vi.fn(),
 }))
@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+import type { EndpointState, IRateLimitManager } from '@lesca/browser-automation'
+
+import {
+  loadRateLimitStates,
+  saveRateLimitStates,
+  trackRateLimitManager,
+} from '../rate-limit-state'
+
+function createManager(states: EndpointState[]): IRateLimitManager {
+  return { getEndpointStates: () => states } as unknown as IRateLimitManager
+}
+
+const graphql: EndpointState = {
+  endpoint: '/graphql',
+  hitCount: 3,
+  lastHitTime: 1000,
+  isRateLimited: true,
+  rateLimitedUntil: 5000,
+  retryAfterMs: 4000,
+  consecutiveFailures: 1,
+}
+
+describe('rate limit state', () => {
+  let dir: string
+  let path: string
+
+  beforeEach(() => {
+    // Keep the exit handler from writing to the real state file
+    vi.spyOn(process, 'once').mockReturnValue(process)
+    dir = mkdtempSync(join(tmpdir(), 'lesca-rate-limits-'))
+    path = join(dir, 'nested', 'rate-limits.json')
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should not write a file before any request was made', () => {
+    trackRateLimitManager(createManager([]))
+
+    saveRateLimitStates(path)
+
+    expect(process.once).toHaveBeenCalledWith('exit', expect.any(Function))
+    expect(existsSync(path)).toBe(false)
+    expect(loadRateLimitStates(path)).toBeUndefined()
+  })
+
+  it('should save the states of every tracked manager and tag account managers', () => {
+    trackRateLimitManager(createManager([graphql]))
+    trackRateLimitManager(createManager([{ ...graphql, isRateLimited: false }]), 'alice')
+
+    saveRateLimitStates(path)
+
+    expect(process.once).not.toHaveBeenCalled()
+    expect(loadRateLimitStates(path)).toEqual({
+      savedAt: expect.any(Number),
+      endpoints: [graphql, { ...graphql, isRateLimited: false, session: 'alice' }],
+    })
+  })
+
+  it('should ignore an unreadable state file', () => {
+    const file = join(dir, 'rate-limits.json')
+    writeFileSync(file, '{not json')
+
+    expect(loadRateLimitStates(file)).toBeUndefined()
+  })
+})
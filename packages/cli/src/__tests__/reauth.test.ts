@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+import type { CookieFileAuth } from '@lesca/auth'
+import { PlaywrightDriver, detectLoginState } from '@lesca/browser-automation'
+import type { Config } from '@lesca/shared/config'
+
+import type { GraphQLClient } from '@/api-client/src/index'
+import type { ReauthOptions } from '@/core/src/index'
+
+import { createReauthCoordinator, type ReauthContext } from '../reauth'
+
+const mockCookieManager = {
+  loadAndInject: vi.fn().mockResolvedValue(undefined),
+  refreshCookies: vi.fn().mockResolvedValue([{ name: 'csrftoken', value: 'fresh' }]),
+  saveCookies: vi.fn().mockResolvedValue(undefined),
+  injectCookies: vi.fn().mockResolvedValue(undefined),
+}
+
+const mockAuthHelper = {
+  waitForManualLogin: vi.fn(),
+}
+
+vi.mock('@lesca/browser-automation', () => ({
+  PlaywrightDriver: vi.fn(function (this: Record<string, unknown>) {
+    this.launch = vi.fn().mockResolvedValue(undefined)
+    this.navigate = vi.fn().mockResolvedValue(undefined)
+    this.close = vi.fn().mockResolvedValue(undefined)
+  }),
+  CookieManager: vi.fn(() => mockCookieManager),
+  AuthHelper: vi.fn(() => mockAuthHelper),
+  detectLoginState: vi.fn(),
+}))
+
+vi.mock('@/core/src/index', () => ({
+  ReauthCoordinator: vi.fn((options: unknown) => ({ options })),
+}))
+
+vi.mock('../helpers', () => ({
+  getCookieEncryption: vi.fn(),
+  getStealthOptions: vi.fn(),
+}))
+
+vi.mock('@lesca/shared/utils', () => ({
+  logger: {
+    log: vi.fn(),
+    debug: vi.fn(),
+  },
+}))
+
+describe('createReauthCoordinator', () => {
+  let context: ReauthContext
+  let getUserStatus: ReturnType<typeof vi.fn>
+  let driver: PlaywrightDriver
+
+  const getOptions = () => createReauthCoordinator(context) as unknown as { options: ReauthOptions }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    getUserStatus = vi.fn().mockResolvedValue({ isSignedIn: false })
+    driver = new PlaywrightDriver()
+    context = {
+      config: { browser: { timeout: 30000 } } as Config,
+      cookiePath: 'cookies.json',
+      auth: {
+        refresh: vi.fn().mockResolvedValue(undefined),
+        getCredentials: vi.fn(() => ({ cookies: [], csrfToken: 'from-file' })),
+      } as unknown as CookieFileAuth,
+      graphqlClient: { getUserStatus, setAuth: vi.fn() } as unknown as GraphQLClient,
+      driver,
+      interactive: false,
+    }
+  })
+
+  it('should check the session with the GraphQL client', async () => {
+    getUserStatus.mockResolvedValue({ isSignedIn: true })
+
+    expect(await getOptions().options.checkSession?.()).toBe(true)
+  })
+
+  it('should reuse the cookie file when it holds a working session', async () => {
+    getUserStatus.mockResolvedValue({ isSignedIn: true })
+
+    expect(await getOptions().options.refresh()).toBe(true)
+    expect(context.auth.refresh).toHaveBeenCalled()
+    expect(context.graphqlClient.setAuth).toHaveBeenCalledWith({
+      cookies: [],
+      csrfToken: 'from-file',
+    })
+    expect(mockCookieManager.loadAndInject).toHaveBeenCalledWith(driver, 'cookies.json')
+    expect(detectLoginState).not.toHaveBeenCalled()
+  })
+
+  it('should take and save the cookies of a signed-in browser', async () => {
+    getUserStatus
+      .mockResolvedValueOnce({ isSignedIn: false })
+      .mockResolvedValue({ isSignedIn: true })
+    vi.mocked(detectLoginState).mockResolvedValue('logged-in')
+
+    expect(await getOptions().options.refresh()).toBe(true)
+    expect(context.graphqlClient.setAuth).toHaveBeenCalledWith({
+      cookies: [{ name: 'csrftoken', value: 'fresh' }],
+      csrfToken: 'fresh',
+    })
+    expect(mockCookieManager.saveCookies).toHaveBeenCalledWith(driver, 'cookies.json')
+  })
+
+  it('should give up without a manual login when not interactive', async () => {
+    vi.mocked(detectLoginState).mockResolvedValue('logged-out')
+
+    expect(await getOptions().options.refresh()).toBe(false)
+    expect(mockAuthHelper.waitForManualLogin).not.toHaveBeenCalled()
+    expect(mockCookieManager.saveCookies).not.toHaveBeenCalled()
+  })
+
+  it('should ask for a manual login when interactive', async () => {
+    context.interactive = true
+    vi.mocked(detectLoginState).mockResolvedValue('logged-out')
+    getUserStatus
+      .mockResolvedValueOnce({ isSignedIn: false })
+      .mockResolvedValue({ isSignedIn: true })
+    const cookies = [{ name: 'LEETCODE_SESSION', value: 'new' }]
+    mockAuthHelper.waitForManualLogin.mockResolvedValue({ success: true, cookies })
+
+    expect(await getOptions().options.refresh()).toBe(true)
+    expect(mockCookieManager.saveCookies).toHaveBeenCalledWith(expect.anything(), 'cookies.json')
+    expect(mockCookieManager.injectCookies).toHaveBeenCalledWith(driver, cookies)
+  })
+})
@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { Command } from 'commander'
+
+// Mock dependencies
+const files = new Map<string, string>()
+
+vi.mock('@lesca/shared/config', () => ({
+  ConfigManager: {
+    getInstance: vi.fn(() => ({ getConfig: () => ({ storage: { type: 'filesystem' } }) })),
+  },
+}))
+
+vi.mock('@lesca/shared/utils', () => ({
+  logger: {
+    log: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+    success: vi.fn(),
+    warn: vi.fn(),
+  },
+}))
+
+vi.mock('@lesca/storage', () => ({
+  createStorage: vi.fn(() => ({
+    save: vi.fn((key: string, content: string) => {
+      files.set(key, content)
+      return Promise.resolve()
+    }),
+    load: vi.fn((key: string) => Promise.resolve(files.get(key) ?? null)),
+    list: vi.fn(() => Promise.resolve([...files.keys()])),
+  })),
+}))
+
+// The core path alias only resolves in the build, so load the review modules directly
+vi.mock('@/core/src/index', async () => ({
+  ...(await import('../../../core/src/review-deck')),
+  ...(await import('../../../core/src/review-scheduler')),
+}))
+
+vi.mock('inquirer', () => ({
+  default: { prompt: vi.fn() },
+}))
+
+vi.mock('ora', () => ({
+  default: vi.fn(() => ({
+    start: vi.fn().mockReturnThis(),
+    stop: vi.fn().mockReturnThis(),
+    fail: vi.fn().mockReturnThis(),
+  })),
+}))
+
+vi.mock('../utils', () => ({
+  handleCliError: vi.fn(),
+}))
+
+describe('Review Command', () => {
+  let program: Command
+  let mockExit: ReturnType<typeof vi.spyOn>
+  let logger: typeof import('@lesca/shared/utils').logger
+
+  const output = () => vi.mocked(logger.log).mock.calls.map(([line]) => String(line ?? ''))
+  const deck = () =>
+    JSON.parse(files.get('.lesca/reviews.json') ?? '{}') as {
+      cards: Array<{ slug: string; history: unknown[] }>
+    }
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    vi.resetModules()
+
+    files.clear()
+    files.set(
+      '1-two-sum.md',
+      '---\nfrontend_id: "1"\ntitle: Two Sum\ntitleSlug: two-sum\ndifficulty: Easy\n---\n\n# Two Sum\n'
+    )
+    files.set(
+      '15-3sum.md',
+      '---\nfrontend_id: "15"\ntitle: 3Sum\ntitleSlug: 3sum\ndifficulty: Medium\n---\n\n# 3Sum\n'
+    )
+
+    program = new Command()
+    program.exitOverride()
+
+    mockExit = vi.spyOn(process, 'exit').mockImplementation(((code: number) => {
+      throw new Error(`Process.exit(${code})`)
+    }) as never)
+
+    logger = (await import('@lesca/shared/utils')).logger
+
+    const { reviewCommand } = await import('../commands/review')
+    program.addCommand(reviewCommand)
+  })
+
+  afterEach(() => {
+    mockExit.mockRestore()
+  })
+
+  it("should list today's new problems and create the deck", async () => {
+    await program.parseAsync(['node', 'lesca', 'review', '--new', '1'])
+
+    expect(output()).toContain('Due today: 0 reviews, 1 new')
+    expect(output().some((line) => line.includes('Two Sum'))).toBe(true)
+    expect(output().some((line) => line.includes('3Sum'))).toBe(false)
+    expect(deck().cards.map((card) => card.slug)).toEqual(['two-sum', '3sum'])
+  })
+
+  it('should record a grade and reschedule the problem', async () => {
+    await program.parseAsync(['node', 'lesca', 'review', 'grade', '15', 'good', '-o', 'notes'])
+
+    const { createStorage } = await import('@lesca/storage')
+    expect(createStorage).toHaveBeenCalledWith({ type: 'filesystem' }, 'notes')
+    expect(logger.success).toHaveBeenCalledWith(expect.stringContaining('next review in 2 days'))
+    expect(deck().cards.find((card) => card.slug === '3sum')?.history).toHaveLength(1)
+  })
+
+  it('should reject invalid grades', async () => {
+    const { handleCliError } = await import('../utils')
+
+    await expect(
+      program.parseAsync(['node', 'lesca', 'review', 'grade', 'two-sum', '7'])
+    ).rejects.toThrow('Process.exit(1)')
+    expect(String(vi.mocked(handleCliError).mock.calls[0]?.[1])).toContain('Invalid grade: 7')
+  })
+
+  it('should grade the due problems interactively until quit', async () => {
+    const inquirer = (await import('inquirer')).default
+    vi.mocked(inquirer.prompt)
+      .mockResolvedValueOnce({ grade: 5 })
+      .mockResolvedValueOnce({ grade: 'quit' })
+
+    await program.parseAsync(['node', 'lesca', 'review', '-i'])
+
+    expect(inquirer.prompt).toHaveBeenCalledTimes(2)
+    expect(logger.success).toHaveBeenCalledWith('Reviewed 1 problem')
+    expect(deck().cards.map((card) => card.history.length)).toEqual([1, 0])
+  })
+
+  it('should output the due problems as JSON', async () => {
+    await program.parseAsync(['node', 'lesca', 'review', '--json'])
+
+    const due = JSON.parse(output()[0] ?? '') as { reviews: unknown[]; newCards: unknown[] }
+    expect(due.reviews).toEqual([])
+    expect(due.newCards).toHaveLength(2)
+  })
+})
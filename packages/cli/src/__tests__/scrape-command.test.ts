@@ -6,6 +6,7 @@ const mockConfigManagerInstance = {
   getConfig: vi.fn().mockReturnValue({
     storage: { path: './output' },
     output: { format: 'markdown' },
+    processing: { converters: ['html-to-markdown'] },
     auth: { method: 'cookie', cookiePath: 'cookies.json' },
     cache: { enabled: true },
     api: { rateLimit: { minDelay: 100, maxDelay: 200, jitter: 0.1 } },
@@ -33,6 +34,9 @@ const mockConfigManagerInstance = {
       enabled: false,
       plugins: [],
     },
+    scraping: {
+      discussion: { defaultLimit: 10, defaultSort: 'hot' },
+    },
   }),
 }
 
@@ -98,11 +102,19 @@ vi.mock('@/core/src/index', () => ({
 vi.mock('@lesca/scrapers', () => ({
   ProblemScraperStrategy: vi.fn(),
   ListScraperStrategy: vi.fn(),
+  EditorialScraperStrategy: vi.fn(),
+  DiscussionScraperStrategy: vi.fn(),
 }))
 
-vi.mock('@lesca/storage', () => ({
-  FileSystemStorage: vi.fn(),
-}))
+vi.mock('@lesca/storage', () => {
+  const FileSystemStorage = vi.fn()
+  return {
+    FileSystemStorage,
+    createStorage: vi.fn(
+      (_config: unknown, basePath: string) => new (FileSystemStorage as any)(basePath)
+    ),
+  }
+})
 
 vi.mock('ora', () => ({
   default: vi.fn(() => ({
@@ -122,6 +134,7 @@ vi.mock('chalk', () => ({
     cyan: (str: string) => str,
     green: (str: string) => str,
     red: (str: string) => str,
+    yellow: (str: string) => str,
   },
 }))
 
@@ -135,6 +148,13 @@ const mockBrowserServiceInstance = {
 
 vi.mock('../helpers', () => ({
   createBrowserService: vi.fn(() => mockBrowserServiceInstance),
+  createGraphQLSnapshots: vi.fn(),
+  getCookieEncryption: vi.fn(),
+  getRateLimitManager: vi.fn(),
+  createSelectorManager: vi.fn(),
+  getSnapshotOptions: vi.fn(),
+  getStealthOptions: vi.fn(),
+  openSearchIndex: vi.fn(),
 }))
 
 vi.mock('../utils', () => ({
@@ -273,4 +293,129 @@ describe('Scrape Command', () => {
     // Wait, beforeEach clears mocks.
     expect(createCache).not.toHaveBeenCalled()
   })
+
+  it('should skip unchanged problems with --incremental', async () => {
+    mockScraperInstance.scrape.mockResolvedValueOnce({
+      success: true,
+      filePath: '1-two-sum.md',
+      change: { status: 'unchanged', parts: [] },
+    })
+
+    await program.parseAsync(['node', 'lesca', 'scrape', 'two-sum', '--incremental'])
+
+    const { LeetCodeScraper } = await import('@/core/src/index')
+    expect(LeetCodeScraper).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.anything(),
+      expect.objectContaining({ incremental: true })
+    )
+    expect(logger.log).not.toHaveBeenCalledWith(expect.stringContaining('Preview'))
+    expect(mockExit).not.toHaveBeenCalled()
+  })
+
+  it('should scrape a bundle with --bundle', async () => {
+    mockScraperInstance.scrape.mockResolvedValueOnce({
+      success: true,
+      filePath: '1-two-sum/problem.md',
+      data: { content: 'Problem content' },
+      sections: [
+        { section: 'problem', success: true, filePath: '1-two-sum/problem.md' },
+        { section: 'editorial', success: false, error: new Error('Premium content') },
+        { section: 'discussions', success: true, filePath: '1-two-sum/discussions.md' },
+      ],
+    })
+
+    await program.parseAsync([
+      'node',
+      'lesca',
+      'scrape',
+      'two-sum',
+      '--bundle',
+      '--bundle-layout',
+      'folder',
+    ])
+
+    const { EditorialScraperStrategy, DiscussionScraperStrategy } = await import('@lesca/scrapers')
+    const { LeetCodeScraper } = await import('@/core/src/index')
+
+    expect(EditorialScraperStrategy).toHaveBeenCalled()
+    expect(DiscussionScraperStrategy).toHaveBeenCalled()
+    expect(LeetCodeScraper).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.anything(),
+      expect.objectContaining({
+        bundle: expect.objectContaining({ layout: 'folder' }),
+      })
+    )
+    expect(mockScraperInstance.scrape).toHaveBeenCalledWith(
+      expect.objectContaining({ includeSolution: true, includeDiscussions: true })
+    )
+    expect(logger.log).toHaveBeenCalledWith(expect.stringContaining('editorial: Premium content'))
+    expect(logger.log).toHaveBeenCalledWith(
+      expect.stringContaining('discussions: 1-two-sum/discussions.md')
+    )
+  })
+
+  it('should reject an invalid bundle layout', async () => {
+    const { handleCliError } = await import('../utils')
+
+    await program.parseAsync([
+      'node',
+      'lesca',
+      'scrape',
+      'two-sum',
+      '--bundle',
+      '--bundle-layout',
+      'zip',
+    ])
+
+    expect(handleCliError).toHaveBeenCalled()
+    expect(mockScraperInstance.scrape).not.toHaveBeenCalled()
+    expect(mockExit).toHaveBeenCalledWith(1)
+  })
+
+  it('should launch the browser with stealth options', async () => {
+    const { getStealthOptions } = await import('../helpers')
+    vi.mocked(getStealthOptions).mockReturnValueOnce({ enabled: true })
+
+    await program.parseAsync([
+      'node',
+      'lesca',
+      'scrape',
+      'two-sum',
+      '--bundle-layout',
+      'note',
+      '--stealth',
+    ])
+
+    expect(getStealthOptions).toHaveBeenCalledWith(expect.anything(), true)
+    expect(mockBrowserServiceInstance.startup).toHaveBeenCalledWith(
+      expect.objectContaining({ stealth: { enabled: true } })
+    )
+  })
+
+  it('should replay pages and GraphQL responses with --replay', async () => {
+    const helpers = await import('../helpers')
+    const { GraphQLClient } = await import('@/api-client/src/index')
+    const snapshots = { mode: 'replay' as const, dir: '/snapshots' }
+    const graphqlSnapshots = { mode: 'replay' }
+    vi.mocked(helpers.getSnapshotOptions).mockReturnValueOnce(snapshots)
+    vi.mocked(helpers.createGraphQLSnapshots).mockReturnValueOnce(graphqlSnapshots as never)
+
+    await program.parseAsync(['node', 'lesca', 'scrape', 'two-sum', '--replay', 'x'])
+
+    expect(helpers.getSnapshotOptions).toHaveBeenCalledWith(
+      expect.objectContaining({ replay: 'x' })
+    )
+    expect(helpers.createGraphQLSnapshots).toHaveBeenCalledWith(snapshots)
+    expect(GraphQLClient).toHaveBeenCalledWith(
+      expect.objectContaining({ snapshots: graphqlSnapshots })
+    )
+    expect(helpers.createBrowserService).toHaveBeenCalledWith(
+      mockConfigManagerInstance,
+      undefined,
+      false,
+      snapshots
+    )
+  })
 })
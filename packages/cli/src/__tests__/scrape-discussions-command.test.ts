@@ -6,6 +6,7 @@ const mockConfigManagerInstance = {
   getConfig: vi.fn().mockReturnValue({
     storage: { path: './output' },
     output: { format: 'markdown' },
+    processing: { converters: ['html-to-markdown'] },
     auth: { method: 'cookie', cookiePath: 'cookies.json' },
     cache: { enabled: true },
     api: { rateLimit: { minDelay: 100, maxDelay: 200, jitter: 0.1 } },
@@ -82,9 +83,15 @@ vi.mock('@lesca/scrapers', () => ({
   DiscussionScraperStrategy: vi.fn(),
 }))
 
-vi.mock('@lesca/storage', () => ({
-  FileSystemStorage: vi.fn(),
-}))
+vi.mock('@lesca/storage', () => {
+  const FileSystemStorage = vi.fn()
+  return {
+    FileSystemStorage,
+    createStorage: vi.fn(
+      (_config: unknown, basePath: string) => new (FileSystemStorage as any)(basePath)
+    ),
+  }
+})
 
 vi.mock('ora', () => ({
   default: vi.fn(() => ({
@@ -118,6 +125,13 @@ const mockBrowserServiceInstance = {
 
 vi.mock('../helpers', () => ({
   createBrowserService: vi.fn(() => mockBrowserServiceInstance),
+  createGraphQLSnapshots: vi.fn(),
+  getCookieEncryption: vi.fn(),
+  getRateLimitManager: vi.fn(),
+  createSelectorManager: vi.fn(),
+  getSnapshotOptions: vi.fn(),
+  getStealthOptions: vi.fn(),
+  openSearchIndex: vi.fn(),
 }))
 
 vi.mock('../utils', () => ({
@@ -6,6 +6,7 @@ const mockConfigManagerInstance = {
   getConfig: vi.fn().mockReturnValue({
     storage: { path: './output' },
     output: { format: 'markdown' },
+    processing: { converters: ['html-to-markdown'] },
     auth: { method: 'cookie', cookiePath: 'cookies.json' },
     cache: { enabled: true },
     api: { rateLimit: { minDelay: 100, maxDelay: 200, jitter: 0.1 } },
@@ -75,9 +76,15 @@ vi.mock('@lesca/scrapers', () => ({
   EditorialScraperStrategy: vi.fn(),
 }))
 
-vi.mock('@lesca/storage', () => ({
-  FileSystemStorage: vi.fn(),
-}))
+vi.mock('@lesca/storage', () => {
+  const FileSystemStorage = vi.fn()
+  return {
+    FileSystemStorage,
+    createStorage: vi.fn(
+      (_config: unknown, basePath: string) => new (FileSystemStorage as any)(basePath)
+    ),
+  }
+})
 
 vi.mock('ora', () => ({
   default: vi.fn(() => ({
@@ -111,6 +118,13 @@ const mockBrowserServiceInstance = {
 
 vi.mock('../helpers', () => ({
   createBrowserService: vi.fn(() => mockBrowserServiceInstance),
+  createGraphQLSnapshots: vi.fn(),
+  getCookieEncryption: vi.fn(),
+  getRateLimitManager: vi.fn(),
+  createSelectorManager: vi.fn(),
+  getSnapshotOptions: vi.fn(),
+  getStealthOptions: vi.fn(),
+  openSearchIndex: vi.fn(),
 }))
 
 vi.mock('../utils', () => ({
@@ -292,6 +306,24 @@ describe('Scrape Editorial Command', () => {
     )
   })
 
+  it('should replay snapshots with --replay', async () => {
+    const helpers = await import('../helpers')
+    const snapshots = { mode: 'replay' as const, dir: '/snapshots' }
+    vi.mocked(helpers.getSnapshotOptions).mockReturnValueOnce(snapshots)
+
+    await program.parseAsync(['node', 'lesca', 'scrape-editorial', 'two-sum', '--replay', 'x'])
+
+    expect(helpers.getSnapshotOptions).toHaveBeenCalledWith(
+      expect.objectContaining({ replay: 'x' })
+    )
+    expect(helpers.createBrowserService).toHaveBeenCalledWith(
+      mockConfigManagerInstance,
+      undefined,
+      false,
+      snapshots
+    )
+  })
+
   it('should display content preview on success', async () => {
     await program.parseAsync(['node', 'lesca', 'scrape-editorial', 'two-sum'])
 
@@ -5,7 +5,8 @@ import { Command } from 'commander'
 const mockConfigManagerInstance = {
   getConfig: vi.fn().mockReturnValue({
     storage: { path: './output' },
-    output: { format: 'markdown' },
+    output: { format: 'markdown', images: { download: false } },
+    processing: { converters: ['html-to-markdown'] },
     auth: { method: 'cookie', cookiePath: 'cookies.json' },
     cache: { enabled: true },
     api: { rateLimit: { minDelay: 100, maxDelay: 200, jitter: 0.1 } },
@@ -31,6 +32,7 @@ vi.mock('@lesca/shared/config', () => ({
 vi.mock('@lesca/shared/utils', () => ({
   logger: {
     log: vi.fn(),
+    warn: vi.fn(),
     error: vi.fn(),
     info: vi.fn(),
     success: vi.fn(),
@@ -60,6 +62,16 @@ const mockDriverInstance = {
 
 vi.mock('@lesca/browser-automation', () => ({
   PlaywrightDriver: vi.fn(() => mockDriverInstance),
+  SessionManager: vi.fn(() => ({
+    getSession: vi.fn((name: string) =>
+      Promise.resolve(
+        name === 'missing'
+          ? null
+          : { name, cookies: [{ name: 'csrftoken', value: 'token', domain: 'leetcode.com' }] }
+      )
+    ),
+  })),
+  detectCaptcha: vi.fn().mockResolvedValue(false),
 }))
 
 const mockListStrategy = {
@@ -80,9 +92,15 @@ vi.mock('@lesca/scrapers', () => ({
   ListScraperStrategy: vi.fn(() => mockListStrategy),
 }))
 
-vi.mock('@lesca/storage', () => ({
-  FileSystemStorage: vi.fn(),
-}))
+vi.mock('@lesca/storage', () => {
+  const FileSystemStorage = vi.fn()
+  return {
+    FileSystemStorage,
+    createStorage: vi.fn(
+      (_config: unknown, basePath: string) => new (FileSystemStorage as any)(basePath)
+    ),
+  }
+})
 
 const mockBatchScraperInstance = {
   scrapeAll: vi.fn().mockResolvedValue({
@@ -93,12 +111,14 @@ const mockBatchScraperInstance = {
     errors: [],
     completed: 2,
     total: 2,
+    stats: {},
   }),
 }
 
 vi.mock('@/core/src/index', () => ({
   LeetCodeScraper: vi.fn(),
   BatchScraper: vi.fn(() => mockBatchScraperInstance),
+  ImageDownloader: vi.fn(),
 }))
 
 const mockProgressManagerInstance = {
@@ -107,6 +127,7 @@ const mockProgressManagerInstance = {
   update: vi.fn(),
   incrementSuccess: vi.fn(),
   incrementFailure: vi.fn(),
+  incrementSkip: vi.fn(),
   getSummary: vi.fn(),
 }
 
@@ -146,6 +167,20 @@ const mockBrowserServiceInstance = {
 
 vi.mock('../helpers', () => ({
   createBrowserService: vi.fn(() => mockBrowserServiceInstance),
+  getCookieEncryption: vi.fn(),
+  getRateLimitManager: vi.fn(),
+  createRateLimitManager: vi.fn(() => ({})),
+  createGraphQLSnapshots: vi.fn(),
+  createSelectorManager: vi.fn(),
+  getSnapshotOptions: vi.fn(),
+  getStealthOptions: vi.fn(),
+  openSearchIndex: vi.fn(),
+}))
+
+const mockReauth = { getRefreshCount: vi.fn(() => 1) }
+
+vi.mock('../reauth', () => ({
+  createReauthCoordinator: vi.fn(() => mockReauth),
 }))
 
 vi.mock('../utils', () => ({
@@ -224,6 +259,38 @@ describe('Scrape List Command', () => {
     expect(mockBatchScraperInstance.scrapeAll).toHaveBeenCalled()
   })
 
+  it('should re-authenticate expired sessions when auth.autoRefresh is on', async () => {
+    const config = mockConfigManagerInstance.getConfig()
+    mockConfigManagerInstance.getConfig.mockReturnValueOnce({
+      ...config,
+      auth: { ...config.auth, autoRefresh: true },
+    })
+
+    await program.parseAsync(['node', 'lesca', 'scrape-list'])
+
+    const { createReauthCoordinator } = await import('../reauth')
+    expect(createReauthCoordinator).toHaveBeenCalledWith(
+      expect.objectContaining({
+        cookiePath: 'cookies.json',
+        auth: mockAuthInstance,
+        driver: mockDriverInstance,
+      })
+    )
+    const { BatchScraper } = await import('@/core/src/index')
+    expect(BatchScraper).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ reauth: mockReauth })
+    )
+    expect(logger.log).toHaveBeenCalledWith('Re-authenticated 1 time(s) during the batch')
+  })
+
+  it('should not re-authenticate when auth.autoRefresh is off', async () => {
+    await program.parseAsync(['node', 'lesca', 'scrape-list'])
+
+    const { createReauthCoordinator } = await import('../reauth')
+    expect(createReauthCoordinator).not.toHaveBeenCalled()
+  })
+
   it('should skip authentication with --no-auth', async () => {
     await program.parseAsync(['node', 'lesca', 'scrape-list', '--no-auth'])
 
@@ -347,6 +414,7 @@ describe('Scrape List Command', () => {
       ],
       completed: 2,
       total: 2,
+      stats: {},
     })
 
     await program.parseAsync(['node', 'lesca', 'scrape-list'])
@@ -367,6 +435,7 @@ describe('Scrape List Command', () => {
       errors: manyErrors,
       completed: 10,
       total: 10,
+      stats: {},
     })
 
     await program.parseAsync(['node', 'lesca', 'scrape-list'])
@@ -410,4 +479,285 @@ describe('Scrape List Command', () => {
       })
     )
   })
+
+  it('should report the diff summary with --incremental', async () => {
+    mockBatchScraperInstance.scrapeAll.mockResolvedValueOnce({
+      results: [
+        {
+          success: true,
+          request: { type: 'problem', titleSlug: 'two-sum' },
+          change: { status: 'new', parts: [] },
+        },
+        {
+          success: true,
+          request: { type: 'problem', titleSlug: 'add-two-numbers' },
+          change: { status: 'changed', parts: ['source', 'stats'] },
+        },
+        {
+          success: true,
+          request: { type: 'problem', titleSlug: 'three-sum' },
+          change: { status: 'unchanged', parts: [] },
+        },
+      ],
+      errors: [],
+      stats: { changes: { new: 1, changed: 1, unchanged: 1 } },
+    })
+
+    await program.parseAsync(['node', 'lesca', 'scrape-list', '--incremental'])
+
+    const { LeetCodeScraper } = await import('@/core/src/index')
+    expect(LeetCodeScraper).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.anything(),
+      expect.objectContaining({ incremental: true })
+    )
+    expect(mockProgressManagerInstance.incrementSuccess).toHaveBeenCalledTimes(2)
+    expect(mockProgressManagerInstance.incrementSkip).toHaveBeenCalledTimes(1)
+    expect(logger.log).toHaveBeenCalledWith('1 new, 1 changed, 1 unchanged')
+    expect(logger.log).toHaveBeenCalledWith('  + two-sum')
+    expect(logger.log).toHaveBeenCalledWith('  ~ add-two-numbers (source, stats)')
+    expect(logger.log).not.toHaveBeenCalledWith(expect.stringContaining('three-sum'))
+  })
+
+  it('should merge into existing notes with --merge', async () => {
+    // --incremental from the previous test is still set on the command
+    mockBatchScraperInstance.scrapeAll.mockResolvedValueOnce({
+      results: [],
+      errors: [],
+      stats: {},
+    })
+
+    await program.parseAsync(['node', 'lesca', 'scrape-list', '--merge'])
+
+    const { LeetCodeScraper } = await import('@/core/src/index')
+    expect(LeetCodeScraper).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.anything(),
+      expect.objectContaining({ merge: true })
+    )
+  })
+
+  it('should rotate across cookie files with --cookie-files', async () => {
+    mockBatchScraperInstance.scrapeAll.mockResolvedValueOnce({
+      results: [],
+      errors: [],
+      stats: {
+        sessions: [
+          { name: 'a.json', requests: 2, successful: 1, failed: 1, rateLimited: 1, captchas: 0 },
+          { name: 'b.json', requests: 1, successful: 1, failed: 0, rateLimited: 0, captchas: 0 },
+        ],
+      },
+    })
+
+    await program.parseAsync([
+      'node',
+      'lesca',
+      'scrape-list',
+      '--cookie-files',
+      'a.json,b.json',
+      '--rotation',
+      'least-loaded',
+    ])
+
+    const { BatchScraper } = await import('@/core/src/index')
+    expect(CookieFileAuth).toHaveBeenCalledWith('a.json', undefined)
+    expect(CookieFileAuth).toHaveBeenCalledWith('b.json', undefined)
+    expect(BatchScraper).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({
+        sessions: [
+          expect.objectContaining({ name: 'a.json' }),
+          expect.objectContaining({ name: 'b.json' }),
+        ],
+        sessionRotation: { distributionStrategy: 'least-loaded' },
+      })
+    )
+    expect(logger.log).toHaveBeenCalledWith('  a.json: 1 ok, 1 failed (1 rate limited, 0 CAPTCHA)')
+    expect(logger.log).toHaveBeenCalledWith('  b.json: 1 ok, 0 failed')
+  })
+
+  it('should load named browser sessions with --sessions', async () => {
+    // --cookie-files from the previous test is still set on the command
+    mockBatchScraperInstance.scrapeAll.mockResolvedValueOnce({
+      results: [],
+      errors: [],
+      stats: {},
+    })
+
+    await program.parseAsync(['node', 'lesca', 'scrape-list', '--sessions', 'alice, bob'])
+
+    const { createBrowserService } = await import('../helpers')
+    expect(createBrowserService).toHaveBeenCalledWith(
+      expect.anything(),
+      'alice',
+      false,
+      undefined,
+      expect.anything()
+    )
+    expect(createBrowserService).toHaveBeenCalledWith(
+      expect.anything(),
+      'bob',
+      false,
+      undefined,
+      expect.anything()
+    )
+    // Only the session browsers are started
+    expect(createBrowserService).toHaveBeenCalledTimes(4)
+    const { BatchScraper } = await import('@/core/src/index')
+    const batchOptions = vi.mocked(BatchScraper).mock.calls[0]?.[1]
+    expect(batchOptions?.sessions?.map((session) => session.name)).toEqual([
+      'alice',
+      'bob',
+      'a.json',
+      'b.json',
+    ])
+  })
+
+  it('should share one image downloader across session scrapers', async () => {
+    const config = mockConfigManagerInstance.getConfig() as { output: object }
+    mockConfigManagerInstance.getConfig.mockReturnValueOnce({
+      ...config,
+      output: { format: 'markdown', images: { download: true } },
+    })
+
+    await program.parseAsync(['node', 'lesca', 'scrape-list', '--sessions', 'alice,bob'])
+
+    const { ImageDownloader, LeetCodeScraper } = await import('@/core/src/index')
+    const downloaders = vi
+      .mocked(LeetCodeScraper)
+      .mock.calls.map((call) => call[2]?.imageDownloader)
+    expect(ImageDownloader).toHaveBeenCalledTimes(1)
+    expect(downloaders.length).toBeGreaterThan(2)
+    expect(new Set(downloaders)).toEqual(new Set([vi.mocked(ImageDownloader).mock.instances[0]]))
+  })
+
+  it('should give each session its own rate limit state and re-authentication', async () => {
+    const config = mockConfigManagerInstance.getConfig()
+    mockConfigManagerInstance.getConfig.mockReturnValueOnce({
+      ...config,
+      auth: { ...config.auth, autoRefresh: true },
+    })
+
+    await program.parseAsync([
+      'node',
+      'lesca',
+      'scrape-list',
+      '--sessions',
+      'alice',
+      '--cookie-files',
+      'a.json,b.json',
+    ])
+
+    const { createRateLimitManager } = await import('../helpers')
+    const { GraphQLClient } = await import('@/api-client/src/index')
+    const managers = vi.mocked(createRateLimitManager).mock.results.map((result) => result.value)
+    expect(managers).toHaveLength(3)
+    expect(new Set(managers).size).toBe(3)
+    for (const manager of managers) {
+      expect(GraphQLClient).toHaveBeenCalledWith(
+        expect.objectContaining({ rateLimitManager: manager })
+      )
+    }
+
+    const { createReauthCoordinator } = await import('../reauth')
+    expect(createReauthCoordinator).toHaveBeenCalledTimes(2)
+    expect(createReauthCoordinator).toHaveBeenCalledWith(
+      expect.objectContaining({ cookiePath: 'a.json' })
+    )
+    expect(createReauthCoordinator).toHaveBeenCalledWith(
+      expect.objectContaining({ cookiePath: 'b.json' })
+    )
+    const { BatchScraper } = await import('@/core/src/index')
+    const batchOptions = vi.mocked(BatchScraper).mock.calls[0]?.[1]
+    expect(batchOptions?.reauth).toBeUndefined()
+    expect(batchOptions?.sessions?.map((session) => session.reauth)).toEqual([
+      undefined,
+      mockReauth,
+      mockReauth,
+    ])
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('--cookie-files accounts'))
+    expect(logger.log).toHaveBeenCalledWith('Re-authenticated 2 time(s) during the batch')
+  })
+
+  it('should record pages and GraphQL responses of every session with --record', async () => {
+    // --sessions and --cookie-files from earlier tests are still set on the command
+    mockBatchScraperInstance.scrapeAll.mockResolvedValueOnce({
+      results: [],
+      errors: [],
+      stats: {},
+    })
+    const helpers = await import('../helpers')
+    const snapshots = { mode: 'record' as const, dir: '/snapshots' }
+    vi.mocked(helpers.getSnapshotOptions).mockReturnValueOnce(snapshots)
+
+    await program.parseAsync(['node', 'lesca', 'scrape-list', '--record', 'x'])
+
+    const { GraphQLClient } = await import('@/api-client/src/index')
+    expect(helpers.getSnapshotOptions).toHaveBeenCalledWith(
+      expect.objectContaining({ record: 'x' })
+    )
+    expect(vi.mocked(helpers.createGraphQLSnapshots).mock.calls).toEqual(
+      vi.mocked(GraphQLClient).mock.calls.map(() => [snapshots])
+    )
+    for (const call of vi.mocked(helpers.createBrowserService).mock.calls) {
+      expect(call[3]).toBe(snapshots)
+    }
+  })
+
+  it('should save the search index once after the batch', async () => {
+    mockBatchScraperInstance.scrapeAll.mockResolvedValueOnce({
+      results: [],
+      errors: [],
+      stats: {},
+    })
+    const helpers = await import('../helpers')
+    const searchIndex = { flush: vi.fn(() => Promise.resolve()) }
+    vi.mocked(helpers.openSearchIndex).mockResolvedValueOnce(searchIndex as never)
+
+    await program.parseAsync(['node', 'lesca', 'scrape-list'])
+
+    expect(searchIndex.flush).toHaveBeenCalledTimes(1)
+  })
+
+  it('should reject a cookie file listed twice', async () => {
+    await expect(
+      program.parseAsync([
+        'node',
+        'lesca',
+        'scrape-list',
+        '--sessions',
+        'alice',
+        '--cookie-files',
+        'a/cookies.json,./a/cookies.json',
+      ])
+    ).rejects.toThrow('Process.exit(1)')
+
+    expect(mockBatchScraperInstance.scrapeAll).not.toHaveBeenCalled()
+  })
+
+  it('should name cookie files by path so same-named files stay apart', async () => {
+    await program.parseAsync([
+      'node',
+      'lesca',
+      'scrape-list',
+      '--sessions',
+      'alice',
+      '--cookie-files',
+      'a/cookies.json,b/cookies.json',
+    ])
+
+    const { BatchScraper } = await import('@/core/src/index')
+    const batchOptions = vi.mocked(BatchScraper).mock.calls[0]?.[1]
+    expect(batchOptions?.sessions?.map((session) => session.name)).toEqual([
+      'alice',
+      'a/cookies.json',
+      'b/cookies.json',
+    ])
+  })
+
+  it('should reject an unknown rotation strategy', async () => {
+    await expect(
+      program.parseAsync(['node', 'lesca', 'scrape-list', '--rotation', 'random'])
+    ).rejects.toThrow('Process.exit(1)')
+  })
 })
@@ -0,0 +1,206 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { Command } from 'commander'
+
+// Mock dependencies
+const mockConfigManagerInstance = {
+  getConfig: vi.fn().mockReturnValue({
+    storage: { path: './output' },
+    output: { format: 'markdown' },
+    processing: { converters: ['html-to-markdown'] },
+    auth: { method: 'cookie', cookiePath: 'cookies.json' },
+    cache: { enabled: true },
+    api: { rateLimit: { minDelay: 100, maxDelay: 200, jitter: 0.1 } },
+  }),
+}
+
+vi.mock('@lesca/shared/config', () => ({
+  ConfigManager: {
+    getInstance: vi.fn(() => mockConfigManagerInstance),
+  },
+}))
+
+vi.mock('@lesca/shared/utils', () => ({
+  logger: {
+    log: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+    success: vi.fn(),
+    box: vi.fn(),
+  },
+  createCache: vi.fn().mockReturnValue({}),
+}))
+
+vi.mock('@/api-client/src/index', () => ({
+  GraphQLClient: vi.fn(),
+  RateLimiter: vi.fn(),
+}))
+
+const mockAuthInstance = {
+  authenticate: vi.fn().mockResolvedValue(undefined),
+  getCredentials: vi.fn().mockReturnValue({ cookies: [] }),
+}
+
+vi.mock('@lesca/auth', () => ({
+  CookieFileAuth: vi.fn(() => mockAuthInstance),
+}))
+
+const mockScraperInstance = {
+  scrape: vi.fn().mockResolvedValue({
+    success: true,
+    filePath: 'users/alice.md',
+    data: { content: '# alice' },
+  }),
+}
+
+vi.mock('@/core/src/index', () => ({
+  LeetCodeScraper: vi.fn(() => mockScraperInstance),
+}))
+
+vi.mock('@lesca/scrapers', () => ({
+  UserScraperStrategy: vi.fn(),
+}))
+
+vi.mock('@lesca/storage', () => {
+  const FileSystemStorage = vi.fn()
+  return {
+    FileSystemStorage,
+    createStorage: vi.fn(
+      (_config: unknown, basePath: string) => new (FileSystemStorage as any)(basePath)
+    ),
+  }
+})
+
+vi.mock('ora', () => ({
+  default: vi.fn(() => ({
+    start: vi.fn().mockReturnThis(),
+    succeed: vi.fn().mockReturnThis(),
+    fail: vi.fn().mockReturnThis(),
+    warn: vi.fn().mockReturnThis(),
+    info: vi.fn().mockReturnThis(),
+  })),
+}))
+
+vi.mock('chalk', () => ({
+  default: {
+    white: (str: string) => str,
+    gray: (str: string) => str,
+    bold: (str: string) => str,
+    cyan: (str: string) => str,
+    green: (str: string) => str,
+    red: (str: string) => str,
+    yellow: (str: string) => str,
+  },
+}))
+
+vi.mock('../helpers', () => ({
+  getCookieEncryption: vi.fn(),
+  getRateLimitManager: vi.fn(),
+}))
+
+vi.mock('../utils', () => ({
+  handleCliError: vi.fn(),
+}))
+
+describe('Scrape User Command', () => {
+  let program: Command
+  let mockExit: ReturnType<typeof vi.spyOn>
+  let logger: typeof import('@lesca/shared/utils').logger
+  let CookieFileAuth: typeof import('@lesca/auth').CookieFileAuth
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    // Commander keeps parsed option values on the command instance
+    vi.resetModules()
+
+    program = new Command()
+    program.exitOverride()
+
+    // Mock process.exit to throw (simulates termination)
+    mockExit = vi.spyOn(process, 'exit').mockImplementation(((code) => {
+      throw new Error(`Process.exit(${code})`)
+    }) as never)
+
+    const utils = await import('@lesca/shared/utils')
+    logger = utils.logger
+
+    const auth = await import('@lesca/auth')
+    CookieFileAuth = auth.CookieFileAuth
+
+    const { scrapeUserCommand } = await import('../commands/scrape-user')
+    program.addCommand(scrapeUserCommand)
+  })
+
+  afterEach(() => {
+    mockExit.mockRestore()
+  })
+
+  it('should scrape a user profile', async () => {
+    await program.parseAsync(['node', 'lesca', 'scrape-user', 'alice'])
+
+    expect(CookieFileAuth).toHaveBeenCalledWith('cookies.json', undefined)
+    expect(mockScraperInstance.scrape).toHaveBeenCalledWith({
+      type: 'user',
+      username: 'alice',
+      recentLimit: 20,
+    })
+  })
+
+  it('should pass the format to the scraper', async () => {
+    const { LeetCodeScraper } = await import('@/core/src/index')
+
+    await program.parseAsync(['node', 'lesca', 'scrape-user', 'alice', '--format', 'obsidian'])
+
+    expect(LeetCodeScraper).toHaveBeenCalledWith(expect.any(Array), expect.anything(), {
+      format: 'obsidian',
+    })
+  })
+
+  it('should honor --recent', async () => {
+    await program.parseAsync(['node', 'lesca', 'scrape-user', 'alice', '--recent', '5'])
+
+    expect(mockScraperInstance.scrape).toHaveBeenCalledWith(
+      expect.objectContaining({ recentLimit: 5 })
+    )
+  })
+
+  it('should reject an invalid --recent value', async () => {
+    const { handleCliError } = await import('../utils')
+
+    await expect(
+      program.parseAsync(['node', 'lesca', 'scrape-user', 'alice', '--recent', 'many'])
+    ).rejects.toThrow('Process.exit(1)')
+
+    expect(handleCliError).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ message: expect.stringContaining('Invalid --recent value') })
+    )
+    expect(mockScraperInstance.scrape).not.toHaveBeenCalled()
+  })
+
+  it('should continue without auth when authentication fails', async () => {
+    mockAuthInstance.authenticate.mockRejectedValueOnce(new Error('Auth failed'))
+
+    await program.parseAsync(['node', 'lesca', 'scrape-user', 'alice'])
+
+    expect(mockScraperInstance.scrape).toHaveBeenCalled()
+  })
+
+  it('should skip authentication with --no-auth', async () => {
+    await program.parseAsync(['node', 'lesca', 'scrape-user', 'alice', '--no-auth'])
+
+    expect(CookieFileAuth).not.toHaveBeenCalled()
+  })
+
+  it('should exit when the scrape fails', async () => {
+    mockScraperInstance.scrape.mockResolvedValueOnce({
+      success: false,
+      error: 'User not found: ghost',
+    })
+
+    await expect(program.parseAsync(['node', 'lesca', 'scrape-user', 'ghost'])).rejects.toThrow(
+      'Process.exit(1)'
+    )
+
+    expect(logger.error).toHaveBeenCalledWith(expect.anything(), 'User not found: ghost')
+  })
+})
@@ -0,0 +1,181 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { Command } from 'commander'
+
+// Mock dependencies
+const mockConfig = {
+  browser: { headless: true, timeout: 30000, selectors: { snapshotDir: '' } },
+}
+
+vi.mock('@lesca/shared/config', () => ({
+  ConfigManager: {
+    getInstance: vi.fn(() => ({ getConfig: () => mockConfig })),
+  },
+  getDefaultPaths: vi.fn(() => ({ lescaDir: '/home/user/.lesca' })),
+}))
+
+vi.mock('@lesca/shared/utils', () => ({
+  logger: {
+    log: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+    success: vi.fn(),
+    warn: vi.fn(),
+  },
+}))
+
+vi.mock('@lesca/browser-automation', () => ({
+  runSelectorCheck: vi.fn(),
+}))
+
+vi.mock('ora', () => ({
+  default: vi.fn(() => ({
+    start: vi.fn().mockReturnThis(),
+    stop: vi.fn().mockReturnThis(),
+    fail: vi.fn().mockReturnThis(),
+  })),
+}))
+
+vi.mock('chalk', () => ({
+  default: {
+    bold: (str: string) => str,
+    gray: (str: string) => str,
+    green: (str: string) => str,
+    red: (str: string) => str,
+    yellow: (str: string) => str,
+  },
+}))
+
+vi.mock('../helpers', () => ({
+  createSelectorManager: vi.fn().mockResolvedValue({ selectors: true }),
+  getStealthOptions: vi.fn((_config: unknown, enabled: boolean) => ({ enabled })),
+}))
+
+vi.mock('../utils', () => ({
+  handleCliError: vi.fn(),
+}))
+
+describe('Selectors Command', () => {
+  let program: Command
+  let mockExit: ReturnType<typeof vi.spyOn>
+  let logger: typeof import('@lesca/shared/utils').logger
+  let runSelectorCheck: ReturnType<typeof vi.fn>
+  let snapshotDir: string
+
+  const healthy = [
+    { path: 'problem.title', status: 'ok', matches: [], missingIn: [], invalid: [] },
+    {
+      path: 'problem.difficulty',
+      status: 'degraded',
+      matches: [{ selector: 'div.text-difficulty', position: 1, snapshots: ['problem.html'] }],
+      missingIn: [],
+      invalid: [],
+    },
+  ]
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    vi.resetModules()
+
+    snapshotDir = await mkdtemp(join(tmpdir(), 'lesca-snapshots-'))
+    await mkdir(join(snapshotDir, 'editorial'))
+    await writeFile(join(snapshotDir, 'problem-two-sum.html'), '<h1>Two Sum</h1>')
+    await writeFile(join(snapshotDir, 'editorial', 'two-sum.html'), '<article></article>')
+    await writeFile(join(snapshotDir, 'notes.txt'), 'ignored')
+    mockConfig.browser.selectors.snapshotDir = snapshotDir
+
+    program = new Command()
+    program.exitOverride()
+
+    mockExit = vi.spyOn(process, 'exit').mockImplementation(((code: number) => {
+      throw new Error(`Process.exit(${code})`)
+    }) as never)
+
+    logger = (await import('@lesca/shared/utils')).logger
+    runSelectorCheck = vi.mocked((await import('@lesca/browser-automation')).runSelectorCheck)
+
+    const { selectorsCommand } = await import('../commands/selectors')
+    program.addCommand(selectorsCommand)
+  })
+
+  afterEach(async () => {
+    mockExit.mockRestore()
+    await rm(snapshotDir, { recursive: true, force: true })
+  })
+
+  it('should check the HTML snapshots of the configured directory', async () => {
+    runSelectorCheck.mockResolvedValue(healthy)
+
+    await program.parseAsync(['node', 'lesca', 'selectors', 'check'])
+
+    expect(runSelectorCheck).toHaveBeenCalledWith(
+      { selectors: true },
+      [
+        { name: join('editorial', 'two-sum.html'), html: '<article></article>' },
+        { name: 'problem-two-sum.html', html: '<h1>Two Sum</h1>' },
+      ],
+      {
+        headless: true,
+        timeout: 30000,
+        stealth: { enabled: false },
+        sections: ['problem', 'editorial', 'discussion'],
+      }
+    )
+    expect(logger.log).toHaveBeenCalledWith(
+      expect.stringContaining('fallback 1: div.text-difficulty')
+    )
+    expect(logger.warn).toHaveBeenCalledWith('1 selector groups only match through fallbacks')
+  })
+
+  it('should exit with an error when groups are broken', async () => {
+    runSelectorCheck.mockResolvedValue([
+      ...healthy,
+      {
+        path: 'problem.tags',
+        status: 'broken',
+        matches: [],
+        missingIn: ['problem-two-sum.html'],
+        invalid: [],
+      },
+    ])
+
+    await expect(
+      program.parseAsync(['node', 'lesca', 'selectors', 'check', snapshotDir, '-s', 'problem'])
+    ).rejects.toThrow('Process.exit(1)')
+
+    expect(runSelectorCheck).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.any(Array),
+      expect.objectContaining({ sections: ['problem'] })
+    )
+    expect(logger.log).toHaveBeenCalledWith(
+      expect.stringContaining('no match in problem-two-sum.html')
+    )
+    expect(logger.warn).toHaveBeenCalledWith('1 of 3 selector groups are broken')
+  })
+
+  it('should reject unknown sections', async () => {
+    const { handleCliError } = await import('../utils')
+
+    await expect(
+      program.parseAsync(['node', 'lesca', 'selectors', 'check', '--section', 'sidebar'])
+    ).rejects.toThrow('Process.exit(1)')
+
+    expect(runSelectorCheck).not.toHaveBeenCalled()
+    expect(handleCliError).toHaveBeenCalledWith(
+      'Failed to check selectors',
+      expect.objectContaining({ message: expect.stringContaining('Invalid section: sidebar') })
+    )
+  })
+
+  it('should fail without snapshots', async () => {
+    await expect(
+      program.parseAsync(['node', 'lesca', 'selectors', 'check', join(snapshotDir, 'missing')])
+    ).rejects.toThrow('Process.exit(1)')
+
+    expect(logger.error).toHaveBeenCalledWith(expect.stringContaining('No HTML snapshots found'))
+    expect(runSelectorCheck).not.toHaveBeenCalled()
+  })
+})
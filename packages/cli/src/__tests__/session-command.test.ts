@@ -18,6 +18,13 @@ const mockMetricsCollectorInstance = {
   off: vi.fn(),
 }
 
+// Mock the rate limit state saved by the last run
+const mockLoadRateLimitStates = vi.fn()
+
+vi.mock('../rate-limit-state', () => ({
+  loadRateLimitStates: mockLoadRateLimitStates,
+}))
+
 vi.mock('@lesca/browser-automation', () => ({
   SessionManager: vi.fn(() => mockSessionManagerInstance),
   MetricsCollector: vi.fn(() => mockMetricsCollectorInstance),
@@ -54,6 +61,7 @@ describe('Session Command', () => {
     mockMetricsCollectorInstance.reset.mockReset()
     mockMetricsCollectorInstance.on.mockReset()
     mockMetricsCollectorInstance.off.mockReset()
+    mockLoadRateLimitStates.mockReset().mockReturnValue(undefined)
 
     // Create fresh program
     program = new Command()
@@ -359,6 +367,48 @@ describe('Session Command', () => {
       expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('"totalSessions": 1'))
       consoleSpy.mockRestore()
     })
+
+    it('should display the rate limit state saved by the last run', async () => {
+      const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {})
+      mockMetricsCollectorInstance.getSummary.mockReturnValue({
+        totalSessions: 0,
+        sessions: [],
+        totalActiveBrowsers: 0,
+        totalIdleBrowsers: 0,
+        globalAcquisitionsPerMinute: 0,
+        globalFailureRate: 0,
+        circuitsOpen: 0,
+        circuitsHalfOpen: 0,
+      })
+      const state = {
+        endpoint: '/graphql',
+        hitCount: 12,
+        lastHitTime: Date.now(),
+        isRateLimited: true,
+        rateLimitedUntil: undefined,
+        retryAfterMs: undefined,
+        consecutiveFailures: 2,
+      }
+      mockLoadRateLimitStates.mockReturnValue({
+        savedAt: Date.now(),
+        endpoints: [state, { ...state, isRateLimited: false, session: 'alice' }],
+      })
+
+      await program.parseAsync(['node', 'lesca', 'session', 'stats'])
+
+      expect(logger.info).toHaveBeenCalledWith(expect.stringContaining('RATE LIMITS'))
+      expect(logger.info).toHaveBeenCalledWith(
+        expect.stringContaining('/graphql: limited (12 requests, 2 consecutive failures)')
+      )
+      expect(logger.info).toHaveBeenCalledWith(
+        expect.stringContaining('[alice] /graphql: ok (12 requests')
+      )
+
+      await program.parseAsync(['node', 'lesca', 'session', 'stats', '--json'])
+
+      expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('"endpoint": "/graphql"'))
+      consoleSpy.mockRestore()
+    })
   })
 
   describe('stats-reset subcommand', () => {
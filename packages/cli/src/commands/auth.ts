@@ -1,8 +1,18 @@
-import { existsSync } from 'fs'
+import { existsSync, readFileSync } from 'fs'
 import { resolve } from 'path'
 
-import { CookieFileAuth } from '@lesca/auth'
-import { ConfigManager } from '@lesca/shared/config'
+import { CookieFileAuth, importBrowserCookies } from '@lesca/auth'
+import type { CookieSourceBrowser } from '@lesca/auth'
+import {
+  AuthHelper,
+  CookieManager,
+  PlaywrightDriver,
+  SessionManager,
+} from '@lesca/browser-automation'
+import { AuthError } from '@lesca/error'
+import { ConfigManager, getDefaultPaths } from '@lesca/shared/config'
+import type { Config } from '@lesca/shared/config'
+import type { Cookie, UserStatus } from '@lesca/shared/types'
 import { logger } from '@lesca/shared/utils'
 import chalk from 'chalk'
 import { Command } from 'commander'
@@ -11,6 +21,14 @@ import { Command } from 'commander'
 import inquirer from 'inquirer'
 import ora from 'ora'
 
+import { GraphQLClient } from '@/api-client/src/index'
+
+import {
+  getCookieEncryption,
+  getRateLimitManager,
+  getStealthOptions,
+  parseNumber,
+} from '../helpers'
 import { handleCliError } from '../utils'
 
 interface AuthAnswers {
@@ -18,6 +36,19 @@ interface AuthAnswers {
   cookiePath?: string
 }
 
+interface AuthOptions {
+  cookies?: string
+  browser?: boolean
+  session?: string
+  timeout: string
+}
+
+interface ImportOptions {
+  from?: string
+  profile?: string
+  output?: string
+}
+
 interface InquirerModule {
   prompt<T = unknown>(questions: unknown[]): Promise<T>
 }
@@ -25,8 +56,36 @@ interface InquirerModule {
 export const authCommand = new Command('auth')
   .description('Authenticate with LeetCode')
   .option('-c, --cookies <file>', 'Cookie file path')
-  .option('--browser', 'Use browser-based login (not implemented yet)')
-  .action(async (options: { cookies?: string; browser?: boolean }) => {
+  .option('--browser', 'Log in through a browser window (supports OAuth and 2FA)')
+  .option('-s, --session <name>', 'Save the browser login as a named session instead')
+  .option('--timeout <seconds>', 'How long to wait for the browser login', '300')
+  .addCommand(
+    new Command('import')
+      .description('Import LeetCode cookies from a local Chrome or Firefox profile (Linux)')
+      .option('--from <browser>', 'Browser to import from (chrome, firefox)')
+      .option('-p, --profile <dir>', 'Browser profile directory (default: default profile)')
+      .option('-o, --output <file>', 'Cookie file to write (default: auth.cookiePath)')
+      .action(async (options: ImportOptions) => {
+        try {
+          if (options.from !== 'chrome' && options.from !== 'firefox') {
+            logger.error(chalk.red('--from must be chrome or firefox'))
+            process.exit(1)
+          }
+
+          const configManager = ConfigManager.getInstance()
+          const config = configManager.getConfig()
+          await importCookies(configManager, config, {
+            browser: options.from,
+            cookiePath: options.output || config.auth.cookiePath || getDefaultPaths().cookieFile,
+            ...(options.profile ? { profile: options.profile } : {}),
+          })
+        } catch (error) {
+          handleCliError('Cookie import failed', error)
+          process.exit(1)
+        }
+      })
+  )
+  .action(async (options: AuthOptions) => {
     try {
       const configManager = ConfigManager.getInstance()
       const config = configManager.getConfig()
@@ -47,11 +106,7 @@ export const authCommand = new Command('auth')
             message: 'How would you like to authenticate?',
             choices: [
               { name: 'Use existing cookies.json file', value: 'cookie' },
-              {
-                name: 'Login via Browser (Coming Soon)',
-                value: 'browser',
-                disabled: 'Not implemented yet',
-              },
+              { name: 'Login via Browser', value: 'browser' },
             ],
             default: 'cookie',
           },
@@ -84,40 +139,172 @@ export const authCommand = new Command('auth')
           logger.error(chalk.red(`Cookie file not found: ${cookiePath}`))
           logger.log(chalk.yellow('Please export your LeetCode cookies to a JSON file first.'))
           logger.log('You can use the "EditThisCookie" extension to export cookies as JSON.')
+          logger.log(`Or run ${chalk.cyan('lesca auth --browser')} to log in through a browser.`)
           process.exit(1)
         }
 
         const spinner = ora('Verifying credentials...').start()
 
         try {
-          const auth = new CookieFileAuth(cookiePath)
+          const encryption = await getCookieEncryption(config)
+          const auth = new CookieFileAuth(cookiePath, encryption)
           await auth.authenticate()
 
           spinner.succeed(chalk.green(`Successfully authenticated`))
 
-          // Update config if path changed
-          if (cookiePath !== config.auth.cookiePath) {
-            configManager.update({
-              auth: {
-                ...config.auth,
-                cookiePath: cookiePath,
-              },
-            })
-            const paths = configManager.getPaths()
-            if (paths.config) {
-              configManager.save(paths.config)
-              logger.log(chalk.gray(`Updated configuration with new cookie path.`))
-            }
+          // Encrypt plaintext exports in place
+          if (encryption && !encryption.isEncrypted(readFileSync(cookiePath, 'utf-8'))) {
+            await auth.save(cookiePath)
+            logger.log(chalk.gray(`Encrypted cookie file: ${cookiePath}`))
           }
+
+          rememberCookiePath(configManager, config, cookiePath)
         } catch (error) {
           spinner.fail('Authentication failed')
           throw error
         }
       } else {
-        logger.warn('Browser login is not yet implemented.')
+        await loginWithBrowser(configManager, config, {
+          cookiePath: options.cookies || config.auth.cookiePath || getDefaultPaths().cookieFile,
+          ...(options.session ? { sessionName: options.session } : {}),
+          timeoutMs: parseNumber(options.timeout, 'timeout', 1) * 1000,
+        })
       }
     } catch (error) {
       handleCliError('Authentication failed', error)
       process.exit(1)
     }
   })
+
+/**
+ * Update the configured cookie path if it changed
+ */
+function rememberCookiePath(configManager: ConfigManager, config: Config, cookiePath: string) {
+  if (cookiePath === config.auth.cookiePath) {
+    return
+  }
+
+  configManager.update({
+    auth: {
+      ...config.auth,
+      cookiePath: cookiePath,
+    },
+  })
+  const paths = configManager.getPaths()
+  if (paths.config) {
+    configManager.save(paths.config)
+    logger.log(chalk.gray(`Updated configuration with new cookie path.`))
+  }
+}
+
+/**
+ * Open a headed browser, wait for a manual login, verify the cookies and store them
+ */
+async function loginWithBrowser(
+  configManager: ConfigManager,
+  config: Config,
+  target: { cookiePath: string; sessionName?: string; timeoutMs: number }
+): Promise<void> {
+  const spinner = ora('Launching browser...').start()
+  const driver = new PlaywrightDriver()
+
+  try {
+    const cookieManager = new CookieManager(await getCookieEncryption(config))
+    const authHelper = new AuthHelper(driver, { cookieManager })
+
+    await driver.launch({
+      headless: false,
+      timeout: config.browser.timeout,
+      stealth: getStealthOptions(config),
+    })
+
+    spinner.text = 'Waiting for you to log in in the browser window...'
+    const result = await authHelper.waitForManualLogin(target.timeoutMs)
+    if (!result.success) {
+      throw new AuthError('AUTH_INVALID_CREDENTIALS', result.message || 'Browser login failed')
+    }
+
+    const cookies = result.cookies ?? []
+    const validation = cookieManager.validateCookies(cookies)
+    if (!validation.valid) {
+      throw new AuthError(
+        'AUTH_INVALID_CREDENTIALS',
+        `Login cookies are incomplete: ${validation.warnings.join(', ')}`
+      )
+    }
+
+    spinner.text = 'Verifying cookies with LeetCode...'
+    const status = await verifyCookies(cookies, 'LeetCode did not accept the login cookies')
+
+    const page = driver.getPage()
+    if (target.sessionName && page) {
+      await new SessionManager().createSession(target.sessionName, page.context(), {
+        description: 'Browser login via lesca auth',
+      })
+      spinner.succeed(chalk.green(`Logged in as ${status.username ?? 'unknown user'}`))
+      logger.log(chalk.green(`✓ Session saved: ${target.sessionName}`))
+    } else {
+      await cookieManager.saveCookies(driver, target.cookiePath)
+      spinner.succeed(chalk.green(`Logged in as ${status.username ?? 'unknown user'}`))
+      logger.log(chalk.green(`✓ Cookies saved to: ${target.cookiePath}`))
+      rememberCookiePath(configManager, config, target.cookiePath)
+    }
+  } catch (error) {
+    spinner.fail('Browser login failed')
+    throw error
+  } finally {
+    await driver.close()
+  }
+}
+
+/**
+ * Read cookies from a browser profile, verify them and save them as the cookie file
+ */
+async function importCookies(
+  configManager: ConfigManager,
+  config: Config,
+  source: { browser: CookieSourceBrowser; profile?: string; cookiePath: string }
+): Promise<void> {
+  const spinner = ora(`Reading cookies from ${source.browser}...`).start()
+
+  try {
+    const cookies = await importBrowserCookies({
+      browser: source.browser,
+      ...(source.profile ? { profile: source.profile } : {}),
+    })
+
+    spinner.text = 'Verifying cookies with LeetCode...'
+    const status = await verifyCookies(
+      cookies,
+      `LeetCode did not accept the ${source.browser} cookies. Log in to leetcode.com in ${source.browser} first.`
+    )
+
+    const auth = CookieFileAuth.fromCookies(cookies, undefined, await getCookieEncryption(config))
+    await auth.save(source.cookiePath)
+    spinner.succeed(chalk.green(`Logged in as ${status.username ?? 'unknown user'}`))
+    logger.log(chalk.green(`✓ Imported ${cookies.length} cookies to: ${source.cookiePath}`))
+    rememberCookiePath(configManager, config, source.cookiePath)
+  } catch (error) {
+    spinner.fail('Cookie import failed')
+    throw error
+  }
+}
+
+/**
+ * Check that LeetCode signs in with the cookies
+ * @throws {AuthError} AUTH_INVALID_CREDENTIALS - If LeetCode reports the user as signed out
+ */
+async function verifyCookies(cookies: Cookie[], rejectedMessage: string): Promise<UserStatus> {
+  const client = new GraphQLClient({
+    auth: {
+      cookies,
+      csrfToken: cookies.find((cookie) => cookie.name === 'csrftoken')?.value ?? '',
+    },
+    rateLimitManager: getRateLimitManager(),
+  })
+  const status = await client.getUserStatus()
+  if (!status.isSignedIn) {
+    throw new AuthError('AUTH_INVALID_CREDENTIALS', rejectedMessage)
+  }
+  return status
+}
@@ -0,0 +1,63 @@
+import { runStealthCheck, type FingerprintCheck } from '@lesca/browser-automation'
+import { ConfigManager } from '@lesca/shared/config'
+import { logger } from '@lesca/shared/utils'
+import chalk from 'chalk'
+import { Command } from 'commander'
+import ora from 'ora'
+
+import { getStealthOptions } from '../helpers'
+import { handleCliError } from '../utils'
+
+interface DoctorStealthOptions {
+  stealth: boolean
+  headless: boolean
+  json?: boolean
+}
+
+export const doctorCommand = new Command('doctor').description('Check the local Lesca setup')
+
+doctorCommand
+  .command('stealth')
+  .description('Load a local test page and report which browser fingerprints leak')
+  .option('--no-stealth', 'Run the check without stealth evasions, for comparison')
+  .option('--no-headless', 'Run browser in visible mode')
+  .option('--json', 'Output in JSON format')
+  .action(async (options: DoctorStealthOptions) => {
+    const spinner = ora('Checking browser fingerprints...').start()
+
+    let checks: FingerprintCheck[]
+    try {
+      const configManager = ConfigManager.getInstance()
+      const config = configManager.getConfig()
+
+      checks = await runStealthCheck({
+        headless: options.headless && config.browser.headless,
+        timeout: config.browser.timeout,
+        stealth: getStealthOptions(config, options.stealth),
+      })
+      spinner.stop()
+    } catch (error) {
+      spinner.fail('Stealth check failed')
+      handleCliError('Failed to run the stealth check', error)
+      process.exit(1)
+    }
+
+    if (options.json) {
+      // eslint-disable-next-line no-console -- JSON output for machine consumption
+      console.log(JSON.stringify(checks, null, 2))
+    } else {
+      logger.log(chalk.bold(`Stealth check (stealth ${options.stealth ? 'on' : 'off'})`))
+      for (const check of checks) {
+        const mark = check.leaked ? chalk.red('✗') : chalk.green('✓')
+        logger.log(`${mark} ${check.name.padEnd(20)} ${chalk.gray(check.detail)}`)
+      }
+      logger.log()
+    }
+
+    const leaks = checks.filter((check) => check.leaked)
+    if (leaks.length > 0) {
+      logger.warn(`${leaks.length} of ${checks.length} fingerprints leak`)
+      process.exit(1)
+    }
+    logger.success('No fingerprints leak')
+  })
@@ -0,0 +1,145 @@
+import { mkdir, writeFile } from 'fs/promises'
+import { dirname, join, resolve } from 'path'
+
+import { ConfigManager } from '@lesca/shared/config'
+import { logger } from '@lesca/shared/utils'
+import { createStorage } from '@lesca/storage'
+import chalk from 'chalk'
+import { Command } from 'commander'
+import ora from 'ora'
+
+import { AnkiDeckBuilder, SiteBuilder, writeApkg } from '@/core/src/index'
+
+import { handleCliError } from '../utils'
+
+interface AnkiOptions {
+  file: string
+  deck: string
+  output?: string
+}
+
+interface SiteCommandOptions {
+  dir: string
+  title?: string
+  output?: string
+}
+
+export const exportCommand = new Command('export')
+  .description(chalk.white('Export scraped problems to other study tools'))
+  .addCommand(
+    new Command('anki')
+      .description('Build an Anki deck (.apkg) from scraped problems, hints and editorials')
+      .option('--file <path>', 'Anki package to write', 'leetcode.apkg')
+      .option('--deck <name>', 'Deck the cards are imported into', 'LeetCode')
+      .option('-o, --output <dir>', 'Notes directory (default: from config)')
+      .addHelpText(
+        'after',
+        `
+${chalk.bold('Examples:')}
+  ${chalk.gray('# Write leetcode.apkg, then open it with Anki (File > Import)')}
+  $ lesca export anki
+
+  ${chalk.gray('# Import into a sub-deck')}
+  $ lesca export anki ${chalk.cyan('--deck "LeetCode::Blind 75" --file blind75.apkg')}
+
+${chalk.bold('Tips:')}
+  ${chalk.gray('•')} Problems need a scraped editorial for their card; hints get cards of their own
+  ${chalk.gray('•')} Export again after scraping more: Anki updates the cards and keeps their reviews
+  ${chalk.gray('•')} Enable image downloads in the config to embed images in the cards
+`
+      )
+      .action(async (options: AnkiOptions) => {
+        const spinner = ora('Reading scraped problems...').start()
+
+        try {
+          const config = ConfigManager.getInstance().getConfig()
+          const storage = createStorage(config.storage, options.output)
+          const deck = await new AnkiDeckBuilder(storage, { deckName: options.deck }).build(
+            (done, total) => {
+              spinner.text = `Reading scraped problems... (${done}/${total})`
+            }
+          )
+          if (deck.notes.length === 0) {
+            spinner.warn(
+              deck.skipped > 0
+                ? `No cards to export: scrape the editorials of ${deck.skipped} problems first`
+                : 'No scraped problems found'
+            )
+            return
+          }
+
+          const filePath = resolve(options.file)
+          await writeFile(filePath, writeApkg(deck))
+          spinner.succeed(
+            `Exported ${deck.problems} problem cards and ${deck.hints} hint cards to ${filePath}`
+          )
+          if (deck.skipped > 0) {
+            logger.log(
+              chalk.gray(
+                `${deck.skipped} problems without a scraped editorial have no problem card`
+              )
+            )
+          }
+        } catch (error) {
+          spinner.fail('Failed to export the Anki deck')
+          handleCliError('Failed to export the Anki deck', error)
+          process.exit(1)
+        }
+      })
+  )
+  .addCommand(
+    new Command('site')
+      .description('Render scraped problems, editorials and discussions as a static HTML site')
+      .option('--dir <path>', 'Directory to write the site to', 'site')
+      .option('--title <name>', 'Site name (default: LeetCode Notes)')
+      .option('-o, --output <dir>', 'Notes directory (default: from config)')
+      .addHelpText(
+        'after',
+        `
+${chalk.bold('Examples:')}
+  ${chalk.gray('# Write ./site, then open site/index.html in a browser')}
+  $ lesca export site
+
+  ${chalk.gray('# Publish the notes of a team directory')}
+  $ lesca export site ${chalk.cyan('-o ./team-notes --dir public --title "Team LeetCode"')}
+
+${chalk.bold('Tips:')}
+  ${chalk.gray('•')} The pages work from disk; any static host (e.g. GitHub Pages) can serve them
+  ${chalk.gray('•')} Code highlighting and math load from a CDN and need a connection
+  ${chalk.gray('•')} Export again after scraping more; existing pages are overwritten
+`
+      )
+      .action(async (options: SiteCommandOptions) => {
+        const spinner = ora('Reading scraped notes...').start()
+
+        try {
+          const config = ConfigManager.getInstance().getConfig()
+          const storage = createStorage(config.storage, options.output)
+          const site = await new SiteBuilder(storage, {
+            ...(options.title ? { title: options.title } : {}),
+          }).build((done, total) => {
+            spinner.text = `Reading scraped notes... (${done}/${total})`
+          })
+          if (site.problems === 0) {
+            spinner.warn('No scraped problems found')
+            return
+          }
+
+          const dir = resolve(options.dir)
+          spinner.text = `Writing ${site.files.length} files...`
+          for (const file of site.files) {
+            const filePath = join(dir, file.path)
+            await mkdir(dirname(filePath), { recursive: true })
+            await writeFile(filePath, file.content)
+          }
+          spinner.succeed(
+            `Exported ${site.problems} problems, ${site.editorials} editorials and ${site.discussions} discussions to ${dir}`
+          )
+          logger.log(chalk.gray(`Open ${join(dir, 'index.html')} in a browser`))
+        } catch (error) {
+          spinner.fail('Failed to export the site')
+          handleCliError('Failed to export the site', error)
+          process.exit(1)
+        }
+      })
+  )
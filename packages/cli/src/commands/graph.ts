@@ -0,0 +1,151 @@
+import { writeFile } from 'fs/promises'
+import { resolve } from 'path'
+
+import { ValidationError } from '@lesca/error'
+import { ConfigManager } from '@lesca/shared/config'
+import { logger } from '@lesca/shared/utils'
+import { createStorage } from '@lesca/storage'
+import chalk from 'chalk'
+import { Command } from 'commander'
+import ora from 'ora'
+
+import {
+  createMocNotes,
+  formatProblemGraph,
+  ProblemGraphBuilder,
+  PROBLEM_EDGE_TYPES,
+  PROBLEM_GRAPH_FORMATS,
+  type ProblemEdgeType,
+  type ProblemGraphFormat,
+} from '@/core/src/index'
+
+import { parseNumber } from '../helpers'
+import { handleCliError } from '../utils'
+
+interface GraphOptions {
+  format: string
+  file?: string
+  edges: string
+  minSharedTags: string
+  minSharedCompanies: string
+  moc?: boolean
+  mocFolder: string
+  output?: string
+}
+
+export const graphCommand = new Command('graph')
+  .description(chalk.white('Build a graph of scraped problems and map of content notes'))
+  .option('-f, --format <format>', 'Graph format: graphml, dot or json', 'json')
+  .option('--file <path>', 'Write the graph to a file instead of stdout')
+  .option(
+    '--edges <types>',
+    'Comma-separated edge types: similar, tag, company',
+    'similar,tag,company'
+  )
+  .option('--min-shared-tags <number>', 'Shared tags needed for a tag edge', '2')
+  .option('--min-shared-companies <number>', 'Shared companies needed for a company edge', '2')
+  .option('--moc', 'Write a map of content note per tag and per company')
+  .option(
+    '--moc-folder <dir>',
+    'Folder of the map of content notes, inside the notes directory',
+    'moc'
+  )
+  .option('-o, --output <dir>', 'Notes directory (default: from config)')
+  .addHelpText(
+    'after',
+    `
+${chalk.bold('Examples:')}
+  ${chalk.gray('# Open the graph in Gephi, yEd or Cytoscape')}
+  $ lesca graph ${chalk.cyan('-f graphml --file problems.graphml')}
+
+  ${chalk.gray('# Render similar questions with Graphviz')}
+  $ lesca graph ${chalk.cyan('-f dot --edges similar')} | dot -Tsvg > similar.svg
+
+  ${chalk.gray('# Add tag and company notes to an Obsidian vault')}
+  $ lesca graph ${chalk.cyan('--moc --file graph.json')}
+
+${chalk.bold('Tips:')}
+  ${chalk.gray('•')} Clusters group problems linked by similar questions; study a cluster in one go
+  ${chalk.gray('•')} Similar questions are read from JSON and Obsidian notes only
+
+${chalk.bold('See also:')}
+  ${chalk.cyan('lesca scrape-list')}     Scrape the problems to graph
+  ${chalk.cyan('lesca search')}          Search scraped notes with --local
+  `
+  )
+  .action(async (options: GraphOptions) => {
+    const spinner = ora('Reading scraped problems...').start()
+
+    try {
+      const config = ConfigManager.getInstance().getConfig()
+      const format = parseFormat(options.format)
+      const edges = parseEdgeTypes(options.edges)
+      const minSharedTags = parseNumber(options.minSharedTags, 'min-shared-tags', 1)
+      const minSharedCompanies = parseNumber(options.minSharedCompanies, 'min-shared-companies', 1)
+
+      const storage = createStorage(config.storage, options.output)
+      const graph = await new ProblemGraphBuilder(storage, {
+        edges,
+        minSharedTags,
+        minSharedCompanies,
+      }).build((done, total) => {
+        spinner.text = `Reading scraped problems... (${done}/${total})`
+      })
+      if (graph.nodes.length === 0) {
+        spinner.warn('No scraped problems found')
+        return
+      }
+
+      const clusters = new Set(graph.nodes.map((node) => node.cluster)).size
+      spinner.succeed(
+        `Built a graph of ${graph.nodes.length} problems, ${graph.edges.length} edges and ${clusters} clusters`
+      )
+
+      if (options.moc) {
+        const notes = createMocNotes(graph, { folder: options.mocFolder })
+        for (const note of notes) {
+          await storage.save(note.key, note.content)
+        }
+        logger.success(`Wrote ${notes.length} map of content notes to ${options.mocFolder}/`)
+      }
+
+      const content = formatProblemGraph(graph, format)
+      if (options.file) {
+        const filePath = resolve(options.file)
+        await writeFile(filePath, content, 'utf-8')
+        logger.success(`Graph written to ${filePath}`)
+      } else if (!options.moc) {
+        logger.log(content.trimEnd())
+      }
+    } catch (error) {
+      spinner.fail('Failed to build the problem graph')
+      handleCliError('Failed to build the problem graph', error)
+      process.exit(1)
+    }
+  })
+
+function parseFormat(value: string): ProblemGraphFormat {
+  const format = value.toLowerCase() as ProblemGraphFormat
+  if (!PROBLEM_GRAPH_FORMATS.includes(format)) {
+    throw new ValidationError(
+      'VAL_INVALID_INPUT',
+      `Invalid format: ${value}. Must be ${PROBLEM_GRAPH_FORMATS.join(', ')}.`
+    )
+  }
+  return format
+}
+
+function parseEdgeTypes(value: string): ProblemEdgeType[] {
+  const types = value
+    .split(',')
+    .map((type) => type.trim().toLowerCase())
+    .filter(Boolean)
+  const invalid = types.filter((type) => !PROBLEM_EDGE_TYPES.includes(type as ProblemEdgeType))
+  if (invalid.length > 0) {
+    throw new ValidationError(
+      'VAL_INVALID_INPUT',
+      `Invalid edge type: ${invalid.join(', ')}. Must be ${PROBLEM_EDGE_TYPES.join(', ')}.`
+    )
+  }
+  return types as ProblemEdgeType[]
+}
@@ -1,4 +1,5 @@
 import { CookieFileAuth } from '@lesca/auth'
+import { CsvConverter } from '@lesca/converters'
 import { ScrapingError } from '@lesca/error'
 import { ListScraperStrategy } from '@lesca/scrapers'
 import { ConfigManager } from '@lesca/shared/config'
@@ -10,6 +11,7 @@ import ora from 'ora'
 
 import { GraphQLClient, RateLimiter } from '@/api-client/src/index'
 
+import { getCookieEncryption, getRateLimitManager } from '../helpers'
 import { InteractiveSelector } from '../interactive-select'
 import { handleCliError } from '../utils'
 
@@ -23,6 +25,7 @@ interface ListOptions {
   cookies: string
   auth: boolean
   json: boolean
+  csv: boolean
   interactive: boolean
 }
 
@@ -38,6 +41,7 @@ export const listCommand = new Command('list')
   .option('-c, --cookies <file>', 'Cookie file path (default: from config)')
   .option('--no-auth', 'Skip authentication (public problems only)')
   .option('--json', 'Output as JSON')
+  .option('--csv', 'Output as CSV (for spreadsheets)')
   .option('-i, --interactive', 'Interactive problem selection')
   .addHelpText(
     'after',
@@ -60,6 +64,9 @@ ${chalk.bold('Examples:')}
   ${chalk.gray('# Output as JSON for scripting')}
   $ lesca list ${chalk.cyan('--json')} > problems.json
 
+  ${chalk.gray('# Export as CSV for spreadsheets')}
+  $ lesca list ${chalk.cyan('--csv')} > problems.csv
+
 ${chalk.bold('Tips:')}
   ${chalk.gray('•')} Combine filters: ${chalk.cyan('lesca list -d Easy -t array -l 20')}
   ${chalk.gray('•')} Premium problems show a ${chalk.yellow('Premium')} badge
@@ -84,7 +91,7 @@ ${chalk.bold('See also:')}
       let auth
       if (options.auth !== false && config.auth.method !== 'none') {
         try {
-          auth = new CookieFileAuth(cookiePath)
+          auth = new CookieFileAuth(cookiePath, await getCookieEncryption(config))
           await auth.authenticate()
           spinner.succeed('Authentication loaded')
         } catch (error) {
@@ -102,7 +109,12 @@ ${chalk.bold('See also:')}
         config.api.rateLimit.maxDelay,
         config.api.rateLimit.jitter
       )
-      const graphqlClient = new GraphQLClient(auth?.getCredentials(), rateLimiter, cache)
+      const graphqlClient = new GraphQLClient({
+        auth: auth?.getCredentials(),
+        rateLimiter,
+        cache,
+        rateLimitManager: getRateLimitManager(),
+      })
 
       // 3. Fetch problem list
       spinner.start('Fetching problem list...')
@@ -169,6 +181,12 @@ ${chalk.bold('See also:')}
         return
       }
 
+      if (options.csv) {
+        const csv = await new CsvConverter().convert(listResult.data)
+        logger.log(csv.trimEnd())
+        return
+      }
+
       // Interactive mode: allow user to select problems
       if (options.interactive) {
         const selectedSlugs = await InteractiveSelector.selectProblems(problems, {
@@ -5,6 +5,7 @@ import chalk from 'chalk'
 import { Command } from 'commander'
 import ora from 'ora'
 
+import { getCookieEncryption, getStealthOptions } from '../helpers'
 import { handleCliError } from '../utils'
 
 interface LoginOptions {
@@ -13,6 +14,7 @@ interface LoginOptions {
   cookiePath?: string
   headless?: boolean
   manual?: boolean
+  stealth?: boolean
 }
 
 export const loginCommand = new Command('login')
@@ -23,6 +25,8 @@ export const loginCommand = new Command('login')
   .option('-c, --cookie-path <path>', 'Path to save cookies (overrides config)')
   .option('--no-headless', 'Run browser in visible mode (useful for CAPTCHA)')
   .option('--manual', 'Wait for manual login (for CAPTCHA/2FA scenarios)')
+  .option('--stealth', 'Mask browser automation fingerprints (overrides config)')
+  .option('--no-stealth', 'Disable stealth mode')
   .action(async (options: LoginOptions) => {
     const spinner = ora('Initializing login...').start()
 
@@ -42,13 +46,14 @@ export const loginCommand = new Command('login')
 
       // Initialize browser driver
       driver = new PlaywrightDriver()
-      const cookieManager = new CookieManager()
+      const cookieManager = new CookieManager(await getCookieEncryption(config))
       const authHelper = new AuthHelper(driver, { cookieManager })
 
       spinner.text = 'Launching browser...'
       await driver.launch({
         headless,
         timeout: config.browser.timeout,
+        stealth: getStealthOptions(config, options.stealth),
       })
 
       spinner.succeed('Browser launched')
@@ -0,0 +1,216 @@
+import { ValidationError } from '@lesca/error'
+import { ConfigManager, type Config } from '@lesca/shared/config'
+import { logger } from '@lesca/shared/utils'
+import { createStorage } from '@lesca/storage'
+import chalk from 'chalk'
+import { Command } from 'commander'
+import inquirer from 'inquirer'
+import ora from 'ora'
+
+import {
+  REVIEW_GRADE_NAMES,
+  ReviewDeck,
+  toLocalDate,
+  type ReviewCard,
+  type ReviewGrade,
+} from '@/core/src/index'
+
+import { parseNumber } from '../helpers'
+import { handleCliError } from '../utils'
+
+interface ReviewOptions {
+  new: string
+  interactive?: boolean
+  json?: boolean
+  output?: string
+}
+
+interface GradeOptions {
+  output?: string
+}
+
+export const reviewCommand = new Command('review')
+  .description(chalk.white('Review scraped problems with spaced repetition'))
+  .option('-n, --new <number>', 'New problems per day', '10')
+  .option('-i, --interactive', 'Go through the due problems and grade each one')
+  .option('--json', 'Output as JSON')
+  .option('-o, --output <dir>', 'Notes directory (default: from config)')
+  .addCommand(
+    new Command('grade')
+      .description('Record how well you recalled a problem and reschedule it')
+      .argument('<problem>', 'Problem slug, ID or note path')
+      .argument('<grade>', 'Recall grade: 0-5, or again, hard, good, easy')
+      .action(async (problem: string, gradeValue: string, _options: unknown, command: Command) => {
+        // -o/--output belongs to the parent command, which parses it wherever it appears
+        const options = command.optsWithGlobals<GradeOptions>()
+        try {
+          const grade = parseGrade(gradeValue)
+          const config = ConfigManager.getInstance().getConfig()
+          const deck = await loadDeck(config, options.output)
+
+          const card = deck.grade(problem, grade)
+          await deck.save()
+          logger.success(`${formatTitle(card)}: ${formatNextReview(card)}`)
+        } catch (error) {
+          handleCliError('Failed to record the review', error)
+          process.exit(1)
+        }
+      })
+  )
+  .addHelpText(
+    'after',
+    `
+${chalk.bold('Grades:')}
+  ${chalk.cyan('again')} (1)  Could not solve it          ${chalk.cyan('hard')} (3)  Solved with serious difficulty
+  ${chalk.cyan('good')}  (4)  Solved after some thought   ${chalk.cyan('easy')} (5)  Solved right away
+
+${chalk.bold('Examples:')}
+  ${chalk.gray("# Show today's due problems")}
+  $ lesca review
+
+  ${chalk.gray('# Record a review')}
+  $ lesca review grade two-sum good
+  $ lesca review grade 15 2
+
+  ${chalk.gray('# Review and grade one problem after another')}
+  $ lesca review ${chalk.cyan('-i')}
+
+${chalk.bold('Tips:')}
+  ${chalk.gray('•')} Review state is kept in .lesca/reviews.json in the notes directory
+  ${chalk.gray('•')} New problems start with intervals based on their difficulty, quality and tags
+  `
+  )
+  .action(async (options: ReviewOptions) => {
+    const spinner = ora('Loading review deck...').start()
+
+    try {
+      const newLimit = parseNumber(options.new, 'new', 0)
+      const config = ConfigManager.getInstance().getConfig()
+      const deck = await loadDeck(config, options.output)
+      const today = toLocalDate(new Date())
+      const { reviews, newCards } = deck.getDue(today, { newLimit })
+      spinner.stop()
+
+      if (options.json) {
+        logger.log(JSON.stringify({ date: today, reviews, newCards }, null, 2))
+        return
+      }
+      if (reviews.length === 0 && newCards.length === 0) {
+        logger.log(chalk.green(`Nothing to review today (${deck.size} problems in the deck)`))
+        return
+      }
+
+      if (options.interactive) {
+        await reviewInteractively(deck, [...reviews, ...newCards])
+        return
+      }
+
+      logger.log()
+      logger.log(chalk.bold(`Due today: ${reviews.length} reviews, ${newCards.length} new`))
+      for (const card of reviews) {
+        logger.log(`  ${formatTitle(card)}  ${formatDifficulty(card)}  ${formatDue(card, today)}`)
+        logger.log(chalk.gray(`    ${card.key}`))
+      }
+      if (newCards.length > 0) {
+        logger.log()
+        logger.log(chalk.bold('New:'))
+        for (const card of newCards) {
+          logger.log(`  ${formatTitle(card)}  ${formatDifficulty(card)}`)
+          logger.log(chalk.gray(`    ${card.key}`))
+        }
+      }
+      logger.log()
+      logger.log(chalk.gray('Record a review with: lesca review grade <problem> <grade>'))
+    } catch (error) {
+      spinner.fail('Failed to load reviews')
+      handleCliError('Failed to load reviews', error)
+      process.exit(1)
+    }
+  })
+
+/**
+ * Load the review deck and add the problems scraped since the last run
+ */
+async function loadDeck(config: Config, output: string | undefined): Promise<ReviewDeck> {
+  const storage = createStorage(config.storage, output)
+  const deck = await ReviewDeck.load(storage)
+  if ((await deck.sync()) > 0) {
+    await deck.save()
+  }
+  return deck
+}
+
+/**
+ * Prompt for a grade per problem, saving after each one
+ */
+async function reviewInteractively(deck: ReviewDeck, cards: ReviewCard[]): Promise<void> {
+  let graded = 0
+  for (const [position, card] of cards.entries()) {
+    logger.log()
+    logger.log(
+      chalk.gray(`[${position + 1}/${cards.length}] `) +
+        `${formatTitle(card)}  ${formatDifficulty(card)}`
+    )
+    logger.log(chalk.gray(`  ${card.key}`))
+
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+    const answers = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'grade',
+        message: chalk.cyan('How well did you recall it?'),
+        choices: [
+          ...Object.entries(REVIEW_GRADE_NAMES).map(([name, value]) => ({ name, value })),
+          { name: 'skip', value: 'skip' },
+          { name: 'quit', value: 'quit' },
+        ],
+      },
+    ])
+    const answer = (answers as { grade: ReviewGrade | 'skip' | 'quit' }).grade
+    if (answer === 'quit') break
+    if (answer === 'skip') continue
+
+    const scheduled = deck.grade(card.slug, answer)
+    await deck.save()
+    graded++
+    logger.log(chalk.gray(`  ${formatNextReview(scheduled)}`))
+  }
+  logger.log()
+  logger.success(`Reviewed ${graded} problem${graded === 1 ? '' : 's'}`)
+}
+
+function parseGrade(value: string): ReviewGrade {
+  const name = value.trim().toLowerCase()
+  if (name in REVIEW_GRADE_NAMES) {
+    return REVIEW_GRADE_NAMES[name as keyof typeof REVIEW_GRADE_NAMES]
+  }
+  if (/^[0-5]$/.test(name)) {
+    return Number(name) as ReviewGrade
+  }
+  throw new ValidationError(
+    'VAL_INVALID_INPUT',
+    `Invalid grade: ${value}. Must be 0-5 or ${Object.keys(REVIEW_GRADE_NAMES).join(', ')}.`
+  )
+}
+
+function formatTitle(card: ReviewCard): string {
+  return (card.frontendId ? chalk.gray(`${card.frontendId}. `) : '') + chalk.bold(card.title)
+}
+
+function formatDifficulty(card: ReviewCard): string {
+  if (card.difficulty === 'Easy') return chalk.green(card.difficulty)
+  if (card.difficulty === 'Medium') return chalk.yellow(card.difficulty)
+  if (card.difficulty === 'Hard') return chalk.red(card.difficulty)
+  return ''
+}
+
+function formatDue(card: ReviewCard, today: string): string {
+  const days = Math.round((Date.parse(today) - Date.parse(card.due)) / (24 * 60 * 60 * 1000))
+  return days > 0
+    ? chalk.red(`overdue ${days} day${days === 1 ? '' : 's'}`)
+    : chalk.gray(`ease ${card.ease}, last interval ${card.interval}d`)
+}
+
+function formatNextReview(card: ReviewCard): string {
+  return `next review in ${card.interval} day${card.interval === 1 ? '' : 's'} (${card.due})`
+}
@@ -8,7 +8,7 @@ import {
 import { ConfigManager } from '@lesca/shared/config'
 import type { DiscussionScrapeRequest, AuthCredentials } from '@lesca/shared/types'
 import { logger, createCache } from '@lesca/shared/utils'
-import { FileSystemStorage } from '@lesca/storage'
+import { createStorage } from '@lesca/storage'
 import chalk from 'chalk'
 import { Command } from 'commander'
 import ora from 'ora'
@@ -16,12 +16,21 @@ import ora from 'ora'
 import { GraphQLClient, RateLimiter } from '@/api-client/src/index'
 import { LeetCodeScraper } from '@/core/src/index'
 
-import { createBrowserService } from '../helpers'
+import {
+  createBrowserService,
+  createGraphQLSnapshots,
+  createSelectorManager,
+  getCookieEncryption,
+  getRateLimitManager,
+  getSnapshotOptions,
+  getStealthOptions,
+  openSearchIndex,
+} from '../helpers'
 import { handleCliError } from '../utils'
 
 interface ScrapeDiscussionsOptions {
   output: string
-  format: 'markdown' | 'obsidian'
+  format: 'markdown' | 'obsidian' | 'json'
   cookies: string
   category?: string
   sort: string
@@ -32,13 +41,16 @@ interface ScrapeDiscussionsOptions {
   cache: boolean
   session?: string
   sessionPersist: boolean
+  stealth?: boolean
+  record?: string
+  replay?: string
 }
 
 export const scrapeDiscussionsCommand = new Command('scrape-discussions')
   .description('Scrape problem discussions/solutions (requires browser automation)')
   .argument('<problem>', 'Problem title slug (e.g., "two-sum")')
   .option('-o, --output <dir>', 'Output directory (overrides config)')
-  .option('-f, --format <format>', 'Output format: markdown, obsidian (overrides config)')
+  .option('-f, --format <format>', 'Output format: markdown, obsidian, json (overrides config)')
   .option('-c, --cookies <file>', 'Cookie file path (overrides config)')
   .option('--category <category>', 'Filter by category (solution, general, interview-question)')
   .option('--sort <sort>', 'Sort order (hot, most-votes, recent)')
@@ -46,6 +58,8 @@ export const scrapeDiscussionsCommand = new Command('scrape-discussions')
   .option('--comments', 'Include comments', false)
   .option('--headless', 'Run browser in headless mode (overrides config)')
   .option('--no-headless', 'Run browser in visible mode')
+  .option('--stealth', 'Mask browser automation fingerprints (overrides config)')
+  .option('--no-stealth', 'Disable stealth mode')
   .option('--no-auth', 'Skip authentication')
   .option('--no-cache', 'Do not use GraphQL caching')
   .option('-s, --session <name>', 'Use a browser session (enables pooling and persistence)')
@@ -54,6 +68,11 @@ export const scrapeDiscussionsCommand = new Command('scrape-discussions')
     'Save session state on exit (default: true when --session is used)',
     true
   )
+  .option('--record <dir>', 'Save visited pages and GraphQL responses to a snapshot directory')
+  .option(
+    '--replay <dir>',
+    'Serve pages and GraphQL responses from a snapshot directory instead of LeetCode'
+  )
   .action(async (problem: string, options: ScrapeDiscussionsOptions) => {
     const spinner = ora('Initializing browser automation...').start()
 
@@ -63,13 +82,11 @@ export const scrapeDiscussionsCommand = new Command('scrape-discussions')
 
       // Merge CLI options with config (CLI options take precedence)
       const outputDir = options.output || config.storage.path
-      const format = (options.format || config.output.format) as 'markdown' | 'obsidian'
+      const format = (options.format || config.output.format) as 'markdown' | 'obsidian' | 'json'
       const cookiePath = options.cookies || config.auth.cookiePath
       const headless = options.headless !== undefined ? options.headless : config.browser.headless
       const sortOrder = (options.sort || config.scraping.discussion.defaultSort) as
-        | 'hot'
-        | 'most-votes'
-        | 'recent'
+        'hot' | 'most-votes' | 'recent'
       const limit = options.limit
         ? parseInt(options.limit)
         : config.scraping.discussion.defaultLimit
@@ -78,7 +95,7 @@ export const scrapeDiscussionsCommand = new Command('scrape-discussions')
       let auth: AuthCredentials | undefined
       if (options.auth !== false && config.auth.method !== 'none') {
         try {
-          const authProvider = new CookieFileAuth(cookiePath)
+          const authProvider = new CookieFileAuth(cookiePath, await getCookieEncryption(config))
           await authProvider.authenticate()
           auth = authProvider.getCredentials()
           spinner.succeed('Authentication loaded')
@@ -89,10 +106,12 @@ export const scrapeDiscussionsCommand = new Command('scrape-discussions')
       }
 
       // 2. Set up Browser Service
+      const snapshots = getSnapshotOptions(options)
       const browserService = createBrowserService(
         configManager,
         options.session,
-        !options.sessionPersist
+        !options.sessionPersist,
+        snapshots
       )
       const browserDriver = browserService.getDriver()
       spinner.start('Launching browser...')
@@ -101,12 +120,19 @@ export const scrapeDiscussionsCommand = new Command('scrape-discussions')
         headless: headless,
         timeout: config.browser.timeout,
         blockResources: config.browser.blockedResources,
+        stealth: getStealthOptions(config, options.stealth),
       })
 
       if (browserService.getSessionName()) {
         spinner.info(`Using session: ${browserService.getSessionName()}`)
       }
 
+      if (snapshots) {
+        spinner.info(
+          `${snapshots.mode === 'replay' ? 'Replaying snapshots from' : 'Recording snapshots to'} ${snapshots.dir}`
+        )
+      }
+
       spinner.succeed('Browser launched')
 
       // 3. Set up strategies
@@ -119,21 +145,34 @@ export const scrapeDiscussionsCommand = new Command('scrape-discussions')
         config.api.rateLimit.maxDelay,
         config.api.rateLimit.jitter
       )
-      const graphqlClient = new GraphQLClient(auth, rateLimiter, cache)
+      const graphqlClient = new GraphQLClient({
+        auth,
+        rateLimiter,
+        cache,
+        rateLimitManager: getRateLimitManager(),
+        snapshots: createGraphQLSnapshots(snapshots),
+      })
 
+      const selectors = await createSelectorManager(config)
       const strategies = [
-        new ProblemScraperStrategy(graphqlClient, browserDriver, auth),
+        new ProblemScraperStrategy(graphqlClient, browserDriver, auth, selectors),
         new ListScraperStrategy(graphqlClient),
-        new EditorialScraperStrategy(browserDriver, auth),
-        new DiscussionScraperStrategy(browserDriver),
+        new EditorialScraperStrategy(browserDriver, auth, selectors),
+        new DiscussionScraperStrategy(browserDriver, selectors),
       ]
 
       // 4. Set up storage
-      const storage = new FileSystemStorage(outputDir)
+      const storage = createStorage(config.storage, outputDir)
+      const searchIndex = await openSearchIndex(storage)
 
       // 5. Create scraper
       const scraper = new LeetCodeScraper(strategies, storage, {
         format: format,
+        outputPattern: config.output.pattern,
+        images: config.output.images,
+        ...(config.output.merge ? { merge: true } : {}),
+        ...(config.processing.pipeline ? { pipeline: config.processing.pipeline } : {}),
+        ...(searchIndex ? { searchIndex } : {}),
       })
 
       // 6. Scrape the discussions
@@ -153,6 +192,7 @@ export const scrapeDiscussionsCommand = new Command('scrape-discussions')
       }
 
       const result = await scraper.scrape(request)
+      await searchIndex?.flush()
 
       if (result.success) {
         spinner.succeed(
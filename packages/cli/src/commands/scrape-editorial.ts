@@ -7,7 +7,7 @@ import {
 import { ConfigManager } from '@lesca/shared/config'
 import type { EditorialScrapeRequest, AuthCredentials } from '@lesca/shared/types'
 import { logger, createCache } from '@lesca/shared/utils'
-import { FileSystemStorage } from '@lesca/storage'
+import { createStorage } from '@lesca/storage'
 import chalk from 'chalk'
 import { Command } from 'commander'
 import ora from 'ora'
@@ -15,12 +15,21 @@ import ora from 'ora'
 import { GraphQLClient, RateLimiter } from '@/api-client/src/index'
 import { LeetCodeScraper } from '@/core/src/index'
 
-import { createBrowserService } from '../helpers'
+import {
+  createBrowserService,
+  createGraphQLSnapshots,
+  createSelectorManager,
+  getCookieEncryption,
+  getRateLimitManager,
+  getSnapshotOptions,
+  getStealthOptions,
+  openSearchIndex,
+} from '../helpers'
 import { handleCliError } from '../utils'
 
 interface ScrapeEditorialOptions {
   output: string
-  format: 'markdown' | 'obsidian'
+  format: 'markdown' | 'obsidian' | 'json'
   cookies: string
   headless: boolean
   premium?: boolean
@@ -28,16 +37,21 @@ interface ScrapeEditorialOptions {
   cache?: boolean // Added for the new cache option
   session?: string
   sessionPersist: boolean
+  stealth?: boolean
+  record?: string
+  replay?: string
 }
 
 export const scrapeEditorialCommand = new Command('scrape-editorial')
   .description('Scrape a problem editorial/solution (requires browser automation)')
   .argument('<problem>', 'Problem title slug (e.g., "two-sum")')
   .option('-o, --output <dir>', 'Output directory (overrides config)')
-  .option('-f, --format <format>', 'Output format: markdown, obsidian (overrides config)')
+  .option('-f, --format <format>', 'Output format: markdown, obsidian, json (overrides config)')
   .option('-c, --cookies <file>', 'Cookie file path (overrides config)')
   .option('--headless', 'Run browser in headless mode (overrides config)')
   .option('--no-headless', 'Run browser in visible mode')
+  .option('--stealth', 'Mask browser automation fingerprints (overrides config)')
+  .option('--no-stealth', 'Disable stealth mode')
   .option('--premium', 'Attempt to scrape premium content (requires auth)')
   .option('--no-auth', 'Skip authentication (will fail on premium content)')
   .option('--no-cache', 'Disable GraphQL caching') // Added new option
@@ -47,6 +61,11 @@ export const scrapeEditorialCommand = new Command('scrape-editorial')
     'Save session state on exit (default: true when --session is used)',
     true
   )
+  .option('--record <dir>', 'Save visited pages and GraphQL responses to a snapshot directory')
+  .option(
+    '--replay <dir>',
+    'Serve pages and GraphQL responses from a snapshot directory instead of LeetCode'
+  )
   .action(async (problem: string, options: ScrapeEditorialOptions) => {
     const spinner = ora('Initializing browser automation...').start()
 
@@ -56,7 +75,7 @@ export const scrapeEditorialCommand = new Command('scrape-editorial')
 
       // Merge CLI options with config (CLI options take precedence)
       const outputDir = options.output || config.storage.path
-      const format = (options.format || config.output.format) as 'markdown' | 'obsidian'
+      const format = (options.format || config.output.format) as 'markdown' | 'obsidian' | 'json'
       const cookiePath = options.cookies || config.auth.cookiePath
       const headless = options.headless !== undefined ? options.headless : config.browser.headless
 
@@ -64,7 +83,7 @@ export const scrapeEditorialCommand = new Command('scrape-editorial')
       let auth: AuthCredentials | undefined
       if (options.auth !== false && config.auth.method !== 'none') {
         try {
-          const authProvider = new CookieFileAuth(cookiePath)
+          const authProvider = new CookieFileAuth(cookiePath, await getCookieEncryption(config))
           await authProvider.authenticate()
           auth = authProvider.getCredentials()
           spinner.succeed('Authentication loaded')
@@ -80,10 +99,12 @@ export const scrapeEditorialCommand = new Command('scrape-editorial')
       }
 
       // 2. Set up Browser Service
+      const snapshots = getSnapshotOptions(options)
       const browserService = createBrowserService(
         configManager,
         options.session,
-        !options.sessionPersist
+        !options.sessionPersist,
+        snapshots
       )
       const browserDriver = browserService.getDriver()
       spinner.start('Launching browser...')
@@ -92,12 +113,19 @@ export const scrapeEditorialCommand = new Command('scrape-editorial')
         headless: headless,
         timeout: config.browser.timeout,
         blockResources: config.browser.blockedResources,
+        stealth: getStealthOptions(config, options.stealth),
       })
 
       if (browserService.getSessionName()) {
         spinner.info(`Using session: ${browserService.getSessionName()}`)
       }
 
+      if (snapshots) {
+        spinner.info(
+          `${snapshots.mode === 'replay' ? 'Replaying snapshots from' : 'Recording snapshots to'} ${snapshots.dir}`
+        )
+      }
+
       spinner.succeed('Browser launched')
 
       // 3. Set up strategies
@@ -110,20 +138,33 @@ export const scrapeEditorialCommand = new Command('scrape-editorial')
         config.api.rateLimit.maxDelay,
         config.api.rateLimit.jitter
       )
-      const graphqlClient = new GraphQLClient(auth, rateLimiter, cache)
+      const graphqlClient = new GraphQLClient({
+        auth,
+        rateLimiter,
+        cache,
+        rateLimitManager: getRateLimitManager(),
+        snapshots: createGraphQLSnapshots(snapshots),
+      })
 
+      const selectors = await createSelectorManager(config)
       const strategies = [
-        new ProblemScraperStrategy(graphqlClient, browserDriver, auth),
+        new ProblemScraperStrategy(graphqlClient, browserDriver, auth, selectors),
         new ListScraperStrategy(graphqlClient),
-        new EditorialScraperStrategy(browserDriver, auth),
+        new EditorialScraperStrategy(browserDriver, auth, selectors),
       ]
 
       // 4. Set up storage
-      const storage = new FileSystemStorage(outputDir)
+      const storage = createStorage(config.storage, outputDir)
+      const searchIndex = await openSearchIndex(storage)
 
       // 5. Create scraper
       const scraper = new LeetCodeScraper(strategies, storage, {
         format: format,
+        outputPattern: config.output.pattern,
+        images: config.output.images,
+        ...(config.output.merge ? { merge: true } : {}),
+        ...(config.processing.pipeline ? { pipeline: config.processing.pipeline } : {}),
+        ...(searchIndex ? { searchIndex } : {}),
       })
 
       // 6. Scrape the editorial
@@ -136,6 +177,7 @@ export const scrapeEditorialCommand = new Command('scrape-editorial')
       }
 
       const result = await scraper.scrape(request)
+      await searchIndex?.flush()
 
       if (result.success) {
         spinner.succeed(
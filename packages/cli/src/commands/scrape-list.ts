@@ -1,15 +1,26 @@
+import { resolve } from 'path'
+
 import { CookieFileAuth } from '@lesca/auth'
-import { ScrapingError } from '@lesca/error'
+import {
+  PlaywrightDriver,
+  SessionManager,
+  detectCaptcha,
+  type BrowserService,
+  type DistributionStrategy,
+} from '@lesca/browser-automation'
+import { AuthError, ScrapingError, ValidationError } from '@lesca/error'
 import { ProblemScraperStrategy, ListScraperStrategy } from '@lesca/scrapers'
 import { ConfigManager } from '@lesca/shared/config'
 import type {
+  AuthCredentials,
+  BrowserDriver,
   ProblemScrapeRequest,
   ListScrapeRequest,
   ProblemListFilters,
   Difficulty,
 } from '@lesca/shared/types'
 import { logger, createCache } from '@lesca/shared/utils'
-import { FileSystemStorage } from '@lesca/storage'
+import { createStorage } from '@lesca/storage'
 import chalk from 'chalk'
 import { Command } from 'commander'
 import ora from 'ora'
@@ -18,17 +29,30 @@ import { GraphQLClient, RateLimiter } from '@/api-client/src/index'
 import {
   LeetCodeScraper,
   BatchScraper,
+  ImageDownloader,
   type BatchProgress,
   type BatchScrapingOptions,
+  type BatchSession,
 } from '@/core/src/index'
 
-import { createBrowserService } from '../helpers'
+import {
+  createBrowserService,
+  createGraphQLSnapshots,
+  createRateLimitManager,
+  createSelectorManager,
+  getCookieEncryption,
+  getRateLimitManager,
+  getSnapshotOptions,
+  getStealthOptions,
+  openSearchIndex,
+} from '../helpers'
 import { ProgressManager } from '../progress-manager'
+import { createReauthCoordinator } from '../reauth'
 import { handleCliError } from '../utils'
 
 interface ScrapeListOptions {
   output: string
-  format: 'markdown' | 'obsidian'
+  format: 'markdown' | 'obsidian' | 'json'
   cookies: string
   cacheDir: string
   cache: boolean
@@ -41,14 +65,31 @@ interface ScrapeListOptions {
   sort: string
   concurrency: string
   resume?: boolean
+  incremental?: boolean
+  merge?: boolean
   session?: string
   sessionPersist: boolean
+  sessions?: string
+  cookieFiles?: string
+  rotation?: string
+  stealth?: boolean
+  record?: string
+  replay?: string
+}
+
+/**
+ * An account used by a multi-session batch
+ */
+interface BatchAccount {
+  name: string
+  sessionName?: string
+  cookiePath?: string
 }
 
 export const scrapeListCommand = new Command('scrape-list')
   .description('Scrape multiple problems')
   .option('-o, --output <dir>', 'Output directory (overrides config)')
-  .option('-f, --format <format>', 'Output format: markdown, obsidian (overrides config)')
+  .option('-f, --format <format>', 'Output format: markdown, obsidian, json (overrides config)')
   .option('-c, --cookies <file>', 'Cookie file path (overrides config)')
   .option('--cache-dir <dir>', 'Cache directory (overrides config)')
   .option('--no-cache', 'Disable caching')
@@ -60,6 +101,8 @@ export const scrapeListCommand = new Command('scrape-list')
   .option('--sort <field>', 'Sort by field (quality, acRate, difficulty)', 'id')
   .option('--concurrency <number>', 'Number of parallel scrapes (overrides config)')
   .option('--resume', 'Resume from previous progress')
+  .option('--incremental', 'Only rewrite problems whose content changed')
+  .option('--merge', 'Keep your own sections and frontmatter keys in existing notes')
   .option('--no-auth', 'Skip authentication (public problems only)')
   .option('-s, --session <name>', 'Use a browser session (enables pooling and persistence)')
   .option(
@@ -67,6 +110,20 @@ export const scrapeListCommand = new Command('scrape-list')
     'Save session state on exit (default: true when --session is used)',
     true
   )
+  .option('--stealth', 'Mask browser automation fingerprints (overrides config)')
+  .option('--no-stealth', 'Disable stealth mode')
+  .option('--sessions <names>', 'Spread requests across browser sessions (comma-separated)')
+  .option('--cookie-files <files>', 'Spread requests across cookie files (comma-separated)')
+  .option(
+    '--rotation <strategy>',
+    'Session rotation: round-robin, least-loaded, least-errors',
+    'round-robin'
+  )
+  .option('--record <dir>', 'Save visited pages and GraphQL responses to a snapshot directory')
+  .option(
+    '--replay <dir>',
+    'Serve pages and GraphQL responses from a snapshot directory instead of LeetCode'
+  )
   .action(async (options: ScrapeListOptions) => {
     const spinner = ora('Initializing...').start()
 
@@ -76,18 +133,21 @@ export const scrapeListCommand = new Command('scrape-list')
 
       // Merge CLI options with config (CLI options take precedence)
       const outputDir = options.output || config.storage.path
-      const format = (options.format || config.output.format) as 'markdown' | 'obsidian'
+      const format = (options.format || config.output.format) as 'markdown' | 'obsidian' | 'json'
       const cookiePath = options.cookies || config.auth.cookiePath
       const concurrency = options.concurrency
         ? parseInt(options.concurrency)
         : config.scraping.concurrency
       const limit = options.limit ? parseInt(options.limit) : config.scraping.batchSize
+      const rotation = parseRotation(options.rotation)
+      const accounts = parseAccounts(options)
+      const snapshots = getSnapshotOptions(options)
 
       // 1. Set up authentication
       let auth
       if (options.auth !== false && config.auth.method !== 'none') {
         try {
-          auth = new CookieFileAuth(cookiePath)
+          auth = new CookieFileAuth(cookiePath, await getCookieEncryption(config))
           await auth.authenticate()
           spinner.succeed('Authentication loaded')
         } catch (error) {
@@ -105,32 +165,142 @@ export const scrapeListCommand = new Command('scrape-list')
         config.api.rateLimit.maxDelay,
         config.api.rateLimit.jitter
       )
-      const graphqlClient = new GraphQLClient(auth?.getCredentials(), rateLimiter, cache)
+      const graphqlClient = new GraphQLClient({
+        auth: auth?.getCredentials(),
+        rateLimiter,
+        cache,
+        rateLimitManager: getRateLimitManager(),
+        snapshots: createGraphQLSnapshots(snapshots),
+      })
 
-      // 4. Set up Browser Service
-      const browserService = createBrowserService(
-        configManager,
-        options.session,
-        !options.sessionPersist
-      )
-      const browserDriver = browserService.getDriver()
-      await browserService.startup()
+      const stealth = getStealthOptions(config, options.stealth)
+      const selectors = await createSelectorManager(config)
 
-      if (browserService.getSessionName()) {
-        spinner.info(`Using session: ${browserService.getSessionName()}`)
+      // 4. Set up storage
+      const storage = createStorage(config.storage, outputDir)
+      const searchIndex = await openSearchIndex(storage)
+
+      // Session scrapers write to the same storage, so they share one image index
+      const scraperOptions = {
+        format: format,
+        outputPattern: config.output.pattern,
+        images: config.output.images,
+        ...(config.output.images.download
+          ? { imageDownloader: new ImageDownloader(storage, config.output.images) }
+          : {}),
+        ...(options.incremental ? { incremental: true } : {}),
+        ...(options.merge || config.output.merge ? { merge: true } : {}),
+        ...(config.processing.pipeline ? { pipeline: config.processing.pipeline } : {}),
+        ...(searchIndex ? { searchIndex } : {}),
       }
-      const strategies = [
-        new ProblemScraperStrategy(graphqlClient, browserDriver, auth?.getCredentials()),
-        new ListScraperStrategy(graphqlClient),
-      ]
 
-      // 5. Set up storage
-      const storage = new FileSystemStorage(outputDir)
+      // 5. Set up one scraper per account for multi-session batches
+      // Each account has its own browser, rate limit state and re-authentication
+      const browserServices: BrowserService[] = []
+      const sessions: BatchSession[] = []
+      for (const account of accounts) {
+        const accountAuth = account.cookiePath
+          ? new CookieFileAuth(account.cookiePath, await getCookieEncryption(config))
+          : undefined
+        const credentials = accountAuth
+          ? await accountAuth.authenticate()
+          : await loadSession(account.name)
+        const rateLimitManager = createRateLimitManager(account.name)
+        const client = new GraphQLClient({
+          auth: credentials,
+          rateLimiter: new RateLimiter(
+            config.api.rateLimit.minDelay,
+            config.api.rateLimit.maxDelay,
+            config.api.rateLimit.jitter
+          ),
+          cache,
+          rateLimitManager,
+          snapshots: createGraphQLSnapshots(snapshots),
+        })
 
-      // 6. Create scraper
-      const scraper = new LeetCodeScraper(strategies, storage, {
-        format: format,
-      })
+        const service = createBrowserService(
+          configManager,
+          account.sessionName,
+          !options.sessionPersist,
+          snapshots,
+          rateLimitManager
+        )
+        await service.startup({ stealth })
+        browserServices.push(service)
+        const driver = service.getDriver()
+
+        sessions.push({
+          name: account.name,
+          scraper: new LeetCodeScraper(
+            [
+              new ProblemScraperStrategy(client, driver, credentials, selectors),
+              new ListScraperStrategy(client),
+            ],
+            storage,
+            scraperOptions
+          ),
+          detectCaptcha: () =>
+            driver instanceof PlaywrightDriver ? detectCaptcha(driver) : Promise.resolve(false),
+          ...(accountAuth && account.cookiePath && config.auth.autoRefresh
+            ? {
+                reauth: createReauthCoordinator({
+                  config,
+                  cookiePath: account.cookiePath,
+                  auth: accountAuth,
+                  graphqlClient: client,
+                  driver,
+                }),
+              }
+            : {}),
+        })
+      }
+      if (sessions.length > 0) {
+        spinner.info(`Rotating across ${sessions.length} sessions (${rotation})`)
+        if (config.auth.autoRefresh && accounts.some((account) => account.sessionName)) {
+          logger.warn(
+            'auth.autoRefresh only applies to --cookie-files accounts; expired browser sessions are not refreshed'
+          )
+        }
+      }
+
+      // 6. Set up the default scraper
+      // Rotated batches only use the session scrapers, so the default browser is not started
+      let browserDriver: BrowserDriver | undefined
+      let scraper = sessions[0]?.scraper
+      if (!scraper) {
+        const browserService = createBrowserService(
+          configManager,
+          options.session,
+          !options.sessionPersist,
+          snapshots
+        )
+        await browserService.startup({ stealth })
+        browserServices.push(browserService)
+        browserDriver = browserService.getDriver()
+
+        if (browserService.getSessionName()) {
+          spinner.info(`Using session: ${browserService.getSessionName()}`)
+        }
+        scraper = new LeetCodeScraper(
+          [
+            new ProblemScraperStrategy(
+              graphqlClient,
+              browserDriver,
+              auth?.getCredentials(),
+              selectors
+            ),
+            new ListScraperStrategy(graphqlClient),
+          ],
+          storage,
+          scraperOptions
+        )
+      }
+
+      if (snapshots) {
+        spinner.info(
+          `${snapshots.mode === 'replay' ? 'Replaying snapshots from' : 'Recording snapshots to'} ${snapshots.dir}`
+        )
+      }
 
       // 7. Fetch problem list
       spinner.start('Fetching problem list...')
@@ -215,14 +385,33 @@ export const scrapeListCommand = new Command('scrape-list')
       if (options.resume !== undefined) {
         batchScraperOptions.resume = options.resume
       }
+      if (sessions.length > 0) {
+        batchScraperOptions.sessions = sessions
+        batchScraperOptions.sessionRotation = {
+          distributionStrategy: rotation,
+        }
+      } else if (auth && cookiePath && config.auth.autoRefresh) {
+        // Refresh expired cookies instead of failing the rest of the batch
+        batchScraperOptions.reauth = createReauthCoordinator({
+          config,
+          cookiePath,
+          auth,
+          graphqlClient,
+          ...(browserDriver ? { driver: browserDriver } : {}),
+        })
+      }
       const batchScraper = new BatchScraper(scraper, batchScraperOptions)
 
       // 11. Batch scrape
       const result = await batchScraper.scrapeAll(requests)
+      // Scrapers only schedule index saves, so the batch is written once here
+      await searchIndex?.flush()
 
       // Update progress manager with final stats
       result.results.forEach((r) => {
-        if (r.success) {
+        if (r.change?.status === 'unchanged') {
+          progressManager.incrementSkip()
+        } else if (r.success) {
           progressManager.incrementSuccess()
         } else {
           progressManager.incrementFailure()
@@ -233,6 +422,46 @@ export const scrapeListCommand = new Command('scrape-list')
       progressManager.stop()
       progressManager.getSummary()
 
+      // Show the incremental diff summary
+      const changes = options.incremental ? result.stats.changes : undefined
+      if (changes) {
+        logger.log()
+        logger.log(
+          `${chalk.green(`${changes.new} new`)}, ${chalk.yellow(`${changes.changed} changed`)}, ${chalk.gray(`${changes.unchanged} unchanged`)}`
+        )
+        for (const r of result.results) {
+          if (r.request.type !== 'problem' || !r.change || r.change.status === 'unchanged') {
+            continue
+          }
+          if (r.change.status === 'new') {
+            logger.log(`  ${chalk.green('+')} ${r.request.titleSlug}`)
+          } else {
+            logger.log(
+              `  ${chalk.yellow('~')} ${r.request.titleSlug} ${chalk.gray(`(${r.change.parts.join(', ')})`)}`
+            )
+          }
+        }
+      }
+
+      // Show per-session counts
+      if (result.stats.sessions) {
+        logger.log()
+        logger.log(chalk.bold('Sessions:'))
+        for (const session of result.stats.sessions) {
+          const throttled = session.rateLimited + session.captchas
+          logger.log(
+            `  ${session.name}: ${chalk.green(`${session.successful} ok`)}, ${chalk.red(`${session.failed} failed`)}${throttled > 0 ? chalk.yellow(` (${session.rateLimited} rate limited, ${session.captchas} CAPTCHA)`) : ''}`
+          )
+        }
+      }
+
+      const refreshes = [batchScraperOptions.reauth, ...sessions.map((session) => session.reauth)]
+        .map((reauth) => reauth?.getRefreshCount() ?? 0)
+        .reduce((total, count) => total + count, 0)
+      if (refreshes > 0) {
+        logger.log(chalk.gray(`Re-authenticated ${refreshes} time(s) during the batch`))
+      }
+
       // Show errors if any
       if (result.errors.length > 0 && result.errors.length <= 5) {
         logger.log()
@@ -252,11 +481,75 @@ export const scrapeListCommand = new Command('scrape-list')
         logger.log()
         logger.log(chalk.red(`${result.errors.length} errors occurred. Check logs for details.`))
       }
-      // Clean up: shutdown browser service
-      await browserService.shutdown()
+      // Clean up: shutdown browser services
+      for (const service of browserServices) {
+        await service.shutdown()
+      }
     } catch (error) {
       spinner.fail('Unexpected error')
       handleCliError(chalk.red('Unexpected error during operation'), error)
       process.exit(1)
     }
   })
+
+/**
+ * Build the accounts of a multi-session batch from --sessions and --cookie-files
+ * Cookie-file accounts are named by their path, so files with the same name stay apart.
+ * @throws {ValidationError} If an account is listed twice
+ */
+function parseAccounts(options: ScrapeListOptions): BatchAccount[] {
+  const accounts: BatchAccount[] = [
+    ...splitList(options.sessions).map((name) => ({ name, sessionName: name })),
+    ...splitList(options.cookieFiles).map((file) => ({ name: file, cookiePath: file })),
+  ]
+
+  const seen = new Set<string>()
+  for (const account of accounts) {
+    const key = account.cookiePath ? resolve(account.cookiePath) : `session:${account.name}`
+    if (seen.has(key) || seen.has(account.name)) {
+      throw new ValidationError('VAL_INVALID_INPUT', `Account "${account.name}" is listed twice`)
+    }
+    seen.add(key)
+    seen.add(account.name)
+  }
+  return accounts
+}
+
+/**
+ * Split a comma-separated option value
+ */
+function splitList(value?: string): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0)
+}
+
+/**
+ * Load credentials from a saved browser session
+ */
+async function loadSession(name: string): Promise<AuthCredentials> {
+  const session = await new SessionManager().getSession(name)
+  if (!session) {
+    throw new AuthError('AUTH_COOKIES_NOT_FOUND', `Session "${name}" not found`, {
+      context: { session: name },
+    })
+  }
+  return {
+    cookies: session.cookies,
+    csrfToken: session.cookies.find((cookie) => cookie.name === 'csrftoken')?.value ?? '',
+  }
+}
+
+/**
+ * Validate the --rotation option
+ */
+function parseRotation(value = 'round-robin'): DistributionStrategy {
+  if (value === 'round-robin' || value === 'least-loaded' || value === 'least-errors') {
+    return value
+  }
+  throw new ValidationError(
+    'VAL_INVALID_INPUT',
+    `Invalid rotation: ${value}. Must be round-robin, least-loaded, or least-errors.`
+  )
+}
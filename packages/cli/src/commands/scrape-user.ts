@@ -0,0 +1,130 @@
+import { CookieFileAuth } from '@lesca/auth'
+import { ValidationError } from '@lesca/error'
+import { UserScraperStrategy } from '@lesca/scrapers'
+import { ConfigManager } from '@lesca/shared/config'
+import type { UserScrapeRequest } from '@lesca/shared/types'
+import { logger, createCache } from '@lesca/shared/utils'
+import { createStorage } from '@lesca/storage'
+import chalk from 'chalk'
+import { Command } from 'commander'
+import ora from 'ora'
+
+import { GraphQLClient, RateLimiter } from '@/api-client/src/index'
+import { LeetCodeScraper } from '@/core/src/index'
+
+import { getCookieEncryption, getRateLimitManager } from '../helpers'
+import { handleCliError } from '../utils'
+
+interface ScrapeUserOptions {
+  output: string
+  format: 'markdown' | 'obsidian' | 'json'
+  cookies: string
+  recent: string
+  auth: boolean
+  cache?: boolean
+}
+
+export const scrapeUserCommand = new Command('scrape-user')
+  .description('Scrape a user profile (solved counts, badges, recent submissions)')
+  .argument('<username>', 'LeetCode username')
+  .option('-o, --output <dir>', 'Output directory (overrides config)')
+  .option('-f, --format <format>', 'Output format: markdown, obsidian, json (overrides config)')
+  .option('-c, --cookies <file>', 'Cookie file path (overrides config)')
+  .option('--recent <number>', 'Number of recent accepted submissions (0 to skip)', '20')
+  .option('--no-auth', 'Skip authentication')
+  .option('--no-cache', 'Disable GraphQL caching')
+  .addHelpText(
+    'after',
+    `
+${chalk.bold('Examples:')}
+  ${chalk.gray('# Scrape a profile note to users/<username>.md')}
+  $ lesca scrape-user ${chalk.cyan('alice')}
+
+  ${chalk.gray('# Obsidian note with counts in the frontmatter')}
+  $ lesca scrape-user alice ${chalk.cyan('--format obsidian')}
+
+  ${chalk.gray('# Only the latest 5 accepted submissions')}
+  $ lesca scrape-user alice ${chalk.cyan('--recent 5')}
+  `
+  )
+  .action(async (username: string, options: ScrapeUserOptions) => {
+    const spinner = ora('Initializing...').start()
+
+    try {
+      const configManager = ConfigManager.getInstance()
+      const config = configManager.getConfig()
+
+      // Merge CLI options with config (CLI options take precedence)
+      const outputDir = options.output || config.storage.path
+      const format = (options.format || config.output.format) as 'markdown' | 'obsidian' | 'json'
+      const cookiePath = options.cookies || config.auth.cookiePath
+      const recentLimit = parseInt(options.recent ?? '20', 10)
+      if (!Number.isInteger(recentLimit) || recentLimit < 0) {
+        throw new ValidationError(
+          'VAL_INVALID_INPUT',
+          `Invalid --recent value: ${options.recent}. Expected a non-negative integer`
+        )
+      }
+
+      // 1. Set up authentication
+      let auth
+      if (options.auth !== false && config.auth.method !== 'none') {
+        try {
+          const authProvider = new CookieFileAuth(cookiePath, await getCookieEncryption(config))
+          await authProvider.authenticate()
+          auth = authProvider.getCredentials()
+          spinner.succeed('Authentication loaded')
+        } catch {
+          spinner.warn('Authentication failed, continuing without auth')
+          auth = undefined
+        }
+      }
+
+      // 2. Set up GraphQL client
+      const cache = options.cache !== false ? createCache(config) : undefined
+      const rateLimiter = new RateLimiter(
+        config.api.rateLimit.minDelay,
+        config.api.rateLimit.maxDelay,
+        config.api.rateLimit.jitter
+      )
+      const graphqlClient = new GraphQLClient({
+        auth,
+        rateLimiter,
+        cache,
+        rateLimitManager: getRateLimitManager(),
+      })
+
+      // 3. Set up storage and scraper
+      const storage = createStorage(config.storage, outputDir)
+      const scraper = new LeetCodeScraper([new UserScraperStrategy(graphqlClient)], storage, {
+        format,
+        ...(config.output.merge ? { merge: true } : {}),
+        ...(config.processing.pipeline ? { pipeline: config.processing.pipeline } : {}),
+      })
+
+      // 4. Scrape the profile
+      spinner.start(`Scraping user: ${chalk.cyan(username)}`)
+
+      const request: UserScrapeRequest = {
+        type: 'user',
+        username,
+        recentLimit,
+      }
+
+      const result = await scraper.scrape(request)
+
+      if (result.success) {
+        spinner.succeed(
+          `User profile scraped successfully!\n   ${chalk.green('Saved to:')} ${result.filePath}`
+        )
+      } else {
+        spinner.fail('Failed to scrape user profile')
+        logger.error(chalk.red('Error:'), result.error)
+        process.exit(1)
+      }
+    } catch (error) {
+      spinner.fail('Unexpected error')
+      handleCliError(chalk.red('Unexpected error during operation'), error)
+      process.exit(1)
+    }
+  })
@@ -1,9 +1,19 @@
 import { CookieFileAuth } from '@lesca/auth'
-import { ProblemScraperStrategy, ListScraperStrategy } from '@lesca/scrapers'
+import { ValidationError } from '@lesca/error'
+import {
+  ProblemScraperStrategy,
+  ListScraperStrategy,
+  EditorialScraperStrategy,
+  DiscussionScraperStrategy,
+} from '@lesca/scrapers'
 import { ConfigManager } from '@lesca/shared/config'
-import type { ProblemScrapeRequest } from '@lesca/shared/types'
+import type {
+  BrowserLaunchOptions,
+  ProblemScrapeRequest,
+  ScraperStrategy,
+} from '@lesca/shared/types'
 import { logger, createCache } from '@lesca/shared/utils'
-import { FileSystemStorage } from '@lesca/storage'
+import { createStorage } from '@lesca/storage'
 import chalk from 'chalk'
 import { Command } from 'commander'
 import ora from 'ora'
@@ -11,25 +21,42 @@ import ora from 'ora'
 import { GraphQLClient, RateLimiter } from '@/api-client/src/index'
 import { LeetCodeScraper, PluginManager } from '@/core/src/index'
 
-import { createBrowserService } from '../helpers'
+import {
+  createBrowserService,
+  createGraphQLSnapshots,
+  createSelectorManager,
+  getCookieEncryption,
+  getRateLimitManager,
+  getSnapshotOptions,
+  getStealthOptions,
+  openSearchIndex,
+} from '../helpers'
 import { handleCliError } from '../utils'
 
 interface ScrapeOptions {
   output: string
-  format: 'markdown' | 'obsidian'
+  format: 'markdown' | 'obsidian' | 'json'
   cookies: string
   cacheDir: string
   cache: boolean
   auth: boolean
   session?: string
   sessionPersist: boolean
+  bundle?: boolean
+  bundleLayout?: string
+  premium?: boolean
+  incremental?: boolean
+  merge?: boolean
+  stealth?: boolean
+  record?: string
+  replay?: string
 }
 
 export const scrapeCommand = new Command('scrape')
   .description(chalk.white('Scrape a single LeetCode problem to markdown'))
   .argument('<problem>', chalk.gray('Problem identifier (e.g., "two-sum", "climbing-stairs")'))
   .option('-o, --output <dir>', 'Output directory (default: from config)')
-  .option('-f, --format <format>', 'Output format: markdown|obsidian (default: from config)')
+  .option('-f, --format <format>', 'Output format: markdown|obsidian|json (default: from config)')
   .option('-c, --cookies <file>', 'Cookie file path (default: from config)')
   .option('--cache-dir <dir>', 'Cache directory (default: from config)')
   .option('--no-cache', 'Bypass cache and fetch fresh data')
@@ -40,6 +67,18 @@ export const scrapeCommand = new Command('scrape')
     'Save session state on exit (default: true when --session is used)',
     true
   )
+  .option('--bundle', 'Include the editorial and discussions with the problem')
+  .option('--bundle-layout <layout>', 'Bundle layout: note|folder', 'note')
+  .option('--premium', 'Attempt to scrape a premium editorial in the bundle (requires auth)')
+  .option('--incremental', 'Skip the write if the stored copy is unchanged')
+  .option('--merge', 'Keep your own sections and frontmatter keys in an existing note')
+  .option('--stealth', 'Mask browser automation fingerprints (overrides config)')
+  .option('--no-stealth', 'Disable stealth mode')
+  .option('--record <dir>', 'Save visited pages and GraphQL responses to a snapshot directory')
+  .option(
+    '--replay <dir>',
+    'Serve pages and GraphQL responses from a snapshot directory instead of LeetCode'
+  )
   .addHelpText(
     'after',
     `
@@ -59,6 +98,12 @@ ${chalk.bold('Examples:')}
   ${chalk.gray('# Use browser session for faster subsequent scrapes')}
   $ lesca scrape two-sum ${chalk.cyan('--session my-session')}
 
+  ${chalk.gray('# Problem, editorial and discussions in one note')}
+  $ lesca scrape two-sum ${chalk.cyan('--bundle')}
+
+  ${chalk.gray('# Bundle as a folder of linked notes')}
+  $ lesca scrape two-sum ${chalk.cyan('--bundle --bundle-layout folder')}
+
 ${chalk.bold('Tips:')}
   ${chalk.gray('•')} Use ${chalk.cyan('lesca list --difficulty easy')} to find beginner problems
   ${chalk.gray('•')} Enable caching in config for 10-100x faster repeated scrapes
@@ -80,15 +125,24 @@ ${chalk.bold('See also:')}
 
       // Merge CLI options with config (CLI options take precedence)
       const outputDir = options.output || config.storage.path
-      const format = (options.format || config.output.format) as 'markdown' | 'obsidian'
+      const format = (options.format || config.output.format) as 'markdown' | 'obsidian' | 'json'
       const cookiePath = options.cookies || config.auth.cookiePath
       const cacheEnabled = options.cache !== false && config.cache.enabled
+      const bundleLayout = options.bundleLayout || 'note'
+      if (options.bundle && bundleLayout !== 'note' && bundleLayout !== 'folder') {
+        throw new ValidationError(
+          'VAL_INVALID_INPUT',
+          `Invalid bundle layout: ${bundleLayout}. Expected "note" or "folder"`
+        )
+      }
+
+      const snapshots = getSnapshotOptions(options)
 
       // 1. Set up authentication
       let auth
       if (options.auth !== false && config.auth.method !== 'none') {
         try {
-          auth = new CookieFileAuth(cookiePath)
+          auth = new CookieFileAuth(cookiePath, await getCookieEncryption(config))
           await auth.authenticate()
           spinner.succeed('Authentication loaded')
         } catch (error) {
@@ -113,42 +167,47 @@ ${chalk.bold('See also:')}
         config.api.rateLimit.maxDelay,
         config.api.rateLimit.jitter
       )
-      const graphqlClient = new GraphQLClient(auth?.getCredentials(), rateLimiter, cache)
+      const graphqlClient = new GraphQLClient({
+        auth: auth?.getCredentials(),
+        rateLimiter,
+        cache,
+        rateLimitManager: getRateLimitManager(),
+        snapshots: createGraphQLSnapshots(snapshots),
+      })
 
       // 4. Set up Browser Service
       const browserService = createBrowserService(
         configManager,
         options.session,
-        !options.sessionPersist
+        !options.sessionPersist,
+        snapshots
       )
 
       // 5. Set up strategies
       const browserDriver = browserService.getDriver()
-      const strategies = [
-        new ProblemScraperStrategy(graphqlClient, browserDriver, auth?.getCredentials()),
+      const selectors = await createSelectorManager(config)
+      const strategies: ScraperStrategy[] = [
+        new ProblemScraperStrategy(graphqlClient, browserDriver, auth?.getCredentials(), selectors),
         new ListScraperStrategy(graphqlClient),
       ]
+      if (options.bundle) {
+        strategies.push(
+          new EditorialScraperStrategy(browserDriver, auth?.getCredentials(), selectors),
+          new DiscussionScraperStrategy(browserDriver, selectors)
+        )
+      }
 
       // 6. Set up storage
-      const storage = new FileSystemStorage(outputDir)
+      const storage = createStorage(config.storage, outputDir)
+      const searchIndex = await openSearchIndex(storage)
 
       // 7. Launch browser
-      const launchOptions: {
-        headless?: boolean
-        timeout?: number
-        viewport?: { width: number; height: number }
-        blockResources?: string[]
-        interception?: {
-          enabled?: boolean
-          blockResources?: string[]
-          captureResponses?: boolean
-          capturePattern?: string
-        }
-      } = {
+      const launchOptions: BrowserLaunchOptions = {
         headless: config.browser.headless,
         timeout: config.browser.timeout,
         viewport: config.browser.viewport,
         blockResources: config.browser.blockedResources,
+        stealth: getStealthOptions(config, options.stealth),
       }
 
       if (config.browser.interception.enabled) {
@@ -168,6 +227,12 @@ ${chalk.bold('See also:')}
         spinner.info(`Using session: ${browserService.getSessionName()}`)
       }
 
+      if (snapshots) {
+        spinner.info(
+          `${snapshots.mode === 'replay' ? 'Replaying snapshots from' : 'Recording snapshots to'} ${snapshots.dir}`
+        )
+      }
+
       // 8. Initialize Plugin Manager
       const pluginManager = new PluginManager(
         config.plugins.plugins.reduce((acc, p) => ({ ...acc, [p.name]: p.options }), {}),
@@ -178,7 +243,24 @@ ${chalk.bold('See also:')}
       // 9. Create scraper
       const scraper = new LeetCodeScraper(strategies, storage, {
         format: format,
+        outputPattern: config.output.pattern,
+        images: config.output.images,
         pluginManager,
+        ...(options.incremental ? { incremental: true } : {}),
+        ...(options.merge || config.output.merge ? { merge: true } : {}),
+        ...(config.processing.pipeline ? { pipeline: config.processing.pipeline } : {}),
+        ...(searchIndex ? { searchIndex } : {}),
+        ...(options.bundle
+          ? {
+              bundle: {
+                layout: bundleLayout as 'note' | 'folder',
+                discussions: {
+                  sortBy: config.scraping.discussion.defaultSort,
+                  limit: config.scraping.discussion.defaultLimit,
+                },
+              },
+            }
+          : {}),
       })
 
       // 10. Scrape the problem
@@ -187,14 +269,35 @@ ${chalk.bold('See also:')}
       const request: ProblemScrapeRequest = {
         type: 'problem',
         titleSlug: problem,
+        ...(options.bundle ? { includeSolution: true, includeDiscussions: true } : {}),
+        ...(options.premium ? { includePremium: true } : {}),
       }
 
       const result = await scraper.scrape(request)
+      await searchIndex?.flush()
 
-      if (result.success) {
+      if (result.success && result.change?.status === 'unchanged') {
+        spinner.info(
+          `Problem unchanged, skipped\n   ${chalk.gray('Stored at:')} ${result.filePath}`
+        )
+      } else if (result.success) {
+        const changed =
+          result.change?.status === 'changed'
+            ? ` ${chalk.yellow(`(changed: ${result.change.parts.join(', ')})`)}`
+            : ''
         spinner.succeed(
-          `Problem scraped successfully!\n   ${chalk.green('Saved to:')} ${result.filePath}`
+          `Problem scraped successfully!${changed}\n   ${chalk.green('Saved to:')} ${result.filePath}`
         )
+        for (const section of result.sections ?? []) {
+          if (section.section === 'problem') continue
+          if (section.success) {
+            logger.log(`   ${chalk.green('✓')} ${section.section}: ${section.filePath}`)
+          } else {
+            logger.log(
+              `   ${chalk.yellow('⚠')} ${section.section}: ${section.error?.message ?? 'unavailable'}`
+            )
+          }
+        }
         logger.log()
         logger.log(chalk.gray('  Preview:'))
         if (result.data?.content) {
@@ -1,15 +1,24 @@
 import { CookieFileAuth } from '@lesca/auth'
-import { ScrapingError } from '@lesca/error'
+import { ScrapingError, ValidationError } from '@lesca/error'
 import { ListScraperStrategy } from '@lesca/scrapers'
-import { ConfigManager } from '@lesca/shared/config'
+import { ConfigManager, type Config } from '@lesca/shared/config'
 import type { ListScrapeRequest, ProblemListFilters, Difficulty } from '@lesca/shared/types'
 import { logger, createCache } from '@lesca/shared/utils'
+import { createStorage } from '@lesca/storage'
 import chalk from 'chalk'
 import { Command } from 'commander'
-import ora from 'ora'
+import ora, { type Ora } from 'ora'
 
 import { GraphQLClient, RateLimiter } from '@/api-client/src/index'
-
+import { SearchIndex, type SearchDocumentType } from '@/core/src/index'
+
+import {
+  getCookieEncryption,
+  getRateLimitManager,
+  parseDifficulty,
+  parseNumber,
+  parseTags,
+} from '../helpers'
 import { InteractiveSelector } from '../interactive-select'
 import { handleCliError } from '../utils'
 
@@ -21,12 +30,18 @@ interface SearchOptions {
   auth: boolean
   json: boolean
   interactive: boolean
+  local?: boolean
+  reindex?: boolean
+  type?: string
+  output?: string
 }
 
+const LOCAL_TYPES: SearchDocumentType[] = ['problem', 'editorial', 'discussion']
+
 export const searchCommand = new Command('search')
   .alias('s')
   .description(chalk.white('Search LeetCode problems by keyword or title'))
-  .argument('<query>', chalk.gray('Search query (e.g., "binary tree", "graph", "dynamic")'))
+  .argument('[query]', chalk.gray('Search query (e.g., "binary tree", "graph", "dynamic")'))
   .option('-d, --difficulty <level>', 'Filter by difficulty (Easy, Medium, Hard)')
   .option('-t, --tags <tags>', 'Filter by tags (comma-separated)')
   .option('-l, --limit <number>', 'Limit number of results (default: 10)', '10')
@@ -34,6 +49,10 @@ export const searchCommand = new Command('search')
   .option('--no-auth', 'Skip authentication (public problems only)')
   .option('--json', 'Output as JSON')
   .option('-i, --interactive', 'Interactive problem selection')
+  .option('--local', 'Search scraped notes offline instead of LeetCode')
+  .option('--type <type>', 'With --local: only problem, editorial or discussion notes')
+  .option('--reindex', 'With --local: rebuild the index from the notes in storage')
+  .option('-o, --output <dir>', 'With --local: notes directory (default: from config)')
   .addHelpText(
     'after',
     `
@@ -52,23 +71,39 @@ ${chalk.bold('Examples:')}
   ${chalk.gray('# Output as JSON')}
   $ lesca search recursion ${chalk.cyan('--json')} > recursion-problems.json
 
+  ${chalk.gray('# Search scraped notes offline (no cookies needed)')}
+  $ lesca search "monotonic stack" ${chalk.cyan('--local')}
+  $ lesca search "sliding window" ${chalk.cyan('--local -d Medium -t array --type editorial')}
+
+  ${chalk.gray('# Index notes scraped before the index existed')}
+  $ lesca search ${chalk.cyan('--local --reindex')}
+
 ${chalk.bold('Tips:')}
   ${chalk.gray('•')} Use quotes for multi-word queries: ${chalk.cyan('"binary search tree"')}
   ${chalk.gray('•')} Results show acceptance rate to help gauge difficulty
   ${chalk.gray('•')} Combine with tags for more specific results
+  ${chalk.gray('•')} Local results match every word of the query, best matches first
 
 ${chalk.bold('See also:')}
   ${chalk.cyan('lesca list')}            List all problems with filters
   ${chalk.cyan('lesca scrape')}          Scrape a single problem
   `
   )
-  .action(async (query: string, options: SearchOptions) => {
+  .action(async (query: string | undefined, options: SearchOptions) => {
     const spinner = ora('Searching...').start()
 
     try {
       const configManager = ConfigManager.getInstance()
       const config = configManager.getConfig()
 
+      if (options.local) {
+        await searchLocal(query, options, config, spinner)
+        return
+      }
+      if (!query) {
+        throw new ValidationError('VAL_INVALID_INPUT', 'A search query is required')
+      }
+
       const cookiePath = options.cookies || config.auth.cookiePath
       const limit = parseInt(options.limit)
 
@@ -76,7 +111,7 @@ ${chalk.bold('See also:')}
       let auth
       if (options.auth !== false && config.auth.method !== 'none') {
         try {
-          auth = new CookieFileAuth(cookiePath)
+          auth = new CookieFileAuth(cookiePath, await getCookieEncryption(config))
           await auth.authenticate()
           spinner.succeed('Authentication loaded')
         } catch (error) {
@@ -94,7 +129,12 @@ ${chalk.bold('See also:')}
         config.api.rateLimit.maxDelay,
         config.api.rateLimit.jitter
       )
-      const graphqlClient = new GraphQLClient(auth?.getCredentials(), rateLimiter, cache)
+      const graphqlClient = new GraphQLClient({
+        auth: auth?.getCredentials(),
+        rateLimiter,
+        cache,
+        rateLimitManager: getRateLimitManager(),
+      })
 
       // 3. Fetch problem list
       spinner.start(`Searching for "${query}"...`)
@@ -218,3 +258,91 @@ ${chalk.bold('See also:')}
       process.exit(1)
     }
   })
+
+/**
+ * Search the local index of scraped notes
+ * An empty index is built from storage first, so existing notes are found on first use.
+ */
+async function searchLocal(
+  query: string | undefined,
+  options: SearchOptions,
+  config: Config,
+  spinner: Ora
+): Promise<void> {
+  if (options.type && !LOCAL_TYPES.includes(options.type as SearchDocumentType)) {
+    throw new ValidationError(
+      'VAL_INVALID_INPUT',
+      `Invalid type: ${options.type}. Must be ${LOCAL_TYPES.join(', ')}.`
+    )
+  }
+  if (options.interactive) {
+    throw new ValidationError('VAL_INVALID_INPUT', '--interactive cannot be used with --local')
+  }
+  if (!query && !options.reindex) {
+    throw new ValidationError('VAL_INVALID_INPUT', 'A search query is required')
+  }
+  const limit = parseNumber(options.limit, 'limit', 1)
+  const difficulty = parseDifficulty(options.difficulty)
+  const tags = options.tags ? parseTags(options.tags) : []
+
+  const storage = createStorage(config.storage, options.output)
+  const index = await SearchIndex.load(storage)
+
+  if (options.reindex || index.size === 0) {
+    spinner.start('Indexing scraped notes...')
+    const count = await index.rebuild((done, total) => {
+      spinner.text = `Indexing scraped notes... (${done}/${total})`
+    })
+    spinner.succeed(`Indexed ${count} notes`)
+  }
+  if (!query) {
+    return
+  }
+
+  const started = Date.now()
+  const hits = index.search(query, {
+    limit,
+    ...(difficulty ? { difficulty } : {}),
+    ...(tags.length > 0 ? { tags } : {}),
+    ...(options.type ? { type: options.type as SearchDocumentType } : {}),
+  })
+  const elapsed = Date.now() - started
+  spinner.stop()
+
+  if (options.json) {
+    const results = await Promise.all(
+      hits.map(async (hit) => ({ ...hit, snippet: (await index.getSnippet(hit.key, query)) ?? '' }))
+    )
+    logger.log(JSON.stringify(results, null, 2))
+    return
+  }
+
+  if (hits.length === 0) {
+    logger.log(chalk.yellow(`No scraped notes match "${query}"`))
+    return
+  }
+
+  logger.log()
+  logger.log(chalk.bold(`Found ${hits.length} results`) + chalk.gray(` (${elapsed} ms):`))
+  logger.log()
+
+  for (const hit of hits) {
+    let difficultyLabel = hit.difficulty ?? ''
+    if (hit.difficulty === 'Easy') difficultyLabel = chalk.green(hit.difficulty)
+    else if (hit.difficulty === 'Medium') difficultyLabel = chalk.yellow(hit.difficulty)
+    else if (hit.difficulty === 'Hard') difficultyLabel = chalk.red(hit.difficulty)
+
+    const id = hit.frontendId ? chalk.gray(`${hit.frontendId}. `) : ''
+    const type = hit.type === 'problem' ? '' : chalk.cyan(` [${hit.type}]`)
+    logger.log(`${id}${chalk.bold(hit.title)}${type}  ${difficultyLabel}`)
+    logger.log(chalk.gray(`  ${hit.key}`))
+
+    const snippet = await index.getSnippet(hit.key, query, {
+      highlight: (word) => chalk.bold.yellow(word),
+    })
+    if (snippet) {
+      logger.log(`  ${snippet}`)
+    }
+    logger.log()
+  }
+}
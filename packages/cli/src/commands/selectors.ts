@@ -0,0 +1,157 @@
+import { readdir, readFile } from 'fs/promises'
+import { join, relative, resolve } from 'path'
+
+import {
+  runSelectorCheck,
+  type LeetCodeSelectors,
+  type SelectorGroupCheck,
+  type SelectorSnapshot,
+} from '@lesca/browser-automation'
+import { ValidationError } from '@lesca/error'
+import { ConfigManager, getDefaultPaths } from '@lesca/shared/config'
+import { logger } from '@lesca/shared/utils'
+import chalk from 'chalk'
+import { Command } from 'commander'
+import ora from 'ora'
+
+import { createSelectorManager, getStealthOptions } from '../helpers'
+import { handleCliError } from '../utils'
+
+interface SelectorsCheckOptions {
+  section?: string
+  headless: boolean
+  json?: boolean
+}
+
+const SECTIONS = ['problem', 'editorial', 'discussion', 'auth', 'common'] as const
+
+const STATUS_MARKS: Record<SelectorGroupCheck['status'], string> = {
+  ok: chalk.green('✓'),
+  degraded: chalk.yellow('!'),
+  broken: chalk.red('✗'),
+  unchecked: chalk.gray('-'),
+}
+
+export const selectorsCommand = new Command('selectors').description(
+  'Inspect the CSS selectors used to extract page content'
+)
+
+selectorsCommand
+  .command('check')
+  .description('Run every selector group against saved HTML snapshots and report broken ones')
+  .argument('[dir]', 'Snapshot directory (default: browser.selectors.snapshotDir)')
+  .option(
+    '-s, --section <names>',
+    'Comma-separated sections to check: problem, editorial, discussion, auth, common',
+    'problem,editorial,discussion'
+  )
+  .option('--no-headless', 'Run browser in visible mode')
+  .option('--json', 'Output in JSON format')
+  .action(async (dir: string | undefined, options: SelectorsCheckOptions) => {
+    const config = ConfigManager.getInstance().getConfig()
+    const snapshotDir = resolve(
+      dir ?? config.browser.selectors.snapshotDir ?? join(getDefaultPaths().lescaDir, 'snapshots')
+    )
+    const snapshots = await readSnapshots(snapshotDir)
+    if (snapshots.length === 0) {
+      logger.error(`No HTML snapshots found in ${snapshotDir}`)
+      process.exit(1)
+    }
+
+    const spinner = ora(`Checking selectors against ${snapshots.length} snapshot(s)...`).start()
+
+    let checks: SelectorGroupCheck[]
+    try {
+      checks = await runSelectorCheck(await createSelectorManager(config), snapshots, {
+        headless: options.headless && config.browser.headless,
+        timeout: config.browser.timeout,
+        stealth: getStealthOptions(config, false),
+        sections: parseSections(options.section),
+      })
+      spinner.stop()
+    } catch (error) {
+      spinner.fail('Selector check failed')
+      handleCliError('Failed to check selectors', error)
+      process.exit(1)
+    }
+
+    if (options.json) {
+      // eslint-disable-next-line no-console -- JSON output for machine consumption
+      console.log(JSON.stringify(checks, null, 2))
+    } else {
+      printChecks(checks)
+    }
+
+    const broken = checks.filter((check) => check.status === 'broken')
+    const degraded = checks.filter((check) => check.status === 'degraded')
+    if (broken.length > 0) {
+      logger.warn(`${broken.length} of ${checks.length} selector groups are broken`)
+      process.exit(1)
+    }
+    if (degraded.length > 0) {
+      logger.warn(`${degraded.length} selector groups only match through fallbacks`)
+    } else {
+      logger.success('All checked selector groups match')
+    }
+  })
+
+/**
+ * Parse and validate the --section list
+ */
+function parseSections(value = ''): Array<keyof LeetCodeSelectors> {
+  const sections = value
+    .split(',')
+    .map((section) => section.trim())
+    .filter((section) => section.length > 0)
+  const unknown = sections.filter((section) => !(SECTIONS as readonly string[]).includes(section))
+  if (sections.length === 0 || unknown.length > 0) {
+    throw new ValidationError(
+      'VAL_INVALID_INPUT',
+      `Invalid section: ${unknown.join(', ') || value}. Must be one of ${SECTIONS.join(', ')}.`
+    )
+  }
+  return sections as Array<keyof LeetCodeSelectors>
+}
+
+/**
+ * Read every .html file below a directory
+ */
+async function readSnapshots(dir: string, root = dir): Promise<SelectorSnapshot[]> {
+  let entries
+  try {
+    entries = await readdir(dir, { withFileTypes: true })
+  } catch {
+    return []
+  }
+
+  const snapshots: SelectorSnapshot[] = []
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    const path = join(dir, entry.name)
+    if (entry.isDirectory()) {
+      snapshots.push(...(await readSnapshots(path, root)))
+    } else if (entry.isFile() && /\.html?$/i.test(entry.name)) {
+      snapshots.push({ name: relative(root, path), html: await readFile(path, 'utf-8') })
+    }
+  }
+  return snapshots
+}
+
+function printChecks(checks: SelectorGroupCheck[]): void {
+  logger.log(chalk.bold('Selector check'))
+  for (const check of checks) {
+    const matched = check.matches[0]
+    const detail =
+      check.status === 'degraded' && matched
+        ? `fallback ${matched.position}: ${matched.selector}`
+        : check.status === 'broken'
+          ? `no match in ${check.missingIn.join(', ')}`
+          : check.status === 'unchecked'
+            ? 'no snapshot of this page type'
+            : ''
+    logger.log(`${STATUS_MARKS[check.status]} ${check.path.padEnd(24)} ${chalk.gray(detail)}`)
+    for (const selector of check.invalid) {
+      logger.log(chalk.yellow(`    invalid selector: ${selector}`))
+    }
+  }
+  logger.log()
+}
@@ -7,6 +7,8 @@ import type { MetricsSummary, SessionMetrics, CleanupResult } from '@lesca/brows
 import { logger } from '@lesca/shared/utils'
 import { Command } from 'commander'
 
+import { loadRateLimitStates, type RateLimitRecord } from '../rate-limit-state'
+
 /**
  * Global metrics collector instance (shared across commands)
  * This allows stats to persist during a CLI session
@@ -23,6 +25,13 @@ export function getMetricsCollector(): MetricsCollector {
   return globalMetricsCollector
 }
 
+/**
+ * Get the per-endpoint state saved by the last command that made requests
+ */
+function getRateLimitStates(): RateLimitRecord[] {
+  return loadRateLimitStates()?.endpoints ?? []
+}
+
 /**
  * Format timing stats for display
  */
@@ -55,10 +64,22 @@ function formatSessionMetrics(metrics: SessionMetrics): string {
   return lines.join('\n')
 }
 
+/**
+ * Format endpoint rate limit state for display
+ */
+function formatEndpointState(state: RateLimitRecord): string {
+  let status = state.isRateLimited ? 'limited' : 'ok'
+  if (state.isRateLimited && state.rateLimitedUntil !== undefined) {
+    status = `limited until ${new Date(state.rateLimitedUntil).toLocaleTimeString()}`
+  }
+  const endpoint = state.session ? `[${state.session}] ${state.endpoint}` : state.endpoint
+  return `🚦 ${endpoint}: ${status} (${state.hitCount} requests, ${state.consecutiveFailures} consecutive failures)`
+}
+
 /**
  * Format metrics summary for display
  */
-function formatMetricsSummary(summary: MetricsSummary): string {
+function formatMetricsSummary(summary: MetricsSummary, rateLimits: RateLimitRecord[] = []): string {
   const lines = [
     '═══════════════════════════════════════════════════════════════',
     '                    POOL METRICS SUMMARY',
@@ -83,6 +104,17 @@ function formatMetricsSummary(summary: MetricsSummary): string {
     }
   }
 
+  if (rateLimits.length > 0) {
+    lines.push('─────────────────────────────────────────────────────────────────')
+    lines.push('                    RATE LIMITS')
+    lines.push('─────────────────────────────────────────────────────────────────')
+    lines.push('')
+    for (const state of rateLimits) {
+      lines.push(formatEndpointState(state))
+    }
+    lines.push('')
+  }
+
   lines.push('═══════════════════════════════════════════════════════════════')
 
   return lines.join('\n')
@@ -205,11 +237,12 @@ function displayMetricsWithTimestamp(collector: MetricsCollector, sessionName?:
     }
   } else {
     const summary = collector.getSummary()
+    const rateLimits = getRateLimitStates()
     // eslint-disable-next-line no-console -- Terminal output for watch mode
     console.log(`[${timestamp}] Pool Metrics (Press Ctrl+C to exit)\n`)
-    if (summary.totalSessions > 0) {
+    if (summary.totalSessions > 0 || rateLimits.length > 0) {
       // eslint-disable-next-line no-console -- Terminal output for watch mode
-      console.log(formatMetricsSummary(summary))
+      console.log(formatMetricsSummary(summary, rateLimits))
     } else {
       // eslint-disable-next-line no-console -- Terminal output for watch mode
       console.log('Waiting for pool activity...')
@@ -330,8 +363,9 @@ sessionCommand
         }
       } else {
         const summary = collector.getSummary()
+        const rateLimits = getRateLimitStates()
 
-        if (summary.totalSessions === 0) {
+        if (summary.totalSessions === 0 && rateLimits.length === 0) {
           logger.info('No pool metrics available.')
           logger.info('Note: Pool metrics are collected during active scraping operations.')
           logger.info('Use --session <name> to view metrics for a specific session.')
@@ -340,9 +374,9 @@ sessionCommand
 
         if (options.json) {
           // eslint-disable-next-line no-console -- JSON output for machine consumption
-          console.log(JSON.stringify(summary, null, 2))
+          console.log(JSON.stringify({ ...summary, rateLimits }, null, 2))
         } else {
-          logger.info(formatMetricsSummary(summary))
+          logger.info(formatMetricsSummary(summary, rateLimits))
         }
       }
     }
@@ -4,20 +4,46 @@
  * Extracted helper functions for better testability
  */
 
-import { BrowserServiceFactory } from '@lesca/browser-automation'
-import type { BrowserService } from '@lesca/browser-automation'
+import { dirname, resolve } from 'path'
+
+import {
+  BrowserServiceFactory,
+  ENCRYPTION_KEY_ACCOUNT,
+  EncryptionService,
+  GraphQLSnapshots,
+  SelectorManager,
+  createSecretStore,
+  getOrCreateEncryptionKey,
+  loadSelectorOverrides,
+  loadSelectorPromotions,
+  saveSelectorPromotions,
+} from '@lesca/browser-automation'
+import type {
+  BrowserService,
+  BrowserServiceOptions,
+  IRateLimitManager,
+} from '@lesca/browser-automation'
 import { ValidationError } from '@lesca/error'
-import type { ConfigManager } from '@lesca/shared/config'
+import { getDefaultPaths } from '@lesca/shared/config'
+import type { Config, ConfigManager } from '@lesca/shared/config'
+import type { StealthConfig, StorageAdapter } from '@lesca/shared/types'
 import { logger } from '@lesca/shared/utils'
 import chalk from 'chalk'
 
+import { SearchIndex } from '@/core/src/index'
+
+import { getMetricsCollector } from './commands/session'
+import { trackRateLimitManager } from './rate-limit-state'
+
 /**
  * Create BrowserService instance based on config and CLI options
  */
 export function createBrowserService(
   config: ConfigManager,
   sessionName?: string,
-  noSessionPersist?: boolean
+  noSessionPersist?: boolean,
+  snapshots?: BrowserServiceOptions['snapshots'],
+  rateLimitManager?: IRateLimitManager
 ): BrowserService {
   // 1. CLI flag takes precedence
   let finalSessionName = sessionName
@@ -29,11 +55,179 @@ export function createBrowserService(
 
   const auth = config.get('auth')
   const factory = BrowserServiceFactory.getInstance()
+  if (!rateLimitManager) {
+    trackRateLimitManager(factory.getRateLimitManager())
+  }
   return factory.createService({
     ...(finalSessionName ? { sessionName: finalSessionName } : {}),
     persistOnShutdown: !noSessionPersist,
     autoRestore: true,
     ...(auth ? { auth } : {}),
+    ...(snapshots ? { snapshots } : {}),
+    ...(rateLimitManager ? { rateLimitManager } : {}),
+  })
+}
+
+/**
+ * Snapshot mode from the `--record` and `--replay` flags
+ * @throws {ValidationError} If both flags are given
+ */
+export function getSnapshotOptions(options: {
+  record?: string
+  replay?: string
+}): BrowserServiceOptions['snapshots'] {
+  if (options.record && options.replay) {
+    throw new ValidationError('VAL_INVALID_INPUT', '--record and --replay cannot be used together')
+  }
+  if (options.replay) {
+    return { mode: 'replay', dir: resolve(options.replay) }
+  }
+  if (options.record) {
+    return { mode: 'record', dir: resolve(options.record) }
+  }
+  return undefined
+}
+
+/**
+ * GraphQL snapshots for the same directory as the browser's,
+ * so API responses are recorded and replayed along with the pages
+ */
+export function createGraphQLSnapshots(
+  snapshots: BrowserServiceOptions['snapshots']
+): GraphQLSnapshots | undefined {
+  return snapshots ? new GraphQLSnapshots(snapshots.mode, snapshots.dir) : undefined
+}
+
+/**
+ * Load the local search index of a storage, so scraped notes are indexed as they are saved
+ * Returns undefined if the index cannot be read; scrapes then run without indexing.
+ */
+export async function openSearchIndex(storage: StorageAdapter): Promise<SearchIndex | undefined> {
+  try {
+    return await SearchIndex.load(storage)
+  } catch (error) {
+    logger.warn(
+      `Search index unavailable, notes will not be indexed: ${error instanceof Error ? error.message : String(error)}`
+    )
+    return undefined
+  }
+}
+
+/**
+ * Get the rate limit manager shared by API clients and browser services
+ */
+export function getRateLimitManager(): IRateLimitManager {
+  const manager = BrowserServiceFactory.getInstance().getRateLimitManager()
+  trackRateLimitManager(manager)
+  return manager
+}
+
+/**
+ * Create a rate limit manager for one account of a multi-session batch
+ * A 429 on that account then only delays its own requests.
+ */
+export function createRateLimitManager(account: string): IRateLimitManager {
+  const manager = BrowserServiceFactory.getInstance().createRateLimitManager()
+  trackRateLimitManager(manager, account)
+  return manager
+}
+
+/**
+ * Build stealth launch options from `browser.stealth`
+ * The `--stealth` and `--no-stealth` flags override `enabled`.
+ */
+export function getStealthOptions(config: Config, enabled?: boolean): StealthConfig {
+  const { userAgent, ...stealth } = config.browser.stealth
+  const { custom, ...userAgentOptions } = userAgent
+  return {
+    ...stealth,
+    enabled: enabled ?? stealth.enabled,
+    userAgent: { ...userAgentOptions, ...(custom ? { custom } : {}) },
+  }
+}
+
+/**
+ * Build the cookie file encryption from `auth.encryptCookies`
+ * LESCA_ENCRYPTION_KEY wins when set; otherwise the key comes from the
+ * `auth.secureStorage` backend and is generated on first use.
+ */
+export async function getCookieEncryption(config: Config): Promise<EncryptionService | undefined> {
+  if (!config.auth.encryptCookies) {
+    return undefined
+  }
+
+  if (process.env['LESCA_ENCRYPTION_KEY']) {
+    return new EncryptionService({ enabled: true })
+  }
+
+  const key = await getEncryptionKey(config)
+  return new EncryptionService({ enabled: true, key })
+}
+
+/** Set once the key location warning was shown, so batches warn only once */
+let keyLocationWarned = false
+
+/**
+ * Read the cookie encryption key from the `auth.secureStorage` backend
+ * `auto` keeps a key already in the secrets file, so existing encrypted cookies still load,
+ * and otherwise uses the OS keyring, falling back to the secrets file without keytar.
+ */
+async function getEncryptionKey(config: Config): Promise<string> {
+  const options = { path: getDefaultPaths().secretsFile }
+  const { secureStorage } = config.auth
+  if (secureStorage === 'keytar') {
+    return getOrCreateEncryptionKey(createSecretStore('keytar', options))
+  }
+
+  const fileStore = createSecretStore('file', options)
+  if (secureStorage === 'auto' && !(await fileStore.get(ENCRYPTION_KEY_ACCOUNT))) {
+    try {
+      return await getOrCreateEncryptionKey(createSecretStore('keytar', options))
+    } catch (error) {
+      logger.debug('OS keyring unavailable, keeping the cookie encryption key in a file', {
+        error: error instanceof Error ? error.message : String(error),
+      })
+    }
+  }
+
+  const { cookiePath } = config.auth
+  if (!keyLocationWarned && cookiePath && dirname(options.path) === dirname(resolve(cookiePath))) {
+    keyLocationWarned = true
+    logger.warn(
+      `The cookie encryption key (${options.path}) is in the same directory as the cookies it protects. Install keytar to keep it in the OS keyring, or set LESCA_ENCRYPTION_KEY.`
+    )
+  }
+  return getOrCreateEncryptionKey(fileStore)
+}
+
+/**
+ * Build the selector manager from `browser.selectors`
+ * Groups from the YAML `file` override the defaults; hits and misses are
+ * recorded in the shared metrics collector. Promoted fallbacks are saved to
+ * `~/.lesca/selector-promotions.json` and restored by the next run.
+ */
+export async function createSelectorManager(config: Config): Promise<SelectorManager> {
+  const { file, promotionThreshold } = config.browser.selectors
+  const overrides = file ? await loadSelectorOverrides(file) : undefined
+  const promotionsFile = getDefaultPaths().selectorPromotionsFile
+  const promotions = await loadSelectorPromotions(promotionsFile).catch((error: unknown) => {
+    logger.warn(
+      `Ignoring saved selector promotions: ${error instanceof Error ? error.message : String(error)}`
+    )
+    return {}
+  })
+
+  return new SelectorManager(overrides, {
+    metrics: getMetricsCollector(),
+    promotionThreshold,
+    promotions,
+    onPromote: (promoted) => {
+      saveSelectorPromotions(promotionsFile, promoted).catch((error: unknown) => {
+        logger.debug('Could not save selector promotions', {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      })
+    },
   })
 }
 
@@ -6,14 +6,20 @@ import { Command } from 'commander'
 
 import { authCommand } from './commands/auth'
 import { configCommand } from './commands/config'
+import { doctorCommand } from './commands/doctor'
+import { exportCommand } from './commands/export'
+import { graphCommand } from './commands/graph'
 import { initCommand } from './commands/init'
 import { listCommand } from './commands/list'
 import { loginCommand } from './commands/login'
+import { reviewCommand } from './commands/review'
 import { scrapeCommand } from './commands/scrape'
 import { scrapeDiscussionsCommand } from './commands/scrape-discussions'
 import { scrapeEditorialCommand } from './commands/scrape-editorial'
 import { scrapeListCommand } from './commands/scrape-list'
+import { scrapeUserCommand } from './commands/scrape-user'
 import { searchCommand } from './commands/search'
+import { selectorsCommand } from './commands/selectors'
 import { sessionCommand } from './commands/session'
 
 /**
@@ -74,7 +80,13 @@ program.addCommand(scrapeCommand)
 program.addCommand(scrapeListCommand)
 program.addCommand(scrapeEditorialCommand)
 program.addCommand(scrapeDiscussionsCommand)
+program.addCommand(scrapeUserCommand)
+program.addCommand(graphCommand)
+program.addCommand(reviewCommand)
+program.addCommand(exportCommand)
 program.addCommand(configCommand)
 program.addCommand(sessionCommand)
+program.addCommand(doctorCommand)
+program.addCommand(selectorsCommand)
 
 program.parse()
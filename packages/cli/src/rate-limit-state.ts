@@ -0,0 +1,99 @@
+/**
+ * Rate Limit State
+ *
+ * Rate limit managers live in the process that scrapes, so `lesca session stats`
+ * reads their endpoint states from the file written when that process exits.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs'
+import { dirname } from 'path'
+
+import type { EndpointState, IRateLimitManager } from '@lesca/browser-automation'
+import { getDefaultPaths } from '@lesca/shared/config'
+import { logger } from '@lesca/shared/utils'
+
+/**
+ * Endpoint state of the last run, tagged with the account it belongs to
+ */
+export interface RateLimitRecord extends EndpointState {
+  /** Account of a multi-session batch; absent for the shared manager */
+  session?: string
+}
+
+/**
+ * Contents of the rate limit state file
+ */
+export interface SavedRateLimits {
+  savedAt: number
+  endpoints: RateLimitRecord[]
+}
+
+/** Managers whose state is saved on exit, by account name ('' for the shared one) */
+const trackedManagers = new Map<string, IRateLimitManager>()
+
+/**
+ * Save a manager's endpoint states when the process exits
+ *
+ * @param manager - Rate limit manager to save
+ * @param session - Account the manager belongs to
+ */
+export function trackRateLimitManager(manager: IRateLimitManager, session?: string): void {
+  if (trackedManagers.size === 0) {
+    process.once('exit', () => saveRateLimitStates())
+  }
+  trackedManagers.set(session ?? '', manager)
+}
+
+/**
+ * Write the endpoint states of the tracked managers
+ * Synchronous so it can run from the exit handler. Nothing is written when no request was made,
+ * so commands that never touched the network keep the previous run's state.
+ *
+ * @param path - State file (default: `~/.lesca/rate-limits.json`)
+ */
+export function saveRateLimitStates(path = getDefaultPaths().rateLimitFile): void {
+  try {
+    const endpoints = Array.from(trackedManagers).flatMap(([session, manager]) =>
+      manager
+        .getEndpointStates()
+        .map((state): RateLimitRecord => (session ? { ...state, session } : state))
+    )
+    if (endpoints.length === 0) {
+      return
+    }
+
+    mkdirSync(dirname(path), { recursive: true })
+    const saved: SavedRateLimits = { savedAt: Date.now(), endpoints }
+    writeFileSync(path, JSON.stringify(saved, null, 2), 'utf-8')
+  } catch (error) {
+    logger.debug('Could not save rate limit state', {
+      error: error instanceof Error ? error.message : String(error),
+    })
+  }
+}
+
+/**
+ * Read the endpoint states saved by the last run
+ *
+ * @param path - State file (default: `~/.lesca/rate-limits.json`)
+ * @returns The saved states, or undefined if there are none or the file is unreadable
+ */
+export function loadRateLimitStates(
+  path = getDefaultPaths().rateLimitFile
+): SavedRateLimits | undefined {
+  if (!existsSync(path)) {
+    return undefined
+  }
+  try {
+    const saved = JSON.parse(readFileSync(path, 'utf-8')) as Partial<SavedRateLimits>
+    if (typeof saved.savedAt !== 'number' || !Array.isArray(saved.endpoints)) {
+      return undefined
+    }
+    return { savedAt: saved.savedAt, endpoints: saved.endpoints }
+  } catch (error) {
+    logger.debug('Could not read rate limit state', {
+      error: error instanceof Error ? error.message : String(error),
+    })
+    return undefined
+  }
+}
@@ -0,0 +1,186 @@
+/**
+ * Session Re-authentication
+ *
+ * Builds the ReauthCoordinator used by long batches (`auth.autoRefresh`).
+ * Expired cookies are replaced from, in order:
+ * 1. The cookie file, in case it was refreshed since the batch started
+ * 2. The scraping browser, whose session may still be signed in
+ * 3. A manual login in a browser window (interactive terminals only)
+ */
+
+import type { CookieFileAuth } from '@lesca/auth'
+import {
+  AuthHelper,
+  CookieManager,
+  PlaywrightDriver,
+  detectLoginState,
+} from '@lesca/browser-automation'
+import type { Config } from '@lesca/shared/config'
+import type { AuthCredentials, BrowserDriver } from '@lesca/shared/types'
+import { logger } from '@lesca/shared/utils'
+import chalk from 'chalk'
+
+import type { GraphQLClient } from '@/api-client/src/index'
+import { ReauthCoordinator } from '@/core/src/index'
+
+import { getCookieEncryption, getStealthOptions } from './helpers'
+
+/** How long to wait for a manual login (ms) */
+const MANUAL_LOGIN_TIMEOUT = 300000
+
+/**
+ * What a batch re-authenticates
+ */
+export interface ReauthContext {
+  config: Config
+  /** Cookie file the batch authenticated with; refreshed cookies are saved here */
+  cookiePath: string
+  auth: CookieFileAuth
+  graphqlClient: GraphQLClient
+  /** Browser used for scraping; receives the refreshed cookies */
+  driver?: BrowserDriver
+  /** Allow a manual browser login. Default: stdin is a TTY */
+  interactive?: boolean
+}
+
+/**
+ * Create the re-auth coordinator for a batch
+ */
+export function createReauthCoordinator(context: ReauthContext): ReauthCoordinator {
+  const checkSession = async () => (await context.graphqlClient.getUserStatus()).isSignedIn
+
+  return new ReauthCoordinator({
+    checkSession,
+    refresh: async () => {
+      const cookieManager = new CookieManager(await getCookieEncryption(context.config))
+      const driver = context.driver instanceof PlaywrightDriver ? context.driver : undefined
+
+      if (await reloadCookieFile(context, checkSession)) {
+        if (driver) {
+          await cookieManager.loadAndInject(driver, context.cookiePath)
+        }
+        return true
+      }
+
+      if (driver && (await refreshFromBrowser(context, driver, cookieManager, checkSession))) {
+        return true
+      }
+
+      if (context.interactive ?? process.stdin.isTTY === true) {
+        return loginManually(context, driver, cookieManager, checkSession)
+      }
+      return false
+    },
+  })
+}
+
+/**
+ * Use the cookie file if it now holds a working session
+ */
+async function reloadCookieFile(
+  context: ReauthContext,
+  checkSession: () => Promise<boolean>
+): Promise<boolean> {
+  try {
+    await context.auth.refresh()
+    applyCredentials(context)
+    return await checkSession()
+  } catch (error) {
+    logger.debug('Cookie file did not restore the session', {
+      error: error instanceof Error ? error.message : String(error),
+    })
+    return false
+  }
+}
+
+/**
+ * Take the cookies of the scraping browser if it is still signed in
+ */
+async function refreshFromBrowser(
+  context: ReauthContext,
+  driver: PlaywrightDriver,
+  cookieManager: CookieManager,
+  checkSession: () => Promise<boolean>
+): Promise<boolean> {
+  try {
+    await driver.navigate('https://leetcode.com/')
+    if ((await detectLoginState(driver)) !== 'logged-in') {
+      return false
+    }
+
+    context.graphqlClient.setAuth(toCredentials(await cookieManager.refreshCookies(driver)))
+    if (!(await checkSession())) {
+      return false
+    }
+
+    await cookieManager.saveCookies(driver, context.cookiePath)
+    await context.auth.refresh()
+    applyCredentials(context)
+    return true
+  } catch (error) {
+    logger.debug('Browser session did not restore the session', {
+      error: error instanceof Error ? error.message : String(error),
+    })
+    return false
+  }
+}
+
+/**
+ * Open a browser window and wait for the user to log in
+ */
+async function loginManually(
+  context: ReauthContext,
+  driver: PlaywrightDriver | undefined,
+  cookieManager: CookieManager,
+  checkSession: () => Promise<boolean>
+): Promise<boolean> {
+  logger.log(chalk.yellow('\nLeetCode session expired. Log in in the browser window to continue.'))
+
+  const loginDriver = new PlaywrightDriver()
+  try {
+    await loginDriver.launch({
+      headless: false,
+      timeout: context.config.browser.timeout,
+      stealth: getStealthOptions(context.config),
+    })
+    const result = await new AuthHelper(loginDriver, { cookieManager }).waitForManualLogin(
+      MANUAL_LOGIN_TIMEOUT
+    )
+    if (!result.success || !result.cookies) {
+      return false
+    }
+
+    context.graphqlClient.setAuth(toCredentials(result.cookies))
+    if (!(await checkSession())) {
+      return false
+    }
+
+    await cookieManager.saveCookies(loginDriver, context.cookiePath)
+    await context.auth.refresh()
+    applyCredentials(context)
+    if (driver) {
+      await cookieManager.injectCookies(driver, result.cookies)
+    }
+    logger.log(chalk.green(`✓ Cookies saved to: ${context.cookiePath}`))
+    return true
+  } finally {
+    await loginDriver.close()
+  }
+}
+
+/**
+ * Point the GraphQL client at the credentials loaded by the cookie file auth
+ */
+function applyCredentials(context: ReauthContext): void {
+  const credentials = context.auth.getCredentials()
+  if (credentials) {
+    context.graphqlClient.setAuth(credentials)
+  }
+}
+
+function toCredentials(cookies: AuthCredentials['cookies']): AuthCredentials {
+  return {
+    cookies,
+    csrfToken: cookies.find((cookie) => cookie.name === 'csrftoken')?.value ?? '',
+  }
+}
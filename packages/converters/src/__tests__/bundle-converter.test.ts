@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest'
+import { BundleConverter } from '../bundle-converter'
+
+describe('BundleConverter', () => {
+  const converter = new BundleConverter()
+
+  describe('embedSection', () => {
+    it('should strip frontmatter and the title, and demote headings', () => {
+      const editorial = [
+        '---',
+        'title: "Editorial: two-sum"',
+        '---',
+        '',
+        '# Editorial: two-sum',
+        '',
+        '## Approaches',
+        '',
+        '### Approach 1',
+        '',
+        '```python',
+        '# not a heading',
+        '```',
+      ].join('\n')
+
+      expect(BundleConverter.embedSection(editorial)).toBe(
+        ['### Approaches', '', '#### Approach 1', '', '```python', '# not a heading', '```'].join(
+          '\n'
+        )
+      )
+    })
+  })
+
+  describe('toNote', () => {
+    it('should append sections under their own headings', () => {
+      const note = converter.toNote('# Two Sum\n\nProblem body\n', [
+        { id: 'editorial', title: 'Editorial', content: '# Editorial\n\n## Solution\n\nUse a map' },
+        { id: 'discussions', title: 'Discussions', content: '# Discussions\n\nTop post' },
+      ])
+
+      expect(note).toBe(
+        [
+          '# Two Sum',
+          '',
+          'Problem body',
+          '',
+          '## Editorial',
+          '',
+          '### Solution',
+          '',
+          'Use a map',
+          '',
+          '## Discussions',
+          '',
+          'Top post',
+          '',
+        ].join('\n')
+      )
+    })
+
+    it('should report failed sections', () => {
+      const note = converter.toNote('# Two Sum', [
+        { id: 'editorial', title: 'Editorial', error: 'Premium content requires authentication' },
+      ])
+
+      expect(note).toContain('## Editorial\n\n> **Editorial unavailable:** Premium content')
+    })
+
+    it('should use callouts for failed sections in Obsidian mode', () => {
+      const note = converter.toNote(
+        '# Two Sum',
+        [{ id: 'discussions', title: 'Discussions', error: 'Timeout' }],
+        { obsidian: true }
+      )
+
+      expect(note).toContain('> [!warning] Discussions unavailable\n> Timeout')
+    })
+  })
+
+  describe('withLinks', () => {
+    it('should add related links after the frontmatter', () => {
+      const linked = converter.withLinks('---\ntitle: x\n---\n\n# Two Sum\n', [
+        { title: 'Editorial', path: 'editorial.md' },
+        { title: 'Discussions', path: 'discussions.md' },
+      ])
+
+      expect(linked).toBe(
+        '---\ntitle: x\n---\n\n> Related: [Editorial](editorial.md) · [Discussions](discussions.md)\n\n# Two Sum\n'
+      )
+    })
+
+    it('should leave notes without links unchanged', () => {
+      expect(converter.withLinks('# Two Sum\n', [])).toBe('# Two Sum\n')
+    })
+  })
+})
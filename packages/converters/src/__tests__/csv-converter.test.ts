@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest'
+import { CsvConverter } from '../csv-converter'
+import type { ProblemList } from '@lesca/shared/types'
+
+describe('CsvConverter', () => {
+  const converter = new CsvConverter()
+
+  const list: ProblemList = {
+    total: 2,
+    questions: [
+      {
+        questionId: '1',
+        questionFrontendId: '1',
+        title: 'Two Sum',
+        titleSlug: 'two-sum',
+        difficulty: 'Easy',
+        acRate: 51.2,
+        paidOnly: false,
+        likes: 100,
+        dislikes: 5,
+        quality: 95,
+        topicTags: [
+          { name: 'Array', slug: 'array' },
+          { name: 'Hash Table', slug: 'hash-table' },
+        ],
+      },
+      {
+        questionId: '2',
+        questionFrontendId: '2',
+        title: 'Say "Hello", World',
+        titleSlug: 'say-hello-world',
+        difficulty: 'Hard',
+        acRate: 10,
+        paidOnly: true,
+        likes: 1,
+        dislikes: 2,
+        quality: 3,
+        topicTags: [],
+      },
+    ],
+  }
+
+  it('should detect problem lists', () => {
+    expect(converter.canConvert(list)).toBe(true)
+    expect(converter.canConvert({ questions: 'nope' })).toBe(false)
+    expect(converter.canConvert(null)).toBe(false)
+  })
+
+  it('should write a header row and one row per problem', async () => {
+    const csv = await converter.convert(list)
+    const lines = csv.trimEnd().split('\r\n')
+
+    expect(lines[0]).toBe(
+      'id,title,slug,difficulty,acceptance_rate,paid_only,likes,dislikes,quality,tags,url'
+    )
+    expect(lines[1]).toBe(
+      '1,Two Sum,two-sum,Easy,51.2,false,100,5,95,array;hash-table,https://leetcode.com/problems/two-sum/'
+    )
+    expect(lines).toHaveLength(3)
+  })
+
+  it('should quote fields containing commas and quotes', async () => {
+    const csv = await converter.convert(list)
+
+    expect(csv).toContain('"Say ""Hello"", World"')
+  })
+
+  it('should end with CRLF', async () => {
+    expect(await converter.convert({ total: 0, questions: [] })).toMatch(/\r\n$/)
+  })
+
+  it('should throw for invalid input', async () => {
+    await expect(converter.convert('invalid')).rejects.toThrow('Invalid problem list')
+  })
+})
@@ -0,0 +1,300 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { JsonConverter, JSON_SCHEMA_VERSION } from '../json-converter'
+import { parseCompanyTags, parseProblem } from '../problem-parser'
+import type {
+  DiscussionList,
+  EditorialContent,
+  Problem,
+  ProblemList,
+  RawData,
+  User,
+} from '@lesca/shared/types'
+
+describe('JsonConverter', () => {
+  let converter: JsonConverter
+
+  const mockProblem: Problem = {
+    questionId: '1',
+    questionFrontendId: '1',
+    title: 'Two Sum',
+    titleSlug: 'two-sum',
+    likes: 100,
+    dislikes: 5,
+    quality: 95,
+    content: '<p>Given an array of integers <code>nums</code>...</p>',
+    difficulty: 'Easy',
+    exampleTestcases: '[2,7,11,15]\n9',
+    hints: ['Use a hash map'],
+    topicTags: [
+      { name: 'Array', slug: 'array' },
+      { name: 'Hash Table', slug: 'hash-table' },
+    ],
+    companyTagStats: JSON.stringify({
+      '1': [
+        { name: 'Amazon', slug: 'amazon', timesEncountered: 2 },
+        { name: 'Google', slug: 'google', timesEncountered: 5 },
+      ],
+      '2': [{ name: 'Amazon', slug: 'amazon', timesEncountered: 4 }],
+    }),
+    stats: JSON.stringify({
+      totalAccepted: '10.5M',
+      totalSubmission: '20.5M',
+      totalAcceptedRaw: 10500000,
+      totalSubmissionRaw: 20500000,
+      acRate: '51.2%',
+    }),
+    codeSnippets: [{ lang: 'Python3', langSlug: 'python3', code: 'class Solution: pass' }],
+    similarQuestions: JSON.stringify([
+      { title: '3Sum', titleSlug: '3sum', difficulty: 'Medium', questionId: '15' },
+    ]),
+    solution: null,
+    mysqlSchemas: [],
+    dataSchemas: [],
+    isPaidOnly: false,
+  }
+
+  const rawProblem: RawData = {
+    type: 'problem',
+    data: mockProblem,
+    metadata: { scrapedAt: new Date('2024-01-01T00:00:00.000Z'), source: 'graphql' },
+  }
+
+  beforeEach(() => {
+    converter = new JsonConverter()
+  })
+
+  describe('canConvert', () => {
+    it('should accept raw problem data', () => {
+      expect(converter.canConvert(rawProblem)).toBe(true)
+    })
+
+    it('should reject non-raw data', () => {
+      expect(converter.canConvert('string')).toBe(false)
+      expect(converter.canConvert(null)).toBe(false)
+      expect(converter.canConvert({ type: 'unknown', data: {}, metadata: {} })).toBe(false)
+    })
+  })
+
+  describe('problems', () => {
+    it('should wrap output in a versioned envelope', async () => {
+      const doc = await converter.toDocument(rawProblem)
+
+      expect(doc.schemaVersion).toBe(JSON_SCHEMA_VERSION)
+      expect(doc.type).toBe('problem')
+      expect(doc.metadata).toEqual({ scrapedAt: '2024-01-01T00:00:00.000Z', source: 'graphql' })
+      expect(Object.keys(doc)).toEqual(['schemaVersion', 'type', 'metadata', 'data'])
+    })
+
+    it('should give the same document for the same input', async () => {
+      const first = JSON.stringify(await converter.toDocument(rawProblem))
+
+      expect(JSON.stringify(await converter.toDocument(rawProblem))).toBe(first)
+    })
+
+    it('should include parsed stats, tags, companies and snippets', async () => {
+      const doc = await converter.toDocument(rawProblem)
+      const data = doc.data as Awaited<ReturnType<JsonConverter['convertProblem']>>
+
+      expect(data.id).toBe('1')
+      expect(data.url).toBe('https://leetcode.com/problems/two-sum/')
+      expect(data.stats?.totalAcceptedRaw).toBe(10500000)
+      expect(data.stats?.acRate).toBe('51.2%')
+      expect(data.tags.map((t) => t.slug)).toEqual(['array', 'hash-table'])
+      expect(data.companies).toEqual([
+        { name: 'Amazon', slug: 'amazon', timesEncountered: 6 },
+        { name: 'Google', slug: 'google', timesEncountered: 5 },
+      ])
+      expect(data.similarQuestions[0]).toEqual({
+        questionId: '15',
+        titleSlug: '3sum',
+        title: '3Sum',
+        difficulty: 'Medium',
+      })
+      expect(data.codeSnippets).toHaveLength(1)
+      expect(data.hints).toEqual(['Use a hash map'])
+    })
+
+    it('should include both HTML and markdown content', async () => {
+      const doc = await converter.toDocument(rawProblem)
+      const data = doc.data as Awaited<ReturnType<JsonConverter['convertProblem']>>
+
+      expect(data.content.html).toBe(mockProblem.content)
+      expect(data.content.markdown).toContain('`nums`')
+    })
+
+    it('should produce null stats for malformed JSON', async () => {
+      const data = await converter.convertProblem({ ...mockProblem, stats: 'not json' })
+
+      expect(data.stats).toBeNull()
+    })
+
+    it('should serialize to pretty JSON by default', async () => {
+      const json = await converter.convert(rawProblem)
+
+      expect(json).toContain('\n  "schemaVersion": 1')
+      expect(JSON.parse(json)).toMatchObject({ type: 'problem', data: { titleSlug: 'two-sum' } })
+    })
+
+    it('should support compact output', async () => {
+      const json = await new JsonConverter({ pretty: false }).convert(rawProblem)
+
+      expect(json).not.toContain('\n')
+    })
+  })
+
+  describe('editorials', () => {
+    it('should convert approaches and complexity', async () => {
+      const editorial: EditorialContent = {
+        titleSlug: 'two-sum',
+        content: '<p>Overview</p>',
+        approaches: ['<p>Brute force</p>', 'Plain text approach'],
+        complexity: '<p>O(n)</p>',
+        codeSnippets: [],
+      }
+
+      const doc = await converter.toDocument({
+        type: 'editorial',
+        data: editorial,
+        metadata: { scrapedAt: new Date('2024-01-01T00:00:00.000Z') },
+      })
+
+      expect(doc.type).toBe('editorial')
+      expect(doc.data).toMatchObject({
+        titleSlug: 'two-sum',
+        approaches: [
+          { html: '<p>Brute force</p>', markdown: 'Brute force\n' },
+          { html: 'Plain text approach', markdown: 'Plain text approach' },
+        ],
+        complexity: { markdown: 'O(n)\n' },
+      })
+    })
+  })
+
+  describe('discussions', () => {
+    it('should convert each discussion', async () => {
+      const list: DiscussionList = {
+        titleSlug: 'two-sum',
+        category: 'solution',
+        sortBy: 'hot',
+        total: 1,
+        discussions: [
+          {
+            title: 'Hash map solution',
+            author: 'alice',
+            votes: 42,
+            timestamp: null,
+            content: '<p>Use a map</p>',
+            comments: [],
+            commentCount: 0,
+          },
+        ],
+      }
+
+      const doc = await converter.toDocument({
+        type: 'discussion',
+        data: list,
+        metadata: { scrapedAt: new Date('2024-01-01T00:00:00.000Z') },
+      })
+
+      expect(doc.data).toMatchObject({
+        category: 'solution',
+        discussions: [{ title: 'Hash map solution', content: { markdown: 'Use a map\n' } }],
+      })
+    })
+  })
+
+  describe('lists', () => {
+    it('should convert problem lists', async () => {
+      const list: ProblemList = { total: 0, questions: [] }
+
+      const doc = await converter.toDocument({
+        type: 'list',
+        data: list,
+        metadata: { scrapedAt: new Date('2024-01-01T00:00:00.000Z') },
+      })
+
+      expect(doc).toMatchObject({ type: 'list', data: { total: 0, questions: [] } })
+    })
+  })
+
+  describe('users', () => {
+    it('should convert user profiles with solved counts', async () => {
+      const user: User = {
+        username: 'alice',
+        profile: { username: 'alice', reputation: 3, ranking: 100 },
+        submitStats: {
+          acSubmissionNum: [
+            { difficulty: 'All', count: 3 },
+            { difficulty: 'Easy', count: 2 },
+            { difficulty: 'Medium', count: 1 },
+          ],
+        },
+        badges: [],
+        recentAcSubmissions: [
+          { id: '9', title: 'Two Sum', titleSlug: 'two-sum', timestamp: '1704067200' },
+        ],
+      }
+
+      const doc = await converter.toDocument({
+        type: 'user',
+        data: user,
+        metadata: { scrapedAt: new Date('2024-01-01T00:00:00.000Z') },
+      })
+
+      expect(doc).toMatchObject({
+        type: 'user',
+        data: {
+          username: 'alice',
+          url: 'https://leetcode.com/u/alice/',
+          realName: null,
+          ranking: 100,
+          solved: { easy: 2, medium: 1, hard: 0, total: 3 },
+          recentAcSubmissions: [
+            { id: '9', titleSlug: 'two-sum', acceptedAt: '2024-01-01T00:00:00.000Z' },
+          ],
+        },
+      })
+    })
+  })
+
+  it('should throw for unsupported input', async () => {
+    await expect(converter.convert({ foo: 'bar' })).rejects.toThrow('Invalid raw data')
+  })
+})
+
+describe('problem parser', () => {
+  it('should accept company stats keyed by slug', () => {
+    expect(parseCompanyTags({ companyTagStats: JSON.stringify({ 'jane-street': 3 }) })).toEqual([
+      { name: 'Jane Street', slug: 'jane-street', timesEncountered: 3 },
+    ])
+  })
+
+  it('should return empty arrays for missing fields', () => {
+    const parsed = parseProblem({
+      questionId: '1',
+      questionFrontendId: '1',
+      title: 'T',
+      titleSlug: 't',
+      likes: 0,
+      dislikes: 0,
+      quality: 0,
+      content: '',
+      difficulty: 'Easy',
+      exampleTestcases: null,
+      hints: [],
+      topicTags: [],
+      companyTagStats: null,
+      stats: '',
+      codeSnippets: [],
+      similarQuestions: null,
+      solution: null,
+      mysqlSchemas: [],
+      dataSchemas: [],
+      isPaidOnly: false,
+    })
+
+    expect(parsed.parsedCompanyTags).toEqual([])
+    expect(parsed.parsedSimilarQuestions).toEqual([])
+    expect(parsed.parsedStats.totalAcceptedRaw).toBe(0)
+  })
+})
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest'
+import { NoteMerger, GENERATED_REGION_START, GENERATED_REGION_END } from '../note-merger'
+import { ParsingError } from '@lesca/error'
+
+describe('NoteMerger', () => {
+  const merger = new NoteMerger()
+
+  const generated = (difficulty: string, body: string) =>
+    `---\ntitle: Two Sum\ndifficulty: ${difficulty}\ntags:\n  - array\n---\n\n# Two Sum\n\n${body}\n`
+
+  describe('wrap', () => {
+    it('should wrap the body in region markers', () => {
+      const note = merger.wrap(generated('Easy', 'Problem text'))
+
+      expect(note).toBe(
+        `---\ntitle: Two Sum\ndifficulty: Easy\ntags:\n  - array\n---\n\n${GENERATED_REGION_START}\n# Two Sum\n\nProblem text\n${GENERATED_REGION_END}\n`
+      )
+    })
+
+    it('should wrap notes without frontmatter', () => {
+      expect(merger.wrap('# Two Sum\n')).toBe(
+        `${GENERATED_REGION_START}\n# Two Sum\n${GENERATED_REGION_END}\n`
+      )
+    })
+  })
+
+  describe('merge', () => {
+    it('should wrap the note when there is no existing note', () => {
+      const note = generated('Easy', 'Problem text')
+
+      expect(merger.merge(null, note)).toBe(merger.wrap(note))
+    })
+
+    it('should replace the region and keep user sections', () => {
+      const existing = merger
+        .wrap(generated('Easy', 'Old text'))
+        .replace(GENERATED_REGION_START, `> My summary\n\n${GENERATED_REGION_START}`)
+        .concat('\n## My Solution\n\nUse a hash map.\n')
+
+      const merged = merger.merge(existing, generated('Easy', 'New text'))
+
+      expect(merged).toContain('> My summary\n\n<!-- lesca:start -->\n# Two Sum\n\nNew text\n')
+      expect(merged).not.toContain('Old text')
+      expect(merged).toContain('<!-- lesca:end -->\n\n## My Solution\n\nUse a hash map.\n')
+    })
+
+    it('should replace generated keys and keep custom keys in place', () => {
+      const existing = merger
+        .wrap(generated('Easy', 'Text'))
+        .replace(
+          'difficulty: Easy\n',
+          'status: solved\ndifficulty: Easy\nreview_date: 2024-05-01\n'
+        )
+
+      const merged = merger.merge(existing, generated('Medium', 'Text'))
+
+      expect(
+        merged.startsWith(
+          '---\ntitle: Two Sum\nstatus: solved\ndifficulty: Medium\nreview_date: 2024-05-01\ntags:\n  - array\n---\n\n'
+        )
+      ).toBe(true)
+    })
+
+    it('should replace list values of generated keys', () => {
+      const existing = merger.wrap(generated('Easy', 'Text'))
+      const next = generated('Easy', 'Text').replace('  - array\n', '  - array\n  - hash-table\n')
+
+      expect(merger.merge(existing, next)).toContain('tags:\n  - array\n  - hash-table\n---')
+    })
+
+    it('should add new generated keys', () => {
+      const existing = merger.wrap(generated('Easy', 'Text'))
+      const next = generated('Easy', 'Text').replace('---\n\n', 'acceptance: 50%\n---\n\n')
+
+      expect(merger.merge(existing, next)).toContain('  - array\nacceptance: 50%\n---')
+    })
+
+    it('should keep frontmatter added to a note without generated frontmatter', () => {
+      const existing = `---\nstatus: todo\n---\n\n${merger.wrap('# Two Sum\n\nOld\n')}`
+
+      expect(merger.merge(existing, '# Two Sum\n\nNew\n')).toBe(
+        `---\nstatus: todo\n---\n\n${GENERATED_REGION_START}\n# Two Sum\n\nNew\n${GENERATED_REGION_END}\n`
+      )
+    })
+
+    it('should be stable across repeated merges', () => {
+      const note = generated('Easy', 'Text')
+      const once = merger.merge(merger.wrap(note), note)
+
+      expect(merger.merge(once, note)).toBe(once)
+    })
+
+    it('should replace the body of notes without markers', () => {
+      const existing = '---\ntitle: Two Sum\nstatus: solved\n---\n\n# Two Sum\n\nOld text\n'
+
+      const merged = merger.merge(existing, generated('Easy', 'New text'))
+
+      expect(merged).toContain('status: solved')
+      expect(merged).not.toContain('Old text')
+      expect(merged).toContain(`${GENERATED_REGION_START}\n# Two Sum\n\nNew text\n`)
+    })
+
+    it('should throw on unbalanced markers', () => {
+      const existing = `# Notes\n\n${GENERATED_REGION_START}\nText without an end\n`
+
+      expect(() => merger.merge(existing, generated('Easy', 'Text'), 'two-sum.md')).toThrow(
+        ParsingError
+      )
+      expect(() => merger.merge(existing, generated('Easy', 'Text'), 'two-sum.md')).toThrow(
+        'Cannot merge into two-sum.md'
+      )
+    })
+  })
+})
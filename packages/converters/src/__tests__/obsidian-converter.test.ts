@@ -146,6 +146,13 @@ describe('ObsidianConverter', () => {
       expect(result).toContain('- Facebook')
     })
 
+    it('should include the quality score when the problem has votes', () => {
+      expect(converter.convert({ ...mockProblem, quality: 91.5 }, '# Test')).toContain(
+        'quality: 91.5'
+      )
+      expect(converter.convert({ ...mockProblem, quality: 0 }, '# Test')).not.toContain('quality:')
+    })
+
     it('should include similar problems when available', () => {
       const markdown = '# Test'
       const result = converter.convert(mockProblem, markdown)
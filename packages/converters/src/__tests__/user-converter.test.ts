@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest'
+import { UserConverter } from '../user-converter'
+import type { User } from '@lesca/shared/types'
+
+describe('UserConverter', () => {
+  const converter = new UserConverter()
+
+  const user: User = {
+    username: 'alice',
+    profile: {
+      username: 'alice',
+      realName: 'Alice Liddell',
+      aboutMe: 'Grinding graphs',
+      reputation: 1200,
+      ranking: 34567,
+    },
+    submitStats: {
+      acSubmissionNum: [
+        { difficulty: 'All', count: 60 },
+        { difficulty: 'Easy', count: 30 },
+        { difficulty: 'Medium', count: 25 },
+        { difficulty: 'Hard', count: 5 },
+      ],
+    },
+    badges: [{ id: '1', name: 'annual', displayName: 'Annual Badge', icon: '/badge.png' }],
+    recentAcSubmissions: [
+      { id: '99', title: 'Two Sum', titleSlug: 'two-sum', timestamp: '1704067200' },
+    ],
+  }
+
+  describe('getSolvedCounts', () => {
+    it('should use the All bucket as the total', () => {
+      expect(UserConverter.getSolvedCounts(user)).toEqual({
+        easy: 30,
+        medium: 25,
+        hard: 5,
+        total: 60,
+      })
+    })
+
+    it('should sum difficulties when there is no All bucket', () => {
+      const counts = UserConverter.getSolvedCounts({
+        ...user,
+        submitStats: {
+          acSubmissionNum: [
+            { difficulty: 'Easy', count: 3 },
+            { difficulty: 'Hard', count: 1 },
+          ],
+        },
+      })
+
+      expect(counts).toEqual({ easy: 3, medium: 0, hard: 1, total: 4 })
+    })
+  })
+
+  describe('convert', () => {
+    it('should render the profile note', async () => {
+      const markdown = await converter.convert(user)
+
+      expect(markdown).toContain('# alice')
+      expect(markdown).toContain('**Name**: Alice Liddell')
+      expect(markdown).toContain('**Ranking**: 34,567')
+      expect(markdown).toContain('> Grinding graphs')
+      expect(markdown).toContain('| Medium | 25 |')
+      expect(markdown).toContain('| **Total** | **60** |')
+      expect(markdown).toContain('## Badges\n\n- Annual Badge')
+      expect(markdown).toContain(
+        '| 2024-01-01 | [Two Sum](https://leetcode.com/problems/two-sum/) |'
+      )
+    })
+
+    it('should omit empty sections', async () => {
+      const markdown = await converter.convert({ ...user, badges: [], recentAcSubmissions: [] })
+
+      expect(markdown).not.toContain('## Badges')
+      expect(markdown).not.toContain('## Recent Accepted Submissions')
+    })
+
+    it('should reject invalid input', async () => {
+      await expect(converter.convert({ title: 'nope' })).rejects.toThrow('Invalid user data')
+    })
+  })
+
+  describe('convertToObsidian', () => {
+    it('should put counts in the frontmatter', async () => {
+      const markdown = await converter.convertToObsidian(user)
+
+      expect(markdown.startsWith('---\nusername: alice\nname: "Alice Liddell"\ntype: user\n')).toBe(
+        true
+      )
+      expect(markdown).toContain('solved: 60\neasy: 30\nmedium: 25\nhard: 5\nbadges: 1\n')
+      expect(markdown).toContain('  - leetcode/user\n---\n\n# alice')
+    })
+  })
+})
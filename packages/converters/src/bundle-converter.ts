@@ -0,0 +1,110 @@
+/**
+ * Section of a problem bundle
+ */
+export interface BundleSection {
+  /** Section identifier, also used as the file name in folder layout */
+  id: 'editorial' | 'discussions'
+  /** Heading shown for the section */
+  title: string
+  /** Converted Markdown for the section (omitted when it failed) */
+  content?: string
+  /** Reason the section could not be scraped */
+  error?: string
+}
+
+/**
+ * Bundle rendering options
+ */
+export interface BundleOptions {
+  /** Use Obsidian callouts for failed sections */
+  obsidian?: boolean
+}
+
+/**
+ * Problem bundle converter
+ * Combines the problem note with its editorial and discussions, either as
+ * sections of a single note or as separate notes linked to each other.
+ */
+export class BundleConverter {
+  /**
+   * Merge sections into the problem note
+   * Section documents lose their frontmatter and H1, and their headings are
+   * demoted one level so they nest under the section heading.
+   */
+  toNote(problemMarkdown: string, sections: BundleSection[], options: BundleOptions = {}): string {
+    const parts = [problemMarkdown.trimEnd()]
+
+    for (const section of sections) {
+      parts.push(`## ${section.title}`)
+
+      if (section.content !== undefined) {
+        parts.push(BundleConverter.embedSection(section.content))
+      } else {
+        parts.push(this.formatFailure(section, options))
+      }
+    }
+
+    return parts.join('\n\n') + '\n'
+  }
+
+  /**
+   * Add cross-links to a note in folder layout
+   * @param markdown - Note content
+   * @param links - Other notes in the bundle (title and path relative to this note)
+   */
+  withLinks(markdown: string, links: Array<{ title: string; path: string }>): string {
+    if (links.length === 0) {
+      return markdown
+    }
+
+    const related = links.map((link) => `[${link.title}](${encodeURI(link.path)})`).join(' · ')
+    const { frontmatter, body } = BundleConverter.splitFrontmatter(markdown)
+
+    return `${frontmatter}> Related: ${related}\n\n${body.trimStart()}`
+  }
+
+  /**
+   * Describe a section that could not be scraped
+   */
+  formatFailure(section: BundleSection, options: BundleOptions = {}): string {
+    const reason = section.error ?? 'Unknown error'
+
+    if (options.obsidian) {
+      return `> [!warning] ${section.title} unavailable\n> ${reason}`
+    }
+    return `> **${section.title} unavailable:** ${reason}`
+  }
+
+  /**
+   * Prepare a standalone document for embedding as a section
+   */
+  static embedSection(markdown: string): string {
+    const { body } = BundleConverter.splitFrontmatter(markdown)
+    const bodyLines = body.split('\n')
+    const firstContent = bodyLines.findIndex((line) => line.trim() !== '')
+    let inCodeBlock = false
+
+    const lines = bodyLines
+      // Drop the document title, it is replaced by the section heading
+      .filter((line, index) => !(index === firstContent && /^# /.test(line)))
+      .map((line) => {
+        if (/^(```|~~~)/.test(line)) {
+          inCodeBlock = !inCodeBlock
+        }
+        return !inCodeBlock && /^#{1,5} /.test(line) ? `#${line}` : line
+      })
+
+    return lines.join('\n').trim()
+  }
+
+  /**
+   * Split YAML frontmatter from a document
+   */
+  static splitFrontmatter(markdown: string): { frontmatter: string; body: string } {
+    const match = /^---\n[\s\S]*?\n---\n/.exec(markdown)
+    if (!match) {
+      return { frontmatter: '', body: markdown }
+    }
+    return { frontmatter: `${match[0]}\n`, body: markdown.slice(match[0].length) }
+  }
+}
@@ -0,0 +1,82 @@
+import { ParsingError } from '@lesca/error'
+import type { Converter, ProblemList, ProblemListItem } from '@lesca/shared/types'
+
+/**
+ * CSV column definition
+ */
+interface CsvColumn {
+  header: string
+  value: (item: ProblemListItem) => string | number | boolean
+}
+
+/**
+ * Columns written for problem lists, in order
+ */
+const PROBLEM_LIST_COLUMNS: CsvColumn[] = [
+  { header: 'id', value: (p) => p.questionFrontendId },
+  { header: 'title', value: (p) => p.title },
+  { header: 'slug', value: (p) => p.titleSlug },
+  { header: 'difficulty', value: (p) => p.difficulty },
+  { header: 'acceptance_rate', value: (p) => (Number.isFinite(p.acRate) ? p.acRate : '') },
+  { header: 'paid_only', value: (p) => p.paidOnly },
+  { header: 'likes', value: (p) => p.likes ?? '' },
+  { header: 'dislikes', value: (p) => p.dislikes ?? '' },
+  { header: 'quality', value: (p) => p.quality ?? '' },
+  { header: 'tags', value: (p) => (p.topicTags ?? []).map((t) => t.slug).join(';') },
+  { header: 'url', value: (p) => `https://leetcode.com/problems/${p.titleSlug}/` },
+]
+
+/**
+ * Problem list to CSV converter
+ * Produces RFC 4180 CSV (one row per problem, tags separated by semicolons)
+ */
+export class CsvConverter implements Converter {
+  readonly from = 'json' as const
+  readonly to = 'csv' as const
+
+  /**
+   * Check if this converter can handle the input
+   */
+  canConvert(input: unknown): boolean {
+    return (
+      typeof input === 'object' &&
+      input !== null &&
+      'questions' in input &&
+      Array.isArray((input as { questions: unknown }).questions)
+    )
+  }
+
+  /**
+   * Convert a problem list to CSV
+   */
+  convert(input: unknown): Promise<string> {
+    if (!this.canConvert(input)) {
+      return Promise.reject(
+        new ParsingError('PARSE_JSON_FAILED', 'Invalid problem list: expected ProblemList', {
+          context: { inputType: typeof input },
+        })
+      )
+    }
+
+    const list = input as ProblemList
+    const rows = [PROBLEM_LIST_COLUMNS.map((column) => column.header)]
+
+    for (const item of list.questions) {
+      rows.push(PROBLEM_LIST_COLUMNS.map((column) => String(column.value(item))))
+    }
+
+    return Promise.resolve(
+      rows.map((row) => row.map(escapeCsvField).join(',')).join('\r\n') + '\r\n'
+    )
+  }
+}
+
+/**
+ * Quote a CSV field when it contains separators, quotes or line breaks
+ */
+function escapeCsvField(value: string): string {
+  if (/[",\r\n]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`
+  }
+  return value
+}
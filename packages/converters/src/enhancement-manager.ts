@@ -6,6 +6,12 @@ import { CompaniesEnhancer } from './enhancers/companies-enhancer'
 import type { ContentEnhancer, EnhancementOptions } from './enhancers/content-enhancer'
 import { HintsEnhancer } from './enhancers/hints-enhancer'
 
+/**
+ * Version of the enhancer output
+ * Bump when an enhancer changes what it writes, so incremental scrapes rewrite existing notes.
+ */
+export const ENHANCER_VERSION = 1
+
 /**
  * Configuration for enhancements
  */
@@ -8,6 +8,29 @@ export { ObsidianConverter } from './obsidian-converter'
 export type { ObsidianFrontmatter } from './obsidian-converter'
 export { EditorialConverter } from './editorial-converter'
 export { DiscussionConverter } from './discussion-converter'
+export { UserConverter } from './user-converter'
+export type { SolvedCounts } from './user-converter'
+export { JsonConverter, JSON_SCHEMA_VERSION } from './json-converter'
+export type {
+  JsonDocument,
+  JsonPayloads,
+  JsonProblem,
+  JsonEditorial,
+  JsonDiscussions,
+  JsonProblemList,
+  JsonUser,
+  JsonRichText,
+} from './json-converter'
+export { CsvConverter } from './csv-converter'
+export { BundleConverter } from './bundle-converter'
+export type { BundleSection, BundleOptions } from './bundle-converter'
+export { NoteMerger, GENERATED_REGION_START, GENERATED_REGION_END } from './note-merger'
+export {
+  parseProblem,
+  parseProblemStats,
+  parseCompanyTags,
+  parseSimilarQuestions,
+} from './problem-parser'
 
 export * from './enhancers/index'
-export { EnhancementManager, type EnhancementConfig } from './enhancement-manager'
+export { EnhancementManager, ENHANCER_VERSION, type EnhancementConfig } from './enhancement-manager'
@@ -0,0 +1,381 @@
+import { ParsingError } from '@lesca/error'
+import type {
+  CodeSnippet,
+  CompanyTag,
+  Converter,
+  ConverterOptions,
+  DiscussionList,
+  EditorialContent,
+  Problem,
+  ProblemList,
+  ProblemListItem,
+  ProblemStats,
+  RawData,
+  SimilarProblem,
+  TopicTag,
+  User,
+} from '@lesca/shared/types'
+
+import { HtmlToMarkdownConverter } from './html-to-markdown'
+import { parseCompanyTags, parseProblemStats, parseSimilarQuestions } from './problem-parser'
+import { UserConverter, type SolvedCounts } from './user-converter'
+
+/**
+ * Version of the JSON output schema
+ * Bump when a field is removed or changes meaning; adding fields is non-breaking.
+ */
+export const JSON_SCHEMA_VERSION = 1
+
+/**
+ * HTML content with its Markdown rendering
+ */
+export interface JsonRichText {
+  html: string
+  markdown: string
+}
+
+/**
+ * Problem payload of the JSON schema
+ */
+export interface JsonProblem {
+  id: string
+  questionId: string
+  title: string
+  titleSlug: string
+  url: string
+  difficulty: Problem['difficulty']
+  isPaidOnly: boolean
+  likes: number
+  dislikes: number
+  quality: number
+  content: JsonRichText
+  exampleTestcases: string | null
+  hints: string[]
+  tags: TopicTag[]
+  companies: CompanyTag[]
+  stats: ProblemStats | null
+  similarQuestions: SimilarProblem[]
+  codeSnippets: CodeSnippet[]
+  hasSolution: boolean
+}
+
+/**
+ * Editorial payload of the JSON schema
+ */
+export interface JsonEditorial {
+  titleSlug: string
+  url: string
+  content: JsonRichText
+  approaches: JsonRichText[]
+  complexity: JsonRichText | null
+  codeSnippets: CodeSnippet[]
+}
+
+/**
+ * Discussion list payload of the JSON schema
+ */
+export interface JsonDiscussions {
+  titleSlug: string
+  url: string
+  category: string
+  sortBy: string
+  total: number
+  discussions: Array<{
+    title: string
+    author: string
+    votes: number
+    timestamp: string | null
+    commentCount: number
+    content: JsonRichText
+    comments: Array<{ author: string; content: string; timestamp: string | null }>
+  }>
+}
+
+/**
+ * Problem list payload of the JSON schema
+ */
+export interface JsonProblemList {
+  total: number
+  questions: ProblemListItem[]
+}
+
+/**
+ * User profile payload of the JSON schema
+ */
+export interface JsonUser {
+  username: string
+  url: string
+  realName: string | null
+  aboutMe: string | null
+  ranking: number
+  reputation: number
+  solved: SolvedCounts
+  badges: User['badges']
+  recentAcSubmissions: Array<{
+    id: string
+    title: string
+    titleSlug: string
+    acceptedAt: string | null
+  }>
+}
+
+/**
+ * Payload types by document type
+ */
+export interface JsonPayloads {
+  problem: JsonProblem
+  editorial: JsonEditorial
+  discussion: JsonDiscussions
+  list: JsonProblemList
+  user: JsonUser
+}
+
+/**
+ * Versioned JSON document written for every scraped item
+ */
+export interface JsonDocument<T extends keyof JsonPayloads = keyof JsonPayloads> {
+  schemaVersion: typeof JSON_SCHEMA_VERSION
+  type: T
+  metadata: {
+    scrapedAt: string
+    source?: 'graphql' | 'browser'
+    url?: string
+    strategy?: string
+    isPremium?: boolean
+  }
+  data: JsonPayloads[T]
+}
+
+/**
+ * Structured JSON converter
+ * Converts raw scraped data into a stable, versioned JSON schema with parsed
+ * stats, tags, companies and snippets, so downstream tools don't need to re-parse markdown.
+ */
+export class JsonConverter implements Converter {
+  readonly from = 'html' as const
+  readonly to = 'json' as const
+
+  private htmlConverter: HtmlToMarkdownConverter
+
+  constructor(private options: { pretty?: boolean } = {}) {
+    this.htmlConverter = new HtmlToMarkdownConverter()
+  }
+
+  /**
+   * Check if this converter can handle the input
+   */
+  canConvert(input: unknown): boolean {
+    if (typeof input !== 'object' || input === null) {
+      return false
+    }
+
+    const raw = input as Partial<RawData>
+    return (
+      (raw.type === 'problem' ||
+        raw.type === 'editorial' ||
+        raw.type === 'discussion' ||
+        raw.type === 'list' ||
+        raw.type === 'user') &&
+      typeof raw.data === 'object' &&
+      raw.data !== null &&
+      typeof raw.metadata === 'object'
+    )
+  }
+
+  /**
+   * Convert raw data to a JSON string
+   */
+  async convert(input: unknown, options?: ConverterOptions): Promise<string> {
+    const document = await this.toDocument(input, options)
+    return this.options.pretty === false
+      ? JSON.stringify(document)
+      : JSON.stringify(document, null, 2) + '\n'
+  }
+
+  /**
+   * Convert raw data to a JSON document object
+   */
+  async toDocument(input: unknown, options?: ConverterOptions): Promise<JsonDocument> {
+    if (!this.canConvert(input)) {
+      throw new ParsingError(
+        'PARSE_JSON_FAILED',
+        'Invalid raw data: expected problem, editorial, discussion, list or user data',
+        { context: { inputType: typeof input } }
+      )
+    }
+
+    const raw = input as RawData
+
+    switch (raw.type) {
+      case 'problem':
+        return this.createDocument(raw, 'problem', await this.convertProblem(raw.data as Problem))
+      case 'editorial':
+        return this.createDocument(
+          raw,
+          'editorial',
+          await this.convertEditorial(raw.data as EditorialContent, options)
+        )
+      case 'discussion':
+        return this.createDocument(
+          raw,
+          'discussion',
+          await this.convertDiscussions(raw.data as DiscussionList, options)
+        )
+      case 'user':
+        return this.createDocument(raw, 'user', this.convertUser(raw.data as User))
+      default:
+        return this.createDocument(raw, 'list', this.convertList(raw.data as ProblemList))
+    }
+  }
+
+  /**
+   * Build the problem payload
+   */
+  async convertProblem(problem: Problem): Promise<JsonProblem> {
+    return {
+      id: problem.questionFrontendId,
+      questionId: problem.questionId,
+      title: problem.title,
+      titleSlug: problem.titleSlug,
+      url: `https://leetcode.com/problems/${problem.titleSlug}/`,
+      difficulty: problem.difficulty,
+      isPaidOnly: problem.isPaidOnly ?? false,
+      likes: problem.likes ?? 0,
+      dislikes: problem.dislikes ?? 0,
+      quality: problem.quality ?? 0,
+      content: await this.toRichText(problem.content),
+      exampleTestcases: problem.exampleTestcases ?? null,
+      hints: problem.hints ?? [],
+      tags: (problem.topicTags ?? []).map((t) => ({ name: t.name, slug: t.slug })),
+      companies: parseCompanyTags(problem),
+      stats: parseProblemStats(problem),
+      similarQuestions: parseSimilarQuestions(problem),
+      codeSnippets: problem.codeSnippets ?? [],
+      hasSolution: problem.solution?.canSeeDetail ?? false,
+    }
+  }
+
+  /**
+   * Build the editorial payload
+   */
+  async convertEditorial(
+    editorial: EditorialContent,
+    options?: ConverterOptions
+  ): Promise<JsonEditorial> {
+    const approaches: JsonRichText[] = []
+    for (const approach of editorial.approaches ?? []) {
+      approaches.push(await this.toRichText(approach, options))
+    }
+
+    return {
+      titleSlug: editorial.titleSlug,
+      url: `https://leetcode.com/problems/${editorial.titleSlug}/editorial/`,
+      content: await this.toRichText(editorial.content, options),
+      approaches,
+      complexity: editorial.complexity
+        ? await this.toRichText(editorial.complexity, options)
+        : null,
+      codeSnippets: editorial.codeSnippets ?? [],
+    }
+  }
+
+  /**
+   * Build the discussion list payload
+   */
+  async convertDiscussions(
+    discussionList: DiscussionList,
+    options?: ConverterOptions
+  ): Promise<JsonDiscussions> {
+    const discussions: JsonDiscussions['discussions'] = []
+    for (const discussion of discussionList.discussions) {
+      discussions.push({
+        title: discussion.title,
+        author: discussion.author,
+        votes: discussion.votes,
+        timestamp: discussion.timestamp,
+        commentCount: discussion.commentCount,
+        content: await this.toRichText(discussion.content, options),
+        comments: discussion.comments ?? [],
+      })
+    }
+
+    return {
+      titleSlug: discussionList.titleSlug,
+      url: `https://leetcode.com/problems/${discussionList.titleSlug}/solutions/`,
+      category: discussionList.category,
+      sortBy: discussionList.sortBy,
+      total: discussionList.total,
+      discussions,
+    }
+  }
+
+  /**
+   * Build the problem list payload
+   */
+  convertList(list: ProblemList): JsonProblemList {
+    return {
+      total: list.total,
+      questions: list.questions ?? [],
+    }
+  }
+
+  /**
+   * Build the user profile payload
+   */
+  convertUser(user: User): JsonUser {
+    return {
+      username: user.username,
+      url: `https://leetcode.com/u/${user.username}/`,
+      realName: user.profile.realName || null,
+      aboutMe: user.profile.aboutMe || null,
+      ranking: user.profile.ranking,
+      reputation: user.profile.reputation,
+      solved: UserConverter.getSolvedCounts(user),
+      badges: user.badges,
+      recentAcSubmissions: (user.recentAcSubmissions ?? []).map((submission) => {
+        const acceptedAt = new Date(Number(submission.timestamp) * 1000)
+        return {
+          id: submission.id,
+          title: submission.title,
+          titleSlug: submission.titleSlug,
+          acceptedAt: Number.isNaN(acceptedAt.getTime()) ? null : acceptedAt.toISOString(),
+        }
+      }),
+    }
+  }
+
+  /**
+   * Wrap a payload in the versioned document envelope
+   */
+  private createDocument<T extends keyof JsonPayloads>(
+    raw: RawData,
+    type: T,
+    data: JsonPayloads[T]
+  ): JsonDocument<T> {
+    const metadata: JsonDocument['metadata'] = {
+      scrapedAt: new Date(raw.metadata.scrapedAt).toISOString(),
+    }
+    if (raw.metadata.source) metadata.source = raw.metadata.source
+    if (raw.metadata.url) metadata.url = raw.metadata.url
+    if (raw.metadata.strategy) metadata.strategy = raw.metadata.strategy
+    if (raw.metadata.isPremium !== undefined) metadata.isPremium = raw.metadata.isPremium
+
+    return {
+      schemaVersion: JSON_SCHEMA_VERSION,
+      type,
+      metadata,
+      data,
+    }
+  }
+
+  /**
+   * Convert HTML to rich text, keeping plain text as-is
+   */
+  private async toRichText(html: string | null, options?: ConverterOptions): Promise<JsonRichText> {
+    const source = html ?? ''
+    const markdown = this.htmlConverter.canConvert(source)
+      ? await this.htmlConverter.convert(source, options)
+      : source
+    return { html: source, markdown }
+  }
+}
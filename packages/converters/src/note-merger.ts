@@ -0,0 +1,140 @@
+import { ParsingError } from '@lesca/error'
+
+import { BundleConverter } from './bundle-converter'
+
+/**
+ * Markers around the Lesca-generated part of a note
+ * Everything outside them belongs to the user and survives a re-scrape.
+ */
+export const GENERATED_REGION_START = '<!-- lesca:start -->'
+export const GENERATED_REGION_END = '<!-- lesca:end -->'
+
+/**
+ * A top-level frontmatter key with its lines (list items, nested values)
+ */
+interface FrontmatterEntry {
+  key: string | null
+  lines: string[]
+}
+
+/**
+ * Merge-on-write for notes
+ * Generated content is wrapped in region markers. Writing over an existing
+ * note replaces only the marked region and the frontmatter keys Lesca
+ * generates, so personal notes and custom keys (`status`, `review_date`)
+ * are kept.
+ */
+export class NoteMerger {
+  /**
+   * Wrap the body of a generated note in region markers
+   */
+  wrap(generated: string): string {
+    const { frontmatter, body } = BundleConverter.splitFrontmatter(generated)
+    return `${frontmatter}${this.region(body)}\n`
+  }
+
+  /**
+   * Merge a generated note into an existing one
+   * Notes written before merge mode have no markers; their body is
+   * replaced once and their custom frontmatter keys are kept.
+   * @param existing - Stored note, or null when there is none
+   * @param key - Storage key of the note, used in error messages
+   * @throws {ParsingError} If the existing note has unbalanced markers
+   */
+  merge(existing: string | null, generated: string, key?: string): string {
+    if (existing === null) {
+      return this.wrap(generated)
+    }
+
+    const next = BundleConverter.splitFrontmatter(generated)
+    const previous = BundleConverter.splitFrontmatter(existing)
+    const frontmatter = this.mergeFrontmatter(previous.frontmatter, next.frontmatter)
+    const region = this.region(next.body)
+    const body = previous.body.replace(/^\n+/, '')
+
+    const start = body.indexOf(GENERATED_REGION_START)
+    const end = body.indexOf(GENERATED_REGION_END)
+
+    if (start === -1 && end === -1) {
+      return `${frontmatter}${region}\n`
+    }
+
+    if (start === -1 || end < start) {
+      throw new ParsingError(
+        'PARSE_MARKDOWN_FAILED',
+        `Cannot merge into ${key ?? 'note'}: Lesca region markers are missing or out of order`,
+        { context: { key, start, end } }
+      )
+    }
+
+    const before = body.slice(0, start)
+    const after = body.slice(end + GENERATED_REGION_END.length)
+    return `${frontmatter}${before}${region}${after}`
+  }
+
+  /**
+   * Wrap a body in region markers
+   */
+  private region(body: string): string {
+    return `${GENERATED_REGION_START}\n${body.trim()}\n${GENERATED_REGION_END}`
+  }
+
+  /**
+   * Replace the generated keys in existing frontmatter, keeping the others in place
+   */
+  private mergeFrontmatter(existing: string, generated: string): string {
+    if (!generated) {
+      return existing
+    }
+    if (!existing) {
+      return generated
+    }
+
+    const generatedEntries = this.parseFrontmatter(generated)
+    const generatedByKey = new Map<string, FrontmatterEntry>()
+    for (const entry of generatedEntries) {
+      if (entry.key !== null) generatedByKey.set(entry.key, entry)
+    }
+    const used = new Set<string>()
+
+    const entries = this.parseFrontmatter(existing).map((entry) => {
+      const replacement = entry.key !== null ? generatedByKey.get(entry.key) : undefined
+      if (!replacement || entry.key === null) {
+        return entry
+      }
+      used.add(entry.key)
+      return replacement
+    })
+    for (const entry of generatedEntries) {
+      if (entry.key !== null && !used.has(entry.key)) {
+        entries.push(entry)
+      }
+    }
+
+    const lines = entries.flatMap((entry) => entry.lines)
+    return `---\n${lines.join('\n')}\n---\n\n`
+  }
+
+  /**
+   * Split frontmatter into top-level entries
+   * Lines that don't start a key (list items, comments) stay with the entry above.
+   */
+  private parseFrontmatter(frontmatter: string): FrontmatterEntry[] {
+    const lines = frontmatter.trim().split('\n').slice(1, -1)
+    const entries: FrontmatterEntry[] = []
+
+    for (const line of lines) {
+      const match = /^([^\s#-][^:]*):/.exec(line)
+      const last = entries[entries.length - 1]
+      if (match?.[1]) {
+        entries.push({ key: match[1].trim(), lines: [line] })
+      } else if (last) {
+        last.lines.push(line)
+      } else {
+        entries.push({ key: null, lines: [line] })
+      }
+    }
+
+    return entries
+  }
+}
@@ -28,6 +28,8 @@ export interface ObsidianFrontmatter {
   acceptance?: string
   total_accepted?: string
   total_submissions?: string
+  /** Wilson score of likes and dislikes (0-100), see `calculateQuality` */
+  quality?: number
   similar_problems?: string[]
   has_solution: boolean
   scraped_at: string
@@ -111,6 +113,10 @@ export class ObsidianConverter {
     if (stats?.totalSubmission) {
       frontmatter.total_submissions = stats.totalSubmission
     }
+    // Problems without votes score 0, which says nothing about them
+    if (typeof problem.quality === 'number' && problem.quality > 0) {
+      frontmatter.quality = problem.quality
+    }
     if (companies.length > 0) {
       frontmatter.companies = companies
     }
@@ -0,0 +1,148 @@
+import type {
+  CompanyTag,
+  Difficulty,
+  ParsedProblem,
+  Problem,
+  ProblemStats,
+  SimilarProblem,
+} from '@lesca/shared/types'
+
+/**
+ * Parse the JSON-encoded stats field of a problem
+ * Returns null when stats are missing or malformed
+ */
+export function parseProblemStats(problem: Pick<Problem, 'stats'>): ProblemStats | null {
+  if (!problem.stats) {
+    return null
+  }
+
+  try {
+    const raw = JSON.parse(problem.stats) as Partial<ProblemStats>
+    return {
+      totalAccepted: raw.totalAccepted ?? '',
+      totalSubmission: raw.totalSubmission ?? '',
+      totalAcceptedRaw: raw.totalAcceptedRaw ?? 0,
+      totalSubmissionRaw: raw.totalSubmissionRaw ?? 0,
+      acRate: raw.acRate ?? '',
+    }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Parse the JSON-encoded company tag stats of a problem
+ *
+ * LeetCode groups companies by frequency bucket ({"1": [{name, slug, timesEncountered}]}).
+ * Older payloads and test fixtures key companies directly by slug, so both shapes are accepted.
+ * Companies appearing in several buckets are merged and sorted by encounters.
+ */
+export function parseCompanyTags(problem: Pick<Problem, 'companyTagStats'>): CompanyTag[] {
+  if (!problem.companyTagStats) {
+    return []
+  }
+
+  let data: Record<string, unknown>
+  try {
+    data = JSON.parse(problem.companyTagStats) as Record<string, unknown>
+  } catch {
+    return []
+  }
+
+  if (!data || typeof data !== 'object') {
+    return []
+  }
+
+  const companies = new Map<string, CompanyTag>()
+  const add = (tag: CompanyTag) => {
+    const existing = companies.get(tag.slug)
+    if (existing) {
+      existing.timesEncountered += tag.timesEncountered
+    } else {
+      companies.set(tag.slug, { ...tag })
+    }
+  }
+
+  for (const [key, value] of Object.entries(data)) {
+    if (Array.isArray(value)) {
+      for (const entry of value as Array<Partial<CompanyTag>>) {
+        if (!entry || typeof entry.slug !== 'string') continue
+        add({
+          name: entry.name ?? entry.slug,
+          slug: entry.slug,
+          timesEncountered: entry.timesEncountered ?? 0,
+        })
+      }
+    } else {
+      add({
+        name: formatSlug(key),
+        slug: key,
+        timesEncountered: typeof value === 'number' ? value : 0,
+      })
+    }
+  }
+
+  return Array.from(companies.values()).sort(
+    (a, b) => b.timesEncountered - a.timesEncountered || a.name.localeCompare(b.name)
+  )
+}
+
+/**
+ * Parse the JSON-encoded similar questions of a problem
+ */
+export function parseSimilarQuestions(
+  problem: Pick<Problem, 'similarQuestions'>
+): SimilarProblem[] {
+  if (!problem.similarQuestions) {
+    return []
+  }
+
+  try {
+    const similar = JSON.parse(problem.similarQuestions) as unknown
+    if (!Array.isArray(similar)) {
+      return []
+    }
+
+    return similar
+      .filter(
+        (q): q is Partial<SimilarProblem> & { titleSlug: string } =>
+          !!q && typeof (q as SimilarProblem).titleSlug === 'string'
+      )
+      .map((q) => ({
+        questionId: q.questionId ?? '',
+        titleSlug: q.titleSlug,
+        title: q.title ?? formatSlug(q.titleSlug),
+        difficulty: (q.difficulty ?? 'Medium') as Difficulty,
+      }))
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Parse all JSON-encoded fields of a problem
+ */
+export function parseProblem(problem: Problem): ParsedProblem {
+  return {
+    ...problem,
+    parsedStats: parseProblemStats(problem) ?? {
+      totalAccepted: '',
+      totalSubmission: '',
+      totalAcceptedRaw: 0,
+      totalSubmissionRaw: 0,
+      acRate: '',
+    },
+    parsedCompanyTags: parseCompanyTags(problem),
+    parsedSimilarQuestions: parseSimilarQuestions(problem),
+  }
+}
+
+/**
+ * Convert a slug to a readable name ("two-sum" -> "Two Sum")
+ */
+function formatSlug(slug: string): string {
+  return slug
+    .split('-')
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ')
+}
@@ -0,0 +1,190 @@
+import { ParsingError } from '@lesca/error'
+import type { Converter, Difficulty, User } from '@lesca/shared/types'
+
+/**
+ * Solved problem counts by difficulty
+ */
+export interface SolvedCounts {
+  easy: number
+  medium: number
+  hard: number
+  total: number
+}
+
+const DIFFICULTY_KEYS: Record<Difficulty, keyof SolvedCounts> = {
+  Easy: 'easy',
+  Medium: 'medium',
+  Hard: 'hard',
+}
+
+/**
+ * User profile to Markdown Converter
+ * Renders a profile note with solved counts, badges, ranking and recent submissions
+ */
+export class UserConverter implements Converter {
+  readonly from = 'user' as const
+  readonly to = 'markdown' as const
+
+  /**
+   * Check if this converter can handle the input
+   */
+  canConvert(input: unknown): boolean {
+    return (
+      typeof input === 'object' && input !== null && 'username' in input && 'submitStats' in input
+    )
+  }
+
+  /**
+   * Convert a user profile to Markdown
+   */
+  convert(input: unknown): Promise<string> {
+    if (!this.canConvert(input)) {
+      return Promise.reject(this.invalidInput(input))
+    }
+
+    const user = input as User
+    const sections = [`# ${user.username}`, '', ...this.renderBody(user)]
+
+    return Promise.resolve(sections.join('\n'))
+  }
+
+  /**
+   * Convert to Obsidian format
+   * Counts go into the frontmatter so they can be queried across member notes.
+   */
+  convertToObsidian(input: unknown): Promise<string> {
+    if (!this.canConvert(input)) {
+      return Promise.reject(this.invalidInput(input))
+    }
+
+    const user = input as User
+    const solved = UserConverter.getSolvedCounts(user)
+    const sections: string[] = []
+
+    sections.push('---')
+    sections.push(`username: ${user.username}`)
+    if (user.profile.realName) {
+      sections.push(`name: "${user.profile.realName.replace(/"/g, '\\"')}"`)
+    }
+    sections.push(`type: user`)
+    sections.push(`ranking: ${user.profile.ranking}`)
+    sections.push(`reputation: ${user.profile.reputation}`)
+    sections.push(`solved: ${solved.total}`)
+    sections.push(`easy: ${solved.easy}`)
+    sections.push(`medium: ${solved.medium}`)
+    sections.push(`hard: ${solved.hard}`)
+    sections.push(`badges: ${user.badges.length}`)
+    sections.push(`updated: ${new Date().toISOString()}`)
+    sections.push('tags:')
+    sections.push('  - leetcode/user')
+    sections.push('---')
+    sections.push('')
+    sections.push(`# ${user.username}`)
+    sections.push('')
+    sections.push(...this.renderBody(user))
+
+    return Promise.resolve(sections.join('\n'))
+  }
+
+  /**
+   * Count solved problems by difficulty
+   * The API reports an "All" bucket; it is used as the total when present.
+   */
+  static getSolvedCounts(user: User): SolvedCounts {
+    const counts: SolvedCounts = { easy: 0, medium: 0, hard: 0, total: 0 }
+    let allBucket: number | undefined
+
+    for (const entry of user.submitStats.acSubmissionNum) {
+      if (entry.difficulty === 'All') {
+        allBucket = entry.count
+      } else if (entry.difficulty in DIFFICULTY_KEYS) {
+        counts[DIFFICULTY_KEYS[entry.difficulty]] = entry.count
+      }
+    }
+
+    counts.total = allBucket ?? counts.easy + counts.medium + counts.hard
+    return counts
+  }
+
+  /**
+   * Render everything below the title
+   */
+  private renderBody(user: User): string[] {
+    const sections: string[] = []
+    const solved = UserConverter.getSolvedCounts(user)
+
+    if (user.profile.realName) {
+      sections.push(`**Name**: ${user.profile.realName}`)
+    }
+    sections.push(`**Ranking**: ${this.formatNumber(user.profile.ranking)}`)
+    sections.push(`**Reputation**: ${this.formatNumber(user.profile.reputation)}`)
+    sections.push(`**Profile**: https://leetcode.com/u/${user.username}/`)
+    sections.push('')
+
+    if (user.profile.aboutMe) {
+      sections.push(...user.profile.aboutMe.split('\n').map((line) => `> ${line}`))
+      sections.push('')
+    }
+
+    sections.push('## Solved')
+    sections.push('')
+    sections.push('| Difficulty | Solved |')
+    sections.push('| ---------- | ------ |')
+    sections.push(`| Easy | ${solved.easy} |`)
+    sections.push(`| Medium | ${solved.medium} |`)
+    sections.push(`| Hard | ${solved.hard} |`)
+    sections.push(`| **Total** | **${solved.total}** |`)
+    sections.push('')
+
+    if (user.badges.length > 0) {
+      sections.push('## Badges')
+      sections.push('')
+      for (const badge of user.badges) {
+        sections.push(`- ${badge.displayName || badge.name}`)
+      }
+      sections.push('')
+    }
+
+    const recent = user.recentAcSubmissions ?? []
+    if (recent.length > 0) {
+      sections.push('## Recent Accepted Submissions')
+      sections.push('')
+      sections.push('| Date | Problem |')
+      sections.push('| ---- | ------- |')
+      for (const submission of recent) {
+        sections.push(
+          `| ${this.formatTimestamp(submission.timestamp)} | [${submission.title}](https://leetcode.com/problems/${submission.titleSlug}/) |`
+        )
+      }
+      sections.push('')
+    }
+
+    return sections
+  }
+
+  /**
+   * Error for input that is not a user profile
+   */
+  private invalidInput(input: unknown): ParsingError {
+    return new ParsingError('PARSE_MARKDOWN_FAILED', 'Invalid user data: expected User object', {
+      context: { inputType: typeof input },
+    })
+  }
+
+  /**
+   * Format a Unix timestamp (seconds) as a date
+   */
+  private formatTimestamp(timestamp: string): string {
+    const date = new Date(Number(timestamp) * 1000)
+    return Number.isNaN(date.getTime())
+      ? timestamp
+      : (date.toISOString().split('T')[0] ?? timestamp)
+  }
+
+  /**
+   * Format large numbers with separators
+   */
+  private formatNumber(value: number): string {
+    return value.toLocaleString('en-US')
+  }
+}
@@ -0,0 +1,236 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import type { StorageAdapter } from '@lesca/shared/types'
+
+import { AnkiDeckBuilder, ANKI_HINT_MODEL, ANKI_PROBLEM_MODEL, type AnkiDeck } from '../anki-export'
+
+function createMemoryStorage(
+  files: Map<string, string>,
+  binary: Map<string, Uint8Array>
+): StorageAdapter {
+  return {
+    save: vi.fn(() => Promise.resolve()),
+    load: vi.fn((key: string) => Promise.resolve(files.get(key) ?? null)),
+    exists: vi.fn((key: string) => Promise.resolve(files.has(key))),
+    delete: vi.fn(() => Promise.resolve()),
+    list: vi.fn(() => Promise.resolve([...files.keys(), ...binary.keys()])),
+    loadBinary: vi.fn((key: string) => Promise.resolve(binary.get(key) ?? null)),
+  }
+}
+
+const twoSum = `---
+frontend_id: "1"
+title: Two Sum
+titleSlug: two-sum
+difficulty: Easy
+tags:
+  - array
+  - hash-table
+companies:
+  - google
+---
+
+# Two Sum
+
+**Difficulty:** 🟢 Easy
+**Tags:** \`Array\` \`Hash Table\`
+**LeetCode:** [Link](https://leetcode.com/problems/two-sum/)
+
+---
+
+Given an array of integers \`nums\`, return _indices_ of the two numbers.
+
+![example](images/two-sum-1.png)
+
+**Constraints:**
+
+*   2 <= nums.length <= 10^4^
+
+## Hints
+
+1. A really brute force way would be to search for all possible pairs.
+2. Try to use a <code>hash map</code>.
+3. Can you do it in one pass?
+
+## Similar Problems
+
+- 🟡 [[3sum|3Sum]]
+`
+
+const twoSumEditorial = `# Editorial: Two Sum
+
+## Solution
+
+Look up each complement.
+
+## Approaches
+
+### Approach 1
+
+Keep a **hash map** of the values seen so far.
+
+## Complexity Analysis
+
+- Time: O(n)
+`
+
+const trappingRainWater = `---
+frontend_id: "42"
+title: Trapping Rain Water
+titleSlug: trapping-rain-water
+difficulty: Hard
+---
+
+# Trapping Rain Water
+
+Compute how much water it can trap.
+
+## Editorial
+
+### Approaches
+
+#### Approach 1: Two Pointers
+
+Move the lower side inward.
+
+> [!note] Complexity Analysis
+> Time: O(n)
+
+## Discussions
+
+> **Discussions unavailable:** Not scraped
+`
+
+function jsonDocument(type: string, data: Record<string, unknown>): string {
+  return JSON.stringify({ schemaVersion: 1, type, data })
+}
+
+describe('AnkiDeckBuilder', () => {
+  let files: Map<string, string>
+  let binary: Map<string, Uint8Array>
+  let deck: AnkiDeck
+
+  const problemNote = (slug: string) =>
+    deck.notes.find((note) => note.guid === `lesca:problem:${slug}`)
+
+  beforeEach(async () => {
+    files = new Map([
+      ['1-two-sum.md', twoSum],
+      ['1-two-sum-editorial.md', twoSumEditorial],
+      ['42-trapping-rain-water.md', trappingRainWater],
+      [
+        '15-3sum.json',
+        jsonDocument('problem', {
+          id: '15',
+          title: '3Sum',
+          titleSlug: '3sum',
+          url: 'https://leetcode.com/problems/3sum/',
+          difficulty: 'Medium',
+          content: { html: '<p>Find all triplets.</p>', markdown: 'Find all triplets.' },
+          hints: ['Sort the array first.'],
+          tags: [{ name: 'Two Pointers', slug: 'two-pointers' }],
+          companies: [],
+          similarQuestions: [],
+        }),
+      ],
+      [
+        '15-3sum-editorial.json',
+        jsonDocument('editorial', {
+          titleSlug: '3sum',
+          url: 'https://leetcode.com/problems/3sum/editorial/',
+          content: { html: '<p>Overview</p>', markdown: 'Overview' },
+          approaches: [{ html: '<p>Sort, then two pointers.</p>', markdown: '' }],
+          complexity: { html: '<p>O(n<sup>2</sup>)</p>', markdown: '' },
+          codeSnippets: [],
+        }),
+      ],
+      [
+        '200-number-of-islands.md',
+        '# Number of Islands\n\nCount the islands.\n\n## Hints\n\n1. Flood fill\n2. Union find\n',
+      ],
+    ])
+    binary = new Map([['images/two-sum-1.png', new Uint8Array([137, 80, 78, 71])]])
+    deck = await new AnkiDeckBuilder(createMemoryStorage(files, binary)).build()
+  })
+
+  it('should add a problem card per problem with an editorial', () => {
+    expect(deck).toMatchObject({ deckName: 'LeetCode', problems: 3, skipped: 1, hints: 3 })
+    expect(
+      deck.notes.filter((note) => note.model === ANKI_PROBLEM_MODEL).map((note) => note.guid)
+    ).toEqual(['lesca:problem:two-sum', 'lesca:problem:3sum', 'lesca:problem:trapping-rain-water'])
+  })
+
+  it('should render the statement without the title and metadata block', () => {
+    const [title, statement] = problemNote('two-sum')?.fields ?? []
+
+    expect(title).toBe('1. Two Sum')
+    expect(statement).toContain('<code>nums</code>')
+    expect(statement).toContain('<em>indices</em>')
+    expect(statement).toContain('<li>2 &lt;= nums.length &lt;= 10<sup>4</sup></li>')
+    expect(statement).not.toContain('Difficulty')
+    expect(statement).not.toContain('<hr>')
+    expect(statement).not.toContain('Hints')
+    expect(statement).not.toContain('3Sum')
+  })
+
+  it('should read the approach and complexity from editorial notes and documents', () => {
+    const [, , approach, complexity] = problemNote('two-sum')?.fields ?? []
+    expect(approach).toContain('<h3>Approach 1</h3>')
+    expect(approach).toContain('<strong>hash map</strong>')
+    expect(approach).not.toContain('complement')
+    expect(complexity).toBe('<ul><li>Time: O(n)</li></ul>')
+
+    expect(problemNote('3sum')?.fields.slice(1, 4)).toEqual([
+      '<p>Find all triplets.</p>',
+      '<p>Sort, then two pointers.</p>',
+      '<p>O(n<sup>2</sup>)</p>',
+    ])
+  })
+
+  it('should read editorials bundled into the problem note', () => {
+    const [, statement, approach, complexity] = problemNote('trapping-rain-water')?.fields ?? []
+
+    expect(statement).toBe('<p>Compute how much water it can trap.</p>')
+    expect(approach).toBe('<h3>Approach 1: Two Pointers</h3>\n<p>Move the lower side inward.</p>')
+    expect(complexity).toBe('<p>Time: O(n)</p>')
+  })
+
+  it('should add a card from each hint to the next', () => {
+    const hints = deck.notes.filter((note) => note.model === ANKI_HINT_MODEL)
+
+    expect(hints.map((note) => note.guid)).toEqual([
+      'lesca:hint:two-sum:1',
+      'lesca:hint:two-sum:2',
+      'lesca:hint:number-of-islands:1',
+    ])
+    expect(hints[1]?.fields.slice(1, 4)).toEqual([
+      'Try to use a <code>hash map</code>.',
+      'Can you do it in one pass?',
+      'Hint 2 of 3',
+    ])
+  })
+
+  it('should map difficulty, tags and companies to Anki tags', () => {
+    expect(problemNote('two-sum')?.tags).toEqual([
+      'lesca',
+      'difficulty::easy',
+      'array',
+      'hash-table',
+      'company::google',
+    ])
+  })
+
+  it('should embed stored images under a flat media name', () => {
+    const [name, data] = [...deck.media.entries()][0] ?? []
+
+    expect(deck.media.size).toBe(1)
+    expect(name).toMatch(/^lesca-[0-9a-f]{8}-two-sum-1\.png$/)
+    expect(data).toEqual(binary.get('images/two-sum-1.png'))
+    expect(problemNote('two-sum')?.fields[1]).toContain(`<img src="${name}" alt="example">`)
+  })
+
+  it('should build the same notes on every run', async () => {
+    const again = await new AnkiDeckBuilder(createMemoryStorage(files, binary)).build()
+
+    expect(again.notes).toEqual(deck.notes)
+  })
+})
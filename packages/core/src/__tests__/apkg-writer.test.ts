@@ -0,0 +1,100 @@
+import { inflateRawSync } from 'zlib'
+
+import BetterSqlite3 from 'better-sqlite3'
+import { describe, it, expect } from 'vitest'
+
+import { stableAnkiId, writeApkg, type AnkiModel, type AnkiPackage } from '../apkg-writer'
+
+/**
+ * Read the entries of a zip written by `writeApkg` from its local headers
+ */
+function unzip(archive: Buffer): Map<string, Buffer> {
+  const entries = new Map<string, Buffer>()
+  let offset = 0
+  while (archive.readUInt32LE(offset) === 0x04034b50) {
+    const size = archive.readUInt32LE(offset + 18)
+    const nameLength = archive.readUInt16LE(offset + 26)
+    const start = offset + 30 + nameLength
+    const name = archive.toString('utf-8', offset + 30, start)
+    entries.set(name, inflateRawSync(archive.subarray(start, start + size)))
+    offset = start + size
+  }
+  return entries
+}
+
+const model: AnkiModel = {
+  id: 1_700_000_000_001,
+  name: 'Basic',
+  fields: ['Front', 'Back'],
+  templates: [{ name: 'Card 1', front: '{{Front}}', back: '{{FrontSide}}<hr>{{Back}}' }],
+  css: '.card {}',
+}
+
+const pkg: AnkiPackage = {
+  deckName: 'LeetCode',
+  notes: [
+    { guid: 'note-1', model, fields: ['<b>Two Sum</b>', 'Hash map'], tags: ['array', 'lesca'] },
+    { guid: 'note-2', model, fields: ['3Sum', 'Two pointers'], tags: [] },
+  ],
+  media: new Map([['lesca-image.png', new Uint8Array([1, 2, 3])]]),
+}
+
+describe('writeApkg', () => {
+  const now = new Date(2024, 0, 10)
+
+  it('should write the collection, media map and media files', () => {
+    const entries = unzip(writeApkg(pkg, now))
+
+    expect([...entries.keys()]).toEqual(['collection.anki2', 'media', '0'])
+    expect(JSON.parse(entries.get('media')?.toString() ?? '')).toEqual({ 0: 'lesca-image.png' })
+    expect([...(entries.get('0') ?? [])]).toEqual([1, 2, 3])
+  })
+
+  it('should store notes and new cards in the deck', () => {
+    const db = new BetterSqlite3(
+      unzip(writeApkg(pkg, now)).get('collection.anki2') ?? Buffer.alloc(0)
+    )
+    try {
+      const notes = db.prepare('SELECT * FROM notes ORDER BY id').all() as Array<{
+        id: number
+        guid: string
+        mid: number
+        flds: string
+        sfld: string
+        tags: string
+      }>
+      const cards = db.prepare('SELECT nid, did, ord, type, queue FROM cards').all()
+      const col = db.prepare('SELECT ver, models, decks FROM col').get() as {
+        ver: number
+        models: string
+        decks: string
+      }
+      const decks = JSON.parse(col.decks) as Record<string, { name: string }>
+
+      const twoSum = notes.find((note) => note.guid === 'note-1')
+      expect(twoSum).toMatchObject({
+        id: stableAnkiId('note:note-1'),
+        mid: model.id,
+        flds: '<b>Two Sum</b>\x1fHash map',
+        sfld: 'Two Sum',
+        tags: ' array lesca ',
+      })
+      expect(cards).toHaveLength(2)
+      expect(cards[0]).toMatchObject({
+        did: stableAnkiId('deck:LeetCode'),
+        ord: 0,
+        type: 0,
+        queue: 0,
+      })
+      expect(col.ver).toBe(11)
+      expect(Object.keys(JSON.parse(col.models) as object)).toEqual([String(model.id)])
+      expect(decks[stableAnkiId('deck:LeetCode')]?.name).toBe('LeetCode')
+    } finally {
+      db.close()
+    }
+  })
+
+  it('should give the same bytes for the same notes', () => {
+    expect(writeApkg(pkg, now).equals(writeApkg(pkg, now))).toBe(true)
+  })
+})
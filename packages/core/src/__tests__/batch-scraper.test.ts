@@ -1,7 +1,9 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest'
 import { BatchScraper, type BatchProgress } from '../batch-scraper'
+import { ReauthCoordinator } from '../reauth-coordinator'
 import { LeetCodeScraper } from '../scraper'
 import type { ProblemScrapeRequest, ScrapeResult } from '@lesca/shared/types'
+import { AuthError, RateLimitError, ScrapingError } from '@lesca/error'
 
 describe('BatchScraper', () => {
   let mockScraper: LeetCodeScraper
@@ -175,6 +177,36 @@ describe('BatchScraper', () => {
       expect(result.stats.total).toBe(2)
       expect(result.stats.successful).toBe(2)
     })
+
+    it('should summarize incremental changes', async () => {
+      mockScraper.scrape = vi
+        .fn()
+        .mockResolvedValueOnce({ ...mockSuccessResult, change: { status: 'new', parts: [] } })
+        .mockResolvedValueOnce({
+          ...mockSuccessResult,
+          change: { status: 'changed', parts: ['stats'] },
+        })
+        .mockResolvedValueOnce({
+          success: true,
+          request: mockRequest,
+          filePath: '/path/to/file.md',
+          change: { status: 'unchanged', parts: [] },
+        })
+      batchScraper = new BatchScraper(mockScraper, { concurrency: 3, delayBetweenBatches: 0 })
+
+      const result = await batchScraper.scrapeAll([mockRequest, mockRequest, mockRequest])
+
+      expect(result.stats.successful).toBe(3)
+      expect(result.stats.changes).toEqual({ new: 1, changed: 1, unchanged: 1 })
+    })
+
+    it('should omit the change summary for full scrapes', async () => {
+      batchScraper = new BatchScraper(mockScraper, { concurrency: 1, delayBetweenBatches: 0 })
+
+      const result = await batchScraper.scrapeAll([mockRequest])
+
+      expect(result.stats.changes).toBeUndefined()
+    })
   })
 
   describe('error handling', () => {
@@ -288,4 +320,214 @@ describe('BatchScraper', () => {
       expect(result.stats.successful).toBe(1)
     })
   })
+
+  describe('session rotation', () => {
+    const createSession = (
+      name: string,
+      scrape = vi.fn().mockResolvedValue(mockSuccessResult)
+    ) => ({
+      name,
+      scraper: { scrape } as unknown as LeetCodeScraper,
+    })
+
+    it('should spread requests across sessions', async () => {
+      const alice = createSession('alice')
+      const bob = createSession('bob')
+      batchScraper = new BatchScraper(mockScraper, {
+        concurrency: 1,
+        delayBetweenBatches: 0,
+        sessions: [alice, bob],
+      })
+
+      const result = await batchScraper.scrapeAll([mockRequest, mockRequest, mockRequest])
+
+      expect(mockScraper.scrape).not.toHaveBeenCalled()
+      expect(alice.scraper.scrape).toHaveBeenCalledTimes(2)
+      expect(bob.scraper.scrape).toHaveBeenCalledTimes(1)
+      expect(result.stats.sessions).toEqual([
+        { name: 'alice', requests: 2, successful: 2, failed: 0, rateLimited: 0, captchas: 0 },
+        { name: 'bob', requests: 1, successful: 1, failed: 0, rateLimited: 0, captchas: 0 },
+      ])
+    })
+
+    it('should retry rate limited requests on another session', async () => {
+      const throttled = new ScrapingError('SCRAPE_CONTENT_EXTRACTION_FAILED', 'Failed', {
+        cause: new RateLimitError('Too many requests', { retryAfter: 60 }),
+      })
+      const alice = createSession('alice', vi.fn().mockRejectedValue(throttled))
+      const bob = createSession('bob')
+      batchScraper = new BatchScraper(mockScraper, {
+        concurrency: 1,
+        delayBetweenBatches: 0,
+        sessions: [alice, bob],
+      })
+
+      const result = await batchScraper.scrapeAll([mockRequest, mockRequest])
+
+      expect(result.stats.successful).toBe(2)
+      expect(alice.scraper.scrape).toHaveBeenCalledTimes(1)
+      expect(bob.scraper.scrape).toHaveBeenCalledTimes(2)
+      expect(result.stats.sessions?.[0]).toMatchObject({ name: 'alice', failed: 1, rateLimited: 1 })
+    })
+
+    it('should put sessions showing a CAPTCHA on cooldown', async () => {
+      const alice = {
+        ...createSession('alice', vi.fn().mockRejectedValue(new Error('Timeout'))),
+        detectCaptcha: vi.fn().mockResolvedValue(true),
+      }
+      const bob = createSession('bob')
+      batchScraper = new BatchScraper(mockScraper, {
+        concurrency: 1,
+        delayBetweenBatches: 0,
+        sessions: [alice, bob],
+      })
+
+      const result = await batchScraper.scrapeAll([mockRequest, mockRequest])
+
+      expect(result.stats.successful).toBe(2)
+      expect(alice.scraper.scrape).toHaveBeenCalledTimes(1)
+      expect(result.stats.sessions?.[0]).toMatchObject({ name: 'alice', captchas: 1 })
+    })
+
+    it('should not retry other failures', async () => {
+      const alice = {
+        ...createSession('alice', vi.fn().mockResolvedValue(mockFailureResult)),
+        detectCaptcha: vi.fn().mockResolvedValue(false),
+      }
+      const bob = createSession('bob')
+      batchScraper = new BatchScraper(mockScraper, {
+        concurrency: 1,
+        delayBetweenBatches: 0,
+        sessions: [alice, bob],
+      })
+
+      const result = await batchScraper.scrapeAll([mockRequest])
+
+      expect(result.stats.failed).toBe(1)
+      expect(bob.scraper.scrape).not.toHaveBeenCalled()
+      expect(result.stats.sessions?.[0]).toMatchObject({ failed: 1, rateLimited: 0, captchas: 0 })
+    })
+
+    it('should wait for a cooldown when every session is throttled', async () => {
+      vi.useFakeTimers()
+      const scrape = vi
+        .fn()
+        .mockRejectedValueOnce(new RateLimitError('Too many requests', { retryAfter: 5 }))
+        .mockResolvedValue(mockSuccessResult)
+      batchScraper = new BatchScraper(mockScraper, {
+        concurrency: 1,
+        delayBetweenBatches: 0,
+        sessions: [createSession('alice', scrape)],
+      })
+
+      const promise = batchScraper.scrapeAll([mockRequest, mockRequest])
+      await vi.advanceTimersByTimeAsync(4000)
+      expect(scrape).toHaveBeenCalledTimes(1)
+      await vi.advanceTimersByTimeAsync(1000)
+      const result = await promise
+
+      expect(scrape).toHaveBeenCalledTimes(2)
+      expect(result.stats.successful).toBe(1)
+      expect(result.stats.failed).toBe(1)
+      vi.useRealTimers()
+    })
+
+    it('should omit session counts for single-scraper batches', async () => {
+      batchScraper = new BatchScraper(mockScraper, { concurrency: 1, delayBetweenBatches: 0 })
+
+      const result = await batchScraper.scrapeAll([mockRequest])
+
+      expect(result.stats.sessions).toBeUndefined()
+    })
+  })
+
+  describe('re-authentication', () => {
+    const expired: ScrapeResult = {
+      success: false,
+      error: new AuthError('AUTH_SESSION_EXPIRED', 'Session expired'),
+      request: mockRequest,
+    }
+
+    it('should refresh once and retry the requests that failed at the same time', async () => {
+      const scrape = vi
+        .fn()
+        .mockResolvedValueOnce(expired)
+        .mockResolvedValueOnce(expired)
+        .mockResolvedValue(mockSuccessResult)
+      const refresh = vi.fn().mockResolvedValue(true)
+      const reauth = new ReauthCoordinator({ refresh })
+      batchScraper = new BatchScraper({ scrape } as unknown as LeetCodeScraper, {
+        concurrency: 2,
+        delayBetweenBatches: 0,
+        reauth,
+      })
+
+      const result = await batchScraper.scrapeAll([mockRequest, mockRequest])
+
+      expect(refresh).toHaveBeenCalledTimes(1)
+      expect(scrape).toHaveBeenCalledTimes(4)
+      expect(result.stats.successful).toBe(2)
+      expect(reauth.getRefreshCount()).toBe(1)
+    })
+
+    it('should keep the failure when the refresh fails', async () => {
+      const scrape = vi.fn().mockResolvedValue(expired)
+      const refresh = vi.fn().mockResolvedValue(false)
+      batchScraper = new BatchScraper({ scrape } as unknown as LeetCodeScraper, {
+        concurrency: 1,
+        delayBetweenBatches: 0,
+        reauth: new ReauthCoordinator({ refresh, maxAttempts: 1 }),
+      })
+
+      const result = await batchScraper.scrapeAll([mockRequest, mockRequest])
+
+      expect(refresh).toHaveBeenCalledTimes(1)
+      expect(scrape).toHaveBeenCalledTimes(2)
+      expect(result.stats.failed).toBe(2)
+    })
+
+    it('should not refresh for unrelated failures', async () => {
+      const refresh = vi.fn().mockResolvedValue(true)
+      batchScraper = new BatchScraper(
+        { scrape: vi.fn().mockResolvedValue(mockFailureResult) } as unknown as LeetCodeScraper,
+        { concurrency: 1, delayBetweenBatches: 0, reauth: new ReauthCoordinator({ refresh }) }
+      )
+
+      const result = await batchScraper.scrapeAll([mockRequest])
+
+      expect(refresh).not.toHaveBeenCalled()
+      expect(result.stats.failed).toBe(1)
+    })
+
+    it('should refresh the session that expired when rotating', async () => {
+      const aliceRefresh = vi.fn().mockResolvedValue(true)
+      const bobRefresh = vi.fn().mockResolvedValue(true)
+      const alice = {
+        name: 'alice',
+        scraper: {
+          scrape: vi.fn().mockResolvedValueOnce(expired).mockResolvedValue(mockSuccessResult),
+        } as unknown as LeetCodeScraper,
+        reauth: new ReauthCoordinator({ refresh: aliceRefresh }),
+      }
+      const bob = {
+        name: 'bob',
+        scraper: {
+          scrape: vi.fn().mockResolvedValue(mockSuccessResult),
+        } as unknown as LeetCodeScraper,
+        reauth: new ReauthCoordinator({ refresh: bobRefresh }),
+      }
+      batchScraper = new BatchScraper(mockScraper, {
+        concurrency: 1,
+        delayBetweenBatches: 0,
+        sessions: [alice, bob],
+      })
+
+      const result = await batchScraper.scrapeAll([mockRequest, mockRequest])
+
+      expect(aliceRefresh).toHaveBeenCalledTimes(1)
+      expect(bobRefresh).not.toHaveBeenCalled()
+      expect(alice.scraper.scrape).toHaveBeenCalledTimes(2)
+      expect(result.stats.successful).toBe(2)
+    })
+  })
 })
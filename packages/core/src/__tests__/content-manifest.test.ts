@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest'
+import {
+  compareManifests,
+  createContentManifest,
+  isContentManifest,
+  CONTENT_MANIFEST_VERSION,
+} from '../content-manifest'
+import type { Problem, RawData } from '@lesca/shared/types'
+
+describe('content manifest', () => {
+  const problem = {
+    questionId: '1',
+    questionFrontendId: '1',
+    title: 'Two Sum',
+    titleSlug: 'two-sum',
+    difficulty: 'Easy',
+    content: '<p>Problem content</p>',
+    topicTags: [{ name: 'Array', slug: 'array' }],
+    codeSnippets: [{ lang: 'Python3', langSlug: 'python3', code: 'class Solution:' }],
+    stats: '{"acRate":"50%"}',
+    likes: 10,
+  } as unknown as Problem
+
+  const raw = (data: Partial<Problem> = {}, scrapedAt = '2024-01-01'): RawData => ({
+    type: 'problem',
+    data: { ...problem, ...data },
+    metadata: { scrapedAt: new Date(scrapedAt), source: 'graphql' },
+  })
+
+  it('should be stable across scrape times and key order', () => {
+    const reordered = Object.fromEntries(Object.entries(problem).reverse()) as unknown as Problem
+
+    const first = createContentManifest(raw())
+    const second = createContentManifest({ ...raw(reordered, '2024-06-01') })
+
+    expect(first.version).toBe(CONTENT_MANIFEST_VERSION)
+    expect(second).toEqual(first)
+  })
+
+  it('should report new items without a stored manifest', () => {
+    expect(compareManifests(null, createContentManifest(raw()))).toEqual({
+      status: 'new',
+      parts: [],
+    })
+    expect(compareManifests({ scrapedAt: 'x' }, createContentManifest(raw()))).toEqual({
+      status: 'new',
+      parts: [],
+    })
+  })
+
+  it('should report unchanged items', () => {
+    const manifest = createContentManifest(raw())
+
+    expect(compareManifests(JSON.parse(JSON.stringify(manifest)), manifest)).toEqual({
+      status: 'unchanged',
+      parts: [],
+    })
+  })
+
+  it('should report which parts changed', () => {
+    const previous = createContentManifest(raw())
+
+    expect(compareManifests(previous, createContentManifest(raw({ likes: 11 })))).toEqual({
+      status: 'changed',
+      parts: ['stats'],
+    })
+    expect(
+      compareManifests(
+        previous,
+        createContentManifest(raw({ content: '<p>Edited</p>', codeSnippets: [] }))
+      )
+    ).toEqual({ status: 'changed', parts: ['source', 'snippets'] })
+  })
+
+  it('should hash bundled sections into the source and snippets of the problem', () => {
+    const editorial = (content: string, code = 'print(1)'): RawData => ({
+      type: 'editorial',
+      data: {
+        titleSlug: 'two-sum',
+        content,
+        codeSnippets: [{ lang: 'Python3', langSlug: 'python3', code }],
+      },
+      metadata: { scrapedAt: new Date('2024-01-01') },
+    })
+    const previous = createContentManifest(raw(), {}, [
+      { id: 'editorial', rawData: editorial('<p>Use a hash map</p>') },
+    ])
+
+    expect(createContentManifest(raw(), {}, [])).toEqual(createContentManifest(raw()))
+    expect(
+      compareManifests(
+        previous,
+        createContentManifest(raw(), {}, [
+          { id: 'editorial', rawData: editorial('<p>Sort first</p>') },
+        ])
+      )
+    ).toEqual({ status: 'changed', parts: ['source'] })
+    expect(
+      compareManifests(
+        previous,
+        createContentManifest(raw(), {}, [
+          { id: 'editorial', rawData: editorial('<p>Use a hash map</p>', 'print(2)') },
+        ])
+      )
+    ).toEqual({ status: 'changed', parts: ['snippets'] })
+    expect(
+      compareManifests(previous, createContentManifest(raw(), {}, [{ id: 'editorial' }]))
+    ).toEqual({ status: 'changed', parts: ['source', 'snippets'] })
+  })
+
+  it('should track output settings as the enhancers part', () => {
+    const previous = createContentManifest(raw())
+
+    expect(
+      compareManifests(previous, createContentManifest(raw(), { format: 'obsidian' }))
+    ).toEqual({ status: 'changed', parts: ['enhancers'] })
+    expect(
+      compareManifests(
+        previous,
+        createContentManifest(raw(), { enhancements: { hints: { enabled: false } } })
+      )
+    ).toEqual({ status: 'changed', parts: ['enhancers'] })
+  })
+
+  it('should track the other settings that shape the note as the output part', () => {
+    const previous = createContentManifest(raw(), { outputPattern: '{id}-{slug}.md' })
+    const changes = [
+      { outputPattern: '{difficulty}/{slug}.md' },
+      { outputPattern: '{id}-{slug}.md', pipeline: ['problem-markdown', 'tidy'] },
+      { outputPattern: '{id}-{slug}.md', merge: true },
+      { outputPattern: '{id}-{slug}.md', images: { directory: 'assets' } },
+      { outputPattern: '{id}-{slug}.md', plugins: [{ name: 'anki', version: '1.0.0' }] },
+      { outputPattern: '{id}-{slug}.md', bundle: { layout: 'folder', editorial: true } },
+    ]
+
+    for (const options of changes) {
+      expect(compareManifests(previous, createContentManifest(raw(), options))).toEqual({
+        status: 'changed',
+        parts: ['output'],
+      })
+    }
+  })
+
+  it('should treat other manifest versions as changed', () => {
+    const manifest = createContentManifest(raw())
+
+    expect(compareManifests({ ...manifest, version: 0 }, manifest).status).toBe('changed')
+  })
+
+  it('should validate manifests', () => {
+    expect(isContentManifest(createContentManifest(raw()))).toBe(true)
+    expect(isContentManifest({ version: 1 })).toBe(false)
+    expect(isContentManifest(null)).toBe(false)
+  })
+})
@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { ImageDownloader } from '../image-downloader'
+import type { StorageAdapter } from '@lesca/shared/types'
+
+function createMemoryStorage() {
+  const text = new Map<string, string>()
+  const binary = new Map<string, Uint8Array>()
+
+  const storage = {
+    save: vi.fn((key: string, content: string) => {
+      text.set(key, content)
+      return Promise.resolve()
+    }),
+    load: vi.fn((key: string) => Promise.resolve(text.get(key) ?? null)),
+    exists: vi.fn((key: string) => Promise.resolve(text.has(key) || binary.has(key))),
+    delete: vi.fn(() => Promise.resolve()),
+    list: vi.fn(() => Promise.resolve([])),
+    saveBinary: vi.fn((key: string, data: Uint8Array) => {
+      binary.set(key, data)
+      return Promise.resolve()
+    }),
+    loadBinary: vi.fn((key: string) => Promise.resolve(binary.get(key) ?? null)),
+  }
+
+  return { storage: storage as StorageAdapter & typeof storage, text, binary }
+}
+
+function imageResponse(bytes: number[], contentType = 'image/png'): Response {
+  return new Response(new Uint8Array(bytes), {
+    status: 200,
+    headers: { 'content-type': contentType },
+  })
+}
+
+describe('ImageDownloader', () => {
+  let memory: ReturnType<typeof createMemoryStorage>
+  let fetchMock: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    memory = createMemoryStorage()
+    fetchMock = vi.fn((url: string) =>
+      Promise.resolve(url.includes('b.png') ? imageResponse([2, 2]) : imageResponse([1, 1]))
+    )
+  })
+
+  const createDownloader = () =>
+    new ImageDownloader(memory.storage, { fetch: fetchMock as unknown as typeof fetch })
+
+  it('should download images and rewrite links', async () => {
+    const markdown = '![graph](https://assets.leetcode.com/a.png)\n\n![other](https://x.com/b.png)'
+
+    const result = await createDownloader().localize(markdown, {
+      slug: 'two-sum',
+      notePath: '1-two-sum.md',
+    })
+
+    expect(result).toBe('![graph](images/two-sum-1.png)\n\n![other](images/two-sum-2.png)')
+    expect(memory.binary.get('images/two-sum-1.png')).toEqual(new Uint8Array([1, 1]))
+  })
+
+  it('should link relative to nested notes', async () => {
+    const result = await createDownloader().localize('![a](https://x.com/a.png)', {
+      slug: 'two-sum',
+      notePath: 'Easy/array/1-two-sum.md',
+    })
+
+    expect(result).toBe('![a](../../images/two-sum-1.png)')
+  })
+
+  it('should emit Obsidian embeds in obsidian mode', async () => {
+    const result = await createDownloader().localize('![a](https://x.com/a.png)', {
+      slug: 'two-sum',
+      notePath: '1-two-sum.md',
+      obsidian: true,
+    })
+
+    expect(result).toBe('![[images/two-sum-1.png]]')
+  })
+
+  it('should dedupe images by content hash', async () => {
+    const markdown = '![a](https://x.com/a.png) ![c](https://mirror.com/c.png)'
+
+    const result = await createDownloader().localize(markdown, {
+      slug: 'two-sum',
+      notePath: '1-two-sum.md',
+    })
+
+    expect(result).toBe('![a](images/two-sum-1.png) ![c](images/two-sum-1.png)')
+    expect(memory.storage.saveBinary).toHaveBeenCalledTimes(1)
+  })
+
+  it('should reuse previously downloaded URLs across runs', async () => {
+    const context = { slug: 'two-sum', notePath: '1-two-sum.md' }
+    await createDownloader().localize('![a](https://x.com/a.png)', context)
+    fetchMock.mockClear()
+
+    const result = await createDownloader().localize('![a](https://x.com/a.png)', context)
+
+    expect(result).toBe('![a](images/two-sum-1.png)')
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  it('should keep index entries written by other downloaders', async () => {
+    const first = createDownloader()
+    const second = createDownloader()
+    // Both load the (empty) index before either saves
+    await first.download('https://x.com/a.png', 'two-sum', 1)
+    await second.download('https://x.com/b.png', 'add-two-numbers', 1)
+
+    await first.localize('![c](https://x.com/c.png)', { slug: 'two-sum', notePath: 'a.md' })
+    await second.localize('![b](https://x.com/b.png)', {
+      slug: 'add-two-numbers',
+      notePath: 'b.md',
+    })
+
+    const index = JSON.parse(memory.text.get('images/.lesca-images.json') ?? '{}') as {
+      urls: Record<string, string>
+    }
+    expect(Object.keys(index.urls).sort()).toEqual([
+      'https://x.com/a.png',
+      'https://x.com/b.png',
+      'https://x.com/c.png',
+    ])
+  })
+
+  it('should resolve root-relative URLs and rewrite inline HTML images', async () => {
+    const html = '<img src="/static/a.png" width="200">'
+
+    const result = await createDownloader().localize(html, {
+      slug: 'two-sum',
+      notePath: '1-two-sum.md',
+    })
+
+    expect(fetchMock).toHaveBeenCalledWith('https://leetcode.com/static/a.png', expect.anything())
+    expect(result).toBe('<img src="images/two-sum-1.png" width="200">')
+  })
+
+  it('should keep the remote link when a download fails', async () => {
+    fetchMock.mockResolvedValue(new Response('nope', { status: 404 }))
+    const markdown = '![a](https://x.com/a.png)'
+
+    const result = await createDownloader().localize(markdown, {
+      slug: 'two-sum',
+      notePath: '1-two-sum.md',
+    })
+
+    expect(result).toBe(markdown)
+  })
+
+  it('should honor the directory and pattern options', async () => {
+    const downloader = new ImageDownloader(memory.storage, {
+      directory: 'assets',
+      pattern: '{slug}/{hash}.{ext}',
+      fetch: fetchMock as unknown as typeof fetch,
+    })
+
+    const result = await downloader.localize('![a](https://x.com/a.jpg)', {
+      slug: 'two-sum',
+      notePath: '1-two-sum.md',
+    })
+
+    expect(result).toMatch(/^!\[a\]\(assets\/two-sum\/[0-9a-f]{12}\.png\)$/)
+  })
+
+  it('should skip downloading when storage has no binary support', async () => {
+    const { saveBinary: _saveBinary, ...textOnly } = memory.storage
+    const downloader = new ImageDownloader(textOnly as StorageAdapter, {
+      fetch: fetchMock as unknown as typeof fetch,
+    })
+
+    const markdown = '![a](https://x.com/a.png)'
+    expect(await downloader.localize(markdown, { slug: 's', notePath: 'n.md' })).toBe(markdown)
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest'
+
+import {
+  escapeHtml,
+  markdownToHtml,
+  renderInline,
+  resolveImageKey,
+  rewriteImageSources,
+} from '../markdown-html'
+
+describe('markdownToHtml', () => {
+  it('should render code blocks with their highlight.js language', () => {
+    const html = markdownToHtml('```python3\nif a < b:\n    pass\n```\n\n```\nplain\n```')
+
+    expect(html).toBe(
+      '<pre><code class="language-python">if a &lt; b:\n    pass</code></pre>\n<pre><code>plain</code></pre>'
+    )
+  })
+
+  it('should render headings, lists, quotes and callouts', () => {
+    const html = markdownToHtml(
+      '## Hints\n\n1. First\n2. Second\n\n- a\n\n- b\n\n> [!tip] Note\n> Keep it\n\n---'
+    )
+
+    expect(html).toBe(
+      [
+        '<h2>Hints</h2>',
+        '<ol><li>First</li><li>Second</li></ol>',
+        '<ul><li>a</li><li>b</li></ul>',
+        '<blockquote><p><strong>Note</strong></p>\n<p>Keep it</p></blockquote>',
+        '<hr>',
+      ].join('\n')
+    )
+  })
+
+  it('should link wiki links and rewrite link targets', () => {
+    const html = markdownToHtml('See [[3sum|3Sum]] and [Two Sum](/problems/two-sum/).', {
+      link: (href) => `#${href}`,
+      wikiLink: (target, label) => `<a href="${target}.html">${label}</a>`,
+    })
+
+    expect(html).toBe(
+      '<p>See <a href="3sum.html">3Sum</a> and <a href="#/problems/two-sum/">Two Sum</a>.</p>'
+    )
+  })
+})
+
+describe('renderInline', () => {
+  it('should keep math for KaTeX and render emphasis around it', () => {
+    expect(renderInline('**Bold** _x_ $a\\_i * b_j$ and 10^4^')).toBe(
+      '<strong>Bold</strong> <em>x</em> $a_i * b_j$ and 10<sup>4</sup>'
+    )
+  })
+
+  it('should keep inline HTML and code', () => {
+    expect(renderInline('Use a <code>map</code> or `a < b`')).toBe(
+      'Use a <code>map</code> or <code>a &lt; b</code>'
+    )
+  })
+
+  it('should render wiki links as their label without a resolver', () => {
+    expect(renderInline('[[1-two-sum|Two Sum]]')).toBe('Two Sum')
+  })
+})
+
+describe('image helpers', () => {
+  it('should resolve images next to the note and ignore remote ones', () => {
+    expect(resolveImageKey('problems/1-two-sum.md', 'images/a%20b.png')).toBe(
+      'problems/images/a b.png'
+    )
+    expect(resolveImageKey('1-two-sum.md', 'https://assets.leetcode.com/a.png')).toBeNull()
+    expect(resolveImageKey('1-two-sum.md', '../a.png')).toBeNull()
+  })
+
+  it('should rewrite each image source once', async () => {
+    const sources: string[] = []
+    const html = await rewriteImageSources(
+      '<img src="a.png"><img src="a.png" alt="x"><img src="b.png">',
+      (src) => {
+        sources.push(src)
+        return Promise.resolve(src === 'a.png' ? 'files/a.png' : null)
+      }
+    )
+
+    expect(sources).toEqual(['a.png', 'b.png'])
+    expect(html).toBe('<img src="files/a.png"><img src="files/a.png" alt="x"><img src="b.png">')
+  })
+
+  it('should not escape entities twice', () => {
+    expect(escapeHtml('a &amp; b & <c>')).toBe('a &amp; b &amp; &lt;c&gt;')
+  })
+})
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest'
+
+import type { ProblemGraph } from '../problem-graph'
+import { createMocNotes, formatProblemGraph, toDot, toGraphML } from '../problem-graph-export'
+import { readStoredNote } from '../stored-notes'
+
+const graph: ProblemGraph = {
+  nodes: [
+    {
+      id: 'two-sum',
+      key: '1-two-sum.md',
+      title: 'Two Sum',
+      frontendId: '1',
+      difficulty: 'Easy',
+      tags: ['array', 'hash-table'],
+      companies: ['amazon'],
+      cluster: 1,
+    },
+    {
+      id: '3sum',
+      key: '15-3sum.md',
+      title: '3Sum',
+      frontendId: '15',
+      difficulty: 'Medium',
+      tags: ['array', 'two-pointers'],
+      companies: ['amazon'],
+      cluster: 1,
+    },
+    {
+      id: 'contains-duplicate',
+      key: 'Easy/217-contains-duplicate.md',
+      title: 'Contains "Duplicate"',
+      frontendId: '217',
+      difficulty: 'Easy',
+      tags: ['array', 'hash-table'],
+      companies: [],
+      cluster: 2,
+    },
+  ],
+  edges: [
+    { source: 'two-sum', target: '3sum', type: 'similar', weight: 1 },
+    {
+      source: 'two-sum',
+      target: 'contains-duplicate',
+      type: 'tag',
+      weight: 2,
+      shared: ['array', 'hash-table'],
+    },
+  ],
+  tags: { array: 'Array', 'hash-table': 'Hash Table', 'two-pointers': 'Two Pointers' },
+  companies: { amazon: 'Amazon' },
+}
+
+describe('problem graph export', () => {
+  it('should write GraphML with node and edge data', () => {
+    const xml = toGraphML(graph)
+
+    expect(xml).toContain('<key id="cluster" for="node" attr.name="cluster" attr.type="int"/>')
+    expect(xml).toContain('<node id="two-sum">')
+    expect(xml).toContain('<data key="tags">array,hash-table</data>')
+    expect(xml).toContain('<data key="title">Contains &quot;Duplicate&quot;</data>')
+    expect(xml).toContain('<edge id="e1" source="two-sum" target="contains-duplicate">')
+    expect(xml).not.toContain('<data key="companies"></data>')
+    expect(xml.trim().endsWith('</graphml>')).toBe(true)
+  })
+
+  it('should write DOT with escaped labels and styled edges', () => {
+    const dot = toDot(graph)
+
+    expect(dot.startsWith('graph problems {')).toBe(true)
+    expect(dot).toContain('"contains-duplicate" [label="217. Contains \\"Duplicate\\"", cluster=2')
+    expect(dot).toContain('"two-sum" -- "3sum" [type=similar, weight=1, style=solid];')
+    expect(dot).toContain('style=dashed, label="array, hash-table"')
+  })
+
+  it('should write JSON', () => {
+    expect(JSON.parse(formatProblemGraph(graph, 'json'))).toEqual(graph)
+  })
+
+  describe('createMocNotes', () => {
+    it('should write a note per tag and company', () => {
+      const notes = createMocNotes(graph)
+
+      expect(notes.map((note) => note.key)).toEqual([
+        'moc/tags/array.md',
+        'moc/tags/hash-table.md',
+        'moc/tags/two-pointers.md',
+        'moc/companies/amazon.md',
+      ])
+    })
+
+    it('should group problems into study paths by cluster, easiest first', () => {
+      const array = createMocNotes(graph, { folder: 'maps/' }).find(
+        (note) => note.key === 'maps/tags/array.md'
+      )
+
+      expect(array?.content).toBe(
+        [
+          '---',
+          'type: moc',
+          'tag: array',
+          'problems: 3',
+          '---',
+          '',
+          '# Array',
+          '',
+          '3 problems · 🟢 2 Easy · 🟡 1 Medium',
+          '',
+          'Related: [[maps/tags/hash-table|Hash Table]], [[maps/tags/two-pointers|Two Pointers]]',
+          '',
+          '## Study Paths',
+          '',
+          '### Path 1',
+          '',
+          '- 🟢 [[1-two-sum|1. Two Sum]]',
+          '- 🟡 [[15-3sum|15. 3Sum]]',
+          '',
+          '## Other Problems',
+          '',
+          '- 🟢 [[Easy/217-contains-duplicate|217. Contains "Duplicate"]]',
+          '',
+        ].join('\n')
+      )
+    })
+
+    it('should skip small groups and be skipped when notes are read back', () => {
+      const notes = createMocNotes(graph, { minProblems: 3 })
+
+      expect(notes.map((note) => note.key)).toEqual(['moc/tags/array.md'])
+      expect(readStoredNote(notes[0]?.key ?? '', notes[0]?.content ?? '')).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import type { StorageAdapter } from '@lesca/shared/types'
+
+import { ProblemGraphBuilder } from '../problem-graph'
+
+function createMemoryStorage(files: Map<string, string>): StorageAdapter {
+  return {
+    save: vi.fn(() => Promise.resolve()),
+    load: vi.fn((key: string) => Promise.resolve(files.get(key) ?? null)),
+    exists: vi.fn((key: string) => Promise.resolve(files.has(key))),
+    delete: vi.fn(() => Promise.resolve()),
+    list: vi.fn(() => Promise.resolve([...files.keys()])),
+  }
+}
+
+function obsidianNote(fields: {
+  id: string
+  slug: string
+  title: string
+  difficulty: string
+  tags: string[]
+  companies?: string[]
+  similar?: string[]
+}): string {
+  const list = (name: string, values: string[] = []) =>
+    values.length > 0 ? [`${name}:`, ...values.map((value) => `  - ${value}`)] : []
+  return [
+    '---',
+    `frontend_id: "${fields.id}"`,
+    `title: ${fields.title}`,
+    `titleSlug: ${fields.slug}`,
+    `difficulty: ${fields.difficulty}`,
+    ...list('tags', fields.tags),
+    ...list('companies', fields.companies),
+    ...list('similar_problems', fields.similar),
+    '---',
+    '',
+    `# ${fields.title}`,
+    '',
+  ].join('\n')
+}
+
+describe('ProblemGraphBuilder', () => {
+  let files: Map<string, string>
+  let storage: StorageAdapter
+
+  beforeEach(() => {
+    files = new Map([
+      [
+        '1-two-sum.md',
+        obsidianNote({
+          id: '1',
+          slug: 'two-sum',
+          title: 'Two Sum',
+          difficulty: 'Easy',
+          tags: ['array', 'hash-table'],
+          companies: ['google', 'amazon', '1'],
+          similar: ['3sum', 'four-sum-not-stored'],
+        }),
+      ],
+      [
+        '15-3sum.md',
+        obsidianNote({
+          id: '15',
+          slug: '3sum',
+          title: '3Sum',
+          difficulty: 'Medium',
+          tags: ['array', 'two-pointers', 'sorting'],
+          companies: ['google', 'amazon'],
+          similar: ['two-sum'],
+        }),
+      ],
+      [
+        '18-4sum.json',
+        JSON.stringify({
+          schemaVersion: 1,
+          type: 'problem',
+          data: {
+            id: '18',
+            title: '4Sum',
+            titleSlug: '4sum',
+            difficulty: 'Medium',
+            tags: [
+              { name: 'Array', slug: 'array' },
+              { name: 'Two Pointers', slug: 'two-pointers' },
+            ],
+            companies: [{ name: 'Amazon', slug: 'amazon', timesEncountered: 3 }],
+            similarQuestions: [
+              { questionId: '15', titleSlug: '3sum', title: '3Sum', difficulty: 'Medium' },
+            ],
+          },
+        }),
+      ],
+      [
+        '200-number-of-islands.md',
+        '# Number of Islands\n\n## Similar Problems\n\n- 🟡 [[surrounded-regions|Surrounded Regions]]\n',
+      ],
+      ['130-surrounded-regions.md', '# Surrounded Regions\n'],
+      ['1-two-sum-editorial.md', '# Editorial: Two Sum\n'],
+      ['moc/tags/array.md', '---\ntype: moc\ntag: array\n---\n\n# Array\n'],
+      ['.lesca/search-index.json', '{}'],
+    ])
+    storage = createMemoryStorage(files)
+  })
+
+  it('should add a node per stored problem in problem order', async () => {
+    const graph = await new ProblemGraphBuilder(storage).build()
+
+    expect(graph.nodes.map((node) => node.id)).toEqual([
+      'two-sum',
+      '3sum',
+      '4sum',
+      'surrounded-regions',
+      'number-of-islands',
+    ])
+    expect(graph.nodes[0]).toMatchObject({
+      key: '1-two-sum.md',
+      title: 'Two Sum',
+      frontendId: '1',
+      difficulty: 'Easy',
+      tags: ['array', 'hash-table'],
+      companies: ['google', 'amazon'],
+    })
+  })
+
+  it('should link similar questions once and only between stored problems', async () => {
+    const graph = await new ProblemGraphBuilder(storage, { edges: ['similar'] }).build()
+
+    expect(graph.edges.map(({ source, target }) => [source, target])).toEqual([
+      ['two-sum', '3sum'],
+      ['4sum', '3sum'],
+      ['number-of-islands', 'surrounded-regions'],
+    ])
+  })
+
+  it('should link problems sharing enough tags or companies', async () => {
+    const graph = await new ProblemGraphBuilder(storage, { edges: ['tag', 'company'] }).build()
+
+    expect(graph.edges).toEqual([
+      {
+        source: '3sum',
+        target: '4sum',
+        type: 'tag',
+        weight: 2,
+        shared: ['array', 'two-pointers'],
+      },
+      {
+        source: 'two-sum',
+        target: '3sum',
+        type: 'company',
+        weight: 2,
+        shared: ['google', 'amazon'],
+      },
+    ])
+  })
+
+  it('should apply the shared tag threshold', async () => {
+    const graph = await new ProblemGraphBuilder(storage, {
+      edges: ['tag'],
+      minSharedTags: 1,
+    }).build()
+
+    expect(graph.edges).toHaveLength(3)
+  })
+
+  it('should number clusters of similar questions by size', async () => {
+    const graph = await new ProblemGraphBuilder(storage, { edges: [] }).build()
+    const clusters = Object.fromEntries(graph.nodes.map((node) => [node.id, node.cluster]))
+
+    expect(graph.edges).toEqual([])
+    expect(clusters).toEqual({
+      'two-sum': 1,
+      '3sum': 1,
+      '4sum': 1,
+      'surrounded-regions': 2,
+      'number-of-islands': 2,
+    })
+  })
+
+  it('should collect tag and company names', async () => {
+    const graph = await new ProblemGraphBuilder(storage).build()
+
+    expect(graph.tags).toEqual({
+      array: 'Array',
+      'hash-table': 'Hash Table',
+      sorting: 'Sorting',
+      'two-pointers': 'Two Pointers',
+    })
+    expect(graph.companies).toEqual({ amazon: 'Amazon', google: 'Google' })
+  })
+})
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi } from 'vitest'
+import { ProcessorPipeline, ProcessorRegistry, isProcessedData } from '../processor-pipeline'
+import { createBuiltinProcessors, DEFAULT_PIPELINE } from '../processors'
+import { ConfigError, LescaError } from '@lesca/error'
+import type { ProcessedData, Processor, RawData } from '@lesca/shared/types'
+
+describe('processor pipeline', () => {
+  const problemData: RawData = {
+    type: 'problem',
+    data: {
+      questionId: '1',
+      questionFrontendId: '1',
+      title: 'Two Sum',
+      titleSlug: 'two-sum',
+      difficulty: 'Easy',
+      content: '<p>Problem content</p>',
+      topicTags: [],
+      stats: '{}',
+    } as never,
+    metadata: { scrapedAt: new Date('2024-01-01'), source: 'graphql' },
+  }
+
+  const footer: Processor = {
+    name: 'footer',
+    shouldProcess: (data) => isProcessedData(data),
+    process: (data) =>
+      Promise.resolve({
+        ...(data as ProcessedData),
+        content: `${(data as ProcessedData).content}\nfooter`,
+      }),
+  }
+
+  const createRegistry = (...extra: Processor[]) => {
+    const registry = new ProcessorRegistry()
+    for (const processor of [...createBuiltinProcessors(), ...extra]) {
+      registry.register(processor)
+    }
+    return registry
+  }
+
+  describe('ProcessorRegistry', () => {
+    it('should register processors by name', () => {
+      const registry = createRegistry(footer)
+
+      expect(registry.get('footer')).toBe(footer)
+      expect(registry.getNames()).toEqual([...DEFAULT_PIPELINE, 'footer'])
+    })
+
+    it('should keep the first processor registered under a name', () => {
+      const registry = createRegistry(footer, { ...footer, process: vi.fn() })
+
+      expect(registry.get('footer')).toBe(footer)
+    })
+  })
+
+  describe('ProcessorPipeline', () => {
+    it('should list the processors that ran', async () => {
+      const pipeline = new ProcessorPipeline(createRegistry(), DEFAULT_PIPELINE)
+
+      const processed = await pipeline.run(problemData)
+
+      expect(processed.type).toBe('problem')
+      expect(processed.content).toContain('# Two Sum')
+      expect(processed.content).toContain('Problem content')
+      expect(processed.metadata.originalData).toBe(problemData)
+      expect(processed.metadata.processors).toEqual([
+        'html-to-markdown',
+        'enhancements',
+        'problem-title',
+      ])
+    })
+
+    it('should run processors in the configured order', async () => {
+      const pipeline = new ProcessorPipeline(createRegistry(footer), [
+        'html-to-markdown',
+        'footer',
+        'problem-title',
+      ])
+
+      const processed = await pipeline.run(problemData)
+
+      expect(processed.content).toMatch(/^# Two Sum\n\nProblem content\n+footer$/)
+      expect(processed.metadata.processors).toEqual(['html-to-markdown', 'footer', 'problem-title'])
+    })
+
+    it('should skip processors that decline the data', async () => {
+      const skipped: Processor = {
+        name: 'skipped',
+        shouldProcess: () => false,
+        process: vi.fn(),
+      }
+      const pipeline = new ProcessorPipeline(createRegistry(skipped), [
+        'html-to-markdown',
+        'skipped',
+      ])
+
+      const processed = await pipeline.run(problemData)
+
+      expect(skipped.process).not.toHaveBeenCalled()
+      expect(processed.metadata.processors).toEqual(['html-to-markdown'])
+    })
+
+    it('should use the format-specific built-ins', async () => {
+      const registry = new ProcessorRegistry()
+      for (const processor of createBuiltinProcessors({ format: 'json' })) {
+        registry.register(processor)
+      }
+
+      const processed = await new ProcessorPipeline(registry, DEFAULT_PIPELINE).run(problemData)
+
+      expect(processed.metadata.processors).toEqual(['json'])
+      expect(JSON.parse(processed.content)).toMatchObject({ type: 'problem' })
+    })
+
+    it('should reject unknown processor names', () => {
+      expect(
+        () => new ProcessorPipeline(createRegistry(), ['html-to-markdown', 'missing'])
+      ).toThrow(ConfigError)
+      expect(() => new ProcessorPipeline(createRegistry(), ['missing'])).toThrow(
+        'Unknown processor "missing" in processing.pipeline'
+      )
+    })
+
+    it('should fail when no processor converts the data', async () => {
+      const pipeline = new ProcessorPipeline(createRegistry(), ['editorial'])
+
+      await expect(pipeline.run(problemData)).rejects.toThrow(LescaError)
+      await expect(pipeline.run(problemData)).rejects.toThrow('Cannot process data type: problem')
+    })
+  })
+})
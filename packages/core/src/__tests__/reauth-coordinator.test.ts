@@ -0,0 +1,122 @@
+import { describe, it, expect, vi } from 'vitest'
+import { AuthError, GraphQLError, LescaError, RateLimitError } from '@lesca/error'
+
+import { ReauthCoordinator } from '../reauth-coordinator'
+
+vi.mock('@lesca/shared/utils', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}))
+
+describe('ReauthCoordinator', () => {
+  describe('hasExpirySignal', () => {
+    it('should detect AUTH_SESSION_EXPIRED in the cause chain', () => {
+      const error = new Error('Scrape failed', {
+        cause: new AuthError('AUTH_SESSION_EXPIRED', 'Expired'),
+      })
+
+      expect(ReauthCoordinator.hasExpirySignal(error)).toBe(true)
+    })
+
+    it('should detect 401 responses and "not logged in" messages', () => {
+      const unauthorized = new GraphQLError('GQL_QUERY_FAILED', 'Request failed', {
+        statusCode: 401,
+      })
+
+      expect(ReauthCoordinator.hasExpirySignal(unauthorized)).toBe(true)
+      expect(ReauthCoordinator.hasExpirySignal(new Error('User is not logged in'))).toBe(true)
+    })
+
+    it('should not treat premium or unrelated errors as expiry', () => {
+      const premium = new LescaError('AUTH_PREMIUM_REQUIRED', 'Problem is premium content')
+
+      expect(ReauthCoordinator.hasExpirySignal(premium)).toBe(false)
+      expect(ReauthCoordinator.hasExpirySignal(new Error('Timeout'))).toBe(false)
+      expect(ReauthCoordinator.hasExpirySignal('not logged in')).toBe(false)
+    })
+  })
+
+  describe('isExpired', () => {
+    it('should confirm ambiguous failures with the session check', async () => {
+      const checkSession = vi.fn().mockResolvedValue(false)
+      const reauth = new ReauthCoordinator({ refresh: vi.fn(), checkSession })
+      const premium = new LescaError('AUTH_PREMIUM_REQUIRED', 'Problem is premium content')
+
+      expect(await reauth.isExpired(premium)).toBe(true)
+      expect(checkSession).toHaveBeenCalledTimes(1)
+    })
+
+    it('should trust a positive session check for the check interval', async () => {
+      const checkSession = vi.fn().mockResolvedValue(true)
+      const reauth = new ReauthCoordinator({ refresh: vi.fn(), checkSession })
+
+      expect(await reauth.isExpired(new Error('Timeout'))).toBe(false)
+      expect(await reauth.isExpired(new Error('Timeout'))).toBe(false)
+      expect(checkSession).toHaveBeenCalledTimes(1)
+    })
+
+    it('should skip the session check for rate limits and failed checks', async () => {
+      const checkSession = vi.fn().mockRejectedValue(new Error('Network down'))
+      const reauth = new ReauthCoordinator({ refresh: vi.fn(), checkSession })
+
+      expect(await reauth.isExpired(new RateLimitError('Too many requests'))).toBe(false)
+      expect(checkSession).not.toHaveBeenCalled()
+      expect(await reauth.isExpired(new Error('Timeout'))).toBe(false)
+    })
+  })
+
+  describe('reauthenticate', () => {
+    it('should share one refresh between concurrent callers', async () => {
+      let finish: (value: boolean) => void = () => {}
+      const refresh = vi.fn(() => new Promise<boolean>((resolve) => (finish = resolve)))
+      const reauth = new ReauthCoordinator({ refresh })
+
+      const first = reauth.reauthenticate(0)
+      const second = reauth.reauthenticate(0)
+      const ready = reauth.ready()
+      finish(true)
+
+      expect(await first).toBe(true)
+      expect(await second).toBe(true)
+      await ready
+      expect(refresh).toHaveBeenCalledTimes(1)
+      expect(reauth.getGeneration()).toBe(1)
+    })
+
+    it('should retry without refreshing when the credentials changed since the request', async () => {
+      const refresh = vi.fn().mockResolvedValue(true)
+      const reauth = new ReauthCoordinator({ refresh })
+      await reauth.reauthenticate(0)
+
+      expect(await reauth.reauthenticate(0)).toBe(true)
+      expect(refresh).toHaveBeenCalledTimes(1)
+    })
+
+    it('should give up after maxAttempts until a request succeeds', async () => {
+      const refresh = vi.fn().mockResolvedValue(false)
+      const reauth = new ReauthCoordinator({ refresh, maxAttempts: 2 })
+
+      expect(await reauth.reauthenticate(0)).toBe(false)
+      expect(await reauth.reauthenticate(0)).toBe(false)
+      expect(await reauth.reauthenticate(0)).toBe(false)
+      expect(refresh).toHaveBeenCalledTimes(2)
+
+      reauth.recordSuccess()
+      expect(await reauth.reauthenticate(0)).toBe(false)
+      expect(refresh).toHaveBeenCalledTimes(3)
+    })
+
+    it('should treat a throwing refresh as failed', async () => {
+      const reauth = new ReauthCoordinator({
+        refresh: vi.fn().mockRejectedValue(new Error('Browser crashed')),
+      })
+
+      expect(await reauth.reauthenticate(0)).toBe(false)
+      expect(reauth.getRefreshCount()).toBe(0)
+    })
+  })
+})
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import type { StorageAdapter } from '@lesca/shared/types'
+
+import { ReviewDeck, REVIEW_DECK_KEY } from '../review-deck'
+
+function createMemoryStorage(files: Map<string, string>): StorageAdapter {
+  return {
+    save: vi.fn((key: string, content: string) => {
+      files.set(key, content)
+      return Promise.resolve()
+    }),
+    load: vi.fn((key: string) => Promise.resolve(files.get(key) ?? null)),
+    exists: vi.fn((key: string) => Promise.resolve(files.has(key))),
+    delete: vi.fn(() => Promise.resolve()),
+    list: vi.fn(() => Promise.resolve([...files.keys()])),
+  }
+}
+
+function note(id: string, slug: string, difficulty: string, tags: string[]): string {
+  return [
+    '---',
+    `frontend_id: "${id}"`,
+    `titleSlug: ${slug}`,
+    `difficulty: ${difficulty}`,
+    'tags:',
+    ...tags.map((tag) => `  - ${tag}`),
+    '---',
+    '',
+    `# ${slug}`,
+  ].join('\n')
+}
+
+describe('ReviewDeck', () => {
+  const today = '2024-01-10'
+  const now = new Date(2024, 0, 10, 9)
+  let files: Map<string, string>
+  let storage: StorageAdapter
+  let deck: ReviewDeck
+
+  beforeEach(async () => {
+    files = new Map([
+      ['1-two-sum.md', note('1', 'two-sum', 'Easy', ['array', 'hash-table'])],
+      ['15-3sum.md', note('15', '3sum', 'Medium', ['array', 'two-pointers'])],
+      ['200-number-of-islands.md', note('200', 'number-of-islands', 'Medium', ['graph'])],
+      ['1-two-sum-editorial.md', '# Editorial: Two Sum\n'],
+    ])
+    storage = createMemoryStorage(files)
+    deck = new ReviewDeck(storage)
+    await deck.sync(today)
+  })
+
+  it('should add a card per stored problem once', async () => {
+    expect(deck.size).toBe(3)
+    expect(await deck.sync(today)).toBe(0)
+    expect(deck.get('3sum')).toMatchObject({ key: '15-3sum.md', difficulty: 'Medium' })
+    expect(deck.get('200')?.slug).toBe('number-of-islands')
+    expect(deck.get('1-two-sum.md')?.slug).toBe('two-sum')
+  })
+
+  it('should list new problems up to the daily limit', () => {
+    const due = deck.getDue(today, { newLimit: 2 })
+
+    expect(due.reviews).toEqual([])
+    expect(due.newCards.map((card) => card.slug)).toEqual(['two-sum', '3sum'])
+  })
+
+  it('should count problems first reviewed today against the new limit', () => {
+    deck.grade('two-sum', 5, now)
+
+    const due = deck.getDue(today, { newLimit: 2 })
+
+    expect(due.newCards.map((card) => card.slug)).toEqual(['3sum'])
+  })
+
+  it('should list reviews once they are due, most overdue first', () => {
+    deck.grade('two-sum', 4, now)
+    deck.grade('3sum', 1, now)
+
+    expect(deck.getDue('2024-01-11', { newLimit: 0 }).reviews.map((card) => card.slug)).toEqual([
+      '3sum',
+    ])
+    expect(deck.getDue('2024-01-20', { newLimit: 0 }).reviews.map((card) => card.slug)).toEqual([
+      '3sum',
+      'two-sum',
+    ])
+  })
+
+  it('should seed new problems from the ease of reviewed problems with the same tags', async () => {
+    deck.grade('3sum', 0, now)
+    files.set('18-4sum.md', note('18', '4sum', 'Medium', ['two-pointers']))
+
+    await deck.sync(today)
+
+    expect(deck.get('4sum')?.ease).toBeLessThan(2.5)
+  })
+
+  it('should reject unknown problems', () => {
+    expect(() => deck.grade('missing', 4, now)).toThrow('No review card for "missing"')
+  })
+
+  it('should save and load the deck', async () => {
+    deck.grade('two-sum', 4, now)
+    await deck.save()
+
+    const loaded = await ReviewDeck.load(storage)
+
+    expect(loaded.size).toBe(3)
+    expect(loaded.get('two-sum')).toEqual(deck.get('two-sum'))
+  })
+
+  it('should refuse to load an unreadable deck', async () => {
+    files.set(REVIEW_DECK_KEY, '{"version": 0}')
+
+    await expect(ReviewDeck.load(storage)).rejects.toThrow('unreadable')
+  })
+})
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest'
+
+import { addDays, scheduleReview, seedReviewCard, toLocalDate } from '../review-scheduler'
+import type { StoredProblem } from '../stored-notes'
+
+function problem(extra: Partial<StoredProblem> = {}): StoredProblem {
+  return {
+    key: '1-two-sum.md',
+    slug: 'two-sum',
+    title: 'Two Sum',
+    frontendId: '1',
+    tags: ['array'],
+    companies: [],
+    similar: [],
+    tagNames: {},
+    companyNames: {},
+    ...extra,
+  }
+}
+
+describe('review scheduler', () => {
+  describe('seedReviewCard', () => {
+    it('should seed the ease and first interval from the difficulty', () => {
+      expect(seedReviewCard(problem({ difficulty: 'Easy' }), '2024-01-01')).toMatchObject({
+        slug: 'two-sum',
+        ease: 2.6,
+        firstInterval: 3,
+        repetitions: 0,
+        due: '2024-01-01',
+        history: [],
+      })
+      expect(seedReviewCard(problem({ difficulty: 'Hard' }), '2024-01-01')).toMatchObject({
+        ease: 2.3,
+        firstInterval: 1,
+      })
+    })
+
+    it('should bring well-liked problems back sooner', () => {
+      expect(
+        seedReviewCard(problem({ difficulty: 'Medium', quality: 92 }), '2024-01-01').ease
+      ).toBe(2.4)
+      expect(
+        seedReviewCard(problem({ difficulty: 'Medium', quality: 30 }), '2024-01-01').ease
+      ).toBe(2.6)
+    })
+
+    it('should move the ease halfway to the ease of related tags', () => {
+      expect(seedReviewCard(problem({ difficulty: 'Medium' }), '2024-01-01', 1.7).ease).toBe(2.1)
+      expect(seedReviewCard(problem({ difficulty: 'Hard' }), '2024-01-01', 0).ease).toBe(1.3)
+    })
+  })
+
+  describe('scheduleReview', () => {
+    const now = new Date(2024, 0, 10, 9, 30)
+    const card = seedReviewCard(problem({ difficulty: 'Medium' }), '2024-01-10')
+
+    it('should follow the first interval, six days, then the ease', () => {
+      const first = scheduleReview(card, 4, now)
+      const second = scheduleReview(first, 4, now)
+      const third = scheduleReview(second, 5, now)
+
+      expect([first.interval, second.interval, third.interval]).toEqual([2, 6, 16])
+      expect(first.due).toBe('2024-01-12')
+      expect(third.ease).toBe(2.6)
+      expect(third.history.map((entry) => entry.grade)).toEqual([4, 4, 5])
+    })
+
+    it('should restart after a lapse and lower the ease', () => {
+      const learned = scheduleReview(scheduleReview(card, 5, now), 5, now)
+
+      const lapsed = scheduleReview(learned, 1, now)
+
+      expect(lapsed).toMatchObject({ interval: 1, repetitions: 0, lapses: 1, due: '2024-01-11' })
+      expect(lapsed.ease).toBeCloseTo(learned.ease - 0.54)
+      expect(scheduleReview(lapsed, 4, now).interval).toBe(2)
+    })
+
+    it('should keep the ease at 1.3 or more', () => {
+      let lapsed = card
+      for (let i = 0; i < 5; i++) {
+        lapsed = scheduleReview(lapsed, 0, now)
+      }
+
+      expect(lapsed.ease).toBe(1.3)
+    })
+  })
+
+  describe('dates', () => {
+    it('should format local dates and add days across months', () => {
+      expect(toLocalDate(new Date(2024, 1, 3, 23, 59))).toBe('2024-02-03')
+      expect(addDays('2024-02-27', 3)).toBe('2024-03-01')
+      expect(addDays('2024-12-31', 1)).toBe('2025-01-01')
+    })
+  })
+})
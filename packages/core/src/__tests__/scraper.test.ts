@@ -1,6 +1,13 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { LeetCodeScraper } from '../scraper'
+import { PluginManager } from '../plugin-manager'
+import { SearchIndex, SEARCH_INDEX_KEY } from '../search-index'
 import type {
+  Plugin,
+  Problem,
+  ProcessedData,
+  Processor,
+  RawData,
   ScraperStrategy,
   StorageAdapter,
   ProblemScrapeRequest,
@@ -211,6 +218,172 @@ describe('LeetCodeScraper', () => {
       // Format should be used during conversion
       expect(mockStorage.save).toHaveBeenCalled()
     })
+
+    it('should write versioned JSON for json format', async () => {
+      const jsonScraper = new LeetCodeScraper([mockStrategy], mockStorage, { format: 'json' })
+
+      await jsonScraper.scrape({ type: 'problem', titleSlug: 'two-sum' })
+
+      const [filename, content] = (mockStorage.save as ReturnType<typeof vi.fn>).mock.calls[0] as [
+        string,
+        string,
+      ]
+      expect(filename).toBe('1-two-sum.json')
+      expect(JSON.parse(content)).toMatchObject({
+        schemaVersion: 1,
+        type: 'problem',
+        data: { titleSlug: 'two-sum' },
+      })
+    })
+
+    it('should build filenames from the output pattern', async () => {
+      mockStrategy.execute = vi.fn().mockResolvedValue({
+        type: 'problem',
+        data: {
+          ...mockProblem,
+          questionFrontendId: '10',
+          titleSlug: 'regular-expression-matching',
+          difficulty: 'Hard',
+          topicTags: [{ name: 'Dynamic Programming', slug: 'dynamic-programming' }],
+        },
+        metadata: { scrapedAt: new Date('2024-01-01'), source: 'graphql' },
+      })
+      const patternScraper = new LeetCodeScraper([mockStrategy], mockStorage, {
+        outputPattern: '{difficulty}/{firstTag}/{id:4}-{slug}.md',
+      })
+
+      const result = await patternScraper.scrape({ type: 'problem', titleSlug: 'x' })
+
+      expect(result.filePath).toBe('Hard/dynamic-programming/0010-regular-expression-matching.md')
+    })
+
+    it('should suffix editorial filenames unless the pattern uses {type}', async () => {
+      mockStrategy.execute = vi.fn().mockResolvedValue({
+        type: 'editorial',
+        data: { titleSlug: 'two-sum', content: '<p>Editorial</p>', approaches: [] },
+        metadata: { scrapedAt: new Date('2024-01-01') },
+      })
+
+      const suffixed = await new LeetCodeScraper([mockStrategy], mockStorage, {
+        outputPattern: '{slug}.md',
+      }).scrape({ type: 'editorial', titleSlug: 'two-sum' })
+      const typed = await new LeetCodeScraper([mockStrategy], mockStorage, {
+        outputPattern: '{type}/{slug}.md',
+      }).scrape({ type: 'editorial', titleSlug: 'two-sum' })
+
+      expect(suffixed.filePath).toBe('two-sum-editorial.md')
+      expect(typed.filePath).toBe('editorial/two-sum.md')
+    })
+
+    describe('editorial keys', () => {
+      const editorial = {
+        type: 'editorial',
+        data: { titleSlug: 'two-sum', content: '<p>Editorial</p>', approaches: [] },
+        metadata: { scrapedAt: new Date('2024-01-01') },
+      }
+      let editorialStrategy: ScraperStrategy
+
+      beforeEach(() => {
+        editorialStrategy = {
+          name: 'editorial',
+          priority: 2,
+          canHandle: vi.fn((request: { type: string }) => request.type === 'editorial'),
+          execute: vi.fn().mockResolvedValue(editorial),
+        } as unknown as ScraperStrategy
+      })
+
+      it('should store editorials next to a problem scraped in the same run', async () => {
+        const patternScraper = new LeetCodeScraper([mockStrategy, editorialStrategy], mockStorage, {
+          outputPattern: '{difficulty}/{id:4}-{slug}.md',
+        })
+
+        await patternScraper.scrape({ type: 'problem', titleSlug: 'two-sum' })
+        const result = await patternScraper.scrape({ type: 'editorial', titleSlug: 'two-sum' })
+
+        expect(result.filePath).toBe('Easy/0001-two-sum-editorial.md')
+        expect(mockStrategy.execute).toHaveBeenCalledTimes(1)
+      })
+
+      it('should not fetch the problem to name an editorial', async () => {
+        const patternScraper = new LeetCodeScraper([mockStrategy, editorialStrategy], mockStorage, {
+          outputPattern: '{difficulty}/{id:4}-{slug}.md',
+        })
+
+        const result = await patternScraper.scrape({ type: 'editorial', titleSlug: 'two-sum' })
+
+        expect(result.filePath).toBe('two-sum-editorial.md')
+        expect(mockStrategy.execute).not.toHaveBeenCalled()
+      })
+
+      it('should keep the slug keys of editorials under the default pattern', async () => {
+        const defaultScraper = new LeetCodeScraper([mockStrategy, editorialStrategy], mockStorage)
+
+        const problem = await defaultScraper.scrape({ type: 'problem', titleSlug: 'two-sum' })
+        const result = await defaultScraper.scrape({ type: 'editorial', titleSlug: 'two-sum' })
+
+        expect(problem.filePath).toBe('1-two-sum.md')
+        expect(result.filePath).toBe('two-sum-editorial.md')
+      })
+    })
+
+    it('should download images when images.download is enabled', async () => {
+      mockStrategy.execute = vi.fn().mockResolvedValue({
+        type: 'problem',
+        data: { ...mockProblem, content: '<p><img src="https://x.com/a.png" alt="a"></p>' },
+        metadata: { scrapedAt: new Date('2024-01-01'), source: 'graphql' },
+      })
+      mockStorage.saveBinary = vi.fn().mockResolvedValue(undefined)
+      mockStorage.load = vi.fn().mockResolvedValue(null)
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValue(
+          new Response(new Uint8Array([1]), { headers: { 'content-type': 'image/png' } })
+        )
+
+      const imageScraper = new LeetCodeScraper([mockStrategy], mockStorage, {
+        images: { download: true, fetch: fetchMock as unknown as typeof fetch },
+      })
+      const result = await imageScraper.scrape({ type: 'problem', titleSlug: 'two-sum' })
+
+      expect(mockStorage.saveBinary).toHaveBeenCalledWith(
+        'images/two-sum-1.png',
+        expect.any(Uint8Array),
+        expect.objectContaining({ source: 'https://x.com/a.png' })
+      )
+      expect(result.data?.content).toContain('![a](images/two-sum-1.png)')
+    })
+
+    it('should write CSV for problem lists when listFormat is csv', async () => {
+      mockStrategy.execute = vi.fn().mockResolvedValue({
+        type: 'list',
+        data: {
+          total: 1,
+          questions: [
+            {
+              questionId: '1',
+              questionFrontendId: '1',
+              title: 'Two Sum',
+              titleSlug: 'two-sum',
+              difficulty: 'Easy',
+              acRate: 50,
+              paidOnly: false,
+              topicTags: [],
+            },
+          ],
+        },
+        metadata: { scrapedAt: new Date('2024-01-01') },
+      })
+      const csvScraper = new LeetCodeScraper([mockStrategy], mockStorage, { listFormat: 'csv' })
+
+      await csvScraper.scrape({ type: 'list' })
+
+      const [filename, content] = (mockStorage.save as ReturnType<typeof vi.fn>).mock.calls[0] as [
+        string,
+        string,
+      ]
+      expect(filename).toMatch(/^problem-list-.*\.csv$/)
+      expect(content).toContain('1,Two Sum,two-sum,Easy,50,false')
+    })
   })
 
   describe('error details', () => {
@@ -296,4 +469,584 @@ describe('LeetCodeScraper', () => {
       expect(saveCall).toBeDefined()
     })
   })
+
+  describe('problem bundles', () => {
+    let editorialStrategy: ScraperStrategy
+    let discussionStrategy: ScraperStrategy
+
+    beforeEach(() => {
+      editorialStrategy = {
+        name: 'editorial',
+        priority: 1,
+        canHandle: vi.fn((request: { type: string }) => request.type === 'editorial'),
+        execute: vi.fn().mockResolvedValue({
+          type: 'editorial',
+          data: {
+            titleSlug: 'two-sum',
+            content: '<p>Use a hash map</p>',
+            approaches: [],
+            codeSnippets: [],
+          },
+          metadata: { scrapedAt: new Date('2024-01-01') },
+        }),
+      } as unknown as ScraperStrategy
+
+      discussionStrategy = {
+        name: 'discussion',
+        priority: 1,
+        canHandle: vi.fn((request: { type: string }) => request.type === 'discussion'),
+        execute: vi.fn().mockResolvedValue({
+          type: 'discussion',
+          data: {
+            titleSlug: 'two-sum',
+            category: 'solution',
+            sortBy: 'hot',
+            total: 0,
+            discussions: [],
+          },
+          metadata: { scrapedAt: new Date('2024-01-01') },
+        }),
+      } as unknown as ScraperStrategy
+
+      mockStrategy.canHandle = vi.fn((request: { type: string }) => request.type === 'problem')
+    })
+
+    const bundleRequest: ProblemScrapeRequest = {
+      type: 'problem',
+      titleSlug: 'two-sum',
+      includeSolution: true,
+      includeDiscussions: true,
+    }
+
+    it('should save JSON sections under the problem fields of the pattern', async () => {
+      const bundleScraper = new LeetCodeScraper(
+        [mockStrategy, editorialStrategy, discussionStrategy],
+        mockStorage,
+        { format: 'json', outputPattern: '{difficulty}/{id:4}-{slug}.md' }
+      )
+
+      const result = await bundleScraper.scrape(bundleRequest)
+
+      expect(result.sections?.map((s) => s.filePath)).toEqual([
+        'Easy/0001-two-sum.json',
+        'Easy/0001-two-sum-editorial.json',
+        'Easy/0001-two-sum-discussions.json',
+      ])
+      expect(mockStrategy.execute).toHaveBeenCalledTimes(1)
+    })
+
+    it('should merge all sections into one note', async () => {
+      const bundleScraper = new LeetCodeScraper(
+        [mockStrategy, editorialStrategy, discussionStrategy],
+        mockStorage,
+        { bundle: { discussions: { limit: 5 } } }
+      )
+
+      const result = await bundleScraper.scrape(bundleRequest)
+
+      expect(result.success).toBe(true)
+      expect(mockStorage.save).toHaveBeenCalledTimes(1)
+      expect(result.filePath).toBe('1-two-sum.md')
+      expect(result.data?.content).toContain('## Editorial')
+      expect(result.data?.content).toContain('Use a hash map')
+      expect(result.data?.content).toContain('## Discussions')
+      expect(discussionStrategy.execute).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'discussion', titleSlug: 'two-sum', limit: 5 })
+      )
+      expect(result.sections?.map((s) => [s.section, s.success])).toEqual([
+        ['problem', true],
+        ['editorial', true],
+        ['discussions', true],
+      ])
+    })
+
+    it('should report failed sections without failing the problem', async () => {
+      editorialStrategy.execute = vi.fn().mockRejectedValue(new Error('Premium content'))
+      const bundleScraper = new LeetCodeScraper(
+        [mockStrategy, editorialStrategy, discussionStrategy],
+        mockStorage
+      )
+
+      const result = await bundleScraper.scrape(bundleRequest)
+
+      expect(result.success).toBe(true)
+      expect(result.data?.content).toContain('Editorial unavailable:** Premium content')
+      const editorial = result.sections?.find((s) => s.section === 'editorial')
+      expect(editorial?.success).toBe(false)
+      expect(editorial?.error?.message).toBe('Premium content')
+    })
+
+    it('should write a folder of linked notes', async () => {
+      const bundleScraper = new LeetCodeScraper(
+        [mockStrategy, editorialStrategy, discussionStrategy],
+        mockStorage,
+        { bundle: { layout: 'folder' } }
+      )
+
+      const result = await bundleScraper.scrape(bundleRequest)
+
+      const saves = (mockStorage.save as ReturnType<typeof vi.fn>).mock.calls as Array<
+        [string, string]
+      >
+      expect(saves.map(([key]) => key)).toEqual([
+        '1-two-sum/editorial.md',
+        '1-two-sum/discussions.md',
+        '1-two-sum/problem.md',
+      ])
+      expect(saves[0]?.[1]).toContain('[Problem](problem.md)')
+      expect(saves[2]?.[1]).toContain('[Editorial](editorial.md) · [Discussions](discussions.md)')
+      expect(result.filePath).toBe('1-two-sum/problem.md')
+    })
+
+    it('should only run requested sections', async () => {
+      const bundleScraper = new LeetCodeScraper(
+        [mockStrategy, editorialStrategy, discussionStrategy],
+        mockStorage
+      )
+
+      const result = await bundleScraper.scrape({ ...bundleRequest, includeDiscussions: false })
+
+      expect(discussionStrategy.execute).not.toHaveBeenCalled()
+      expect(result.sections?.map((s) => s.section)).toEqual(['problem', 'editorial'])
+    })
+
+    it('should index the bundled sections with the problem note', async () => {
+      const searchIndex = new SearchIndex(mockStorage)
+      const bundleScraper = new LeetCodeScraper(
+        [mockStrategy, editorialStrategy, discussionStrategy],
+        mockStorage,
+        { searchIndex }
+      )
+
+      await bundleScraper.scrape(bundleRequest)
+
+      expect(searchIndex.size).toBe(1)
+      expect(searchIndex.search('hash map').map((hit) => hit.key)).toEqual(['1-two-sum.md'])
+      // The index is written when the caller is done, not after every note
+      expect(mockStorage.save).not.toHaveBeenCalledWith(SEARCH_INDEX_KEY, expect.any(String))
+
+      await searchIndex.flush()
+
+      expect(mockStorage.save).toHaveBeenCalledWith(SEARCH_INDEX_KEY, expect.any(String))
+    })
+
+    it('should index each note of a folder bundle', async () => {
+      const searchIndex = new SearchIndex(mockStorage)
+      const bundleScraper = new LeetCodeScraper(
+        [mockStrategy, editorialStrategy, discussionStrategy],
+        mockStorage,
+        { bundle: { layout: 'folder' }, searchIndex }
+      )
+
+      await bundleScraper.scrape(bundleRequest)
+
+      expect(searchIndex.search('hash map')).toEqual([
+        expect.objectContaining({
+          key: '1-two-sum/editorial.md',
+          type: 'editorial',
+          title: 'Two Sum',
+          difficulty: 'Easy',
+        }),
+      ])
+      expect(searchIndex.has('1-two-sum/problem.md')).toBe(true)
+      expect(searchIndex.has('1-two-sum/discussions.md')).toBe(true)
+    })
+
+    it('should not fail the scrape when the index cannot be saved', async () => {
+      const searchIndex = new SearchIndex({
+        ...mockStorage,
+        save: vi.fn().mockRejectedValue(new Error('Disk full')),
+      })
+      const bundleScraper = new LeetCodeScraper([mockStrategy], mockStorage, { searchIndex })
+
+      const result = await bundleScraper.scrape({ type: 'problem', titleSlug: 'two-sum' })
+
+      expect(result.success).toBe(true)
+      expect(searchIndex.has('1-two-sum.md')).toBe(true)
+    })
+  })
+
+  describe('user profiles', () => {
+    const mockUser = {
+      username: 'alice',
+      profile: { username: 'alice', reputation: 0, ranking: 1000 },
+      submitStats: { acSubmissionNum: [{ difficulty: 'Easy', count: 3 }] },
+      badges: [],
+    }
+
+    beforeEach(() => {
+      mockStrategy.execute = vi.fn().mockResolvedValue({
+        type: 'user',
+        data: mockUser,
+        metadata: { scrapedAt: new Date('2024-01-01'), source: 'graphql' },
+      })
+    })
+
+    it('should save profile notes under users/', async () => {
+      const result = await scraper.scrape({ type: 'user', username: 'alice' })
+
+      expect(result.success).toBe(true)
+      expect(result.filePath).toBe('users/alice.md')
+      expect(result.data?.content).toContain('# alice')
+    })
+
+    it('should ignore the problem output pattern', async () => {
+      const patternScraper = new LeetCodeScraper([mockStrategy], mockStorage, {
+        outputPattern: '{difficulty}/{id:4}-{slug}.md',
+        format: 'json',
+      })
+
+      const result = await patternScraper.scrape({ type: 'user', username: 'alice' })
+
+      expect(result.filePath).toBe('users/alice.json')
+    })
+  })
+
+  describe('incremental scrapes', () => {
+    let metadata: Map<string, Record<string, unknown>>
+
+    beforeEach(() => {
+      metadata = new Map()
+      mockStorage = {
+        save: vi.fn((key: string, _content: string, meta: Record<string, unknown>) => {
+          metadata.set(key, meta)
+          return Promise.resolve()
+        }),
+        exists: vi.fn((key: string) => Promise.resolve(metadata.has(key))),
+        loadMetadata: vi.fn((key: string) => Promise.resolve(metadata.get(key) ?? null)),
+      } as unknown as StorageAdapter
+    })
+
+    const request: ProblemScrapeRequest = { type: 'problem', titleSlug: 'two-sum' }
+
+    it('should save a content manifest with every document', async () => {
+      await new LeetCodeScraper([mockStrategy], mockStorage).scrape(request)
+
+      expect(metadata.get('1-two-sum.md')).toMatchObject({
+        manifest: { version: 1, hash: expect.any(String) },
+      })
+    })
+
+    it('should report new items and write them', async () => {
+      const result = await new LeetCodeScraper([mockStrategy], mockStorage, {
+        incremental: true,
+      }).scrape(request)
+
+      expect(result.change).toEqual({ status: 'new', parts: [] })
+      expect(mockStorage.save).toHaveBeenCalledTimes(1)
+    })
+
+    it('should skip unchanged items', async () => {
+      const incrementalScraper = new LeetCodeScraper([mockStrategy], mockStorage, {
+        incremental: true,
+      })
+      await incrementalScraper.scrape(request)
+
+      const result = await incrementalScraper.scrape(request)
+
+      expect(result.success).toBe(true)
+      expect(result.change).toEqual({ status: 'unchanged', parts: [] })
+      expect(result.filePath).toBe('1-two-sum.md')
+      expect(mockStorage.save).toHaveBeenCalledTimes(1)
+    })
+
+    it('should rewrite changed items', async () => {
+      const incrementalScraper = new LeetCodeScraper([mockStrategy], mockStorage, {
+        incremental: true,
+      })
+      await incrementalScraper.scrape(request)
+      mockStrategy.execute = vi.fn().mockResolvedValue({
+        type: 'problem',
+        data: { ...mockProblem, content: '<p>Edited</p>' },
+        metadata: { scrapedAt: new Date('2024-02-01'), source: 'graphql' },
+      })
+
+      const result = await incrementalScraper.scrape(request)
+
+      expect(result.change).toEqual({ status: 'changed', parts: ['source'] })
+      expect(mockStorage.save).toHaveBeenCalledTimes(2)
+    })
+
+    it('should rewrite items when the output settings change', async () => {
+      mockStorage.load = vi.fn().mockResolvedValue(null)
+      await new LeetCodeScraper([mockStrategy], mockStorage, { incremental: true }).scrape(request)
+
+      const result = await new LeetCodeScraper([mockStrategy], mockStorage, {
+        incremental: true,
+        merge: true,
+      }).scrape(request)
+
+      expect(result.change).toEqual({ status: 'changed', parts: ['output'] })
+      expect(mockStorage.save).toHaveBeenCalledTimes(2)
+    })
+
+    it('should check the problem note of folder bundles', async () => {
+      const bundleStrategy = {
+        ...mockStrategy,
+        canHandle: vi.fn((r: { type: string }) => r.type === 'problem'),
+      }
+
+      const bundleScraper = new LeetCodeScraper([bundleStrategy], mockStorage, {
+        incremental: true,
+        bundle: { layout: 'folder' },
+      })
+      await bundleScraper.scrape({ ...request, includeSolution: true })
+
+      const result = await bundleScraper.scrape({ ...request, includeSolution: true })
+
+      expect(result.change?.status).toBe('unchanged')
+      expect(result.filePath).toBe('1-two-sum/problem.md')
+    })
+
+    it('should rewrite bundles whose editorial changed', async () => {
+      mockStrategy.canHandle = vi.fn((r: { type: string }) => r.type === 'problem')
+      const editorialData = { titleSlug: 'two-sum', content: '<p>Use a hash map</p>' }
+      const editorialStrategy = {
+        name: 'editorial',
+        priority: 1,
+        canHandle: vi.fn((r: { type: string }) => r.type === 'editorial'),
+        execute: vi.fn().mockResolvedValue({
+          type: 'editorial',
+          data: editorialData,
+          metadata: { scrapedAt: new Date('2024-01-01') },
+        }),
+      } as unknown as ScraperStrategy
+      const bundleScraper = new LeetCodeScraper([mockStrategy, editorialStrategy], mockStorage, {
+        incremental: true,
+      })
+      await bundleScraper.scrape({ ...request, includeSolution: true })
+      vi.mocked(editorialStrategy.execute).mockResolvedValue({
+        type: 'editorial',
+        data: { ...editorialData, content: '<p>Sort first</p>' },
+        metadata: { scrapedAt: new Date('2024-02-01') },
+      } as never)
+
+      const result = await bundleScraper.scrape({ ...request, includeSolution: true })
+
+      expect(result.change).toEqual({ status: 'changed', parts: ['source'] })
+      expect(mockStorage.save).toHaveBeenCalledTimes(2)
+    })
+  })
+
+  describe('merge mode', () => {
+    let files: Map<string, string>
+
+    beforeEach(() => {
+      files = new Map()
+      mockStorage = {
+        save: vi.fn((key: string, content: string) => {
+          files.set(key, content)
+          return Promise.resolve()
+        }),
+        load: vi.fn((key: string) => Promise.resolve(files.get(key) ?? null)),
+        exists: vi.fn((key: string) => Promise.resolve(files.has(key))),
+      } as unknown as StorageAdapter
+    })
+
+    const request: ProblemScrapeRequest = { type: 'problem', titleSlug: 'two-sum' }
+
+    it('should keep user sections and frontmatter keys of an existing note', async () => {
+      const mergeScraper = new LeetCodeScraper([mockStrategy], mockStorage, {
+        format: 'obsidian',
+        merge: true,
+      })
+      await mergeScraper.scrape(request)
+
+      const first = files.get('1-two-sum.md') ?? ''
+      expect(first).toContain('<!-- lesca:start -->')
+      files.set(
+        '1-two-sum.md',
+        first.replace('difficulty: Easy', 'difficulty: Easy\nstatus: solved') +
+          '\n## My Notes\n\nUse a hash map.\n'
+      )
+
+      const result = await mergeScraper.scrape(request)
+
+      const merged = files.get('1-two-sum.md') ?? ''
+      expect(merged).toContain('status: solved')
+      expect(merged).toContain('## My Notes\n\nUse a hash map.')
+      expect(merged.match(/<!-- lesca:start -->/g)).toHaveLength(1)
+      expect(result.data?.content).toBe(merged)
+    })
+
+    it('should overwrite notes without merge mode', async () => {
+      files.set('1-two-sum.md', '# Two Sum\n\n## My Notes\n')
+
+      await new LeetCodeScraper([mockStrategy], mockStorage).scrape(request)
+
+      expect(files.get('1-two-sum.md')).not.toContain('My Notes')
+      expect(mockStorage.load).not.toHaveBeenCalled()
+    })
+
+    it('should not merge JSON documents', async () => {
+      await new LeetCodeScraper([mockStrategy], mockStorage, {
+        format: 'json',
+        merge: true,
+      }).scrape(request)
+
+      expect(mockStorage.load).not.toHaveBeenCalled()
+      expect(files.get('1-two-sum.json')).not.toContain('lesca:start')
+    })
+  })
+
+  describe('processor pipeline', () => {
+    const request: ProblemScrapeRequest = { type: 'problem', titleSlug: 'two-sum' }
+
+    const footer: Processor = {
+      name: 'footer',
+      shouldProcess: (data) => 'content' in data,
+      process: (data) => {
+        const processed = data as ProcessedData
+        return Promise.resolve({ ...processed, content: `${processed.content}\n\nfooter` })
+      },
+    }
+
+    it('should report the processors that ran', async () => {
+      const result = await scraper.scrape(request)
+
+      expect(result.data?.metadata.processors).toEqual([
+        'html-to-markdown',
+        'enhancements',
+        'problem-title',
+      ])
+    })
+
+    it('should run extra processors after the built-ins', async () => {
+      const result = await new LeetCodeScraper([mockStrategy], mockStorage, {
+        processors: [footer],
+      }).scrape(request)
+
+      expect(result.data?.content).toMatch(/footer$/)
+      expect(result.data?.metadata.processors).toContain('footer')
+    })
+
+    it('should run plugin processors', async () => {
+      const pluginManager = new PluginManager()
+      pluginManager.register({ name: 'footer-plugin', version: '1.0.0', processors: [footer] })
+
+      const result = await new LeetCodeScraper([mockStrategy], mockStorage, {
+        pluginManager,
+      }).scrape(request)
+
+      expect(result.data?.content).toMatch(/footer$/)
+    })
+
+    it('should follow the configured pipeline', async () => {
+      const result = await new LeetCodeScraper([mockStrategy], mockStorage, {
+        processors: [footer],
+        pipeline: ['html-to-markdown', 'footer'],
+      }).scrape(request)
+
+      expect(result.data?.content).not.toContain('# Two Sum')
+      expect(result.data?.metadata.processors).toEqual(['html-to-markdown', 'footer'])
+    })
+
+    it('should fail scrapes with an unknown processor in the pipeline', async () => {
+      const result = await new LeetCodeScraper([mockStrategy], mockStorage, {
+        pipeline: ['html-to-markdown', 'missing'],
+      }).scrape(request)
+
+      expect(result.success).toBe(false)
+      expect(result.error?.message).toContain('Unknown processor "missing"')
+    })
+  })
+
+  describe('plugin hooks', () => {
+    const request: ProblemScrapeRequest = { type: 'problem', titleSlug: 'two-sum' }
+
+    const scrapeWith = async (plugin: Omit<Plugin, 'name' | 'version'>) => {
+      const pluginManager = new PluginManager()
+      pluginManager.register({ name: 'test-plugin', version: '1.0.0', ...plugin })
+      return new LeetCodeScraper([mockStrategy], mockStorage, { pluginManager }).scrape(request)
+    }
+
+    it('should pass raw data through onRawData', async () => {
+      const result = await scrapeWith({
+        onRawData: (raw) => ({
+          ...raw,
+          data: { ...(raw.data as Problem), title: 'Two Sum (renamed)' },
+        }),
+      })
+
+      expect(result.data?.content).toContain('# Two Sum (renamed)')
+    })
+
+    it('should run onBeforeConvert and onAfterConvert around conversion', async () => {
+      const onBeforeConvert = vi.fn()
+      const onAfterConvert = vi.fn(
+        (markdown: string, raw: RawData) =>
+          `${markdown}\n\nslug: ${(raw.data as Problem).titleSlug}`
+      )
+
+      const result = await scrapeWith({ onBeforeConvert, onAfterConvert })
+
+      expect(onBeforeConvert).toHaveBeenCalledWith(expect.objectContaining({ type: 'problem' }))
+      expect(onAfterConvert).toHaveBeenCalledWith(
+        expect.stringContaining('# Two Sum'),
+        expect.objectContaining({ type: 'problem' })
+      )
+      expect(result.data?.content).toMatch(/slug: two-sum$/)
+    })
+
+    it('should let onFilename change the storage key', async () => {
+      const result = await scrapeWith({
+        onFilename: (filename, raw) => `${raw.type}/${filename}`,
+      })
+
+      expect(result.filePath).toBe('problem/1-two-sum.md')
+      expect(mockStorage.save).toHaveBeenCalledWith(
+        'problem/1-two-sum.md',
+        expect.any(String),
+        expect.any(Object)
+      )
+    })
+
+    it('should pass the document context to onSave', async () => {
+      const onSave = vi.fn((data: unknown) => Promise.resolve(data))
+
+      await scrapeWith({ onSave })
+
+      expect(onSave).toHaveBeenCalledWith(expect.any(String), {
+        filename: '1-two-sum.md',
+        rawData: expect.objectContaining({ type: 'problem' }),
+      })
+    })
+
+    it('should continue when a hook throws', async () => {
+      const result = await scrapeWith({
+        onAfterConvert: () => {
+          throw new Error('hook failed')
+        },
+      })
+
+      expect(result.success).toBe(true)
+      expect(result.data?.content).toContain('# Two Sum')
+    })
+
+    it('should skip onBeforeConvert for unchanged incremental items', async () => {
+      const metadata = new Map<string, Record<string, unknown>>()
+      mockStorage = {
+        save: vi.fn((key: string, _content: string, meta: Record<string, unknown>) => {
+          metadata.set(key, meta)
+          return Promise.resolve()
+        }),
+        exists: vi.fn((key: string) => Promise.resolve(metadata.has(key))),
+        loadMetadata: vi.fn((key: string) => Promise.resolve(metadata.get(key) ?? null)),
+      } as unknown as StorageAdapter
+      const onRawData = vi.fn()
+      const onBeforeConvert = vi.fn()
+      const pluginManager = new PluginManager()
+      pluginManager.register({ name: 'test-plugin', version: '1.0.0', onRawData, onBeforeConvert })
+      const incrementalScraper = new LeetCodeScraper([mockStrategy], mockStorage, {
+        pluginManager,
+        incremental: true,
+      })
+
+      await incrementalScraper.scrape(request)
+      await incrementalScraper.scrape(request)
+
+      expect(onRawData).toHaveBeenCalledTimes(2)
+      expect(onBeforeConvert).toHaveBeenCalledTimes(1)
+    })
+  })
 })
@@ -0,0 +1,215 @@
+import { describe, it, expect } from 'vitest'
+import type { RawData } from '@lesca/shared/types'
+
+import {
+  createSearchDocument,
+  createSnippet,
+  mergeSearchDocuments,
+  parseStoredDocument,
+  tokenize,
+} from '../search-documents'
+
+const metadata = { scrapedAt: new Date('2024-01-01') }
+
+describe('search documents', () => {
+  describe('tokenize', () => {
+    it('should lower-case words, drop stop words and fold plurals', () => {
+      expect(tokenize('The Queries of Arrays & Matches, in O(n)')).toEqual([
+        'query',
+        'array',
+        'match',
+        'o',
+        'n',
+      ])
+    })
+
+    it('should keep short words and numbers unchanged', () => {
+      expect(tokenize('gas 3sum 10s')).toEqual(['gas', '3sum', '10s'])
+    })
+  })
+
+  describe('createSearchDocument', () => {
+    it('should extract the text and metadata of a problem', () => {
+      const rawData = {
+        type: 'problem',
+        data: {
+          questionFrontendId: '1',
+          title: 'Two Sum',
+          titleSlug: 'two-sum',
+          difficulty: 'Easy',
+          content: '<p>Return <code>indices</code> &amp; stop.</p><pre>int x;</pre>',
+          hints: ['Try a <b>hash map</b>'],
+          topicTags: [{ name: 'Hash Table', slug: 'hash-table' }],
+        },
+        metadata,
+      } as unknown as RawData
+
+      const document = createSearchDocument('1-two-sum.md', rawData)
+
+      expect(document).toMatchObject({
+        type: 'problem',
+        slug: 'two-sum',
+        frontendId: '1',
+        difficulty: 'Easy',
+        tags: ['hash-table'],
+      })
+      expect(document?.fields.statement).not.toContain('int x')
+      expect(document?.fields.statement?.replace(/\s+/g, ' ').trim()).toBe('Return indices & stop.')
+      expect(document?.fields.hints).toContain('hash map')
+    })
+
+    it('should collect discussion titles, posts and comments', () => {
+      const rawData = {
+        type: 'discussion',
+        data: {
+          titleSlug: 'two-sum',
+          discussions: [
+            {
+              title: 'One pass',
+              content: 'Use a dictionary',
+              comments: [{ author: 'a', content: 'Nice trick', timestamp: null }],
+            },
+          ],
+        },
+        metadata,
+      } as unknown as RawData
+
+      expect(createSearchDocument('two-sum-discussions.md', rawData)?.fields.discussions).toBe(
+        'One pass\nUse a dictionary\nNice trick'
+      )
+    })
+
+    it('should skip lists and user profiles', () => {
+      expect(
+        createSearchDocument('list.json', { type: 'list', data: {}, metadata } as RawData)
+      ).toBeNull()
+      expect(
+        createSearchDocument('users/a.md', { type: 'user', data: {}, metadata } as RawData)
+      ).toBeNull()
+    })
+  })
+
+  describe('parseStoredDocument', () => {
+    it('should read Obsidian frontmatter and file sections by heading', () => {
+      const note = [
+        '---',
+        'frontend_id: "1"',
+        'title: Two Sum',
+        'titleSlug: two-sum',
+        'difficulty: Easy',
+        'tags:',
+        '  - array',
+        '---',
+        '',
+        '# Two Sum',
+        '',
+        'Find two numbers.',
+        '',
+        '```python',
+        'class Solution: pass',
+        '```',
+        '',
+        '## Hints',
+        '',
+        'Use a [hash map](https://example.com).',
+        '',
+        '## Editorial',
+        '',
+        '### Approaches',
+        '',
+        'One pass.',
+      ].join('\n')
+
+      const document = parseStoredDocument('Easy/0001-two-sum.md', note)
+
+      expect(document).toMatchObject({
+        type: 'problem',
+        slug: 'two-sum',
+        title: 'Two Sum',
+        frontendId: '1',
+        difficulty: 'Easy',
+        tags: ['array'],
+      })
+      expect(document?.fields.statement).not.toContain('Solution')
+      expect(document?.fields.hints?.trim()).toBe('Use a hash map.')
+      expect(document?.fields.approaches).toContain('One pass.')
+    })
+
+    it('should take the type, slug and ID of plain notes from the key', () => {
+      expect(
+        parseStoredDocument('1-two-sum-editorial.md', '# Editorial: Two Sum\n\nText')
+      ).toMatchObject({ type: 'editorial', slug: 'two-sum', frontendId: '1' })
+      expect(parseStoredDocument('1-two-sum/discussions.md', '# Discussions')).toMatchObject({
+        type: 'discussion',
+        slug: 'two-sum',
+      })
+      expect(
+        parseStoredDocument(
+          '1-two-sum.md',
+          '# Two Sum\n\n**Difficulty:** 🟢 Easy  \n**Tags:** `Hash Table`'
+        )
+      ).toMatchObject({ difficulty: 'Easy', tags: ['hash-table'] })
+    })
+
+    it('should read JSON documents', () => {
+      const json = JSON.stringify({
+        schemaVersion: 1,
+        type: 'editorial',
+        data: {
+          titleSlug: 'two-sum',
+          content: { html: '', markdown: 'Overview' },
+          approaches: [{ html: '', markdown: '**Hash** map' }],
+          complexity: null,
+        },
+      })
+
+      expect(parseStoredDocument('1-two-sum-editorial.json', json)).toMatchObject({
+        type: 'editorial',
+        slug: 'two-sum',
+        title: 'Two Sum',
+      })
+    })
+
+    it('should skip profiles, lists and other files', () => {
+      expect(parseStoredDocument('users/alice.md', '# alice')).toBeNull()
+      expect(parseStoredDocument('problem-list-2024-01-01.json', '{"total":0}')).toBeNull()
+      expect(parseStoredDocument('images/two-sum/a.png', '')).toBeNull()
+      expect(parseStoredDocument('broken.json', '{')).toBeNull()
+    })
+  })
+
+  it('should append the fields of bundled sections', () => {
+    const merged = mergeSearchDocuments(
+      { key: 'a.md', type: 'problem', slug: 'a', title: 'A', tags: [], fields: { title: 'A' } },
+      {
+        key: 'a.md',
+        type: 'editorial',
+        slug: 'a',
+        title: 'A',
+        tags: [],
+        fields: { title: 'A', approaches: 'Greedy' },
+      }
+    )
+
+    expect(merged).toMatchObject({ type: 'problem', fields: { title: 'A', approaches: 'Greedy' } })
+  })
+
+  describe('createSnippet', () => {
+    const text = `${'Intro words here. '.repeat(20)}Use a hash map to store numbers. ${'Outro text. '.repeat(20)}`
+
+    it('should cut the passage with the query terms and highlight them', () => {
+      const snippet = createSnippet(text, tokenize('hash maps'), {
+        length: 60,
+        highlight: (word) => `<${word}>`,
+      })
+
+      expect(snippet.startsWith('…')).toBe(true)
+      expect(snippet.endsWith('…')).toBe(true)
+      expect(snippet).toContain('<hash> <map> to store')
+    })
+
+    it('should start at the beginning without matches', () => {
+      expect(createSnippet('Short text', ['missing'])).toBe('Short text')
+    })
+  })
+})
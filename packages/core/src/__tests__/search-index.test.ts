@@ -0,0 +1,244 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import type { StorageAdapter } from '@lesca/shared/types'
+
+import type { SearchDocument } from '../search-documents'
+import { SearchIndex, SEARCH_INDEX_KEY } from '../search-index'
+
+vi.mock('@lesca/shared/utils', () => ({
+  logger: {
+    warn: vi.fn(),
+  },
+}))
+
+function createMemoryStorage(files: Map<string, string>): StorageAdapter {
+  return {
+    save: vi.fn((key: string, content: string) => {
+      files.set(key, content)
+      return Promise.resolve()
+    }),
+    load: vi.fn((key: string) => Promise.resolve(files.get(key) ?? null)),
+    exists: vi.fn((key: string) => Promise.resolve(files.has(key))),
+    delete: vi.fn((key: string) => {
+      files.delete(key)
+      return Promise.resolve()
+    }),
+    list: vi.fn(() => Promise.resolve([...files.keys()])),
+  }
+}
+
+function problem(
+  key: string,
+  title: string,
+  statement: string,
+  extra: Partial<SearchDocument> = {}
+): SearchDocument {
+  return {
+    key,
+    type: 'problem',
+    slug: key.replace(/^\d+-|\.md$/g, ''),
+    title,
+    tags: [],
+    fields: { title, statement },
+    ...extra,
+  }
+}
+
+describe('SearchIndex', () => {
+  let files: Map<string, string>
+  let storage: StorageAdapter
+  let index: SearchIndex
+
+  beforeEach(() => {
+    files = new Map()
+    storage = createMemoryStorage(files)
+    index = new SearchIndex(storage)
+    index.update(
+      problem('1-two-sum.md', 'Two Sum', 'Return indices of two numbers that add up to target.', {
+        difficulty: 'Easy',
+        tags: ['array', 'hash-table'],
+      })
+    )
+    index.update(
+      problem('15-3sum.md', '3Sum', 'Find all triplets in the array which give the sum of zero.', {
+        difficulty: 'Medium',
+        tags: ['array', 'two-pointers', 'sorting'],
+      })
+    )
+    index.update({
+      key: '1-two-sum-editorial.md',
+      type: 'editorial',
+      slug: 'two-sum',
+      title: 'Two Sum',
+      tags: [],
+      fields: { approaches: 'Store each number in a hash map and look up the complement.' },
+    })
+  })
+
+  describe('search', () => {
+    it('should rank title matches first', () => {
+      const hits = index.search('sum')
+
+      expect(hits.map((hit) => hit.key)).toEqual(['1-two-sum.md', '15-3sum.md'])
+    })
+
+    it('should require every query term', () => {
+      expect(index.search('triplets array').map((hit) => hit.key)).toEqual(['15-3sum.md'])
+      expect(index.search('triplets hash')).toEqual([])
+      expect(index.search('unknownword')).toEqual([])
+    })
+
+    it('should match singular and plural forms', () => {
+      expect(
+        index
+          .search('number')
+          .map((hit) => hit.key)
+          .sort()
+      ).toEqual(['1-two-sum-editorial.md', '1-two-sum.md'])
+    })
+
+    it('should filter by difficulty, tags and type', () => {
+      expect(index.search('array', { difficulty: 'Easy' }).map((hit) => hit.key)).toEqual([])
+      expect(index.search('sum', { tags: ['Hash Table'] }).map((hit) => hit.key)).toEqual([
+        '1-two-sum.md',
+      ])
+      expect(index.search('number', { type: 'editorial' }).map((hit) => hit.key)).toEqual([
+        '1-two-sum-editorial.md',
+      ])
+    })
+
+    it('should give editorials the metadata of their problem', () => {
+      const [hit] = index.search('complement', { difficulty: 'Easy', tags: ['array'] })
+
+      expect(hit).toMatchObject({
+        key: '1-two-sum-editorial.md',
+        type: 'editorial',
+        difficulty: 'Easy',
+        tags: ['array', 'hash-table'],
+      })
+    })
+
+    it('should apply the limit', () => {
+      expect(index.search('sum', { limit: 1 })).toHaveLength(1)
+    })
+  })
+
+  describe('update', () => {
+    it('should replace the terms of a re-indexed note', () => {
+      index.update(problem('1-two-sum.md', 'Two Sum', 'Now about graphs.'))
+
+      expect(index.size).toBe(3)
+      expect(index.search('target')).toEqual([])
+      expect(index.search('graph').map((hit) => hit.key)).toEqual(['1-two-sum.md'])
+    })
+
+    it('should remove notes', () => {
+      expect(index.remove('15-3sum.md')).toBe(true)
+      expect(index.remove('15-3sum.md')).toBe(false)
+      expect(index.search('triplets')).toEqual([])
+    })
+  })
+
+  describe('persistence', () => {
+    it('should save and load the index', async () => {
+      await index.save()
+
+      const loaded = await SearchIndex.load(storage)
+
+      expect(files.has(SEARCH_INDEX_KEY)).toBe(true)
+      expect(loaded.size).toBe(3)
+      expect(loaded.search('sum')).toEqual(index.search('sum'))
+    })
+
+    it('should combine saves requested during a write', async () => {
+      await Promise.all([index.save(), index.save(), index.save()])
+
+      expect(storage.save).toHaveBeenCalledTimes(2)
+    })
+
+    it('should write scheduled saves once after the delay', async () => {
+      vi.useFakeTimers()
+      try {
+        index.scheduleSave(1000)
+        index.scheduleSave(1000)
+        expect(storage.save).not.toHaveBeenCalled()
+
+        await vi.advanceTimersByTimeAsync(1000)
+
+        expect(storage.save).toHaveBeenCalledTimes(1)
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+
+    it('should write a scheduled save on flush', async () => {
+      index.scheduleSave()
+
+      await index.flush()
+      await index.flush()
+
+      expect(storage.save).toHaveBeenCalledTimes(1)
+      expect((await SearchIndex.load(storage)).size).toBe(3)
+    })
+
+    it('should remove notes from a loaded index', async () => {
+      await index.save()
+      const loaded = await SearchIndex.load(storage)
+
+      expect(loaded.remove('15-3sum.md')).toBe(true)
+      loaded.update(problem('1-two-sum.md', 'Two Sum', 'Now about graphs.'))
+
+      expect(loaded.search('triplets')).toEqual([])
+      expect(loaded.search('target')).toEqual([])
+      expect(loaded.search('graph').map((hit) => hit.key)).toEqual(['1-two-sum.md'])
+    })
+
+    it('should start empty when the stored index is outdated', async () => {
+      files.set(SEARCH_INDEX_KEY, JSON.stringify({ version: 0 }))
+
+      const loaded = await SearchIndex.load(storage)
+
+      expect(loaded.size).toBe(0)
+    })
+  })
+
+  describe('rebuild', () => {
+    beforeEach(() => {
+      files.clear()
+      files.set(
+        '1-two-sum.md',
+        '---\ntitleSlug: two-sum\ndifficulty: Easy\ntags:\n  - array\n---\n\n# Two Sum\n\nFind two numbers.\n\n## Hints\n\nUse a hash map.\n'
+      )
+      files.set('1-two-sum-editorial.md', '# Editorial: Two Sum\n\n## Approaches\n\nOne pass.\n')
+      files.set('problem-list-2024-01-01.json', '{"questions": []}')
+      files.set('.lesca/other.json', '{}')
+      files.set(SEARCH_INDEX_KEY, 'stale')
+    })
+
+    it('should index the notes in storage and save the index', async () => {
+      const progress = vi.fn()
+
+      const count = await index.rebuild(progress)
+
+      expect(count).toBe(2)
+      expect(progress).toHaveBeenLastCalledWith(3, 3)
+      expect(
+        index
+          .search('sum', { difficulty: 'Easy' })
+          .map((hit) => hit.key)
+          .sort()
+      ).toEqual(['1-two-sum-editorial.md', '1-two-sum.md'])
+      expect(JSON.parse(files.get(SEARCH_INDEX_KEY) ?? '')).toMatchObject({ version: 1 })
+    })
+
+    it('should cut snippets around the query terms', async () => {
+      await index.rebuild()
+
+      const snippet = await index.getSnippet('1-two-sum.md', 'hash maps', {
+        highlight: (word) => `[${word}]`,
+      })
+
+      expect(snippet).toBe('Find two numbers. Use a [hash] [map].')
+      expect(await index.getSnippet('missing.md', 'hash')).toBeUndefined()
+    })
+  })
+})
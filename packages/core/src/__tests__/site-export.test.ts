@@ -0,0 +1,222 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import type { StorageAdapter } from '@lesca/shared/types'
+
+import { SiteBuilder, type StaticSite } from '../site-export'
+
+function createMemoryStorage(
+  files: Map<string, string>,
+  binary: Map<string, Uint8Array>
+): StorageAdapter {
+  return {
+    save: vi.fn(() => Promise.resolve()),
+    load: vi.fn((key: string) => Promise.resolve(files.get(key) ?? null)),
+    exists: vi.fn((key: string) => Promise.resolve(files.has(key))),
+    delete: vi.fn(() => Promise.resolve()),
+    list: vi.fn(() => Promise.resolve([...files.keys(), ...binary.keys()])),
+    loadBinary: vi.fn((key: string) => Promise.resolve(binary.get(key) ?? null)),
+  }
+}
+
+const twoSum = `---
+frontend_id: "1"
+title: Two Sum
+titleSlug: two-sum
+difficulty: Easy
+tags:
+  - array
+  - hash-table
+companies:
+  - google
+---
+
+# Two Sum
+
+> Related: [[1-two-sum-editorial|Editorial]]
+
+Given an array of integers \`nums\` with $1 \\le n \\le 10^4$, return the indices.
+
+![example](images/two-sum-1.png)
+
+## Solutions
+
+\`\`\`python3
+def twoSum(self, nums, target):
+    seen = {}
+\`\`\`
+
+## Similar Problems
+
+- 🟡 [[15-3sum|3Sum]]
+- 🟡 [[4sum|4Sum]]
+`
+
+const twoSumEditorial = `# Editorial: Two Sum
+
+## Approaches
+
+Keep a **hash map**; see [the problem](1-two-sum.md).
+`
+
+function jsonDocument(type: string, data: Record<string, unknown>): string {
+  return JSON.stringify({ schemaVersion: 1, type, data })
+}
+
+describe('SiteBuilder', () => {
+  let files: Map<string, string>
+  let binary: Map<string, Uint8Array>
+  let site: StaticSite
+
+  const page = (path: string) => {
+    const content = site.files.find((file) => file.path === path)?.content
+    return typeof content === 'string' ? content : ''
+  }
+
+  beforeEach(async () => {
+    files = new Map([
+      ['1-two-sum.md', twoSum],
+      ['1-two-sum-editorial.md', twoSumEditorial],
+      [
+        '15-3sum.json',
+        jsonDocument('problem', {
+          id: '15',
+          questionId: '15',
+          title: '3Sum',
+          titleSlug: '3sum',
+          url: 'https://leetcode.com/problems/3sum/',
+          difficulty: 'Medium',
+          content: {
+            html: '<p>Find all triplets.</p>',
+            markdown: 'Find all triplets.',
+          },
+          hints: [],
+          tags: [{ name: 'Two Pointers', slug: 'two-pointers' }],
+          companies: [{ name: 'Meta', slug: 'facebook' }],
+          similarQuestions: [
+            { title: 'Two Sum', titleSlug: 'two-sum', difficulty: 'Easy' },
+            { title: '3Sum Closest', titleSlug: '3sum-closest', difficulty: 'Medium' },
+          ],
+          codeSnippets: [{ lang: 'Go', langSlug: 'golang', code: 'func threeSum() {}' }],
+        }),
+      ],
+      [
+        '15-3sum-discussion.json',
+        jsonDocument('discussion', {
+          titleSlug: '3sum',
+          url: 'https://leetcode.com/problems/3sum/discuss/',
+          category: 'solution',
+          sortBy: 'hot',
+          total: 1,
+          discussions: [
+            {
+              title: 'Sort and squeeze',
+              author: 'alice',
+              votes: 12,
+              timestamp: null,
+              commentCount: 0,
+              content: { html: '<p>Sort first.</p>', markdown: 'Sort first.' },
+              comments: [],
+            },
+          ],
+        }),
+      ],
+      ['notes.txt', 'not a note'],
+    ])
+    binary = new Map([['images/two-sum-1.png', new Uint8Array([1, 2, 3])]])
+
+    site = await new SiteBuilder(createMemoryStorage(files, binary), { title: 'Notes' }).build()
+  })
+
+  it('should render problems, editorials and discussions', () => {
+    expect(site).toMatchObject({ problems: 2, editorials: 1, discussions: 1 })
+    expect(site.files.map((file) => file.path)).toEqual(
+      expect.arrayContaining([
+        'index.html',
+        'problems/two-sum.html',
+        'problems/two-sum-editorial.html',
+        'problems/3sum.html',
+        'problems/3sum-discussions.html',
+        'assets/style.css',
+        'assets/site.js',
+        'assets/search-data.js',
+      ])
+    )
+    expect(page('problems/3sum-discussions.html')).toContain('Sort first.')
+    expect(page('problems/two-sum-editorial.html')).toContain('<strong>hash map</strong>')
+  })
+
+  it('should index problems by difficulty, tag and company', () => {
+    expect(page('index.html')).toContain('2 problems, 1 editorials, 1 discussions')
+    expect(page('difficulty/easy.html')).toContain('href="../problems/two-sum.html">Two Sum</a>')
+    expect(page('difficulty/hard.html')).toContain('No problems.')
+    expect(page('tags/two-pointers.html')).toContain('3Sum')
+    expect(page('tags/index.html')).toContain('href="hash-table.html">Hash Table</a>')
+    expect(page('companies/facebook.html')).toContain('<h1>Meta</h1>')
+  })
+
+  it('should highlight code snippets and keep math for KaTeX', () => {
+    const twoSumPage = page('problems/two-sum.html')
+    const threeSumPage = page('problems/3sum.html')
+
+    expect(twoSumPage).toContain('<code class="language-python">def twoSum')
+    expect(twoSumPage).toContain('$1 \\le n \\le 10^4$')
+    expect(threeSumPage).toContain('<code class="language-go">func threeSum() {}</code>')
+    expect(twoSumPage).toContain('katex.min.js')
+    expect(twoSumPage).toContain('highlight.min.js')
+  })
+
+  it('should pin the CDN files with integrity hashes', () => {
+    const cdnTags = page('index.html')
+      .split('\n')
+      .filter((line) => line.includes('cdn.jsdelivr.net'))
+
+    expect(cdnTags).toHaveLength(5)
+    for (const tag of cdnTags) {
+      expect(tag).toMatch(/integrity="sha384-[A-Za-z0-9+/]{64}" crossorigin="anonymous"/)
+    }
+  })
+
+  it('should link similar problems to their pages or to LeetCode', () => {
+    const twoSumPage = page('problems/two-sum.html')
+    const threeSumPage = page('problems/3sum.html')
+
+    expect(twoSumPage).toContain('<a href="3sum.html">3Sum</a>')
+    expect(twoSumPage).toContain('<a href="https://leetcode.com/problems/4sum/">4Sum</a>')
+    expect(threeSumPage).toContain('<a href="two-sum.html">Two Sum</a>')
+    expect(threeSumPage).toContain(
+      '<a href="https://leetcode.com/problems/3sum-closest/">3Sum Closest</a>'
+    )
+    expect(page('problems/two-sum-editorial.html')).toContain('href="two-sum.html">the problem')
+  })
+
+  it('should link problems to their notes and drop note links', () => {
+    const twoSumPage = page('problems/two-sum.html')
+
+    expect(twoSumPage).toContain('href="two-sum-editorial.html">Editorial</a>')
+    expect(twoSumPage).toContain('href="../tags/hash-table.html">Hash Table</a>')
+    expect(twoSumPage).not.toContain('Related:')
+  })
+
+  it('should copy stored images into the site', () => {
+    expect(site.files.find((file) => file.path === 'files/images/two-sum-1.png')?.content).toEqual(
+      new Uint8Array([1, 2, 3])
+    )
+    expect(page('problems/two-sum.html')).toContain('src="../files/images/two-sum-1.png"')
+  })
+
+  it('should write a search index of the problems', () => {
+    const script = page('assets/search-data.js')
+    const entries = JSON.parse(script.replace(/^window\.LESCA_SEARCH = /, '')) as Array<{
+      id: string
+      url: string
+      tags: string[]
+      text: string
+    }>
+
+    expect(entries.map((entry) => entry.url)).toEqual([
+      'problems/two-sum.html',
+      'problems/3sum.html',
+    ])
+    expect(entries[0]).toMatchObject({ id: '1', tags: ['Array', 'Hash Table'] })
+    expect(entries[1]?.text).toContain('Find all triplets.')
+  })
+})
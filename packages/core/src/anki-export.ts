@@ -0,0 +1,396 @@
+import { createHash } from 'crypto'
+import { posix } from 'path'
+
+import type { JsonEditorial, JsonProblem } from '@lesca/converters'
+import type { StorageAdapter } from '@lesca/shared/types'
+
+import { stableAnkiId, type AnkiModel, type AnkiNote, type AnkiPackage } from './apkg-writer'
+import {
+  escapeHtml,
+  getListItems,
+  markdownToHtml,
+  renderInline,
+  resolveImageKey,
+  rewriteImageSources,
+} from './markdown-html'
+import {
+  listStoredNoteKeys,
+  readJsonDocument,
+  readStoredNote,
+  readStoredProblem,
+  splitSections,
+  type StoredProblem,
+} from './stored-notes'
+
+const CARD_CSS = `.card { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; font-size: 16px; text-align: left; color: #1f2328; background: #fff; }
+.lesca-title { font-size: 1.4em; font-weight: bold; }
+.lesca-meta { color: #656d76; margin-bottom: 1em; }
+.lesca-link { margin-top: 1.5em; font-size: 0.9em; }
+pre { background: #f6f8fa; padding: 0.75em; border-radius: 6px; overflow-x: auto; }
+code { font-family: ui-monospace, Menlo, Consolas, monospace; font-size: 0.9em; }
+img { max-width: 100%; }
+.nightMode .card, .card.nightMode { color: #e6edf3; background: #0d1117; }
+.nightMode pre { background: #161b22; }`
+
+/**
+ * Note type of the problem cards: title and statement to approach and complexity
+ */
+export const ANKI_PROBLEM_MODEL: AnkiModel = {
+  id: stableAnkiId('model:lesca-problem'),
+  name: 'Lesca Problem',
+  fields: ['Title', 'Statement', 'Approach', 'Complexity', 'Difficulty', 'Link'],
+  templates: [
+    {
+      name: 'Approach',
+      front:
+        '<div class="lesca-title">{{Title}}</div>\n<div class="lesca-meta">{{Difficulty}}</div>\n{{Statement}}',
+      back: '{{FrontSide}}\n<hr id="answer">\n{{Approach}}\n{{#Complexity}}<h2>Complexity</h2>\n{{Complexity}}{{/Complexity}}\n<div class="lesca-link">{{Link}}</div>',
+    },
+  ],
+  css: CARD_CSS,
+}
+
+/**
+ * Note type of the hint cards: a hint to the next one
+ */
+export const ANKI_HINT_MODEL: AnkiModel = {
+  id: stableAnkiId('model:lesca-hint'),
+  name: 'Lesca Hint',
+  fields: ['Title', 'Hint', 'Next Hint', 'Position', 'Link'],
+  templates: [
+    {
+      name: 'Next Hint',
+      front:
+        '<div class="lesca-title">{{Title}}</div>\n<div class="lesca-meta">{{Position}}</div>\n{{Hint}}',
+      back: '{{FrontSide}}\n<hr id="answer">\n{{Next Hint}}\n<div class="lesca-link">{{Link}}</div>',
+    },
+  ],
+  css: CARD_CSS,
+}
+
+/**
+ * Options for `AnkiDeckBuilder`
+ */
+export interface AnkiDeckOptions {
+  /** Deck the cards are imported into (default: LeetCode) */
+  deckName?: string
+}
+
+/**
+ * Notes and media of an Anki deck built from storage
+ */
+export interface AnkiDeck extends AnkiPackage {
+  /** Problems with a card */
+  problems: number
+  /** Hint cards */
+  hints: number
+  /** Problems without a card because no editorial was scraped for them */
+  skipped: number
+}
+
+/**
+ * HTML read from a stored note, with the key its image links are relative to
+ */
+interface StoredHtml {
+  key: string
+  html: string
+}
+
+interface ProblemRecord {
+  problem: StoredProblem
+  url: string
+  statement?: StoredHtml
+  hints: StoredHtml[]
+}
+
+interface EditorialRecord {
+  approach: StoredHtml
+  complexity?: StoredHtml
+}
+
+/** Sections the enhancers and bundles append to a problem note after the statement */
+const APPENDED_SECTIONS = [
+  'Hints',
+  'Code Templates',
+  'Companies',
+  'Tags',
+  'Similar Problems',
+  'Editorial',
+  'Discussions',
+]
+
+/** Lines of the metadata block added below the title of Obsidian notes */
+const METADATA_LINE = /^\*\*(Difficulty|Tags|Acceptance Rate|LeetCode):\*\*/
+
+/**
+ * Builds an Anki deck from the problems in storage
+ *
+ * Each problem with an editorial gets a card from its title and statement to
+ * the approaches and complexity analysis, and each hint but the last a card
+ * to the next hint. Editorials are read from JSON documents, separate notes
+ * and problem bundles. Tags, companies and the difficulty become Anki tags,
+ * and images stored next to the notes are embedded; remote images stay links.
+ * Notes are identified by problem slug (`lesca:problem:two-sum`), so Anki
+ * updates them on a later import instead of adding new cards.
+ */
+export class AnkiDeckBuilder {
+  constructor(
+    private readonly storage: StorageAdapter,
+    private readonly options: AnkiDeckOptions = {}
+  ) {}
+
+  /**
+   * Read the stored problems and editorials and build the deck
+   * @param onProgress - Called after each stored key is read
+   */
+  async build(onProgress?: (done: number, total: number) => void): Promise<AnkiDeck> {
+    const problems = new Map<string, ProblemRecord>()
+    const editorials = new Map<string, EditorialRecord>()
+
+    const keys = (await listStoredNoteKeys(this.storage)).sort()
+    for (const [position, key] of keys.entries()) {
+      const content = await this.storage.load(key)
+      if (content !== null) {
+        this.readKey(key, content, problems, editorials)
+      }
+      onProgress?.(position + 1, keys.length)
+    }
+
+    const media = new Map<string, Uint8Array>()
+    const notes: AnkiNote[] = []
+    let skipped = 0
+    let hints = 0
+
+    for (const record of [...problems.values()].sort(compareProblems)) {
+      const { problem } = record
+      const title = problem.frontendId ? `${problem.frontendId}. ${problem.title}` : problem.title
+      const link = `<a href="${escapeHtml(record.url)}">LeetCode</a>`
+      const tags = getTags(problem)
+
+      const editorial = editorials.get(problem.slug)
+      if (editorial) {
+        notes.push({
+          guid: `lesca:problem:${problem.slug}`,
+          model: ANKI_PROBLEM_MODEL,
+          fields: [
+            escapeHtml(title),
+            record.statement ? await this.embedImages(record.statement, media) : '',
+            await this.embedImages(editorial.approach, media),
+            editorial.complexity ? await this.embedImages(editorial.complexity, media) : '',
+            problem.difficulty ?? '',
+            link,
+          ],
+          tags,
+        })
+      } else {
+        skipped++
+      }
+
+      for (let i = 0; i + 1 < record.hints.length; i++) {
+        const hint = record.hints[i]
+        const next = record.hints[i + 1]
+        if (!hint || !next) continue
+        notes.push({
+          guid: `lesca:hint:${problem.slug}:${i + 1}`,
+          model: ANKI_HINT_MODEL,
+          fields: [
+            escapeHtml(title),
+            await this.embedImages(hint, media),
+            await this.embedImages(next, media),
+            `Hint ${i + 1} of ${record.hints.length}`,
+            link,
+          ],
+          tags,
+        })
+        hints++
+      }
+    }
+
+    return {
+      deckName: this.options.deckName ?? 'LeetCode',
+      notes,
+      media,
+      problems: problems.size - skipped,
+      hints,
+      skipped,
+    }
+  }
+
+  /**
+   * Collect the problem or editorial stored under a key
+   * Folder bundles and mixed formats can store a problem twice; the first is kept.
+   */
+  private readKey(
+    key: string,
+    content: string,
+    problems: Map<string, ProblemRecord>,
+    editorials: Map<string, EditorialRecord>
+  ): void {
+    const document = readJsonDocument(key, content)
+    if (document?.type === 'editorial') {
+      const editorial = document.data as JsonEditorial
+      const approach = editorial.approaches.map((item) => item.html).join('\n')
+      if (!editorials.has(editorial.titleSlug) && (approach || editorial.content.html)) {
+        editorials.set(editorial.titleSlug, {
+          approach: { key, html: approach || editorial.content.html },
+          ...(editorial.complexity ? { complexity: { key, html: editorial.complexity.html } } : {}),
+        })
+      }
+      return
+    }
+
+    const problem = readStoredProblem(key, content)
+    if (document) {
+      if (problem && !problems.has(problem.slug)) {
+        const data = document.data as JsonProblem
+        problems.set(problem.slug, {
+          problem,
+          url: data.url,
+          ...(data.content.html ? { statement: { key, html: data.content.html } } : {}),
+          hints: (data.hints ?? []).map((html) => ({ key, html })),
+        })
+      }
+      return
+    }
+
+    const note = readStoredNote(key, content)
+    if (!note || note.type === 'discussion') {
+      return
+    }
+    if (note.type === 'editorial') {
+      const editorial = readEditorial(key, note.body)
+      if (editorial && !editorials.has(note.slug)) {
+        editorials.set(note.slug, editorial)
+      }
+      return
+    }
+    if (!problem || problems.has(problem.slug)) {
+      return
+    }
+
+    const sections = splitSections(stripNoteHeader(note.body))
+    const statement = sections
+      .filter((section) => !APPENDED_SECTIONS.includes(section.heading))
+      .map((section) => (section.heading ? `## ${section.heading}\n${section.text}` : section.text))
+      .join('')
+      .trim()
+    const hints = sections.find((section) => section.heading === 'Hints')?.text ?? ''
+    const bundled = sections.find((section) => section.heading === 'Editorial')
+
+    problems.set(problem.slug, {
+      problem,
+      url: `https://leetcode.com/problems/${problem.slug}/`,
+      ...(statement ? { statement: { key, html: markdownToHtml(statement) } } : {}),
+      hints: getListItems(hints).map((hint) => ({ key, html: renderInline(hint) })),
+    })
+
+    const editorial = bundled ? readEditorial(key, promoteHeadings(bundled.text)) : null
+    if (editorial && !editorials.has(problem.slug)) {
+      editorials.set(problem.slug, editorial)
+    }
+  }
+
+  /**
+   * Add the local images of a field to the media and link them by media name
+   * Anki keeps media in one flat folder, so names get a hash of the storage key.
+   */
+  private async embedImages(field: StoredHtml, media: Map<string, Uint8Array>): Promise<string> {
+    return rewriteImageSources(field.html, async (src) => {
+      const imageKey = resolveImageKey(field.key, src)
+      const data = imageKey ? await this.storage.loadBinary?.(imageKey) : null
+      if (!imageKey || !data) {
+        return null
+      }
+      const name = `lesca-${sha1(imageKey).slice(0, 8)}-${posix.basename(imageKey).replace(/[^\w.-]/g, '-')}`
+      media.set(name, data)
+      return name
+    })
+  }
+}
+
+/**
+ * Approaches and complexity of an editorial note
+ * Plain notes have a `Complexity Analysis` section, Obsidian notes a callout.
+ * @returns null if the editorial has neither approaches nor a solution
+ */
+function readEditorial(key: string, body: string): EditorialRecord | null {
+  const callout = /^> \[!note\] Complexity Analysis\n((?:>.*(?:\n|$))*)/m.exec(body)
+  const sections = splitSections(callout ? body.replace(callout[0], '') : body)
+  const text = (heading: RegExp) =>
+    sections.find((section) => heading.test(section.heading))?.text.trim() ?? ''
+
+  const approach = text(/^Approaches$/) || text(/^Solution( Overview)?$/)
+  if (!approach) {
+    return null
+  }
+  const complexity =
+    text(/^Complexity Analysis$/) || (callout?.[1] ?? '').replace(/^> ?/gm, '').trim()
+  return {
+    approach: { key, html: markdownToHtml(approach) },
+    ...(complexity ? { complexity: { key, html: markdownToHtml(complexity) } } : {}),
+  }
+}
+
+/**
+ * Drop the title, metadata block and related links from a problem note
+ */
+function stripNoteHeader(body: string): string {
+  const lines = body.split('\n')
+  const title = lines.findIndex((line) => line.trim() !== '')
+  const result: string[] = []
+  let afterMetadata = false
+
+  for (const [index, line] of lines.entries()) {
+    if ((index === title && /^# /.test(line)) || /^> Related: /.test(line)) {
+      continue
+    }
+    if (METADATA_LINE.test(line)) {
+      afterMetadata = true
+      continue
+    }
+    if (afterMetadata && line.trim() !== '') {
+      afterMetadata = false
+      if (line.trim() === '---') continue
+    }
+    result.push(line)
+  }
+  return result.join('\n')
+}
+
+/**
+ * Undo the heading demotion of a section embedded in a problem bundle
+ */
+function promoteHeadings(markdown: string): string {
+  let inCodeBlock = false
+  return markdown
+    .split('\n')
+    .map((line) => {
+      if (/^(```|~~~)/.test(line)) {
+        inCodeBlock = !inCodeBlock
+      }
+      return !inCodeBlock && /^#{3,6} /.test(line) ? line.slice(1) : line
+    })
+    .join('\n')
+}
+
+function getTags(problem: StoredProblem): string[] {
+  return [
+    'lesca',
+    ...(problem.difficulty ? [`difficulty::${problem.difficulty.toLowerCase()}`] : []),
+    ...problem.tags,
+    ...problem.companies.map((company) => `company::${company}`),
+  ].map((tag) => tag.replace(/\s+/g, '-'))
+}
+
+function compareProblems(a: ProblemRecord, b: ProblemRecord): number {
+  const idA = Number(a.problem.frontendId ?? Infinity)
+  const idB = Number(b.problem.frontendId ?? Infinity)
+  return (
+    (Number.isNaN(idA) ? Infinity : idA) - (Number.isNaN(idB) ? Infinity : idB) ||
+    a.problem.slug.localeCompare(b.problem.slug)
+  )
+}
+
+function sha1(value: string): string {
+  return createHash('sha1').update(value).digest('hex')
+}
@@ -0,0 +1,369 @@
+import { createHash } from 'crypto'
+import { deflateRawSync } from 'zlib'
+
+import BetterSqlite3 from 'better-sqlite3'
+
+/**
+ * Card template of an Anki note type
+ */
+export interface AnkiTemplate {
+  name: string
+  /** Question side, with `{{Field}}` placeholders */
+  front: string
+  /** Answer side, usually starting with `{{FrontSide}}` */
+  back: string
+}
+
+/**
+ * Anki note type
+ * The ID must not change between exports, or Anki imports the notes as a
+ * new note type and loses their review history.
+ */
+export interface AnkiModel {
+  id: number
+  name: string
+  fields: string[]
+  templates: AnkiTemplate[]
+  css: string
+}
+
+/**
+ * Anki note, with one card per template of its note type
+ */
+export interface AnkiNote {
+  /** Identifies the note across exports; Anki updates notes with a known GUID */
+  guid: string
+  model: AnkiModel
+  /** HTML field values, in the order of the note type fields */
+  fields: string[]
+  tags: string[]
+}
+
+/**
+ * Content of an `.apkg` file
+ */
+export interface AnkiPackage {
+  deckName: string
+  notes: AnkiNote[]
+  /** Files referenced by the notes, by flat file name */
+  media: Map<string, Uint8Array>
+}
+
+const SCHEMA = `
+  CREATE TABLE col (
+    id integer PRIMARY KEY, crt integer NOT NULL, mod integer NOT NULL, scm integer NOT NULL,
+    ver integer NOT NULL, dty integer NOT NULL, usn integer NOT NULL, ls integer NOT NULL,
+    conf text NOT NULL, models text NOT NULL, decks text NOT NULL, dconf text NOT NULL,
+    tags text NOT NULL
+  );
+  CREATE TABLE notes (
+    id integer PRIMARY KEY, guid text NOT NULL, mid integer NOT NULL, mod integer NOT NULL,
+    usn integer NOT NULL, tags text NOT NULL, flds text NOT NULL, sfld integer NOT NULL,
+    csum integer NOT NULL, flags integer NOT NULL, data text NOT NULL
+  );
+  CREATE TABLE cards (
+    id integer PRIMARY KEY, nid integer NOT NULL, did integer NOT NULL, ord integer NOT NULL,
+    mod integer NOT NULL, usn integer NOT NULL, type integer NOT NULL, queue integer NOT NULL,
+    due integer NOT NULL, ivl integer NOT NULL, factor integer NOT NULL, reps integer NOT NULL,
+    lapses integer NOT NULL, left integer NOT NULL, odue integer NOT NULL, odid integer NOT NULL,
+    flags integer NOT NULL, data text NOT NULL
+  );
+  CREATE TABLE revlog (
+    id integer PRIMARY KEY, cid integer NOT NULL, usn integer NOT NULL, ease integer NOT NULL,
+    ivl integer NOT NULL, lastIvl integer NOT NULL, factor integer NOT NULL, time integer NOT NULL,
+    type integer NOT NULL
+  );
+  CREATE TABLE graves (usn integer NOT NULL, oid integer NOT NULL, type integer NOT NULL);
+  CREATE INDEX ix_notes_usn ON notes (usn);
+  CREATE INDEX ix_cards_usn ON cards (usn);
+  CREATE INDEX ix_revlog_usn ON revlog (usn);
+  CREATE INDEX ix_cards_nid ON cards (nid);
+  CREATE INDEX ix_cards_sched ON cards (did, queue, due);
+  CREATE INDEX ix_revlog_cid ON revlog (cid);
+  CREATE INDEX ix_notes_csum ON notes (csum);
+`
+
+/** Anki collection schema version read by every Anki release since 2.1 */
+const SCHEMA_VERSION = 11
+
+const DEFAULT_DECK_CONFIG = {
+  id: 1,
+  name: 'Default',
+  mod: 0,
+  usn: 0,
+  maxTaken: 60,
+  autoplay: true,
+  timer: 0,
+  replayq: true,
+  dyn: false,
+  new: {
+    bury: true,
+    delays: [1, 10],
+    initialFactor: 2500,
+    ints: [1, 4, 7],
+    order: 1,
+    perDay: 20,
+  },
+  lapse: { delays: [10], leechAction: 0, leechFails: 8, minInt: 1, mult: 0 },
+  rev: { bury: true, ease4: 1.3, fuzz: 0.05, ivlFct: 1, maxIvl: 36500, perDay: 200 },
+}
+
+/**
+ * Write an Anki package (`.apkg`)
+ *
+ * The package is a zip of a schema 11 collection (`collection.anki2`), a
+ * `media` map and the media files, named `0`, `1`, ... Note, card, deck and
+ * note type IDs are derived from names and GUIDs, so exporting the same
+ * notes again gives the same IDs and Anki keeps their review history on
+ * import.
+ * @param now - Modification time of the notes (default: now)
+ */
+export function writeApkg(pkg: AnkiPackage, now = new Date()): Buffer {
+  const media = [...pkg.media.entries()].sort(([a], [b]) => a.localeCompare(b))
+  const entries: ZipEntry[] = [
+    { name: 'collection.anki2', data: createCollection(pkg, now) },
+    {
+      name: 'media',
+      data: Buffer.from(JSON.stringify(Object.fromEntries(media.map(([name], i) => [i, name])))),
+    },
+    ...media.map(([, data], i) => ({ name: String(i), data: Buffer.from(data) })),
+  ]
+  return createZip(entries)
+}
+
+/**
+ * ID derived from a string, in the range Anki uses for millisecond timestamps
+ */
+export function stableAnkiId(value: string): number {
+  return 1_000_000_000_000 + (parseInt(sha1(value).slice(0, 12), 16) % 1_000_000_000_000)
+}
+
+function createCollection(pkg: AnkiPackage, now: Date): Buffer {
+  const db = new BetterSqlite3(':memory:')
+  try {
+    db.exec(SCHEMA)
+
+    const mod = now.getTime()
+    const modSeconds = Math.floor(mod / 1000)
+    const deckId = stableAnkiId(`deck:${pkg.deckName}`)
+    const models = new Map(pkg.notes.map((note) => [note.model.id, note.model]))
+
+    db.prepare(
+      `INSERT INTO col (id, crt, mod, scm, ver, dty, usn, ls, conf, models, decks, dconf, tags)
+       VALUES (1, ?, ?, ?, ?, 0, 0, 0, ?, ?, ?, ?, '{}')`
+    ).run(
+      // Day cutoff of the collection; imported cards are new, so any past date works
+      Math.floor(Date.UTC(2020, 0, 1) / 1000),
+      mod,
+      mod,
+      SCHEMA_VERSION,
+      JSON.stringify({ activeDecks: [1], curDeck: 1, nextPos: pkg.notes.length + 1 }),
+      JSON.stringify(
+        Object.fromEntries(
+          [...models.values()].map((model) => [model.id, toModelJson(model, deckId, modSeconds)])
+        )
+      ),
+      JSON.stringify({
+        1: toDeckJson(1, 'Default', 0),
+        [deckId]: toDeckJson(deckId, pkg.deckName, modSeconds),
+      }),
+      JSON.stringify({ 1: DEFAULT_DECK_CONFIG })
+    )
+
+    const insertNote = db.prepare(
+      `INSERT INTO notes (id, guid, mid, mod, usn, tags, flds, sfld, csum, flags, data)
+       VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, '')`
+    )
+    const insertCard = db.prepare(
+      `INSERT INTO cards (id, nid, did, ord, mod, usn, type, queue, due, ivl, factor, reps, lapses,
+         left, odue, odid, flags, data)
+       VALUES (?, ?, ?, ?, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, '')`
+    )
+
+    db.transaction(() => {
+      for (const [position, note] of pkg.notes.entries()) {
+        const noteId = stableAnkiId(`note:${note.guid}`)
+        const sortField = stripHtml(note.fields[0] ?? '')
+        insertNote.run(
+          noteId,
+          note.guid,
+          note.model.id,
+          modSeconds,
+          note.tags.length > 0 ? ` ${note.tags.join(' ')} ` : '',
+          note.fields.join('\x1f'),
+          sortField,
+          parseInt(sha1(sortField).slice(0, 8), 16)
+        )
+        for (const ord of note.model.templates.keys()) {
+          insertCard.run(
+            stableAnkiId(`card:${note.guid}:${ord}`),
+            noteId,
+            deckId,
+            ord,
+            modSeconds,
+            position + 1
+          )
+        }
+      }
+    })()
+
+    return db.serialize()
+  } finally {
+    db.close()
+  }
+}
+
+function toModelJson(model: AnkiModel, deckId: number, mod: number): Record<string, unknown> {
+  return {
+    id: model.id,
+    name: model.name,
+    type: 0,
+    mod,
+    usn: -1,
+    sortf: 0,
+    did: deckId,
+    flds: model.fields.map((name, ord) => ({
+      name,
+      ord,
+      sticky: false,
+      rtl: false,
+      font: 'Arial',
+      size: 20,
+      media: [],
+    })),
+    tmpls: model.templates.map((template, ord) => ({
+      name: template.name,
+      ord,
+      qfmt: template.front,
+      afmt: template.back,
+      bqfmt: '',
+      bafmt: '',
+      did: null,
+    })),
+    css: model.css,
+    latexPre:
+      '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+    latexPost: '\\end{document}',
+    // Cards need their first field, which is the title for every Lesca note type
+    req: model.templates.map((_template, ord) => [ord, 'any', [0]]),
+    tags: [],
+    vers: [],
+  }
+}
+
+function toDeckJson(id: number, name: string, mod: number): Record<string, unknown> {
+  return {
+    id,
+    name,
+    mod,
+    usn: -1,
+    desc: '',
+    dyn: 0,
+    conf: 1,
+    collapsed: false,
+    newToday: [0, 0],
+    revToday: [0, 0],
+    lrnToday: [0, 0],
+    timeToday: [0, 0],
+    extendNew: 0,
+    extendRev: 0,
+  }
+}
+
+/**
+ * Text of an HTML field, as Anki stores it for sorting and duplicate checks
+ */
+function stripHtml(html: string): string {
+  return html
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, '&')
+    .trim()
+}
+
+function sha1(value: string): string {
+  return createHash('sha1').update(value).digest('hex')
+}
+
+interface ZipEntry {
+  name: string
+  data: Buffer
+}
+
+// MS-DOS date of 1980-01-01, so the same package content gives the same bytes
+const ZIP_DATE = (1 << 5) | 1
+
+/**
+ * Deflated zip archive of the entries
+ */
+function createZip(entries: ZipEntry[]): Buffer {
+  const parts: Buffer[] = []
+  const directory: Buffer[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf-8')
+    const compressed = deflateRawSync(entry.data)
+    const crc = crc32(entry.data)
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(20, 4)
+    local.writeUInt16LE(0x0800, 6) // UTF-8 names
+    local.writeUInt16LE(8, 8) // deflate
+    local.writeUInt16LE(0, 10)
+    local.writeUInt16LE(ZIP_DATE, 12)
+    local.writeUInt32LE(crc, 14)
+    local.writeUInt32LE(compressed.length, 18)
+    local.writeUInt32LE(entry.data.length, 22)
+    local.writeUInt16LE(name.length, 26)
+    local.writeUInt16LE(0, 28)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(20, 4)
+    central.writeUInt16LE(20, 6)
+    central.writeUInt16LE(0x0800, 8)
+    central.writeUInt16LE(8, 10)
+    central.writeUInt16LE(0, 12)
+    central.writeUInt16LE(ZIP_DATE, 14)
+    central.writeUInt32LE(crc, 16)
+    central.writeUInt32LE(compressed.length, 20)
+    central.writeUInt32LE(entry.data.length, 24)
+    central.writeUInt16LE(name.length, 28)
+    central.writeUInt32LE(offset, 42)
+
+    parts.push(local, name, compressed)
+    directory.push(central, name)
+    offset += local.length + name.length + compressed.length
+  }
+
+  const directorySize = directory.reduce((size, part) => size + part.length, 0)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(entries.length, 8)
+  end.writeUInt16LE(entries.length, 10)
+  end.writeUInt32LE(directorySize, 12)
+  end.writeUInt32LE(offset, 16)
+
+  return Buffer.concat([...parts, ...directory, end])
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_value, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  }
+  return c >>> 0
+})
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff
+  for (const byte of data) {
+    crc = (CRC_TABLE[(crc ^ byte) & 0xff] ?? 0) ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
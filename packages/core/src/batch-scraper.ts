@@ -2,11 +2,13 @@ import { existsSync } from 'fs'
 import { writeFile, readFile, mkdir } from 'fs/promises'
 import { resolve, dirname } from 'path'
 
-import { SystemError } from '@lesca/error'
+import { SessionRotator, type SessionRotationConfig } from '@lesca/browser-automation'
+import { LescaError, RateLimitError, SystemError } from '@lesca/error'
 import { configManager } from '@lesca/shared/config'
 import type { ScrapeRequest, ScrapeResult } from '@lesca/shared/types'
 import { logger } from '@lesca/shared/utils'
 
+import type { ReauthCoordinator } from './reauth-coordinator'
 import type { LeetCodeScraper } from './scraper'
 
 /**
@@ -27,6 +29,40 @@ export interface BatchScrapingOptions {
   onProgress?: (progress: BatchProgress) => void
   /** Callback for individual result */
   onResult?: (result: ScrapeResult, index: number, total: number) => void
+  /** Sessions to spread requests across (replaces the scraper passed to the constructor) */
+  sessions?: BatchSession[]
+  /** How requests are assigned to sessions and how long a throttled session rests */
+  sessionRotation?: Omit<SessionRotationConfig, 'enabled'>
+  /** Refreshes expired credentials and retries the requests that failed because of them */
+  reauth?: ReauthCoordinator
+}
+
+/**
+ * A named account used by a multi-session batch
+ */
+export interface BatchSession {
+  /** Name shown in the report */
+  name: string
+  /** Scraper that uses this session's credentials and browser */
+  scraper: LeetCodeScraper
+  /** Check whether the session's browser is showing a CAPTCHA */
+  detectCaptcha?: () => Promise<boolean>
+  /** Re-authenticates this session's account; overrides the batch `reauth` */
+  reauth?: ReauthCoordinator
+}
+
+/**
+ * Request counts for one session of a multi-session batch
+ */
+export interface BatchSessionStats {
+  name: string
+  requests: number
+  successful: number
+  failed: number
+  /** Requests that failed with NET_RATE_LIMITED */
+  rateLimited: number
+  /** Failed requests where the browser showed a CAPTCHA */
+  captchas: number
 }
 
 /**
@@ -59,6 +95,10 @@ export interface BatchScrapeResult {
     skipped: number
     duration: number
     averageTime: number
+    /** New, changed and unchanged item counts (incremental scrapes only) */
+    changes?: BatchChangeSummary
+    /** Per-session counts (multi-session batches only) */
+    sessions?: BatchSessionStats[]
   }
   errors: Array<{
     request: ScrapeRequest
@@ -67,6 +107,15 @@ export interface BatchScrapeResult {
   }>
 }
 
+/**
+ * Diff summary of an incremental batch
+ */
+export interface BatchChangeSummary {
+  new: number
+  changed: number
+  unchanged: number
+}
+
 /**
  * Progress state for resume capability
  */
@@ -79,8 +128,19 @@ interface ProgressState {
 /**
  * Batch Scraper
  * Handles parallel scraping with progress tracking and error recovery
+ * With an incremental scraper, unchanged items are skipped by the scraper and
+ * the result reports how many items were new, changed or unchanged.
+ * With several sessions, each request goes to a session picked by a
+ * SessionRotator. A session that is rate limited or shows a CAPTCHA goes on
+ * cooldown and the request is retried on another session.
+ * With a ReauthCoordinator, a request that failed because the session expired
+ * waits for the credentials to be refreshed and is retried once. Requests
+ * started while a refresh is running wait for it to finish.
  */
 export class BatchScraper {
+  private rotator?: SessionRotator
+  private sessionStats = new Map<string, BatchSessionStats>()
+
   constructor(
     private scraper: LeetCodeScraper,
     private options: BatchScrapingOptions = {}
@@ -93,6 +153,21 @@ export class BatchScraper {
       progressFile: resolve(process.cwd(), '.lesca-progress.json'),
       ...options,
     }
+
+    if (this.options.sessions?.length) {
+      this.rotator = new SessionRotator({ ...this.options.sessionRotation, enabled: true })
+      for (const session of this.options.sessions) {
+        this.rotator.registerSession(session.name)
+        this.sessionStats.set(session.name, {
+          name: session.name,
+          requests: 0,
+          successful: 0,
+          failed: 0,
+          rateLimited: 0,
+          captchas: 0,
+        })
+      }
+    }
   }
 
   /**
@@ -118,6 +193,7 @@ export class BatchScraper {
       .filter((index) => !completedIndices.has(index))
 
     if (pendingRequests.length === 0) {
+      const changes = BatchScraper.summarizeChanges(results)
       return {
         success: true,
         results,
@@ -128,6 +204,8 @@ export class BatchScraper {
           skipped: 0,
           duration: Date.now() - startTime,
           averageTime: 0,
+          ...(changes ? { changes } : {}),
+          ...this.getSessionSummary(),
         },
         errors,
       }
@@ -260,6 +338,7 @@ export class BatchScraper {
     }
 
     const duration = Date.now() - startTime
+    const changes = BatchScraper.summarizeChanges(results)
 
     return {
       success: errors.length === 0 || this.options.continueOnError === true,
@@ -271,17 +350,176 @@ export class BatchScraper {
         skipped: progress.skipped,
         duration,
         averageTime: duration / requests.length,
+        ...(changes ? { changes } : {}),
+        ...this.getSessionSummary(),
       },
       errors,
     }
   }
 
+  /**
+   * Count new, changed and unchanged items
+   * @returns undefined when no result carries change information
+   */
+  static summarizeChanges(results: ScrapeResult[]): BatchChangeSummary | undefined {
+    const summary: BatchChangeSummary = { new: 0, changed: 0, unchanged: 0 }
+    let found = false
+
+    for (const result of results) {
+      if (result.change) {
+        summary[result.change.status]++
+        found = true
+      }
+    }
+
+    return found ? summary : undefined
+  }
+
   /**
    * Scrape a single request
    */
   private async scrapeSingle(request: ScrapeRequest, _index: number): Promise<ScrapeResult> {
+    if (!this.rotator) {
+      return this.scrapeWith(this.scraper, request)
+    }
+
+    // Retry a throttled request on the other sessions
+    const attempts = this.options.sessions?.length ?? 1
+    let result: ScrapeResult | undefined
+    for (let attempt = 0; attempt < attempts; attempt++) {
+      const session = await this.acquireSession()
+      result = await this.scrapeWith(session.scraper, request, session.reauth)
+      if (!(await this.recordSessionResult(session, result))) {
+        break
+      }
+    }
+    return result as ScrapeResult
+  }
+
+  /**
+   * Pick the next session, waiting for a cooldown to end if every session is resting
+   */
+  private async acquireSession(): Promise<BatchSession> {
+    const rotator = this.rotator as SessionRotator
+    let name = rotator.selectSession()
+
+    while (name === undefined) {
+      const cooldowns = rotator
+        .getAllSessions()
+        .map((session) => session.cooldownUntil ?? Date.now())
+      const wait = Math.max(0, Math.min(...cooldowns) - Date.now())
+      logger.warn(`All sessions are on cooldown, waiting ${BatchScraper.formatETA(wait)}`)
+      await this.sleep(wait)
+      name = rotator.selectSession()
+    }
+
+    const session = this.options.sessions?.find((s) => s.name === name)
+    if (!session) {
+      throw new SystemError('SYS_UNKNOWN_ERROR', `Unknown batch session: ${name}`, {
+        context: { session: name },
+      })
+    }
+    return session
+  }
+
+  /**
+   * Update the rotator and session counts after a request
+   * @returns true if the session was throttled and went on cooldown
+   */
+  private async recordSessionResult(session: BatchSession, result: ScrapeResult): Promise<boolean> {
+    const rotator = this.rotator as SessionRotator
+    const stats = this.sessionStats.get(session.name)
+    if (stats) {
+      stats.requests++
+      stats[result.success ? 'successful' : 'failed']++
+    }
+
+    if (result.success) {
+      rotator.recordSuccess(session.name)
+      return false
+    }
+
+    const rateLimit = BatchScraper.findRateLimit(result.error)
+    let throttled = rateLimit !== undefined
+    if (throttled) {
+      if (stats) stats.rateLimited++
+    } else if (session.detectCaptcha && (await session.detectCaptcha().catch(() => false))) {
+      if (stats) stats.captchas++
+      throttled = true
+    }
+
+    if (!throttled) {
+      return false
+    }
+
+    const retryAfter = rateLimit instanceof RateLimitError ? rateLimit.retryAfter : undefined
+    rotator.recordRateLimit(session.name)
+    rotator.setCooldown(session.name, retryAfter !== undefined ? retryAfter * 1000 : undefined)
+    logger.warn(`Session ${session.name} is throttled, putting it on cooldown`)
+    return true
+  }
+
+  /**
+   * Per-session counts for the batch result
+   */
+  private getSessionSummary(): { sessions?: BatchSessionStats[] } {
+    return this.rotator ? { sessions: Array.from(this.sessionStats.values()) } : {}
+  }
+
+  /**
+   * Find a NET_RATE_LIMITED error in an error or its causes
+   */
+  private static findRateLimit(error: unknown): LescaError | undefined {
+    let current = error
+    while (current instanceof Error) {
+      if (current instanceof LescaError && current.code === 'NET_RATE_LIMITED') {
+        return current
+      }
+      current = current.cause
+    }
+    return undefined
+  }
+
+  /**
+   * Scrape with a scraper, retrying once after re-authenticating if the session expired
+   */
+  private async scrapeWith(
+    scraper: LeetCodeScraper,
+    request: ScrapeRequest,
+    reauth = this.options.reauth
+  ): Promise<ScrapeResult> {
+    if (!reauth) {
+      return this.attemptScrape(scraper, request)
+    }
+
+    await reauth.ready()
+    const generation = reauth.getGeneration()
+    const result = await this.attemptScrape(scraper, request)
+    if (result.success) {
+      reauth.recordSuccess()
+      return result
+    }
+
+    if (!(await reauth.isExpired(result.error)) || !(await reauth.reauthenticate(generation))) {
+      return result
+    }
+
+    const retried = await this.attemptScrape(scraper, request)
+    if (retried.success) {
+      reauth.recordSuccess()
+    }
+    return retried
+  }
+
+  /**
+   * Scrape with a scraper, turning a thrown error into a failed result
+   */
+  private async attemptScrape(
+    scraper: LeetCodeScraper,
+    request: ScrapeRequest
+  ): Promise<ScrapeResult> {
     try {
-      return await this.scraper.scrape(request)
+      return await scraper.scrape(request)
     } catch (error) {
       return {
         success: false,
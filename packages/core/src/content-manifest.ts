@@ -0,0 +1,213 @@
+import { createHash } from 'crypto'
+
+import { ENHANCER_VERSION, type EnhancementConfig } from '@lesca/converters'
+import type {
+  EditorialContent,
+  Problem,
+  RawData,
+  ScrapeChange,
+  ScrapeChangePart,
+} from '@lesca/shared/types'
+
+/**
+ * Version of the manifest layout
+ * Stored manifests with another version are treated as changed.
+ */
+export const CONTENT_MANIFEST_VERSION = 1
+
+/**
+ * Content hashes of a stored item, saved in its metadata under `manifest`
+ */
+export interface ContentManifest {
+  version: typeof CONTENT_MANIFEST_VERSION
+  /** Combined hash of all parts */
+  hash: string
+  /** Hash of each part, used to report what changed */
+  parts: Record<ScrapeChangePart, string>
+}
+
+/**
+ * Output settings that affect the rendered note
+ */
+export interface ContentManifestOptions {
+  format?: string
+  enhancements?: EnhancementConfig
+  /** Output pattern the storage key is rendered from */
+  outputPattern?: string
+  /** Processor names in run order */
+  pipeline?: string[]
+  /** Merge into existing notes */
+  merge?: boolean
+  /** Image download settings, or null when images are not downloaded */
+  images?: Record<string, unknown> | null
+  /** Loaded plugins, which can rewrite any step */
+  plugins?: Array<{ name: string; version: string }>
+  /** Bundled sections and their layout, or null for a plain note */
+  bundle?: Record<string, unknown> | null
+}
+
+/**
+ * Section bundled into a problem note, or a failed section without data
+ */
+export interface ContentManifestSection {
+  id: string
+  rawData?: RawData
+}
+
+const MANIFEST_PARTS: ScrapeChangePart[] = ['source', 'snippets', 'stats', 'enhancers', 'output']
+
+type ContentParts = Record<'source' | 'snippets' | 'stats', string>
+
+/**
+ * Build the content manifest for scraped data
+ * The source HTML, code snippets and stats are hashed separately from the
+ * enhancer and output settings, so a changed note can report why it changed.
+ * The source and snippets of bundled sections are hashed into those of the problem.
+ */
+export function createContentManifest(
+  rawData: RawData,
+  options: ContentManifestOptions = {},
+  sections: ContentManifestSection[] = []
+): ContentManifest {
+  const enhancers = hashValue({
+    version: ENHANCER_VERSION,
+    format: options.format ?? 'markdown',
+    config: options.enhancements ?? null,
+  })
+  const output = hashValue({
+    outputPattern: options.outputPattern ?? null,
+    pipeline: options.pipeline ?? null,
+    merge: options.merge ?? false,
+    images: options.images ?? null,
+    plugins: options.plugins ?? [],
+    bundle: options.bundle ?? null,
+  })
+  const content = hashContent(rawData)
+
+  // Plain notes keep the hashes they had before sections were fingerprinted
+  if (sections.length > 0) {
+    const sectionContent = sections.map(({ id, rawData: sectionData }) => ({
+      id,
+      hashes: sectionData ? hashContent(sectionData) : null,
+    }))
+    content.source = hashValue([
+      content.source,
+      sectionContent.map(({ id, hashes }) => ({ id, source: hashes?.source ?? null })),
+    ])
+    content.snippets = hashValue([
+      content.snippets,
+      sectionContent.map(({ id, hashes }) => ({ id, snippets: hashes?.snippets ?? null })),
+    ])
+  }
+
+  const parts: Record<ScrapeChangePart, string> = { ...content, enhancers, output }
+
+  return {
+    version: CONTENT_MANIFEST_VERSION,
+    hash: hashValue(MANIFEST_PARTS.map((part) => parts[part])),
+    parts,
+  }
+}
+
+/**
+ * Compare a stored manifest with a freshly built one
+ * @param previous - Manifest read from storage metadata (anything else counts as new)
+ */
+export function compareManifests(previous: unknown, next: ContentManifest): ScrapeChange {
+  if (!isContentManifest(previous)) {
+    return { status: 'new', parts: [] }
+  }
+
+  if (previous.version !== next.version) {
+    return { status: 'changed', parts: [...MANIFEST_PARTS] }
+  }
+
+  if (previous.hash === next.hash) {
+    return { status: 'unchanged', parts: [] }
+  }
+
+  return {
+    status: 'changed',
+    parts: MANIFEST_PARTS.filter((part) => previous.parts[part] !== next.parts[part]),
+  }
+}
+
+/**
+ * Check if a value is a content manifest
+ */
+export function isContentManifest(value: unknown): value is ContentManifest {
+  if (typeof value !== 'object' || value === null) {
+    return false
+  }
+
+  const manifest = value as Partial<ContentManifest>
+  return (
+    typeof manifest.version === 'number' &&
+    typeof manifest.hash === 'string' &&
+    typeof manifest.parts === 'object' &&
+    manifest.parts !== null
+  )
+}
+
+/**
+ * Hash the source, code snippets and stats of scraped data
+ */
+function hashContent(rawData: RawData): ContentParts {
+  if (rawData.type === 'problem') {
+    const {
+      codeSnippets,
+      stats,
+      likes,
+      dislikes,
+      quality,
+      companyTagStats,
+      similarQuestions,
+      ...source
+    } = rawData.data as Problem
+    return {
+      source: hashValue(source),
+      snippets: hashValue(codeSnippets ?? []),
+      stats: hashValue({ stats, likes, dislikes, quality, companyTagStats, similarQuestions }),
+    }
+  }
+
+  if (rawData.type === 'editorial') {
+    const { codeSnippets, ...source } = rawData.data as EditorialContent
+    return {
+      source: hashValue(source),
+      snippets: hashValue(codeSnippets ?? []),
+      stats: hashValue(null),
+    }
+  }
+
+  return {
+    source: hashValue(rawData.data),
+    snippets: hashValue([]),
+    stats: hashValue(null),
+  }
+}
+
+/**
+ * Hash a value's JSON form with object keys sorted
+ */
+function hashValue(value: unknown): string {
+  return createHash('sha256').update(stableStringify(value)).digest('hex').slice(0, 16)
+}
+
+/**
+ * JSON.stringify with sorted object keys, so hashes don't depend on key order
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item)).join(',')}]`
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(',')}}`
+  }
+
+  return JSON.stringify(value ?? null)
+}
@@ -0,0 +1,392 @@
+import { createHash } from 'crypto'
+import { posix } from 'path'
+
+import { NetworkError } from '@lesca/error'
+import type { StorageAdapter } from '@lesca/shared/types'
+import { logger } from '@lesca/shared/utils'
+import { normalizeStorageKey, sanitizePathSegment } from '@lesca/storage'
+
+/**
+ * Image downloader options (mirrors `output.images` in the config)
+ */
+export interface ImageDownloaderOptions {
+  /** Directory (storage key prefix) for downloaded images */
+  directory?: string
+  /** Filename pattern; tokens: {slug}, {index}, {hash}, {ext} */
+  pattern?: string
+  /** Base URL for root-relative image sources */
+  baseUrl?: string
+  /** Request timeout in milliseconds */
+  timeout?: number
+  /** Maximum image size in bytes */
+  maxBytes?: number
+  /** Fetch implementation (defaults to global fetch) */
+  fetch?: typeof fetch
+}
+
+/**
+ * Note being localised
+ */
+export interface ImageLocalizeContext {
+  /** Problem slug used for {slug} */
+  slug: string
+  /** Storage key of the note, used to build relative links */
+  notePath: string
+  /** Emit Obsidian embeds (![[...]]) instead of Markdown images */
+  obsidian?: boolean
+}
+
+/**
+ * Hash and URL index persisted next to the images
+ */
+interface ImageIndex {
+  version: 1
+  /** sha256 -> storage key */
+  hashes: Record<string, string>
+  /** source URL -> storage key */
+  urls: Record<string, string>
+}
+
+const INDEX_FILE = '.lesca-images.json'
+
+const CONTENT_TYPE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/jpg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'image/bmp': 'bmp',
+  'image/x-icon': 'ico',
+}
+
+const MARKDOWN_IMAGE_REGEX = /!\[([^\]]*)\]\(\s*<?([^)\s>]+)>?(?:\s+"([^"]*)")?\s*\)/g
+const HTML_IMAGE_REGEX = /<img\b[^>]*?\bsrc=["']([^"']+)["'][^>]*>/gi
+
+/**
+ * Image downloader
+ * Downloads images referenced by a note, stores them through the StorageAdapter
+ * and rewrites links relative to the note so it works offline.
+ * Images are deduplicated by content hash, and URLs already downloaded in
+ * previous runs are reused without another request. Scrapers that write to
+ * the same storage should share one downloader; the index is still merged
+ * with the stored one on every save, so other writers keep their entries.
+ */
+export class ImageDownloader {
+  private directory: string
+  private pattern: string
+  private baseUrl: string
+  private timeout: number
+  private maxBytes: number
+  private fetchImpl: typeof fetch
+  private index: ImageIndex | null = null
+  /** Pending index save; saves run one at a time */
+  private saving: Promise<void> = Promise.resolve()
+
+  constructor(
+    private storage: StorageAdapter,
+    options: ImageDownloaderOptions = {}
+  ) {
+    this.directory = options.directory ?? 'images'
+    this.pattern = options.pattern ?? '{slug}-{index}.{ext}'
+    this.baseUrl = options.baseUrl ?? 'https://leetcode.com'
+    this.timeout = options.timeout ?? 30000
+    this.maxBytes = options.maxBytes ?? 10 * 1024 * 1024
+    this.fetchImpl = options.fetch ?? fetch
+  }
+
+  /**
+   * Check whether the storage adapter can hold images
+   */
+  isSupported(): boolean {
+    return typeof this.storage.saveBinary === 'function'
+  }
+
+  /**
+   * Download every remote image in the content and rewrite its links
+   * Images that fail to download keep their original URL.
+   */
+  async localize(content: string, context: ImageLocalizeContext): Promise<string> {
+    if (!this.isSupported()) {
+      logger.warn('Storage adapter does not support binary content; images were not downloaded')
+      return content
+    }
+
+    const urls = this.extractImageUrls(content)
+    if (urls.length === 0) {
+      return content
+    }
+
+    const localPaths = new Map<string, string>()
+    let index = 0
+
+    for (const url of urls) {
+      try {
+        index++
+        localPaths.set(url, await this.download(url, context.slug, index))
+      } catch (error) {
+        logger.warn(
+          `Failed to download image ${url}: ${error instanceof Error ? error.message : String(error)}`
+        )
+      }
+    }
+
+    if (localPaths.size > 0) {
+      await this.saveIndex()
+    }
+
+    return this.rewriteLinks(content, localPaths, context)
+  }
+
+  /**
+   * Download a single image and return its storage key
+   */
+  async download(url: string, slug: string, index: number): Promise<string> {
+    const imageIndex = await this.loadIndex()
+    const absoluteUrl = this.resolveUrl(url)
+
+    const knownKey = imageIndex.urls[absoluteUrl]
+    if (knownKey && (await this.storage.exists(knownKey))) {
+      return knownKey
+    }
+
+    const { data, contentType } = await this.fetchImage(absoluteUrl)
+    const hash = createHash('sha256').update(data).digest('hex')
+
+    const existingKey = imageIndex.hashes[hash]
+    if (existingKey && (await this.storage.exists(existingKey))) {
+      imageIndex.urls[absoluteUrl] = existingKey
+      return existingKey
+    }
+
+    const key = this.allocateKey(
+      this.renderFilename(slug, index, hash, this.detectExtension(absoluteUrl, contentType)),
+      hash
+    )
+
+    await this.storage.saveBinary?.(key, data, {
+      source: absoluteUrl,
+      hash,
+      contentType,
+      downloadedAt: new Date().toISOString(),
+    })
+
+    imageIndex.hashes[hash] = key
+    imageIndex.urls[absoluteUrl] = key
+    return key
+  }
+
+  /**
+   * Find remote image URLs in Markdown and inline HTML, in document order
+   */
+  extractImageUrls(content: string): string[] {
+    const urls = new Set<string>()
+
+    for (const match of content.matchAll(MARKDOWN_IMAGE_REGEX)) {
+      if (match[2] && this.isRemote(match[2])) urls.add(match[2])
+    }
+    for (const match of content.matchAll(HTML_IMAGE_REGEX)) {
+      if (match[1] && this.isRemote(match[1])) urls.add(match[1])
+    }
+
+    return Array.from(urls)
+  }
+
+  /**
+   * Replace image references with local links
+   */
+  private rewriteLinks(
+    content: string,
+    localPaths: Map<string, string>,
+    context: ImageLocalizeContext
+  ): string {
+    const noteDir = posix.dirname(normalizeStorageKey(context.notePath))
+    const relativeLink = (key: string) => {
+      const relative = posix.relative(noteDir === '.' ? '' : noteDir, key)
+      return relative.split('/').map(encodeURIComponent).join('/')
+    }
+
+    let result = content.replace(
+      MARKDOWN_IMAGE_REGEX,
+      (match, alt: string, url: string, title?: string) => {
+        const key = localPaths.get(url)
+        if (!key) return match
+
+        if (context.obsidian) {
+          return `![[${posix.relative(noteDir === '.' ? '' : noteDir, key)}]]`
+        }
+        return title
+          ? `![${alt}](${relativeLink(key)} "${title}")`
+          : `![${alt}](${relativeLink(key)})`
+      }
+    )
+
+    result = result.replace(HTML_IMAGE_REGEX, (match, url: string) => {
+      const key = localPaths.get(url)
+      return key ? match.replace(url, relativeLink(key)) : match
+    })
+
+    return result
+  }
+
+  /**
+   * Fetch image bytes with a timeout and size limit
+   */
+  private async fetchImage(url: string): Promise<{ data: Uint8Array; contentType: string }> {
+    let response: Response
+    try {
+      response = await this.fetchImpl(url, { signal: AbortSignal.timeout(this.timeout) })
+    } catch (error) {
+      const timedOut = error instanceof Error && error.name === 'TimeoutError'
+      throw new NetworkError(
+        timedOut ? 'NET_TIMEOUT' : 'NET_CONNECTION_FAILED',
+        `Image request failed: ${error instanceof Error ? error.message : String(error)}`,
+        { ...(error instanceof Error ? { cause: error } : {}), context: { url } }
+      )
+    }
+
+    if (!response.ok) {
+      throw new NetworkError('NET_CONNECTION_FAILED', `Image request returned ${response.status}`, {
+        statusCode: response.status,
+        context: { url },
+      })
+    }
+
+    const contentType = (response.headers.get('content-type') ?? '').split(';')[0]?.trim() ?? ''
+    if (contentType && !contentType.startsWith('image/')) {
+      throw new NetworkError('NET_CONNECTION_FAILED', `Unexpected content type ${contentType}`, {
+        context: { url },
+      })
+    }
+
+    const data = new Uint8Array(await response.arrayBuffer())
+    if (data.byteLength > this.maxBytes) {
+      throw new NetworkError(
+        'NET_CONNECTION_FAILED',
+        `Image exceeds ${this.maxBytes} bytes (${data.byteLength})`,
+        { context: { url } }
+      )
+    }
+
+    return { data, contentType }
+  }
+
+  /**
+   * Render the image filename from the configured pattern
+   */
+  private renderFilename(slug: string, index: number, hash: string, ext: string): string {
+    const values: Record<string, string> = {
+      slug,
+      index: String(index),
+      hash: hash.slice(0, 12),
+      ext,
+    }
+
+    const filename = this.pattern
+      .split('/')
+      .map((segment) =>
+        sanitizePathSegment(
+          segment.replace(/\{(\w+)\}/g, (match, name: string) => values[name] ?? match)
+        )
+      )
+      .filter((segment) => segment.length > 0)
+      .join('/')
+
+    return normalizeStorageKey(this.directory ? `${this.directory}/${filename}` : filename)
+  }
+
+  /**
+   * Avoid overwriting a different image that already uses the key
+   */
+  private allocateKey(key: string, hash: string): string {
+    const taken = new Map(Object.entries(this.index?.hashes ?? {}).map(([h, k]) => [k, h]))
+    const ext = posix.extname(key)
+    const stem = key.slice(0, key.length - ext.length)
+
+    let candidate = key
+    let counter = 2
+    while (taken.has(candidate) && taken.get(candidate) !== hash) {
+      candidate = `${stem}-${counter++}${ext}`
+    }
+    return candidate
+  }
+
+  /**
+   * Pick a file extension from the content type, falling back to the URL
+   */
+  private detectExtension(url: string, contentType: string): string {
+    const fromType = CONTENT_TYPE_EXTENSIONS[contentType.toLowerCase()]
+    if (fromType) return fromType
+
+    const fromUrl = posix.extname(new URL(url).pathname).slice(1).toLowerCase()
+    return /^[a-z0-9]{1,5}$/.test(fromUrl) ? fromUrl : 'png'
+  }
+
+  /**
+   * Whether a link points at a remote (or site-relative) image
+   */
+  private isRemote(url: string): boolean {
+    return /^(https?:)?\/\//i.test(url) || (url.startsWith('/') && !url.startsWith('//'))
+  }
+
+  /**
+   * Resolve protocol- and root-relative URLs against the base URL
+   */
+  private resolveUrl(url: string): string {
+    return new URL(url, this.baseUrl).toString()
+  }
+
+  /**
+   * Storage key of the image index
+   */
+  private get indexKey(): string {
+    return this.directory ? `${this.directory}/${INDEX_FILE}` : INDEX_FILE
+  }
+
+  /**
+   * Load the image index once per downloader
+   */
+  private async loadIndex(): Promise<ImageIndex> {
+    if (!this.index) {
+      this.index = { version: 1, ...(await this.readStoredIndex()) }
+    }
+    return this.index
+  }
+
+  /**
+   * Persist the image index
+   * The stored index is read again first and merged, so entries written by
+   * other downloaders since it was loaded are kept.
+   */
+  private saveIndex(): Promise<void> {
+    const save = this.saving.then(async () => {
+      if (!this.index) {
+        return
+      }
+      const stored = await this.readStoredIndex()
+      this.index.hashes = { ...stored.hashes, ...this.index.hashes }
+      this.index.urls = { ...stored.urls, ...this.index.urls }
+      await this.storage.save(this.indexKey, JSON.stringify(this.index, null, 2))
+    })
+    this.saving = save.catch(() => undefined)
+    return save
+  }
+
+  /**
+   * Read the stored image index
+   */
+  private async readStoredIndex(): Promise<Pick<ImageIndex, 'hashes' | 'urls'>> {
+    try {
+      const raw = await this.storage.load(this.indexKey)
+      if (raw) {
+        const parsed = JSON.parse(raw) as Partial<ImageIndex>
+        return { hashes: parsed.hashes ?? {}, urls: parsed.urls ?? {} }
+      }
+    } catch (error) {
+      logger.warn(
+        `Ignoring unreadable image index: ${error instanceof Error ? error.message : String(error)}`
+      )
+    }
+    return { hashes: {}, urls: {} }
+  }
+}
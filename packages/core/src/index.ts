@@ -5,6 +5,82 @@
 
 export { LeetCodeScraper } from './scraper'
 export { BatchScraper } from './batch-scraper'
-export type { BatchScrapingOptions, BatchProgress, BatchScrapeResult } from './batch-scraper'
+export { ReauthCoordinator } from './reauth-coordinator'
+export type { ReauthOptions } from './reauth-coordinator'
+export type {
+  BatchScrapingOptions,
+  BatchProgress,
+  BatchScrapeResult,
+  BatchChangeSummary,
+  BatchSession,
+  BatchSessionStats,
+} from './batch-scraper'
+export { ImageDownloader } from './image-downloader'
+export type { ImageDownloaderOptions, ImageLocalizeContext } from './image-downloader'
+export {
+  createContentManifest,
+  compareManifests,
+  isContentManifest,
+  CONTENT_MANIFEST_VERSION,
+} from './content-manifest'
+export type {
+  ContentManifest,
+  ContentManifestOptions,
+  ContentManifestSection,
+} from './content-manifest'
+export { SearchIndex, SEARCH_INDEX_KEY, SEARCH_INDEX_VERSION } from './search-index'
+export type { SearchHit, SearchOptions } from './search-index'
+export {
+  createSearchDocument,
+  parseStoredDocument,
+  mergeSearchDocuments,
+  createSnippet,
+  tokenize,
+} from './search-documents'
+export type {
+  SearchDocument,
+  SearchDocumentType,
+  SearchField,
+  SnippetOptions,
+} from './search-documents'
+export { ProblemGraphBuilder, PROBLEM_EDGE_TYPES } from './problem-graph'
+export type {
+  ProblemGraph,
+  ProblemGraphOptions,
+  ProblemNode,
+  ProblemEdge,
+  ProblemEdgeType,
+} from './problem-graph'
+export {
+  formatProblemGraph,
+  toGraphML,
+  toDot,
+  createMocNotes,
+  PROBLEM_GRAPH_FORMATS,
+} from './problem-graph-export'
+export type { ProblemGraphFormat, MocNote, MocNoteOptions } from './problem-graph-export'
+export { ReviewDeck, REVIEW_DECK_KEY, REVIEW_DECK_VERSION } from './review-deck'
+export type { DueReviews, DueReviewOptions } from './review-deck'
+export {
+  seedReviewCard,
+  scheduleReview,
+  toLocalDate,
+  addDays,
+  REVIEW_GRADE_NAMES,
+} from './review-scheduler'
+export type { ReviewCard, ReviewGrade, ReviewLogEntry } from './review-scheduler'
+export { AnkiDeckBuilder, ANKI_PROBLEM_MODEL, ANKI_HINT_MODEL } from './anki-export'
+export type { AnkiDeck, AnkiDeckOptions } from './anki-export'
+export { writeApkg, stableAnkiId } from './apkg-writer'
+export type { AnkiModel, AnkiNote, AnkiPackage, AnkiTemplate } from './apkg-writer'
+export { SiteBuilder } from './site-export'
+export type { SiteFile, SiteOptions, StaticSite } from './site-export'
+export { markdownToHtml } from './markdown-html'
+export type { MarkdownHtmlOptions } from './markdown-html'
+export { readStoredProblem } from './stored-notes'
+export type { StoredProblem } from './stored-notes'
+export { ProcessorRegistry, ProcessorPipeline, isProcessedData } from './processor-pipeline'
+export { createBuiltinProcessors, DEFAULT_PIPELINE } from './processors'
+export type { BuiltinProcessorOptions } from './processors'
 export { PluginManager } from './plugin-manager'
 export { PluginLoader } from './plugin-loader'
@@ -0,0 +1,247 @@
+import { posix } from 'path'
+
+/**
+ * Options for `markdownToHtml`
+ */
+export interface MarkdownHtmlOptions {
+  /** Rewrite the target of a Markdown link, e.g. LeetCode problem paths */
+  link?: (href: string) => string
+  /** HTML of a wiki link (default: its label as text) */
+  wikiLink?: (target: string, label: string) => string
+}
+
+/**
+ * highlight.js names of the LeetCode language slugs that differ
+ */
+const CODE_LANGUAGES: Record<string, string> = {
+  python3: 'python',
+  pythondata: 'python',
+  golang: 'go',
+  mysql: 'sql',
+  mssql: 'sql',
+  oraclesql: 'sql',
+  postgresql: 'sql',
+  racket: 'scheme',
+}
+
+const LIST_ITEM = /^\s*(?:[-*+]|\d+[.)])\s+(.*)$/
+const FENCE = /^\s*(```|~~~)\s*([\w+#-]*)/
+const IMAGE_SRC_REGEX = /<img\b[^>]*?\bsrc=["']([^"']+)["'][^>]*>/gi
+
+/**
+ * Render the Markdown written by the converters as HTML
+ * Covers what turndown and the enhancers emit for LeetCode content: fenced
+ * code, headings, lists, quotes and Obsidian callouts, rules, paragraphs and
+ * inline markup. Math between `$` or `$$` is kept as is for KaTeX. Nested
+ * lists are flattened and tables stay as text.
+ */
+export function markdownToHtml(markdown: string, options: MarkdownHtmlOptions = {}): string {
+  const lines = markdown.replace(/\r\n/g, '\n').split('\n')
+  const blocks: string[] = []
+  let index = 0
+  const peek = () => lines[index] ?? ''
+
+  while (index < lines.length) {
+    const line = peek()
+    const fence = FENCE.exec(line)
+
+    if (fence) {
+      const marker = fence[1] ?? '```'
+      const code: string[] = []
+      index++
+      while (index < lines.length && !peek().trim().startsWith(marker)) {
+        code.push(peek())
+        index++
+      }
+      index++
+      const language = fence[2]
+        ? ` class="language-${CODE_LANGUAGES[fence[2].toLowerCase()] ?? fence[2].toLowerCase()}"`
+        : ''
+      blocks.push(`<pre><code${language}>${escapeHtml(code.join('\n'))}</code></pre>`)
+    } else if (line.trim() === '') {
+      index++
+    } else if (/^#{1,6}\s/.test(line)) {
+      const level = /^#+/.exec(line)?.[0].length ?? 1
+      blocks.push(`<h${level}>${renderInline(line.slice(level).trim(), options)}</h${level}>`)
+      index++
+    } else if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      blocks.push('<hr>')
+      index++
+    } else if (line.startsWith('>')) {
+      const quote: string[] = []
+      while (index < lines.length && peek().startsWith('>')) {
+        quote.push(peek().replace(/^> ?/, ''))
+        index++
+      }
+      // Obsidian callouts keep their title and lose their type
+      const callout = /^\[!\w+\][+-]?\s*(.*)$/.exec(quote[0] ?? '')
+      if (callout) {
+        quote[0] = callout[1] ? `**${callout[1]}**\n` : ''
+      }
+      blocks.push(`<blockquote>${markdownToHtml(quote.join('\n'), options)}</blockquote>`)
+    } else if (LIST_ITEM.test(line)) {
+      const tag = /^\s*\d/.test(line) ? 'ol' : 'ul'
+      const items: string[] = []
+      while (index < lines.length) {
+        const current = peek()
+        const item = LIST_ITEM.exec(current)
+        if (item && /^\s*\d/.test(current) !== (tag === 'ol')) {
+          // A list of the other kind starts a new list
+          break
+        } else if (item) {
+          items.push(item[1] ?? '')
+        } else if (current.trim() === '') {
+          // Loose lists have blank lines between their items
+          const next = lines[index + 1] ?? ''
+          if (!LIST_ITEM.test(next) && !/^\s+\S/.test(next)) break
+        } else if (/^\s/.test(current) && items.length > 0) {
+          items[items.length - 1] += `\n${current.trim()}`
+        } else {
+          break
+        }
+        index++
+      }
+      blocks.push(
+        `<${tag}>${items.map((item) => `<li>${renderInline(item, options)}</li>`).join('')}</${tag}>`
+      )
+    } else {
+      const paragraph: string[] = []
+      while (
+        index < lines.length &&
+        peek().trim() !== '' &&
+        !FENCE.test(peek()) &&
+        !/^(#{1,6}\s|>)/.test(peek()) &&
+        !LIST_ITEM.test(peek())
+      ) {
+        paragraph.push(peek())
+        index++
+      }
+      const text = paragraph
+        .map((part, i) =>
+          i < paragraph.length - 1 && / {2,}$|\\$/.test(part)
+            ? `${part.replace(/ +$|\\$/, '')}<br>`
+            : part
+        )
+        .join('\n')
+      blocks.push(`<p>${renderInline(text, options)}</p>`)
+    }
+  }
+
+  return blocks.join('\n')
+}
+
+/**
+ * Render inline Markdown: code, math, images, links, emphasis, super- and subscripts
+ * Inline HTML (hints are stored as LeetCode HTML) is kept as is.
+ */
+export function renderInline(text: string, options: MarkdownHtmlOptions = {}): string {
+  const tokens: string[] = []
+  const keep = (html: string) => `\uE000${tokens.push(html) - 1}\uE001`
+
+  let html = text
+    .replace(/(`+)([\s\S]*?[^`])\1(?!`)/g, (_match, _ticks: string, code: string) =>
+      keep(`<code>${escapeHtml(code.trim())}</code>`)
+    )
+    // Math is left to KaTeX, without the escapes turndown adds to it
+    .replace(/\$\$[\s\S]+?\$\$|\$(?!\s)[^$\n]+?(?<!\s)\$/g, (math) =>
+      keep(escapeHtml(math.replace(/\\([\\`*_[\]])/g, '$1')))
+    )
+    .replace(/\\([\\`*_{}[\]()#+\-.!^~|<>])/g, (_match, char: string) => keep(escapeHtml(char)))
+    .replace(/<\/?[a-zA-Z][^<>]*>/g, (tag) => keep(tag))
+    .replace(/!\[\[([^\]|]+)(?:\|[^\]]*)?\]\]/g, (_match, path: string) =>
+      keep(`<img src="${escapeHtml(encodeURI(path.trim()))}">`)
+    )
+    .replace(
+      /!\[([^\]]*)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g,
+      (_match, alt: string, src: string) =>
+        keep(`<img src="${escapeHtml(src)}" alt="${escapeHtml(alt)}">`)
+    )
+    .replace(
+      /\[([^\]]+)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g,
+      (_match, label: string, href: string) =>
+        `${keep(`<a href="${escapeHtml(options.link?.(href) ?? href)}">`)}${label}${keep('</a>')}`
+    )
+    .replace(
+      /\[\[([^\]|#]+)(?:#[^\]|]*)?(?:\|([^\]]+))?\]\]/g,
+      (_match, target: string, label?: string) => {
+        const text = label ?? target
+        return options.wikiLink ? keep(options.wikiLink(target.trim(), text)) : text
+      }
+    )
+
+  html = escapeHtml(html)
+    .replace(/(\*\*|__)(?=\S)([\s\S]*?\S)\1/g, '<strong>$2</strong>')
+    .replace(/(^|[^\w*])\*(?=\S)([^*]*?\S)\*(?![\w*])/g, '$1<em>$2</em>')
+    .replace(/(^|[^\w])_(?=\S)([^_]*?\S)_(?!\w)/g, '$1<em>$2</em>')
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<del>$1</del>')
+    .replace(/\^([^\s^]+)\^/g, '<sup>$1</sup>')
+    .replace(/~([^\s~]+)~/g, '<sub>$1</sub>')
+
+  return html.replace(/\uE000(\d+)\uE001/g, (_match, token: string) => tokens[Number(token)] ?? '')
+}
+
+/**
+ * Items of a Markdown list, with their continuation lines
+ */
+export function getListItems(markdown: string): string[] {
+  const items: string[] = []
+  for (const line of markdown.split('\n')) {
+    const item = LIST_ITEM.exec(line)
+    if (item) {
+      items.push(item[1] ?? '')
+    } else if (line.trim() !== '' && items.length > 0) {
+      items[items.length - 1] += `\n${line.trim()}`
+    }
+  }
+  return items.map((item) => item.trim()).filter(Boolean)
+}
+
+/**
+ * Rewrite the image sources of rendered HTML
+ * @param rewrite - New source for an image, or null to keep it; called once per source
+ */
+export async function rewriteImageSources(
+  html: string,
+  rewrite: (src: string) => Promise<string | null>
+): Promise<string> {
+  const sources = new Map<string, string | null>()
+  for (const [, src] of html.matchAll(IMAGE_SRC_REGEX)) {
+    if (src && !sources.has(src)) {
+      sources.set(src, await rewrite(src))
+    }
+  }
+
+  return html.replace(IMAGE_SRC_REGEX, (match, src: string) => {
+    const replacement = sources.get(src)
+    return replacement ? match.replace(src, replacement) : match
+  })
+}
+
+/**
+ * Storage key of an image linked from a note
+ * @returns null for remote images and links outside the notes directory
+ */
+export function resolveImageKey(noteKey: string, src: string): string | null {
+  if (/^([a-z][a-z\d+.-]*:|\/)/i.test(src)) {
+    return null
+  }
+  try {
+    const key = posix.normalize(
+      posix.join(posix.dirname(noteKey), decodeURI(src.replace(/&amp;/g, '&')))
+    )
+    return key.startsWith('..') ? null : key
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Escape text for HTML, keeping entities that are already escaped
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&(?!#?\w+;)/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
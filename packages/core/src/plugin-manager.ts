@@ -1,4 +1,12 @@
-import type { Plugin, PluginContext, ScrapeRequest, ScrapeResult } from '@lesca/shared/types'
+import type {
+  Plugin,
+  PluginContext,
+  PluginSaveContext,
+  Processor,
+  RawData,
+  ScrapeRequest,
+  ScrapeResult,
+} from '@lesca/shared/types'
 import { logger } from '@lesca/shared/utils'
 
 import { PluginLoader } from './plugin-loader'
@@ -35,8 +43,7 @@ export class PluginManager {
           // error() has different signature: (message, error?, context?)
           const errorArg = args[0] instanceof Error ? args[0] : undefined
           const context = (args[0] instanceof Error ? args[1] : args[0]) as
-            | Record<string, unknown>
-            | undefined
+            Record<string, unknown> | undefined
           logger.error(`[Plugin] ${msg}`, errorArg, context)
         },
       },
@@ -149,16 +156,116 @@ export class PluginManager {
     return currentResult
   }
 
+  /**
+   * Execute onRawData hooks
+   */
+  async onRawData(raw: RawData): Promise<RawData> {
+    let currentRaw = raw
+
+    for (const plugin of this.plugins) {
+      try {
+        if (plugin.onRawData) {
+          const modified = await plugin.onRawData(currentRaw)
+          if (modified !== undefined) {
+            currentRaw = modified
+          }
+        }
+      } catch (error) {
+        logger.error(
+          `Plugin "${plugin.name}" failed in onRawData:`,
+          error instanceof Error ? error : new Error(String(error))
+        )
+      }
+    }
+
+    return currentRaw
+  }
+
+  /**
+   * Execute onBeforeConvert hooks
+   */
+  async onBeforeConvert(raw: RawData): Promise<RawData> {
+    let currentRaw = raw
+
+    for (const plugin of this.plugins) {
+      try {
+        if (plugin.onBeforeConvert) {
+          const modified = await plugin.onBeforeConvert(currentRaw)
+          if (modified !== undefined) {
+            currentRaw = modified
+          }
+        }
+      } catch (error) {
+        logger.error(
+          `Plugin "${plugin.name}" failed in onBeforeConvert:`,
+          error instanceof Error ? error : new Error(String(error))
+        )
+      }
+    }
+
+    return currentRaw
+  }
+
+  /**
+   * Execute onAfterConvert hooks
+   */
+  async onAfterConvert(markdown: string, raw: RawData): Promise<string> {
+    let currentMarkdown = markdown
+
+    for (const plugin of this.plugins) {
+      try {
+        if (plugin.onAfterConvert) {
+          const modified = await plugin.onAfterConvert(currentMarkdown, raw)
+          if (modified !== undefined) {
+            currentMarkdown = modified
+          }
+        }
+      } catch (error) {
+        logger.error(
+          `Plugin "${plugin.name}" failed in onAfterConvert:`,
+          error instanceof Error ? error : new Error(String(error))
+        )
+      }
+    }
+
+    return currentMarkdown
+  }
+
+  /**
+   * Execute onFilename hooks
+   */
+  async onFilename(filename: string, raw: RawData): Promise<string> {
+    let currentFilename = filename
+
+    for (const plugin of this.plugins) {
+      try {
+        if (plugin.onFilename) {
+          const modified = await plugin.onFilename(currentFilename, raw)
+          if (modified !== undefined) {
+            currentFilename = modified
+          }
+        }
+      } catch (error) {
+        logger.error(
+          `Plugin "${plugin.name}" failed in onFilename:`,
+          error instanceof Error ? error : new Error(String(error))
+        )
+      }
+    }
+
+    return currentFilename
+  }
+
   /**
    * Execute onSave hooks
    */
-  async onSave(data: unknown): Promise<unknown> {
+  async onSave(data: unknown, context?: PluginSaveContext): Promise<unknown> {
     let currentData = data
 
     for (const plugin of this.plugins) {
       try {
         if (plugin.onSave) {
-          const modified = await plugin.onSave(currentData)
+          const modified = await plugin.onSave(currentData, context)
           if (modified !== undefined) {
             currentData = modified
           }
@@ -193,6 +300,13 @@ export class PluginManager {
     this.initialized = false
   }
 
+  /**
+   * Get the processors contributed by registered plugins
+   */
+  getProcessors(): Processor[] {
+    return this.plugins.flatMap((plugin) => plugin.processors ?? [])
+  }
+
   /**
    * Get registered plugins
    */
@@ -0,0 +1,296 @@
+import type { Difficulty } from '@lesca/shared/types'
+
+import type { ProblemEdgeType, ProblemGraph, ProblemNode } from './problem-graph'
+
+/**
+ * Formats `ProblemGraph` can be written in
+ */
+export type ProblemGraphFormat = 'graphml' | 'dot' | 'json'
+
+export const PROBLEM_GRAPH_FORMATS: readonly ProblemGraphFormat[] = ['graphml', 'dot', 'json']
+
+/**
+ * A generated map of content note
+ */
+export interface MocNote {
+  key: string
+  content: string
+}
+
+/**
+ * Options for `createMocNotes`
+ */
+export interface MocNoteOptions {
+  /** Folder of the notes, relative to the storage root (default: `moc`) */
+  folder?: string
+  /** Skip tags and companies with fewer problems (default: 1) */
+  minProblems?: number
+}
+
+const DIFFICULTIES: Difficulty[] = ['Easy', 'Medium', 'Hard']
+
+const DIFFICULTY_EMOJI: Record<Difficulty, string> = {
+  Easy: '🟢',
+  Medium: '🟡',
+  Hard: '🔴',
+}
+
+const DOT_COLORS: Record<Difficulty, string> = {
+  Easy: '#2db55d',
+  Medium: '#ffb800',
+  Hard: '#ef4743',
+}
+
+const DOT_EDGE_STYLES: Record<ProblemEdgeType, string> = {
+  similar: 'solid',
+  tag: 'dashed',
+  company: 'dotted',
+}
+
+/**
+ * Serialize a problem graph
+ */
+export function formatProblemGraph(graph: ProblemGraph, format: ProblemGraphFormat): string {
+  switch (format) {
+    case 'graphml':
+      return toGraphML(graph)
+    case 'dot':
+      return toDot(graph)
+    case 'json':
+      return JSON.stringify(graph, null, 2)
+  }
+}
+
+/**
+ * GraphML for Gephi, yEd, Cytoscape and NetworkX
+ * Tag and company lists are written as comma-separated slugs.
+ */
+export function toGraphML(graph: ProblemGraph): string {
+  const keys = [
+    ['title', 'node', 'string'],
+    ['frontendId', 'node', 'string'],
+    ['difficulty', 'node', 'string'],
+    ['tags', 'node', 'string'],
+    ['companies', 'node', 'string'],
+    ['cluster', 'node', 'int'],
+    ['path', 'node', 'string'],
+    ['type', 'edge', 'string'],
+    ['weight', 'edge', 'double'],
+    ['shared', 'edge', 'string'],
+  ]
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    ...keys.map(
+      ([name, target, type]) =>
+        `  <key id="${name}" for="${target}" attr.name="${name}" attr.type="${type}"/>`
+    ),
+    '  <graph id="problems" edgedefault="undirected">',
+  ]
+
+  for (const node of graph.nodes) {
+    lines.push(`    <node id="${escapeXml(node.id)}">`)
+    const data: Array<[string, string | number | undefined]> = [
+      ['title', node.title],
+      ['frontendId', node.frontendId],
+      ['difficulty', node.difficulty],
+      ['tags', node.tags.join(',')],
+      ['companies', node.companies.join(',')],
+      ['cluster', node.cluster],
+      ['path', node.key],
+    ]
+    for (const [key, value] of data) {
+      if (value !== undefined && value !== '') {
+        lines.push(`      <data key="${key}">${escapeXml(String(value))}</data>`)
+      }
+    }
+    lines.push('    </node>')
+  }
+
+  graph.edges.forEach((edge, position) => {
+    lines.push(
+      `    <edge id="e${position}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}">`,
+      `      <data key="type">${edge.type}</data>`,
+      `      <data key="weight">${edge.weight}</data>`,
+      ...(edge.shared
+        ? [`      <data key="shared">${escapeXml(edge.shared.join(','))}</data>`]
+        : []),
+      '    </edge>'
+    )
+  })
+
+  lines.push('  </graph>', '</graphml>')
+  return lines.join('\n') + '\n'
+}
+
+/**
+ * Graphviz DOT
+ * Nodes are colored by difficulty; similar, tag and company edges are drawn
+ * solid, dashed and dotted.
+ */
+export function toDot(graph: ProblemGraph): string {
+  const lines = ['graph problems {', '  node [shape=box, style="rounded,filled", fillcolor=white];']
+
+  for (const node of graph.nodes) {
+    const attributes = [
+      `label=${quoteDot(getProblemLabel(node))}`,
+      `cluster=${node.cluster}`,
+      ...(node.difficulty
+        ? [`difficulty=${node.difficulty}`, `color=${quoteDot(DOT_COLORS[node.difficulty])}`]
+        : []),
+    ]
+    lines.push(`  ${quoteDot(node.id)} [${attributes.join(', ')}];`)
+  }
+
+  for (const edge of graph.edges) {
+    const attributes = [
+      `type=${edge.type}`,
+      `weight=${edge.weight}`,
+      `style=${DOT_EDGE_STYLES[edge.type]}`,
+      ...(edge.shared ? [`label=${quoteDot(edge.shared.join(', '))}`] : []),
+    ]
+    lines.push(`  ${quoteDot(edge.source)} -- ${quoteDot(edge.target)} [${attributes.join(', ')}];`)
+  }
+
+  lines.push('}')
+  return lines.join('\n') + '\n'
+}
+
+/**
+ * Obsidian map of content notes, one per tag and per company
+ *
+ * Each note lists the problems with the tag or company grouped by cluster of
+ * similar questions, easiest first, so a group can be worked through as a
+ * study path. Problems without similar questions under the same tag or
+ * company are listed last. The notes link to problems by storage key and
+ * carry `type: moc`, so search and the graph builder skip them.
+ */
+export function createMocNotes(graph: ProblemGraph, options: MocNoteOptions = {}): MocNote[] {
+  const folder = (options.folder ?? 'moc').replace(/^\/+|\/+$/g, '')
+  const minProblems = options.minProblems ?? 1
+  const notes: MocNote[] = []
+
+  for (const field of ['tags', 'companies'] as const) {
+    const labels = graph[field]
+    for (const [slug, name] of Object.entries(labels)) {
+      const problems = graph.nodes.filter((node) => node[field].includes(slug))
+      if (problems.length === 0 || problems.length < minProblems) continue
+
+      const related = field === 'tags' ? getRelatedTags(problems, slug) : []
+      notes.push({
+        key: `${folder}/${field}/${slug}.md`,
+        content: createMocNote(
+          field === 'tags' ? 'tag' : 'company',
+          slug,
+          name,
+          problems,
+          related.map((tag) => `[[${folder}/tags/${tag}|${labels[tag] ?? tag}]]`)
+        ),
+      })
+    }
+  }
+  return notes
+}
+
+function createMocNote(
+  kind: 'tag' | 'company',
+  slug: string,
+  name: string,
+  problems: ProblemNode[],
+  related: string[]
+): string {
+  const counts = DIFFICULTIES.map((difficulty) => ({
+    difficulty,
+    count: problems.filter((problem) => problem.difficulty === difficulty).length,
+  })).filter(({ count }) => count > 0)
+
+  const lines = [
+    '---',
+    'type: moc',
+    `${kind}: ${slug}`,
+    `problems: ${problems.length}`,
+    '---',
+    '',
+    `# ${name}`,
+    '',
+    [
+      `${problems.length} problem${problems.length === 1 ? '' : 's'}`,
+      ...counts.map(
+        ({ difficulty, count }) => `${DIFFICULTY_EMOJI[difficulty]} ${count} ${difficulty}`
+      ),
+    ].join(' · '),
+  ]
+  if (related.length > 0) {
+    lines.push('', `Related: ${related.join(', ')}`)
+  }
+
+  const clusters = new Map<number, ProblemNode[]>()
+  for (const problem of problems) {
+    clusters.set(problem.cluster, [...(clusters.get(problem.cluster) ?? []), problem])
+  }
+  const groups = [...clusters.values()].filter((group) => group.length > 1)
+  const others = [...clusters.values()].filter((group) => group.length === 1).flat()
+
+  if (groups.length > 0) {
+    lines.push('', '## Study Paths')
+    groups
+      .sort((a, b) => b.length - a.length)
+      .forEach((group, position) => {
+        lines.push('', `### Path ${position + 1}`, '', ...sortByDifficulty(group).map(toListItem))
+      })
+  }
+  if (others.length > 0) {
+    lines.push('', groups.length > 0 ? '## Other Problems' : '## Problems', '')
+    lines.push(...sortByDifficulty(others).map(toListItem))
+  }
+
+  return lines.join('\n') + '\n'
+}
+
+/**
+ * The tags most often found with a tag
+ */
+function getRelatedTags(problems: ProblemNode[], slug: string, limit = 5): string[] {
+  const counts = new Map<string, number>()
+  for (const problem of problems) {
+    for (const tag of problem.tags) {
+      if (tag !== slug) {
+        counts.set(tag, (counts.get(tag) ?? 0) + 1)
+      }
+    }
+  }
+  return [...counts]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([tag]) => tag)
+}
+
+function sortByDifficulty(problems: ProblemNode[]): ProblemNode[] {
+  const rank = (problem: ProblemNode) =>
+    problem.difficulty ? DIFFICULTIES.indexOf(problem.difficulty) : DIFFICULTIES.length
+  // Nodes are already in problem order, which the stable sort keeps within a difficulty
+  return [...problems].sort((a, b) => rank(a) - rank(b))
+}
+
+function toListItem(problem: ProblemNode): string {
+  const emoji = problem.difficulty ? `${DIFFICULTY_EMOJI[problem.difficulty]} ` : ''
+  const target = problem.key.replace(/\.md$/i, '')
+  return `- ${emoji}[[${target}|${getProblemLabel(problem)}]]`
+}
+
+function getProblemLabel(problem: ProblemNode): string {
+  return problem.frontendId ? `${problem.frontendId}. ${problem.title}` : problem.title
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function quoteDot(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+}
@@ -0,0 +1,284 @@
+import type { Difficulty, StorageAdapter } from '@lesca/shared/types'
+
+import { formatSlug, listStoredNoteKeys, readStoredProblem } from './stored-notes'
+
+/**
+ * Kinds of relations between two problems
+ */
+export type ProblemEdgeType = 'similar' | 'tag' | 'company'
+
+export const PROBLEM_EDGE_TYPES: readonly ProblemEdgeType[] = ['similar', 'tag', 'company']
+
+/**
+ * A stored problem
+ */
+export interface ProblemNode {
+  /** Title slug */
+  id: string
+  /** Storage key of the problem note */
+  key: string
+  title: string
+  frontendId?: string
+  difficulty?: Difficulty
+  /** Topic tag slugs */
+  tags: string[]
+  /** Company slugs */
+  companies: string[]
+  /** Group of problems linked by similar-question edges, 1 being the largest */
+  cluster: number
+}
+
+/**
+ * An undirected relation between two stored problems
+ */
+export interface ProblemEdge {
+  source: string
+  target: string
+  type: ProblemEdgeType
+  /** 1 for similar questions, the number of shared tags or companies otherwise */
+  weight: number
+  /** Shared tag or company slugs */
+  shared?: string[]
+}
+
+/**
+ * Graph of the stored problems
+ */
+export interface ProblemGraph {
+  /** Problems ordered by frontend ID */
+  nodes: ProblemNode[]
+  edges: ProblemEdge[]
+  /** Display names of the tags, by slug */
+  tags: Record<string, string>
+  /** Display names of the companies, by slug */
+  companies: Record<string, string>
+}
+
+/**
+ * Options for `ProblemGraphBuilder`
+ */
+export interface ProblemGraphOptions {
+  /** Relations to add as edges (default: all) */
+  edges?: ProblemEdgeType[]
+  /** Shared tags needed for a tag edge (default: 2) */
+  minSharedTags?: number
+  /** Shared companies needed for a company edge (default: 2) */
+  minSharedCompanies?: number
+}
+
+/**
+ * A stored problem before clustering
+ */
+interface ProblemRecord extends Omit<ProblemNode, 'cluster'> {
+  similar: string[]
+}
+
+/**
+ * Builds a graph of the problems in storage
+ *
+ * Problems are linked by the similar questions LeetCode lists for them, by
+ * shared topic tags and by companies that ask both. Only problems found in
+ * storage become nodes. JSON documents and Obsidian notes carry tags,
+ * companies and similar questions; plain Markdown notes only give nodes.
+ * Clusters are the connected groups of similar questions, for planning
+ * study paths.
+ */
+export class ProblemGraphBuilder {
+  constructor(
+    private readonly storage: StorageAdapter,
+    private readonly options: ProblemGraphOptions = {}
+  ) {}
+
+  /**
+   * Read every stored problem and build the graph
+   * @param onProgress - Called after each stored key is read
+   */
+  async build(onProgress?: (done: number, total: number) => void): Promise<ProblemGraph> {
+    const records = new Map<string, ProblemRecord>()
+    const labels = { tags: {} as Record<string, string>, companies: {} as Record<string, string> }
+
+    const keys = (await listStoredNoteKeys(this.storage)).sort()
+    for (const [position, key] of keys.entries()) {
+      const content = await this.storage.load(key)
+      const problem = content !== null ? readStoredProblem(key, content) : null
+      // Folder bundles and mixed formats can store a problem twice; keep the first
+      if (problem && !records.has(problem.slug)) {
+        records.set(problem.slug, {
+          id: problem.slug,
+          key,
+          title: problem.title,
+          ...(problem.frontendId ? { frontendId: problem.frontendId } : {}),
+          ...(problem.difficulty ? { difficulty: problem.difficulty } : {}),
+          tags: problem.tags,
+          companies: problem.companies,
+          similar: problem.similar,
+        })
+      }
+      if (problem) {
+        labels.tags = { ...problem.tagNames, ...labels.tags }
+        labels.companies = { ...problem.companyNames, ...labels.companies }
+      }
+      onProgress?.(position + 1, keys.length)
+    }
+
+    return createProblemGraph([...records.values()], labels, this.options)
+  }
+}
+
+function createProblemGraph(
+  records: ProblemRecord[],
+  labels: Pick<ProblemGraph, 'tags' | 'companies'>,
+  options: ProblemGraphOptions
+): ProblemGraph {
+  records.sort(compareProblems)
+  const types = new Set(options.edges ?? PROBLEM_EDGE_TYPES)
+
+  // Similar questions are always used for clustering, even if not exported as edges
+  const similar = getSimilarEdges(records)
+  const edges: ProblemEdge[] = types.has('similar') ? [...similar] : []
+  if (types.has('tag')) {
+    edges.push(...getSharedEdges(records, 'tags', options.minSharedTags ?? 2))
+  }
+  if (types.has('company')) {
+    edges.push(...getSharedEdges(records, 'companies', options.minSharedCompanies ?? 2))
+  }
+
+  const clusters = getClusters(records, similar)
+  const nodes = records.map(({ similar: _similar, ...record }): ProblemNode => ({
+    ...record,
+    cluster: clusters.get(record.id) ?? 0,
+  }))
+
+  return {
+    nodes,
+    edges,
+    tags: pickLabels(labels.tags, nodes, 'tags'),
+    companies: pickLabels(labels.companies, nodes, 'companies'),
+  }
+}
+
+function getSimilarEdges(records: ProblemRecord[]): ProblemEdge[] {
+  const ids = new Set(records.map((record) => record.id))
+  const seen = new Set<string>()
+  const edges: ProblemEdge[] = []
+
+  for (const record of records) {
+    for (const other of record.similar) {
+      if (other === record.id || !ids.has(other)) continue
+      const pair = [record.id, other].sort().join('\n')
+      if (seen.has(pair)) continue
+      seen.add(pair)
+      edges.push({ source: record.id, target: other, type: 'similar', weight: 1 })
+    }
+  }
+  return edges
+}
+
+/**
+ * Edges between problems sharing at least `minShared` tags or companies
+ * Pairs are found through the problems listed under each value, so problems
+ * with nothing in common are never compared.
+ */
+function getSharedEdges(
+  records: ProblemRecord[],
+  field: 'tags' | 'companies',
+  minShared: number
+): ProblemEdge[] {
+  const type: ProblemEdgeType = field === 'tags' ? 'tag' : 'company'
+  const postings = new Map<string, number[]>()
+  records.forEach((record, position) => {
+    for (const value of record[field]) {
+      append(postings, value, position)
+    }
+  })
+
+  const edges: ProblemEdge[] = []
+  records.forEach((record, position) => {
+    const shared = new Map<number, string[]>()
+    for (const value of record[field]) {
+      for (const other of postings.get(value) ?? []) {
+        if (other > position) {
+          append(shared, other, value)
+        }
+      }
+    }
+    for (const [other, values] of shared) {
+      const target = records[other]
+      if (target && values.length >= Math.max(minShared, 1)) {
+        edges.push({
+          source: record.id,
+          target: target.id,
+          type,
+          weight: values.length,
+          shared: values,
+        })
+      }
+    }
+  })
+  return edges
+}
+
+/**
+ * Number the connected components of the similar-question graph
+ * Larger clusters come first; problems without similar questions get their own cluster.
+ */
+function getClusters(records: ProblemRecord[], similar: ProblemEdge[]): Map<string, number> {
+  const parents = new Map(records.map((record) => [record.id, record.id]))
+  const find = (id: string): string => {
+    let root = id
+    while (parents.get(root) !== root) {
+      root = parents.get(root) ?? root
+    }
+    parents.set(id, root)
+    return root
+  }
+  for (const edge of similar) {
+    parents.set(find(edge.source), find(edge.target))
+  }
+
+  const components = new Map<string, string[]>()
+  for (const record of records) {
+    append(components, find(record.id), record.id)
+  }
+
+  // Stable sort keeps equally sized clusters in problem order
+  const clusters = new Map<string, number>()
+  ;[...components.values()]
+    .sort((a, b) => b.length - a.length)
+    .forEach((members, position) => {
+      for (const id of members) {
+        clusters.set(id, position + 1)
+      }
+    })
+  return clusters
+}
+
+function pickLabels(
+  labels: Record<string, string>,
+  nodes: ProblemNode[],
+  field: 'tags' | 'companies'
+): Record<string, string> {
+  const picked: Record<string, string> = {}
+  for (const slug of [...new Set(nodes.flatMap((node) => node[field]))].sort()) {
+    picked[slug] = labels[slug] ?? formatSlug(slug)
+  }
+  return picked
+}
+
+function compareProblems(a: Omit<ProblemNode, 'cluster'>, b: Omit<ProblemNode, 'cluster'>): number {
+  const idA = Number(a.frontendId ?? Infinity)
+  const idB = Number(b.frontendId ?? Infinity)
+  return (
+    (Number.isNaN(idA) ? Infinity : idA) - (Number.isNaN(idB) ? Infinity : idB) ||
+    a.id.localeCompare(b.id)
+  )
+}
+
+function append<K, V>(map: Map<K, V[]>, key: K, value: V): void {
+  const values = map.get(key)
+  if (values) {
+    values.push(value)
+  } else {
+    map.set(key, [value])
+  }
+}
@@ -0,0 +1,107 @@
+import { ConfigError, LescaError } from '@lesca/error'
+import type { ProcessedData, Processor, RawData } from '@lesca/shared/types'
+import { logger } from '@lesca/shared/utils'
+
+/**
+ * Check if pipeline data has been converted to content
+ */
+export function isProcessedData(data: RawData | ProcessedData): data is ProcessedData {
+  return typeof (data as Partial<ProcessedData>).content === 'string'
+}
+
+/**
+ * Registry of processors by name
+ * Built-in processors, processors passed to the scraper and plugin processors
+ * all share one namespace.
+ */
+export class ProcessorRegistry {
+  private processors = new Map<string, Processor>()
+
+  /**
+   * Register a processor
+   * A name that is already taken is skipped with a warning.
+   */
+  register(processor: Processor): void {
+    if (this.processors.has(processor.name)) {
+      logger.warn(`Processor "${processor.name}" is already registered. Skipping.`)
+      return
+    }
+    this.processors.set(processor.name, processor)
+  }
+
+  /**
+   * Get a processor by name
+   */
+  get(name: string): Processor | undefined {
+    return this.processors.get(name)
+  }
+
+  /**
+   * Names of all registered processors, in registration order
+   */
+  getNames(): string[] {
+    return [...this.processors.keys()]
+  }
+}
+
+/**
+ * Ordered list of processors that turns raw data into content
+ * Each processor runs if its `shouldProcess` accepts the current data.
+ */
+export class ProcessorPipeline {
+  private processors: Processor[]
+
+  /**
+   * @param registry - Registered processors
+   * @param names - Processor names in run order
+   * @throws {ConfigError} If a name is not registered
+   */
+  constructor(registry: ProcessorRegistry, names: string[]) {
+    this.processors = names.map((name) => {
+      const processor = registry.get(name)
+      if (!processor) {
+        throw new ConfigError(
+          'CONFIG_INVALID_VALUE',
+          `Unknown processor "${name}" in processing.pipeline`,
+          { context: { processor: name, registered: registry.getNames() } }
+        )
+      }
+      return processor
+    })
+  }
+
+  /**
+   * Names of the processors in run order
+   */
+  getNames(): string[] {
+    return this.processors.map((processor) => processor.name)
+  }
+
+  /**
+   * Run raw data through the pipeline
+   * @returns The processed data, with `metadata.processors` listing the processors that ran
+   * @throws {LescaError} If no processor converted the data
+   */
+  async run(rawData: RawData): Promise<ProcessedData> {
+    let data: RawData | ProcessedData = rawData
+    const applied: string[] = []
+
+    for (const processor of this.processors) {
+      if (!processor.shouldProcess(data)) {
+        continue
+      }
+      data = await processor.process(data)
+      applied.push(processor.name)
+    }
+
+    if (!isProcessedData(data)) {
+      throw new LescaError(
+        'SCRAPE_NO_STRATEGY',
+        `Cannot process data type: ${String(rawData.type)}`,
+        { statusCode: 400, context: { processors: this.getNames() } }
+      )
+    }
+
+    return { ...data, metadata: { ...data.metadata, processors: applied } }
+  }
+}
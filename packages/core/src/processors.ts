@@ -0,0 +1,219 @@
+import {
+  BundleConverter,
+  CsvConverter,
+  DiscussionConverter,
+  EditorialConverter,
+  EnhancementManager,
+  HtmlToMarkdownConverter,
+  JsonConverter,
+  ObsidianConverter,
+  UserConverter,
+  type EnhancementConfig,
+} from '@lesca/converters'
+import { LescaError } from '@lesca/error'
+import type {
+  DiscussionList,
+  EditorialContent,
+  ProblemList,
+  ProcessedData,
+  Processor,
+  Problem,
+  RawData,
+  User,
+} from '@lesca/shared/types'
+
+import { isProcessedData } from './processor-pipeline'
+
+/**
+ * Output settings the built-in processors depend on
+ */
+export interface BuiltinProcessorOptions {
+  format?: 'markdown' | 'obsidian' | 'json'
+  listFormat?: 'json' | 'csv'
+  enhancements?: EnhancementConfig
+}
+
+/**
+ * Default run order of the built-in processors
+ * Each one only accepts the data types and formats it handles, so one order
+ * serves every output format.
+ */
+export const DEFAULT_PIPELINE = [
+  'json',
+  'html-to-markdown',
+  'enhancements',
+  'obsidian',
+  'problem-title',
+  'editorial',
+  'discussion',
+  'user',
+  'list',
+]
+
+/**
+ * Create the built-in processors that wrap the converters and enhancers
+ */
+export function createBuiltinProcessors(options: BuiltinProcessorOptions = {}): Processor[] {
+  const format = options.format ?? 'markdown'
+  const obsidian = format === 'obsidian'
+  const enhancementManager = new EnhancementManager(options.enhancements)
+
+  const isRaw = (data: RawData | ProcessedData, type: RawData['type']): data is RawData =>
+    !isProcessedData(data) && data.type === type
+  const isMarkdownProblem = (data: RawData | ProcessedData): data is ProcessedData =>
+    isProcessedData(data) && data.type === 'problem' && format !== 'json'
+
+  return [
+    {
+      name: 'json',
+      shouldProcess: (data) => format === 'json' && !isProcessedData(data) && data.type !== 'list',
+      process: async (data) => {
+        const rawData = data as RawData
+        const jsonConverter = new JsonConverter()
+
+        if (!jsonConverter.canConvert(rawData)) {
+          throw new LescaError('SCRAPE_NO_STRATEGY', `Cannot process data type: ${rawData.type}`, {
+            statusCode: 400,
+          })
+        }
+
+        return toProcessedData(rawData, await jsonConverter.convert(rawData))
+      },
+    },
+    {
+      name: 'html-to-markdown',
+      shouldProcess: (data) => isRaw(data, 'problem'),
+      process: async (data) => {
+        const rawData = data as RawData
+        const problem = rawData.data as Problem
+        return toProcessedData(
+          rawData,
+          await new HtmlToMarkdownConverter().convert(problem.content)
+        )
+      },
+    },
+    {
+      name: 'enhancements',
+      shouldProcess: isMarkdownProblem,
+      process: (data) => {
+        const processed = data as ProcessedData
+        return Promise.resolve({
+          ...processed,
+          content: enhancementManager.enhance(
+            processed.content,
+            processed.metadata.originalData,
+            options.enhancements
+          ),
+        })
+      },
+    },
+    {
+      name: 'obsidian',
+      shouldProcess: (data) => obsidian && isMarkdownProblem(data),
+      process: (data) => {
+        const processed = data as ProcessedData
+        const problem = processed.metadata.originalData.data as Problem
+        return Promise.resolve({
+          ...processed,
+          content: new ObsidianConverter().convert(problem, processed.content, {
+            wikiLinks: true,
+            includeBacklinks: true,
+          }),
+        })
+      },
+    },
+    {
+      name: 'problem-title',
+      shouldProcess: isMarkdownProblem,
+      process: (data) => {
+        const processed = data as ProcessedData
+        const problem = processed.metadata.originalData.data as Problem
+
+        // Add the title below the frontmatter, which must stay at the top of the note
+        const { frontmatter, body } = BundleConverter.splitFrontmatter(processed.content)
+        if (body.trimStart().startsWith('#')) {
+          return Promise.resolve(processed)
+        }
+        return Promise.resolve({
+          ...processed,
+          content: `${frontmatter}# ${problem.title}\n\n${body.trimStart()}`,
+        })
+      },
+    },
+    {
+      name: 'editorial',
+      shouldProcess: (data) => isRaw(data, 'editorial'),
+      process: async (data) => {
+        const rawData = data as RawData
+        const editorial = rawData.data as EditorialContent
+        const converter = new EditorialConverter()
+        return toProcessedData(
+          rawData,
+          obsidian
+            ? await converter.convertToObsidian(editorial)
+            : await converter.convert(editorial)
+        )
+      },
+    },
+    {
+      name: 'discussion',
+      shouldProcess: (data) => isRaw(data, 'discussion'),
+      process: async (data) => {
+        const rawData = data as RawData
+        const discussions = rawData.data as DiscussionList
+        const converter = new DiscussionConverter()
+        return toProcessedData(
+          rawData,
+          obsidian
+            ? await converter.convertToObsidian(discussions)
+            : await converter.convert(discussions)
+        )
+      },
+    },
+    {
+      name: 'user',
+      shouldProcess: (data) => isRaw(data, 'user'),
+      process: async (data) => {
+        const rawData = data as RawData
+        const user = rawData.data as User
+        const converter = new UserConverter()
+        return toProcessedData(
+          rawData,
+          obsidian ? await converter.convertToObsidian(user) : await converter.convert(user)
+        )
+      },
+    },
+    {
+      name: 'list',
+      shouldProcess: (data) => isRaw(data, 'list'),
+      process: async (data) => {
+        const rawData = data as RawData
+        const list = rawData.data as ProblemList
+
+        if (options.listFormat === 'csv') {
+          return toProcessedData(rawData, await new CsvConverter().convert(list))
+        }
+        if (format === 'json') {
+          return toProcessedData(rawData, await new JsonConverter().convert(rawData))
+        }
+        return toProcessedData(rawData, JSON.stringify(list, null, 2))
+      },
+    },
+  ]
+}
+
+/**
+ * Wrap converted content as pipeline output
+ */
+function toProcessedData(rawData: RawData, content: string): ProcessedData {
+  return {
+    type: rawData.type,
+    content,
+    frontmatter: {},
+    metadata: {
+      originalData: rawData,
+      processors: [],
+      processedAt: new Date(),
+    },
+  }
+}
@@ -0,0 +1,187 @@
+import { LescaError } from '@lesca/error'
+import { logger } from '@lesca/shared/utils'
+
+/**
+ * Re-authentication options
+ */
+export interface ReauthOptions {
+  /** Replace the expired credentials. Resolves true once the scraper is signed in again. */
+  refresh: () => Promise<boolean>
+  /** Ask whether the current credentials are still signed in (e.g. a GraphQL userStatus query) */
+  checkSession?: () => Promise<boolean>
+  /** Refreshes without a successful request in between before giving up. Default: 2 */
+  maxAttempts?: number
+  /** How long a positive session check is trusted (ms). Default: 60000 */
+  sessionCheckInterval?: number
+}
+
+/**
+ * Messages LeetCode returns when the session cookie is no longer accepted
+ */
+const EXPIRED_MESSAGE =
+  /not (logged in|authenticated)|login required|unauthenticated|session expired/i
+
+/**
+ * Re-auth Coordinator
+ * Detects expired credentials in failed requests and refreshes them once for
+ * every request that failed at the same time. Callers wait on {@link ready}
+ * while a refresh is running, so the queue pauses instead of burning through
+ * the remaining items with dead cookies.
+ */
+export class ReauthCoordinator {
+  private pending: Promise<boolean> | undefined
+  private generation = 0
+  private attempts = 0
+  private refreshes = 0
+  private lastSignedInCheck = 0
+  private readonly maxAttempts: number
+  private readonly sessionCheckInterval: number
+
+  constructor(private options: ReauthOptions) {
+    this.maxAttempts = options.maxAttempts ?? 2
+    this.sessionCheckInterval = options.sessionCheckInterval ?? 60000
+  }
+
+  /**
+   * Wait for a running refresh to finish
+   */
+  async ready(): Promise<void> {
+    if (this.pending) {
+      await this.pending
+    }
+  }
+
+  /**
+   * Credentials version, bumped by every successful refresh
+   */
+  getGeneration(): number {
+    return this.generation
+  }
+
+  /**
+   * Number of successful refreshes
+   */
+  getRefreshCount(): number {
+    return this.refreshes
+  }
+
+  /**
+   * Reset the attempt budget after a request succeeds
+   */
+  recordSuccess(): void {
+    this.attempts = 0
+  }
+
+  /**
+   * Decide whether a failed request was caused by expired credentials
+   * Clear signals (AUTH_SESSION_EXPIRED, HTTP 401/403, "not logged in") count
+   * directly. Other failures are confirmed with `checkSession` when configured.
+   */
+  async isExpired(error: unknown): Promise<boolean> {
+    if (ReauthCoordinator.hasExpirySignal(error)) {
+      return true
+    }
+    if (!this.options.checkSession || ReauthCoordinator.isRateLimit(error)) {
+      return false
+    }
+    if (Date.now() - this.lastSignedInCheck < this.sessionCheckInterval) {
+      return false
+    }
+
+    try {
+      const signedIn = await this.options.checkSession()
+      if (signedIn) {
+        this.lastSignedInCheck = Date.now()
+      }
+      return !signedIn
+    } catch (checkError) {
+      logger.debug('Session check failed', {
+        error: checkError instanceof Error ? checkError.message : String(checkError),
+      })
+      return false
+    }
+  }
+
+  /**
+   * Refresh the credentials, sharing one refresh between concurrent callers
+   * @param since - Generation the failed request was sent with. If a refresh
+   *   already happened since then, the caller can simply retry.
+   * @returns true if the request should be retried
+   */
+  reauthenticate(since: number): Promise<boolean> {
+    if (since !== this.generation) {
+      return Promise.resolve(true)
+    }
+    if (!this.pending) {
+      this.pending = this.runRefresh().finally(() => {
+        this.pending = undefined
+      })
+    }
+    return this.pending
+  }
+
+  private async runRefresh(): Promise<boolean> {
+    if (this.attempts >= this.maxAttempts) {
+      return false
+    }
+    this.attempts++
+
+    logger.warn('Session expired, re-authenticating before continuing')
+    let refreshed = false
+    try {
+      refreshed = await this.options.refresh()
+    } catch (error) {
+      logger.error('Re-authentication failed', error instanceof Error ? error : undefined)
+    }
+
+    if (refreshed) {
+      this.generation++
+      this.refreshes++
+      this.lastSignedInCheck = Date.now()
+      logger.info('Re-authenticated, resuming')
+    } else {
+      logger.warn('Could not re-authenticate, remaining requests run with the old credentials')
+    }
+    return refreshed
+  }
+
+  /**
+   * Look for a clear expiry signal in an error or its causes
+   */
+  static hasExpirySignal(error: unknown): boolean {
+    let current = error
+    while (current instanceof Error) {
+      if (current instanceof LescaError) {
+        if (current.code === 'AUTH_SESSION_EXPIRED') {
+          return true
+        }
+        // AUTH_* codes carry 401/403 by default, so only trust HTTP statuses from requests
+        if (
+          current.category !== 'authentication' &&
+          (current.statusCode === 401 || current.statusCode === 403)
+        ) {
+          return true
+        }
+      }
+      if (EXPIRED_MESSAGE.test(current.message)) {
+        return true
+      }
+      current = current.cause
+    }
+    return false
+  }
+
+  /**
+   * Rate limits are never caused by expired cookies
+   */
+  private static isRateLimit(error: unknown): boolean {
+    let current = error
+    while (current instanceof Error) {
+      if (current instanceof LescaError && current.code === 'NET_RATE_LIMITED') {
+        return true
+      }
+      current = current.cause
+    }
+    return false
+  }
+}
@@ -0,0 +1,220 @@
+import { StorageError, ValidationError } from '@lesca/error'
+import type { StorageAdapter } from '@lesca/shared/types'
+
+import {
+  scheduleReview,
+  seedReviewCard,
+  toLocalDate,
+  type ReviewCard,
+  type ReviewGrade,
+} from './review-scheduler'
+import { listStoredNoteKeys, readStoredProblem, type StoredProblem } from './stored-notes'
+
+/**
+ * Storage key of the review deck
+ * Kept in the dot directory with the search index, so it is never listed as a note.
+ */
+export const REVIEW_DECK_KEY = '.lesca/reviews.json'
+
+/**
+ * Version of the stored deck layout
+ */
+export const REVIEW_DECK_VERSION = 1
+
+/**
+ * Problems to review on a day
+ */
+export interface DueReviews {
+  /** Reviewed problems due today or earlier, most overdue first */
+  reviews: ReviewCard[]
+  /** Problems never reviewed, in problem order, up to the daily limit */
+  newCards: ReviewCard[]
+}
+
+/**
+ * Options for `ReviewDeck.getDue`
+ */
+export interface DueReviewOptions {
+  /** New problems per day, counting those first reviewed today (default: 10) */
+  newLimit?: number
+}
+
+interface SerializedReviewDeck {
+  version: typeof REVIEW_DECK_VERSION
+  cards: ReviewCard[]
+}
+
+/**
+ * Spaced-repetition state of the scraped problems
+ *
+ * Cards are scheduled with SM-2 (see `scheduleReview`) and saved under
+ * `REVIEW_DECK_KEY` next to the notes. `sync()` adds a card for each problem
+ * scraped since, seeded from its difficulty, quality and tags.
+ */
+export class ReviewDeck {
+  private cards = new Map<string, ReviewCard>()
+
+  constructor(private readonly storage: StorageAdapter) {}
+
+  /**
+   * Load the deck saved in storage
+   * Review history cannot be rebuilt, so an unreadable deck is an error
+   * rather than a fresh start.
+   */
+  static async load(storage: StorageAdapter): Promise<ReviewDeck> {
+    const deck = new ReviewDeck(storage)
+    const content = await storage.load(REVIEW_DECK_KEY)
+    if (content === null) {
+      return deck
+    }
+
+    let serialized: Partial<SerializedReviewDeck> | null = null
+    try {
+      serialized = JSON.parse(content) as Partial<SerializedReviewDeck>
+    } catch {
+      // Reported below
+    }
+    if (serialized?.version !== REVIEW_DECK_VERSION || !Array.isArray(serialized.cards)) {
+      throw new StorageError(
+        'STORAGE_READ_FAILED',
+        `Review deck ${REVIEW_DECK_KEY} is unreadable or from another version`,
+        { context: { key: REVIEW_DECK_KEY } }
+      )
+    }
+
+    for (const card of serialized.cards) {
+      deck.cards.set(card.slug, card)
+    }
+    return deck
+  }
+
+  /**
+   * Number of cards
+   */
+  get size(): number {
+    return this.cards.size
+  }
+
+  /**
+   * Find a card by title slug, frontend ID or storage key
+   */
+  get(problem: string): ReviewCard | undefined {
+    const query = problem.trim()
+    const card = this.cards.get(query.toLowerCase())
+    if (card) {
+      return card
+    }
+    for (const candidate of this.cards.values()) {
+      if (candidate.frontendId === query || candidate.key === query) {
+        return candidate
+      }
+    }
+    return undefined
+  }
+
+  /**
+   * Add cards for new problems in storage and refresh the title, tags and
+   * location of the others
+   * @param today - Local date new cards are first due (default: today)
+   * @returns Number of cards added
+   */
+  async sync(today = toLocalDate(new Date())): Promise<number> {
+    const problems = new Map<string, StoredProblem>()
+    for (const key of (await listStoredNoteKeys(this.storage)).sort()) {
+      const content = await this.storage.load(key)
+      const problem = content !== null ? readStoredProblem(key, content) : null
+      // Folder bundles and mixed formats can store a problem twice; keep the first
+      if (problem && !problems.has(problem.slug)) {
+        problems.set(problem.slug, problem)
+      }
+    }
+
+    let added = 0
+    for (const problem of problems.values()) {
+      const card = this.cards.get(problem.slug)
+      if (card) {
+        this.cards.set(problem.slug, {
+          ...card,
+          key: problem.key,
+          title: problem.title,
+          tags: problem.tags,
+          ...(problem.frontendId ? { frontendId: problem.frontendId } : {}),
+          ...(problem.difficulty ? { difficulty: problem.difficulty } : {}),
+        })
+      } else {
+        this.cards.set(problem.slug, seedReviewCard(problem, today, this.getTagEase(problem.tags)))
+        added++
+      }
+    }
+    return added
+  }
+
+  /**
+   * Problems to review on a day
+   * @param today - Local date, `YYYY-MM-DD` (default: today)
+   */
+  getDue(today = toLocalDate(new Date()), options: DueReviewOptions = {}): DueReviews {
+    const cards = [...this.cards.values()]
+    const reviews = cards
+      .filter((card) => card.history.length > 0 && card.due <= today)
+      .sort((a, b) => a.due.localeCompare(b.due) || a.ease - b.ease)
+
+    const startedToday = cards.filter((card) => {
+      const first = card.history[0]
+      return first !== undefined && toLocalDate(new Date(first.reviewedAt)) === today
+    }).length
+    const newCards = cards
+      .filter((card) => card.history.length === 0 && card.due <= today)
+      .sort(compareCards)
+      .slice(0, Math.max(0, (options.newLimit ?? 10) - startedToday))
+
+    return { reviews, newCards }
+  }
+
+  /**
+   * Record a recall grade and reschedule the problem
+   * @throws ValidationError if the problem has no card
+   */
+  grade(problem: string, grade: ReviewGrade, now = new Date()): ReviewCard {
+    const card = this.get(problem)
+    if (!card) {
+      throw new ValidationError(
+        'VAL_INVALID_INPUT',
+        `No review card for "${problem}". Scrape the problem first.`
+      )
+    }
+    const scheduled = scheduleReview(card, grade, now)
+    this.cards.set(card.slug, scheduled)
+    return scheduled
+  }
+
+  /**
+   * Write the deck to storage
+   */
+  async save(): Promise<void> {
+    const serialized: SerializedReviewDeck = {
+      version: REVIEW_DECK_VERSION,
+      cards: [...this.cards.values()].sort(compareCards),
+    }
+    await this.storage.save(REVIEW_DECK_KEY, JSON.stringify(serialized, null, 2))
+  }
+
+  /**
+   * Average ease of the reviewed cards sharing a tag
+   */
+  private getTagEase(tags: string[]): number | undefined {
+    const eases = [...this.cards.values()]
+      .filter((card) => card.history.length > 0 && card.tags.some((tag) => tags.includes(tag)))
+      .map((card) => card.ease)
+    return eases.length > 0 ? eases.reduce((sum, ease) => sum + ease, 0) / eases.length : undefined
+  }
+}
+
+function compareCards(a: ReviewCard, b: ReviewCard): number {
+  const idA = Number(a.frontendId ?? Infinity)
+  const idB = Number(b.frontendId ?? Infinity)
+  return (
+    (Number.isNaN(idA) ? Infinity : idA) - (Number.isNaN(idB) ? Infinity : idB) ||
+    a.slug.localeCompare(b.slug)
+  )
+}
@@ -0,0 +1,170 @@
+import type { Difficulty } from '@lesca/shared/types'
+
+import type { StoredProblem } from './stored-notes'
+
+/**
+ * SM-2 recall grade
+ * 0-2: not recalled, 3: recalled with serious difficulty, 4: recalled after
+ * some hesitation, 5: perfect recall.
+ */
+export type ReviewGrade = 0 | 1 | 2 | 3 | 4 | 5
+
+/**
+ * Named grades, for prompts and the command line
+ */
+export const REVIEW_GRADE_NAMES: Record<'again' | 'hard' | 'good' | 'easy', ReviewGrade> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+}
+
+/**
+ * A recorded review
+ */
+export interface ReviewLogEntry {
+  /** ISO timestamp */
+  reviewedAt: string
+  grade: ReviewGrade
+  /** Days until the review after this one */
+  interval: number
+}
+
+/**
+ * Review state of a problem
+ */
+export interface ReviewCard {
+  /** Title slug */
+  slug: string
+  /** Storage key of the problem note */
+  key: string
+  title: string
+  frontendId?: string
+  difficulty?: Difficulty
+  tags: string[]
+  /** SM-2 ease factor: the interval grows by this factor after each recall */
+  ease: number
+  /** Interval after the first recall, seeded from the problem */
+  firstInterval: number
+  /** Days between the last review and the next one */
+  interval: number
+  /** Recalls in a row since the last lapse */
+  repetitions: number
+  /** Times the problem was not recalled */
+  lapses: number
+  /** Local date of the next review, `YYYY-MM-DD` */
+  due: string
+  history: ReviewLogEntry[]
+}
+
+const MIN_EASE = 1.3
+const MAX_EASE = 3
+
+/**
+ * Starting ease and first interval (days) by difficulty
+ */
+const DIFFICULTY_SEEDS: Record<Difficulty, { ease: number; firstInterval: number }> = {
+  Easy: { ease: 2.6, firstInterval: 3 },
+  Medium: { ease: 2.5, firstInterval: 2 },
+  Hard: { ease: 2.3, firstInterval: 1 },
+}
+const DEFAULT_SEED = { ease: 2.5, firstInterval: 1 }
+
+/**
+ * Create the review card of a problem that was never reviewed
+ *
+ * The difficulty sets the starting ease and first interval. Well-liked
+ * problems (quality 80 and up) are interview classics and come back a bit
+ * sooner; poorly rated ones a bit later. `tagEase` is the average ease of the
+ * reviewed problems sharing a tag with this one, so topics that were hard to
+ * recall start with shorter intervals.
+ * @param today - Local date the card is first due, `YYYY-MM-DD`
+ */
+export function seedReviewCard(
+  problem: StoredProblem,
+  today: string,
+  tagEase?: number
+): ReviewCard {
+  const seed = problem.difficulty ? DIFFICULTY_SEEDS[problem.difficulty] : DEFAULT_SEED
+  let ease = seed.ease
+  if (problem.quality !== undefined) {
+    ease += problem.quality >= 80 ? -0.1 : problem.quality < 50 ? 0.1 : 0
+  }
+  if (tagEase !== undefined) {
+    ease += (tagEase - seed.ease) / 2
+  }
+
+  return {
+    slug: problem.slug,
+    key: problem.key,
+    title: problem.title,
+    ...(problem.frontendId ? { frontendId: problem.frontendId } : {}),
+    ...(problem.difficulty ? { difficulty: problem.difficulty } : {}),
+    tags: problem.tags,
+    ease: round(Math.min(MAX_EASE, Math.max(MIN_EASE, ease))),
+    firstInterval: seed.firstInterval,
+    interval: 0,
+    repetitions: 0,
+    lapses: 0,
+    due: today,
+    history: [],
+  }
+}
+
+/**
+ * Record a review and schedule the next one (SM-2)
+ * A recall (grade 3 and up) moves the problem to the first interval, then to
+ * six days, then multiplies the interval by the ease. A lapse brings it back
+ * tomorrow and restarts the sequence. Every grade adjusts the ease.
+ */
+export function scheduleReview(card: ReviewCard, grade: ReviewGrade, now: Date): ReviewCard {
+  const ease = Math.max(MIN_EASE, card.ease + 0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02))
+
+  let interval = 1
+  let repetitions = 0
+  let lapses = card.lapses
+  if (grade >= 3) {
+    repetitions = card.repetitions + 1
+    if (repetitions === 1) {
+      interval = card.firstInterval
+    } else if (repetitions === 2) {
+      interval = Math.max(6, card.firstInterval + 1)
+    } else {
+      interval = Math.round(card.interval * ease)
+    }
+  } else {
+    lapses += 1
+  }
+
+  return {
+    ...card,
+    ease: round(ease),
+    interval,
+    repetitions,
+    lapses,
+    due: addDays(toLocalDate(now), interval),
+    history: [...card.history, { reviewedAt: now.toISOString(), grade, interval }],
+  }
+}
+
+/**
+ * Local calendar date, `YYYY-MM-DD`
+ */
+export function toLocalDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+/**
+ * Add days to a `YYYY-MM-DD` date
+ */
+export function addDays(date: string, days: number): string {
+  // Calendar arithmetic in UTC is not affected by daylight saving changes
+  const time = new Date(`${date}T00:00:00Z`).getTime() + days * 24 * 60 * 60 * 1000
+  return new Date(time).toISOString().slice(0, 10)
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
@@ -1,24 +1,70 @@
+import { posix } from 'path'
+
 import {
-  HtmlToMarkdownConverter,
-  ObsidianConverter,
-  EditorialConverter,
-  DiscussionConverter,
-  EnhancementManager,
+  BundleConverter,
+  NoteMerger,
+  type BundleSection,
   type EnhancementConfig,
 } from '@lesca/converters'
 import { LescaError } from '@lesca/error'
 import type {
   ScrapeRequest,
   ScrapeResult,
+  ScrapeSectionResult,
+  ScrapeChange,
   ScraperStrategy,
+  ProblemScrapeRequest,
+  DiscussionScrapeRequest,
   RawData,
   Problem,
   StorageAdapter,
   DiscussionList,
   EditorialContent,
+  Processor,
+  User,
 } from '@lesca/shared/types'
+import { logger } from '@lesca/shared/utils'
+import {
+  renderPathTemplate,
+  DEFAULT_OUTPUT_PATTERN,
+  type PathTemplateContext,
+  type PathTemplateOptions,
+} from '@lesca/storage'
 
+import {
+  compareManifests,
+  createContentManifest,
+  type ContentManifest,
+  type ContentManifestOptions,
+} from './content-manifest'
+import { ImageDownloader, type ImageDownloaderOptions } from './image-downloader'
 import type { PluginManager } from './plugin-manager'
+import { ProcessorPipeline, ProcessorRegistry } from './processor-pipeline'
+import { createBuiltinProcessors, DEFAULT_PIPELINE } from './processors'
+import { createSearchDocument, mergeSearchDocuments, type SearchDocument } from './search-documents'
+import type { SearchIndex } from './search-index'
+
+/**
+ * Storage key pattern for user profile notes
+ */
+const USER_OUTPUT_PATTERN = 'users/{slug}.md'
+
+/**
+ * Storage key pattern for editorials and discussions under the default output pattern
+ * Keeps the `<slug>-editorial.md` and `<slug>-discussions.md` keys of existing vaults.
+ */
+const SECTION_OUTPUT_PATTERN = '{slug}.md'
+
+/**
+ * Problem fields of the output pattern, shared by a problem's editorial and discussions
+ */
+type ProblemPathContext = Pick<PathTemplateContext, 'id' | 'title' | 'difficulty' | 'firstTag'>
+
+/**
+ * Section of a problem bundle as fetched, before conversion
+ */
+type FetchedSection = Pick<BundleSection, 'id' | 'title'> &
+  ({ rawData: RawData } | { failure: Error })
 
 /**
  * Main LeetCode scraper facade
@@ -26,21 +72,51 @@ import type { PluginManager } from './plugin-manager'
  * Delegates all work to strategies, converters, and storage
  */
 export class LeetCodeScraper {
-  private enhancementManager: EnhancementManager
+  private imageDownloader?: ImageDownloader
+  private pipeline?: ProcessorPipeline
+  /** Problem fields of the output pattern by slug, for editorial and discussion keys */
+  private problemContexts = new Map<string, ProblemPathContext>()
 
   constructor(
     private strategies: ScraperStrategy[],
     private storage: StorageAdapter,
     private options: {
-      format?: 'markdown' | 'obsidian'
-      outputPattern?: string // e.g., "{id}-{slug}.md"
+      format?: 'markdown' | 'obsidian' | 'json'
+      listFormat?: 'json' | 'csv'
+      outputPattern?: string // e.g., "{difficulty}/{id:4}-{slug}.md"
       enhancements?: EnhancementConfig
       pluginManager?: PluginManager
+      images?: ImageDownloaderOptions & { download?: boolean }
+      imageDownloader?: ImageDownloader // Shared by scrapers writing to the same storage
+      bundle?: {
+        layout?: 'note' | 'folder' // One note with sections, or a folder of linked notes
+        discussions?: Pick<
+          DiscussionScrapeRequest,
+          'category' | 'sortBy' | 'limit' | 'includeComments'
+        >
+      }
+      incremental?: boolean // Skip items whose stored content manifest is unchanged
+      merge?: boolean // Keep user sections and frontmatter keys of existing notes
+      processors?: Processor[] // Extra processors, registered alongside the built-ins
+      pipeline?: string[] // Processor names in run order (default: built-ins, then extras)
+      searchIndex?: SearchIndex // Updated with every saved note; flush it when done
     } = {}
   ) {
     // Sort strategies by priority (highest first)
     this.strategies.sort((a, b) => b.priority - a.priority)
-    this.enhancementManager = new EnhancementManager(this.options.enhancements)
+
+    // Keys with {date} change every day, so earlier notes are never found to compare with
+    if (this.options.incremental && /\{date(:\d+)?\}/.test(this.options.outputPattern ?? '')) {
+      logger.warn(
+        'The output pattern uses {date}: incremental scrapes only skip notes saved on the same day'
+      )
+    }
+
+    if (this.options.imageDownloader) {
+      this.imageDownloader = this.options.imageDownloader
+    } else if (this.options.images?.download) {
+      this.imageDownloader = new ImageDownloader(this.storage, this.options.images)
+    }
   }
 
   /**
@@ -60,25 +136,64 @@ export class LeetCodeScraper {
       const strategy = this.selectStrategy(currentRequest)
 
       // 2. Execute scraping
-      const rawData = await strategy.execute(currentRequest)
-
-      // 3. Process and convert
-      const { markdown, filename } = await this.processData(rawData)
+      let rawData = await strategy.execute(currentRequest)
 
-      // 4. Plugin hook: onSave
-      let contentToSave = markdown
+      // 2a. Plugin hook: onRawData
       if (this.options.pluginManager) {
-        const saved = await this.options.pluginManager.onSave(contentToSave)
-        if (typeof saved === 'string') {
-          contentToSave = saved
+        rawData = await this.options.pluginManager.onRawData(rawData)
+      }
+
+      // 2b. Fetch the editorial and discussions bundled with the problem
+      const bundleSections =
+        currentRequest.type === 'problem' &&
+        (currentRequest.includeSolution || currentRequest.includeDiscussions)
+          ? await this.fetchBundleSections(currentRequest)
+          : undefined
+
+      // 2c. Incremental: compare with the stored manifest and skip unchanged items
+      const manifest =
+        rawData.type === 'list'
+          ? undefined
+          : createContentManifest(rawData, this.getManifestOptions(currentRequest), bundleSections)
+      let change: ScrapeChange | undefined
+
+      if (this.options.incremental && manifest) {
+        const key = await this.getDocumentKey(currentRequest, rawData)
+        change = await this.detectChange(key, manifest)
+
+        if (change.status === 'unchanged') {
+          const unchangedResult: ScrapeResult = {
+            success: true,
+            request: currentRequest,
+            filePath: key,
+            change,
+          }
+          return this.options.pluginManager
+            ? await this.options.pluginManager.onScrapeResult(unchangedResult)
+            : unchangedResult
         }
       }
 
-      // 5. Save to storage
-      await this.storage.save(filename, contentToSave, {
-        scrapedAt: rawData.metadata.scrapedAt.toISOString(),
-        source: rawData.metadata.source,
-      })
+      // 3. Process and convert
+      const processed = await this.processData(rawData)
+      let { markdown, filename } = processed
+      let sections: ScrapeSectionResult[] | undefined
+      let bundled: Array<{ key: string; rawData: RawData }> = []
+
+      // 3b. Bundle editorial and discussions with the problem
+      if (bundleSections) {
+        const bundle = await this.processBundle(bundleSections, markdown, filename)
+        markdown = bundle.markdown
+        filename = bundle.filename
+        sections = bundle.sections
+        bundled = bundle.documents
+      }
+
+      // 4-5. Localise images, run onSave and save to storage
+      const contentToSave = await this.saveDocument(rawData, markdown, filename, manifest)
+
+      // 5b. Index the saved notes for local search
+      this.updateSearchIndex([{ key: filename, rawData }, ...bundled])
 
       // 6. Return result
       const result: ScrapeResult = {
@@ -90,11 +205,13 @@ export class LeetCodeScraper {
           frontmatter: {},
           metadata: {
             originalData: rawData,
-            processors: ['html-to-markdown', this.options.format || 'markdown'],
+            processors: processed.processors,
             processedAt: new Date(),
           },
         },
         filePath: filename,
+        ...(sections ? { sections } : {}),
+        ...(change ? { change } : {}),
       }
 
       // 7. Plugin hook: onScrapeResult
@@ -156,78 +273,482 @@ export class LeetCodeScraper {
   }
 
   /**
-   * Process raw data and convert to markdown
+   * Run raw data through the processor pipeline
+   * The storage key is built from the data before onBeforeConvert, so it
+   * matches the key incremental scrapes compare against.
+   * @returns The converted content, its storage key and the processors that ran
    */
-  private async processData(rawData: RawData): Promise<{ markdown: string; filename: string }> {
-    if (rawData.type === 'problem') {
-      const problem = rawData.data as Problem
+  private async processData(
+    rawData: RawData
+  ): Promise<{ markdown: string; filename: string; processors: string[] }> {
+    const pluginManager = this.options.pluginManager
+    const input = pluginManager ? await pluginManager.onBeforeConvert(rawData) : rawData
+    const processed = await this.getPipeline().run(input)
+    const markdown = pluginManager
+      ? await pluginManager.onAfterConvert(processed.content, input)
+      : processed.content
+
+    return {
+      markdown,
+      filename: await this.getFilename(rawData),
+      processors: processed.metadata.processors,
+    }
+  }
+
+  /**
+   * Build the processor pipeline on first use
+   * Plugin processors are only known once the plugin manager is initialised.
+   */
+  private getPipeline(): ProcessorPipeline {
+    if (this.pipeline) {
+      return this.pipeline
+    }
+
+    const registry = new ProcessorRegistry()
+    const builtins = createBuiltinProcessors({
+      ...(this.options.format ? { format: this.options.format } : {}),
+      ...(this.options.listFormat ? { listFormat: this.options.listFormat } : {}),
+      ...(this.options.enhancements ? { enhancements: this.options.enhancements } : {}),
+    })
+    const extras = [
+      ...(this.options.processors ?? []),
+      ...(this.options.pluginManager?.getProcessors() ?? []),
+    ]
+    for (const processor of [...builtins, ...extras]) {
+      registry.register(processor)
+    }
+
+    const names = this.options.pipeline ?? [
+      ...DEFAULT_PIPELINE,
+      ...extras
+        .map((processor) => processor.name)
+        .filter((name) => !DEFAULT_PIPELINE.includes(name)),
+    ]
+    this.pipeline = new ProcessorPipeline(registry, [...new Set(names)])
+    return this.pipeline
+  }
+
+  /**
+   * Localise images, run the onSave hook and write a document to storage
+   * In merge mode, notes are merged into the stored note instead of replacing it.
+   * @returns The content that was saved
+   */
+  private async saveDocument(
+    rawData: RawData,
+    markdown: string,
+    filename: string,
+    manifest?: ContentManifest
+  ): Promise<string> {
+    let contentToSave = await this.localizeImages(rawData, markdown, filename)
+
+    if (this.options.pluginManager) {
+      const saved = await this.options.pluginManager.onSave(contentToSave, { filename, rawData })
+      if (typeof saved === 'string') {
+        contentToSave = saved
+      }
+    }
+
+    if (this.options.merge && this.options.format !== 'json' && rawData.type !== 'list') {
+      const existing = await this.storage.load(filename)
+      contentToSave = new NoteMerger().merge(existing, contentToSave, filename)
+    }
+
+    await this.storage.save(filename, contentToSave, {
+      scrapedAt: rawData.metadata.scrapedAt.toISOString(),
+      source: rawData.metadata.source,
+      ...(manifest ? { manifest } : {}),
+    })
 
-      const htmlConverter = new HtmlToMarkdownConverter()
-      let markdown = await htmlConverter.convert(problem.content)
+    return contentToSave
+  }
 
-      // Apply content enhancements (format-agnostic)
-      markdown = this.enhancementManager.enhance(markdown, rawData, this.options.enhancements)
+  /**
+   * Settings that shape the saved note, hashed into its content manifest
+   * so that changing any of them rewrites notes in incremental scrapes
+   */
+  private getManifestOptions(request: ScrapeRequest): ContentManifestOptions {
+    const images = this.imageDownloader ? (this.options.images ?? {}) : undefined
+
+    return {
+      format: this.options.format || 'markdown',
+      ...(this.options.enhancements ? { enhancements: this.options.enhancements } : {}),
+      outputPattern: this.options.outputPattern || DEFAULT_OUTPUT_PATTERN,
+      pipeline: this.getPipeline().getNames(),
+      merge: this.options.merge ?? false,
+      images: images
+        ? { directory: images.directory, pattern: images.pattern, baseUrl: images.baseUrl }
+        : null,
+      plugins: (this.options.pluginManager?.getPlugins() ?? []).map(({ name, version }) => ({
+        name,
+        version,
+      })),
+      bundle:
+        request.type === 'problem' && (request.includeSolution || request.includeDiscussions)
+          ? {
+              layout: this.getBundleLayout(),
+              editorial: request.includeSolution ?? false,
+              premium: request.includePremium ?? null,
+              discussions: request.includeDiscussions
+                ? (this.options.bundle?.discussions ?? {})
+                : null,
+            }
+          : null,
+    }
+  }
 
-      let finalMarkdown = markdown
-      let filename = `${problem.questionFrontendId}-${problem.titleSlug}.md`
+  /**
+   * Compare the manifest with the one stored for a key
+   * Storage without metadata support reports every item as new.
+   */
+  private async detectChange(key: string, manifest: ContentManifest): Promise<ScrapeChange> {
+    if (!this.storage.loadMetadata || !(await this.storage.exists(key))) {
+      return compareManifests(null, manifest)
+    }
 
-      if (this.options.format === 'obsidian') {
-        const obsidianConverter = new ObsidianConverter()
-        finalMarkdown = obsidianConverter.convert(problem, markdown, {
-          wikiLinks: true,
-          includeBacklinks: true,
-        })
+    const metadata = await this.storage.loadMetadata(key)
+    return compareManifests(metadata?.manifest, manifest)
+  }
+
+  /**
+   * Storage key of the main document for scraped data
+   * Matches the key processData (and processBundle, for folder bundles) saves to.
+   */
+  private async getDocumentKey(request: ScrapeRequest, rawData: RawData): Promise<string> {
+    const filename = await this.getFilename(rawData)
+
+    const isBundle =
+      request.type === 'problem' && (request.includeSolution || request.includeDiscussions)
+    return isBundle && this.getBundleLayout() === 'folder'
+      ? this.getBundleProblemKey(filename)
+      : filename
+  }
+
+  /**
+   * Bundle layout in effect (JSON bundles are always saved as separate files)
+   */
+  private getBundleLayout(): 'note' | 'folder' | 'files' {
+    return this.options.format === 'json' ? 'files' : (this.options.bundle?.layout ?? 'note')
+  }
 
-        filename = ObsidianConverter.generateFilename(problem, 'id-slug')
+  /**
+   * Key of the problem note inside a folder bundle
+   */
+  private getBundleProblemKey(problemFilename: string): string {
+    const ext = posix.extname(problemFilename)
+    return `${problemFilename.slice(0, problemFilename.length - ext.length)}/problem${ext}`
+  }
+
+  /**
+   * Scrape the editorial and discussions bundled with a problem
+   * Section failures (e.g. a premium editorial) are kept with the section and
+   * never fail the problem itself.
+   */
+  private async fetchBundleSections(request: ProblemScrapeRequest): Promise<FetchedSection[]> {
+    const requests: Array<{ id: BundleSection['id']; title: string; request: ScrapeRequest }> = []
+
+    if (request.includeSolution) {
+      requests.push({
+        id: 'editorial',
+        title: 'Editorial',
+        request: {
+          type: 'editorial',
+          titleSlug: request.titleSlug,
+          ...(request.includePremium !== undefined
+            ? { includePremium: request.includePremium }
+            : {}),
+        },
+      })
+    }
+    if (request.includeDiscussions) {
+      requests.push({
+        id: 'discussions',
+        title: 'Discussions',
+        request: {
+          ...this.options.bundle?.discussions,
+          type: 'discussion',
+          titleSlug: request.titleSlug,
+        },
+      })
+    }
+
+    const sections: FetchedSection[] = []
+    for (const { id, title, request: sectionRequest } of requests) {
+      try {
+        let rawData = await this.selectStrategy(sectionRequest).execute(sectionRequest)
+        if (this.options.pluginManager) {
+          rawData = await this.options.pluginManager.onRawData(rawData)
+        }
+        sections.push({ id, title, rawData })
+      } catch (error) {
+        const failure = error instanceof Error ? error : new Error(String(error))
+        sections.push({ id, title, failure })
       }
+    }
+
+    return sections
+  }
 
-      if (!finalMarkdown.startsWith('#')) {
-        finalMarkdown = `# ${problem.title}\n\n${finalMarkdown}`
+  /**
+   * Convert the fetched sections and combine them with the problem note
+   * Sections that failed to fetch or convert are reported per section.
+   * @returns The problem note to save, its key, the per-section results and the
+   *   scraped sections with the key they were saved under
+   */
+  private async processBundle(
+    fetched: FetchedSection[],
+    problemMarkdown: string,
+    problemFilename: string
+  ): Promise<{
+    markdown: string
+    filename: string
+    sections: ScrapeSectionResult[]
+    documents: Array<{ key: string; rawData: RawData }>
+  }> {
+    const parts: Array<BundleSection & { rawData?: RawData; filename?: string; failure?: Error }> =
+      []
+    for (const section of fetched) {
+      const { id, title } = section
+      if ('failure' in section) {
+        parts.push({ id, title, error: section.failure.message, failure: section.failure })
+        continue
       }
 
-      return { markdown: finalMarkdown, filename }
+      try {
+        const { markdown, filename } = await this.processData(section.rawData)
+        parts.push({ id, title, content: markdown, rawData: section.rawData, filename })
+      } catch (error) {
+        const failure = error instanceof Error ? error : new Error(String(error))
+        parts.push({ id, title, error: failure.message, failure })
+      }
     }
 
-    if (rawData.type === 'editorial') {
-      const editorial = rawData.data as EditorialContent
-      const editorialConverter = new EditorialConverter()
+    const layout = this.getBundleLayout()
+    const bundleConverter = new BundleConverter()
+    const obsidian = this.options.format === 'obsidian'
+    let markdown = problemMarkdown
+    let filename = problemFilename
+    const sectionPaths = new Map<string, string>()
+
+    if (layout === 'note') {
+      markdown = bundleConverter.toNote(problemMarkdown, parts, { obsidian })
+      for (const part of parts) {
+        if (part.content !== undefined) sectionPaths.set(part.id, filename)
+      }
+    } else if (layout === 'files') {
+      // JSON documents can't be merged; save each one under its own key
+      for (const part of parts) {
+        if (part.rawData && part.filename && part.content !== undefined) {
+          await this.saveDocument(part.rawData, part.content, part.filename)
+          sectionPaths.set(part.id, part.filename)
+        }
+      }
+    } else {
+      const ext = posix.extname(problemFilename)
+      filename = this.getBundleProblemKey(problemFilename)
+      const folder = posix.dirname(filename)
+
+      const saved = parts.filter((part) => part.rawData && part.content !== undefined)
+      const notes = [
+        { title: 'Problem', path: `problem${ext}` },
+        ...saved.map((part) => ({ title: part.title, path: `${part.id}${ext}` })),
+      ]
+
+      for (const part of saved) {
+        const partFilename = `${folder}/${part.id}${ext}`
+        const links = notes.filter((note) => note.path !== `${part.id}${ext}`)
+        await this.saveDocument(
+          part.rawData as RawData,
+          bundleConverter.withLinks(part.content ?? '', links),
+          partFilename
+        )
+        sectionPaths.set(part.id, partFilename)
+      }
 
-      let finalMarkdown: string
-      const filename = `${editorial.titleSlug}-editorial.md`
+      // Failed sections are noted in the problem note
+      markdown = bundleConverter.toNote(
+        bundleConverter.withLinks(problemMarkdown, notes.slice(1)),
+        parts.filter((part) => part.content === undefined),
+        { obsidian }
+      )
+    }
 
-      if (this.options.format === 'obsidian') {
-        finalMarkdown = await editorialConverter.convertToObsidian(editorial)
-      } else {
-        finalMarkdown = await editorialConverter.convert(editorial)
+    const sections: ScrapeSectionResult[] = [
+      { section: 'problem', success: true, filePath: filename },
+    ]
+    const documents: Array<{ key: string; rawData: RawData }> = []
+    for (const part of parts) {
+      const filePath = sectionPaths.get(part.id)
+      if (filePath !== undefined && part.rawData) {
+        documents.push({ key: filePath, rawData: part.rawData })
       }
-
-      return { markdown: finalMarkdown, filename }
+      sections.push({
+        section: part.id,
+        success: filePath !== undefined,
+        ...(filePath !== undefined ? { filePath } : {}),
+        ...(part.failure ? { error: part.failure } : {}),
+      })
     }
 
-    if (rawData.type === 'discussion') {
-      const discussionList = rawData.data as DiscussionList
-      const discussionConverter = new DiscussionConverter()
+    return { markdown, filename, sections, documents }
+  }
 
-      let finalMarkdown: string
-      const filename = `${discussionList.titleSlug}-discussions.md`
+  /**
+   * Add saved notes to the search index and schedule a save
+   * Sections bundled into the problem note are indexed with it. Index
+   * failures are logged and never fail the scrape.
+   */
+  private updateSearchIndex(entries: Array<{ key: string; rawData: RawData }>): void {
+    const searchIndex = this.options.searchIndex
+    if (!searchIndex) {
+      return
+    }
 
-      if (this.options.format === 'obsidian') {
-        finalMarkdown = await discussionConverter.convertToObsidian(discussionList)
-      } else {
-        finalMarkdown = await discussionConverter.convert(discussionList)
+    try {
+      const documents = new Map<string, SearchDocument>()
+      for (const { key, rawData } of entries) {
+        const document = createSearchDocument(key, rawData)
+        const existing = documents.get(key)
+        if (document) {
+          documents.set(key, existing ? mergeSearchDocuments(existing, document) : document)
+        }
+      }
+      if (documents.size === 0) {
+        return
       }
 
-      return { markdown: finalMarkdown, filename }
+      for (const document of documents.values()) {
+        searchIndex.update(document)
+      }
+      searchIndex.scheduleSave()
+    } catch (error) {
+      logger.warn(
+        `Failed to update the search index: ${error instanceof Error ? error.message : String(error)}`
+      )
     }
+  }
 
-    if (rawData.type === 'list') {
-      const list = rawData.data as unknown
-      const filename = `problem-list-${new Date().toISOString().split('T')[0]}.json`
-      return { markdown: JSON.stringify(list, null, 2), filename }
+  /**
+   * Download images referenced by a note and point its links at the local copies
+   */
+  private async localizeImages(
+    rawData: RawData,
+    markdown: string,
+    filename: string
+  ): Promise<string> {
+    if (
+      !this.imageDownloader ||
+      this.options.format === 'json' ||
+      rawData.type === 'list' ||
+      rawData.type === 'user'
+    ) {
+      return markdown
     }
 
-    throw new LescaError('SCRAPE_NO_STRATEGY', `Cannot process data type: ${rawData.type}`, {
-      statusCode: 400,
+    const slug =
+      rawData.type === 'problem'
+        ? (rawData.data as Problem).titleSlug
+        : (rawData.data as EditorialContent | DiscussionList).titleSlug
+
+    return this.imageDownloader.localize(markdown, {
+      slug,
+      notePath: filename,
+      obsidian: this.options.format === 'obsidian',
     })
   }
+
+  /**
+   * Storage key for processed data, after the onFilename plugin hook
+   * JSON output swaps the pattern's extension; problem lists are dated exports.
+   */
+  private async getFilename(rawData: RawData): Promise<string> {
+    let filename: string
+    if (rawData.type === 'list') {
+      const basename = `problem-list-${new Date().toISOString().split('T')[0]}`
+      filename = `${basename}${this.options.listFormat === 'csv' ? '.csv' : '.json'}`
+    } else {
+      const problem =
+        rawData.type === 'editorial' || rawData.type === 'discussion'
+          ? (this.problemContexts.get(
+              (rawData.data as EditorialContent | DiscussionList).titleSlug
+            ) ?? {})
+          : {}
+      filename =
+        this.options.format === 'json'
+          ? this.buildFilename(rawData, problem, { extension: '.json' })
+          : this.buildFilename(rawData, problem)
+    }
+
+    return this.options.pluginManager
+      ? await this.options.pluginManager.onFilename(filename, rawData)
+      : filename
+  }
+
+  /**
+   * Build the storage key for scraped data from the output pattern
+   * Editorials and discussions get a type suffix unless the pattern uses {type},
+   * so they never overwrite the problem note. Under a custom pattern they get the
+   * fields of their problem when it was scraped by this scraper, so they are
+   * stored next to it; the default pattern keeps their `<slug>-editorial.md` keys.
+   */
+  private buildFilename(
+    rawData: RawData,
+    problemContext: ProblemPathContext = {},
+    options: PathTemplateOptions = {}
+  ): string {
+    if (rawData.type === 'user') {
+      // Profiles are not problems, so the problem pattern does not apply
+      return renderPathTemplate(
+        USER_OUTPUT_PATTERN,
+        { slug: (rawData.data as User).username },
+        options
+      )
+    }
+
+    const customPattern =
+      this.options.outputPattern && this.options.outputPattern !== DEFAULT_OUTPUT_PATTERN
+        ? this.options.outputPattern
+        : undefined
+    const pattern =
+      customPattern ??
+      (rawData.type === 'problem' ? DEFAULT_OUTPUT_PATTERN : SECTION_OUTPUT_PATTERN)
+    const context: PathTemplateContext = {
+      slug: '',
+      type: rawData.type,
+      date: new Date(rawData.metadata.scrapedAt),
+    }
+    let suffix = ''
+
+    if (rawData.type === 'problem') {
+      const problem = rawData.data as Problem
+      const problemContext = getProblemContext(problem)
+      this.problemContexts.set(problem.titleSlug, problemContext)
+      Object.assign(context, problemContext, { slug: problem.titleSlug })
+    } else if (rawData.type === 'editorial') {
+      Object.assign(context, problemContext, {
+        slug: (rawData.data as EditorialContent).titleSlug,
+      })
+      suffix = '-editorial'
+    } else {
+      Object.assign(context, problemContext, { slug: (rawData.data as DiscussionList).titleSlug })
+      suffix = '-discussions'
+    }
+
+    return renderPathTemplate(
+      pattern,
+      context,
+      suffix && !pattern.includes('{type}') ? { ...options, suffix } : options
+    )
+  }
+}
+
+/**
+ * Problem fields of the output pattern
+ */
+function getProblemContext(problem: Problem): ProblemPathContext {
+  return {
+    id: problem.questionFrontendId,
+    title: problem.title,
+    difficulty: problem.difficulty,
+    ...(problem.topicTags?.[0] ? { firstTag: problem.topicTags[0].slug } : {}),
+  }
 }
@@ -0,0 +1,430 @@
+import type { JsonDocument } from '@lesca/converters'
+import type {
+  Difficulty,
+  DiscussionList,
+  EditorialContent,
+  Problem,
+  RawData,
+} from '@lesca/shared/types'
+
+import {
+  asDifficulty,
+  asString,
+  asStringList,
+  formatSlug,
+  normalizeTag,
+  readJsonDocument,
+  readStoredNote,
+  splitSections,
+  type StoredNote,
+  type StoredNoteType,
+} from './stored-notes'
+
+/**
+ * Kinds of saved content the search index covers
+ */
+export type SearchDocumentType = StoredNoteType
+
+/**
+ * Indexed text fields, ranked with different weights
+ */
+export type SearchField = 'title' | 'statement' | 'hints' | 'approaches' | 'discussions'
+
+/**
+ * Searchable text and filter metadata of one stored note
+ */
+export interface SearchDocument {
+  /** Storage key of the note */
+  key: string
+  type: SearchDocumentType
+  slug: string
+  title: string
+  frontendId?: string
+  difficulty?: Difficulty
+  /** Topic tag slugs, e.g. `hash-table` */
+  tags: string[]
+  fields: Partial<Record<SearchField, string>>
+}
+
+/**
+ * Options for `createSnippet`
+ */
+export interface SnippetOptions {
+  /** Approximate snippet length in characters (default: 160) */
+  length?: number
+  /** Wraps each matched word (default: leaves it unchanged) */
+  highlight?: (word: string) => string
+}
+
+const STOP_WORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'are',
+  'as',
+  'at',
+  'be',
+  'by',
+  'for',
+  'from',
+  'in',
+  'is',
+  'it',
+  'of',
+  'on',
+  'or',
+  'that',
+  'the',
+  'this',
+  'to',
+  'with',
+])
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+}
+
+/**
+ * Split text into index terms
+ * Terms are lower-cased words without stop words; plurals are folded
+ * (`arrays` -> `array`, `queries` -> `query`), so singular and plural match.
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = []
+  for (const [word] of text.toLowerCase().matchAll(WORD_PATTERN)) {
+    if (!STOP_WORDS.has(word)) {
+      terms.push(stem(word))
+    }
+  }
+  return terms
+}
+
+/**
+ * Build the search document for freshly scraped data
+ * @returns null for data that is not indexed (problem lists, user profiles)
+ */
+export function createSearchDocument(key: string, rawData: RawData): SearchDocument | null {
+  if (rawData.type === 'problem') {
+    const problem = rawData.data as Problem
+    return {
+      key,
+      type: 'problem',
+      slug: problem.titleSlug,
+      title: problem.title,
+      frontendId: problem.questionFrontendId,
+      difficulty: problem.difficulty,
+      tags: (problem.topicTags ?? []).map((tag) => normalizeTag(tag.slug)),
+      fields: {
+        title: problem.title,
+        statement: htmlToText(problem.content ?? ''),
+        hints: (problem.hints ?? []).map(htmlToText).join('\n'),
+      },
+    }
+  }
+
+  if (rawData.type === 'editorial') {
+    const editorial = rawData.data as EditorialContent
+    const title = formatSlug(editorial.titleSlug)
+    return {
+      key,
+      type: 'editorial',
+      slug: editorial.titleSlug,
+      title,
+      tags: [],
+      fields: {
+        title,
+        approaches: [editorial.content, ...editorial.approaches, editorial.complexity ?? '']
+          .map(htmlToText)
+          .join('\n'),
+      },
+    }
+  }
+
+  if (rawData.type === 'discussion' && 'discussions' in (rawData.data as object)) {
+    const list = rawData.data as DiscussionList
+    const title = formatSlug(list.titleSlug)
+    return {
+      key,
+      type: 'discussion',
+      slug: list.titleSlug,
+      title,
+      tags: [],
+      fields: {
+        title,
+        discussions: list.discussions
+          .map((discussion) =>
+            [
+              discussion.title,
+              htmlToText(discussion.content),
+              ...discussion.comments.map((comment) => htmlToText(comment.content)),
+            ].join('\n')
+          )
+          .join('\n\n'),
+      },
+    }
+  }
+
+  return null
+}
+
+/**
+ * Rebuild the search document of a note that is already in storage
+ * Reads JSON documents and Markdown notes (with or without frontmatter).
+ * Notes without frontmatter take their slug and ID from the key, e.g.
+ * `1-two-sum-editorial.md`, and have no difficulty or tags to filter on.
+ * @returns null for keys that are not problem, editorial or discussion notes
+ */
+export function parseStoredDocument(key: string, content: string): SearchDocument | null {
+  const json = readJsonDocument(key, content)
+  if (json) {
+    return parseJsonDocument(key, json)
+  }
+  const note = readStoredNote(key, content)
+  return note ? parseMarkdownNote(note) : null
+}
+
+/**
+ * Combine the documents saved under one key (a problem note with its bundled sections)
+ * The first document's metadata is kept; field texts are appended.
+ */
+export function mergeSearchDocuments(base: SearchDocument, extra: SearchDocument): SearchDocument {
+  const fields = { ...base.fields }
+  for (const [field, text] of Object.entries(extra.fields) as Array<[SearchField, string]>) {
+    if (field !== 'title') {
+      fields[field] = fields[field] ? `${fields[field]}\n\n${text}` : text
+    }
+  }
+  return { ...base, fields }
+}
+
+/**
+ * Cut the passage of a text with the most query terms
+ * @param terms - Index terms to look for (see `tokenize`)
+ */
+export function createSnippet(text: string, terms: string[], options: SnippetOptions = {}): string {
+  const length = options.length ?? 160
+  const highlight = options.highlight ?? ((word: string) => word)
+  const flat = text.replace(/\s+/g, ' ').trim()
+  const wanted = new Set(terms)
+
+  const words = [...flat.matchAll(WORD_PATTERN)].map((match) => ({
+    start: match.index,
+    end: match.index + match[0].length,
+    term: stem(match[0].toLowerCase()),
+  }))
+  const hits = words.filter((word) => wanted.has(word.term))
+
+  // Start a little before the hit that opens the window with the most distinct terms
+  let start = 0
+  let best = 0
+  for (const hit of hits) {
+    const found = new Set(
+      hits
+        .filter((other) => other.start >= hit.start && other.end <= hit.start + length)
+        .map((other) => other.term)
+    )
+    if (found.size > best) {
+      best = found.size
+      start = Math.max(0, hit.start - Math.floor(length / 4))
+    }
+  }
+  if (start > 0) {
+    start = words.find((word) => word.start >= start)?.start ?? start
+  }
+  let end = Math.min(flat.length, start + length)
+  if (end < flat.length) {
+    end = [...words].reverse().find((word) => word.end <= end)?.end ?? end
+  }
+
+  let snippet = ''
+  let cursor = start
+  for (const hit of hits) {
+    if (hit.start >= start && hit.end <= end) {
+      snippet += flat.slice(cursor, hit.start) + highlight(flat.slice(hit.start, hit.end))
+      cursor = hit.end
+    }
+  }
+  snippet += flat.slice(cursor, end)
+
+  return `${start > 0 ? '…' : ''}${snippet}${end < flat.length ? '…' : ''}`
+}
+
+/**
+ * Plain text of all fields, in index order
+ */
+export function getDocumentText(document: SearchDocument): string {
+  const { statement, hints, approaches, discussions } = document.fields
+  return [statement, hints, approaches, discussions].filter(Boolean).join('\n\n')
+}
+
+function stem(word: string): string {
+  if (word.length <= 3 || /\d/.test(word)) {
+    return word
+  }
+  if (word.endsWith('ies')) {
+    return `${word.slice(0, -3)}y`
+  }
+  if (/(?:s|x|z|ch|sh)es$/.test(word)) {
+    return word.slice(0, -2)
+  }
+  if (word.endsWith('s') && !/(?:ss|us|is)$/.test(word)) {
+    return word.slice(0, -1)
+  }
+  return word
+}
+
+function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<(script|style|pre)\b[\s\S]*?<\/\1>/gi, ' ')
+      .replace(/<br\s*\/?>|<\/(p|div|li|h\d)>/gi, '\n')
+      .replace(/<[^>]+>/g, ' ')
+  )
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (name.startsWith('#')) {
+      const code =
+        name[1] === 'x' || name[1] === 'X'
+          ? parseInt(name.slice(2), 16)
+          : parseInt(name.slice(1), 10)
+      return Number.isNaN(code) ? entity : String.fromCodePoint(code)
+    }
+    return HTML_ENTITIES[name.toLowerCase()] ?? entity
+  })
+}
+
+/**
+ * Markdown without code blocks, link targets and markup characters
+ */
+function markdownToText(markdown: string): string {
+  return markdown
+    .replace(/^(```|~~~)[\s\S]*?^\1/gm, ' ')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[\[(?:[^\]|]*\|)?([^\]]*)\]\]/g, '$1')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/[*_`#>|~]/g, ' ')
+}
+
+function parseJsonDocument(key: string, document: JsonDocument): SearchDocument | null {
+  if (document.type === 'problem') {
+    const problem = (document as JsonDocument<'problem'>).data
+    return {
+      key,
+      type: 'problem',
+      slug: problem.titleSlug,
+      title: problem.title,
+      frontendId: problem.id,
+      difficulty: problem.difficulty,
+      tags: (problem.tags ?? []).map((tag) => normalizeTag(tag.slug)),
+      fields: {
+        title: problem.title,
+        statement: markdownToText(problem.content?.markdown ?? ''),
+        hints: (problem.hints ?? []).map(htmlToText).join('\n'),
+      },
+    }
+  }
+
+  if (document.type === 'editorial') {
+    const editorial = (document as JsonDocument<'editorial'>).data
+    const title = formatSlug(editorial.titleSlug)
+    return {
+      key,
+      type: 'editorial',
+      slug: editorial.titleSlug,
+      title,
+      tags: [],
+      fields: {
+        title,
+        approaches: [editorial.content, ...editorial.approaches, editorial.complexity]
+          .map((text) => markdownToText(text?.markdown ?? ''))
+          .join('\n'),
+      },
+    }
+  }
+
+  if (document.type === 'discussion') {
+    const list = (document as JsonDocument<'discussion'>).data
+    const title = formatSlug(list.titleSlug)
+    return {
+      key,
+      type: 'discussion',
+      slug: list.titleSlug,
+      title,
+      tags: [],
+      fields: {
+        title,
+        discussions: list.discussions
+          .map((discussion) =>
+            [
+              discussion.title,
+              markdownToText(discussion.content.markdown),
+              ...discussion.comments.map((comment) => htmlToText(comment.content)),
+            ].join('\n')
+          )
+          .join('\n\n'),
+      },
+    }
+  }
+
+  return null
+}
+
+function parseMarkdownNote(note: StoredNote): SearchDocument {
+  const { key, type, slug, frontendId, meta, body } = note
+
+  const heading = /^# (.+)$/m.exec(body)?.[1]?.trim()
+  // The document title is indexed as the title field, not as body text
+  const text = body.replace(/^# .+$/m, '')
+  const title =
+    type === 'problem' ? (asString(meta.title) ?? heading ?? formatSlug(slug)) : formatSlug(slug)
+
+  // The text before the first section belongs to the note itself;
+  // bundled sections are filed under their own field
+  const ownField: SearchField =
+    type === 'problem' ? 'statement' : type === 'editorial' ? 'approaches' : 'discussions'
+  const fields: Partial<Record<SearchField, string>> = { title }
+  for (const section of splitSections(text)) {
+    const field = (type === 'problem' && getSectionField(section.heading)) || ownField
+    const text = markdownToText(section.text)
+    fields[field] = fields[field] ? `${fields[field]}\n\n${text}` : text
+  }
+
+  const difficulty =
+    asDifficulty(meta.difficulty) ??
+    asDifficulty(/\*\*Difficulty:\*\*.*?\b(Easy|Medium|Hard)\b/.exec(body)?.[1])
+  const tagLine = /^\*\*Tags:\*\*(.*)$/m.exec(body)?.[1]
+  const tags =
+    type !== 'problem'
+      ? []
+      : Array.isArray(meta.tags)
+        ? asStringList(meta.tags).map(normalizeTag)
+        : [...(tagLine ?? '').matchAll(/`([^`]+)`/g)].map(([, tag]) => normalizeTag(tag ?? ''))
+
+  return {
+    key,
+    type,
+    slug,
+    title,
+    ...(frontendId ? { frontendId } : {}),
+    ...(difficulty ? { difficulty } : {}),
+    tags,
+    fields,
+  }
+}
+
+function getSectionField(heading: string): SearchField | undefined {
+  if (/^hints?\b/i.test(heading)) return 'hints'
+  if (/^(editorial|solution|approach)/i.test(heading)) return 'approaches'
+  if (/^discussions?\b/i.test(heading)) return 'discussions'
+  return undefined
+}
@@ -0,0 +1,413 @@
+import type { Difficulty, StorageAdapter } from '@lesca/shared/types'
+import { logger } from '@lesca/shared/utils'
+
+import {
+  createSnippet,
+  getDocumentText,
+  parseStoredDocument,
+  tokenize,
+  type SearchDocument,
+  type SearchDocumentType,
+  type SearchField,
+  type SnippetOptions,
+} from './search-documents'
+import { listStoredNoteKeys, normalizeTag } from './stored-notes'
+
+/**
+ * Storage key of the search index
+ * Dot directories are hidden from `list()`, so the index is never indexed or exported itself.
+ */
+export const SEARCH_INDEX_KEY = '.lesca/search-index.json'
+
+/**
+ * Version of the stored index layout
+ * Stored indexes with another version are discarded and must be rebuilt.
+ */
+export const SEARCH_INDEX_VERSION = 1
+
+/**
+ * Weight of a term occurrence in each field
+ */
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 4,
+  hints: 1.5,
+  statement: 1,
+  approaches: 1,
+  discussions: 0.5,
+}
+
+/**
+ * Delay before a scheduled save is written
+ * Saves scheduled in the meantime are written with it, so a batch writes the
+ * index at most once per delay instead of after every note.
+ */
+export const SEARCH_INDEX_SAVE_DELAY_MS = 30_000
+
+// BM25 parameters
+const K1 = 1.2
+const B = 0.75
+
+/**
+ * Filters for `SearchIndex.search`
+ */
+export interface SearchOptions {
+  /** Maximum number of hits (default: 10) */
+  limit?: number
+  difficulty?: Difficulty
+  /** Tag names or slugs; hits must have all of them */
+  tags?: string[]
+  type?: SearchDocumentType
+}
+
+/**
+ * A ranked search result
+ * Editorials and discussions report the difficulty and tags of their problem.
+ */
+export interface SearchHit {
+  key: string
+  type: SearchDocumentType
+  slug: string
+  title: string
+  frontendId?: string
+  difficulty?: Difficulty
+  tags: string[]
+  score: number
+}
+
+interface IndexedDocument extends Omit<SearchDocument, 'fields'> {
+  id: number
+  /** Sum of weighted term frequencies */
+  length: number
+}
+
+interface SerializedSearchIndex {
+  version: typeof SEARCH_INDEX_VERSION
+  documents: IndexedDocument[]
+  /** Term -> [document id, weighted term frequency] */
+  postings: Array<[string, Array<[number, number]>]>
+}
+
+/**
+ * Inverted index over the notes in a storage adapter
+ *
+ * Problem statements, hints, editorial approaches and discussions are ranked
+ * with BM25, weighting title matches highest. The index is saved under
+ * `SEARCH_INDEX_KEY` in the same storage, so searching needs no network
+ * access. The scraper keeps it current (see the `searchIndex` option of
+ * `LeetCodeScraper`) and schedules saves, so callers `flush()` when they are
+ * done; `rebuild()` indexes notes saved before that.
+ */
+export class SearchIndex {
+  private documents = new Map<number, IndexedDocument>()
+  private ids = new Map<string, number>()
+  private postings = new Map<string, Map<number, number>>()
+  /** Terms of each document, so removing one only touches its own postings */
+  private terms = new Map<number, string[]>()
+  private nextId = 1
+  private totalLength = 0
+  private saving: Promise<void> | undefined
+  private dirty = false
+  private saveTimer: ReturnType<typeof setTimeout> | undefined
+
+  constructor(private readonly storage: StorageAdapter) {}
+
+  /**
+   * Load the index saved in storage
+   * A missing, unreadable or outdated index loads as an empty one.
+   */
+  static async load(storage: StorageAdapter): Promise<SearchIndex> {
+    const index = new SearchIndex(storage)
+    const content = await storage.load(SEARCH_INDEX_KEY)
+    if (content === null) {
+      return index
+    }
+
+    let serialized: Partial<SerializedSearchIndex> | null = null
+    try {
+      serialized = JSON.parse(content) as Partial<SerializedSearchIndex>
+    } catch {
+      // Reported below
+    }
+    if (
+      serialized?.version !== SEARCH_INDEX_VERSION ||
+      !Array.isArray(serialized.documents) ||
+      !Array.isArray(serialized.postings)
+    ) {
+      logger.warn('Search index is unreadable or outdated; rebuild it with lesca search --reindex')
+      return index
+    }
+
+    for (const document of serialized.documents) {
+      index.documents.set(document.id, document)
+      index.ids.set(document.key, document.id)
+      index.totalLength += document.length
+      index.nextId = Math.max(index.nextId, document.id + 1)
+    }
+    for (const [term, entries] of serialized.postings) {
+      index.postings.set(term, new Map(entries))
+      for (const [id] of entries) {
+        const terms = index.terms.get(id)
+        if (terms) {
+          terms.push(term)
+        } else {
+          index.terms.set(id, [term])
+        }
+      }
+    }
+    return index
+  }
+
+  /**
+   * Number of indexed notes
+   */
+  get size(): number {
+    return this.documents.size
+  }
+
+  /**
+   * Check whether a storage key is indexed
+   */
+  has(key: string): boolean {
+    return this.ids.has(key)
+  }
+
+  /**
+   * Add a note, replacing what was indexed for its key
+   */
+  update(document: SearchDocument): void {
+    this.remove(document.key)
+
+    const frequencies = new Map<string, number>()
+    for (const [field, text] of Object.entries(document.fields) as Array<[SearchField, string]>) {
+      const weight = FIELD_WEIGHTS[field]
+      for (const term of tokenize(text)) {
+        frequencies.set(term, (frequencies.get(term) ?? 0) + weight)
+      }
+    }
+
+    const id = this.nextId++
+    let length = 0
+    for (const [term, frequency] of frequencies) {
+      let postings = this.postings.get(term)
+      if (!postings) {
+        postings = new Map()
+        this.postings.set(term, postings)
+      }
+      postings.set(id, frequency)
+      length += frequency
+    }
+    this.terms.set(id, [...frequencies.keys()])
+
+    this.documents.set(id, {
+      id,
+      key: document.key,
+      type: document.type,
+      slug: document.slug,
+      title: document.title,
+      ...(document.frontendId ? { frontendId: document.frontendId } : {}),
+      ...(document.difficulty ? { difficulty: document.difficulty } : {}),
+      tags: document.tags,
+      length,
+    })
+    this.ids.set(document.key, id)
+    this.totalLength += length
+  }
+
+  /**
+   * Remove a note from the index
+   * @returns Whether the key was indexed
+   */
+  remove(key: string): boolean {
+    const id = this.ids.get(key)
+    const document = id !== undefined ? this.documents.get(id) : undefined
+    if (id === undefined || !document) {
+      return false
+    }
+
+    for (const term of this.terms.get(id) ?? []) {
+      const postings = this.postings.get(term)
+      if (postings?.delete(id) && postings.size === 0) {
+        this.postings.delete(term)
+      }
+    }
+    this.terms.delete(id)
+    this.documents.delete(id)
+    this.ids.delete(key)
+    this.totalLength -= document.length
+    return true
+  }
+
+  /**
+   * Find notes containing every term of a query, best matches first
+   */
+  search(query: string, options: SearchOptions = {}): SearchHit[] {
+    const terms = [...new Set(tokenize(query))]
+    const lists = terms.map((term) => this.postings.get(term))
+    if (terms.length === 0 || lists.some((postings) => !postings)) {
+      return []
+    }
+
+    const count = this.documents.size
+    const averageLength = this.totalLength / Math.max(count, 1)
+    const scores = new Map<number, number>()
+    // Walk the rarest term first, so later terms only narrow the candidates
+    const sorted = (lists as Array<Map<number, number>>).sort((a, b) => a.size - b.size)
+    sorted.forEach((postings, position) => {
+      const idf = Math.log(1 + (count - postings.size + 0.5) / (postings.size + 0.5))
+      const candidates = position === 0 ? postings.keys() : [...scores.keys()]
+      for (const id of candidates) {
+        const frequency = postings.get(id)
+        const length = this.documents.get(id)?.length ?? 0
+        if (frequency === undefined) {
+          scores.delete(id)
+          continue
+        }
+        const score =
+          (idf * frequency * (K1 + 1)) /
+          (frequency + K1 * (1 - B + (B * length) / Math.max(averageLength, 1)))
+        scores.set(id, (scores.get(id) ?? 0) + score)
+      }
+    })
+
+    const problems = this.getProblemsBySlug()
+    const tags = (options.tags ?? []).map(normalizeTag).filter(Boolean)
+    const hits: SearchHit[] = []
+    for (const [id, score] of scores) {
+      const document = this.documents.get(id)
+      if (!document) continue
+      const hit = toHit(document, score, problems.get(document.slug))
+
+      if (options.type && hit.type !== options.type) continue
+      if (options.difficulty && hit.difficulty !== options.difficulty) continue
+      if (!tags.every((tag) => hit.tags.includes(tag))) continue
+      hits.push(hit)
+    }
+
+    return hits
+      .sort((a, b) => b.score - a.score || a.key.localeCompare(b.key))
+      .slice(0, options.limit ?? 10)
+  }
+
+  /**
+   * Cut a passage with the query terms from a stored note
+   * @returns undefined if the note is no longer in storage
+   */
+  async getSnippet(
+    key: string,
+    query: string,
+    options: SnippetOptions = {}
+  ): Promise<string | undefined> {
+    const content = await this.storage.load(key)
+    const document = content !== null ? parseStoredDocument(key, content) : null
+    if (!document) {
+      return undefined
+    }
+    return createSnippet(getDocumentText(document), tokenize(query), options)
+  }
+
+  /**
+   * Index every note in storage from scratch and save the index
+   * @param onProgress - Called after each stored key is read
+   * @returns Number of indexed notes
+   */
+  async rebuild(onProgress?: (done: number, total: number) => void): Promise<number> {
+    this.documents.clear()
+    this.ids.clear()
+    this.postings.clear()
+    this.terms.clear()
+    this.totalLength = 0
+    this.nextId = 1
+
+    const keys = await listStoredNoteKeys(this.storage)
+    for (const [position, key] of keys.entries()) {
+      const content = await this.storage.load(key)
+      const document = content !== null ? parseStoredDocument(key, content) : null
+      if (document) {
+        this.update(document)
+      }
+      onProgress?.(position + 1, keys.length)
+    }
+
+    await this.save()
+    return this.documents.size
+  }
+
+  /**
+   * Write the index to storage after `SEARCH_INDEX_SAVE_DELAY_MS`
+   * Saves scheduled before then are combined into that write. The timer does
+   * not keep the process alive; call `flush()` to write pending changes.
+   */
+  scheduleSave(delayMs = SEARCH_INDEX_SAVE_DELAY_MS): void {
+    this.saveTimer ??= setTimeout(() => {
+      this.save().catch((error: unknown) => {
+        logger.warn(
+          `Failed to save the search index: ${error instanceof Error ? error.message : String(error)}`
+        )
+      })
+    }, delayMs)
+    this.saveTimer.unref()
+  }
+
+  /**
+   * Write scheduled changes now and wait for running writes
+   */
+  async flush(): Promise<void> {
+    if (this.saveTimer) {
+      await this.save()
+    }
+    await this.saving
+  }
+
+  /**
+   * Write the index to storage
+   * Saves requested while a write is running are combined into one more write.
+   */
+  async save(): Promise<void> {
+    clearTimeout(this.saveTimer)
+    this.saveTimer = undefined
+    this.dirty = true
+    this.saving ??= (async () => {
+      try {
+        while (this.dirty) {
+          this.dirty = false
+          await this.storage.save(SEARCH_INDEX_KEY, JSON.stringify(this.serialize()))
+        }
+      } finally {
+        this.saving = undefined
+      }
+    })()
+    return this.saving
+  }
+
+  private serialize(): SerializedSearchIndex {
+    return {
+      version: SEARCH_INDEX_VERSION,
+      documents: [...this.documents.values()],
+      postings: [...this.postings].map(([term, postings]) => [term, [...postings]]),
+    }
+  }
+
+  private getProblemsBySlug(): Map<string, IndexedDocument> {
+    const problems = new Map<string, IndexedDocument>()
+    for (const document of this.documents.values()) {
+      if (document.type === 'problem') {
+        problems.set(document.slug, document)
+      }
+    }
+    return problems
+  }
+}
+
+function toHit(document: IndexedDocument, score: number, problem?: IndexedDocument): SearchHit {
+  const source = document.type === 'problem' ? document : (problem ?? document)
+  return {
+    key: document.key,
+    type: document.type,
+    slug: document.slug,
+    title: source.title,
+    ...(source.frontendId ? { frontendId: source.frontendId } : {}),
+    ...(source.difficulty ? { difficulty: source.difficulty } : {}),
+    tags: source.tags,
+    score,
+  }
+}
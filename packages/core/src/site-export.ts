@@ -0,0 +1,755 @@
+import { posix } from 'path'
+
+import {
+  DiscussionConverter,
+  EditorialConverter,
+  EnhancementManager,
+  type JsonDiscussions,
+  type JsonEditorial,
+  type JsonProblem,
+} from '@lesca/converters'
+import type { Problem, StorageAdapter } from '@lesca/shared/types'
+
+import { escapeHtml, markdownToHtml, resolveImageKey, rewriteImageSources } from './markdown-html'
+import {
+  formatSlug,
+  listStoredNoteKeys,
+  readJsonDocument,
+  readStoredNote,
+  readStoredProblem,
+  type StoredProblem,
+} from './stored-notes'
+
+/**
+ * Options for `SiteBuilder`
+ */
+export interface SiteOptions {
+  /** Site name shown in the header and page titles (default: LeetCode Notes) */
+  title?: string
+}
+
+/**
+ * A file of the generated site
+ */
+export interface SiteFile {
+  /** Path relative to the site directory */
+  path: string
+  content: string | Uint8Array
+}
+
+/**
+ * Static HTML site built from storage
+ */
+export interface StaticSite {
+  /** Files ordered by path */
+  files: SiteFile[]
+  problems: number
+  editorials: number
+  discussions: number
+}
+
+/**
+ * Markdown of a stored note, with the key its links are relative to
+ */
+interface SiteNote {
+  key: string
+  slug: string
+  markdown: string
+}
+
+interface SiteProblem extends SiteNote {
+  problem: StoredProblem
+  /** Titles of the similar questions, known for JSON documents only */
+  similarTitles: Record<string, string>
+}
+
+type PageKind = 'problem' | 'editorial' | 'discussions'
+
+/** Pinned so the generated pages keep rendering the same way */
+const KATEX_URL = 'https://cdn.jsdelivr.net/npm/katex@0.16.9/dist'
+const HIGHLIGHT_URL = 'https://cdn.jsdelivr.net/npm/@highlightjs/cdn-assets@11.9.0'
+
+/**
+ * CDN files loaded by every page, with the SRI hashes of the pinned npm releases
+ * so the browser refuses a file the CDN serves modified
+ */
+const CDN_STYLESHEETS = [
+  {
+    href: `${KATEX_URL}/katex.min.css`,
+    integrity: 'sha384-n8MVd4RsNIU0tAv4ct0nTaAbDJwPJzDEaqSD1odI+WdtXRGWt2kTvGFasHpSy3SV',
+  },
+  {
+    href: `${HIGHLIGHT_URL}/styles/github.min.css`,
+    integrity: 'sha384-eFTL69TLRZTkNfYZOLM+G04821K1qZao/4QLJbet1pP4tcF+fdXq/9CdqAbWRl/L',
+  },
+]
+const CDN_SCRIPTS = [
+  {
+    src: `${KATEX_URL}/katex.min.js`,
+    integrity: 'sha384-XjKyOOlGwcjNTAIQHIpgOno0Hl1YQqzUOEleOLALmuqehneUG+vnGctmUb0ZY0l8',
+  },
+  {
+    src: `${KATEX_URL}/contrib/auto-render.min.js`,
+    integrity: 'sha384-+VBxd3r6XgURycqtZ117nYw44OOcIax56Z4dCRWbxyPt0Koah1uHoK0o4+/RRE05',
+  },
+  {
+    src: `${HIGHLIGHT_URL}/highlight.min.js`,
+    integrity: 'sha384-F/bZzf7p3Joyp5psL90p/p89AZJsndkSoGwRpXcZhleCWhd8SnRuoYo4d0yirjJp',
+  },
+]
+
+const DIFFICULTIES = ['Easy', 'Medium', 'Hard'] as const
+
+/**
+ * Builds a static HTML site from the problems, editorials and discussions in storage
+ *
+ * Pages are rendered from the same Markdown as the notes: Markdown notes are
+ * used as stored, and JSON documents go through the converters and enhancers
+ * that write the notes. Problems get tag, company and difficulty index pages,
+ * and similar-problem and wiki links point to the pages of scraped problems
+ * (or to LeetCode for the others). Search runs in the browser from a
+ * generated index; code is highlighted with highlight.js and math rendered
+ * with KaTeX, both loaded from a CDN with pinned integrity hashes, so
+ * highlighting and math need network access when the site is viewed. Images stored next to the notes are
+ * copied into the site.
+ */
+export class SiteBuilder {
+  private readonly title: string
+
+  constructor(
+    private readonly storage: StorageAdapter,
+    options: SiteOptions = {}
+  ) {
+    this.title = options.title ?? 'LeetCode Notes'
+  }
+
+  /**
+   * Read the stored notes and render the site
+   * @param onProgress - Called after each stored key is read
+   */
+  async build(onProgress?: (done: number, total: number) => void): Promise<StaticSite> {
+    const problems = new Map<string, SiteProblem>()
+    const notes: Record<Exclude<PageKind, 'problem'>, Map<string, SiteNote>> = {
+      editorial: new Map(),
+      discussions: new Map(),
+    }
+
+    const keys = (await listStoredNoteKeys(this.storage)).sort()
+    for (const [position, key] of keys.entries()) {
+      const content = await this.storage.load(key)
+      if (content !== null) {
+        await this.readKey(key, content, problems, notes)
+      }
+      onProgress?.(position + 1, keys.length)
+    }
+
+    const sorted = [...problems.values()].sort(compareProblems)
+    return new SiteRenderer(this.storage, this.title, sorted, notes).render()
+  }
+
+  /**
+   * Collect the problem, editorial or discussions stored under a key
+   * Folder bundles and mixed formats can store a note twice; the first is kept.
+   */
+  private async readKey(
+    key: string,
+    content: string,
+    problems: Map<string, SiteProblem>,
+    notes: Record<Exclude<PageKind, 'problem'>, Map<string, SiteNote>>
+  ): Promise<void> {
+    const document = readJsonDocument(key, content)
+    if (document) {
+      const problem = readStoredProblem(key, content)
+      if (problem && !problems.has(problem.slug)) {
+        const data = document.data as JsonProblem
+        problems.set(problem.slug, {
+          key,
+          slug: problem.slug,
+          problem,
+          markdown: new EnhancementManager().enhance(
+            `# ${problem.title}\n\n${data.content.markdown}`,
+            { type: 'problem', data: toProblem(data), metadata: { scrapedAt: new Date() } }
+          ),
+          similarTitles: Object.fromEntries(
+            (data.similarQuestions ?? []).map((question) => [question.titleSlug, question.title])
+          ),
+        })
+      } else if (document.type === 'editorial') {
+        const editorial = document.data as JsonEditorial
+        if (!notes.editorial.has(editorial.titleSlug)) {
+          notes.editorial.set(editorial.titleSlug, {
+            key,
+            slug: editorial.titleSlug,
+            markdown: await new EditorialConverter().convert({
+              titleSlug: editorial.titleSlug,
+              content: editorial.content.html,
+              approaches: editorial.approaches.map((approach) => approach.html),
+              complexity: editorial.complexity?.html ?? null,
+              codeSnippets: editorial.codeSnippets,
+            }),
+          })
+        }
+      } else if (document.type === 'discussion') {
+        const list = document.data as JsonDiscussions
+        if (!notes.discussions.has(list.titleSlug)) {
+          notes.discussions.set(list.titleSlug, {
+            key,
+            slug: list.titleSlug,
+            markdown: await new DiscussionConverter().convert({
+              ...list,
+              discussions: list.discussions.map((discussion) => ({
+                ...discussion,
+                content: discussion.content.html,
+              })),
+            }),
+          })
+        }
+      }
+      return
+    }
+
+    const note = readStoredNote(key, content)
+    if (!note) {
+      return
+    }
+    // Folder bundles link their notes to each other; the pages have their own links
+    const markdown = note.body.replace(/^> Related: .*\n+/m, '')
+    if (note.type === 'problem') {
+      const problem = readStoredProblem(key, content)
+      if (problem && !problems.has(problem.slug)) {
+        problems.set(problem.slug, {
+          key,
+          slug: problem.slug,
+          problem,
+          markdown,
+          similarTitles: {},
+        })
+      }
+      return
+    }
+    const kind = note.type === 'editorial' ? 'editorial' : 'discussions'
+    if (!notes[kind].has(note.slug)) {
+      notes[kind].set(note.slug, { key, slug: note.slug, markdown })
+    }
+  }
+}
+
+/**
+ * Renders the pages of one site build
+ */
+class SiteRenderer {
+  private readonly files = new Map<string, string | Uint8Array>()
+  /** Page of each stored note, by storage key */
+  private readonly pagesByKey = new Map<string, string>()
+  /** Problem slug by note name, for wiki links such as `[[1-two-sum]]` */
+  private readonly slugsByName = new Map<string, string>()
+  private readonly problemsBySlug: Map<string, SiteProblem>
+  private readonly tagNames: Record<string, string> = {}
+  private readonly companyNames: Record<string, string> = {}
+
+  constructor(
+    private readonly storage: StorageAdapter,
+    private readonly title: string,
+    private readonly problems: SiteProblem[],
+    private readonly notes: Record<Exclude<PageKind, 'problem'>, Map<string, SiteNote>>
+  ) {
+    this.problemsBySlug = new Map(problems.map((problem) => [problem.slug, problem]))
+    for (const problem of problems) {
+      this.pagesByKey.set(problem.key, getPagePath(problem.slug, 'problem'))
+      this.slugsByName.set(posix.basename(problem.key, posix.extname(problem.key)), problem.slug)
+      Object.assign(this.tagNames, problem.problem.tagNames)
+      Object.assign(this.companyNames, problem.problem.companyNames)
+    }
+    for (const kind of ['editorial', 'discussions'] as const) {
+      for (const note of notes[kind].values()) {
+        this.pagesByKey.set(note.key, getPagePath(note.slug, kind))
+      }
+    }
+  }
+
+  async render(): Promise<StaticSite> {
+    const search: SearchEntry[] = []
+
+    for (const problem of this.problems) {
+      const path = getPagePath(problem.slug, 'problem')
+      const body = await this.renderNote(problem, path, this.getSimilarMarkdown(problem))
+      this.addPage(path, problem.problem.title, this.renderProblemMeta(problem, path) + body)
+      search.push(this.toSearchEntry(problem, path, body))
+    }
+    for (const kind of ['editorial', 'discussions'] as const) {
+      for (const note of this.notes[kind].values()) {
+        const path = getPagePath(note.slug, kind)
+        const problem = this.problemsBySlug.get(note.slug)
+        const title = `${kind === 'editorial' ? 'Editorial' : 'Discussions'}: ${
+          problem?.problem.title ?? formatSlug(note.slug)
+        }`
+        const back = problem
+          ? `<a href="${escapeHtml(relativeLink(path, getPagePath(note.slug, 'problem')))}">Problem</a>`
+          : `<a href="${escapeHtml(getLeetCodeUrl(note.slug))}">LeetCode</a>`
+        this.addPage(
+          path,
+          title,
+          `<nav class="meta">${back}</nav>\n${await this.renderNote(note, path)}`
+        )
+      }
+    }
+
+    this.addIndexPages()
+    this.files.set('assets/style.css', SITE_CSS)
+    this.files.set('assets/site.js', SITE_SCRIPT)
+    this.files.set('assets/search-data.js', `window.LESCA_SEARCH = ${JSON.stringify(search)}\n`)
+
+    return {
+      files: [...this.files.entries()]
+        .map(([path, content]) => ({ path, content }))
+        .sort((a, b) => a.path.localeCompare(b.path)),
+      problems: this.problems.length,
+      editorials: this.notes.editorial.size,
+      discussions: this.notes.discussions.size,
+    }
+  }
+
+  /**
+   * Render a note, linking problems to their pages and copying its images
+   */
+  private async renderNote(note: SiteNote, path: string, extra = ''): Promise<string> {
+    const html = markdownToHtml(note.markdown + extra, {
+      link: (href) => this.resolveLink(note.key, path, href),
+      wikiLink: (target, label) => {
+        const slug = this.slugsByName.get(target) ?? target
+        return `<a href="${escapeHtml(this.getProblemLink(path, slug))}">${escapeHtml(label)}</a>`
+      },
+    })
+
+    const content = await rewriteImageSources(html, async (src) => {
+      const imageKey = resolveImageKey(note.key, src)
+      if (!imageKey) {
+        return null
+      }
+      const filePath = `files/${imageKey}`
+      if (!this.files.has(filePath)) {
+        const data = await this.storage.loadBinary?.(imageKey)
+        if (!data) {
+          return null
+        }
+        this.files.set(filePath, data)
+      }
+      return encodeURI(relativeLink(path, filePath))
+    })
+    return `<article>\n${content}\n</article>`
+  }
+
+  /**
+   * Similar problems for notes that do not list them (plain Markdown and JSON)
+   */
+  private getSimilarMarkdown(problem: SiteProblem): string {
+    if (problem.problem.similar.length === 0 || /^## Similar Problems/m.test(problem.markdown)) {
+      return ''
+    }
+    const links = problem.problem.similar.map((slug) => {
+      const title =
+        this.problemsBySlug.get(slug)?.problem.title ??
+        problem.similarTitles[slug] ??
+        formatSlug(slug)
+      return `- [[${slug}|${title}]]`
+    })
+    return `\n\n## Similar Problems\n\n${links.join('\n')}\n`
+  }
+
+  private renderProblemMeta(problem: SiteProblem, path: string): string {
+    const { slug, difficulty, tags, companies } = problem.problem
+    const links: string[] = []
+    if (difficulty) {
+      links.push(
+        `<a class="difficulty ${difficulty.toLowerCase()}" href="${relativeLink(path, getIndexPath('difficulty', difficulty.toLowerCase()))}">${difficulty}</a>`
+      )
+    }
+    for (const tag of tags) {
+      links.push(
+        `<a class="tag" href="${escapeHtml(relativeLink(path, getIndexPath('tags', tag)))}">${escapeHtml(this.getTagName(tag))}</a>`
+      )
+    }
+    for (const company of companies) {
+      links.push(
+        `<a class="company" href="${escapeHtml(relativeLink(path, getIndexPath('companies', company)))}">${escapeHtml(this.getCompanyName(company))}</a>`
+      )
+    }
+    for (const kind of ['editorial', 'discussions'] as const) {
+      if (this.notes[kind].has(slug)) {
+        links.push(
+          `<a href="${escapeHtml(relativeLink(path, getPagePath(slug, kind)))}">${kind === 'editorial' ? 'Editorial' : 'Discussions'}</a>`
+        )
+      }
+    }
+    links.push(`<a href="${escapeHtml(getLeetCodeUrl(slug))}">LeetCode</a>`)
+    return `<nav class="meta">${links.join(' ')}</nav>\n`
+  }
+
+  private addIndexPages(): void {
+    this.addPage(
+      'index.html',
+      this.title,
+      `<h1>${escapeHtml(this.title)}</h1>\n<p>${this.problems.length} problems, ${this.notes.editorial.size} editorials, ${this.notes.discussions.size} discussions</p>\n${this.renderProblemTable(this.problems, 'index.html')}`
+    )
+
+    for (const difficulty of DIFFICULTIES) {
+      const path = getIndexPath('difficulty', difficulty.toLowerCase())
+      const problems = this.problems.filter((problem) => problem.problem.difficulty === difficulty)
+      this.addPage(
+        path,
+        difficulty,
+        `<h1>${difficulty}</h1>\n${this.renderProblemTable(problems, path)}`
+      )
+    }
+
+    for (const group of ['tags', 'companies'] as const) {
+      const members = new Map<string, SiteProblem[]>()
+      for (const problem of this.problems) {
+        for (const slug of problem.problem[group]) {
+          members.set(slug, [...(members.get(slug) ?? []), problem])
+        }
+      }
+      const getName = (slug: string) =>
+        group === 'tags' ? this.getTagName(slug) : this.getCompanyName(slug)
+      const heading = group === 'tags' ? 'Tags' : 'Companies'
+
+      const entries = [...members.entries()].sort(
+        ([a, problemsA], [b, problemsB]) =>
+          problemsB.length - problemsA.length || getName(a).localeCompare(getName(b))
+      )
+      const indexPath = `${group}/index.html`
+      const items = entries.map(
+        ([slug, problems]) =>
+          `<li><a href="${escapeHtml(relativeLink(indexPath, getIndexPath(group, slug)))}">${escapeHtml(getName(slug))}</a> <span class="count">${problems.length}</span></li>`
+      )
+      this.addPage(
+        indexPath,
+        heading,
+        `<h1>${heading}</h1>\n<ul class="index">${items.join('\n')}</ul>`
+      )
+
+      for (const [slug, problems] of entries) {
+        const path = getIndexPath(group, slug)
+        this.addPage(
+          path,
+          getName(slug),
+          `<h1>${escapeHtml(getName(slug))}</h1>\n${this.renderProblemTable(problems, path)}`
+        )
+      }
+    }
+  }
+
+  private renderProblemTable(problems: SiteProblem[], path: string): string {
+    if (problems.length === 0) {
+      return '<p>No problems.</p>'
+    }
+    const rows = problems.map(({ slug, problem }) => {
+      const tags = problem.tags
+        .map(
+          (tag) =>
+            `<a class="tag" href="${escapeHtml(relativeLink(path, getIndexPath('tags', tag)))}">${escapeHtml(this.getTagName(tag))}</a>`
+        )
+        .join(' ')
+      return [
+        '<tr>',
+        `<td>${escapeHtml(problem.frontendId ?? '')}</td>`,
+        `<td><a href="${escapeHtml(relativeLink(path, getPagePath(slug, 'problem')))}">${escapeHtml(problem.title)}</a></td>`,
+        `<td class="difficulty ${(problem.difficulty ?? '').toLowerCase()}">${problem.difficulty ?? ''}</td>`,
+        `<td>${tags}</td>`,
+        '</tr>',
+      ].join('')
+    })
+    return `<table class="problems">\n<thead><tr><th>#</th><th>Title</th><th>Difficulty</th><th>Tags</th></tr></thead>\n<tbody>\n${rows.join('\n')}\n</tbody>\n</table>`
+  }
+
+  private toSearchEntry(problem: SiteProblem, path: string, html: string): SearchEntry {
+    return {
+      id: problem.problem.frontendId ?? '',
+      title: problem.problem.title,
+      url: path,
+      difficulty: problem.problem.difficulty ?? '',
+      tags: problem.problem.tags.map((tag) => this.getTagName(tag)),
+      companies: problem.problem.companies.map((company) => this.getCompanyName(company)),
+      text: htmlToText(html).slice(0, 2000),
+    }
+  }
+
+  /**
+   * Point links to LeetCode problems and to stored notes at their pages
+   */
+  private resolveLink(key: string, path: string, href: string): string {
+    const problem = /^(?:https:\/\/leetcode\.com)?\/problems\/([\w-]+)\/?$/.exec(href)
+    if (problem?.[1]) {
+      return this.getProblemLink(path, problem[1])
+    }
+    if (/^[a-z][a-z\d+.-]*:|^[/#]/i.test(href)) {
+      return href
+    }
+
+    const [target = '', anchor] = href.split('#')
+    try {
+      const page = this.pagesByKey.get(
+        posix.normalize(posix.join(posix.dirname(key), decodeURI(target)))
+      )
+      return page ? relativeLink(path, page) + (anchor ? `#${anchor}` : '') : href
+    } catch {
+      return href
+    }
+  }
+
+  private getProblemLink(path: string, slug: string): string {
+    return this.problemsBySlug.has(slug)
+      ? relativeLink(path, getPagePath(slug, 'problem'))
+      : getLeetCodeUrl(slug)
+  }
+
+  private getTagName(slug: string): string {
+    return this.tagNames[slug] ?? formatSlug(slug)
+  }
+
+  private getCompanyName(slug: string): string {
+    return this.companyNames[slug] ?? formatSlug(slug)
+  }
+
+  private addPage(path: string, title: string, body: string): void {
+    this.files.set(path, renderLayout(this.title, path, title, body))
+  }
+}
+
+/**
+ * Problem of the client-side search index
+ */
+interface SearchEntry {
+  id: string
+  title: string
+  /** Page path relative to the site root */
+  url: string
+  difficulty: string
+  tags: string[]
+  companies: string[]
+  /** Start of the page text */
+  text: string
+}
+
+function renderLayout(site: string, path: string, title: string, body: string): string {
+  const root = relativeLink(path, '')
+  const pageTitle = title === site ? escapeHtml(site) : `${escapeHtml(title)} · ${escapeHtml(site)}`
+  const nav = [
+    ...DIFFICULTIES.map(
+      (difficulty) =>
+        `<a href="${root}${getIndexPath('difficulty', difficulty.toLowerCase())}">${difficulty}</a>`
+    ),
+    `<a href="${root}tags/index.html">Tags</a>`,
+    `<a href="${root}companies/index.html">Companies</a>`,
+  ]
+
+  const stylesheets = CDN_STYLESHEETS.map(
+    ({ href, integrity }) =>
+      `<link rel="stylesheet" href="${href}" integrity="${integrity}" crossorigin="anonymous">`
+  ).join('\n')
+  const scripts = CDN_SCRIPTS.map(
+    ({ src, integrity }) =>
+      `<script defer src="${src}" integrity="${integrity}" crossorigin="anonymous"></script>`
+  ).join('\n')
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${pageTitle}</title>
+${stylesheets}
+<link rel="stylesheet" href="${root}assets/style.css">
+${scripts}
+<script defer src="${root}assets/search-data.js"></script>
+<script defer src="${root}assets/site.js"></script>
+</head>
+<body data-root="${root}">
+<header>
+<a class="site-title" href="${root}index.html">${escapeHtml(site)}</a>
+<nav>${nav.join(' ')}</nav>
+<div class="search">
+<input id="search" type="search" placeholder="Search problems" autocomplete="off">
+<ul id="search-results" hidden></ul>
+</div>
+</header>
+<main>
+${body}
+</main>
+</body>
+</html>
+`
+}
+
+function getPagePath(slug: string, kind: PageKind): string {
+  const name = toFileName(slug)
+  return `problems/${kind === 'problem' ? name : `${name}-${kind}`}.html`
+}
+
+function getIndexPath(group: 'tags' | 'companies' | 'difficulty', slug: string): string {
+  return `${group}/${toFileName(slug)}.html`
+}
+
+function toFileName(slug: string): string {
+  return slug.toLowerCase().replace(/[^\w.-]+/g, '-')
+}
+
+/**
+ * Link from one page of the site to another path in it
+ */
+function relativeLink(from: string, to: string): string {
+  const link = posix.relative(posix.dirname(from), to || '.')
+  return to ? link : link ? `${link}/` : ''
+}
+
+function getLeetCodeUrl(slug: string): string {
+  return `https://leetcode.com/problems/${slug}/`
+}
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Problem for the enhancers, from a JSON document
+ */
+function toProblem(data: JsonProblem): Problem {
+  return {
+    questionId: data.questionId,
+    questionFrontendId: data.id,
+    title: data.title,
+    titleSlug: data.titleSlug,
+    likes: data.likes,
+    dislikes: data.dislikes,
+    quality: data.quality,
+    content: data.content.html,
+    difficulty: data.difficulty,
+    exampleTestcases: data.exampleTestcases,
+    hints: data.hints ?? [],
+    topicTags: data.tags ?? [],
+    // The JSON schema keeps companies as tags; the stats are not needed for the page
+    companyTagStats: null,
+    stats: JSON.stringify(data.stats),
+    codeSnippets: data.codeSnippets ?? [],
+    similarQuestions: JSON.stringify(data.similarQuestions ?? []),
+    solution: null,
+    mysqlSchemas: [],
+    dataSchemas: [],
+    isPaidOnly: data.isPaidOnly,
+  }
+}
+
+function compareProblems(a: SiteProblem, b: SiteProblem): number {
+  const idA = Number(a.problem.frontendId ?? Infinity)
+  const idB = Number(b.problem.frontendId ?? Infinity)
+  return (
+    (Number.isNaN(idA) ? Infinity : idA) - (Number.isNaN(idB) ? Infinity : idB) ||
+    a.slug.localeCompare(b.slug)
+  )
+}
+
+const SITE_CSS = `:root { --text: #1f2328; --muted: #656d76; --border: #d0d7de; --code: #f6f8fa; --link: #0969da; }
+* { box-sizing: border-box; }
+body { margin: 0; font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; line-height: 1.6; color: var(--text); }
+header { display: flex; flex-wrap: wrap; gap: 1rem; align-items: center; padding: 0.75rem 1.5rem; border-bottom: 1px solid var(--border); }
+header nav a { margin-right: 0.75rem; }
+.site-title { font-weight: bold; font-size: 1.2rem; color: var(--text); }
+.search { position: relative; margin-left: auto; }
+#search { width: 18rem; padding: 0.35rem 0.6rem; border: 1px solid var(--border); border-radius: 6px; font: inherit; }
+#search-results { position: absolute; right: 0; z-index: 10; width: 26rem; max-height: 70vh; overflow-y: auto; margin: 0.25rem 0 0; padding: 0.25rem 0; list-style: none; background: #fff; border: 1px solid var(--border); border-radius: 6px; box-shadow: 0 8px 24px rgba(0, 0, 0, 0.12); }
+#search-results li { display: flex; justify-content: space-between; gap: 0.5rem; padding: 0.3rem 0.75rem; }
+main { max-width: 60rem; margin: 0 auto; padding: 1.5rem; }
+a { color: var(--link); text-decoration: none; }
+a:hover { text-decoration: underline; }
+pre { padding: 0.75rem; overflow-x: auto; background: var(--code); border-radius: 6px; }
+code { font-family: ui-monospace, Menlo, Consolas, monospace; font-size: 0.9em; }
+pre code.hljs { padding: 0; background: none; }
+blockquote { margin: 1rem 0; padding: 0.25rem 1rem; color: var(--muted); border-left: 4px solid var(--border); }
+img { max-width: 100%; }
+table.problems { width: 100%; border-collapse: collapse; }
+table.problems th, table.problems td { padding: 0.4rem 0.6rem; text-align: left; border-bottom: 1px solid var(--border); }
+.meta { display: flex; flex-wrap: wrap; gap: 0.4rem; margin-bottom: 1rem; }
+.meta a, .tag { padding: 0 0.5rem; font-size: 0.85rem; background: var(--code); border-radius: 1rem; }
+.difficulty.easy { color: #1a7f37; }
+.difficulty.medium { color: #9a6700; }
+.difficulty.hard { color: #cf222e; }
+.index { columns: 3 14rem; }
+.count { color: var(--muted); font-size: 0.85rem; }
+`
+
+/**
+ * Search, highlighting and math, run once the deferred CDN scripts loaded
+ * Everything is optional so the pages still read fine offline.
+ */
+const SITE_SCRIPT = `(function () {
+  var input = document.getElementById('search')
+  var results = document.getElementById('search-results')
+  var root = document.body.getAttribute('data-root') || ''
+  var entries = window.LESCA_SEARCH || []
+
+  function search(query) {
+    var terms = query.toLowerCase().split(/\\s+/).filter(Boolean)
+    if (terms.length === 0) return []
+    var matches = []
+    entries.forEach(function (entry) {
+      var title = (entry.id ? entry.id + '. ' : '') + entry.title
+      var text = [title, entry.difficulty, entry.tags.join(' '), entry.companies.join(' '), entry.text]
+        .join(' ')
+        .toLowerCase()
+      if (!terms.every(function (term) { return text.indexOf(term) !== -1 })) return
+      var score = terms.filter(function (term) { return title.toLowerCase().indexOf(term) !== -1 }).length
+      matches.push({ entry: entry, title: title, score: score })
+    })
+    return matches.sort(function (a, b) { return b.score - a.score }).slice(0, 20)
+  }
+
+  if (input && results) {
+    input.addEventListener('input', function () {
+      var matches = search(input.value)
+      results.innerHTML = ''
+      matches.forEach(function (match) {
+        var item = document.createElement('li')
+        var link = document.createElement('a')
+        link.href = root + match.entry.url
+        link.textContent = match.title
+        var difficulty = document.createElement('span')
+        difficulty.className = 'difficulty ' + match.entry.difficulty.toLowerCase()
+        difficulty.textContent = match.entry.difficulty
+        item.appendChild(link)
+        item.appendChild(difficulty)
+        results.appendChild(item)
+      })
+      if (input.value.trim() && matches.length === 0) {
+        var empty = document.createElement('li')
+        empty.textContent = 'No matching problems'
+        results.appendChild(empty)
+      }
+      results.hidden = !input.value.trim()
+    })
+    input.addEventListener('keydown', function (event) {
+      var first = results.querySelector('a')
+      if (event.key === 'Enter' && first) window.location.href = first.href
+      if (event.key === 'Escape') results.hidden = true
+    })
+  }
+
+  if (window.hljs) window.hljs.highlightAll()
+  if (window.renderMathInElement) {
+    window.renderMathInElement(document.querySelector('main'), {
+      delimiters: [
+        { left: '$$', right: '$$', display: true },
+        { left: '$', right: '$', display: false },
+      ],
+      ignoredTags: ['script', 'noscript', 'style', 'textarea', 'pre', 'code'],
+      throwOnError: false,
+    })
+  }
+})()
+`
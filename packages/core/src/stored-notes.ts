@@ -0,0 +1,294 @@
+import { posix } from 'path'
+
+import { BundleConverter, type JsonDocument, type JsonProblem } from '@lesca/converters'
+import type { Difficulty, StorageAdapter } from '@lesca/shared/types'
+import { parse as parseYaml } from 'yaml'
+
+/**
+ * Kinds of scraped notes that are read back from storage
+ */
+export type StoredNoteType = 'problem' | 'editorial' | 'discussion'
+
+/**
+ * A Markdown note read back from storage
+ */
+export interface StoredNote {
+  key: string
+  type: StoredNoteType
+  slug: string
+  frontendId?: string
+  /** Parsed frontmatter (empty for plain Markdown notes) */
+  meta: Record<string, unknown>
+  /** Note without its frontmatter */
+  body: string
+}
+
+/**
+ * A problem read back from a JSON document or a Markdown note
+ */
+export interface StoredProblem {
+  key: string
+  slug: string
+  title: string
+  frontendId?: string
+  difficulty?: Difficulty
+  /** Topic tag slugs */
+  tags: string[]
+  /** Company slugs */
+  companies: string[]
+  /** Slugs of the similar questions */
+  similar: string[]
+  /** Quality score of the problem (0-100) */
+  quality?: number
+  /** Display names by slug, known for JSON documents only */
+  tagNames: Record<string, string>
+  companyNames: Record<string, string>
+}
+
+/**
+ * Keys of the notes in storage
+ * Dot entries (the search index, metadata files) are skipped, including on
+ * storage that lists them (SQLite).
+ */
+export async function listStoredNoteKeys(storage: StorageAdapter): Promise<string[]> {
+  return (await storage.list()).filter(
+    (key) => !key.split('/').some((segment) => segment.startsWith('.'))
+  )
+}
+
+/**
+ * Read a scraped Markdown note
+ * The type, slug and ID come from the frontmatter, or from the key for
+ * plain Markdown notes, e.g. `1-two-sum-editorial.md`.
+ * @returns null for notes that are not problems, editorials or discussions
+ *   (profiles, problem lists, generated notes with another `type`)
+ */
+export function readStoredNote(key: string, content: string): StoredNote | null {
+  if (posix.extname(key).toLowerCase() !== '.md' || key.startsWith('users/')) {
+    return null
+  }
+
+  const { frontmatter, body } = BundleConverter.splitFrontmatter(content.replace(/\r\n/g, '\n'))
+  const meta = parseFrontmatter(frontmatter)
+  const fromKey = parseKey(key)
+
+  let type: StoredNoteType | null = fromKey?.type ?? null
+  if (meta.type === 'editorial') {
+    type = 'editorial'
+  } else if (meta.type === 'discussion' || meta.type === 'discussions') {
+    type = 'discussion'
+  } else if (meta.type !== undefined) {
+    return null
+  }
+
+  const slug = asString(meta.titleSlug) ?? asString(meta.slug) ?? fromKey?.slug
+  if (!type || !slug) {
+    return null
+  }
+
+  const frontendId = asString(meta.frontend_id) ?? fromKey?.frontendId
+  return { key, type, slug, ...(frontendId ? { frontendId } : {}), meta, body }
+}
+
+/**
+ * Read the problem of a stored JSON document or Markdown note
+ * Tags, companies and similar questions come from JSON documents and
+ * Obsidian frontmatter; plain Markdown notes give the title and ID only.
+ * @returns null for editorials, discussions and other notes
+ */
+export function readStoredProblem(key: string, content: string): StoredProblem | null {
+  const document = readJsonDocument(key, content)
+  if (document) {
+    if (document.type !== 'problem') {
+      return null
+    }
+    const problem = document.data as JsonProblem
+    const tags = problem.tags ?? []
+    const companies = problem.companies ?? []
+    return {
+      key,
+      slug: problem.titleSlug,
+      title: problem.title || formatSlug(problem.titleSlug),
+      ...(problem.id ? { frontendId: problem.id } : {}),
+      ...(problem.difficulty ? { difficulty: problem.difficulty } : {}),
+      tags: unique(tags.map((tag) => tag.slug)),
+      companies: unique(companies.map((company) => company.slug)),
+      similar: unique((problem.similarQuestions ?? []).map((question) => question.titleSlug)),
+      ...(problem.quality ? { quality: problem.quality } : {}),
+      tagNames: Object.fromEntries(tags.map((tag) => [tag.slug, tag.name])),
+      companyNames: Object.fromEntries(companies.map((company) => [company.slug, company.name])),
+    }
+  }
+
+  const note = readStoredNote(key, content)
+  if (!note || note.type !== 'problem') {
+    return null
+  }
+  const difficulty = asDifficulty(note.meta.difficulty)
+  const quality = note.meta.quality
+  return {
+    key,
+    slug: note.slug,
+    title: asString(note.meta.title) ?? formatSlug(note.slug),
+    ...(note.frontendId ? { frontendId: note.frontendId } : {}),
+    ...(difficulty ? { difficulty } : {}),
+    tags: unique(asStringList(note.meta.tags).map(normalizeTag)),
+    // Company stats keyed by frequency bucket ("1", "2", ...) carry no company names
+    companies: unique(
+      asStringList(note.meta.companies)
+        .filter((company) => !/^\d+$/.test(company))
+        .map(normalizeTag)
+    ),
+    similar: unique([...asStringList(note.meta.similar_problems), ...getSimilarLinks(note.body)]),
+    ...(typeof quality === 'number' && quality > 0 ? { quality } : {}),
+    tagNames: {},
+    companyNames: {},
+  }
+}
+
+/**
+ * Parse a JSON document written by the JSON output format
+ * @returns null for other JSON files and malformed content
+ */
+export function readJsonDocument(key: string, content: string): JsonDocument | null {
+  if (posix.extname(key).toLowerCase() !== '.json') {
+    return null
+  }
+
+  let document: unknown
+  try {
+    document = JSON.parse(content)
+  } catch {
+    return null
+  }
+  return typeof document === 'object' &&
+    document !== null &&
+    'schemaVersion' in document &&
+    'type' in document &&
+    'data' in document
+    ? (document as JsonDocument)
+    : null
+}
+
+/**
+ * Readable title from a slug, e.g. `two-sum` -> `Two Sum`
+ */
+export function formatSlug(slug: string): string {
+  return slug
+    .split('-')
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ')
+}
+
+/**
+ * Normalize a tag name or slug for filtering, e.g. `Hash Table` -> `hash-table`
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().toLowerCase().replace(/\s+/g, '-')
+}
+
+/**
+ * Non-empty string from a frontmatter value
+ */
+export function asString(value: unknown): string | undefined {
+  if (typeof value === 'number') return String(value)
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined
+}
+
+/**
+ * String items of a frontmatter list
+ */
+export function asStringList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.map(asString).filter((item): item is string => item !== undefined)
+    : []
+}
+
+/**
+ * Difficulty from a frontmatter value
+ */
+export function asDifficulty(value: unknown): Difficulty | undefined {
+  return value === 'Easy' || value === 'Medium' || value === 'Hard' ? value : undefined
+}
+
+/**
+ * Split a note into the text before its first `##` heading and each `##` section
+ * Deeper headings (e.g. the approaches of an embedded editorial) stay in their section.
+ */
+export function splitSections(body: string): Array<{ heading: string; text: string }> {
+  const sections = [{ heading: '', text: '' }]
+  let inCodeBlock = false
+  for (const line of body.split('\n')) {
+    if (/^(```|~~~)/.test(line)) {
+      inCodeBlock = !inCodeBlock
+    }
+    const heading = !inCodeBlock ? /^## (.+)$/.exec(line)?.[1] : undefined
+    if (heading !== undefined) {
+      sections.push({ heading: heading.trim(), text: '' })
+    } else {
+      const current = sections[sections.length - 1]
+      if (current) current.text += `${line}\n`
+    }
+  }
+  return sections
+}
+
+/**
+ * Slugs linked from the "Similar Problems" section of a note, e.g. `- 🟢 [[3sum|3Sum]]`
+ */
+function getSimilarLinks(body: string): string[] {
+  const section = /^## Similar Problems\s*\n([\s\S]*?)(?=^#{1,2} |(?![\s\S]))/m.exec(body)
+  if (!section?.[1]) {
+    return []
+  }
+  return [...section[1].matchAll(/^\s*-.*?\[\[([^\]|#]+)/gm)]
+    .map((match) => match[1]?.trim() ?? '')
+    .filter(Boolean)
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values.filter(Boolean))]
+}
+
+function parseFrontmatter(frontmatter: string): Record<string, unknown> {
+  if (!frontmatter) {
+    return {}
+  }
+  try {
+    const parsed: unknown = parseYaml(frontmatter.trim().replace(/^---\n|\n---$/g, ''))
+    return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : {}
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Type, slug and ID from a storage key built by the default output patterns:
+ * `1-two-sum.md`, `two-sum-editorial.md` or `1-two-sum/discussions.md` (folder bundles)
+ */
+function parseKey(key: string): { type: StoredNoteType; slug: string; frontendId?: string } | null {
+  let name = posix.basename(key, posix.extname(key))
+  let type: StoredNoteType = 'problem'
+
+  if (['problem', 'editorial', 'discussions'].includes(name)) {
+    type = name === 'problem' ? 'problem' : name === 'editorial' ? 'editorial' : 'discussion'
+    name = posix.basename(posix.dirname(key))
+  } else if (name.endsWith('-editorial')) {
+    type = 'editorial'
+    name = name.slice(0, -'-editorial'.length)
+  } else if (name.endsWith('-discussions')) {
+    type = 'discussion'
+    name = name.slice(0, -'-discussions'.length)
+  }
+  if (name.startsWith('problem-list-')) {
+    return null
+  }
+
+  const match = /^(\d+)[-.\s]+(.+)$/.exec(name)
+  const slug = match?.[2] ?? name
+  return slug && slug !== '.'
+    ? { type, slug, ...(match?.[1] ? { frontendId: match[1] } : {}) }
+    : null
+}
@@ -24,6 +24,7 @@ vi.mock('@lesca/browser-automation', () => ({
       complexity: ['complexity-selector'],
       code: ['code-selector'],
     }),
+    track: vi.fn(),
     getAll: vi.fn().mockImplementation((s) => (Array.isArray(s) ? s : [s])),
     getCommonSelectors: vi.fn().mockReturnValue({
       notFound: ['not-found-selector'],
@@ -9,6 +9,7 @@ import type {
 } from '@lesca/shared/types'
 import { GraphQLClient } from '@lesca/api-client'
 import { ScrapingError } from '@lesca/error'
+import { SelectorManager } from '@lesca/browser-automation'
 
 vi.mock('@lesca/browser-automation', () => ({
   SelectorManager: vi.fn().mockImplementation(() => ({
@@ -19,6 +20,7 @@ vi.mock('@lesca/browser-automation', () => ({
       tags: ['tag-selector'],
     }),
     getPrimary: vi.fn().mockImplementation((s) => s[0]),
+    track: vi.fn(),
     getAll: vi.fn().mockImplementation((s) => s),
   })),
 }))
@@ -131,6 +133,30 @@ describe('ProblemScraperStrategy', () => {
       expect(data.difficulty).toBe('Easy')
     })
 
+    it('should report browser selector attempts to the given selector manager', async () => {
+      mockGraphQLClient.getProblem = vi.fn().mockRejectedValue(new Error('GraphQL Error'))
+      vi.mocked(mockBrowserDriver.extractWithFallback).mockResolvedValue('1. Two Sum')
+      vi.mocked(mockBrowserDriver.extractAll).mockResolvedValue([])
+      vi.mocked(mockBrowserDriver.elementExists).mockResolvedValue(false)
+      const listener = vi.fn()
+      const selectors = new SelectorManager()
+      vi.mocked(selectors.track).mockReturnValue(listener)
+      strategy = new ProblemScraperStrategy(
+        mockGraphQLClient,
+        mockBrowserDriver,
+        mockAuth,
+        selectors
+      )
+
+      await strategy.execute({ type: 'problem', titleSlug: 'two-sum' })
+
+      expect(selectors.track).toHaveBeenCalledWith('problem.title')
+      expect(mockBrowserDriver.extractWithFallback).toHaveBeenCalledWith(
+        ['title-selector'],
+        listener
+      )
+    })
+
     it('should throw ScrapingError if both GraphQL and Browser fail', async () => {
       mockGraphQLClient.getProblem = vi.fn().mockRejectedValue(new Error('GraphQL Error'))
       mockBrowserDriver.navigate = vi.fn().mockRejectedValue(new Error('Browser Error'))
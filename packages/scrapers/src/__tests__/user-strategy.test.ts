@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { UserScraperStrategy } from '../user-strategy'
+import type { ScrapeRequest, User, UserScrapeRequest } from '@lesca/shared/types'
+import { GraphQLClient } from '@lesca/api-client'
+import { GraphQLError } from '@lesca/error'
+
+describe('UserScraperStrategy', () => {
+  let strategy: UserScraperStrategy
+  let mockGraphQLClient: GraphQLClient
+
+  const matchedUser = {
+    username: 'alice',
+    profile: { realName: 'Alice', aboutMe: '', reputation: 12, ranking: 34567 },
+    submitStats: {
+      acSubmissionNum: [
+        { difficulty: 'All', count: 60 },
+        { difficulty: 'Easy', count: 30 },
+        { difficulty: 'Medium', count: 25 },
+        { difficulty: 'Hard', count: 5 },
+      ],
+    },
+    badges: [{ id: '1', name: 'annual', displayName: 'Annual Badge', icon: '/badge.png' }],
+  }
+
+  const recent = [{ id: '99', title: 'Two Sum', titleSlug: 'two-sum', timestamp: '1704067200' }]
+
+  beforeEach(() => {
+    mockGraphQLClient = {
+      getUserProfile: vi.fn().mockResolvedValue(matchedUser),
+      getRecentAcSubmissions: vi.fn().mockResolvedValue(recent),
+    } as unknown as GraphQLClient
+
+    strategy = new UserScraperStrategy(mockGraphQLClient)
+  })
+
+  describe('canHandle', () => {
+    it('should handle user requests only', () => {
+      expect(strategy.canHandle({ type: 'user', username: 'alice' })).toBe(true)
+      expect(strategy.canHandle({ type: 'problem', titleSlug: 'two-sum' } as ScrapeRequest)).toBe(
+        false
+      )
+    })
+  })
+
+  describe('execute', () => {
+    it('should return the profile with recent submissions', async () => {
+      const request: UserScrapeRequest = { type: 'user', username: 'alice', recentLimit: 5 }
+
+      const result = await strategy.execute(request)
+      const user = result.data as User
+
+      expect(result.type).toBe('user')
+      expect(result.metadata.source).toBe('graphql')
+      expect(result.metadata.url).toBe('https://leetcode.com/u/alice/')
+      expect(mockGraphQLClient.getRecentAcSubmissions).toHaveBeenCalledWith('alice', 5)
+      expect(user.profile).toEqual({
+        username: 'alice',
+        realName: 'Alice',
+        reputation: 12,
+        ranking: 34567,
+      })
+      expect(user.badges).toHaveLength(1)
+      expect(user.recentAcSubmissions).toEqual(recent)
+    })
+
+    it('should fill in defaults for missing fields', async () => {
+      mockGraphQLClient.getUserProfile = vi.fn().mockResolvedValue({ username: 'bob' })
+
+      const result = await strategy.execute({ type: 'user', username: 'bob' })
+      const user = result.data as User
+
+      expect(user.profile).toEqual({ username: 'bob', reputation: 0, ranking: 0 })
+      expect(user.submitStats.acSubmissionNum).toEqual([])
+      expect(user.badges).toEqual([])
+    })
+
+    it('should skip recent submissions when the limit is 0', async () => {
+      const result = await strategy.execute({ type: 'user', username: 'alice', recentLimit: 0 })
+
+      expect(mockGraphQLClient.getRecentAcSubmissions).not.toHaveBeenCalled()
+      expect((result.data as User).recentAcSubmissions).toBeUndefined()
+    })
+
+    it('should still return the profile when recent submissions fail', async () => {
+      mockGraphQLClient.getRecentAcSubmissions = vi.fn().mockRejectedValue(new Error('Timeout'))
+
+      const result = await strategy.execute({ type: 'user', username: 'alice' })
+
+      expect((result.data as User).username).toBe('alice')
+      expect((result.data as User).recentAcSubmissions).toBeUndefined()
+    })
+
+    it('should rethrow GraphQL errors', async () => {
+      mockGraphQLClient.getUserProfile = vi
+        .fn()
+        .mockRejectedValue(new GraphQLError('GQL_QUERY_FAILED', 'User not found: ghost'))
+
+      await expect(strategy.execute({ type: 'user', username: 'ghost' })).rejects.toThrow(
+        'User not found: ghost'
+      )
+    })
+
+    it('should wrap other errors', async () => {
+      mockGraphQLClient.getUserProfile = vi.fn().mockRejectedValue(new Error('Network down'))
+
+      await expect(strategy.execute({ type: 'user', username: 'alice' })).rejects.toThrow(
+        GraphQLError
+      )
+    })
+
+    it('should reject requests it cannot handle', async () => {
+      await expect(
+        strategy.execute({ type: 'problem', titleSlug: 'two-sum' } as ScrapeRequest)
+      ).rejects.toThrow('cannot handle request type')
+    })
+  })
+})
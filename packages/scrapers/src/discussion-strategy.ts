@@ -21,8 +21,11 @@ export class DiscussionScraperStrategy implements ScraperStrategy {
 
   private selectors: SelectorManager
 
-  constructor(private browserDriver: BrowserDriver) {
-    this.selectors = new SelectorManager()
+  constructor(
+    private browserDriver: BrowserDriver,
+    selectors?: SelectorManager
+  ) {
+    this.selectors = selectors ?? new SelectorManager()
   }
 
   /**
@@ -25,9 +25,10 @@ export class EditorialScraperStrategy implements ScraperStrategy {
 
   constructor(
     private browserDriver: BrowserDriver,
-    private auth?: AuthCredentials
+    private auth?: AuthCredentials,
+    selectors?: SelectorManager
   ) {
-    this.selectors = new SelectorManager()
+    this.selectors = selectors ?? new SelectorManager()
   }
 
   /**
@@ -194,7 +195,8 @@ export class EditorialScraperStrategy implements ScraperStrategy {
     // Extract main content
     // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-call
     const content = await this.browserDriver.extractWithFallback(
-      this.selectors.getAll(editorialSelectors.content)
+      this.selectors.getAll(editorialSelectors.content),
+      this.selectors.track('editorial.content')
     )
 
     // Extract approaches (may have multiple)
@@ -251,7 +253,10 @@ export class EditorialScraperStrategy implements ScraperStrategy {
 
     try {
       // eslint-disable-next-line @typescript-eslint/no-unsafe-return, @typescript-eslint/no-unsafe-call
-      return await this.browserDriver.extractWithFallback(complexitySelectors)
+      return await this.browserDriver.extractWithFallback(
+        complexitySelectors,
+        this.selectors.track('editorial.complexity')
+      )
     } catch {
       return null
     }
@@ -7,6 +7,7 @@ export { ProblemScraperStrategy } from './problem-strategy'
 export { ListScraperStrategy } from './list-strategy'
 export { EditorialScraperStrategy } from './editorial-strategy'
 export { DiscussionScraperStrategy } from './discussion-strategy'
+export { UserScraperStrategy } from './user-strategy'
 
 // Re-export types from shared/types
 export type {
@@ -16,4 +17,7 @@ export type {
   Discussion,
   DiscussionList,
   CodeSnippet,
+  UserScrapeRequest,
+  User,
+  RecentSubmission,
 } from '@lesca/shared/types'
@@ -26,9 +26,10 @@ export class ProblemScraperStrategy implements ScraperStrategy {
   constructor(
     private graphqlClient: GraphQLClient,
     private browserDriver: BrowserDriver,
-    private auth?: AuthCredentials
+    private auth?: AuthCredentials,
+    selectors?: SelectorManager
   ) {
-    this.selectors = new SelectorManager()
+    this.selectors = selectors ?? new SelectorManager()
   }
 
   /**
@@ -222,7 +223,8 @@ export class ProblemScraperStrategy implements ScraperStrategy {
     // Extract title
     const title =
       (await this.browserDriver.extractWithFallback(
-        this.selectors.getAll(problemSelectors.title)
+        this.selectors.getAll(problemSelectors.title),
+        this.selectors.track('problem.title')
       )) || ''
 
     // Extract ID (often in the title like "1. Two Sum")
@@ -234,12 +236,14 @@ export class ProblemScraperStrategy implements ScraperStrategy {
     // eslint-disable-next-line @typescript-eslint/no-unsafe-call
     const content =
       (await this.browserDriver.extractWithFallback(
-        this.selectors.getAll(problemSelectors.description)
+        this.selectors.getAll(problemSelectors.description),
+        this.selectors.track('problem.description')
       )) || ''
 
     // Extract difficulty
     const difficultyStr = await this.browserDriver.extractWithFallback(
-      this.selectors.getAll(problemSelectors.difficulty)
+      this.selectors.getAll(problemSelectors.difficulty),
+      this.selectors.track('problem.difficulty')
     )
     // Cast to Difficulty type (simple validation could be added)
     const difficulty = (difficultyStr || 'Easy') as 'Easy' | 'Medium' | 'Hard'
@@ -0,0 +1,133 @@
+import type { GraphQLClient } from '@lesca/api-client'
+import { ScrapingError, GraphQLError } from '@lesca/error'
+import type {
+  ScraperStrategy,
+  ScrapeRequest,
+  UserScrapeRequest,
+  RawData,
+  User,
+  RecentSubmission,
+} from '@lesca/shared/types'
+import { logger } from '@lesca/shared/utils'
+
+/**
+ * Shape of `matchedUser` returned by the profile query
+ */
+interface MatchedUser {
+  username?: string
+  profile?: Partial<User['profile']> | null
+  submitStats?: Partial<User['submitStats']> | null
+  badges?: User['badges'] | null
+}
+
+/**
+ * User scraper strategy
+ * Handles scraping of user profiles (solved counts, badges, recent submissions)
+ */
+export class UserScraperStrategy implements ScraperStrategy {
+  readonly name = 'user'
+  readonly priority = 70
+
+  constructor(private graphqlClient: GraphQLClient) {}
+
+  /**
+   * Check if this strategy can handle the request
+   */
+  canHandle(request: ScrapeRequest): boolean {
+    return request.type === 'user'
+  }
+
+  /**
+   * Execute the scraping strategy
+   */
+  async execute(request: ScrapeRequest): Promise<RawData> {
+    if (!this.canHandle(request)) {
+      throw new ScrapingError(
+        'SCRAPE_NO_STRATEGY',
+        `UserScraperStrategy cannot handle request type: ${request.type}`,
+        { context: { requestType: request.type, strategyName: this.name } }
+      )
+    }
+
+    const userRequest = request as UserScrapeRequest
+
+    try {
+      const matchedUser = (await this.graphqlClient.getUserProfile(
+        userRequest.username
+      )) as MatchedUser
+      const user = this.normalizeUser(userRequest.username, matchedUser)
+
+      const recent = await this.getRecentSubmissions(user.username, userRequest.recentLimit)
+      if (recent) {
+        user.recentAcSubmissions = recent
+      }
+
+      return {
+        type: 'user',
+        data: user,
+        metadata: {
+          scrapedAt: new Date(),
+          source: 'graphql',
+          url: `https://leetcode.com/u/${user.username}/`,
+        },
+      }
+    } catch (error) {
+      if (error instanceof GraphQLError) {
+        throw error
+      }
+
+      throw new GraphQLError(
+        'GQL_QUERY_FAILED',
+        `Failed to scrape user "${userRequest.username}": ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        { ...(error instanceof Error ? { cause: error } : {}) }
+      )
+    }
+  }
+
+  /**
+   * Fetch recent accepted submissions
+   * These are optional: a failure is logged and the profile is still returned.
+   */
+  private async getRecentSubmissions(
+    username: string,
+    limit = 20
+  ): Promise<RecentSubmission[] | undefined> {
+    if (limit <= 0) {
+      return undefined
+    }
+
+    try {
+      return await this.graphqlClient.getRecentAcSubmissions(username, limit)
+    } catch (error) {
+      logger.warn(`Failed to fetch recent submissions for "${username}"`, {
+        error: error instanceof Error ? error.message : String(error),
+      })
+      return undefined
+    }
+  }
+
+  /**
+   * Fill in defaults for fields missing from the API response
+   */
+  private normalizeUser(requestedUsername: string, matchedUser: MatchedUser): User {
+    const username = matchedUser.username || requestedUsername
+    const profile = matchedUser.profile ?? {}
+
+    return {
+      username,
+      profile: {
+        username,
+        ...(profile.realName ? { realName: profile.realName } : {}),
+        ...(profile.aboutMe ? { aboutMe: profile.aboutMe } : {}),
+        reputation: profile.reputation ?? 0,
+        ranking: profile.ranking ?? 0,
+      },
+      submitStats: {
+        acSubmissionNum: matchedUser.submitStats?.acSubmissionNum ?? [],
+      },
+      badges: matchedUser.badges ?? [],
+    }
+  }
+}
@@ -67,6 +67,27 @@ describe('FileSystemStorage', () => {
 
       expect(loaded).toBe(specialContent)
     })
+
+    it('should reject keys outside the base path', async () => {
+      await expect(storage.save('../escape.md', 'x')).rejects.toThrow(StorageError)
+      await expect(storage.load('/etc/passwd')).rejects.toThrow(StorageError)
+      expect(await storage.exists('../escape.md')).toBe(false)
+      expect(existsSync(resolve(testDir, '..', 'escape.md'))).toBe(false)
+    })
+  })
+
+  describe('binary content', () => {
+    it('should save and load binary content', async () => {
+      const data = new Uint8Array([0, 1, 2, 255])
+
+      await storage.saveBinary('images/a.png', data)
+
+      expect(new Uint8Array((await storage.loadBinary('images/a.png')) ?? [])).toEqual(data)
+    })
+
+    it('should return null for missing binary files', async () => {
+      expect(await storage.loadBinary('missing.png')).toBeNull()
+    })
   })
 
   describe('metadata', () => {
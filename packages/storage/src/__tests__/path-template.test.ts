@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest'
+import {
+  renderPathTemplate,
+  validatePathTemplate,
+  sanitizePathSegment,
+  normalizeStorageKey,
+} from '../path-template'
+
+describe('renderPathTemplate', () => {
+  const context = {
+    id: '10',
+    slug: 'regular-expression-matching',
+    title: 'Regular Expression Matching',
+    difficulty: 'Hard',
+    firstTag: 'dynamic-programming',
+    type: 'problem',
+    date: new Date('2024-03-05T12:00:00.000Z'),
+  }
+
+  it('should render the default pattern', () => {
+    expect(renderPathTemplate('{id}-{slug}.md', context)).toBe('10-regular-expression-matching.md')
+  })
+
+  it('should create directories and zero-pad ids', () => {
+    expect(renderPathTemplate('{difficulty}/{firstTag}/{id:4}-{slug}.md', context)).toBe(
+      'Hard/dynamic-programming/0010-regular-expression-matching.md'
+    )
+  })
+
+  it('should render type, title and date tokens', () => {
+    expect(renderPathTemplate('{date}/{type}/{title}.md', context)).toBe(
+      '2024-03-05/problem/Regular Expression Matching.md'
+    )
+  })
+
+  it('should collapse missing values', () => {
+    expect(renderPathTemplate('{difficulty}/{id}-{slug}.md', { slug: 'two-sum' })).toBe(
+      'two-sum.md'
+    )
+  })
+
+  it('should apply suffix and extension options', () => {
+    expect(
+      renderPathTemplate('{id}-{slug}.md', { slug: 'two-sum' }, { suffix: '-editorial' })
+    ).toBe('two-sum-editorial.md')
+    expect(renderPathTemplate('{id}-{slug}.md', context, { extension: '.json' })).toBe(
+      '10-regular-expression-matching.json'
+    )
+  })
+
+  it('should keep token values from introducing directories', () => {
+    expect(renderPathTemplate('{title}.md', { slug: 'x', title: 'A/B: C?' })).toBe('A-B- C.md')
+    expect(renderPathTemplate('{firstTag}/{slug}.md', { slug: 'x', firstTag: '..' })).toBe('x.md')
+  })
+
+  it('should never produce paths outside the root', () => {
+    expect(renderPathTemplate('../../{slug}.md', { slug: 'x' })).toBe('x.md')
+    expect(renderPathTemplate('/abs/{slug}.md', { slug: 'x' })).toBe('abs/x.md')
+  })
+
+  it('should throw for unknown tokens', () => {
+    expect(() => renderPathTemplate('{nope}.md', context)).toThrow('Unknown token {nope}')
+  })
+
+  it('should throw when the pattern renders empty', () => {
+    expect(() => renderPathTemplate('{difficulty}', { slug: 'x' })).toThrow('empty path')
+  })
+})
+
+describe('validatePathTemplate', () => {
+  it('should list unknown tokens', () => {
+    expect(validatePathTemplate('{id}-{slug}.md')).toEqual([])
+    expect(validatePathTemplate('{foo}/{slug}-{bar:2}.md')).toEqual(['foo', 'bar'])
+  })
+})
+
+describe('sanitizePathSegment', () => {
+  it('should replace invalid characters and trailing dots', () => {
+    expect(sanitizePathSegment('a<b>c|d*')).toBe('a-b-c-d-')
+    expect(sanitizePathSegment('name. ')).toBe('name')
+  })
+
+  it('should escape Windows device names', () => {
+    expect(sanitizePathSegment('con')).toBe('_con')
+    expect(sanitizePathSegment('NUL.md')).toBe('_NUL.md')
+  })
+
+  it('should truncate long segments but keep the extension', () => {
+    const result = sanitizePathSegment(`${'a'.repeat(300)}.md`)
+    expect(result.length).toBe(200)
+    expect(result.endsWith('.md')).toBe(true)
+  })
+})
+
+describe('normalizeStorageKey', () => {
+  it('should normalize relative keys', () => {
+    expect(normalizeStorageKey('a/./b//c.md')).toBe('a/b/c.md')
+    expect(normalizeStorageKey('a\\b.md')).toBe('a/b.md')
+    expect(normalizeStorageKey('a/../b.md')).toBe('b.md')
+  })
+
+  it('should reject absolute and escaping keys', () => {
+    expect(() => normalizeStorageKey('/etc/passwd')).toThrow('relative path')
+    expect(() => normalizeStorageKey('C:\\file.md')).toThrow('relative path')
+    expect(() => normalizeStorageKey('../outside.md')).toThrow('escapes')
+    expect(() => normalizeStorageKey('a/../../outside.md')).toThrow('escapes')
+  })
+})
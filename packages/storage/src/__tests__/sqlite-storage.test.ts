@@ -0,0 +1,301 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { SqliteStorage } from '../sqlite-storage'
+import { createStorage, DEFAULT_SQLITE_DATABASE } from '../storage-factory'
+import { FileSystemStorage } from '../filesystem-storage'
+import { StorageError } from '@lesca/error'
+import { existsSync } from 'fs'
+import { rm, mkdir } from 'fs/promises'
+import { resolve, join } from 'path'
+
+describe('SqliteStorage', () => {
+  const testDir = resolve(__dirname, '__test_sqlite_storage__')
+  const dbPath = join(testDir, 'test.db')
+  let storage: SqliteStorage
+
+  beforeEach(async () => {
+    if (existsSync(testDir)) {
+      await rm(testDir, { recursive: true, force: true })
+    }
+    await mkdir(testDir, { recursive: true })
+
+    storage = new SqliteStorage(dbPath)
+  })
+
+  afterEach(async () => {
+    storage.close()
+    if (existsSync(testDir)) {
+      await rm(testDir, { recursive: true, force: true })
+    }
+  })
+
+  describe('save and load', () => {
+    it('should save and load content', async () => {
+      await storage.save('test.md', '# Hello World')
+
+      expect(await storage.load('test.md')).toBe('# Hello World')
+    })
+
+    it('should return null for missing keys', async () => {
+      expect(await storage.load('missing.md')).toBeNull()
+    })
+
+    it('should overwrite existing content', async () => {
+      await storage.save('test.md', 'first')
+      await storage.save('test.md', 'second')
+
+      expect(await storage.load('test.md')).toBe('second')
+      expect(await storage.count()).toBe(1)
+    })
+
+    it('should persist across instances', async () => {
+      await storage.save('persisted.md', 'content')
+      storage.close()
+
+      storage = new SqliteStorage(dbPath)
+
+      expect(await storage.load('persisted.md')).toBe('content')
+    })
+
+    it('should create the database directory automatically', async () => {
+      const nested = new SqliteStorage(join(testDir, 'a/b/nested.db'))
+      await nested.save('x.md', 'content')
+      nested.close()
+
+      expect(existsSync(join(testDir, 'a/b/nested.db'))).toBe(true)
+    })
+  })
+
+  describe('binary content', () => {
+    it('should save and load binary content', async () => {
+      const data = new Uint8Array([0, 1, 2, 255])
+
+      await storage.saveBinary('images/a.png', data)
+
+      expect(new Uint8Array((await storage.loadBinary('images/a.png')) ?? [])).toEqual(data)
+      expect(await storage.exists('images/a.png')).toBe(true)
+    })
+
+    it('should return null for missing binary keys', async () => {
+      expect(await storage.loadBinary('missing.png')).toBeNull()
+    })
+  })
+
+  describe('metadata', () => {
+    it('should save and load metadata', async () => {
+      const metadata = {
+        scrapedAt: '2024-01-01T00:00:00.000Z',
+        source: 'graphql',
+        tags: ['array'],
+      }
+
+      await storage.save('problem.md', 'content', metadata)
+
+      expect(await storage.loadMetadata('problem.md')).toEqual(metadata)
+    })
+
+    it('should return null when no metadata exists', async () => {
+      await storage.save('no-meta.md', 'content')
+
+      expect(await storage.loadMetadata('no-meta.md')).toBeNull()
+    })
+
+    it('should clear metadata when re-saved without it', async () => {
+      await storage.save('test.md', 'content', { source: 'graphql' })
+      await storage.save('test.md', 'content')
+
+      expect(await storage.loadMetadata('test.md')).toBeNull()
+    })
+  })
+
+  describe('exists and delete', () => {
+    it('should report existence', async () => {
+      await storage.save('exists.md', 'content')
+
+      expect(await storage.exists('exists.md')).toBe(true)
+      expect(await storage.exists('missing.md')).toBe(false)
+    })
+
+    it('should delete entries with their metadata', async () => {
+      await storage.save('delete-me.md', 'content', { source: 'graphql' })
+
+      await storage.delete('delete-me.md')
+
+      expect(await storage.exists('delete-me.md')).toBe(false)
+      expect(await storage.loadMetadata('delete-me.md')).toBeNull()
+    })
+
+    it('should not throw when deleting missing keys', async () => {
+      await expect(storage.delete('missing.md')).resolves.toBeUndefined()
+    })
+  })
+
+  describe('list', () => {
+    beforeEach(async () => {
+      await storage.save('file1.md', 'content1')
+      await storage.save('file2.md', 'content2')
+      await storage.save('dir1/file3.md', 'content3')
+      await storage.save('dir1/subdir/file4.md', 'content4')
+      await storage.save('file.txt', 'text')
+    })
+
+    it('should list all keys sorted', async () => {
+      expect(await storage.list()).toEqual([
+        'dir1/file3.md',
+        'dir1/subdir/file4.md',
+        'file.txt',
+        'file1.md',
+        'file2.md',
+      ])
+    })
+
+    it('should filter keys by pattern', async () => {
+      const mdFiles = await storage.list('*.md')
+
+      expect(mdFiles).toContain('file1.md')
+      expect(mdFiles).not.toContain('file.txt')
+    })
+
+    it('should match wildcards across directories like FileSystemStorage', async () => {
+      const files = await storage.list('dir1/*.md')
+
+      expect(files).toEqual(['dir1/file3.md', 'dir1/subdir/file4.md'])
+    })
+
+    it('should support single-character wildcards', async () => {
+      expect(await storage.list('file?.md')).toEqual(['file1.md', 'file2.md'])
+    })
+  })
+
+  describe('query', () => {
+    beforeEach(async () => {
+      await storage.save('problems/1-two-sum.md', 'a', {
+        scrapedAt: '2024-01-01T00:00:00.000Z',
+        source: 'graphql',
+      })
+      await storage.save('problems/2-add-two-numbers.md', 'b', {
+        scrapedAt: '2024-02-01T00:00:00.000Z',
+        source: 'browser',
+      })
+      await storage.save('editorials/two-sum-editorial.md', 'c', {
+        scrapedAt: '2024-03-01T00:00:00.000Z',
+        source: 'graphql',
+      })
+    })
+
+    it('should filter by source', async () => {
+      const entries = await storage.query({ source: 'graphql' })
+
+      expect(entries.map((e) => e.key)).toEqual([
+        'editorials/two-sum-editorial.md',
+        'problems/1-two-sum.md',
+      ])
+    })
+
+    it('should filter by key prefix', async () => {
+      const entries = await storage.query({ prefix: 'problems/' })
+
+      expect(entries).toHaveLength(2)
+    })
+
+    it('should match prefixes literally and case-sensitively', async () => {
+      await storage.save('100%_done.md', 'd')
+
+      expect(await storage.query({ prefix: '100%_' })).toHaveLength(1)
+      expect(await storage.query({ prefix: '1%' })).toHaveLength(0)
+      expect(await storage.query({ prefix: 'PROBLEMS/' })).toHaveLength(0)
+    })
+
+    it('should filter by scrape date range', async () => {
+      const entries = await storage.query({
+        scrapedAfter: new Date('2024-01-15T00:00:00.000Z'),
+        scrapedBefore: new Date('2024-02-15T00:00:00.000Z'),
+      })
+
+      expect(entries.map((e) => e.key)).toEqual(['problems/2-add-two-numbers.md'])
+      expect(entries[0]?.scrapedAt).toBe('2024-02-01T00:00:00.000Z')
+      expect(entries[0]?.source).toBe('browser')
+      expect(entries[0]?.updatedAt).toBeInstanceOf(Date)
+    })
+
+    it('should apply limit', async () => {
+      expect(await storage.query({ limit: 1 })).toHaveLength(1)
+    })
+  })
+
+  describe('keys', () => {
+    it('should normalize separators and relative segments', async () => {
+      await storage.save('problems\\1-two-sum.md', 'content')
+
+      expect(await storage.load('problems/1-two-sum.md')).toBe('content')
+      expect(await storage.exists('./problems/1-two-sum.md')).toBe(true)
+      expect(await storage.list()).toEqual(['problems/1-two-sum.md'])
+
+      await storage.delete('problems/./1-two-sum.md')
+      expect(await storage.count()).toBe(0)
+    })
+
+    it('should reject absolute keys and keys outside the root', async () => {
+      await expect(storage.save('../escape.md', 'content')).rejects.toMatchObject({
+        code: 'STORAGE_INVALID_PATH',
+      })
+      await expect(storage.load('/etc/passwd')).rejects.toBeInstanceOf(StorageError)
+      expect(await storage.count()).toBe(0)
+    })
+  })
+
+  describe('error handling', () => {
+    it('should throw StorageError when the database cannot be opened', () => {
+      expect(
+        () => new SqliteStorage(join(testDir, 'missing/dir/x.db'), { createDirs: false })
+      ).toThrow(StorageError)
+    })
+
+    it('should reject with StorageError after close', async () => {
+      storage.close()
+
+      await expect(storage.load('test.md')).rejects.toThrow(StorageError)
+    })
+  })
+})
+
+describe('createStorage', () => {
+  const testDir = resolve(__dirname, '__test_storage_factory__')
+
+  afterEach(async () => {
+    if (existsSync(testDir)) {
+      await rm(testDir, { recursive: true, force: true })
+    }
+  })
+
+  it('should create FileSystemStorage by default', () => {
+    const storage = createStorage({ type: 'filesystem', path: testDir, options: {} })
+
+    expect(storage).toBeInstanceOf(FileSystemStorage)
+    expect((storage as FileSystemStorage).getBasePath()).toBe(testDir)
+  })
+
+  it('should prefer the base path override', () => {
+    const override = join(testDir, 'override')
+    const storage = createStorage({ type: 'filesystem', path: testDir, options: {} }, override)
+
+    expect((storage as FileSystemStorage).getBasePath()).toBe(override)
+  })
+
+  it('should create SqliteStorage in the output directory', () => {
+    const storage = createStorage({ type: 'sqlite', path: testDir, options: {} })
+
+    expect(storage).toBeInstanceOf(SqliteStorage)
+    expect((storage as SqliteStorage).getDatabasePath()).toBe(
+      join(testDir, DEFAULT_SQLITE_DATABASE)
+    )
+    ;(storage as SqliteStorage).close()
+  })
+
+  it('should use storage.database when configured', () => {
+    const database = join(testDir, 'custom.db')
+    const storage = createStorage({ type: 'sqlite', path: testDir, database, options: {} })
+
+    expect((storage as SqliteStorage).getDatabasePath()).toBe(database)
+    ;(storage as SqliteStorage).close()
+  })
+})
@@ -4,6 +4,8 @@ import { join, dirname, basename } from 'path'
 import { StorageError } from '@lesca/error'
 import type { StorageAdapter } from '@lesca/shared/types'
 
+import { normalizeStorageKey } from './path-template'
+
 /**
  * File system storage adapter
  * Saves content as files in a directory structure
@@ -32,9 +34,9 @@ export class FileSystemStorage implements StorageAdapter {
    * @param metadata - Optional metadata (saved as .meta.json)
    */
   async save(key: string, content: string, metadata?: Record<string, unknown>): Promise<void> {
-    try {
-      const filePath = join(this.basePath, key)
+    const filePath = this.resolvePath(key)
 
+    try {
       if (this.options.createDirs) {
         await this.ensureDirectory(dirname(filePath))
       }
@@ -58,13 +60,70 @@ export class FileSystemStorage implements StorageAdapter {
     }
   }
 
+  /**
+   * Save binary content to a file
+   * @param key - File path relative to base path
+   * @param data - Bytes to write
+   * @param metadata - Optional metadata (saved as .meta.json)
+   */
+  async saveBinary(
+    key: string,
+    data: Uint8Array,
+    metadata?: Record<string, unknown>
+  ): Promise<void> {
+    const filePath = this.resolvePath(key)
+
+    try {
+      if (this.options.createDirs) {
+        await this.ensureDirectory(dirname(filePath))
+      }
+
+      if (this.options.atomicWrites) {
+        await this.atomicWrite(filePath, data)
+      } else {
+        await writeFile(filePath, data)
+      }
+
+      if (metadata) {
+        await writeFile(this.getMetadataPath(filePath), JSON.stringify(metadata, null, 2), 'utf-8')
+      }
+    } catch (error) {
+      throw new StorageError(
+        'STORAGE_WRITE_FAILED',
+        `Failed to save file ${key}: ${error instanceof Error ? error.message : String(error)}`,
+        { ...(error instanceof Error ? { cause: error } : {}) }
+      )
+    }
+  }
+
+  /**
+   * Load binary content from a file
+   */
+  async loadBinary(key: string): Promise<Uint8Array | null> {
+    const filePath = this.resolvePath(key)
+
+    try {
+      if (!(await this.exists(key))) {
+        return null
+      }
+
+      return await readFile(filePath)
+    } catch (error) {
+      throw new StorageError(
+        'STORAGE_READ_FAILED',
+        `Failed to load file ${key}: ${error instanceof Error ? error.message : String(error)}`,
+        { ...(error instanceof Error ? { cause: error } : {}) }
+      )
+    }
+  }
+
   /**
    * Load content from a file
    */
   async load(key: string): Promise<string | null> {
-    try {
-      const filePath = join(this.basePath, key)
+    const filePath = this.resolvePath(key)
 
+    try {
       if (!(await this.exists(key))) {
         return null
       }
@@ -85,8 +144,7 @@ export class FileSystemStorage implements StorageAdapter {
    */
   async exists(key: string): Promise<boolean> {
     try {
-      const filePath = join(this.basePath, key)
-      await access(filePath)
+      await access(this.resolvePath(key))
       return true
     } catch {
       return false
@@ -97,9 +155,9 @@ export class FileSystemStorage implements StorageAdapter {
    * Delete a file
    */
   async delete(key: string): Promise<void> {
-    try {
-      const filePath = join(this.basePath, key)
+    const filePath = this.resolvePath(key)
 
+    try {
       if (!(await this.exists(key))) {
         return
       }
@@ -149,10 +207,9 @@ export class FileSystemStorage implements StorageAdapter {
    * Load metadata for a file
    */
   async loadMetadata(key: string): Promise<Record<string, unknown> | null> {
-    try {
-      const filePath = join(this.basePath, key)
-      const metaPath = this.getMetadataPath(filePath)
+    const metaPath = this.getMetadataPath(this.resolvePath(key))
 
+    try {
       try {
         await access(metaPath)
       } catch {
@@ -174,7 +231,7 @@ export class FileSystemStorage implements StorageAdapter {
    * Get the absolute path for a key
    */
   getAbsolutePath(key: string): string {
-    return join(this.basePath, key)
+    return this.resolvePath(key)
   }
 
   /**
@@ -184,6 +241,14 @@ export class FileSystemStorage implements StorageAdapter {
     return this.basePath
   }
 
+  /**
+   * Resolve a key to a path inside the base directory
+   * Rejects absolute keys and keys that would escape the base path.
+   */
+  private resolvePath(key: string): string {
+    return join(this.basePath, normalizeStorageKey(key))
+  }
+
   /**
    * Ensure directory exists
    */
@@ -203,11 +268,15 @@ export class FileSystemStorage implements StorageAdapter {
    * Atomic write using temp file + rename
    * More reliable than direct write
    */
-  private async atomicWrite(filePath: string, content: string): Promise<void> {
+  private async atomicWrite(filePath: string, content: string | Uint8Array): Promise<void> {
     const tempPath = `${filePath}.tmp.${Date.now()}.${Math.random().toString(36).slice(2)}`
 
     try {
-      await writeFile(tempPath, content, this.options.encoding)
+      await writeFile(
+        tempPath,
+        content,
+        typeof content === 'string' ? this.options.encoding : undefined
+      )
 
       await this.rename(tempPath, filePath)
     } catch (error) {
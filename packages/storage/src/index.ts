@@ -4,3 +4,15 @@
  */
 
 export { FileSystemStorage } from './filesystem-storage'
+export { SqliteStorage } from './sqlite-storage'
+export type { SqliteStorageQuery, SqliteStorageEntry } from './sqlite-storage'
+export { createStorage, DEFAULT_SQLITE_DATABASE } from './storage-factory'
+export {
+  renderPathTemplate,
+  validatePathTemplate,
+  sanitizePathSegment,
+  normalizeStorageKey,
+  DEFAULT_OUTPUT_PATTERN,
+  PATH_TEMPLATE_TOKENS,
+} from './path-template'
+export type { PathTemplateContext, PathTemplateOptions } from './path-template'
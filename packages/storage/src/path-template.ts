@@ -0,0 +1,217 @@
+import { posix } from 'path'
+
+import { StorageError } from '@lesca/error'
+
+/**
+ * Default output pattern (matches the historical `{id}-{slug}.md` layout)
+ */
+export const DEFAULT_OUTPUT_PATTERN = '{id}-{slug}.md'
+
+/**
+ * Values available to output path templates
+ */
+export interface PathTemplateContext {
+  id?: string
+  slug: string
+  title?: string
+  difficulty?: string
+  firstTag?: string
+  type?: string
+  date?: Date
+}
+
+/**
+ * Options applied to the rendered file name
+ */
+export interface PathTemplateOptions {
+  /** Appended to the file name before its extension (e.g. "-editorial") */
+  suffix?: string
+  /** Replaces the file name extension (e.g. ".json") */
+  extension?: string
+}
+
+/**
+ * Tokens recognised in output patterns
+ */
+export const PATH_TEMPLATE_TOKENS = [
+  'id',
+  'slug',
+  'title',
+  'difficulty',
+  'firstTag',
+  'type',
+  'date',
+] as const
+
+type PathTemplateToken = (typeof PATH_TEMPLATE_TOKENS)[number]
+
+const TOKEN_REGEX = /\{(\w+)(?::(\d+))?\}/g
+
+// Characters that are invalid in file names on at least one supported platform
+// eslint-disable-next-line no-control-regex
+const INVALID_CHARS_REGEX = /[<>:"/\\|?*\u0000-\u001f]/g
+
+const WINDOWS_RESERVED_REGEX = /^(con|prn|aux|nul|com\d|lpt\d)(\..*)?$/i
+
+const MAX_SEGMENT_LENGTH = 200
+
+/**
+ * Render an output pattern into a relative storage key
+ *
+ * Tokens: {id}, {slug}, {title}, {difficulty}, {firstTag}, {type}, {date}.
+ * A width may be given to zero-pad numeric values, e.g. {id:4} -> "0010".
+ * "/" in the pattern creates directories. Token values are sanitised so they
+ * can never introduce separators, and missing values collapse cleanly
+ * ("{difficulty}/{slug}.md" without a difficulty renders as "slug.md").
+ *
+ * @example
+ * renderPathTemplate('{difficulty}/{firstTag}/{id:4}-{slug}.md', ctx)
+ * // => "Hard/dynamic-programming/0010-regular-expression-matching.md"
+ */
+export function renderPathTemplate(
+  pattern: string,
+  context: PathTemplateContext,
+  options: PathTemplateOptions = {}
+): string {
+  const rendered = pattern.replace(TOKEN_REGEX, (match, name: string, width?: string) => {
+    if (!isPathTemplateToken(name)) {
+      throw new StorageError('STORAGE_INVALID_PATH', `Unknown token ${match} in output pattern`, {
+        context: { pattern, token: name },
+      })
+    }
+
+    let value = sanitizePathSegment(resolveToken(name, context))
+    if (width && /^\d+$/.test(value)) {
+      value = value.padStart(Number(width), '0')
+    }
+    return value
+  })
+
+  const segments = rendered
+    .split(/[/\\]+/)
+    .map((segment) => trimSegment(segment))
+    .filter((segment) => segment.length > 0)
+
+  const filename = segments.pop()
+  if (!filename) {
+    throw new StorageError('STORAGE_INVALID_PATH', `Output pattern produced an empty path`, {
+      context: { pattern, slug: context.slug },
+    })
+  }
+
+  segments.push(applyFilenameOptions(filename, options))
+
+  return normalizeStorageKey(segments.map(sanitizePathSegment).join('/'))
+}
+
+/**
+ * Check that every token in a pattern is known
+ */
+export function validatePathTemplate(pattern: string): string[] {
+  const unknown: string[] = []
+  for (const match of pattern.matchAll(TOKEN_REGEX)) {
+    const name = match[1] ?? ''
+    if (!isPathTemplateToken(name)) {
+      unknown.push(name)
+    }
+  }
+  return unknown
+}
+
+/**
+ * Make a value safe to use as a single path segment
+ * Replaces separators, reserved and control characters, trims trailing dots
+ * and spaces, and avoids Windows device names.
+ */
+export function sanitizePathSegment(value: string): string {
+  let segment = value.replace(INVALID_CHARS_REGEX, '-').replace(/-{2,}/g, '-')
+  segment = segment.replace(/[. ]+$/, '').trim()
+
+  if (segment === '.' || segment === '..') {
+    return ''
+  }
+
+  if (WINDOWS_RESERVED_REGEX.test(segment)) {
+    segment = `_${segment}`
+  }
+
+  if (segment.length > MAX_SEGMENT_LENGTH) {
+    const ext = posix.extname(segment)
+    const keep = ext.length < 16 ? ext : ''
+    segment = segment.slice(0, MAX_SEGMENT_LENGTH - keep.length) + keep
+  }
+
+  return segment
+}
+
+/**
+ * Normalize a storage key to a relative, forward-slash path
+ * Throws if the key is absolute or escapes the storage root.
+ */
+export function normalizeStorageKey(key: string): string {
+  const unified = key.replace(/\\/g, '/')
+
+  if (unified.length === 0 || posix.isAbsolute(unified) || /^[a-zA-Z]:/.test(unified)) {
+    throw new StorageError('STORAGE_INVALID_PATH', `Storage key must be a relative path: ${key}`, {
+      context: { key },
+    })
+  }
+
+  const normalized = posix.normalize(unified)
+  if (normalized === '..' || normalized.startsWith('../') || normalized === '.') {
+    throw new StorageError('STORAGE_INVALID_PATH', `Storage key escapes the storage root: ${key}`, {
+      context: { key },
+    })
+  }
+
+  return normalized
+}
+
+/**
+ * Resolve the raw value of a token
+ */
+function resolveToken(token: PathTemplateToken, context: PathTemplateContext): string {
+  switch (token) {
+    case 'id':
+      return context.id ?? ''
+    case 'slug':
+      return context.slug
+    case 'title':
+      return context.title ?? context.slug
+    case 'difficulty':
+      return context.difficulty ?? ''
+    case 'firstTag':
+      return context.firstTag ?? ''
+    case 'type':
+      return context.type ?? ''
+    case 'date':
+      return (context.date ?? new Date()).toISOString().split('T')[0] ?? ''
+  }
+}
+
+function isPathTemplateToken(name: string): name is PathTemplateToken {
+  return (PATH_TEMPLATE_TOKENS as readonly string[]).includes(name)
+}
+
+/**
+ * Trim separator characters left behind by empty tokens ("-two-sum" -> "two-sum")
+ */
+function trimSegment(segment: string): string {
+  return segment
+    .replace(/^[-_. ]+/, '')
+    .replace(/[-_ ]+(?=\.[^.]*$)/, '')
+    .replace(/[-_ ]+$/, '')
+}
+
+/**
+ * Apply suffix and extension to the final path segment
+ */
+function applyFilenameOptions(filename: string, options: PathTemplateOptions): string {
+  if (!options.suffix && !options.extension) {
+    return filename
+  }
+
+  const ext = posix.extname(filename)
+  const stem = ext ? filename.slice(0, -ext.length) : filename
+  return `${stem}${options.suffix ?? ''}${options.extension ?? ext}`
+}
@@ -0,0 +1,331 @@
+import { mkdirSync } from 'fs'
+import { dirname } from 'path'
+
+import { StorageError } from '@lesca/error'
+import type { StorageAdapter } from '@lesca/shared/types'
+import BetterSqlite3 from 'better-sqlite3'
+
+import { normalizeStorageKey } from './path-template'
+
+/**
+ * Row shape of the entries table
+ */
+interface EntryRow {
+  key: string
+  content: string | Buffer
+  metadata: string | null
+  scraped_at: string | null
+  source: string | null
+  updated_at: number
+}
+
+/**
+ * Filter for querying stored entries by their indexed metadata
+ */
+export interface SqliteStorageQuery {
+  /** Only keys starting with this prefix */
+  prefix?: string
+  /** Metadata source (e.g., 'graphql', 'browser') */
+  source?: string
+  /** Only entries scraped at or after this date */
+  scrapedAfter?: Date
+  /** Only entries scraped at or before this date */
+  scrapedBefore?: Date
+  /** Maximum number of entries to return */
+  limit?: number
+}
+
+/**
+ * Stored entry summary returned by queries
+ */
+export interface SqliteStorageEntry {
+  key: string
+  scrapedAt: string | null
+  source: string | null
+  updatedAt: Date
+  metadata: Record<string, unknown> | null
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS entries (
+    key TEXT PRIMARY KEY,
+    content TEXT NOT NULL,
+    metadata TEXT,
+    scraped_at TEXT,
+    source TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_entries_scraped_at ON entries (scraped_at);
+  CREATE INDEX IF NOT EXISTS idx_entries_source ON entries (source);
+  CREATE INDEX IF NOT EXISTS idx_entries_updated_at ON entries (updated_at);
+`
+
+/**
+ * SQLite storage adapter
+ * Stores content and metadata as rows in a single database file.
+ * Metadata that FileSystemStorage keeps in .meta.json sidecars is stored
+ * as JSON, with scrapedAt and source promoted to indexed columns. Keys are
+ * normalized like FileSystemStorage paths, so `a\b.md` and `./a/b.md` are
+ * the same row as `a/b.md`.
+ */
+export class SqliteStorage implements StorageAdapter {
+  private db: BetterSqlite3.Database
+
+  constructor(
+    private databasePath: string,
+    options: {
+      createDirs?: boolean // Auto-create the database directory
+      readonly?: boolean
+    } = {}
+  ) {
+    const { createDirs = true, readonly = false } = options
+
+    try {
+      if (createDirs && databasePath !== ':memory:') {
+        mkdirSync(dirname(databasePath), { recursive: true })
+      }
+
+      this.db = new BetterSqlite3(databasePath, { readonly })
+
+      if (!readonly) {
+        this.db.pragma('journal_mode = WAL')
+        this.db.exec(SCHEMA)
+      }
+    } catch (error) {
+      throw new StorageError(
+        'STORAGE_INVALID_PATH',
+        `Failed to open SQLite database ${databasePath}: ${error instanceof Error ? error.message : String(error)}`,
+        { ...(error instanceof Error ? { cause: error } : {}) }
+      )
+    }
+  }
+
+  /**
+   * Save content under a key (insert or replace)
+   * @param key - Entry key (same relative paths FileSystemStorage uses)
+   * @param content - Content to save
+   * @param metadata - Optional metadata (scrapedAt and source are indexed)
+   */
+  save(key: string, content: string, metadata?: Record<string, unknown>): Promise<void> {
+    return this.execute('STORAGE_WRITE_FAILED', `Failed to save entry ${key}`, () =>
+      this.upsert(normalizeStorageKey(key), content, metadata)
+    )
+  }
+
+  /**
+   * Save binary content under a key (stored as a BLOB)
+   */
+  saveBinary(key: string, data: Uint8Array, metadata?: Record<string, unknown>): Promise<void> {
+    return this.execute('STORAGE_WRITE_FAILED', `Failed to save entry ${key}`, () =>
+      this.upsert(normalizeStorageKey(key), Buffer.from(data), metadata)
+    )
+  }
+
+  /**
+   * Load content by key
+   */
+  load(key: string): Promise<string | null> {
+    return this.execute('STORAGE_READ_FAILED', `Failed to load entry ${key}`, () => {
+      const row = this.db
+        .prepare('SELECT content FROM entries WHERE key = ?')
+        .get(normalizeStorageKey(key)) as Pick<EntryRow, 'content'> | undefined
+      if (!row) return null
+      return typeof row.content === 'string' ? row.content : row.content.toString('utf-8')
+    })
+  }
+
+  /**
+   * Load binary content by key
+   */
+  loadBinary(key: string): Promise<Uint8Array | null> {
+    return this.execute('STORAGE_READ_FAILED', `Failed to load entry ${key}`, () => {
+      const row = this.db
+        .prepare('SELECT content FROM entries WHERE key = ?')
+        .get(normalizeStorageKey(key)) as Pick<EntryRow, 'content'> | undefined
+      if (!row) return null
+      return typeof row.content === 'string' ? Buffer.from(row.content, 'utf-8') : row.content
+    })
+  }
+
+  /**
+   * Check if a key exists
+   */
+  exists(key: string): Promise<boolean> {
+    return this.execute('STORAGE_READ_FAILED', `Failed to check entry ${key}`, () => {
+      return (
+        this.db.prepare('SELECT 1 FROM entries WHERE key = ?').get(normalizeStorageKey(key)) !==
+        undefined
+      )
+    })
+  }
+
+  /**
+   * Delete an entry and its metadata
+   */
+  delete(key: string): Promise<void> {
+    return this.execute('STORAGE_WRITE_FAILED', `Failed to delete entry ${key}`, () => {
+      this.db.prepare('DELETE FROM entries WHERE key = ?').run(normalizeStorageKey(key))
+    })
+  }
+
+  /**
+   * List all keys matching a pattern
+   * Uses the same simple glob syntax as FileSystemStorage (* and ?)
+   */
+  list(pattern?: string): Promise<string[]> {
+    return this.execute('STORAGE_READ_FAILED', 'Failed to list entries', () => {
+      const rows = pattern
+        ? (this.db
+            .prepare('SELECT key FROM entries WHERE key GLOB ? ORDER BY key')
+            .all(pattern) as Array<Pick<EntryRow, 'key'>>)
+        : (this.db.prepare('SELECT key FROM entries ORDER BY key').all() as Array<
+            Pick<EntryRow, 'key'>
+          >)
+      return rows.map((row) => row.key)
+    })
+  }
+
+  /**
+   * Load metadata for an entry
+   */
+  loadMetadata(key: string): Promise<Record<string, unknown> | null> {
+    return this.execute('STORAGE_READ_FAILED', `Failed to load metadata for ${key}`, () => {
+      const row = this.db
+        .prepare('SELECT metadata FROM entries WHERE key = ?')
+        .get(normalizeStorageKey(key)) as Pick<EntryRow, 'metadata'> | undefined
+      return row?.metadata ? (JSON.parse(row.metadata) as Record<string, unknown>) : null
+    })
+  }
+
+  /**
+   * Query entries by their indexed metadata columns
+   * Avoids loading content, so it stays fast on large corpora
+   */
+  query(filter: SqliteStorageQuery = {}): Promise<SqliteStorageEntry[]> {
+    return this.execute('STORAGE_READ_FAILED', 'Failed to query entries', () => {
+      const clauses: string[] = []
+      const params: Record<string, string | number> = {}
+
+      if (filter.prefix !== undefined) {
+        clauses.push('substr(key, 1, @prefixLength) = @prefix')
+        params.prefix = filter.prefix
+        params.prefixLength = filter.prefix.length
+      }
+      if (filter.source !== undefined) {
+        clauses.push('source = @source')
+        params.source = filter.source
+      }
+      if (filter.scrapedAfter) {
+        clauses.push('scraped_at >= @scrapedAfter')
+        params.scrapedAfter = filter.scrapedAfter.toISOString()
+      }
+      if (filter.scrapedBefore) {
+        clauses.push('scraped_at <= @scrapedBefore')
+        params.scrapedBefore = filter.scrapedBefore.toISOString()
+      }
+
+      let sql = 'SELECT key, metadata, scraped_at, source, updated_at FROM entries'
+      if (clauses.length > 0) {
+        sql += ` WHERE ${clauses.join(' AND ')}`
+      }
+      sql += ' ORDER BY key'
+      if (filter.limit !== undefined) {
+        sql += ' LIMIT @limit'
+        params.limit = filter.limit
+      }
+
+      const rows = this.db.prepare(sql).all(params) as Array<Omit<EntryRow, 'content'>>
+
+      return rows.map((row) => ({
+        key: row.key,
+        scrapedAt: row.scraped_at,
+        source: row.source,
+        updatedAt: new Date(row.updated_at),
+        metadata: row.metadata ? (JSON.parse(row.metadata) as Record<string, unknown>) : null,
+      }))
+    })
+  }
+
+  /**
+   * Count stored entries
+   */
+  count(): Promise<number> {
+    return this.execute('STORAGE_READ_FAILED', 'Failed to count entries', () => {
+      const row = this.db.prepare('SELECT COUNT(*) AS total FROM entries').get() as {
+        total: number
+      }
+      return row.total
+    })
+  }
+
+  /**
+   * Get database file path
+   */
+  getDatabasePath(): string {
+    return this.databasePath
+  }
+
+  /**
+   * Close the database connection
+   */
+  close(): void {
+    if (this.db.open) {
+      this.db.close()
+    }
+  }
+
+  /**
+   * Insert or replace an entry
+   */
+  private upsert(
+    key: string,
+    content: string | Buffer,
+    metadata: Record<string, unknown> | undefined
+  ): void {
+    const now = Date.now()
+    this.db
+      .prepare(
+        `INSERT INTO entries (key, content, metadata, scraped_at, source, created_at, updated_at)
+         VALUES (@key, @content, @metadata, @scrapedAt, @source, @now, @now)
+         ON CONFLICT(key) DO UPDATE SET
+           content = excluded.content,
+           metadata = excluded.metadata,
+           scraped_at = excluded.scraped_at,
+           source = excluded.source,
+           updated_at = excluded.updated_at`
+      )
+      .run({
+        key,
+        content,
+        metadata: metadata ? JSON.stringify(metadata) : null,
+        scrapedAt: typeof metadata?.scrapedAt === 'string' ? metadata.scrapedAt : null,
+        source: typeof metadata?.source === 'string' ? metadata.source : null,
+        now,
+      })
+  }
+
+  /**
+   * Run a synchronous database operation and surface failures as StorageError
+   */
+  private execute<T>(
+    code: 'STORAGE_WRITE_FAILED' | 'STORAGE_READ_FAILED',
+    message: string,
+    operation: () => T
+  ): Promise<T> {
+    try {
+      return Promise.resolve(operation())
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return Promise.reject(error)
+      }
+      return Promise.reject(
+        new StorageError(
+          code,
+          `${message}: ${error instanceof Error ? error.message : String(error)}`,
+          { ...(error instanceof Error ? { cause: error } : {}) }
+        )
+      )
+    }
+  }
+}
@@ -0,0 +1,27 @@
+import { join } from 'path'
+
+import type { StorageConfig } from '@lesca/shared/config'
+import type { StorageAdapter } from '@lesca/shared/types'
+
+import { FileSystemStorage } from './filesystem-storage'
+import { SqliteStorage } from './sqlite-storage'
+
+/**
+ * Default database filename when storage.database is not set
+ */
+export const DEFAULT_SQLITE_DATABASE = 'lesca.db'
+
+/**
+ * Create a StorageAdapter based on storage configuration
+ * @param config - Storage configuration (storage.type, storage.path, storage.database)
+ * @param basePath - Output directory override (e.g., from --output)
+ */
+export function createStorage(config: StorageConfig, basePath?: string): StorageAdapter {
+  const path = basePath || config.path
+
+  if (config.type === 'sqlite') {
+    return new SqliteStorage(config.database || join(path, DEFAULT_SQLITE_DATABASE))
+  }
+
+  return new FileSystemStorage(path)
+}
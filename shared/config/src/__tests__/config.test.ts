@@ -512,5 +512,32 @@ scraping:
       expect(config.scraping.discussion.defaultLimit).toBe(10)
       expect(config.scraping.discussion.defaultSort).toBe('hot')
     })
+
+    it('should include stealth defaults that match the schema', () => {
+      const config = getDefaultConfig()
+
+      expect(config.browser.stealth.enabled).toBe(false)
+      expect(config.browser.stealth.evasions.webdriver).toBe(true)
+      expect(config.browser.stealth).toEqual(ConfigSchema.parse({}).browser.stealth)
+    })
+
+    it('should reject invalid stealth settings', () => {
+      expect(() =>
+        validateConfig({ browser: { stealth: { timing: { minDelay: -1 } } } } as any)
+      ).toThrow()
+      expect(() =>
+        validateConfig({ browser: { stealth: { evasions: { webdriver: 'yes' } } } } as any)
+      ).toThrow()
+    })
+
+    it('should include selector defaults', () => {
+      const config = getDefaultConfig()
+
+      expect(config.browser.selectors.promotionThreshold).toBe(3)
+      expect(config.browser.selectors.file).toBeUndefined()
+      expect(() =>
+        validateConfig({ browser: { selectors: { promotionThreshold: -1 } } } as any)
+      ).toThrow()
+    })
   })
 })
@@ -20,7 +20,8 @@ export function getDefaultConfig(): Config {
       autoRefresh: true,
       autoSave: true,
       validateOnLoad: true,
-      secureStorage: 'file',
+      secureStorage: 'auto',
+      encryptCookies: true,
     },
     api: {
       endpoint: 'https://leetcode.com/graphql',
@@ -42,8 +43,9 @@ export function getDefaultConfig(): Config {
     },
     output: {
       format: 'markdown',
-      pattern: '{slug}.md',
+      pattern: '{id}-{slug}.md',
       frontmatter: true,
+      merge: false,
       images: {
         download: false,
         directory: 'images',
@@ -115,12 +117,47 @@ export function getDefaultConfig(): Config {
         strategy: 'per-session',
         minSize: 0,
         maxSize: 2, // Conservative default for MVP
+        globalMaxSize: 4,
+        pinnedSessions: [],
+        contextsPerBrowser: 4,
         maxIdleTime: 180000, // 3 minutes
         reusePages: true,
         acquireTimeout: 30000,
         retryOnFailure: true,
         maxRetries: 3,
       },
+      stealth: {
+        enabled: false,
+        evasions: {
+          webdriver: true,
+          chromeRuntime: true,
+          chromePermissions: true,
+          plugins: true,
+          languages: true,
+          iframeContentWindow: true,
+          webglVendor: false,
+          canvas: false,
+          mediaCodecs: false,
+        },
+        launchArgs: {
+          suppressAutomationFlags: true,
+          additionalArgs: [],
+        },
+        timing: {
+          enabled: false,
+          minDelay: 50,
+          maxDelay: 200,
+          jitter: true,
+        },
+        userAgent: {
+          rotate: false,
+          removeHeadless: true,
+        },
+      },
+      selectors: {
+        promotionThreshold: 3,
+        snapshotDir: resolve(lescaDir, 'snapshots'),
+      },
     },
     cache: {
       enabled: true,
@@ -161,6 +198,9 @@ export function getDefaultPaths() {
     lescaDir,
     configFile: resolve(lescaDir, 'config.yaml'),
     cookieFile: resolve(lescaDir, 'cookies.json'),
+    secretsFile: resolve(lescaDir, 'secrets.json'),
+    rateLimitFile: resolve(lescaDir, 'rate-limits.json'),
+    selectorPromotionsFile: resolve(lescaDir, 'selector-promotions.json'),
     cacheDir: resolve(lescaDir, 'cache'),
     pluginDir: resolve(lescaDir, 'plugins'),
     logDir: resolve(lescaDir, 'logs'),
@@ -176,6 +216,8 @@ export const ENV_MAPPINGS = {
   LESCA_AUTH_METHOD: 'auth.method',
   LESCA_COOKIE_PATH: 'auth.cookiePath',
   LESCA_SESSION_TIMEOUT: 'auth.sessionTimeout',
+  LESCA_SECURE_STORAGE: 'auth.secureStorage',
+  LESCA_ENCRYPT_COOKIES: 'auth.encryptCookies',
 
   // API
   LESCA_API_ENDPOINT: 'api.endpoint',
@@ -193,6 +235,7 @@ export const ENV_MAPPINGS = {
   LESCA_OUTPUT_FORMAT: 'output.format',
   LESCA_OUTPUT_PATTERN: 'output.pattern',
   LESCA_FRONTMATTER: 'output.frontmatter',
+  LESCA_MERGE_NOTES: 'output.merge',
   LESCA_DOWNLOAD_IMAGES: 'output.images.download',
 
   // Scraping
@@ -206,6 +249,7 @@ export const ENV_MAPPINGS = {
   LESCA_BROWSER_HEADLESS: 'browser.headless',
   LESCA_BROWSER_EXECUTABLE: 'browser.executable',
   LESCA_BROWSER_ARGS: 'browser.args',
+  LESCA_STEALTH: 'browser.stealth.enabled',
 
   // Cache
   LESCA_CACHE_ENABLED: 'cache.enabled',
@@ -13,7 +13,8 @@ const AuthConfigSchema = z.object({
   autoRefresh: z.boolean().default(true),
   autoSave: z.boolean().default(true),
   validateOnLoad: z.boolean().default(true),
-  secureStorage: z.enum(['keytar', 'file']).default('file'),
+  secureStorage: z.enum(['auto', 'keytar', 'file']).default('auto'), // 'auto': keyring when available
+  encryptCookies: z.boolean().default(true),
 })
 
 // API configuration
@@ -44,8 +45,9 @@ const StorageConfigSchema = z.object({
 // Output configuration
 const OutputConfigSchema = z.object({
   format: z.enum(['markdown', 'obsidian', 'json']).default('markdown'),
-  pattern: z.string().default('{slug}.md'),
+  pattern: z.string().default('{id}-{slug}.md'),
   frontmatter: z.boolean().default(true),
+  merge: z.boolean().default(false),
   images: z
     .object({
       download: z.boolean().default(false),
@@ -126,9 +128,12 @@ const BrowserConfigSchema = z.object({
   pool: z
     .object({
       enabled: z.boolean().default(true),
-      strategy: z.enum(['per-session']).default('per-session'), // Start simple, add 'global' | 'hybrid' in Phase 2
+      strategy: z.enum(['per-session', 'global', 'hybrid']).default('per-session'),
       minSize: z.number().min(0).default(0),
       maxSize: z.number().min(1).default(2), // Conservative default
+      globalMaxSize: z.number().min(1).default(4), // Shared pool size for 'global' | 'hybrid'
+      pinnedSessions: z.array(z.string()).default([]), // Sessions with dedicated browsers in 'hybrid'
+      contextsPerBrowser: z.number().min(1).default(4), // Contexts sharing one pooled browser
       maxIdleTime: z.number().default(180000), // 3 minutes
       reusePages: z.boolean().default(true),
       acquireTimeout: z.number().default(30000), // 30s timeout for pool.acquire()
@@ -158,6 +163,52 @@ const BrowserConfigSchema = z.object({
       logMetrics: z.boolean().default(false),
     })
     .default({}),
+  stealth: z
+    .object({
+      enabled: z.boolean().default(false),
+      evasions: z
+        .object({
+          webdriver: z.boolean().default(true),
+          chromeRuntime: z.boolean().default(true),
+          chromePermissions: z.boolean().default(true),
+          plugins: z.boolean().default(true),
+          languages: z.boolean().default(true),
+          iframeContentWindow: z.boolean().default(true),
+          webglVendor: z.boolean().default(false),
+          canvas: z.boolean().default(false),
+          mediaCodecs: z.boolean().default(false),
+        })
+        .default({}),
+      launchArgs: z
+        .object({
+          suppressAutomationFlags: z.boolean().default(true),
+          additionalArgs: z.array(z.string()).default([]),
+        })
+        .default({}),
+      timing: z
+        .object({
+          enabled: z.boolean().default(false),
+          minDelay: z.number().min(0).default(50),
+          maxDelay: z.number().min(0).default(200),
+          jitter: z.boolean().default(true),
+        })
+        .default({}),
+      userAgent: z
+        .object({
+          rotate: z.boolean().default(false),
+          custom: z.string().optional(), // Overrides rotation
+          removeHeadless: z.boolean().default(true),
+        })
+        .default({}),
+    })
+    .default({}),
+  selectors: z
+    .object({
+      file: z.string().optional(), // YAML selector overrides
+      promotionThreshold: z.number().int().min(0).default(3), // 0 disables fallback promotion
+      snapshotDir: z.string().optional(), // Saved pages for `lesca selectors check`
+    })
+    .default({}),
 })
 
 // Cache configuration
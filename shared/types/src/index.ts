@@ -219,7 +219,7 @@ export interface UserProfile {
  */
 export interface SubmissionStats {
   acSubmissionNum: Array<{
-    difficulty: Difficulty
+    difficulty: Difficulty | 'All' // 'All' is the total across difficulties
     count: number
   }>
 }
@@ -237,6 +237,26 @@ export interface User {
     displayName: string
     icon: string
   }>
+  recentAcSubmissions?: RecentSubmission[]
+}
+
+/**
+ * Recently accepted submission
+ */
+export interface RecentSubmission {
+  id: string
+  title: string
+  titleSlug: string
+  timestamp: string // Unix seconds, as returned by the API
+}
+
+/**
+ * Sign-in status of the current cookies
+ */
+export interface UserStatus {
+  isSignedIn: boolean
+  username: string | null
+  isPremium: boolean | null
 }
 
 // ============================================================================
@@ -295,6 +315,7 @@ export interface DiscussionScrapeRequest extends BaseScrapeRequest {
 export interface UserScrapeRequest extends BaseScrapeRequest {
   type: 'user'
   username: string
+  recentLimit?: number // Number of recent accepted submissions (default: 20)
 }
 
 /**
@@ -393,6 +414,34 @@ export interface ScrapeResult {
   data?: ProcessedData
   error?: Error
   filePath?: string
+  /** Per-section outcome for bundled problem scrapes */
+  sections?: ScrapeSectionResult[]
+  /** Comparison with the stored copy (incremental scrapes only) */
+  change?: ScrapeChange
+}
+
+/**
+ * Part of a scraped item tracked by the content manifest
+ */
+export type ScrapeChangePart = 'source' | 'snippets' | 'stats' | 'enhancers' | 'output'
+
+/**
+ * How a scraped item compares with the stored copy
+ */
+export interface ScrapeChange {
+  status: 'new' | 'changed' | 'unchanged'
+  /** Parts that differ (only for changed items) */
+  parts: ScrapeChangePart[]
+}
+
+/**
+ * Outcome of one section of a bundled problem scrape
+ */
+export interface ScrapeSectionResult {
+  section: 'problem' | 'editorial' | 'discussions'
+  success: boolean
+  filePath?: string
+  error?: Error
 }
 
 // ============================================================================
@@ -459,13 +508,7 @@ export interface Converter {
  * Content formats
  */
 export type ContentFormat =
-  | 'html'
-  | 'markdown'
-  | 'obsidian'
-  | 'json'
-  | 'csv'
-  | 'editorial'
-  | 'discussion'
+  'html' | 'markdown' | 'obsidian' | 'json' | 'csv' | 'editorial' | 'discussion' | 'user'
 
 /**
  * Converter options
@@ -509,6 +552,21 @@ export interface StorageAdapter {
    * List all keys matching a pattern
    */
   list(pattern?: string): Promise<string[]>
+
+  /**
+   * Save binary content (e.g., downloaded images) with a key
+   */
+  saveBinary?(key: string, data: Uint8Array, metadata?: Record<string, unknown>): Promise<void>
+
+  /**
+   * Load binary content by key
+   */
+  loadBinary?(key: string): Promise<Uint8Array | null>
+
+  /**
+   * Load the metadata saved with a key
+   */
+  loadMetadata?(key: string): Promise<Record<string, unknown> | null>
 }
 
 // ============================================================================
@@ -604,8 +662,12 @@ export interface BrowserDriver {
 
   /**
    * Extract content with fallback selectors
+   * @param onAttempt - Called with each selector tried and whether it yielded content
    */
-  extractWithFallback(selectors: string[]): Promise<string>
+  extractWithFallback(
+    selectors: string[],
+    onAttempt?: (selector: string, matched: boolean) => void
+  ): Promise<string>
 
   /**
    * Get HTML content of an element
@@ -810,12 +872,25 @@ export interface BrowserDriverOptions {
  * Session pool configuration
  */
 export interface SessionPoolConfig {
-  strategy: 'per-session' // Phase 2: add 'global' | 'hybrid'
+  /**
+   * - `per-session`: each session gets its own browser pool
+   * - `global`: all sessions share one pool, each with its own browser context
+   * - `hybrid`: pinned sessions get their own pool, the rest share one
+   */
+  strategy: 'per-session' | 'global' | 'hybrid'
   perSessionMaxSize: number
   perSessionIdleTime: number
   acquireTimeout: number
   retryOnFailure: boolean
   maxRetries: number
+  /** Max browsers in the shared pool (global and hybrid strategies) */
+  globalMaxSize?: number
+  /** Idle timeout of the shared pool in ms */
+  globalIdleTime?: number
+  /** Sessions that keep dedicated browsers under the hybrid strategy */
+  pinnedSessions?: string[]
+  /** Max contexts that share one pooled browser before another browser is acquired */
+  contextsPerBrowser?: number
 }
 
 /**
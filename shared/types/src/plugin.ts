@@ -1,4 +1,4 @@
-import type { ScrapeRequest, ScrapeResult } from '.'
+import type { Processor, RawData, ScrapeRequest, ScrapeResult } from '.'
 
 /**
  * Plugin context passed to onInit
@@ -19,6 +19,20 @@ export interface PluginContext {
   }
 }
 
+/**
+ * Document context passed to onSave
+ */
+export interface PluginSaveContext {
+  /**
+   * Storage key the document is saved under
+   */
+  filename: string
+  /**
+   * Scraped data the document was converted from
+   */
+  rawData: RawData
+}
+
 /**
  * Plugin interface
  */
@@ -38,6 +52,12 @@ export interface Plugin {
    */
   description?: string
 
+  /**
+   * Processors contributed to the processing pipeline
+   * They run after the built-in processors unless `processing.pipeline` orders them.
+   */
+  processors?: Processor[]
+
   /**
    * Called when the plugin is initialized
    */
@@ -59,11 +79,36 @@ export interface Plugin {
     result: ScrapeResult
   ): Promise<ScrapeResult | undefined> | ScrapeResult | undefined
 
+  /**
+   * Called when a strategy returns scraped data, before change detection and conversion
+   * Return modified data, or nothing to use the original
+   */
+  onRawData?(raw: RawData): Promise<RawData | undefined> | RawData | undefined
+
+  /**
+   * Called right before scraped data is converted
+   * Unlike onRawData, it is skipped for unchanged items in incremental scrapes.
+   * Return modified data, or nothing to use the original
+   */
+  onBeforeConvert?(raw: RawData): Promise<RawData | undefined> | RawData | undefined
+
+  /**
+   * Called with the converted document and the data it was converted from
+   * Return modified content, or nothing to use the original
+   */
+  onAfterConvert?(markdown: string, raw: RawData): Promise<string | undefined> | string | undefined
+
+  /**
+   * Called with the storage key built for scraped data
+   * Return another key, or nothing to use the original
+   */
+  onFilename?(filename: string, raw: RawData): Promise<string | undefined> | string | undefined
+
   /**
    * Called before data is saved to storage
    * Can modify the data
    */
-  onSave?(data: unknown): Promise<unknown>
+  onSave?(data: unknown, context?: PluginSaveContext): Promise<unknown>
 
   /**
    * Called when the application is shutting down
@@ -47,6 +47,7 @@ export default defineConfig({
     'turndown',
     'glob',
     'p-throttle',
+    'better-sqlite3',
   ],
 
   tsconfig: './tsconfig.json',